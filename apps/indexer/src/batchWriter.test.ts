@@ -5,6 +5,7 @@ import type {
   NormalizedTrade,
   NormalizedResolution,
   NormalizedCollateralDeposit,
+  NormalizedCollateralWithdrawal,
   NormalizedMarketCreated,
 } from "./types.js";
 
@@ -44,6 +45,16 @@ const COLLATERAL_DEPOSIT: NormalizedCollateralDeposit = {
   amountRaw: 250_000_000n,
 };
 
+const COLLATERAL_WITHDRAWAL: NormalizedCollateralWithdrawal = {
+  eventId: "0000000051-0000000001-0000000002",
+  ledger: 51,
+  ledgerClosedAt: "2024-07-01T00:00:05Z",
+  contractId: "CTEST",
+  account: "GDEPOSITOR",
+  marketId: "market-deposit",
+  amountRaw: 100_000_000n,
+};
+
 const MARKET_CREATED: NormalizedMarketCreated = {
   eventId: "0000000010-0000000000-0000000001",
   ledger: 10,
@@ -71,6 +82,15 @@ function createMockTx() {
     collateralDeposit: {
       create: vi.fn().mockResolvedValue({}),
     },
+    collateralWithdrawal: {
+      create: vi.fn().mockResolvedValue({}),
+    },
+    collateralBalance: {
+      upsert: vi.fn().mockResolvedValue({}),
+    },
+    collateralLedgerEntry: {
+      create: vi.fn().mockResolvedValue({}),
+    },
     market: {
       upsert: vi.fn().mockResolvedValue({}),
     },
@@ -82,6 +102,11 @@ function createMockTx() {
 
 const mockPrisma = {
   $transaction: vi.fn(),
+  oracleSourceAlias: {
+    findMany: vi.fn().mockResolvedValue([
+      { alias: "chain:market_resolved:ctest", canonicalSource: "INTERNAL" },
+    ]),
+  },
 };
 
 vi.mock("../../../src/services/prisma.js", () => ({
@@ -121,6 +146,8 @@ describe("PrismaBatchWriter", () => {
         data: expect.objectContaining({
           marketId: "market-xyz",
           proposedOutcome: false,
+          source: "chain:market_resolved:CTEST",
+          canonicalSource: "INTERNAL",
           status: "PROPOSED",
           operatorAddress: "GORACLE",
         }),
@@ -150,6 +177,58 @@ describe("PrismaBatchWriter", () => {
     );
   });
 
+  it("credits a deposit to the wallet's available collateral", async () => {
+    const tx = createMockTx();
+    tx.indexerProcessedEvent.findUnique.mockResolvedValue(null);
+    mockPrisma.$transaction.mockImplementation(async (fn) => fn(tx));
+
+    const deposit = withIdempotencyKey(COLLATERAL_DEPOSIT);
+    await new PrismaBatchWriter().write([
+      { kind: "collateral_deposited", data: deposit },
+    ]);
+
+    const upsert = tx.collateralBalance.upsert.mock.calls[0][0];
+    expect(upsert.where).toEqual({
+      userAddress_marketId: {
+        userAddress: "GDEPOSITOR",
+        marketId: "market-deposit",
+      },
+    });
+    expect(upsert.update.available.increment.toString()).toBe("25");
+    expect(tx.collateralLedgerEntry.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: "DEPOSIT",
+        reference: deposit.idempotencyKey,
+      }),
+    });
+  });
+
+  it("writes a collateral_withdrawn record and debits the balance", async () => {
+    const tx = createMockTx();
+    tx.indexerProcessedEvent.findUnique.mockResolvedValue(null);
+    mockPrisma.$transaction.mockImplementation(async (fn) => fn(tx));
+
+    const writer = new PrismaBatchWriter();
+    const result = await writer.write([
+      { kind: "collateral_withdrawn", data: withIdempotencyKey(COLLATERAL_WITHDRAWAL) },
+    ]);
+
+    expect(result).toEqual({ written: 1, skipped: 0, errors: [] });
+    expect(tx.collateralWithdrawal.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          account: "GDEPOSITOR",
+          amountRaw: "100000000",
+        }),
+      })
+    );
+    const upsert = tx.collateralBalance.upsert.mock.calls[0][0];
+    expect(upsert.update.available.increment.toString()).toBe("-10");
+    expect(tx.collateralLedgerEntry.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: "WITHDRAWAL" }),
+    });
+  });
+
   it("writes a market_created record via upsert", async () => {
     const tx = createMockTx();
     tx.indexerProcessedEvent.findUnique.mockResolvedValue(null);
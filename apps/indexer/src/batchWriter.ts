@@ -2,16 +2,23 @@ import type {
   NormalizedTrade,
   NormalizedResolution,
   NormalizedCollateralDeposit,
+  NormalizedCollateralWithdrawal,
 } from "./types.js";
 import type {
   PersistedTrade,
   PersistedResolution,
   PersistedCollateralDeposit,
+  PersistedCollateralWithdrawal,
   PersistedMarketCreated,
   DuplicateEventLogger,
 } from "./idempotency.js";
 import { insertAllIfNew, insertIfNew } from "./idempotency.js";
 import { getPrismaClient } from "../../../src/services/prisma.js";
+import { OracleSourceResolver } from "../../../src/oracle/sourceResolver.js";
+import {
+  getTransferEntry,
+  recordCollateralEntry,
+} from "../../../src/services/collateral-ledger.js";
 import type { ILogger } from "../../../packages/shared/src/logger.js";
 import type { PrismaClient } from "../../../src/generated/prisma/client/index.js";
 import { sanitizeForJson } from "./safeJson.js";
@@ -20,6 +27,7 @@ export type BatchRecord =
   | { kind: "trade"; data: PersistedTrade }
   | { kind: "resolution"; data: PersistedResolution }
   | { kind: "collateral_deposited"; data: PersistedCollateralDeposit }
+  | { kind: "collateral_withdrawn"; data: PersistedCollateralWithdrawal }
   | { kind: "market_created"; data: PersistedMarketCreated };
 
 export interface BatchWriteError {
@@ -45,6 +53,7 @@ const UNKNOWN_OPERATOR_ADDRESS =
 
 export class PrismaBatchWriter implements BatchWriter {
   private readonly prisma = getPrismaClient();
+  private readonly sourceResolver = new OracleSourceResolver(this.prisma);
 
   constructor(private readonly logger?: ILogger) {}
 
@@ -102,6 +111,7 @@ export class PrismaBatchWriter implements BatchWriter {
                   | PersistedTrade
                   | PersistedResolution
                   | PersistedCollateralDeposit
+                  | PersistedCollateralWithdrawal
                   | PersistedMarketCreated
               ),
             { logger: duplicateLogger }
@@ -146,11 +156,13 @@ export class PrismaBatchWriter implements BatchWriter {
       | PersistedTrade
       | PersistedResolution
       | PersistedCollateralDeposit
+      | PersistedCollateralWithdrawal
       | PersistedMarketCreated
   ): Promise<
     | PersistedTrade
     | PersistedResolution
     | PersistedCollateralDeposit
+    | PersistedCollateralWithdrawal
     | PersistedMarketCreated
     | null
   > {
@@ -190,11 +202,13 @@ export class PrismaBatchWriter implements BatchWriter {
       await this.reconcileTradeIntoPositions(tx, trade);
     } else if (record.kind === "resolution") {
       const resolution = persisted as PersistedResolution;
+      const source = `${CHAIN_RESOLUTION_SOURCE_PREFIX}:${resolution.contractId}`;
       await tx.resolutionCandidate.create({
         data: {
           marketId: resolution.marketId,
           proposedOutcome: resolution.outcome === "YES",
-          source: `${CHAIN_RESOLUTION_SOURCE_PREFIX}:${resolution.contractId}`,
+          source,
+          canonicalSource: await this.sourceResolver.canonicalize(source),
           status: "PROPOSED",
           operatorAddress:
             resolution.oracleAddress.trim() !== ""
@@ -204,7 +218,7 @@ export class PrismaBatchWriter implements BatchWriter {
         },
       });
     } else if (record.kind === "collateral_deposited") {
-      // collateral_deposited — logged for audit; position accounting handled by a worker.
+      // Logged for audit and credited to the wallet's available collateral.
       const deposit = persisted as PersistedCollateralDeposit;
       await (tx as any).collateralDeposit.create({
         data: {
@@ -217,6 +231,26 @@ export class PrismaBatchWriter implements BatchWriter {
           amountRaw: deposit.amountRaw.toString(),
         },
       });
+      await recordCollateralEntry(tx, getTransferEntry("DEPOSIT", deposit));
+    } else if (record.kind === "collateral_withdrawn") {
+      // The withdrawal already happened on chain, so it is debited even if
+      // it takes the available balance below zero.
+      const withdrawal = persisted as PersistedCollateralWithdrawal;
+      await (tx as any).collateralWithdrawal.create({
+        data: {
+          idempotencyKey: withdrawal.idempotencyKey,
+          eventId: withdrawal.eventId,
+          ledger: withdrawal.ledger,
+          contractId: withdrawal.contractId,
+          account: withdrawal.account,
+          marketId: withdrawal.marketId,
+          amountRaw: withdrawal.amountRaw.toString(),
+        },
+      });
+      await recordCollateralEntry(
+        tx,
+        getTransferEntry("WITHDRAWAL", withdrawal)
+      );
     } else {
       const market = persisted as PersistedMarketCreated;
       await tx.market.upsert({
@@ -321,4 +355,5 @@ export type {
   NormalizedTrade,
   NormalizedResolution,
   NormalizedCollateralDeposit,
+  NormalizedCollateralWithdrawal,
 };
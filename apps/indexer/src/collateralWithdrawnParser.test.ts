@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { nativeToScVal } from "@stellar/stellar-sdk";
+import {
+  parseCollateralWithdrawnEvent,
+  parseCollateralWithdrawnEvents,
+} from "./collateralWithdrawnParser.js";
+import { CollateralWithdrawnParseError } from "./types.js";
+import type { RawChainEvent } from "./types.js";
+
+// ─── Topic XDR fixtures ───────────────────────────────────────────────────────
+const WITHDRAWN_TOPIC = nativeToScVal("collateral_withdrawn", {
+  type: "symbol",
+}).toXDR("base64");
+const DEPOSITED_TOPIC = nativeToScVal("collateral_deposited", {
+  type: "symbol",
+}).toXDR("base64");
+
+/** Contract emits: Vec [ account: ScvString, market_id: ScvU32, amount: ScvI128 ] */
+function makeWithdrawalValueXdr(
+  account: string,
+  marketId: number,
+  amount: bigint
+): string {
+  return nativeToScVal([account, marketId, amount]).toXDR("base64");
+}
+
+function makeEvent(overrides: Partial<RawChainEvent> = {}): RawChainEvent {
+  return {
+    id: "0000000200-0000000001-0000000000",
+    ledger: 200,
+    ledgerClosedAt: "2024-10-02T00:00:00Z",
+    contractId: "CWITHDRAW",
+    type: "contract",
+    pagingToken: "token-wd-1",
+    valueXdr: makeWithdrawalValueXdr("GACCOUNT1234", 7, 120_000_000n),
+    topicsXdr: [WITHDRAWN_TOPIC],
+    ...overrides,
+  };
+}
+
+describe("parseCollateralWithdrawnEvent", () => {
+  it("parses tuple payload (account, market_id, amount)", () => {
+    const w = parseCollateralWithdrawnEvent(makeEvent());
+    expect(w.eventId).toBe("0000000200-0000000001-0000000000");
+    expect(w.contractId).toBe("CWITHDRAW");
+    expect(w.account).toBe("GACCOUNT1234");
+    expect(w.marketId).toBe("7");
+    expect(w.amountRaw).toBe(120_000_000n);
+  });
+
+  it("throws CollateralWithdrawnParseError for a deposit event", () => {
+    expect(() =>
+      parseCollateralWithdrawnEvent(makeEvent({ topicsXdr: [DEPOSITED_TOPIC] }))
+    ).toThrow(CollateralWithdrawnParseError);
+  });
+
+  it("throws CollateralWithdrawnParseError for a short tuple", () => {
+    expect(() =>
+      parseCollateralWithdrawnEvent(
+        makeEvent({
+          valueXdr: nativeToScVal(["GABC", 1]).toXDR("base64"),
+        })
+      )
+    ).toThrow(CollateralWithdrawnParseError);
+  });
+});
+
+describe("parseCollateralWithdrawnEvents", () => {
+  it("skips other events and collects parse errors", () => {
+    const { withdrawals, errors } = parseCollateralWithdrawnEvents([
+      makeEvent(),
+      makeEvent({ id: "deposit", topicsXdr: [DEPOSITED_TOPIC] }),
+      makeEvent({ id: "bad", valueXdr: nativeToScVal(42).toXDR("base64") }),
+    ]);
+
+    expect(withdrawals).toHaveLength(1);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].eventId).toBe("bad");
+  });
+});
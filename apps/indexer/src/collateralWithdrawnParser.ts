@@ -0,0 +1,142 @@
+import { xdr, scValToNative } from "@stellar/stellar-sdk";
+import type { RawChainEvent } from "./types.js";
+import { CollateralWithdrawnParseError } from "./types.js";
+import { safeStringify } from "./safeJson.js";
+
+const COLLATERAL_WITHDRAWN_TOPIC = "collateral_withdrawn";
+
+function decodeScVal(xdrBase64: string): unknown {
+  return scValToNative(xdr.ScVal.fromXDR(xdrBase64, "base64"));
+}
+
+function formatDecodedValue(value: unknown): string {
+  return JSON.stringify(value, (_key, current) =>
+    typeof current === "bigint" ? current.toString() : current
+  );
+}
+
+function isCollateralWithdrawnEvent(topicsXdr: string[]): boolean {
+  if (topicsXdr.length === 0) return false;
+  try {
+    return decodeScVal(topicsXdr[0]) === COLLATERAL_WITHDRAWN_TOPIC;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalized collateral withdrawal record.
+ *
+ * Contract emits a 3-element Vec:
+ *   [account: ScvString, market_id: ScvU32, amount: ScvI128]
+ */
+export interface NormalizedCollateralWithdrawal {
+  eventId: string;
+  ledger: number;
+  ledgerClosedAt: string;
+  contractId: string;
+  /** Stellar account that withdrew collateral. */
+  account: string;
+  /** Numeric market identifier (u32 cast to string for DB compat). */
+  marketId: string;
+  /** Withdrawal amount in base units (i128). */
+  amountRaw: bigint;
+}
+
+function toBigInt(value: unknown, fieldName: string, eventId: string): bigint {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number" && Number.isInteger(value))
+    return BigInt(value);
+  if (typeof value === "string") {
+    try {
+      return BigInt(value);
+    } catch {
+      /* fall through */
+    }
+  }
+  throw new CollateralWithdrawnParseError(
+    `Field "${fieldName}" cannot be converted to bigint: ${String(value)}`,
+    eventId
+  );
+}
+
+/**
+ * Parse a single RawChainEvent into a NormalizedCollateralWithdrawal.
+ *
+ * Expected on-chain value: Vec [ account: str, market_id: u32, amount: i128 ]
+ *
+ * @throws CollateralWithdrawnParseError on wrong topic or malformed payload.
+ */
+export function parseCollateralWithdrawnEvent(
+  event: RawChainEvent
+): NormalizedCollateralWithdrawal {
+  if (!isCollateralWithdrawnEvent(event.topicsXdr)) {
+    throw new CollateralWithdrawnParseError(
+      `Event topic is not "${COLLATERAL_WITHDRAWN_TOPIC}"`,
+      event.id
+    );
+  }
+
+  let decoded: unknown;
+  try {
+    decoded = decodeScVal(event.valueXdr);
+  } catch (err) {
+    throw new CollateralWithdrawnParseError(
+      "Failed to decode event value XDR",
+      event.id,
+      err
+    );
+  }
+
+  if (!Array.isArray(decoded) || decoded.length < 3) {
+    throw new CollateralWithdrawnParseError(
+      `collateral_withdrawn payload must be a 3-element tuple, got: ${formatDecodedValue(decoded)}`,
+      event.id
+    );
+  }
+
+  const [account, marketId, amount] = decoded;
+
+  if (typeof account !== "string") {
+    throw new CollateralWithdrawnParseError(
+      `Field "account" must be a string, got ${typeof account}`,
+      event.id
+    );
+  }
+
+  return {
+    eventId: event.id,
+    ledger: event.ledger,
+    ledgerClosedAt: event.ledgerClosedAt,
+    contractId: event.contractId,
+    account,
+    marketId: String(marketId),
+    amountRaw: toBigInt(amount, "amount", event.id),
+  };
+}
+
+/**
+ * Parse a batch, skipping non-collateral-withdrawn events silently.
+ */
+export function parseCollateralWithdrawnEvents(events: RawChainEvent[]): {
+  withdrawals: NormalizedCollateralWithdrawal[];
+  errors: CollateralWithdrawnParseError[];
+} {
+  const withdrawals: NormalizedCollateralWithdrawal[] = [];
+  const errors: CollateralWithdrawnParseError[] = [];
+
+  for (const event of events) {
+    if (!isCollateralWithdrawnEvent(event.topicsXdr)) continue;
+    try {
+      withdrawals.push(parseCollateralWithdrawnEvent(event));
+    } catch (err) {
+      errors.push(
+        err instanceof CollateralWithdrawnParseError
+          ? err
+          : new CollateralWithdrawnParseError(String(err), event.id, err)
+      );
+    }
+  }
+
+  return { withdrawals, errors };
+}
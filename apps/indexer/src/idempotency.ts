@@ -4,6 +4,7 @@ import type {
   NormalizedTrade,
   NormalizedResolution,
   NormalizedCollateralDeposit,
+  NormalizedCollateralWithdrawal,
   NormalizedMarketCreated,
 } from "./types.js";
 
@@ -101,6 +102,11 @@ export interface PersistedCollateralDeposit extends NormalizedCollateralDeposit
   idempotencyKey: string;
 }
 
+/** A NormalizedCollateralWithdrawal stamped with its idempotency key, ready for storage. */
+export interface PersistedCollateralWithdrawal extends NormalizedCollateralWithdrawal {
+  idempotencyKey: string;
+}
+
 /** A NormalizedMarketCreated stamped with its idempotency key, ready for storage. */
 export interface PersistedMarketCreated extends NormalizedMarketCreated {
   idempotencyKey: string;
@@ -113,6 +119,9 @@ export function withIdempotencyKey(
 export function withIdempotencyKey(
   deposit: NormalizedCollateralDeposit
 ): PersistedCollateralDeposit;
+export function withIdempotencyKey(
+  withdrawal: NormalizedCollateralWithdrawal
+): PersistedCollateralWithdrawal;
 export function withIdempotencyKey(
   market: NormalizedMarketCreated
 ): PersistedMarketCreated;
@@ -121,11 +130,13 @@ export function withIdempotencyKey(
     | NormalizedTrade
     | NormalizedResolution
     | NormalizedCollateralDeposit
+    | NormalizedCollateralWithdrawal
     | NormalizedMarketCreated
 ):
   | PersistedTrade
   | PersistedResolution
   | PersistedCollateralDeposit
+  | PersistedCollateralWithdrawal
   | PersistedMarketCreated {
   const { key } = generateIdempotencyKey({
     id: record.eventId,
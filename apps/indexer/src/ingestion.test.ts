@@ -87,6 +87,7 @@ describe("PollingIngestionLoop", () => {
     metrics = {
       setLatestIndexedLedgerSequence: vi.fn(),
       getLatestIndexedLedgerSequence: vi.fn().mockReturnValue(10),
+      setNetworkLatestLedgerSequence: vi.fn(),
       toLogFields: vi.fn().mockReturnValue({}),
     } as unknown as InternalIndexerMetricsService;
     eventFetcher = {
@@ -218,6 +219,7 @@ describe("PollingIngestionLoop", () => {
     await (loop as unknown as { tick(): Promise<void> }).tick();
     expect(storage.saveCursor).toHaveBeenCalledTimes(1);
     expect(storage.saveCursor).toHaveBeenCalledWith("200");
+    expect(metrics.setNetworkLatestLedgerSequence).toHaveBeenCalledWith(500);
   });
 
   it("graceful shutdown: stop() awaits active tick and flushes cursor", async () => {
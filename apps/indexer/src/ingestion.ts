@@ -6,12 +6,14 @@ import type { EventFetcher } from "./eventFetcher.js";
 import { parseTradeEvents } from "./tradeParser.js";
 import { parseResolutionEvents } from "./resolutionParser.js";
 import { parseCollateralDepositedEvents } from "./collateralDepositedParser.js";
+import { parseCollateralWithdrawnEvents } from "./collateralWithdrawnParser.js";
 import { parseMarketCreatedEvents } from "./marketCreatedParser.js";
 import { withIdempotencyKey } from "./idempotency.js";
 import {
   TradeParseError,
   ResolutionParseError,
   CollateralDepositedParseError,
+  CollateralWithdrawnParseError,
   MarketCreatedParseError,
 } from "./types.js";
 
@@ -200,6 +202,7 @@ export class PollingIngestionLoop implements IngestionLoop {
         startLedger,
         endLedger: provisionalEnd,
       });
+    this.metrics.setNetworkLatestLedgerSequence(latestLedger);
 
     if (startLedger > latestLedger) {
       return {
@@ -216,6 +219,8 @@ export class PollingIngestionLoop implements IngestionLoop {
       parseResolutionEvents(events);
     const { deposits, errors: depositErrors } =
       parseCollateralDepositedEvents(events);
+    const { withdrawals, errors: withdrawalErrors } =
+      parseCollateralWithdrawnEvents(events);
     const { markets, errors: marketErrors } = parseMarketCreatedEvents(events);
 
     for (const error of tradeErrors) {
@@ -242,6 +247,14 @@ export class PollingIngestionLoop implements IngestionLoop {
       });
     }
 
+    for (const error of withdrawalErrors) {
+      this.logger.warn("Collateral withdrawal parse error — skipping event", {
+        eventId: error.eventId,
+        error: error.message,
+        parseErrorType: CollateralWithdrawnParseError.name,
+      });
+    }
+
     for (const error of marketErrors) {
       this.logger.warn("Market created parse error — skipping event", {
         eventId: error.eventId,
@@ -275,6 +288,12 @@ export class PollingIngestionLoop implements IngestionLoop {
           data: withIdempotencyKey(deposit),
         })
       ),
+      ...withdrawals.map(
+        (withdrawal): BatchRecord => ({
+          kind: "collateral_withdrawn",
+          data: withIdempotencyKey(withdrawal),
+        })
+      ),
     ];
 
     const writeResult = await this.deps.batchWriter.write(records);
@@ -302,6 +321,7 @@ export class PollingIngestionLoop implements IngestionLoop {
       tradesParsed: trades.length,
       resolutionsParsed: resolutions.length,
       collateralDepositsParsed: deposits.length,
+      collateralWithdrawalsParsed: withdrawals.length,
       written: writeResult.written,
       skipped: writeResult.skipped,
       writeErrors: writeResult.errors.length,
@@ -7,6 +7,12 @@ import { PrismaCursorStorageClient } from "./storage.js";
 import { EventFetcher } from "./eventFetcher.js";
 import { PrismaBatchWriter } from "./batchWriter.js";
 import { disconnectPrisma } from "../../../src/services/prisma.js";
+import {
+  resolveMetricsPort,
+  startMetricsServer,
+} from "../../../packages/shared/src/metrics.js";
+
+const DEFAULT_METRICS_PORT = 9464;
 
 async function bootstrap(): Promise<void> {
   const config = loadConfig();
@@ -56,6 +62,12 @@ async function bootstrap(): Promise<void> {
 
   logger.info("Loaded persisted cursor", { cursor: initialCursor });
 
+  const metricsPort = resolveMetricsPort(DEFAULT_METRICS_PORT);
+  const metricsServer = await startMetricsServer(metrics.registry, {
+    port: metricsPort,
+  });
+  logger.info("Metrics endpoint listening", { port: metricsPort });
+
   await ingestionLoop.start(initialCursor);
   logger.info("Indexer startup complete", {
     metrics: metrics.toLogFields(),
@@ -89,6 +101,7 @@ async function bootstrap(): Promise<void> {
     try {
       // Stop ingestion loop and flush checkpoint
       await ingestionLoop.stop();
+      metricsServer.close();
       await disconnectPrisma();
       clearTimeout(timeoutHandle);
 
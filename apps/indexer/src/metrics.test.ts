@@ -35,3 +35,23 @@ describe("InternalIndexerMetricsService", () => {
     });
   });
 });
+
+describe("InternalIndexerMetricsService ledger lag", () => {
+  it("is null until the network tip is known", () => {
+    const service = new InternalIndexerMetricsService();
+    service.setLatestIndexedLedgerSequence(100);
+    expect(service.getLedgerLag()).toBeNull();
+  });
+
+  it("exposes the gap between the network tip and the indexed ledger", async () => {
+    const service = new InternalIndexerMetricsService();
+    service.setLatestIndexedLedgerSequence(100);
+    service.setNetworkLatestLedgerSequence(130);
+
+    expect(service.getLedgerLag()).toBe(30);
+    const output = await service.registry.render();
+    expect(output).toContain("vatix_indexer_ledger_lag 30");
+    expect(output).toContain("vatix_indexer_latest_indexed_ledger 100");
+    expect(output).toContain("vatix_indexer_network_latest_ledger 130");
+  });
+});
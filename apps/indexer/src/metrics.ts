@@ -1,3 +1,8 @@
+import {
+  MetricsRegistry,
+  type Gauge,
+} from "../../../packages/shared/src/metrics.js";
+
 export interface IndexerMetricsSnapshot {
   latestIndexedLedgerSequence: number | null;
 }
@@ -10,15 +15,61 @@ export interface IndexerMetricsLog {
 
 export class InternalIndexerMetricsService {
   private latestIndexedLedgerSequence: number | null = null;
+  private networkLatestLedgerSequence: number | null = null;
+
+  /** Served on the indexer's GET /metrics */
+  readonly registry: MetricsRegistry;
+  private readonly latestIndexedLedgerGauge: Gauge;
+  private readonly networkLatestLedgerGauge: Gauge;
+  private readonly ledgerLagGauge: Gauge;
+
+  constructor(registry: MetricsRegistry = new MetricsRegistry()) {
+    this.registry = registry;
+    this.latestIndexedLedgerGauge = registry.gauge({
+      name: "vatix_indexer_latest_indexed_ledger",
+      help: "Sequence of the last ledger the indexer processed",
+    });
+    this.networkLatestLedgerGauge = registry.gauge({
+      name: "vatix_indexer_network_latest_ledger",
+      help: "Latest ledger reported by the Stellar RPC on the last fetch",
+    });
+    this.ledgerLagGauge = registry.gauge({
+      name: "vatix_indexer_ledger_lag",
+      help: "Ledgers between the network tip and the last indexed ledger",
+    });
+  }
 
   setLatestIndexedLedgerSequence(sequence: number): void {
     this.latestIndexedLedgerSequence = sequence;
+    this.latestIndexedLedgerGauge.set(undefined, sequence);
+    this.updateLedgerLag();
   }
 
   getLatestIndexedLedgerSequence(): number | null {
     return this.latestIndexedLedgerSequence;
   }
 
+  /** Record the network tip seen by the event fetcher. */
+  setNetworkLatestLedgerSequence(sequence: number): void {
+    this.networkLatestLedgerSequence = sequence;
+    this.networkLatestLedgerGauge.set(undefined, sequence);
+    this.updateLedgerLag();
+  }
+
+  /** `null` until both the network tip and an indexed ledger are known. */
+  getLedgerLag(): number | null {
+    if (
+      this.latestIndexedLedgerSequence === null ||
+      this.networkLatestLedgerSequence === null
+    ) {
+      return null;
+    }
+    return Math.max(
+      0,
+      this.networkLatestLedgerSequence - this.latestIndexedLedgerSequence
+    );
+  }
+
   getSnapshot(): IndexerMetricsSnapshot {
     return {
       latestIndexedLedgerSequence: this.latestIndexedLedgerSequence,
@@ -31,4 +82,11 @@ export class InternalIndexerMetricsService {
       latestIndexedLedgerSequence: this.latestIndexedLedgerSequence,
     };
   }
+
+  private updateLedgerLag(): void {
+    const lag = this.getLedgerLag();
+    if (lag !== null) {
+      this.ledgerLagGauge.set(undefined, lag);
+    }
+  }
 }
@@ -22,7 +22,7 @@ export async function marketsRoutes(fastify: FastifyInstance) {
           properties: {
             status: {
               type: "string",
-              enum: ["ACTIVE", "RESOLVED", "CANCELLED"],
+              enum: ["ACTIVE", "CLOSED", "RESOLVED", "CANCELLED"],
             },
             limit: { type: "integer", minimum: 1, maximum: 100 },
           },
@@ -97,6 +97,34 @@ export class CollateralDepositedParseError extends Error {
   }
 }
 
+// ─── Collateral withdrawal types ─────────────────────────────────────────────
+
+/**
+ * Contract event: collateral_withdrawn
+ * Payload: Vec [ account: ScvString, market_id: ScvU32, amount: ScvI128 ]
+ */
+export interface NormalizedCollateralWithdrawal {
+  eventId: string;
+  ledger: number;
+  ledgerClosedAt: string;
+  contractId: string;
+  account: string;
+  /** u32 cast to string for DB compatibility */
+  marketId: string;
+  amountRaw: bigint;
+}
+
+export class CollateralWithdrawnParseError extends Error {
+  constructor(
+    message: string,
+    public readonly eventId: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "CollateralWithdrawnParseError";
+  }
+}
+
 // ─── Market created types ────────────────────────────────────────────────────
 
 export type MarketCreatedStatus = "ACTIVE" | "RESOLVED" | "CANCELLED";
@@ -82,6 +82,29 @@ describe("FallbackAdapter", () => {
     } satisfies Partial<FallbackProviderError>);
   });
 
+  it("reports NOT_YET_KNOWN when no provider in the chain knows the outcome", async () => {
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("too early", { status: 425 }))
+      .mockResolvedValueOnce(okResponse({ outcome: null, confidence: 0 }));
+    const adapter = makeAdapter({
+      providers: [
+        { url: PROVIDER_URL, source: "fallback-1" },
+        { url: "https://fallback-2.example.com", source: "fallback-2" },
+      ],
+      retryConfig: { maxRetries: 0 },
+      fetchFn,
+    });
+
+    await expect(
+      adapter.resolve({ marketId: "market-1", oracleAddress: "GORACLE" })
+    ).rejects.toMatchObject({
+      name: "FallbackProviderError",
+      type: "NOT_YET_KNOWN",
+    });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
   it("throws INVALID_RESPONSE when outcome or confidence is missing", async () => {
     const fetchFn = vi.fn().mockResolvedValue(okResponse({ outcome: true })); // missing confidence
     const adapter = makeAdapter({
@@ -9,10 +9,11 @@
  * @module apps/oracle/fallback-adapter
  */
 
-import type {
-  ProviderAdapter,
-  ProviderResult,
-  ResolutionRequest,
+import {
+  isOutcomeNotYetKnown,
+  type ProviderAdapter,
+  type ProviderResult,
+  type ResolutionRequest,
 } from "./provider-adapter.js";
 import { withTimeout, DEFAULT_TIMEOUT_MS } from "./timeout-utils.js";
 import { withRetry, type RetryConfig } from "./retry-utils.js";
@@ -51,6 +52,7 @@ export type FallbackProviderErrorType =
   | "AUTHENTICATION"
   | "INVALID_RESPONSE"
   | "NOT_FOUND"
+  | "NOT_YET_KNOWN"
   | "RATE_LIMIT"
   | "TIMEOUT"
   | "UPSTREAM"
@@ -68,7 +70,8 @@ export class FallbackProviderError extends Error {
 }
 
 interface FallbackProviderResponse {
-  outcome: boolean;
+  /** Null while the provider does not know the outcome yet */
+  outcome: boolean | null;
   confidence: number;
   timestamp?: string;
   metadata?: Record<string, unknown>;
@@ -136,6 +139,15 @@ export class FallbackAdapter implements ProviderAdapter {
       }
     }
 
+    // Providers that answered "not yet known" are not failing; report that
+    // rather than a failure when none of them knew the outcome.
+    if (errors.every(isOutcomeNotYetKnown)) {
+      throw new FallbackProviderError(
+        "NOT_YET_KNOWN",
+        `No fallback provider knows the outcome of market ${request.marketId} yet`
+      );
+    }
+
     throw new FallbackProviderError(
       "ALL_PROVIDERS_FAILED",
       `All fallback providers failed: ${errors.map((e) => e.message).join("; ")}`
@@ -198,6 +210,13 @@ export class FallbackAdapter implements ProviderAdapter {
     const payload =
       (await response.json()) as Partial<FallbackProviderResponse>;
 
+    if (payload.outcome === null) {
+      throw new FallbackProviderError(
+        "NOT_YET_KNOWN",
+        `Fallback provider ${provider.source ?? provider.url} does not know the outcome of market ${request.marketId} yet`
+      );
+    }
+
     if (
       typeof payload.outcome !== "boolean" ||
       typeof payload.confidence !== "number" ||
@@ -242,6 +261,7 @@ export class FallbackAdapter implements ProviderAdapter {
   private mapStatus(status: number): FallbackProviderErrorType {
     if (status === 401 || status === 403) return "AUTHENTICATION";
     if (status === 404) return "NOT_FOUND";
+    if (status === 425) return "NOT_YET_KNOWN";
     if (status === 429) return "RATE_LIMIT";
     return "UPSTREAM";
   }
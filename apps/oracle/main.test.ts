@@ -2,7 +2,7 @@
  * Oracle Boot Flow Tests
  *
  * Covers apps/oracle/main.ts's poll() — the per-cycle
- * fetch-markets -> resolve -> sign -> persist -> enqueue pipeline.
+ * fetch-ended-markets -> resolve -> sign -> persist -> enqueue pipeline.
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
@@ -16,7 +16,9 @@ const mockLogger = {
 
 const mockPrisma = {
   market: { findMany: vi.fn() },
-  oracleReport: { create: vi.fn() },
+  oracleReport: { upsert: vi.fn() },
+  resolutionAttempt: { upsert: vi.fn() },
+  oracleSourceAlias: { findMany: vi.fn() },
 };
 
 const mockQueue = {
@@ -28,6 +30,10 @@ const mockOracleService = {
   resolve: vi.fn(),
 };
 
+const mockQuorumAdapter = {
+  resolve: vi.fn(),
+};
+
 vi.mock("../../src/services/prisma.js", () => ({
   getPrismaClient: () => mockPrisma,
   disconnectPrisma: vi.fn(),
@@ -51,7 +57,9 @@ vi.mock("./oracle-config.js", () => ({
 }));
 
 vi.mock("./oracle-service.js", () => ({
-  OracleService: vi.fn(() => mockOracleService),
+  OracleService: vi.fn(function () {
+    return mockOracleService;
+  }),
 }));
 
 vi.mock("./primary-adapter.js", () => ({
@@ -62,20 +70,47 @@ vi.mock("./fallback-adapter.js", () => ({
   FallbackAdapter: vi.fn(),
 }));
 
+vi.mock("./quorum-adapter.js", () => ({
+  QuorumAdapter: vi.fn(function () {
+    return mockQuorumAdapter;
+  }),
+  isQuorumConflict: vi.fn(() => false),
+}));
+
 vi.mock("./signature-helper.js", () => ({
   signResolutionReport: vi.fn(() => ({
-    payload: { marketId: "m1", outcome: true, timestamp: "2024-01-01T00:00:00Z" },
+    payload: {
+      marketId: "m1",
+      outcome: true,
+      timestamp: "2024-01-01T00:00:00Z",
+    },
     signature: "sig",
     publicKey: "pub",
   })),
 }));
 
 vi.mock("../workers/src/oracle/redis-submission-queue.js", () => ({
-  RedisSubmissionQueue: vi.fn(() => mockQueue),
+  RedisSubmissionQueue: vi.fn(function () {
+    return mockQueue;
+  }),
 }));
 
 import { poll } from "./main.js";
 import { loadOracleConfig } from "./oracle-config.js";
+import { QuorumAdapter } from "./quorum-adapter.js";
+
+const CONFIG = {
+  pollIntervalMs: 60_000,
+  challengeWindowSeconds: 86_400,
+  resolutionGraceSeconds: 300,
+  resolutionBackoffSeconds: 60,
+  resolutionMaxBackoffSeconds: 3_600,
+  aggregationMode: "failover",
+  quorum: undefined,
+  quorumMinAgreement: 1,
+  logLevel: "info",
+  secretKey: "SECRETKEY",
+};
 
 const RESOLVED_RESULT = {
   outcome: true,
@@ -89,19 +124,16 @@ const RESOLVED_RESULT = {
 describe("apps/oracle/main poll()", () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    (loadOracleConfig as ReturnType<typeof vi.fn>).mockReturnValue({
-      pollIntervalMs: 60_000,
-      challengeWindowSeconds: 86_400,
-      logLevel: "info",
-      secretKey: "SECRETKEY",
-    });
+    (loadOracleConfig as ReturnType<typeof vi.fn>).mockReturnValue(CONFIG);
     mockQueue.initialize.mockResolvedValue(undefined);
     mockQueue.enqueue.mockResolvedValue(true);
+    mockPrisma.resolutionAttempt.upsert.mockResolvedValue({});
+    mockPrisma.oracleSourceAlias.findMany.mockResolvedValue([]);
   });
 
-  it("resolves active markets, persists an OracleReport, and enqueues each result", async () => {
+  it("resolves ended markets, persists an OracleReport, and enqueues each result", async () => {
     mockPrisma.market.findMany.mockResolvedValue([
-      { id: "market-1", oracleAddress: "GORACLE1" },
+      { id: "market-1", oracleAddress: "GORACLE1", resolutionAttempt: null },
     ]);
     mockOracleService.resolve.mockResolvedValue(RESOLVED_RESULT);
 
@@ -109,15 +141,21 @@ describe("apps/oracle/main poll()", () => {
 
     expect(mockQueue.initialize).toHaveBeenCalledTimes(1);
     expect(mockPrisma.market.findMany).toHaveBeenCalledWith(
-      expect.objectContaining({ where: { status: "ACTIVE" } })
+      expect.objectContaining({
+        where: expect.objectContaining({
+          status: { in: ["ACTIVE", "CLOSED"] },
+          endTime: { lte: expect.any(Date) },
+          resolutionCandidates: { none: { status: { not: "REJECTED" } } },
+        }),
+      })
     );
     expect(mockOracleService.resolve).toHaveBeenCalledWith({
       marketId: "market-1",
       oracleAddress: "GORACLE1",
     });
-    expect(mockPrisma.oracleReport.create).toHaveBeenCalledWith(
+    expect(mockPrisma.oracleReport.upsert).toHaveBeenCalledWith(
       expect.objectContaining({
-        data: expect.objectContaining({
+        create: expect.objectContaining({
           marketId: "market-1",
           source: "GORACLE1",
           confidence: 0.95,
@@ -136,23 +174,30 @@ describe("apps/oracle/main poll()", () => {
         }),
       })
     );
+    expect(mockPrisma.resolutionAttempt.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ status: "SUBMITTED" }),
+      })
+    );
   });
 
-  it("skips markets without an oracle address", async () => {
-    mockPrisma.market.findMany.mockResolvedValue([
-      { id: "market-1", oracleAddress: null },
-    ]);
+  it("applies the configured grace delay to the market end time", async () => {
+    mockPrisma.market.findMany.mockResolvedValue([]);
+    const before = Date.now();
 
     await poll();
 
+    const { where } = mockPrisma.market.findMany.mock.calls[0][0];
+    const endedBefore = (where.endTime.lte as Date).getTime();
+    expect(endedBefore).toBeGreaterThanOrEqual(before - 300_000);
+    expect(endedBefore).toBeLessThanOrEqual(Date.now() - 300_000);
     expect(mockOracleService.resolve).not.toHaveBeenCalled();
-    expect(mockQueue.enqueue).not.toHaveBeenCalled();
   });
 
   it("logs and continues when one market fails to resolve, without aborting the batch", async () => {
     mockPrisma.market.findMany.mockResolvedValue([
-      { id: "market-fail", oracleAddress: "GFAIL" },
-      { id: "market-ok", oracleAddress: "GOK" },
+      { id: "market-fail", oracleAddress: "GFAIL", resolutionAttempt: null },
+      { id: "market-ok", oracleAddress: "GOK", resolutionAttempt: null },
     ]);
     mockOracleService.resolve
       .mockRejectedValueOnce(new Error("provider unavailable"))
@@ -175,11 +220,34 @@ describe("apps/oracle/main poll()", () => {
     );
   });
 
+  it("resolves through the QuorumAdapter in quorum mode", async () => {
+    (loadOracleConfig as ReturnType<typeof vi.fn>).mockReturnValue({
+      ...CONFIG,
+      aggregationMode: "quorum",
+      quorum: 2,
+      quorumMinAgreement: 0.75,
+    });
+    mockPrisma.market.findMany.mockResolvedValue([
+      { id: "market-1", oracleAddress: "GORACLE1", resolutionAttempt: null },
+    ]);
+    mockQuorumAdapter.resolve.mockResolvedValue(RESOLVED_RESULT);
+
+    await poll();
+
+    expect(QuorumAdapter).toHaveBeenCalledWith(
+      expect.objectContaining({ quorum: 2, minAgreement: 0.75 })
+    );
+    expect(mockQuorumAdapter.resolve).toHaveBeenCalledWith({
+      marketId: "market-1",
+      oracleAddress: "GORACLE1",
+    });
+    expect(mockOracleService.resolve).not.toHaveBeenCalled();
+    expect(mockQueue.enqueue).toHaveBeenCalledTimes(1);
+  });
+
   it("throws when ORACLE_SECRET_KEY is not configured", async () => {
     (loadOracleConfig as ReturnType<typeof vi.fn>).mockReturnValue({
-      pollIntervalMs: 60_000,
-      challengeWindowSeconds: 86_400,
-      logLevel: "info",
+      ...CONFIG,
       secretKey: undefined,
     });
 
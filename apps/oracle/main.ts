@@ -2,8 +2,10 @@
  * Oracle Entrypoint
  *
  * Poll → resolve → sign → OracleReport → enqueue pipeline.
- * Reads open markets from DB, resolves each via the OracleService,
- * signs the result, and pushes a SubmissionQueueItem into Redis.
+ * Each cycle hands the ResolutionScheduler the markets that have passed
+ * their end time; it resolves each via the OracleService (or the
+ * QuorumAdapter in quorum mode), signs the result, and pushes a
+ * SubmissionQueueItem into Redis.
  *
  * @module apps/oracle/main
  */
@@ -20,14 +22,28 @@ import { loadOracleConfig } from "./oracle-config.js";
 import { OracleService } from "./oracle-service.js";
 import { PrimaryAdapter } from "./primary-adapter.js";
 import { FallbackAdapter } from "./fallback-adapter.js";
-import { signResolutionReport } from "./signature-helper.js";
+import { QuorumAdapter } from "./quorum-adapter.js";
+import {
+  ResolutionScheduler,
+  type MarketResolver,
+} from "./resolution-scheduler.js";
+import { OracleSourceResolver } from "../../src/oracle/sourceResolver.js";
 import { RedisSubmissionQueue } from "../workers/src/oracle/redis-submission-queue.js";
-import type { ResolutionRequest } from "./provider-adapter.js";
+import { oracleMetrics } from "./metrics.js";
+import {
+  resolveMetricsPort,
+  startMetricsServer,
+} from "../../packages/shared/src/metrics.js";
 import type {
   ShutdownHandler,
   ShutdownSignal,
 } from "../workers/src/finalization/types.js";
 
+const DEFAULT_METRICS_PORT = 9465;
+
+/** Kept across poll cycles so the alias cache outlives each cycle */
+let sourceResolver: OracleSourceResolver | undefined;
+
 export async function poll(): Promise<void> {
   const config = loadOracleConfig();
   const logger = createLogger(config.logLevel);
@@ -49,17 +65,34 @@ export async function poll(): Promise<void> {
         .filter(Boolean)
     : [process.env.ORACLE_FALLBACK_URL ?? "http://localhost:9002"];
 
-  const oracleService = new OracleService({
-    primaryAdapter: new PrimaryAdapter({ baseUrl: primaryBaseUrl }),
-    fallbackAdapter: new FallbackAdapter({
-      providers: fallbackUrls.map((url, i) => ({
-        url,
-        source: `fallback-${i + 1}`,
-      })),
-    }),
-    logger,
-    enableFallback: true,
-  });
+  const primaryAdapter = new PrimaryAdapter({ baseUrl: primaryBaseUrl });
+  const fallbackProviders = fallbackUrls.map((url, i) => ({
+    url,
+    source: `fallback-${i + 1}`,
+  }));
+
+  // Quorum mode asks the primary and every fallback provider in parallel
+  // instead of walking the failover chain.
+  const resolver: MarketResolver =
+    config.aggregationMode === "quorum"
+      ? new QuorumAdapter({
+          adapters: [
+            primaryAdapter,
+            ...fallbackProviders.map(
+              (provider) => new FallbackAdapter({ providers: [provider] })
+            ),
+          ],
+          quorum: config.quorum,
+          minAgreement: config.quorumMinAgreement,
+        })
+      : new OracleService({
+          primaryAdapter,
+          fallbackAdapter: new FallbackAdapter({
+            providers: fallbackProviders,
+          }),
+          logger,
+          enableFallback: true,
+        });
 
   const queue = new RedisSubmissionQueue({
     redisClient: redis,
@@ -69,71 +102,25 @@ export async function poll(): Promise<void> {
 
   await queue.initialize();
 
-  // Fetch all ACTIVE markets that have an oracle address
-  const markets = await prisma.market.findMany({
-    where: { status: "ACTIVE" },
-    select: { id: true, oracleAddress: true },
-  });
-
-  for (const market of markets) {
-    if (!market.oracleAddress) continue;
-
-    const request: ResolutionRequest = {
-      marketId: market.id,
-      oracleAddress: market.oracleAddress,
-    };
-
-    try {
-      const result = await oracleService.resolve(request);
-
-      const report = signResolutionReport(
-        {
-          marketId: market.id,
-          outcome: result.outcome,
-          timestamp: result.timestamp,
-        },
-        secretKey
-      );
-
-      // Store OracleReport in DB
-      await prisma.oracleReport.create({
-        data: {
-          payloadHash: Buffer.from(JSON.stringify(report.payload))
-            .toString("hex")
-            .slice(0, 64),
-          source: market.oracleAddress,
-          confidence: result.confidence,
-          marketId: market.id,
-          candidateResolution: result.outcome,
-          createdAt: new Date(result.timestamp),
-        },
-      });
-
-      // Enqueue for on-chain submission
-      await queue.enqueue({
-        id: `${market.id}-${Date.now()}`,
-        request,
-        result: {
-          ...result,
-          signature: report.signature,
-          publicKey: report.publicKey,
-        },
-        status: "pending",
-        enqueuedAt: new Date().toISOString(),
-        attempts: 0,
-      });
+  sourceResolver ??= new OracleSourceResolver(prisma);
 
-      logger.info("Market resolved and enqueued", {
-        marketId: market.id,
-        outcome: result.outcome,
-        confidence: result.confidence,
-      });
-    } catch (error) {
-      logger.error("Failed to resolve market", {
-        marketId: market.id,
-        error: error instanceof Error ? error.message : String(error),
-      });
+  const scheduler = new ResolutionScheduler(
+    prisma,
+    resolver,
+    queue,
+    sourceResolver,
+    logger,
+    {
+      graceSeconds: config.resolutionGraceSeconds,
+      backoffSeconds: config.resolutionBackoffSeconds,
+      maxBackoffSeconds: config.resolutionMaxBackoffSeconds,
+      secretKey,
     }
+  );
+  const summary = await scheduler.run();
+
+  if (summary.due > 0) {
+    logger.info("Resolution cycle complete", { ...summary });
   }
 }
 
@@ -143,6 +130,12 @@ export async function bootstrap(): Promise<void> {
 
   logger.info("Oracle starting", { pollIntervalMs: config.pollIntervalMs });
 
+  const metricsPort = resolveMetricsPort(DEFAULT_METRICS_PORT);
+  const metricsServer = await startMetricsServer(oracleMetrics, {
+    port: metricsPort,
+  });
+  logger.info("Metrics endpoint listening", { port: metricsPort });
+
   // Run immediately, then on interval
   await poll();
   const timer = setInterval(
@@ -164,6 +157,7 @@ export async function bootstrap(): Promise<void> {
 
     logger.info("Oracle shutdown initiated", { signal });
     clearInterval(timer);
+    metricsServer.close();
 
     try {
       await disconnectPrisma();
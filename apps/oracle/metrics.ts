@@ -0,0 +1,32 @@
+/**
+ * Oracle Metrics
+ *
+ * Process-wide Prometheus metrics for the oracle. OracleService keeps its
+ * per-instance OracleMetrics snapshot as well; these counters outlive the
+ * service instance that poll() creates on every cycle.
+ *
+ * @module apps/oracle/metrics
+ */
+
+import { MetricsRegistry } from "../../packages/shared/src/metrics.js";
+
+export const oracleMetrics = new MetricsRegistry();
+
+/** `provider` is "primary" or "fallback"; `result` is "success" or "failure" */
+export const oracleResolutions = oracleMetrics.counter({
+  name: "vatix_oracle_resolutions_total",
+  help: "Market resolution attempts by provider and result",
+  labelNames: ["provider", "result"],
+});
+
+export const oracleRetries = oracleMetrics.counter({
+  name: "vatix_oracle_primary_retries_total",
+  help: "Retries of the primary provider before it succeeded or gave up",
+});
+
+/** `result` is "submitted", "not_yet_known", "conflict" or "failed" */
+export const oracleResolutionAttempts = oracleMetrics.counter({
+  name: "vatix_oracle_resolution_attempts_total",
+  help: "Scheduled resolution attempts on ended markets by result",
+  labelNames: ["result"],
+});
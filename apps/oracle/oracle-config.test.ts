@@ -34,6 +34,68 @@ describe("oracle-config", () => {
     ).toThrow();
   });
 
+  it("loads resolution scheduling settings", () => {
+    expect(loadOracleConfig({})).toMatchObject({
+      resolutionGraceSeconds: 300,
+      resolutionBackoffSeconds: 60,
+      resolutionMaxBackoffSeconds: 3600,
+    });
+    expect(
+      loadOracleConfig({
+        ORACLE_RESOLUTION_GRACE_SECONDS: "0",
+        ORACLE_RESOLUTION_BACKOFF_SECONDS: "30",
+        ORACLE_RESOLUTION_MAX_BACKOFF_SECONDS: "600",
+      })
+    ).toMatchObject({
+      resolutionGraceSeconds: 0,
+      resolutionBackoffSeconds: 30,
+      resolutionMaxBackoffSeconds: 600,
+    });
+  });
+
+  it("throws on invalid resolution scheduling settings", () => {
+    expect(() =>
+      loadOracleConfig({ ORACLE_RESOLUTION_GRACE_SECONDS: "-1" })
+    ).toThrow("non-negative integer");
+    expect(() =>
+      loadOracleConfig({
+        ORACLE_RESOLUTION_BACKOFF_SECONDS: "600",
+        ORACLE_RESOLUTION_MAX_BACKOFF_SECONDS: "60",
+      })
+    ).toThrow("must be at least ORACLE_RESOLUTION_BACKOFF_SECONDS");
+  });
+
+  it("loads quorum aggregation settings", () => {
+    expect(loadOracleConfig({})).toMatchObject({
+      aggregationMode: "failover",
+      quorum: undefined,
+      quorumMinAgreement: 1,
+    });
+    expect(
+      loadOracleConfig({
+        ORACLE_AGGREGATION_MODE: "quorum",
+        ORACLE_QUORUM: "2",
+        ORACLE_QUORUM_MIN_AGREEMENT: "0.75",
+      })
+    ).toMatchObject({
+      aggregationMode: "quorum",
+      quorum: 2,
+      quorumMinAgreement: 0.75,
+    });
+  });
+
+  it("throws on invalid quorum aggregation settings", () => {
+    expect(() =>
+      loadOracleConfig({ ORACLE_AGGREGATION_MODE: "majority" })
+    ).toThrow("failover | quorum");
+    expect(() => loadOracleConfig({ ORACLE_QUORUM: "0" })).toThrow(
+      "positive integer"
+    );
+    expect(() =>
+      loadOracleConfig({ ORACLE_QUORUM_MIN_AGREEMENT: "1.5" })
+    ).toThrow("at most 1");
+  });
+
   it("throws on invalid log level", () => {
     expect(() => loadOracleConfig({ ORACLE_LOG_LEVEL: "invalid" })).toThrow();
   });
@@ -14,6 +14,13 @@ import {
 
 export type LogLevel = "debug" | "info" | "warn" | "error";
 
+/**
+ * How provider answers decide a market: `failover` takes the primary's
+ * answer (falling back on failure), `quorum` asks every provider in parallel
+ * and requires agreement.
+ */
+export type AggregationMode = "failover" | "quorum";
+
 /**
  * Fully resolved oracle configuration derived from environment variables.
  * All fields have concrete types — no `any`.
@@ -23,6 +30,27 @@ export interface OracleConfig {
   pollIntervalMs: number;
   /** Duration of the oracle challenge window, in seconds. */
   challengeWindowSeconds: number;
+  /**
+   * Seconds after a market's end time before the oracle first asks providers
+   * for its outcome. Zero asks as soon as the market has ended.
+   */
+  resolutionGraceSeconds: number;
+  /** Delay before the second attempt on a market, doubled on each retry. */
+  resolutionBackoffSeconds: number;
+  /** Upper bound of the delay between attempts on one market. */
+  resolutionMaxBackoffSeconds: number;
+  /** How provider answers are combined into a resolution. */
+  aggregationMode: AggregationMode;
+  /**
+   * Providers that must agree in quorum mode. Undefined means a strict
+   * majority of the configured providers.
+   */
+  quorum: number | undefined;
+  /**
+   * Share of the answering providers' summed confidence the outcome needs in
+   * quorum mode, in (0, 1]. 1 treats any dissent as a conflict.
+   */
+  quorumMinAgreement: number;
   /** Log verbosity for the oracle scheduler. */
   logLevel: LogLevel;
   /**
@@ -40,6 +68,11 @@ const VALID_LOG_LEVELS: ReadonlySet<string> = new Set([
 ]);
 
 const DEFAULT_CHALLENGE_WINDOW_SECONDS = 86_400;
+const DEFAULT_RESOLUTION_GRACE_SECONDS = 300;
+const DEFAULT_RESOLUTION_BACKOFF_SECONDS = 60;
+const DEFAULT_RESOLUTION_MAX_BACKOFF_SECONDS = 3_600;
+const DEFAULT_AGGREGATION_MODE: AggregationMode = "failover";
+const DEFAULT_QUORUM_MIN_AGREEMENT = 1;
 const DEFAULT_LOG_LEVEL: LogLevel = "info";
 
 type Env = Record<string, string | undefined>;
@@ -60,11 +93,56 @@ export function loadOracleConfig(env: Env = process.env): OracleConfig {
     DEFAULT_CHALLENGE_WINDOW_SECONDS
   );
 
+  const resolutionGraceSeconds = parseOptionalNonNegativeInt(
+    env["ORACLE_RESOLUTION_GRACE_SECONDS"],
+    "ORACLE_RESOLUTION_GRACE_SECONDS",
+    DEFAULT_RESOLUTION_GRACE_SECONDS
+  );
+
+  const resolutionBackoffSeconds = parseOptionalPositiveInt(
+    env["ORACLE_RESOLUTION_BACKOFF_SECONDS"],
+    "ORACLE_RESOLUTION_BACKOFF_SECONDS",
+    DEFAULT_RESOLUTION_BACKOFF_SECONDS
+  );
+
+  const resolutionMaxBackoffSeconds = parseOptionalPositiveInt(
+    env["ORACLE_RESOLUTION_MAX_BACKOFF_SECONDS"],
+    "ORACLE_RESOLUTION_MAX_BACKOFF_SECONDS",
+    Math.max(DEFAULT_RESOLUTION_MAX_BACKOFF_SECONDS, resolutionBackoffSeconds)
+  );
+  if (resolutionMaxBackoffSeconds < resolutionBackoffSeconds) {
+    throw new Error(
+      `ORACLE_RESOLUTION_MAX_BACKOFF_SECONDS must be at least ORACLE_RESOLUTION_BACKOFF_SECONDS (${resolutionBackoffSeconds}), got: ${resolutionMaxBackoffSeconds}`
+    );
+  }
+
+  const aggregationMode = parseAggregationMode(
+    env["ORACLE_AGGREGATION_MODE"],
+    "ORACLE_AGGREGATION_MODE"
+  );
+
+  const quorum =
+    env["ORACLE_QUORUM"] === undefined || env["ORACLE_QUORUM"] === ""
+      ? undefined
+      : parseOptionalPositiveInt(env["ORACLE_QUORUM"], "ORACLE_QUORUM", 1);
+
+  const quorumMinAgreement = parseOptionalFraction(
+    env["ORACLE_QUORUM_MIN_AGREEMENT"],
+    "ORACLE_QUORUM_MIN_AGREEMENT",
+    DEFAULT_QUORUM_MIN_AGREEMENT
+  );
+
   const logLevel = parseLogLevel(env["ORACLE_LOG_LEVEL"], "ORACLE_LOG_LEVEL");
 
   return {
     pollIntervalMs,
     challengeWindowSeconds,
+    resolutionGraceSeconds,
+    resolutionBackoffSeconds,
+    resolutionMaxBackoffSeconds,
+    aggregationMode,
+    quorum,
+    quorumMinAgreement,
     logLevel,
     secretKey: env["ORACLE_SECRET_KEY"] ?? undefined,
   };
@@ -89,6 +167,61 @@ function parseOptionalPositiveInt(
   return value;
 }
 
+function parseOptionalNonNegativeInt(
+  raw: string | undefined,
+  name: string,
+  defaultValue: number
+): number {
+  if (raw === undefined || raw === "") {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(
+      `${name} must be a non-negative integer, got: ${JSON.stringify(raw)}`
+    );
+  }
+
+  return value;
+}
+
+function parseOptionalFraction(
+  raw: string | undefined,
+  name: string,
+  defaultValue: number
+): number {
+  if (raw === undefined || raw === "") {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0 || value > 1) {
+    throw new Error(
+      `${name} must be a number greater than 0 and at most 1, got: ${JSON.stringify(raw)}`
+    );
+  }
+
+  return value;
+}
+
+function parseAggregationMode(
+  raw: string | undefined,
+  name: string
+): AggregationMode {
+  if (raw === undefined || raw === "") {
+    return DEFAULT_AGGREGATION_MODE;
+  }
+
+  if (raw !== "failover" && raw !== "quorum") {
+    throw new Error(
+      `${name} must be one of failover | quorum, got: ${JSON.stringify(raw)}`
+    );
+  }
+
+  return raw;
+}
+
 function parseLogLevel(raw: string | undefined, name: string): LogLevel {
   if (raw === undefined || raw === "") {
     return DEFAULT_LOG_LEVEL;
@@ -8,6 +8,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { OracleService } from "./oracle-service.js";
 import { PrimaryAdapter } from "./primary-adapter.js";
 import { FallbackAdapter } from "./fallback-adapter.js";
+import { oracleMetrics, oracleResolutions } from "./metrics.js";
 import type {
   ProviderAdapter,
   ProviderResult,
@@ -117,6 +118,27 @@ describe("OracleService", () => {
       ).rejects.toThrow("All providers failed");
     });
 
+    it("should not fall back when the primary does not know the outcome yet", async () => {
+      const notYetKnown = Object.assign(
+        new Error("Primary provider does not know the outcome yet"),
+        { type: "NOT_YET_KNOWN" }
+      );
+      const pendingPrimary = createMockAdapter("primary");
+      vi.mocked(pendingPrimary.resolve).mockRejectedValue(notYetKnown);
+      const service = new OracleService({
+        primaryAdapter: pendingPrimary,
+        fallbackAdapter,
+        enableFallback: true,
+      });
+
+      await expect(
+        service.resolve({ marketId: "market-001", oracleAddress: "GORACLE" })
+      ).rejects.toBe(notYetKnown);
+
+      expect(fallbackAdapter.resolve).not.toHaveBeenCalled();
+      expect(service.getMetrics().primaryFailureCount).toBe(0);
+    });
+
     it("should not use fallback when disabled", async () => {
       const failingPrimary = createMockAdapter("primary", true);
       const service = new OracleService({
@@ -184,6 +206,31 @@ describe("OracleService", () => {
       expect(metrics.primarySuccessCount).toBe(0);
       expect(metrics.totalAttempts).toBe(0);
     });
+
+    it("should count provider outcomes in the Prometheus registry", async () => {
+      oracleMetrics.resetAll();
+      const service = new OracleService({
+        primaryAdapter: createMockAdapter("primary", true),
+        fallbackAdapter,
+        enableFallback: true,
+      });
+
+      await service.resolve({
+        marketId: "market-001",
+        oracleAddress:
+          "GAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+      });
+
+      expect(
+        oracleResolutions.get({ provider: "primary", result: "failure" })
+      ).toBe(1);
+      expect(
+        oracleResolutions.get({ provider: "fallback", result: "success" })
+      ).toBe(1);
+      expect(await oracleMetrics.render()).toContain(
+        'vatix_oracle_resolutions_total{provider="fallback",result="success"} 1'
+      );
+    });
   });
 
   describe("health check", () => {
@@ -7,16 +7,18 @@
  * @module apps/oracle/oracle-service
  */
 
-import type {
-  ProviderAdapter,
-  ProviderResult,
-  ResolutionRequest,
+import {
+  isOutcomeNotYetKnown,
+  type ProviderAdapter,
+  type ProviderResult,
+  type ResolutionRequest,
 } from "./provider-adapter.js";
 import { DEFAULT_TIMEOUT_MS } from "./timeout-utils.js";
 import { withRetry, RetryConfig, isRetryableError } from "./retry-utils.js";
 import type { ILogger } from "../../packages/shared/src/logger.js";
 import type { SubmissionQueueItem } from "./submission-queue.js";
 import { SubmissionQueue } from "./submission-queue.js";
+import { oracleResolutions, oracleRetries } from "./metrics.js";
 
 /**
  * Callback invoked when a resolution succeeds and should be enqueued.
@@ -79,7 +81,10 @@ export interface OracleMetrics {
  *    the fallback and are re-thrown immediately.
  * 3. If the fallback adapter also fails, an error is thrown that aggregates
  *    both failure messages.
- * 4. Both adapters enqueue a successful resolution via `submissionQueue` or
+ * 4. A provider answering that the outcome is not known yet (see
+ *    `isOutcomeNotYetKnown`) is not a failure: its error is re-thrown as is,
+ *    without falling back, so the caller can try again later.
+ * 5. Both adapters enqueue a successful resolution via `submissionQueue` or
  *    `enqueueCallback` when configured.
  */
 export class OracleService {
@@ -142,6 +147,7 @@ export class OracleService {
         this.config.retryConfig,
         (error, attempt, delay) => {
           this.metrics.retryCount++;
+          oracleRetries.inc();
           this.logger.warn("Primary provider retry", {
             marketId: request.marketId,
             attempt,
@@ -152,6 +158,7 @@ export class OracleService {
       );
 
       this.metrics.primarySuccessCount++;
+      oracleResolutions.inc({ provider: "primary", result: "success" });
       this.logger.info("Primary provider resolved market", {
         marketId: request.marketId,
         source: result.source,
@@ -162,7 +169,15 @@ export class OracleService {
 
       return result;
     } catch (primaryError) {
+      if (isOutcomeNotYetKnown(primaryError)) {
+        this.logger.info("Primary provider does not know the outcome yet", {
+          marketId: request.marketId,
+        });
+        throw primaryError;
+      }
+
       this.metrics.primaryFailureCount++;
+      oracleResolutions.inc({ provider: "primary", result: "failure" });
       this.logger.error("Primary provider failed", {
         marketId: request.marketId,
         error:
@@ -204,6 +219,7 @@ export class OracleService {
     try {
       const result = await this.fallbackAdapter.resolve(request);
       this.metrics.fallbackUsageCount++;
+      oracleResolutions.inc({ provider: "fallback", result: "success" });
       this.logger.info("Fallback provider resolved market", {
         marketId: request.marketId,
         source: result.source,
@@ -214,7 +230,15 @@ export class OracleService {
 
       return result;
     } catch (fallbackError) {
+      if (isOutcomeNotYetKnown(fallbackError)) {
+        this.logger.info("Fallback provider does not know the outcome yet", {
+          marketId: request.marketId,
+        });
+        throw fallbackError;
+      }
+
       this.metrics.fallbackFailureCount++;
+      oracleResolutions.inc({ provider: "fallback", result: "failure" });
       this.logger.error("Fallback provider failed", {
         marketId: request.marketId,
         error:
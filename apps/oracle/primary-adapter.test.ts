@@ -99,6 +99,31 @@ describe("PrimaryAdapter", () => {
     });
   });
 
+  it("maps 425 and a null outcome to NOT_YET_KNOWN without retrying", async () => {
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("too early", { status: 425 }))
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ outcome: null, confidence: 0 }), {
+          status: 200,
+        })
+      );
+    const adapter = new PrimaryAdapter({
+      baseUrl: "https://primary.example.com",
+      retryConfig: { maxRetries: 2, initialDelayMs: 1 },
+      fetchFn,
+    });
+    const request = { marketId: "market-1", oracleAddress: "GORACLE" };
+
+    await expect(adapter.resolve(request)).rejects.toMatchObject({
+      type: "NOT_YET_KNOWN",
+    });
+    await expect(adapter.resolve(request)).rejects.toMatchObject({
+      type: "NOT_YET_KNOWN",
+    });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
   it("throws INVALID_RESPONSE when payload is missing required fields", async () => {
     const fetchFn = vi.fn().mockResolvedValue(
       new Response(
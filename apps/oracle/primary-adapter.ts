@@ -41,6 +41,7 @@ export type PrimaryProviderErrorType =
   | "AUTHENTICATION"
   | "INVALID_RESPONSE"
   | "NOT_FOUND"
+  | "NOT_YET_KNOWN"
   | "RATE_LIMIT"
   | "TIMEOUT"
   | "UPSTREAM";
@@ -57,7 +58,8 @@ export class PrimaryProviderError extends Error {
 }
 
 interface PrimaryProviderResponse {
-  outcome: boolean;
+  /** Null while the provider does not know the outcome yet */
+  outcome: boolean | null;
   confidence: number;
   timestamp?: string;
   metadata?: Record<string, unknown>;
@@ -194,6 +196,12 @@ export class PrimaryAdapter implements ProviderAdapter {
     }
 
     const payload = (await response.json()) as Partial<PrimaryProviderResponse>;
+    if (payload.outcome === null) {
+      throw new PrimaryProviderError(
+        "NOT_YET_KNOWN",
+        `Primary provider does not know the outcome of market ${request.marketId} yet`
+      );
+    }
     if (
       typeof payload.outcome !== "boolean" ||
       typeof payload.confidence !== "number" ||
@@ -238,6 +246,7 @@ export class PrimaryAdapter implements ProviderAdapter {
   private mapStatus(status: number): PrimaryProviderErrorType {
     if (status === 401 || status === 403) return "AUTHENTICATION";
     if (status === 404) return "NOT_FOUND";
+    if (status === 425) return "NOT_YET_KNOWN";
     if (status === 429) return "RATE_LIMIT";
     return "UPSTREAM";
   }
@@ -30,6 +30,18 @@ export interface SourceMetadata {
   observedAt?: string;
 }
 
+/**
+ * One provider's answer within an aggregated result.
+ */
+export interface ProviderContribution {
+  /** Outcome this provider reported */
+  outcome: boolean;
+  /** Confidence this provider reported for its outcome */
+  confidenceMetadata: ConfidenceMetadata;
+  /** Attribution of this provider's answer */
+  sourceMetadata: SourceMetadata;
+}
+
 export interface ProviderResult {
   /** Resolved outcome value (true = YES, false = NO) */
   outcome: boolean;
@@ -45,6 +57,11 @@ export interface ProviderResult {
   timestamp: string;
   /** Optional metadata from the provider */
   metadata?: Record<string, unknown>;
+  /**
+   * Every provider answer an aggregated result was decided from, including
+   * dissenting ones. Absent when a single provider produced the result.
+   */
+  contributions?: ProviderContribution[];
   /** Optional Ed25519 signature (populated after signing by oracle main) */
   signature?: string;
   /** Optional public key matching the signature */
@@ -96,3 +113,43 @@ export interface ProviderAdapter {
    */
   getSource(): string;
 }
+
+/**
+ * True when a provider answered that the market's outcome is not known yet
+ * (HTTP 425 or a null outcome). This is an answer, not a failure: it is not
+ * retried and does not trigger the fallback chain.
+ */
+export function isOutcomeNotYetKnown(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error as Error & { type?: unknown }).type === "NOT_YET_KNOWN"
+  );
+}
+
+/**
+ * Provenance stored with a ResolutionCandidate: the confidence behind the
+ * proposed outcome and the provider answers it was decided from.
+ */
+export interface ResolutionProvenance {
+  confidence: ConfidenceMetadata;
+  contributions: ProviderContribution[];
+}
+
+/**
+ * Build the provenance of a resolved result. A single-provider result counts
+ * as its own only contribution.
+ */
+export function resolutionProvenance(
+  result: ProviderResult
+): ResolutionProvenance {
+  return {
+    confidence: result.confidenceMetadata,
+    contributions: result.contributions ?? [
+      {
+        outcome: result.outcome,
+        confidenceMetadata: result.confidenceMetadata,
+        sourceMetadata: result.sourceMetadata,
+      },
+    ],
+  };
+}
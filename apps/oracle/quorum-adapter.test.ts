@@ -0,0 +1,188 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  QuorumAdapter,
+  QuorumProviderError,
+  isQuorumConflict,
+} from "./quorum-adapter.js";
+import type { ProviderAdapter, ProviderResult } from "./provider-adapter.js";
+
+function answer(
+  source: string,
+  outcome: boolean,
+  confidence: number
+): ProviderResult {
+  return {
+    outcome,
+    confidence,
+    confidenceMetadata: { score: confidence, method: "test" },
+    source,
+    sourceMetadata: { provider: source },
+    timestamp: "2026-07-23T00:00:00.000Z",
+  };
+}
+
+function adapter(
+  source: string,
+  resolve: () => Promise<ProviderResult>
+): ProviderAdapter {
+  return {
+    resolve: vi.fn(resolve),
+    healthCheck: vi.fn().mockResolvedValue(true),
+    getSource: () => source,
+  };
+}
+
+function answering(source: string, outcome: boolean, confidence: number) {
+  return adapter(source, async () => answer(source, outcome, confidence));
+}
+
+function notYetKnown(source: string) {
+  return adapter(source, async () => {
+    throw Object.assign(new Error(`${source} does not know yet`), {
+      type: "NOT_YET_KNOWN",
+    });
+  });
+}
+
+function failing(source: string) {
+  return adapter(source, async () => {
+    throw new Error(`${source} unavailable`);
+  });
+}
+
+const REQUEST = { marketId: "market-1", oracleAddress: "GORACLE" };
+
+describe("QuorumAdapter", () => {
+  it("asks every provider and returns the agreed outcome with all contributions", async () => {
+    const adapters = [
+      answering("a", true, 0.9),
+      answering("b", true, 0.8),
+      answering("c", true, 1),
+    ];
+    const quorum = new QuorumAdapter({ adapters });
+
+    const result = await quorum.resolve(REQUEST);
+
+    for (const a of adapters) {
+      expect(a.resolve).toHaveBeenCalledWith(REQUEST);
+    }
+    expect(result).toMatchObject({
+      outcome: true,
+      confidence: 0.9,
+      source: "quorum",
+      confidenceMetadata: { score: 0.9, method: "quorum" },
+      sourceMetadata: { provider: "quorum" },
+    });
+    expect(result.contributions).toEqual([
+      {
+        outcome: true,
+        confidenceMetadata: { score: 0.9, method: "test" },
+        sourceMetadata: { provider: "a" },
+      },
+      {
+        outcome: true,
+        confidenceMetadata: { score: 0.8, method: "test" },
+        sourceMetadata: { provider: "b" },
+      },
+      {
+        outcome: true,
+        confidenceMetadata: { score: 1, method: "test" },
+        sourceMetadata: { provider: "c" },
+      },
+    ]);
+  });
+
+  it("reports any dissent as a CONFLICT by default", async () => {
+    const quorum = new QuorumAdapter({
+      adapters: [
+        answering("a", true, 0.9),
+        answering("b", true, 0.9),
+        answering("c", false, 0.6),
+      ],
+    });
+
+    const error = await quorum.resolve(REQUEST).catch((e: unknown) => e);
+
+    expect(isQuorumConflict(error)).toBe(true);
+    expect((error as QuorumProviderError).message).toContain("c=NO@0.6");
+    expect((error as QuorumProviderError).contributions).toHaveLength(3);
+  });
+
+  it("accepts a confidence-weighted majority above minAgreement and lowers the confidence", async () => {
+    const quorum = new QuorumAdapter({
+      adapters: [
+        answering("a", false, 0.9),
+        answering("b", false, 0.9),
+        answering("c", true, 0.3),
+      ],
+      minAgreement: 0.8,
+    });
+
+    const result = await quorum.resolve(REQUEST);
+
+    expect(result.outcome).toBe(false);
+    expect(result.confidence).toBeCloseTo(0.6);
+    expect(result.contributions).toHaveLength(3);
+  });
+
+  it("treats an even confidence split as a conflict", async () => {
+    const quorum = new QuorumAdapter({
+      adapters: [answering("a", true, 0.7), answering("b", false, 0.7)],
+      quorum: 1,
+      minAgreement: 0.5,
+    });
+
+    await expect(quorum.resolve(REQUEST)).rejects.toMatchObject({
+      type: "CONFLICT",
+    });
+  });
+
+  it("reports NOT_YET_KNOWN when too few providers know the outcome yet", async () => {
+    const quorum = new QuorumAdapter({
+      adapters: [answering("a", true, 0.9), notYetKnown("b"), notYetKnown("c")],
+    });
+
+    await expect(quorum.resolve(REQUEST)).rejects.toMatchObject({
+      name: "QuorumProviderError",
+      type: "NOT_YET_KNOWN",
+    });
+  });
+
+  it("reports QUORUM_NOT_REACHED when too many providers fail", async () => {
+    const quorum = new QuorumAdapter({
+      adapters: [answering("a", true, 0.9), failing("b"), failing("c")],
+      quorum: 2,
+    });
+
+    await expect(quorum.resolve(REQUEST)).rejects.toMatchObject({
+      type: "QUORUM_NOT_REACHED",
+      message: expect.stringContaining("b unavailable"),
+    });
+  });
+
+  it("rejects a quorum larger than the provider count", () => {
+    expect(
+      () =>
+        new QuorumAdapter({
+          adapters: [answering("a", true, 1)],
+          quorum: 2,
+        })
+    ).toThrow("quorum must be between 1 and 1");
+  });
+
+  it("is healthy while enough providers are healthy to reach quorum", async () => {
+    const unhealthy = answering("c", true, 1);
+    vi.mocked(unhealthy.healthCheck).mockResolvedValue(false);
+    const adapters = [answering("a", true, 1), answering("b", true, 1)];
+
+    await expect(
+      new QuorumAdapter({ adapters: [...adapters, unhealthy] }).healthCheck()
+    ).resolves.toBe(true);
+    await expect(
+      new QuorumAdapter({
+        adapters: [...adapters, unhealthy],
+        quorum: 3,
+      }).healthCheck()
+    ).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Quorum Provider Adapter
+ *
+ * Aggregation mode for market resolution: asks every configured provider in
+ * parallel and only returns an outcome that enough of them agree on. Unlike
+ * the primary → fallback chain, no single provider's answer decides a
+ * market. Providers that answer opposite outcomes without the configured
+ * agreement produce a CONFLICT instead of a result.
+ *
+ * @module apps/oracle/quorum-adapter
+ */
+
+import {
+  isOutcomeNotYetKnown,
+  type ProviderAdapter,
+  type ProviderContribution,
+  type ProviderResult,
+  type ResolutionRequest,
+} from "./provider-adapter.js";
+
+/**
+ * Quorum adapter configuration.
+ */
+export interface QuorumAdapterConfig {
+  /** Providers asked in parallel on every resolution */
+  adapters: ProviderAdapter[];
+  /**
+   * Minimum number of providers that must report the winning outcome.
+   * Defaults to a strict majority of `adapters`.
+   */
+  quorum?: number;
+  /**
+   * Minimum share (0-1] of the answering providers' summed confidence that
+   * must back the winning outcome. Defaults to 1: any dissent is a conflict.
+   */
+  minAgreement?: number;
+  /** Source identifier used in ProviderResult attribution */
+  source?: string;
+}
+
+export type QuorumProviderErrorType =
+  "CONFLICT" | "NOT_YET_KNOWN" | "QUORUM_NOT_REACHED";
+
+export class QuorumProviderError extends Error {
+  constructor(
+    public readonly type: QuorumProviderErrorType,
+    message: string,
+    /** Every provider answer received, for recording a conflict */
+    public readonly contributions: ProviderContribution[] = []
+  ) {
+    super(message);
+    this.name = "QuorumProviderError";
+  }
+}
+
+/**
+ * True when providers answered opposite outcomes without the configured
+ * agreement. The market needs review rather than another attempt.
+ */
+export function isQuorumConflict(
+  error: unknown
+): error is QuorumProviderError & { type: "CONFLICT" } {
+  return error instanceof QuorumProviderError && error.type === "CONFLICT";
+}
+
+/**
+ * Provider adapter that resolves a market only on quorum agreement.
+ *
+ * The winning outcome is the one with the larger summed confidence. It is
+ * returned when at least `quorum` providers reported it and it holds at
+ * least `minAgreement` of the summed confidence of all answers. Its
+ * confidence is that backing divided by the number of answers, so dissent
+ * and low-confidence answers both lower it.
+ */
+export class QuorumAdapter implements ProviderAdapter {
+  private readonly adapters: ProviderAdapter[];
+  private readonly quorum: number;
+  private readonly minAgreement: number;
+  private readonly source: string;
+
+  constructor(config: QuorumAdapterConfig) {
+    if (!config.adapters || config.adapters.length === 0) {
+      throw new Error("QuorumAdapter requires at least one provider");
+    }
+
+    const quorum = config.quorum ?? Math.floor(config.adapters.length / 2) + 1;
+    if (
+      !Number.isInteger(quorum) ||
+      quorum < 1 ||
+      quorum > config.adapters.length
+    ) {
+      throw new Error(
+        `QuorumAdapter quorum must be between 1 and ${config.adapters.length}, got: ${quorum}`
+      );
+    }
+
+    const minAgreement = config.minAgreement ?? 1;
+    if (!(minAgreement > 0 && minAgreement <= 1)) {
+      throw new Error(
+        `QuorumAdapter minAgreement must be in (0, 1], got: ${minAgreement}`
+      );
+    }
+
+    this.adapters = config.adapters;
+    this.quorum = quorum;
+    this.minAgreement = minAgreement;
+    this.source = config.source ?? "quorum";
+  }
+
+  /**
+   * Ask every provider in parallel and aggregate their answers.
+   *
+   * @throws QuorumProviderError CONFLICT when the answers disagree beyond
+   *   `minAgreement`, NOT_YET_KNOWN when too few providers know the outcome
+   *   yet, QUORUM_NOT_REACHED when too many providers failed
+   */
+  async resolve(request: ResolutionRequest): Promise<ProviderResult> {
+    const settled = await Promise.allSettled(
+      this.adapters.map((adapter) => adapter.resolve(request))
+    );
+
+    const answers: ProviderResult[] = [];
+    const errors: unknown[] = [];
+    for (const outcome of settled) {
+      if (outcome.status === "fulfilled") {
+        answers.push(outcome.value);
+      } else {
+        errors.push(outcome.reason);
+      }
+    }
+
+    const contributions = answers.map((answer): ProviderContribution => ({
+      outcome: answer.outcome,
+      confidenceMetadata: answer.confidenceMetadata,
+      sourceMetadata: answer.sourceMetadata,
+    }));
+
+    const yesWeight = sumConfidence(answers, true);
+    const noWeight = sumConfidence(answers, false);
+    const totalWeight = yesWeight + noWeight;
+    const outcome = yesWeight >= noWeight;
+    const agreeing = answers.filter((a) => a.outcome === outcome);
+    const dissenting = answers.length - agreeing.length;
+    const agreement =
+      totalWeight > 0 ? Math.max(yesWeight, noWeight) / totalWeight : 0;
+
+    if (
+      dissenting > 0 &&
+      (yesWeight === noWeight || agreement < this.minAgreement)
+    ) {
+      throw new QuorumProviderError(
+        "CONFLICT",
+        `Providers disagree on market ${request.marketId}: ${describeVotes(contributions)}`,
+        contributions
+      );
+    }
+
+    if (agreeing.length < this.quorum || agreement < this.minAgreement) {
+      const known = `${agreeing.length} of ${this.adapters.length} providers agree, quorum is ${this.quorum}`;
+      if (errors.some(isOutcomeNotYetKnown)) {
+        throw new QuorumProviderError(
+          "NOT_YET_KNOWN",
+          `Not enough providers know the outcome of market ${request.marketId} yet (${known})`,
+          contributions
+        );
+      }
+      throw new QuorumProviderError(
+        "QUORUM_NOT_REACHED",
+        `Quorum not reached for market ${request.marketId} (${known}): ${errors
+          .map((e) => (e instanceof Error ? e.message : String(e)))
+          .join("; ")}`,
+        contributions
+      );
+    }
+
+    const confidence = sumConfidence(agreeing, outcome) / answers.length;
+    const timestamp = agreeing
+      .map((a) => a.timestamp)
+      .reduce((latest, t) => (t > latest ? t : latest));
+
+    return {
+      outcome,
+      confidence,
+      confidenceMetadata: {
+        score: confidence,
+        method: "quorum",
+        explanation: `${agreeing.length} of ${answers.length} answering providers agree (${this.adapters.length} asked, quorum ${this.quorum}, weighted agreement ${agreement.toFixed(4)})`,
+      },
+      source: this.source,
+      sourceMetadata: { provider: this.source, observedAt: timestamp },
+      timestamp,
+      metadata: { marketId: request.marketId, agreement },
+      contributions,
+    };
+  }
+
+  /**
+   * Healthy while enough providers are healthy to reach quorum.
+   */
+  async healthCheck(): Promise<boolean> {
+    const checks = await Promise.allSettled(
+      this.adapters.map((adapter) => adapter.healthCheck())
+    );
+    const healthy = checks.filter(
+      (check) => check.status === "fulfilled" && check.value
+    ).length;
+    return healthy >= this.quorum;
+  }
+
+  getSource(): string {
+    return this.source;
+  }
+}
+
+function sumConfidence(answers: ProviderResult[], outcome: boolean): number {
+  return answers
+    .filter((a) => a.outcome === outcome)
+    .reduce((sum, a) => sum + a.confidence, 0);
+}
+
+function describeVotes(contributions: ProviderContribution[]): string {
+  return contributions
+    .map(
+      (c) =>
+        `${c.sourceMetadata.provider}=${c.outcome ? "YES" : "NO"}@${c.confidenceMetadata.score}`
+    )
+    .join(", ");
+}
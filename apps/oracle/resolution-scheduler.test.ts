@@ -0,0 +1,326 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./signature-helper.js", () => ({
+  signResolutionReport: vi.fn(() => ({
+    payload: {
+      marketId: "m1",
+      outcome: true,
+      timestamp: "2026-07-22T00:00:00Z",
+    },
+    signature: "sig",
+    publicKey: "pub",
+  })),
+}));
+
+import { QuorumProviderError } from "./quorum-adapter.js";
+import {
+  ResolutionScheduler,
+  nextAttemptDelayMs,
+  type ResolutionSchedulerPrisma,
+} from "./resolution-scheduler.js";
+
+const NOW = new Date("2026-07-22T12:00:00.000Z");
+
+const CONFIG = {
+  graceSeconds: 300,
+  backoffSeconds: 60,
+  maxBackoffSeconds: 600,
+  secretKey: "SECRETKEY",
+};
+
+const RESOLVED_RESULT = {
+  outcome: true,
+  confidence: 0.95,
+  confidenceMetadata: { score: 0.95 },
+  source: "primary",
+  sourceMetadata: { provider: "primary" },
+  timestamp: "2026-07-22T11:59:00.000Z",
+};
+
+function notYetKnown() {
+  return Object.assign(new Error("outcome not known yet"), {
+    type: "NOT_YET_KNOWN",
+  });
+}
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  child: vi.fn(),
+};
+
+function setup(markets: unknown[]) {
+  const prisma = {
+    market: { findMany: vi.fn().mockResolvedValue(markets) },
+    oracleReport: { upsert: vi.fn().mockResolvedValue({}) },
+    resolutionAttempt: { upsert: vi.fn().mockResolvedValue({}) },
+  };
+  const resolver = { resolve: vi.fn().mockResolvedValue(RESOLVED_RESULT) };
+  const queue = { enqueue: vi.fn().mockResolvedValue(true) };
+  const sources = { canonicalize: vi.fn().mockResolvedValue("CHAINLINK") };
+  const scheduler = new ResolutionScheduler(
+    prisma as unknown as ResolutionSchedulerPrisma,
+    resolver,
+    queue,
+    sources,
+    logger,
+    CONFIG
+  );
+  return { prisma, resolver, queue, sources, scheduler };
+}
+
+describe("nextAttemptDelayMs", () => {
+  it("doubles the backoff per attempt up to the maximum", () => {
+    expect(nextAttemptDelayMs(1, CONFIG)).toBe(60_000);
+    expect(nextAttemptDelayMs(2, CONFIG)).toBe(120_000);
+    expect(nextAttemptDelayMs(4, CONFIG)).toBe(480_000);
+    expect(nextAttemptDelayMs(5, CONFIG)).toBe(600_000);
+  });
+});
+
+describe("ResolutionScheduler", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("only selects ended markets without a live candidate whose next attempt is due", async () => {
+    const { prisma, scheduler } = setup([]);
+
+    await expect(scheduler.run(NOW)).resolves.toEqual({
+      due: 0,
+      submitted: 0,
+      notYetKnown: 0,
+      conflicts: 0,
+      failed: 0,
+    });
+
+    expect(prisma.market.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: { in: ["ACTIVE", "CLOSED"] },
+          endTime: { lte: new Date("2026-07-22T11:55:00.000Z") },
+          resolutionCandidates: { none: { status: { not: "REJECTED" } } },
+          OR: [
+            { resolutionAttempt: { is: null } },
+            {
+              resolutionAttempt: {
+                is: { status: "PENDING", nextAttemptAt: { lte: NOW } },
+              },
+            },
+          ],
+        },
+      })
+    );
+  });
+
+  it("stores the report, enqueues it and marks the attempt submitted", async () => {
+    const { prisma, resolver, queue, scheduler } = setup([
+      { id: "market-1", oracleAddress: "GORACLE1", resolutionAttempt: null },
+    ]);
+
+    const summary = await scheduler.run(NOW);
+
+    expect(summary.submitted).toBe(1);
+    expect(resolver.resolve).toHaveBeenCalledWith({
+      marketId: "market-1",
+      oracleAddress: "GORACLE1",
+    });
+    expect(prisma.oracleReport.upsert).toHaveBeenCalledWith({
+      where: { idempotencyKey: "market-1:1" },
+      create: expect.objectContaining({
+        marketId: "market-1",
+        source: "GORACLE1",
+        canonicalSource: "CHAINLINK",
+        confidence: 0.95,
+        candidateResolution: true,
+        idempotencyKey: "market-1:1",
+      }),
+      update: {},
+    });
+    expect(queue.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: "market-1:1",
+        request: { marketId: "market-1", oracleAddress: "GORACLE1" },
+        status: "pending",
+        result: expect.objectContaining({ signature: "sig", publicKey: "pub" }),
+      })
+    );
+    expect(prisma.resolutionAttempt.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { marketId: "market-1" },
+        update: expect.objectContaining({
+          status: "SUBMITTED",
+          attempts: 1,
+          submittedAt: NOW,
+          lastError: null,
+        }),
+      })
+    );
+  });
+
+  it("backs off a market whose outcome is not known yet without submitting", async () => {
+    const { prisma, resolver, queue, scheduler } = setup([
+      {
+        id: "market-1",
+        oracleAddress: "GORACLE1",
+        resolutionAttempt: { attempts: 2 },
+      },
+    ]);
+    resolver.resolve.mockRejectedValue(notYetKnown());
+
+    const summary = await scheduler.run(NOW);
+
+    expect(summary.notYetKnown).toBe(1);
+    expect(prisma.oracleReport.upsert).not.toHaveBeenCalled();
+    expect(queue.enqueue).not.toHaveBeenCalled();
+    expect(prisma.resolutionAttempt.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: {
+          status: "PENDING",
+          attempts: 3,
+          nextAttemptAt: new Date("2026-07-22T12:04:00.000Z"),
+          lastAttemptAt: NOW,
+          lastError: "outcome not known yet",
+        },
+      })
+    );
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+
+  it("records a failure and carries on with the next market", async () => {
+    const { prisma, resolver, queue, scheduler } = setup([
+      { id: "market-fail", oracleAddress: "GFAIL", resolutionAttempt: null },
+      { id: "market-ok", oracleAddress: "GOK", resolutionAttempt: null },
+    ]);
+    resolver.resolve
+      .mockRejectedValueOnce(new Error("provider unavailable"))
+      .mockResolvedValueOnce(RESOLVED_RESULT);
+
+    const summary = await scheduler.run(NOW);
+
+    expect(summary).toEqual({
+      due: 2,
+      submitted: 1,
+      notYetKnown: 0,
+      conflicts: 0,
+      failed: 1,
+    });
+    expect(logger.error).toHaveBeenCalledWith(
+      "Failed to resolve market",
+      expect.objectContaining({
+        marketId: "market-fail",
+        error: "provider unavailable",
+      })
+    );
+    expect(prisma.resolutionAttempt.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { marketId: "market-fail" },
+        create: expect.objectContaining({
+          status: "PENDING",
+          attempts: 1,
+          nextAttemptAt: new Date("2026-07-22T12:01:00.000Z"),
+        }),
+      })
+    );
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries an attempt that failed to submit under the same key", async () => {
+    const { prisma, queue, scheduler } = setup([
+      {
+        id: "market-1",
+        oracleAddress: "GORACLE1",
+        resolutionAttempt: { attempts: 2 },
+      },
+    ]);
+    prisma.resolutionAttempt.upsert.mockRejectedValueOnce(
+      new Error("connection reset")
+    );
+
+    const summary = await scheduler.run(NOW);
+
+    expect(summary.failed).toBe(1);
+    expect(queue.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "market-1:3" })
+    );
+    expect(prisma.resolutionAttempt.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({
+          status: "PENDING",
+          attempts: 2,
+          lastError: "connection reset",
+        }),
+      })
+    );
+
+    // The next poll sees the same attempt count and reuses the key
+    prisma.market.findMany.mockResolvedValue([
+      {
+        id: "market-1",
+        oracleAddress: "GORACLE1",
+        resolutionAttempt: { attempts: 2 },
+      },
+    ]);
+    queue.enqueue.mockResolvedValue(false);
+    await scheduler.run(NOW);
+
+    expect(prisma.oracleReport.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { idempotencyKey: "market-1:3" } })
+    );
+    expect(queue.enqueue).toHaveBeenLastCalledWith(
+      expect.objectContaining({ id: "market-1:3" })
+    );
+    expect(prisma.resolutionAttempt.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ status: "SUBMITTED", attempts: 3 }),
+      })
+    );
+  });
+
+  it("records disagreeing providers as a conflict without retrying or submitting", async () => {
+    const { prisma, resolver, queue, scheduler } = setup([
+      { id: "market-1", oracleAddress: "GORACLE1", resolutionAttempt: null },
+    ]);
+    const contributions = [
+      {
+        outcome: true,
+        confidenceMetadata: { score: 0.9 },
+        sourceMetadata: { provider: "primary" },
+      },
+      {
+        outcome: false,
+        confidenceMetadata: { score: 0.8 },
+        sourceMetadata: { provider: "fallback-1" },
+      },
+    ];
+    resolver.resolve.mockRejectedValue(
+      new QuorumProviderError(
+        "CONFLICT",
+        "Providers disagree on market market-1",
+        contributions
+      )
+    );
+
+    const summary = await scheduler.run(NOW);
+
+    expect(summary.conflicts).toBe(1);
+    expect(prisma.oracleReport.upsert).not.toHaveBeenCalled();
+    expect(queue.enqueue).not.toHaveBeenCalled();
+    expect(prisma.resolutionAttempt.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          status: "CONFLICT",
+          attempts: 1,
+          lastError: "Providers disagree on market market-1",
+          conflict: contributions,
+        }),
+      })
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Providers disagree on market outcome",
+      expect.objectContaining({ marketId: "market-1" })
+    );
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Resolution Scheduler
+ *
+ * Decides which markets the oracle asks providers about on each poll cycle.
+ * A market is due once it has been past its end time for the grace delay,
+ * has no resolution candidate other than rejected ones and its
+ * ResolutionAttempt row (if any) is still PENDING with nextAttemptAt in the
+ * past. A successful resolution is signed, stored as an OracleReport and
+ * enqueued; the attempt then moves to SUBMITTED and the market is not asked
+ * again until a challenge rejects its candidate. The report and the queue
+ * entry are keyed by market and attempt, so an attempt that is retried after
+ * a partial failure reuses them rather than submitting twice.
+ * Providers disagreeing in quorum mode move the attempt to CONFLICT with
+ * their answers recorded; conflicted markets are not asked again either.
+ *
+ * @module apps/oracle/resolution-scheduler
+ */
+
+import type {
+  Prisma,
+  PrismaClient,
+} from "../../src/generated/prisma/client/index.js";
+import type { ILogger } from "../../packages/shared/src/logger.js";
+import {
+  isOutcomeNotYetKnown,
+  type ProviderResult,
+  type ResolutionRequest,
+} from "./provider-adapter.js";
+import type { SubmissionQueueItem } from "./submission-queue.js";
+import {
+  isQuorumConflict,
+  type QuorumProviderError,
+} from "./quorum-adapter.js";
+import { signResolutionReport } from "./signature-helper.js";
+import type { OracleSourceResolver } from "../../src/oracle/sourceResolver.js";
+import { oracleResolutionAttempts } from "./metrics.js";
+
+export interface ResolutionSchedulerConfig {
+  /** Seconds after a market's end time before it is first attempted */
+  graceSeconds: number;
+  /** Delay before the second attempt, doubled on each further attempt */
+  backoffSeconds: number;
+  /** Upper bound of the delay between attempts */
+  maxBackoffSeconds: number;
+  /** Stellar secret key the reports are signed with */
+  secretKey: string;
+}
+
+/** The part of OracleService the scheduler depends on */
+export interface MarketResolver {
+  resolve(request: ResolutionRequest): Promise<ProviderResult>;
+}
+
+/**
+ * The part of the submission queue the scheduler depends on. An item whose
+ * ID was already queued is skipped.
+ */
+export interface ResolutionQueue {
+  enqueue(item: SubmissionQueueItem): Promise<boolean>;
+}
+
+export type ResolutionSchedulerPrisma = Pick<
+  PrismaClient,
+  "market" | "oracleReport" | "resolutionAttempt"
+>;
+
+/** Outcome counts of one scheduler run */
+export interface ResolutionRunSummary {
+  due: number;
+  submitted: number;
+  notYetKnown: number;
+  conflicts: number;
+  failed: number;
+}
+
+/**
+ * Delay before the next attempt once `attempts` attempts have been made:
+ * `backoffSeconds * 2^(attempts - 1)`, capped at `maxBackoffSeconds`.
+ */
+export function nextAttemptDelayMs(
+  attempts: number,
+  config: Pick<
+    ResolutionSchedulerConfig,
+    "backoffSeconds" | "maxBackoffSeconds"
+  >
+): number {
+  const exponent = Math.max(0, attempts - 1);
+  const seconds = Math.min(
+    config.backoffSeconds * 2 ** exponent,
+    config.maxBackoffSeconds
+  );
+  return seconds * 1000;
+}
+
+export class ResolutionScheduler {
+  constructor(
+    private readonly prisma: ResolutionSchedulerPrisma,
+    private readonly resolver: MarketResolver,
+    private readonly queue: ResolutionQueue,
+    private readonly sources: Pick<OracleSourceResolver, "canonicalize">,
+    private readonly logger: ILogger,
+    private readonly config: ResolutionSchedulerConfig
+  ) {}
+
+  /**
+   * Attempt every market that is due at `now`. A provider or submission
+   * failure on one market is recorded on its attempt row and does not abort
+   * the rest of the run.
+   */
+  async run(now: Date = new Date()): Promise<ResolutionRunSummary> {
+    const markets = await this.findDueMarkets(now);
+    const summary: ResolutionRunSummary = {
+      due: markets.length,
+      submitted: 0,
+      notYetKnown: 0,
+      conflicts: 0,
+      failed: 0,
+    };
+
+    for (const market of markets) {
+      const attempts = (market.resolutionAttempt?.attempts ?? 0) + 1;
+      const request: ResolutionRequest = {
+        marketId: market.id,
+        oracleAddress: market.oracleAddress,
+      };
+
+      let resolved = false;
+      try {
+        const result = await this.resolver.resolve(request);
+        resolved = true;
+        await this.submit(request, result, attempts);
+        await this.markSubmitted(market.id, attempts, now);
+
+        summary.submitted++;
+        oracleResolutionAttempts.inc({ result: "submitted" });
+        this.logger.info("Market resolved and enqueued", {
+          marketId: market.id,
+          outcome: result.outcome,
+          confidence: result.confidence,
+          attempts,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (isQuorumConflict(error)) {
+          await this.markConflict(market.id, attempts, now, error);
+          summary.conflicts++;
+          oracleResolutionAttempts.inc({ result: "conflict" });
+          this.logger.warn("Providers disagree on market outcome", {
+            marketId: market.id,
+            error: message,
+            attempts,
+          });
+          continue;
+        }
+
+        // A resolved attempt that failed to submit keeps its number, so its
+        // retry reuses the report and queue entry it may have left behind
+        const nextAttemptAt = await this.markPending(
+          market.id,
+          resolved ? attempts - 1 : attempts,
+          now,
+          message
+        );
+
+        if (isOutcomeNotYetKnown(error)) {
+          summary.notYetKnown++;
+          oracleResolutionAttempts.inc({ result: "not_yet_known" });
+          this.logger.info("Market outcome not known yet", {
+            marketId: market.id,
+            attempts,
+            nextAttemptAt: nextAttemptAt.toISOString(),
+          });
+        } else {
+          summary.failed++;
+          oracleResolutionAttempts.inc({ result: "failed" });
+          this.logger.error("Failed to resolve market", {
+            marketId: market.id,
+            error: message,
+            attempts,
+            nextAttemptAt: nextAttemptAt.toISOString(),
+          });
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  private findDueMarkets(now: Date) {
+    const endedBefore = new Date(
+      now.getTime() - this.config.graceSeconds * 1000
+    );
+
+    return this.prisma.market.findMany({
+      where: {
+        status: { in: ["ACTIVE", "CLOSED"] },
+        endTime: { lte: endedBefore },
+        resolutionCandidates: { none: { status: { not: "REJECTED" } } },
+        OR: [
+          { resolutionAttempt: { is: null } },
+          {
+            resolutionAttempt: {
+              is: { status: "PENDING", nextAttemptAt: { lte: now } },
+            },
+          },
+        ],
+      },
+      select: {
+        id: true,
+        oracleAddress: true,
+        resolutionAttempt: { select: { attempts: true } },
+      },
+      orderBy: { endTime: "asc" },
+    });
+  }
+
+  /**
+   * Sign the result, store its OracleReport and enqueue it on-chain. Both
+   * are keyed by market and attempt: a retry of the same attempt finds its
+   * report already stored and the queue skips the entry it already holds.
+   */
+  private async submit(
+    request: ResolutionRequest,
+    result: ProviderResult,
+    attempt: number
+  ): Promise<void> {
+    const idempotencyKey = `${request.marketId}:${attempt}`;
+    const report = signResolutionReport(
+      {
+        marketId: request.marketId,
+        outcome: result.outcome,
+        timestamp: result.timestamp,
+      },
+      this.config.secretKey
+    );
+
+    await this.prisma.oracleReport.upsert({
+      where: { idempotencyKey },
+      create: {
+        payloadHash: Buffer.from(JSON.stringify(report.payload))
+          .toString("hex")
+          .slice(0, 64),
+        source: request.oracleAddress,
+        canonicalSource: await this.sources.canonicalize(request.oracleAddress),
+        confidence: result.confidence,
+        marketId: request.marketId,
+        candidateResolution: result.outcome,
+        idempotencyKey,
+        createdAt: new Date(result.timestamp),
+      },
+      update: {},
+    });
+
+    await this.queue.enqueue({
+      id: idempotencyKey,
+      request,
+      result: {
+        ...result,
+        signature: report.signature,
+        publicKey: report.publicKey,
+      },
+      status: "pending",
+      enqueuedAt: new Date().toISOString(),
+      attempts: 0,
+    });
+  }
+
+  private async markSubmitted(
+    marketId: string,
+    attempts: number,
+    now: Date
+  ): Promise<void> {
+    const values = {
+      status: "SUBMITTED" as const,
+      attempts,
+      nextAttemptAt: now,
+      lastAttemptAt: now,
+      lastError: null,
+      submittedAt: now,
+    };
+    await this.prisma.resolutionAttempt.upsert({
+      where: { marketId },
+      create: { marketId, ...values },
+      update: values,
+    });
+  }
+
+  /** Record the disagreeing provider answers; the market is not retried. */
+  private async markConflict(
+    marketId: string,
+    attempts: number,
+    now: Date,
+    error: QuorumProviderError
+  ): Promise<void> {
+    const values = {
+      status: "CONFLICT" as const,
+      attempts,
+      nextAttemptAt: now,
+      lastAttemptAt: now,
+      lastError: error.message,
+      conflict: error.contributions as unknown as Prisma.InputJsonArray,
+    };
+    await this.prisma.resolutionAttempt.upsert({
+      where: { marketId },
+      create: { marketId, ...values },
+      update: values,
+    });
+  }
+
+  /** Record a failed attempt and schedule the next one. */
+  private async markPending(
+    marketId: string,
+    attempts: number,
+    now: Date,
+    error: string
+  ): Promise<Date> {
+    const nextAttemptAt = new Date(
+      now.getTime() + nextAttemptDelayMs(attempts, this.config)
+    );
+    const values = {
+      status: "PENDING" as const,
+      attempts,
+      nextAttemptAt,
+      lastAttemptAt: now,
+      lastError: error,
+    };
+    await this.prisma.resolutionAttempt.upsert({
+      where: { marketId },
+      create: { marketId, ...values },
+      update: values,
+    });
+    return nextAttemptAt;
+  }
+}
@@ -7,6 +7,8 @@
  * @module apps/oracle/retry-utils
  */
 
+import { isOutcomeNotYetKnown } from "./provider-adapter.js";
+
 /**
  * Configuration for retry behavior.
  */
@@ -45,6 +47,10 @@ export function isRetryableError(error: unknown): boolean {
     return true;
   }
 
+  if (isOutcomeNotYetKnown(error)) {
+    return false;
+  }
+
   const message = error.message.toLowerCase();
 
   // Non-retryable: 4xx client errors
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from "vitest";
 import { logDeadLetter, type DeadLetterMessage } from "./dead-letter.js";
+import { deadLetters } from "../shared/metrics.js";
 
 describe("Dead Letter Log", () => {
   it("should log the dead letter message with appropriate structured fields", () => {
@@ -29,6 +30,7 @@ describe("Dead Letter Log", () => {
           timestamp: expect.any(String),
         })
       );
+      expect(deadLetters.get({ queue: "settlement" })).toBe(1);
     });
   });
 });
@@ -1,5 +1,6 @@
 import type { ILogger } from "../../../../packages/shared/src/logger.js";
 import { redis } from "../../../../src/services/redis.js";
+import { deadLetters } from "../shared/metrics.js";
 
 export interface DeadLetterMessage {
   id: string;
@@ -16,6 +17,7 @@ export async function logDeadLetter(
 ): Promise<void> {
   const timestamp = new Date().toISOString();
   const stream = `${DEAD_LETTER_STREAM_PREFIX}dead-letter:${message.queue}`;
+  deadLetters.inc({ queue: message.queue });
 
   try {
     await (
@@ -1,5 +1,9 @@
 import { describe, it, expect, vi } from "vitest";
-import { FinalizationJob, FinalizationValidationError } from "./job.js";
+import {
+  FINALIZATION_ACTOR,
+  FinalizationJob,
+  FinalizationValidationError,
+} from "./job.js";
 import type { FinalizationJobConfig, FinalizationCandidate } from "./job.js";
 import type {
   FinalizationJobResult,
@@ -41,12 +45,26 @@ function makeCandidate(
   };
 }
 
+/** tx.market and tx.marketStatusTransition for a CLOSED market */
+function makeMarketTx(updateMany = vi.fn().mockResolvedValue({ count: 1 })) {
+  return {
+    market: {
+      findUniqueOrThrow: vi.fn().mockResolvedValue({ status: "CLOSED" }),
+      updateMany,
+    },
+    marketStatusTransition: {
+      create: vi.fn().mockResolvedValue({ id: "transition-1" }),
+    },
+  };
+}
+
 function makePrisma(
   candidates: FinalizationCandidate[] = [],
   resolutionError: boolean = false
 ) {
   const create = vi.fn().mockResolvedValue({ id: "resolution-1" });
   const update = vi.fn().mockResolvedValue({});
+  const updateMarket = vi.fn().mockResolvedValue({ count: 1 });
   const updateMany = vi.fn().mockResolvedValue({ count: 2 });
 
   const transaction = vi
@@ -55,7 +73,7 @@ function makePrisma(
       async (fn: (tx: Record<string, unknown>) => Promise<unknown>) => {
         const tx = {
           resolution: { create },
-          market: { update },
+          ...makeMarketTx(updateMarket),
           resolutionCandidate: { update },
           userPosition: { updateMany },
         };
@@ -171,7 +189,7 @@ describe("FinalizationJob", () => {
         }),
       ];
       const create = vi.fn().mockResolvedValue({ id: "resolution-1" });
-      const update = vi.fn().mockResolvedValue({});
+      const updateMarket = vi.fn().mockResolvedValue({ count: 1 });
       const updateMany = vi.fn().mockResolvedValue({ count: 2 });
       const updateCandidate = vi.fn().mockResolvedValue({});
       const transaction = vi
@@ -180,7 +198,7 @@ describe("FinalizationJob", () => {
           async (fn: (tx: Record<string, unknown>) => Promise<unknown>) => {
             const tx = {
               resolution: { create },
-              market: { update },
+              ...makeMarketTx(updateMarket),
               resolutionCandidate: { update: updateCandidate },
               userPosition: { updateMany },
             };
@@ -211,7 +229,7 @@ describe("FinalizationJob", () => {
         makeCandidate({ marketId: "mkt-1", proposedOutcome: false }),
       ];
       const create = vi.fn().mockResolvedValue({ id: "resolution-1" });
-      const update = vi.fn().mockResolvedValue({});
+      const updateMarket = vi.fn().mockResolvedValue({ count: 1 });
       const updateMany = vi.fn().mockResolvedValue({ count: 2 });
       const updateCandidate = vi.fn().mockResolvedValue({});
       const transaction = vi
@@ -220,7 +238,7 @@ describe("FinalizationJob", () => {
           async (fn: (tx: Record<string, unknown>) => Promise<unknown>) => {
             const tx = {
               resolution: { create },
-              market: { update },
+              ...makeMarketTx(updateMarket),
               resolutionCandidate: { update: updateCandidate },
               userPosition: { updateMany },
             };
@@ -237,8 +255,8 @@ describe("FinalizationJob", () => {
       const job = new FinalizationJob(prisma, makeLogger(), makeConfig(3600));
       await job.run();
 
-      expect(update).toHaveBeenCalledWith({
-        where: { id: "mkt-1" },
+      expect(updateMarket).toHaveBeenCalledWith({
+        where: { id: "mkt-1", status: "CLOSED" },
         data: expect.objectContaining({
           status: "RESOLVED",
           outcome: false,
@@ -249,7 +267,7 @@ describe("FinalizationJob", () => {
     it("updates resolution candidate status to ACCEPTED", async () => {
       const candidates = [makeCandidate({ id: "cand-1" })];
       const create = vi.fn().mockResolvedValue({ id: "resolution-1" });
-      const update = vi.fn().mockResolvedValue({});
+      const updateMarket = vi.fn().mockResolvedValue({ count: 1 });
       const updateMany = vi.fn().mockResolvedValue({ count: 2 });
       const updateCandidate = vi.fn().mockResolvedValue({});
       const transaction = vi
@@ -258,7 +276,7 @@ describe("FinalizationJob", () => {
           async (fn: (tx: Record<string, unknown>) => Promise<unknown>) => {
             const tx = {
               resolution: { create },
-              market: { update },
+              ...makeMarketTx(updateMarket),
               resolutionCandidate: { update: updateCandidate },
               userPosition: { updateMany },
             };
@@ -276,7 +294,7 @@ describe("FinalizationJob", () => {
       await job.run();
 
       expect(updateCandidate).toHaveBeenCalledWith({
-        where: { id: "cand-1" },
+        where: { id: "cand-1", status: "PROPOSED" },
         data: { status: "ACCEPTED" },
       });
     });
@@ -284,7 +302,7 @@ describe("FinalizationJob", () => {
     it("settles UserPosition records for the market", async () => {
       const candidates = [makeCandidate({ marketId: "mkt-1" })];
       const create = vi.fn().mockResolvedValue({ id: "resolution-1" });
-      const update = vi.fn().mockResolvedValue({});
+      const updateMarket = vi.fn().mockResolvedValue({ count: 1 });
       const updateMany = vi.fn().mockResolvedValue({ count: 3 });
       const updateCandidate = vi.fn().mockResolvedValue({});
       const transaction = vi
@@ -293,7 +311,7 @@ describe("FinalizationJob", () => {
           async (fn: (tx: Record<string, unknown>) => Promise<unknown>) => {
             const tx = {
               resolution: { create },
-              market: { update },
+              ...makeMarketTx(updateMarket),
               resolutionCandidate: { update: updateCandidate },
               userPosition: { updateMany },
             };
@@ -349,10 +367,81 @@ describe("FinalizationJob", () => {
       expect(Array.isArray(result.candidates)).toBe(true);
     });
 
+    it("records the market's move to RESOLVED as a status transition", async () => {
+      const candidates = [
+        makeCandidate({
+          id: "cand-1",
+          marketId: "mkt-1",
+          proposedOutcome: true,
+        }),
+      ];
+      const marketTx = makeMarketTx();
+      const transaction = vi
+        .fn()
+        .mockImplementation(
+          async (fn: (tx: Record<string, unknown>) => Promise<unknown>) =>
+            fn({
+              resolution: { create: vi.fn().mockResolvedValue({}) },
+              ...marketTx,
+              resolutionCandidate: { update: vi.fn().mockResolvedValue({}) },
+              userPosition: { updateMany: vi.fn().mockResolvedValue({}) },
+            })
+        );
+      const prisma = {
+        resolutionCandidate: {
+          findMany: vi.fn().mockResolvedValue(candidates),
+        },
+        $transaction: transaction,
+      } as unknown as PrismaClient;
+
+      const job = new FinalizationJob(prisma, makeLogger(), makeConfig(3600));
+      await job.run();
+
+      expect(marketTx.marketStatusTransition.create).toHaveBeenCalledWith({
+        data: {
+          marketId: "mkt-1",
+          fromStatus: "CLOSED",
+          toStatus: "RESOLVED",
+          outcome: true,
+          actor: FINALIZATION_ACTOR,
+          reason: "Resolution candidate cand-1 finalized",
+        },
+      });
+    });
+
+    it("errors a candidate whose market changed status concurrently", async () => {
+      const candidates = [makeCandidate()];
+      const marketTx = makeMarketTx(vi.fn().mockResolvedValue({ count: 0 }));
+      const transaction = vi
+        .fn()
+        .mockImplementation(
+          async (fn: (tx: Record<string, unknown>) => Promise<unknown>) =>
+            fn({
+              resolution: { create: vi.fn().mockResolvedValue({}) },
+              ...marketTx,
+            })
+        );
+      const prisma = {
+        resolutionCandidate: {
+          findMany: vi.fn().mockResolvedValue(candidates),
+        },
+        $transaction: transaction,
+      } as unknown as PrismaClient;
+
+      const job = new FinalizationJob(prisma, makeLogger(), makeConfig(3600));
+      const result = await job.run();
+
+      expect(result.candidates[0]).toMatchObject({
+        status: "errored",
+        error: expect.stringContaining("changed status concurrently"),
+      });
+      expect(marketTx.marketStatusTransition.create).not.toHaveBeenCalled();
+    });
+
     it("sets resolutionTime on the market", async () => {
       const candidates = [makeCandidate()];
       const create = vi.fn().mockResolvedValue({ id: "resolution-1" });
-      const update = vi.fn().mockResolvedValue({});
+      const updateMarket = vi.fn().mockResolvedValue({ count: 1 });
       const updateMany = vi.fn().mockResolvedValue({ count: 2 });
       const updateCandidate = vi.fn().mockResolvedValue({});
       const transaction = vi
@@ -361,7 +450,7 @@ describe("FinalizationJob", () => {
           async (fn: (tx: Record<string, unknown>) => Promise<unknown>) => {
             const tx = {
               resolution: { create },
-              market: { update },
+              ...makeMarketTx(updateMarket),
               resolutionCandidate: { update: updateCandidate },
               userPosition: { updateMany },
             };
@@ -378,8 +467,8 @@ describe("FinalizationJob", () => {
       const job = new FinalizationJob(prisma, makeLogger(), makeConfig(3600));
       await job.run();
 
-      expect(update).toHaveBeenCalledWith({
-        where: { id: candidates[0].marketId },
+      expect(updateMarket).toHaveBeenCalledWith({
+        where: { id: candidates[0].marketId, status: "CLOSED" },
         data: expect.objectContaining({
           resolutionTime: expect.any(Date),
         }),
@@ -394,7 +483,7 @@ describe("FinalizationJob", () => {
         makeCandidate({ id: "cand-2", marketId: "mkt-2" }),
       ];
       const createOk = vi.fn().mockResolvedValue({ id: "resolution-1" });
-      const updateOk = vi.fn().mockResolvedValue({});
+      const updateOk = vi.fn().mockResolvedValue({ count: 1 });
       const updateManyOk = vi.fn().mockResolvedValue({ count: 2 });
       const updateCandidateOk = vi.fn().mockResolvedValue({});
       const transaction = vi
@@ -403,7 +492,7 @@ describe("FinalizationJob", () => {
           async (fn: (tx: Record<string, unknown>) => Promise<unknown>) => {
             const tx = {
               resolution: { create: createOk },
-              market: { update: updateOk },
+              ...makeMarketTx(updateOk),
               resolutionCandidate: { update: updateCandidateOk },
               userPosition: { updateMany: updateManyOk },
             };
@@ -474,7 +563,7 @@ describe("FinalizationJob", () => {
   });
 
   describe("CHALLENGED and REJECTED paths", () => {
-    it("only queries PROPOSED candidates and ignores CHALLENGED/REJECTED", async () => {
+    it("only queries PROPOSED candidates of unchallenged markets", async () => {
       const findMany = vi.fn().mockResolvedValue([]);
       const prisma = {
         resolutionCandidate: { findMany },
@@ -488,6 +577,9 @@ describe("FinalizationJob", () => {
         where: {
           status: "PROPOSED",
           createdAt: { lte: expect.any(Date) },
+          market: {
+            resolutionCandidates: { none: { status: "CHALLENGED" } },
+          },
         },
         select: {
           id: true,
@@ -498,5 +590,24 @@ describe("FinalizationJob", () => {
         },
       });
     });
+
+    it("skips a candidate challenged after it was selected", async () => {
+      const candidates = [makeCandidate()];
+      const prisma = makePrisma(candidates);
+      (prisma.$transaction as ReturnType<typeof vi.fn>).mockRejectedValue(
+        Object.assign(new Error("Record to update not found"), {
+          code: "P2025",
+        })
+      );
+      const logger = makeLogger();
+      const job = new FinalizationJob(prisma, logger, makeConfig(3600));
+
+      const result = await job.run();
+
+      expect(result.skippedCount).toBe(1);
+      expect(result.erroredCount).toBe(0);
+      expect(result.candidates[0].status).toBe("skipped");
+      expect(logger.error).not.toHaveBeenCalled();
+    });
   });
 });
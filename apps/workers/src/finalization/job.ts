@@ -1,5 +1,6 @@
 import type { PrismaClient } from "../../../../src/generated/prisma/client/index.js";
 import type { ILogger } from "../../../../packages/shared/src/logger.js";
+import { applyMarketTransition } from "../../../../src/services/market-transitions.js";
 import type {
   FinalizationJobResult,
   FinalizationCandidateResult,
@@ -11,7 +12,8 @@ import type {
  */
 export interface FinalizationJobConfig {
   /** How long (in seconds) a resolution candidate must sit in PROPOSED
-   *  before it is eligible for finalization. Must be >= 0. */
+   *  before it is eligible for finalization. Must be >= 0. Candidates of a
+   *  market with a CHALLENGED candidate are never eligible. */
   challengeWindowSeconds: number;
 }
 
@@ -23,6 +25,9 @@ export interface FinalizationCandidate {
   createdAt: Date;
 }
 
+/** Actor recorded on the market transitions the job makes. */
+export const FINALIZATION_ACTOR = "system:finalization-job";
+
 export class FinalizationValidationError extends Error {
   readonly statusCode = 400;
   constructor(message: string) {
@@ -31,6 +36,15 @@ export class FinalizationValidationError extends Error {
   }
 }
 
+/** Prisma's "record to update not found" error. */
+function isRecordNotFound(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: unknown }).code === "P2025"
+  );
+}
+
 export class FinalizationJob {
   private readonly challengeWindowSeconds: number;
 
@@ -69,6 +83,8 @@ export class FinalizationJob {
         where: {
           status: "PROPOSED",
           createdAt: { lte: windowCutoff },
+          // A challenged market waits for an admin to adjudicate
+          market: { resolutionCandidates: { none: { status: "CHALLENGED" } } },
         },
         select: {
           id: true,
@@ -123,17 +139,25 @@ export class FinalizationJob {
             },
           });
 
-          await tx.market.update({
+          // Through the status state machine, so the move is recorded; an
+          // ACTIVE market's books are halted by the API's close scheduler
+          const market = await tx.market.findUniqueOrThrow({
             where: { id: candidate.marketId },
-            data: {
-              status: "RESOLVED",
-              outcome: candidate.proposedOutcome,
-              resolutionTime: now,
-            },
+            select: { status: true },
+          });
+          await applyMarketTransition(tx, {
+            marketId: candidate.marketId,
+            from: market.status,
+            to: "RESOLVED",
+            outcome: candidate.proposedOutcome,
+            actor: FINALIZATION_ACTOR,
+            reason: `Resolution candidate ${candidate.id} finalized`,
+            at: now,
           });
 
+          // Throws P2025 if the candidate was challenged since it was selected
           await tx.resolutionCandidate.update({
-            where: { id: candidate.id },
+            where: { id: candidate.id, status: "PROPOSED" },
             data: { status: "ACCEPTED" },
           });
 
@@ -156,6 +180,22 @@ export class FinalizationJob {
           proposedOutcome: candidate.proposedOutcome,
         });
       } catch (error) {
+        if (isRecordNotFound(error)) {
+          results.push({
+            candidateId: candidate.id,
+            marketId: candidate.marketId,
+            proposedOutcome: candidate.proposedOutcome,
+            status: "skipped",
+          });
+
+          this.logger.info("Finalization candidate skipped", {
+            candidateId: candidate.id,
+            marketId: candidate.marketId,
+            reason: "Candidate is no longer PROPOSED",
+          });
+          continue;
+        }
+
         const message = error instanceof Error ? error.message : String(error);
 
         results.push({
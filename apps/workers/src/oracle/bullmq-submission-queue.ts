@@ -8,7 +8,7 @@
  * @module apps/workers/src/oracle/bullmq-submission-queue
  */
 import { createHash } from "crypto";
-import { Queue, Worker, type Job } from "bullmq";
+import { Queue, Worker, type Job, type JobType } from "bullmq";
 import type { ILogger } from "../../../../packages/shared/src/logger.js";
 import type { SubmissionQueueItem } from "../../../oracle/submission-queue.js";
 import {
@@ -72,6 +72,11 @@ export class BullMQSubmissionQueue {
     return true;
   }
 
+  /** Job counts for the given states, for the queue depth gauge. */
+  async getJobCounts(...states: JobType[]): Promise<Record<string, number>> {
+    return this.queue.getJobCounts(...states);
+  }
+
   async close(): Promise<void> {
     await this.queue.close();
   }
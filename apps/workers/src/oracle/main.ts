@@ -24,6 +24,9 @@ import {
   createOracleSubmissionWorker,
 } from "./bullmq-submission-queue.js";
 import type { SubmissionQueueItem } from "../../../oracle/submission-queue.js";
+import { resolutionProvenance } from "../../../oracle/provider-adapter.js";
+import { OracleSourceResolver } from "../../../../src/oracle/sourceResolver.js";
+import type { Prisma } from "../../../../src/generated/prisma/client/index.js";
 import {
   verifyResolutionReport,
   type SignedResolutionReport,
@@ -38,9 +41,16 @@ import {
 } from "@stellar/stellar-sdk";
 import { createHash } from "crypto";
 import type { ShutdownHandler, ShutdownSignal } from "../finalization/types.js";
+import { trackQueueDepth, workerMetrics } from "../shared/metrics.js";
+import {
+  resolveMetricsPort,
+  startMetricsServer,
+} from "../../../../packages/shared/src/metrics.js";
 
 type OracleStellarConfig = ResolvedOracleStellarConfig;
 
+const DEFAULT_METRICS_PORT = 9467;
+
 async function submitOnChain(
   report: SignedResolutionReport,
   oracleAddress: string,
@@ -119,6 +129,7 @@ async function bootstrap(): Promise<void> {
   const config = loadOracleWorkerConfig();
   const logger = createLogger(config.logLevel);
   const prisma = getPrismaClient();
+  const sourceResolver = new OracleSourceResolver(prisma);
 
   const stellarConfig = resolveOracleStellarConfig(process.env);
 
@@ -157,7 +168,7 @@ async function bootstrap(): Promise<void> {
 
       let txHash: string | undefined;
       if (stellarConfig) {
-        await submitOnChain(
+        txHash = await submitOnChain(
           report,
           request.oracleAddress,
           stellarConfig,
@@ -173,34 +184,54 @@ async function bootstrap(): Promise<void> {
       const payloadHash = createHash("sha256")
         .update(JSON.stringify(report.payload))
         .digest("hex");
+      const canonicalSource = await sourceResolver.canonicalize(
+        request.oracleAddress
+      );
 
-      await prisma.oracleReport.create({
-        data: {
+      // Update the report the resolution scheduler stored for this entry
+      const processed = {
+        canonicalSource,
+        confidence: 1.0,
+        candidateResolution: result.outcome,
+        status: txHash ? ("CONFIRMED" as const) : ("PENDING" as const),
+        attempts: attemptsMade + 1,
+        txHash,
+      };
+      await prisma.oracleReport.upsert({
+        where: { idempotencyKey: item.id },
+        create: {
+          ...processed,
           payloadHash,
           source: request.oracleAddress,
-          confidence: 1.0,
           marketId: request.marketId,
-          candidateResolution: result.outcome,
-          status: txHash ? "CONFIRMED" : "PENDING",
-          attempts: attemptsMade + 1,
-          txHash,
+          idempotencyKey: item.id,
           createdAt: new Date(report.payload.timestamp),
         },
+        update: processed,
       });
 
+      const provenance = resolutionProvenance(
+        result
+      ) as unknown as Prisma.InputJsonObject;
+      // Keyed by submission, so a market retried after its candidate was
+      // rejected gets a new one
       await prisma.resolutionCandidate.upsert({
-        where: {
-          idempotencyKey: `${request.marketId}:${request.oracleAddress}`,
-        },
+        where: { idempotencyKey: item.id },
         create: {
           marketId: request.marketId,
           proposedOutcome: result.outcome,
           source: request.oracleAddress,
+          canonicalSource,
+          confidenceScore: result.confidence,
+          provenance,
           operatorAddress: request.oracleAddress,
-          idempotencyKey: `${request.marketId}:${request.oracleAddress}`,
+          idempotencyKey: item.id,
         },
         update: {
           proposedOutcome: result.outcome,
+          canonicalSource,
+          confidenceScore: result.confidence,
+          provenance,
         },
       });
 
@@ -212,6 +243,20 @@ async function bootstrap(): Promise<void> {
     logger
   );
 
+  const submissionQueue = new BullMQSubmissionQueue(logger);
+  trackQueueDepth(
+    process.env.SUBMISSION_QUEUE_NAME ?? "oracle-submissions",
+    submissionQueue
+  );
+  const metricsPort = resolveMetricsPort(DEFAULT_METRICS_PORT);
+  const metricsServer = await startMetricsServer(workerMetrics, {
+    port: metricsPort,
+  });
+  logger.info("Metrics endpoint listening", {
+    port: metricsPort,
+    component: "oracle-worker",
+  });
+
   const VALID_SHUTDOWN_SIGNALS = ["SIGINT", "SIGTERM", "SIGHUP"] as const;
   const SHUTDOWN_TIMEOUT_MS = 30_000;
 
@@ -253,6 +298,8 @@ async function bootstrap(): Promise<void> {
 
     try {
       await bullWorker.close();
+      await submissionQueue.close();
+      metricsServer.close();
       await disconnectPrisma();
       await redis.disconnect();
       clearTimeout(timeoutHandle);
@@ -181,6 +181,12 @@ describe("RedisSubmissionQueue", () => {
         "EX",
         86400
       );
+      expect(mockClient.set).toHaveBeenCalledWith(
+        "oracle:enqueued:test-123",
+        "1-0",
+        "EX",
+        86400
+      );
       expect(mockLogger.info).toHaveBeenCalledWith(
         "Oracle submission queued",
         expect.any(Object)
@@ -218,6 +224,22 @@ describe("RedisSubmissionQueue", () => {
         expect.any(Object)
       );
     });
+
+    it("should skip an item whose ID was already queued", async () => {
+      mockClient.exists
+        .mockResolvedValueOnce(0) // No duplicate payload
+        .mockResolvedValueOnce(0) // No submission in flight
+        .mockResolvedValueOnce(1); // Same scheduler attempt queued before
+
+      const result = await queue.enqueue(testItem);
+
+      expect(result).toBe(false);
+      expect(mockClient.exists).toHaveBeenNthCalledWith(
+        3,
+        "oracle:enqueued:test-123"
+      );
+      expect(mockClient.xadd).not.toHaveBeenCalled();
+    });
   });
 
   describe("dequeue", () => {
@@ -131,6 +131,18 @@ export class RedisSubmissionQueue {
     );
   }
 
+  private itemKey(id: string): string {
+    return `oracle:enqueued:${id}`;
+  }
+
+  /**
+   * Check whether an item with this ID was already queued, e.g. by a
+   * scheduler attempt that is retried after it enqueued.
+   */
+  private async isItemQueued(id: string): Promise<boolean> {
+    return (await this.redisClient.exists(this.itemKey(id))) > 0;
+  }
+
   private marketLockKey(marketId: string): string {
     return `oracle:inflight:${marketId}`;
   }
@@ -171,8 +183,9 @@ export class RedisSubmissionQueue {
 
   /**
    * Enqueue a submission to the Redis stream.
-   * Returns false if a duplicate payload is already queued, or if the
-   * market already has a different submission in flight (market dedupe).
+   * Returns false if a duplicate payload is already queued, if the market
+   * already has a different submission in flight (market dedupe) or if an
+   * item with the same ID was queued before.
    */
   async enqueue(item: SubmissionQueueItem): Promise<boolean> {
     const payloadHash = this.computePayloadHash(item.result);
@@ -197,6 +210,14 @@ export class RedisSubmissionQueue {
       return false;
     }
 
+    if (await this.isItemQueued(item.id)) {
+      this.logger.info("Submission ID already queued, skipping duplicate", {
+        marketId,
+        id: item.id,
+      });
+      return false;
+    }
+
     const streamId = await this.redisClient.xadd(
       this.streamKey,
       "*",
@@ -210,6 +231,12 @@ export class RedisSubmissionQueue {
 
     await this.markAsQueued(marketId, payloadHash, streamId);
     await this.markMarketInFlight(marketId, streamId);
+    await this.redisClient.set(
+      this.itemKey(item.id),
+      streamId,
+      "EX",
+      this.deduplicationTtlSeconds
+    );
 
     this.logger.info("Oracle submission queued", {
       id: item.id,
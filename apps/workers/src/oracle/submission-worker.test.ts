@@ -5,11 +5,25 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 
 vi.mock("../../../oracle/signature-helper.js", () => ({
+  signResolutionReport: vi.fn(
+    (payload: { marketId: string; outcome: boolean; timestamp: string }) => ({
+      payload,
+      signature: "c2NoZWR1bGVy",
+      publicKey: "GTEST123456789",
+    })
+  ),
   verifyResolutionReport: vi.fn((report: { signature?: string }) =>
     Boolean(report.signature)
   ),
 }));
 
+// The Prisma client behind the challenge service, set per test
+const services = vi.hoisted(() => ({ prisma: null as unknown }));
+
+vi.mock("../../../../src/services/prisma.js", () => ({
+  getPrismaClient: () => services.prisma,
+}));
+
 // Mocks for the Stellar SDK calls made by SubmissionWorker.submitOnChain().
 // Exposed via vi.hoisted so individual tests can configure return values.
 const stellarMocks = vi.hoisted(() => ({
@@ -64,6 +78,12 @@ vi.mock("@stellar/stellar-sdk", () => ({
 import { SubmissionWorker } from "./submission-worker.js";
 import type { QueuedSubmission } from "./redis-submission-queue.js";
 import { logDeadLetter } from "../consumers/dead-letter.js";
+import {
+  ResolutionScheduler,
+  type ResolutionSchedulerPrisma,
+} from "../../../oracle/resolution-scheduler.js";
+import type { SubmissionQueueItem } from "../../../oracle/submission-queue.js";
+import { adjudicateChallenge } from "../../../../src/services/resolution-challenges.js";
 
 const TEST_STELLAR_CONFIG = {
   rpcUrl: "https://rpc.test",
@@ -83,6 +103,9 @@ const mockPrisma = {
     upsert: vi.fn(),
     updateMany: vi.fn(),
   },
+  oracleSourceAlias: {
+    findMany: vi.fn().mockResolvedValue([]),
+  },
 };
 
 // Mock queue
@@ -144,7 +167,7 @@ describe("SubmissionWorker", () => {
   describe("processSubmission", () => {
     it("should process successful submission", async () => {
       const submission = createTestSubmission();
-      mockPrisma.oracleReport.create.mockResolvedValueOnce({
+      mockPrisma.oracleReport.upsert.mockResolvedValueOnce({
         id: "report-1",
       });
       mockPrisma.resolutionCandidate.upsert.mockResolvedValueOnce({
@@ -154,7 +177,7 @@ describe("SubmissionWorker", () => {
 
       await worker.processSubmission(submission);
 
-      expect(mockPrisma.oracleReport.create).toHaveBeenCalled();
+      expect(mockPrisma.oracleReport.upsert).toHaveBeenCalled();
       expect(mockPrisma.resolutionCandidate.upsert).toHaveBeenCalled();
       expect(mockQueue.acknowledge).toHaveBeenCalledWith(submission);
       expect(mockLogger.info).toHaveBeenCalledWith(
@@ -163,9 +186,9 @@ describe("SubmissionWorker", () => {
       );
     });
 
-    it("persists status, attempts, and tx hash on success", async () => {
+    it("confirms the report keyed by the submission on success", async () => {
       const submission = createTestSubmission();
-      mockPrisma.oracleReport.create.mockResolvedValueOnce({ id: "report-1" });
+      mockPrisma.oracleReport.upsert.mockResolvedValueOnce({ id: "report-1" });
       mockPrisma.resolutionCandidate.upsert.mockResolvedValueOnce({
         id: "candidate-1",
       });
@@ -173,13 +196,54 @@ describe("SubmissionWorker", () => {
 
       await worker.processSubmission(submission);
 
-      expect(mockPrisma.oracleReport.create).toHaveBeenCalledWith({
-        data: expect.objectContaining({
-          status: "CONFIRMED",
-          attempts: submission.attempts + 1,
-          txHash: undefined,
+      const confirmed = {
+        status: "CONFIRMED",
+        attempts: submission.attempts + 1,
+        txHash: undefined,
+      };
+      expect(mockPrisma.oracleReport.upsert).toHaveBeenCalledWith({
+        where: { idempotencyKey: "test-123" },
+        create: expect.objectContaining({
+          ...confirmed,
+          idempotencyKey: "test-123",
         }),
+        update: expect.objectContaining(confirmed),
       });
+      expect(mockPrisma.oracleReport.create).not.toHaveBeenCalled();
+    });
+
+    it("stores the confidence and provider provenance on the candidate", async () => {
+      const submission = createTestSubmission();
+      mockPrisma.oracleReport.upsert.mockResolvedValueOnce({ id: "report-1" });
+      mockPrisma.resolutionCandidate.upsert.mockResolvedValueOnce({
+        id: "candidate-1",
+      });
+      mockQueue.acknowledge.mockResolvedValueOnce(undefined);
+
+      await worker.processSubmission(submission);
+
+      const provenance = {
+        confidence: { score: 0.9, method: "test" },
+        contributions: [
+          {
+            outcome: true,
+            confidenceMetadata: { score: 0.9, method: "test" },
+            sourceMetadata: { provider: "Chainlink" },
+          },
+        ],
+      };
+      expect(mockPrisma.resolutionCandidate.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            confidenceScore: 0.9,
+            provenance,
+          }),
+          update: expect.objectContaining({
+            confidenceScore: 0.9,
+            provenance,
+          }),
+        })
+      );
     });
 
     it("persists SUBMITTED status and attempt count when retrying", async () => {
@@ -310,7 +374,7 @@ describe("SubmissionWorker", () => {
 
     it("should handle Prisma errors gracefully", async () => {
       const submission = createTestSubmission();
-      mockPrisma.oracleReport.create.mockRejectedValueOnce(
+      mockPrisma.oracleReport.upsert.mockRejectedValueOnce(
         new Error("DB error")
       );
 
@@ -328,7 +392,7 @@ describe("SubmissionWorker", () => {
   describe("submitOnChain (Stellar SDK invocation)", () => {
     it("does not touch the Stellar SDK when no stellar config is provided", async () => {
       const submission = createTestSubmission();
-      mockPrisma.oracleReport.create.mockResolvedValueOnce({ id: "report-1" });
+      mockPrisma.oracleReport.upsert.mockResolvedValueOnce({ id: "report-1" });
       mockPrisma.resolutionCandidate.upsert.mockResolvedValueOnce({
         id: "candidate-1",
       });
@@ -360,7 +424,7 @@ describe("SubmissionWorker", () => {
         status: "SUCCESS",
         ledger: 42,
       });
-      mockPrisma.oracleReport.create.mockResolvedValueOnce({ id: "report-1" });
+      mockPrisma.oracleReport.upsert.mockResolvedValueOnce({ id: "report-1" });
       mockPrisma.resolutionCandidate.upsert.mockResolvedValueOnce({
         id: "candidate-1",
       });
@@ -417,9 +481,9 @@ describe("SubmissionWorker", () => {
         }
       );
 
-      await expect(
-        stellarWorker.processSubmission(submission)
-      ).rejects.toThrow(/resolve_market submission failed/);
+      await expect(stellarWorker.processSubmission(submission)).rejects.toThrow(
+        /resolve_market submission failed/
+      );
 
       expect(stellarMocks.getTransaction).not.toHaveBeenCalled();
       expect(mockQueue.nack).toHaveBeenCalled();
@@ -454,11 +518,172 @@ describe("SubmissionWorker", () => {
         }
       );
 
-      await expect(
-        stellarWorker.processSubmission(submission)
-      ).rejects.toThrow(/resolve_market transaction failed on-chain/);
+      await expect(stellarWorker.processSubmission(submission)).rejects.toThrow(
+        /resolve_market transaction failed on-chain/
+      );
 
       expect(mockQueue.nack).toHaveBeenCalled();
     });
   });
+
+  describe("after a challenge rejects the candidate", () => {
+    interface StoredCandidate {
+      id: string;
+      marketId: string;
+      status: string;
+      idempotencyKey: string;
+    }
+
+    it("proposes a new candidate from the retried attempt", async () => {
+      const now = new Date("2026-07-22T12:00:00.000Z");
+      const market = {
+        id: "market-1",
+        oracleAddress: "GTEST123456789",
+        status: "CLOSED",
+      };
+      const candidates = new Map<string, StoredCandidate>();
+      let attempt: {
+        status: string;
+        attempts: number;
+        nextAttemptAt: Date;
+      } | null = null;
+
+      const upsertCandidate = vi.fn(async ({ where, create }) => {
+        const existing = candidates.get(where.idempotencyKey);
+        if (existing) return existing;
+        const candidate = {
+          id: `candidate-${candidates.size + 1}`,
+          marketId: create.marketId,
+          status: "PROPOSED",
+          idempotencyKey: create.idempotencyKey,
+        };
+        candidates.set(create.idempotencyKey, candidate);
+        return candidate;
+      });
+      const prisma = {
+        ...mockPrisma,
+        resolutionCandidate: { upsert: upsertCandidate, updateMany: vi.fn() },
+      };
+
+      // The scheduler only asks about a market without a live candidate
+      // whose attempt is due
+      const queued: SubmissionQueueItem[] = [];
+      const scheduler = new ResolutionScheduler(
+        {
+          market: {
+            findMany: vi.fn(async () => {
+              const live = [...candidates.values()].some(
+                (candidate) => candidate.status !== "REJECTED"
+              );
+              const due =
+                attempt === null ||
+                (attempt.status === "PENDING" && attempt.nextAttemptAt <= now);
+              return !live && due
+                ? [{ ...market, resolutionAttempt: attempt }]
+                : [];
+            }),
+          },
+          oracleReport: { upsert: vi.fn().mockResolvedValue({}) },
+          resolutionAttempt: {
+            upsert: vi.fn(async ({ update }) => {
+              attempt = { ...attempt, ...update };
+            }),
+          },
+        } as unknown as ResolutionSchedulerPrisma,
+        {
+          resolve: vi.fn().mockResolvedValue({
+            outcome: true,
+            confidence: 0.9,
+            source: "Chainlink",
+            timestamp: now.toISOString(),
+          }),
+        },
+        { enqueue: vi.fn(async (item) => queued.push(item) > 0) },
+        { canonicalize: vi.fn().mockResolvedValue("CHAINLINK") },
+        mockLogger,
+        {
+          graceSeconds: 300,
+          backoffSeconds: 60,
+          maxBackoffSeconds: 600,
+          secretKey: "SECRETKEY",
+        }
+      );
+      const deliver = (item: SubmissionQueueItem) =>
+        worker.processSubmission({
+          ...item,
+          streamId: "1-0",
+          visibilityExpiresAt: Date.now() + 5000,
+        });
+      worker = new SubmissionWorker(mockQueue as any, prisma as any, {
+        submissionMaxRetries: 3,
+        consumerName: "test-consumer",
+        logger: mockLogger,
+      });
+
+      await scheduler.run(now);
+      await deliver(queued[0]);
+      const [first] = candidates.values();
+      expect(first.status).toBe("PROPOSED");
+
+      // An admin upholds a challenge against the first candidate
+      services.prisma = {
+        resolutionChallenge: {
+          findUnique: vi.fn().mockResolvedValue({
+            id: "challenge-1",
+            decision: null,
+            candidate: { ...first, status: "CHALLENGED" },
+            market,
+          }),
+        },
+        $transaction: (fn: (tx: unknown) => Promise<unknown>) =>
+          fn({
+            resolutionCandidate: {
+              updateMany: vi.fn(async ({ where, data }) => {
+                first.status = data.status;
+                return { count: where.id === first.id ? 1 : 0 };
+              }),
+            },
+            resolutionChallenge: {
+              update: vi.fn(async ({ data }) => ({
+                id: "challenge-1",
+                ...data,
+              })),
+            },
+            resolutionAttempt: {
+              updateMany: vi.fn(async ({ data }) => {
+                attempt = { ...attempt!, ...data };
+                return { count: 1 };
+              }),
+            },
+          }),
+      };
+      await adjudicateChallenge(
+        {
+          challengeId: "challenge-1",
+          decision: "ACCEPT",
+          actor: "ops",
+          reason: "Challenger is right",
+        },
+        now
+      );
+
+      await scheduler.run(now);
+      expect(queued.map((item) => item.id)).toEqual([
+        "market-1:1",
+        "market-1:2",
+      ]);
+      await deliver(queued[1]);
+
+      expect([...candidates.values()]).toEqual([
+        expect.objectContaining({
+          idempotencyKey: "market-1:1",
+          status: "REJECTED",
+        }),
+        expect.objectContaining({
+          idempotencyKey: "market-1:2",
+          status: "PROPOSED",
+        }),
+      ]);
+    });
+  });
 });
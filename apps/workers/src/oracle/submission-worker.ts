@@ -15,7 +15,10 @@ import {
   rpc as StellarRpc,
   xdr,
 } from "@stellar/stellar-sdk";
-import { PrismaClient } from "../../../../src/generated/prisma/client/index.js";
+import {
+  PrismaClient,
+  type Prisma,
+} from "../../../../src/generated/prisma/client/index.js";
 import type { ILogger } from "../../../../packages/shared/src/logger.js";
 import {
   verifyResolutionReport,
@@ -25,7 +28,9 @@ import {
   RedisSubmissionQueue,
   type QueuedSubmission,
 } from "./redis-submission-queue.js";
+import { OracleSourceResolver } from "../../../../src/oracle/sourceResolver.js";
 import type { SubmissionQueueItem } from "../../../oracle/submission-queue.js";
+import { resolutionProvenance } from "../../../oracle/provider-adapter.js";
 import {
   logDeadLetter,
   type DeadLetterMessage,
@@ -43,6 +48,8 @@ export interface SubmissionWorkerConfig {
   consumerName: string;
   logger: ILogger;
   stellar?: OracleStellarConfig;
+  /** Maps oracle addresses to canonical sources; defaults to one over `prisma` */
+  sourceResolver?: OracleSourceResolver;
 }
 
 /**
@@ -55,6 +62,7 @@ export class SubmissionWorker {
   private queue: RedisSubmissionQueue;
   private prisma: PrismaClient;
   private stellarConfig?: OracleStellarConfig;
+  private sourceResolver: OracleSourceResolver;
 
   constructor(
     queue: RedisSubmissionQueue,
@@ -67,6 +75,8 @@ export class SubmissionWorker {
     this.consumerName = config.consumerName;
     this.logger = config.logger;
     this.stellarConfig = config.stellar;
+    this.sourceResolver =
+      config.sourceResolver ?? new OracleSourceResolver(prisma);
   }
 
   /**
@@ -290,36 +300,56 @@ export class SubmissionWorker {
 
     try {
       const payloadHash = this.computePayloadHash(report.payload);
+      const canonicalSource = await this.sourceResolver.canonicalize(
+        request.oracleAddress
+      );
 
-      // Create or update OracleReport
-      await this.prisma.oracleReport.create({
-        data: {
+      // Confirm the OracleReport keyed by this submission, which the
+      // resolution scheduler stored when it enqueued it
+      const confirmed = {
+        canonicalSource,
+        confidence: 1.0, // Full confidence on successful submission
+        candidateResolution: outcome,
+        status: "CONFIRMED" as const,
+        attempts: submission.attempts + 1,
+        txHash,
+      };
+      await this.prisma.oracleReport.upsert({
+        where: { idempotencyKey: submission.id },
+        create: {
+          ...confirmed,
           payloadHash,
           source: request.oracleAddress,
-          confidence: 1.0, // Full confidence on successful submission
           marketId,
-          candidateResolution: outcome,
-          status: "CONFIRMED",
-          attempts: submission.attempts + 1,
-          txHash,
+          idempotencyKey: submission.id,
           createdAt: new Date(timestamp),
         },
+        update: confirmed,
       });
 
-      // Upsert ResolutionCandidate
+      // Upsert ResolutionCandidate with the confidence and provenance of
+      // every provider the outcome was decided from. Keyed by submission, so
+      // a market retried after its candidate was rejected gets a new one
+      const provenance = resolutionProvenance(
+        submission.result
+      ) as unknown as Prisma.InputJsonObject;
       await this.prisma.resolutionCandidate.upsert({
-        where: {
-          idempotencyKey: `${marketId}:${request.oracleAddress}`,
-        },
+        where: { idempotencyKey: submission.id },
         create: {
           marketId,
           proposedOutcome: outcome,
           source: request.oracleAddress,
+          canonicalSource,
+          confidenceScore: submission.result.confidence,
+          provenance,
           operatorAddress: request.oracleAddress,
-          idempotencyKey: `${marketId}:${request.oracleAddress}`,
+          idempotencyKey: submission.id,
         },
         update: {
           proposedOutcome: outcome,
+          canonicalSource,
+          confidenceScore: submission.result.confidence,
+          provenance,
         },
       });
 
@@ -374,9 +404,15 @@ export class SubmissionWorker {
     errorMessage: string
   ): Promise<void> {
     const { request } = submission;
+    const {
+      streamId: _streamId,
+      visibilityExpiresAt: _expiresAt,
+      ...item
+    } = submission;
 
     // Emit dead-letter log entry so the failure is surfaced for operational
-    // visibility (monitored via log aggregation / alerting pipelines).
+    // visibility (monitored via log aggregation / alerting pipelines). The
+    // full queue item is kept so the submission can be replayed.
     const deadLetterMessage: DeadLetterMessage = {
       id: submission.id,
       queue: "oracle-submission",
@@ -384,6 +420,7 @@ export class SubmissionWorker {
         marketId: request.marketId,
         oracleAddress: request.oracleAddress,
         attempts: submission.attempts,
+        submission: item,
       },
       reason: errorMessage,
     };
@@ -0,0 +1,180 @@
+import "dotenv/config";
+import { loadReconciliationConfig } from "../../../../packages/shared/src/config.js";
+import {
+  resolveMetricsPort,
+  startMetricsServer,
+} from "../../../../packages/shared/src/metrics.js";
+import { PositionReconciliationJob } from "./positions.js";
+import { TradeReconciliationJob } from "./trades.js";
+import { createLogger } from "../../../indexer/src/logger.js";
+import {
+  getPrismaClient,
+  disconnectPrisma,
+} from "../../../../src/services/prisma.js";
+import { workerMetrics } from "../shared/metrics.js";
+import type { ShutdownHandler, ShutdownSignal } from "../finalization/types.js";
+
+const DEFAULT_METRICS_PORT = 9468;
+
+async function bootstrap(): Promise<void> {
+  const config = loadReconciliationConfig();
+  const logger = createLogger(config.logLevel);
+  const prisma = getPrismaClient();
+  const tradeJob = new TradeReconciliationJob(prisma, logger, {
+    lookbackSeconds: config.lookbackSeconds,
+    graceSeconds: config.graceSeconds,
+  });
+  const positionJob = new PositionReconciliationJob(prisma, logger);
+
+  const metricsPort = resolveMetricsPort(DEFAULT_METRICS_PORT);
+  const metricsServer = await startMetricsServer(workerMetrics, {
+    port: metricsPort,
+  });
+
+  logger.info("Reconciliation worker started", {
+    intervalMs: config.intervalMs,
+    lookbackSeconds: config.lookbackSeconds,
+    graceSeconds: config.graceSeconds,
+    metricsPort,
+  });
+
+  let isPollInProgress = false;
+
+  const poll = async (): Promise<void> => {
+    if (isPollInProgress) {
+      logger.warn(
+        "Skipping reconciliation poll because a previous poll is active",
+        {
+          intervalMs: config.intervalMs,
+          component: "reconciliation-worker",
+        }
+      );
+      return;
+    }
+
+    isPollInProgress = true;
+
+    try {
+      const result = await tradeJob.run();
+      logger.info("Trade reconciliation complete", {
+        component: "reconciliation-worker",
+        scannedTrades: result.scannedTrades,
+        scannedIndexedTrades: result.scannedIndexedTrades,
+        matched: result.matched,
+        discrepancies: result.discrepancies,
+        opened: result.opened,
+        resolved: result.resolved,
+        durationMs: result.durationMs,
+      });
+    } catch (error) {
+      logger.error("Trade reconciliation failed", {
+        component: "reconciliation-worker",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    try {
+      const result = await positionJob.run();
+      logger.info("Position reconciliation complete", {
+        component: "reconciliation-worker",
+        markets: result.markets,
+        positions: result.positions,
+        drifting: result.drifting,
+        opened: result.opened,
+        resolved: result.resolved,
+        durationMs: result.durationMs,
+      });
+    } catch (error) {
+      logger.error("Position reconciliation failed", {
+        component: "reconciliation-worker",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      isPollInProgress = false;
+    }
+  };
+
+  await poll();
+  const timer = setInterval(() => void poll(), config.intervalMs);
+
+  const VALID_SHUTDOWN_SIGNALS = ["SIGINT", "SIGTERM", "SIGHUP"] as const;
+  const SHUTDOWN_TIMEOUT_MS = 30_000;
+
+  let isShuttingDown = false;
+  const shutdown: ShutdownHandler = async (signal: ShutdownSignal) => {
+    if (
+      typeof signal !== "string" ||
+      signal.trim() === "" ||
+      !VALID_SHUTDOWN_SIGNALS.includes(
+        signal as (typeof VALID_SHUTDOWN_SIGNALS)[number]
+      )
+    ) {
+      logger.warn("Graceful shutdown called with invalid signal", {
+        signal,
+        statusCode: 400,
+        component: "reconciliation-worker",
+        validSignals: [...VALID_SHUTDOWN_SIGNALS],
+      });
+      return;
+    }
+
+    if (isShuttingDown) return;
+    isShuttingDown = true;
+
+    logger.info("Reconciliation worker shutdown initiated", {
+      signal,
+      component: "reconciliation-worker",
+      status: "initiated",
+    });
+
+    clearInterval(timer);
+
+    const timeoutHandle = setTimeout(() => {
+      logger.error("Shutdown timeout exceeded, forcing exit", {
+        signal,
+        component: "reconciliation-worker",
+        timeoutMs: SHUTDOWN_TIMEOUT_MS,
+      });
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS);
+
+    try {
+      metricsServer.close();
+      await disconnectPrisma();
+      clearTimeout(timeoutHandle);
+
+      logger.info("Reconciliation worker shutdown complete", {
+        signal,
+        component: "reconciliation-worker",
+        status: "complete",
+        exitCode: 0,
+      });
+      process.exit(0);
+    } catch (error) {
+      clearTimeout(timeoutHandle);
+      logger.error("Reconciliation worker shutdown failed", {
+        signal,
+        component: "reconciliation-worker",
+        status: "failed",
+        exitCode: 1,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      process.exit(1);
+    }
+  };
+
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+void bootstrap().catch((error) => {
+  console.error(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "error",
+      message: "Reconciliation worker failed during bootstrap",
+      error: error instanceof Error ? error.message : String(error),
+    })
+  );
+  process.exit(1);
+});
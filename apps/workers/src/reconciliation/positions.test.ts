@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "../../../../src/generated/prisma/client/index.js";
+import { PositionReconciliationJob } from "./positions.js";
+import { positionDrifts, workerMetrics } from "../shared/metrics.js";
+import type { Logger } from "../../../indexer/src/logger.js";
+import type { PrismaClient } from "../../../../src/generated/prisma/client/index.js";
+
+const BUYER = "GBUYER";
+const SELLER = "GSELLER";
+
+function makeLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  };
+}
+
+function position(userAddress: string, yesShares: number, locked: string) {
+  return {
+    userAddress,
+    yesShares,
+    noShares: 0,
+    lockedCollateral: new Prisma.Decimal(locked),
+  };
+}
+
+/** One market with one CLOB trade: BUYER should hold 10 YES for 6. */
+function makePrisma(
+  positions: ReturnType<typeof position>[],
+  openDrift: { id: string; userAddress: string }[] = []
+) {
+  const positionDrift = {
+    findMany: vi.fn().mockResolvedValue(openDrift),
+    create: vi.fn().mockResolvedValue({}),
+    update: vi.fn().mockResolvedValue({}),
+    updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    count: vi.fn().mockResolvedValue(1),
+  };
+  const prisma = {
+    trade: {
+      findMany: vi.fn(async (args: { distinct?: string[] }) =>
+        args.distinct
+          ? [{ marketId: "market-1" }]
+          : [
+              {
+                outcome: "YES",
+                buyerAddress: BUYER,
+                sellerAddress: SELLER,
+                buyOrderId: "buy-1",
+                sellOrderId: "sell-1",
+                price: new Prisma.Decimal("0.6"),
+                quantity: 10,
+                matchType: "DIRECT",
+              },
+            ]
+      ),
+    },
+    indexedTrade: { findMany: vi.fn().mockResolvedValue([]) },
+    userPosition: {
+      findMany: vi.fn(async (args: { distinct?: string[] }) =>
+        args.distinct ? [{ marketId: "market-1" }] : positions
+      ),
+    },
+    collateralDeposit: { findMany: vi.fn().mockResolvedValue([]) },
+    positionDrift,
+  };
+  return { prisma: prisma as unknown as PrismaClient, positionDrift };
+}
+
+describe("PositionReconciliationJob", () => {
+  beforeEach(() => {
+    workerMetrics.resetAll();
+  });
+
+  it("records a new drift row and logs it once", async () => {
+    const logger = makeLogger();
+    const { prisma, positionDrift } = makePrisma([
+      position(BUYER, 20, "6"),
+      position(SELLER, -10, "-6"),
+    ]);
+
+    const result = await new PositionReconciliationJob(prisma, logger).run();
+
+    expect(result).toMatchObject({
+      markets: 1,
+      positions: 2,
+      drifting: 1,
+      opened: 1,
+      resolved: 0,
+    });
+    expect(positionDrift.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        marketId: "market-1",
+        userAddress: BUYER,
+        expectedYesShares: 10,
+        actualYesShares: 20,
+      }),
+    });
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(positionDrifts.get()).toBe(1);
+  });
+
+  it("updates an open drift row instead of opening another", async () => {
+    const { prisma, positionDrift } = makePrisma(
+      [position(BUYER, 20, "6"), position(SELLER, -10, "-6")],
+      [{ id: "drift-1", userAddress: BUYER }]
+    );
+
+    const result = await new PositionReconciliationJob(
+      prisma,
+      makeLogger()
+    ).run();
+
+    expect(result.opened).toBe(0);
+    expect(positionDrift.create).not.toHaveBeenCalled();
+    expect(positionDrift.update).toHaveBeenCalledWith({
+      where: { id: "drift-1" },
+      data: expect.objectContaining({ actualYesShares: 20 }),
+    });
+  });
+
+  it("resolves open drift once the position agrees again", async () => {
+    const { prisma, positionDrift } = makePrisma(
+      [position(BUYER, 10, "6"), position(SELLER, -10, "-6")],
+      [{ id: "drift-1", userAddress: BUYER }]
+    );
+
+    const result = await new PositionReconciliationJob(
+      prisma,
+      makeLogger()
+    ).run();
+
+    expect(result.resolved).toBe(1);
+    expect(positionDrift.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["drift-1"] } },
+      data: { resolvedAt: expect.any(Date) },
+    });
+  });
+});
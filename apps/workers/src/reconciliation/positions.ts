@@ -0,0 +1,156 @@
+import type { PrismaClient } from "../../../../src/generated/prisma/client/index.js";
+import type { ILogger } from "../../../../packages/shared/src/logger.js";
+import {
+  findMarketPositionDrift,
+  getReconciledMarketIds,
+  type PositionDriftFinding,
+} from "../../../../src/services/position-reconciliation.js";
+import {
+  positionDrifts,
+  positionReconciliationRuns,
+} from "../shared/metrics.js";
+
+export interface PositionReconciliationResult {
+  markets: number;
+  /** Wallet positions compared across all markets */
+  positions: number;
+  /** Positions drifting this run, including ones already open */
+  drifting: number;
+  /** Drifting positions without an open drift row before this run */
+  opened: number;
+  /** Open drift rows whose position agrees again */
+  resolved: number;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+}
+
+function driftValues(finding: PositionDriftFinding) {
+  return {
+    expectedYesShares: finding.expected.yesShares,
+    actualYesShares: finding.actual.yesShares,
+    expectedNoShares: finding.expected.noShares,
+    actualNoShares: finding.actual.noShares,
+    expectedLockedCollateral: finding.expected.lockedCollateral,
+    actualLockedCollateral: finding.actual.lockedCollateral,
+    depositedCollateral: finding.depositedCollateral,
+  };
+}
+
+/**
+ * Recomputes every wallet's position from trades and records the positions
+ * whose `UserPosition` row disagrees as `PositionDrift` rows. The job only
+ * reports; positions are overwritten once an admin approves a repair
+ * through the admin API.
+ */
+export class PositionReconciliationJob {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly logger: ILogger
+  ) {}
+
+  async run(): Promise<PositionReconciliationResult> {
+    try {
+      const result = await this.reconcile();
+      positionReconciliationRuns.inc({ result: "success" });
+      return result;
+    } catch (error) {
+      positionReconciliationRuns.inc({ result: "failure" });
+      throw error;
+    }
+  }
+
+  private async reconcile(): Promise<PositionReconciliationResult> {
+    const startedAt = new Date();
+    const marketIds = await getReconciledMarketIds(this.prisma);
+
+    let positions = 0;
+    let drifting = 0;
+    let opened = 0;
+    let resolved = 0;
+    for (const marketId of marketIds) {
+      const market = await findMarketPositionDrift(this.prisma, marketId);
+      const counts = await this.record(marketId, market.drift, startedAt);
+      positions += market.positions;
+      drifting += market.drift.length;
+      opened += counts.opened;
+      resolved += counts.resolved;
+    }
+
+    positionDrifts.set(
+      undefined,
+      await this.prisma.positionDrift.count({ where: { resolvedAt: null } })
+    );
+
+    const completedAt = new Date();
+    return {
+      markets: marketIds.length,
+      positions,
+      drifting,
+      opened,
+      resolved,
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+    };
+  }
+
+  /** Update a market's open drift rows to match this run's findings. */
+  private async record(
+    marketId: string,
+    drift: PositionDriftFinding[],
+    now: Date
+  ): Promise<{ opened: number; resolved: number }> {
+    const open = await this.prisma.positionDrift.findMany({
+      where: { marketId, resolvedAt: null },
+      select: { id: true, userAddress: true },
+    });
+    const openByWallet = new Map(open.map((row) => [row.userAddress, row.id]));
+
+    let opened = 0;
+    for (const finding of drift) {
+      const id = openByWallet.get(finding.userAddress);
+      if (id) {
+        await this.prisma.positionDrift.update({
+          where: { id },
+          data: { ...driftValues(finding), lastSeenAt: now },
+        });
+        openByWallet.delete(finding.userAddress);
+        continue;
+      }
+
+      await this.prisma.positionDrift.create({
+        data: {
+          marketId,
+          userAddress: finding.userAddress,
+          ...driftValues(finding),
+          detectedAt: now,
+          lastSeenAt: now,
+        },
+      });
+      opened++;
+      this.logger.warn("Position drift detected", {
+        component: "position-reconciliation",
+        marketId,
+        userAddress: finding.userAddress,
+        expectedYesShares: finding.expected.yesShares,
+        actualYesShares: finding.actual.yesShares,
+        expectedNoShares: finding.expected.noShares,
+        actualNoShares: finding.actual.noShares,
+        expectedLockedCollateral: finding.expected.lockedCollateral.toString(),
+        actualLockedCollateral: finding.actual.lockedCollateral.toString(),
+      });
+    }
+
+    // Whatever is left agrees again
+    const stale = [...openByWallet.values()];
+    if (stale.length > 0) {
+      await this.prisma.positionDrift.updateMany({
+        where: { id: { in: stale } },
+        data: { resolvedAt: now },
+      });
+    }
+
+    return { opened, resolved: stale.length };
+  }
+}
@@ -0,0 +1,367 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TradeReconciliationJob } from "./trades.js";
+import { tradeDiscrepancies, workerMetrics } from "../shared/metrics.js";
+import type { Logger } from "../../../indexer/src/logger.js";
+import type { PrismaClient } from "../../../../src/generated/prisma/client/index.js";
+
+const NOW = new Date("2026-07-17T12:00:00Z");
+
+interface TradeRow {
+  tradeId: string;
+  marketId: string;
+  buyOrderId: string;
+  sellOrderId: string;
+  price: string;
+  quantity: number;
+  tradedAt: Date;
+}
+
+interface IndexedRow {
+  id: string;
+  marketId: string;
+  buyOrderId: string;
+  sellOrderId: string;
+  priceRaw: string;
+  quantityRaw: string;
+  createdAt: Date;
+}
+
+interface DiscrepancyRow {
+  id: string;
+  key: string;
+  kind: string;
+  tradeId: string | null;
+  indexedTradeId: string | null;
+  expected: string | null;
+  actual: string | null;
+  resolvedAt: Date | null;
+  [field: string]: unknown;
+}
+
+function makeLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  };
+}
+
+function minutesAgo(minutes: number): Date {
+  return new Date(NOW.getTime() - minutes * 60_000);
+}
+
+function makeTrade(overrides: Partial<TradeRow> = {}): TradeRow {
+  return {
+    tradeId: "trade-1",
+    marketId: "market-1",
+    buyOrderId: "buy-1",
+    sellOrderId: "sell-1",
+    price: "0.65",
+    quantity: 10,
+    tradedAt: minutesAgo(30),
+    ...overrides,
+  };
+}
+
+function makeIndexed(overrides: Partial<IndexedRow> = {}): IndexedRow {
+  return {
+    id: "indexed-1",
+    marketId: "market-1",
+    buyOrderId: "buy-1",
+    sellOrderId: "sell-1",
+    priceRaw: "6500000",
+    quantityRaw: "10",
+    createdAt: minutesAgo(29),
+    ...overrides,
+  };
+}
+
+type Where = {
+  tradedAt?: { gte: Date; lte: Date };
+  createdAt?: { gte: Date; lte: Date };
+  OR?: { buyOrderId: string; sellOrderId: string }[];
+};
+
+function filterRows<T extends { buyOrderId: string; sellOrderId: string }>(
+  rows: T[],
+  where: Where,
+  timeOf: (row: T) => Date
+): T[] {
+  return rows.filter((row) => {
+    const range = where.tradedAt ?? where.createdAt;
+    if (range && (timeOf(row) < range.gte || timeOf(row) > range.lte)) {
+      return false;
+    }
+    if (where.OR) {
+      return where.OR.some(
+        (pair) =>
+          pair.buyOrderId === row.buyOrderId &&
+          pair.sellOrderId === row.sellOrderId
+      );
+    }
+    return true;
+  });
+}
+
+/** In-memory stand-in for the three tables the job touches. */
+function makePrisma(
+  trades: TradeRow[],
+  indexed: IndexedRow[],
+  discrepancies: DiscrepancyRow[] = []
+) {
+  let nextId = discrepancies.length + 1;
+  const prisma = {
+    trade: {
+      findMany: vi.fn(async ({ where }: { where: Where }) =>
+        filterRows(trades, where, (row) => row.tradedAt)
+      ),
+    },
+    indexedTrade: {
+      findMany: vi.fn(async ({ where }: { where: Where }) =>
+        filterRows(indexed, where, (row) => row.createdAt)
+      ),
+    },
+    tradeDiscrepancy: {
+      findMany: vi.fn(
+        async ({
+          where,
+        }: {
+          where: {
+            OR: [
+              { tradeId: { in: string[] } },
+              { indexedTradeId: { in: string[] } },
+            ];
+          };
+        }) =>
+          discrepancies.filter(
+            (row) =>
+              row.resolvedAt === null &&
+              ((row.tradeId !== null &&
+                where.OR[0].tradeId.in.includes(row.tradeId)) ||
+                (row.indexedTradeId !== null &&
+                  where.OR[1].indexedTradeId.in.includes(row.indexedTradeId)))
+          )
+      ),
+      upsert: vi.fn(
+        async ({
+          where,
+          create,
+          update,
+        }: {
+          where: { key: string };
+          create: Omit<DiscrepancyRow, "id" | "resolvedAt">;
+          update: Partial<DiscrepancyRow>;
+        }) => {
+          const existing = discrepancies.find((row) => row.key === where.key);
+          if (existing) return Object.assign(existing, update);
+          const row = {
+            id: `d-${nextId++}`,
+            resolvedAt: null,
+            ...create,
+          } as DiscrepancyRow;
+          discrepancies.push(row);
+          return row;
+        }
+      ),
+      updateMany: vi.fn(
+        async ({
+          where,
+          data,
+        }: {
+          where: { id: { in: string[] } };
+          data: Partial<DiscrepancyRow>;
+        }) => {
+          const rows = discrepancies.filter((row) =>
+            where.id.in.includes(row.id)
+          );
+          rows.forEach((row) => Object.assign(row, data));
+          return { count: rows.length };
+        }
+      ),
+      groupBy: vi.fn(async () => {
+        const counts = new Map<string, number>();
+        for (const row of discrepancies) {
+          if (row.resolvedAt !== null) continue;
+          counts.set(row.kind, (counts.get(row.kind) ?? 0) + 1);
+        }
+        return [...counts].map(([kind, count]) => ({
+          kind,
+          _count: { _all: count },
+        }));
+      }),
+    },
+  };
+  return { prisma: prisma as unknown as PrismaClient, discrepancies };
+}
+
+function makeJob(prisma: PrismaClient, logger = makeLogger()) {
+  return new TradeReconciliationJob(prisma, logger, {
+    lookbackSeconds: 86_400,
+    graceSeconds: 300,
+  });
+}
+
+describe("TradeReconciliationJob", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    workerMetrics.resetAll();
+    return () => vi.useRealTimers();
+  });
+
+  it("records nothing when every trade matches its chain trade", async () => {
+    const { prisma, discrepancies } = makePrisma(
+      [makeTrade()],
+      [makeIndexed()]
+    );
+
+    const result = await makeJob(prisma).run();
+
+    expect(result.matched).toBe(1);
+    expect(result.discrepancies).toBe(0);
+    expect(discrepancies).toHaveLength(0);
+  });
+
+  it("flags trades never seen on chain and chain trades with no CLOB trade", async () => {
+    const { prisma, discrepancies } = makePrisma(
+      [makeTrade({ tradeId: "trade-2", buyOrderId: "buy-2" })],
+      [makeIndexed({ id: "indexed-3", sellOrderId: "sell-3" })]
+    );
+
+    const result = await makeJob(prisma).run();
+
+    expect(result.opened).toBe(2);
+    expect(discrepancies.map((row) => row.key).sort()).toEqual([
+      "MISSING_OFF_CHAIN::indexed-3",
+      "MISSING_ON_CHAIN:trade-2:",
+    ]);
+    expect(tradeDiscrepancies.get({ kind: "MISSING_ON_CHAIN" })).toBe(1);
+    expect(tradeDiscrepancies.get({ kind: "PRICE_MISMATCH" })).toBe(0);
+  });
+
+  it("records price and quantity mismatches in chain units", async () => {
+    const { prisma, discrepancies } = makePrisma(
+      [makeTrade()],
+      [makeIndexed({ priceRaw: "6400000", quantityRaw: "12" })]
+    );
+
+    await makeJob(prisma).run();
+
+    expect(discrepancies).toEqual([
+      expect.objectContaining({
+        kind: "PRICE_MISMATCH",
+        tradeId: "trade-1",
+        indexedTradeId: "indexed-1",
+        expected: "6500000",
+        actual: "6400000",
+      }),
+      expect.objectContaining({
+        kind: "QUANTITY_MISMATCH",
+        expected: "10",
+        actual: "12",
+      }),
+    ]);
+  });
+
+  it("leaves trades inside the grace period for a later run", async () => {
+    const { prisma, discrepancies } = makePrisma(
+      [makeTrade({ tradedAt: minutesAgo(1) })],
+      []
+    );
+
+    const result = await makeJob(prisma).run();
+
+    expect(result.scannedTrades).toBe(0);
+    expect(discrepancies).toHaveLength(0);
+  });
+
+  it("matches a trade to a chain trade indexed outside the window", async () => {
+    const { prisma, discrepancies } = makePrisma(
+      [makeTrade()],
+      [makeIndexed({ createdAt: minutesAgo(2) })]
+    );
+
+    const result = await makeJob(prisma).run();
+
+    expect(result.matched).toBe(1);
+    expect(discrepancies).toHaveLength(0);
+  });
+
+  it("pairs repeated fills of an order pair in time order", async () => {
+    const { prisma, discrepancies } = makePrisma(
+      [
+        makeTrade({
+          tradeId: "trade-b",
+          quantity: 5,
+          tradedAt: minutesAgo(20),
+        }),
+        makeTrade({
+          tradeId: "trade-a",
+          quantity: 3,
+          tradedAt: minutesAgo(40),
+        }),
+      ],
+      [
+        makeIndexed({
+          id: "indexed-b",
+          quantityRaw: "5",
+          createdAt: minutesAgo(19),
+        }),
+        makeIndexed({
+          id: "indexed-a",
+          quantityRaw: "3",
+          createdAt: minutesAgo(39),
+        }),
+      ]
+    );
+
+    const result = await makeJob(prisma).run();
+
+    expect(result.matched).toBe(2);
+    expect(discrepancies).toHaveLength(0);
+  });
+
+  it("resolves an open discrepancy once the chain trade appears", async () => {
+    const { prisma, discrepancies } = makePrisma(
+      [makeTrade()],
+      [makeIndexed()],
+      [
+        {
+          id: "d-1",
+          key: "MISSING_ON_CHAIN:trade-1:",
+          kind: "MISSING_ON_CHAIN",
+          tradeId: "trade-1",
+          indexedTradeId: null,
+          expected: null,
+          actual: null,
+          resolvedAt: null,
+        },
+      ]
+    );
+
+    const result = await makeJob(prisma).run();
+
+    expect(result.resolved).toBe(1);
+    expect(discrepancies[0].resolvedAt).toEqual(NOW);
+    expect(tradeDiscrepancies.get({ kind: "MISSING_ON_CHAIN" })).toBe(0);
+  });
+
+  it("does not log a discrepancy again while it stays open", async () => {
+    const logger = makeLogger();
+    const { prisma, discrepancies } = makePrisma(
+      [makeTrade({ buyOrderId: "buy-2" })],
+      []
+    );
+    const job = makeJob(prisma, logger);
+
+    await job.run();
+    const second = await job.run();
+
+    expect(second.discrepancies).toBe(1);
+    expect(second.opened).toBe(0);
+    expect(discrepancies).toHaveLength(1);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,388 @@
+import type {
+  PrismaClient,
+  TradeDiscrepancyKind,
+} from "../../../../src/generated/prisma/client/index.js";
+import type { ILogger } from "../../../../packages/shared/src/logger.js";
+import {
+  tradeDiscrepancies,
+  tradeReconciliationRuns,
+} from "../shared/metrics.js";
+
+export interface TradeReconciliationConfig {
+  /** Trades and indexed trades older than this are not scanned */
+  lookbackSeconds: number;
+  /** Trades younger than this are left for a later run, so settlement and
+   *  indexing have time to catch up */
+  graceSeconds: number;
+}
+
+/** Every kind gets a gauge series, so a cleared kind reports 0. */
+const DISCREPANCY_KINDS: TradeDiscrepancyKind[] = [
+  "MISSING_ON_CHAIN",
+  "MISSING_OFF_CHAIN",
+  "PRICE_MISMATCH",
+  "QUANTITY_MISMATCH",
+];
+
+export interface TradeReconciliationResult {
+  scannedTrades: number;
+  scannedIndexedTrades: number;
+  /** CLOB trades paired with an indexed chain trade */
+  matched: number;
+  /** Discrepancies seen this run, including ones already open */
+  discrepancies: number;
+  /** Discrepancies first seen (or seen again after being resolved) this run */
+  opened: number;
+  /** Open discrepancies this run no longer sees */
+  resolved: number;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+}
+
+interface ClobTrade {
+  tradeId: string;
+  marketId: string;
+  buyOrderId: string;
+  sellOrderId: string;
+  price: { toString(): string };
+  quantity: number;
+  tradedAt: Date;
+}
+
+interface ChainTrade {
+  id: string;
+  marketId: string;
+  buyOrderId: string;
+  sellOrderId: string;
+  priceRaw: string;
+  quantityRaw: string;
+  createdAt: Date;
+}
+
+interface Finding {
+  key: string;
+  kind: TradeDiscrepancyKind;
+  marketId: string;
+  tradeId: string | null;
+  indexedTradeId: string | null;
+  buyOrderId: string;
+  sellOrderId: string;
+  expected: string | null;
+  actual: string | null;
+}
+
+/** Chain prices carry 7 decimals, as in the settlement contract call. */
+const PRICE_SCALE = 1e7;
+
+const CLOB_TRADE_SELECT = {
+  tradeId: true,
+  marketId: true,
+  buyOrderId: true,
+  sellOrderId: true,
+  price: true,
+  quantity: true,
+  tradedAt: true,
+} as const;
+
+const CHAIN_TRADE_SELECT = {
+  id: true,
+  marketId: true,
+  buyOrderId: true,
+  sellOrderId: true,
+  priceRaw: true,
+  quantityRaw: true,
+  createdAt: true,
+} as const;
+
+function pairKey(trade: {
+  marketId: string;
+  buyOrderId: string;
+  sellOrderId: string;
+}): string {
+  return `${trade.marketId}:${trade.buyOrderId}:${trade.sellOrderId}`;
+}
+
+function parseRaw(raw: string): bigint | null {
+  try {
+    return BigInt(raw);
+  } catch {
+    return null;
+  }
+}
+
+function finding(
+  kind: TradeDiscrepancyKind,
+  clob: ClobTrade | null,
+  chain: ChainTrade | null,
+  expected: string | null = null,
+  actual: string | null = null
+): Finding {
+  const subject = (clob ?? chain)!;
+  const tradeId = clob?.tradeId ?? null;
+  const indexedTradeId = chain?.id ?? null;
+  return {
+    key: `${kind}:${tradeId ?? ""}:${indexedTradeId ?? ""}`,
+    kind,
+    marketId: subject.marketId,
+    tradeId,
+    indexedTradeId,
+    buyOrderId: subject.buyOrderId,
+    sellOrderId: subject.sellOrderId,
+    expected,
+    actual,
+  };
+}
+
+function compare(clob: ClobTrade, chain: ChainTrade): Finding[] {
+  const findings: Finding[] = [];
+
+  const expectedPrice = BigInt(
+    Math.round(Number(clob.price.toString()) * PRICE_SCALE)
+  );
+  if (parseRaw(chain.priceRaw) !== expectedPrice) {
+    findings.push(
+      finding(
+        "PRICE_MISMATCH",
+        clob,
+        chain,
+        expectedPrice.toString(),
+        chain.priceRaw
+      )
+    );
+  }
+
+  const expectedQuantity = BigInt(clob.quantity);
+  if (parseRaw(chain.quantityRaw) !== expectedQuantity) {
+    findings.push(
+      finding(
+        "QUANTITY_MISMATCH",
+        clob,
+        chain,
+        expectedQuantity.toString(),
+        chain.quantityRaw
+      )
+    );
+  }
+
+  return findings;
+}
+
+/**
+ * Matches CLOB `Trade` rows against on-chain `IndexedTrade` rows and records
+ * the differences as `TradeDiscrepancy` rows.
+ *
+ * Trades are paired by market, buy order and sell order; when an order pair
+ * traded more than once, its trades are paired in time order. Each run
+ * scans trades from the lookback window (less the grace period) and fetches
+ * their counterparts from any time, so a late chain event still matches.
+ * A finding is only reported for a trade inside the window. Open
+ * discrepancies of scanned trades that a run no longer sees are resolved.
+ */
+export class TradeReconciliationJob {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly logger: ILogger,
+    private readonly config: TradeReconciliationConfig
+  ) {}
+
+  async run(): Promise<TradeReconciliationResult> {
+    try {
+      const result = await this.reconcile();
+      tradeReconciliationRuns.inc({ result: "success" });
+      return result;
+    } catch (error) {
+      tradeReconciliationRuns.inc({ result: "failure" });
+      throw error;
+    }
+  }
+
+  private async reconcile(): Promise<TradeReconciliationResult> {
+    const startedAt = new Date();
+    const from = new Date(
+      startedAt.getTime() - this.config.lookbackSeconds * 1000
+    );
+    const to = new Date(startedAt.getTime() - this.config.graceSeconds * 1000);
+
+    const [clobInWindow, chainInWindow] = await Promise.all([
+      this.prisma.trade.findMany({
+        where: { tradedAt: { gte: from, lte: to } },
+        select: CLOB_TRADE_SELECT,
+      }),
+      this.prisma.indexedTrade.findMany({
+        where: { createdAt: { gte: from, lte: to } },
+        select: CHAIN_TRADE_SELECT,
+      }),
+    ]);
+
+    // Counterparts may fall outside the window on either side
+    const [clobCounterparts, chainCounterparts] = await Promise.all([
+      chainInWindow.length > 0
+        ? this.prisma.trade.findMany({
+            where: {
+              OR: chainInWindow.map(({ buyOrderId, sellOrderId }) => ({
+                buyOrderId,
+                sellOrderId,
+              })),
+            },
+            select: CLOB_TRADE_SELECT,
+          })
+        : [],
+      clobInWindow.length > 0
+        ? this.prisma.indexedTrade.findMany({
+            where: {
+              OR: clobInWindow.map(({ buyOrderId, sellOrderId }) => ({
+                buyOrderId,
+                sellOrderId,
+              })),
+            },
+            select: CHAIN_TRADE_SELECT,
+          })
+        : [],
+    ]);
+
+    const inWindowTrades = new Set(clobInWindow.map((t) => t.tradeId));
+    const inWindowIndexed = new Set(chainInWindow.map((t) => t.id));
+
+    const groups = new Map<
+      string,
+      { clob: ClobTrade[]; chain: ChainTrade[] }
+    >();
+    const group = (key: string) => {
+      let entry = groups.get(key);
+      if (!entry) {
+        entry = { clob: [], chain: [] };
+        groups.set(key, entry);
+      }
+      return entry;
+    };
+    const seenTrades = new Set<string>();
+    for (const trade of [...clobInWindow, ...clobCounterparts]) {
+      if (seenTrades.has(trade.tradeId)) continue;
+      seenTrades.add(trade.tradeId);
+      group(pairKey(trade)).clob.push(trade);
+    }
+    const seenIndexed = new Set<string>();
+    for (const trade of [...chainInWindow, ...chainCounterparts]) {
+      if (seenIndexed.has(trade.id)) continue;
+      seenIndexed.add(trade.id);
+      group(pairKey(trade)).chain.push(trade);
+    }
+
+    const findings: Finding[] = [];
+    let matched = 0;
+    for (const { clob, chain } of groups.values()) {
+      clob.sort((a, b) => a.tradedAt.getTime() - b.tradedAt.getTime());
+      chain.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+      const paired = Math.min(clob.length, chain.length);
+      for (let i = 0; i < paired; i++) {
+        matched++;
+        findings.push(...compare(clob[i], chain[i]));
+      }
+      for (const trade of clob.slice(paired)) {
+        if (inWindowTrades.has(trade.tradeId)) {
+          findings.push(finding("MISSING_ON_CHAIN", trade, null));
+        }
+      }
+      for (const trade of chain.slice(paired)) {
+        if (inWindowIndexed.has(trade.id)) {
+          findings.push(finding("MISSING_OFF_CHAIN", null, trade));
+        }
+      }
+    }
+
+    const { opened, resolved } = await this.record(
+      findings,
+      [...seenTrades],
+      [...seenIndexed],
+      startedAt
+    );
+    await this.refreshOpenGauge();
+
+    const completedAt = new Date();
+    return {
+      scannedTrades: seenTrades.size,
+      scannedIndexedTrades: seenIndexed.size,
+      matched,
+      discrepancies: findings.length,
+      opened,
+      resolved,
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+    };
+  }
+
+  /** Upsert this run's findings and resolve open ones it no longer sees. */
+  private async record(
+    findings: Finding[],
+    tradeIds: string[],
+    indexedTradeIds: string[],
+    now: Date
+  ): Promise<{ opened: number; resolved: number }> {
+    const open =
+      tradeIds.length + indexedTradeIds.length > 0
+        ? await this.prisma.tradeDiscrepancy.findMany({
+            where: {
+              resolvedAt: null,
+              OR: [
+                { tradeId: { in: tradeIds } },
+                { indexedTradeId: { in: indexedTradeIds } },
+              ],
+            },
+            select: { id: true, key: true },
+          })
+        : [];
+    const openKeys = new Set(open.map((row) => row.key));
+
+    let opened = 0;
+    for (const { key, ...data } of findings) {
+      await this.prisma.tradeDiscrepancy.upsert({
+        where: { key },
+        create: { key, ...data, detectedAt: now, lastSeenAt: now },
+        update: {
+          expected: data.expected,
+          actual: data.actual,
+          lastSeenAt: now,
+          resolvedAt: null,
+        },
+      });
+      if (!openKeys.has(key)) {
+        opened++;
+        this.logger.warn("Trade discrepancy detected", {
+          component: "trade-reconciliation",
+          kind: data.kind,
+          marketId: data.marketId,
+          tradeId: data.tradeId,
+          indexedTradeId: data.indexedTradeId,
+          expected: data.expected,
+          actual: data.actual,
+        });
+      }
+    }
+
+    const seenKeys = new Set(findings.map((f) => f.key));
+    const stale = open.filter((row) => !seenKeys.has(row.key));
+    if (stale.length > 0) {
+      await this.prisma.tradeDiscrepancy.updateMany({
+        where: { id: { in: stale.map((row) => row.id) } },
+        data: { resolvedAt: now },
+      });
+    }
+
+    return { opened, resolved: stale.length };
+  }
+
+  private async refreshOpenGauge(): Promise<void> {
+    const counts = await this.prisma.tradeDiscrepancy.groupBy({
+      by: ["kind"],
+      where: { resolvedAt: null },
+      _count: { _all: true },
+    });
+    for (const kind of DISCREPANCY_KINDS) {
+      const row = counts.find((c) => c.kind === kind);
+      tradeDiscrepancies.set({ kind }, row?._count._all ?? 0);
+    }
+  }
+}
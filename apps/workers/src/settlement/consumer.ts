@@ -10,16 +10,26 @@
  * @module apps/workers/src/settlement/consumer
  */
 import "dotenv/config";
-import { Worker, type Job } from "bullmq";
+import { Queue, Worker, type Job } from "bullmq";
 import { redis } from "../../../../src/services/redis.js";
 import { createLogger } from "../../../indexer/src/logger.js";
-import { disconnectPrisma } from "../../../../src/services/prisma.js";
+import {
+  disconnectPrisma,
+  getPrismaClient,
+} from "../../../../src/services/prisma.js";
 import {
   SettlementWorker,
   type SettlementStellarConfig,
 } from "./settlement-worker.js";
+import { resolveSettlementBatchConfig } from "./settlement-batcher.js";
+import { PrismaSettlementRecorder } from "./settlement-record.js";
 import type { QueueJob } from "../consumers/queue-consumer.js";
 import { redisConnectionFromEnv } from "../shared/queue-config.js";
+import { trackQueueDepth, workerMetrics } from "../shared/metrics.js";
+import {
+  resolveMetricsPort,
+  startMetricsServer,
+} from "../../../../packages/shared/src/metrics.js";
 
 const QUEUE_NAME = (): string => {
   const name = process.env.SETTLEMENT_QUEUE_NAME ?? "settlement-trades";
@@ -30,6 +40,11 @@ const QUEUE_NAME = (): string => {
 const MAX_ATTEMPTS = 3;
 const PROCESSING_TIMEOUT_MS = 30_000;
 const IDEMPOTENCY_TTL_SECONDS = 86_400;
+// A job waits for its batch to fill and for the batches sent ahead of it.
+// Hold its lock long enough that BullMQ does not hand it to another worker
+// as stalled while its transaction is still being confirmed.
+const LOCK_DURATION_MS = 300_000;
+const DEFAULT_METRICS_PORT = 9466;
 
 async function bootstrap(): Promise<void> {
   const logLevel = (process.env.LOG_LEVEL ?? "info") as Parameters<
@@ -61,11 +76,22 @@ async function bootstrap(): Promise<void> {
     );
   }
 
+  const batch = stellar ? resolveSettlementBatchConfig(process.env) : undefined;
+  if (batch) {
+    logger.info("Settlement batching enabled", {
+      maxSize: batch.maxSize,
+      maxWaitMs: batch.maxWaitMs,
+      component: "settlement-worker",
+    });
+  }
+
   const settlementWorker = new SettlementWorker(redis, logger, {
     maxAttempts: MAX_ATTEMPTS,
     processingTimeoutMs: PROCESSING_TIMEOUT_MS,
     idempotencyTtlSeconds: IDEMPOTENCY_TTL_SECONDS,
     stellar,
+    batch,
+    settlements: new PrismaSettlementRecorder(getPrismaClient()),
   });
 
   const worker = new Worker<Record<string, unknown>>(
@@ -80,10 +106,24 @@ async function bootstrap(): Promise<void> {
     },
     {
       connection: redisConnectionFromEnv(),
-      concurrency: 1,
+      // A batch can only fill if that many jobs are in flight at once
+      concurrency: batch?.maxSize ?? 1,
+      lockDuration: LOCK_DURATION_MS,
     }
   );
 
+  // Read-only handle for the queue depth gauge; the Worker cannot count jobs
+  const queue = new Queue(queueName, { connection: redisConnectionFromEnv() });
+  trackQueueDepth(queueName, queue);
+  const metricsPort = resolveMetricsPort(DEFAULT_METRICS_PORT);
+  const metricsServer = await startMetricsServer(workerMetrics, {
+    port: metricsPort,
+  });
+  logger.info("Metrics endpoint listening", {
+    port: metricsPort,
+    component: "settlement-worker",
+  });
+
   worker.on("completed", (job) => {
     logger.info("Settlement job completed", {
       jobId: job.id,
@@ -127,7 +167,12 @@ async function bootstrap(): Promise<void> {
     });
 
     try {
-      await worker.close();
+      // Active jobs may be waiting for their batch to fill; flush it now
+      const closing = worker.close();
+      await settlementWorker.flushBatches();
+      await closing;
+      await queue.close();
+      metricsServer.close();
       await disconnectPrisma();
       await redis.disconnect();
       logger.info("Settlement worker shutdown complete", {
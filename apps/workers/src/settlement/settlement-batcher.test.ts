@@ -0,0 +1,347 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  Account,
+  Keypair,
+  StrKey,
+  nativeToScVal,
+  scValToNative,
+  type Operation,
+  type Transaction,
+} from "@stellar/stellar-sdk";
+import {
+  SettlementBatcher,
+  resolveSettlementBatchConfig,
+} from "./settlement-batcher.js";
+import {
+  SorobanSettlementClient,
+  type SettlementRpcServer,
+} from "./soroban-settlement.js";
+import type { SettlementJobPayload } from "./settlement-worker.js";
+import type { ILogger } from "../../../../packages/shared/src/logger.js";
+
+const stellarConfig = {
+  rpcUrl: "https://soroban-testnet.stellar.org",
+  contractId: StrKey.encodeContract(Buffer.alloc(32, 1)),
+  networkPassphrase: "Test SDF Network ; September 2015",
+  signerSecret: Keypair.random().secret(),
+};
+
+const buyer = Keypair.random().publicKey();
+const seller = Keypair.random().publicKey();
+
+function makeTrade(
+  tradeId: string,
+  marketId = "market-1"
+): SettlementJobPayload {
+  return {
+    tradeId,
+    marketId,
+    outcome: "YES",
+    buyOrderId: `buy-${tradeId}`,
+    sellOrderId: `sell-${tradeId}`,
+    buyerAddress: buyer,
+    sellerAddress: seller,
+    price: "0.6",
+    quantity: "10",
+    timestamp: "1700000000000",
+  };
+}
+
+function makeLogger(): ILogger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  };
+}
+
+/** A stand-in for StellarRpc.Server that confirms every transaction. */
+function makeServer() {
+  let sent = 0;
+  const server = {
+    getAccount: vi.fn(async (id: string) => new Account(id, "100")),
+    prepareTransaction: vi.fn(async (tx: Transaction) => tx),
+    sendTransaction: vi.fn(async () => ({
+      status: "PENDING",
+      hash: `hash-${++sent}`,
+    })),
+    getTransaction: vi.fn(async (): Promise<Record<string, unknown>> => ({
+      status: "SUCCESS",
+      ledger: 1000,
+    })),
+  };
+  return server;
+}
+
+/** The contract call arguments of the `index`th sent transaction */
+function sentArgs(
+  server: ReturnType<typeof makeServer>,
+  index: number
+): unknown[] {
+  const [tx] = server.sendTransaction.mock.calls[index] as unknown as [
+    Transaction,
+  ];
+  const op = tx.operations[0] as Operation.InvokeHostFunction;
+  return op.func
+    .invokeContract()
+    .args()
+    .map((arg) => scValToNative(arg));
+}
+
+describe("SettlementBatcher", () => {
+  let server: ReturnType<typeof makeServer>;
+  let logger: ILogger;
+  let client: SorobanSettlementClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    server = makeServer();
+    logger = makeLogger();
+    client = new SorobanSettlementClient(
+      stellarConfig,
+      logger,
+      server as unknown as SettlementRpcServer
+    );
+    vi.spyOn(client, "settleTrades");
+    vi.spyOn(client, "settleTrade");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("settles a full batch in one settle_trades transaction", async () => {
+    server.getTransaction.mockResolvedValue({
+      status: "SUCCESS",
+      ledger: 1000,
+      returnValue: nativeToScVal([true, true]),
+    });
+    const batcher = new SettlementBatcher(client, logger, {
+      maxSize: 2,
+      maxWaitMs: 60_000,
+    });
+
+    const settled = Promise.all([
+      batcher.submit(makeTrade("t-1")),
+      batcher.submit(makeTrade("t-2")),
+    ]);
+    await vi.runAllTimersAsync();
+
+    expect(await settled).toEqual([
+      { hash: "hash-1", ledger: 1000, mode: "BATCH" },
+      { hash: "hash-1", ledger: 1000, mode: "BATCH" },
+    ]);
+    expect(server.sendTransaction).toHaveBeenCalledOnce();
+    expect(client.settleTrades).toHaveBeenCalledWith([
+      makeTrade("t-1"),
+      makeTrade("t-2"),
+    ]);
+    expect(client.settleTrade).not.toHaveBeenCalled();
+  });
+
+  it("sends the match type of complementary fills to the contract", async () => {
+    server.getTransaction.mockResolvedValueOnce({
+      status: "SUCCESS",
+      ledger: 1000,
+      returnValue: nativeToScVal([true, true]),
+    });
+    const mint = { ...makeTrade("t-1"), matchType: "MINT" };
+    const merge = { ...makeTrade("t-2"), outcome: "NO", matchType: "MERGE" };
+
+    const batch = client.settleTrades([mint, merge]);
+    await vi.runAllTimersAsync();
+    await batch;
+    const single = client.settleTrade(makeTrade("t-3"));
+    await vi.runAllTimersAsync();
+    await single;
+
+    const [entries] = sentArgs(server, 0) as [unknown[][]];
+    expect(entries.map((entry) => entry[7])).toEqual(["MINT", "MERGE"]);
+    expect(entries[1].slice(0, 3)).toEqual(["t-2", "market-1", false]);
+    expect(sentArgs(server, 1)[7]).toBe("DIRECT");
+  });
+
+  it("flushes a partial batch after maxWaitMs and keeps markets apart", async () => {
+    const batcher = new SettlementBatcher(client, logger, {
+      maxSize: 10,
+      maxWaitMs: 500,
+    });
+
+    const first = batcher.submit(makeTrade("t-1", "market-1"));
+    const second = batcher.submit(makeTrade("t-2", "market-2"));
+    await vi.advanceTimersByTimeAsync(499);
+    expect(server.sendTransaction).not.toHaveBeenCalled();
+
+    await vi.runAllTimersAsync();
+
+    expect(await first).toMatchObject({ mode: "SINGLE" });
+    expect(await second).toMatchObject({ mode: "SINGLE" });
+    expect(client.settleTrades).not.toHaveBeenCalled();
+    expect(client.settleTrade).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns the queued promise when a trade is submitted twice", async () => {
+    const batcher = new SettlementBatcher(client, logger, {
+      maxSize: 10,
+      maxWaitMs: 500,
+    });
+
+    const first = batcher.submit(makeTrade("t-1"));
+    expect(batcher.submit(makeTrade("t-1"))).toBe(first);
+
+    await vi.runAllTimersAsync();
+    await first;
+    expect(server.sendTransaction).toHaveBeenCalledOnce();
+  });
+
+  it("returns the same promise while a trade's batch is being sent", async () => {
+    server.getTransaction.mockResolvedValue({
+      status: "SUCCESS",
+      ledger: 1000,
+      returnValue: nativeToScVal([true, true]),
+    });
+    const batcher = new SettlementBatcher(client, logger, {
+      maxSize: 2,
+      maxWaitMs: 60_000,
+    });
+
+    const first = batcher.submit(makeTrade("t-1"));
+    const second = batcher.submit(makeTrade("t-2"));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(server.sendTransaction).toHaveBeenCalledOnce();
+    expect(batcher.submit(makeTrade("t-1"))).toBe(first);
+
+    await vi.runAllTimersAsync();
+    await Promise.all([first, second]);
+    expect(server.sendTransaction).toHaveBeenCalledOnce();
+  });
+
+  it("re-sends trades the contract rejected with settle_trade", async () => {
+    server.getTransaction.mockResolvedValueOnce({
+      status: "SUCCESS",
+      ledger: 1000,
+      returnValue: nativeToScVal([true, false]),
+    });
+    const batcher = new SettlementBatcher(client, logger, {
+      maxSize: 2,
+      maxWaitMs: 60_000,
+    });
+
+    const settled = Promise.all([
+      batcher.submit(makeTrade("t-1")),
+      batcher.submit(makeTrade("t-2")),
+    ]);
+    await vi.runAllTimersAsync();
+
+    expect(await settled).toEqual([
+      { hash: "hash-1", ledger: 1000, mode: "BATCH" },
+      { hash: "hash-2", ledger: 1000, mode: "SINGLE" },
+    ]);
+    expect(client.settleTrade).toHaveBeenCalledExactlyOnceWith(
+      makeTrade("t-2")
+    );
+  });
+
+  it("falls back to single-trade settlement when the batch fails", async () => {
+    server.getTransaction
+      .mockResolvedValueOnce({ status: "FAILED" })
+      .mockResolvedValueOnce({ status: "SUCCESS", ledger: 1001 })
+      .mockResolvedValueOnce({ status: "FAILED" });
+    const batcher = new SettlementBatcher(client, logger, {
+      maxSize: 2,
+      maxWaitMs: 60_000,
+    });
+
+    const first = batcher.submit(makeTrade("t-1"));
+    const second = batcher.submit(makeTrade("t-2"));
+    const secondRejected = expect(second).rejects.toThrow(
+      "settle_trade transaction failed on-chain: hash=hash-3"
+    );
+    await vi.runAllTimersAsync();
+
+    expect(await first).toEqual({
+      hash: "hash-2",
+      ledger: 1001,
+      mode: "SINGLE",
+    });
+    await secondRejected;
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Settlement batch failed, falling back to single-trade settlement",
+      expect.objectContaining({ marketId: "market-1", size: 2 })
+    );
+  });
+
+  it("re-sends the trades of a batch that expired unconfirmed", async () => {
+    server.getTransaction
+      .mockResolvedValueOnce({
+        status: "NOT_FOUND",
+        latestLedgerCloseTime: Number.MAX_SAFE_INTEGER,
+      })
+      .mockResolvedValue({ status: "SUCCESS", ledger: 1001 });
+    const batcher = new SettlementBatcher(client, logger, {
+      maxSize: 2,
+      maxWaitMs: 60_000,
+    });
+
+    const settled = Promise.all([
+      batcher.submit(makeTrade("t-1")),
+      batcher.submit(makeTrade("t-2")),
+    ]);
+    await vi.runAllTimersAsync();
+
+    expect(await settled).toEqual([
+      { hash: "hash-2", ledger: 1001, mode: "SINGLE" },
+      { hash: "hash-3", ledger: 1001, mode: "SINGLE" },
+    ]);
+  });
+
+  it("fails a batch whose fate is unknown without re-sending it", async () => {
+    server.getTransaction.mockResolvedValue({
+      status: "NOT_FOUND",
+      latestLedgerCloseTime: 0,
+    });
+    const batcher = new SettlementBatcher(client, logger, {
+      maxSize: 2,
+      maxWaitMs: 60_000,
+    });
+
+    const first = batcher.submit(makeTrade("t-1"));
+    const second = batcher.submit(makeTrade("t-2"));
+    const rejected = Promise.all([
+      expect(first).rejects.toThrow("settle_trades still unconfirmed"),
+      expect(second).rejects.toThrow("settle_trades still unconfirmed"),
+    ]);
+    await vi.runAllTimersAsync();
+
+    await rejected;
+    expect(server.sendTransaction).toHaveBeenCalledOnce();
+    expect(server.getTransaction).toHaveBeenCalledWith("hash-1");
+    expect(client.settleTrade).not.toHaveBeenCalled();
+  });
+});
+
+describe("resolveSettlementBatchConfig", () => {
+  it("is off unless SETTLEMENT_BATCH_SIZE is above 1", () => {
+    expect(resolveSettlementBatchConfig({})).toBeUndefined();
+    expect(
+      resolveSettlementBatchConfig({ SETTLEMENT_BATCH_SIZE: "1" })
+    ).toBeUndefined();
+    expect(
+      resolveSettlementBatchConfig({ SETTLEMENT_BATCH_SIZE: "20" })
+    ).toEqual({ maxSize: 20, maxWaitMs: 2_000 });
+  });
+
+  it("rejects values that are not positive integers", () => {
+    expect(() =>
+      resolveSettlementBatchConfig({ SETTLEMENT_BATCH_SIZE: "0" })
+    ).toThrow("SETTLEMENT_BATCH_SIZE");
+    expect(() =>
+      resolveSettlementBatchConfig({
+        SETTLEMENT_BATCH_SIZE: "5",
+        SETTLEMENT_BATCH_WAIT_MS: "soon",
+      })
+    ).toThrow("SETTLEMENT_BATCH_WAIT_MS");
+  });
+});
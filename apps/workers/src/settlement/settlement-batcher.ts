@@ -0,0 +1,206 @@
+import type { ILogger } from "../../../../packages/shared/src/logger.js";
+import { settlementBatches, settlementFallbacks } from "../shared/metrics.js";
+import type { SettlementJobPayload } from "./settlement-worker.js";
+import {
+  SettlementRejectedError,
+  type SettlementConfirmation,
+  type SorobanSettlementClient,
+} from "./soroban-settlement.js";
+
+export interface SettlementBatchConfig {
+  /** A market's batch is flushed as soon as it holds this many trades */
+  maxSize: number;
+  /** Longest a trade waits for its batch to fill before it is flushed */
+  maxWaitMs: number;
+}
+
+const DEFAULT_BATCH_WAIT_MS = 2_000;
+
+function parsePositiveInt(name: string, raw: string): number {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read the batching policy from `SETTLEMENT_BATCH_SIZE` and
+ * `SETTLEMENT_BATCH_WAIT_MS`. Batching is off unless the size is above 1.
+ *
+ * @throws Error if either variable is set but not a positive integer
+ */
+export function resolveSettlementBatchConfig(
+  env: NodeJS.ProcessEnv
+): SettlementBatchConfig | undefined {
+  const rawSize = env.SETTLEMENT_BATCH_SIZE?.trim();
+  const rawWait = env.SETTLEMENT_BATCH_WAIT_MS?.trim();
+  const maxWaitMs = rawWait
+    ? parsePositiveInt("SETTLEMENT_BATCH_WAIT_MS", rawWait)
+    : DEFAULT_BATCH_WAIT_MS;
+  if (!rawSize) return undefined;
+
+  const maxSize = parsePositiveInt("SETTLEMENT_BATCH_SIZE", rawSize);
+  return maxSize > 1 ? { maxSize, maxWaitMs } : undefined;
+}
+
+export interface TradeSettlement extends SettlementConfirmation {
+  /** BATCH if settled by `settle_trades`, SINGLE if by the fallback */
+  mode: "BATCH" | "SINGLE";
+}
+
+interface PendingTrade {
+  payload: SettlementJobPayload;
+  promise: Promise<TradeSettlement>;
+  resolve: (settlement: TradeSettlement) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PendingBatch {
+  trades: Map<string, PendingTrade>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Groups trades per market and settles each group with one `settle_trades`
+ * call. A batch is flushed when it reaches `maxSize` or `maxWaitMs` after
+ * its first trade, whichever comes first. Flushes run one at a time because
+ * every transaction uses the signer's sequence number.
+ *
+ * Trades the contract rejects, and every trade of a batch whose transaction
+ * definitely did not settle them, are retried one by one with
+ * `settle_trade`; only a failure there rejects the trade's promise. A batch
+ * whose fate is unknown is not re-sent: its trades are rejected so their
+ * jobs fail instead of settling twice.
+ */
+export class SettlementBatcher {
+  private readonly pending = new Map<string, PendingBatch>();
+  /** Every trade from `submit` until it settles or fails, by trade ID */
+  private readonly inFlight = new Map<string, Promise<TradeSettlement>>();
+  private flushChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly client: SorobanSettlementClient,
+    private readonly logger: ILogger,
+    private readonly config: SettlementBatchConfig
+  ) {
+    if (!Number.isInteger(config.maxSize) || config.maxSize < 1) {
+      throw new Error(
+        `Settlement batch size must be a positive integer, got ${config.maxSize}`
+      );
+    }
+  }
+
+  /**
+   * Queue a trade for settlement. Resolves once the trade is confirmed
+   * on-chain; submitting a trade that is queued or being sent returns the
+   * same promise, e.g. when its job is redelivered after a lock expired.
+   */
+  submit(payload: SettlementJobPayload): Promise<TradeSettlement> {
+    const { marketId, tradeId } = payload;
+    const inFlight = this.inFlight.get(tradeId);
+    if (inFlight) return inFlight;
+
+    let batch = this.pending.get(marketId);
+
+    if (!batch) {
+      batch = {
+        trades: new Map(),
+        timer: setTimeout(() => this.flush(marketId), this.config.maxWaitMs),
+      };
+      this.pending.set(marketId, batch);
+    }
+
+    let resolve!: PendingTrade["resolve"];
+    let reject!: PendingTrade["reject"];
+    const promise = new Promise<TradeSettlement>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    batch.trades.set(tradeId, { payload, promise, resolve, reject });
+    this.inFlight.set(tradeId, promise);
+    const settled = () => this.inFlight.delete(tradeId);
+    promise.then(settled, settled);
+
+    if (batch.trades.size >= this.config.maxSize) this.flush(marketId);
+    return promise;
+  }
+
+  /** Flush every pending batch and wait for all of them to settle. */
+  async drain(): Promise<void> {
+    for (const marketId of [...this.pending.keys()]) this.flush(marketId);
+    await this.flushChain;
+  }
+
+  private flush(marketId: string): void {
+    const batch = this.pending.get(marketId);
+    if (!batch) return;
+    clearTimeout(batch.timer);
+    this.pending.delete(marketId);
+
+    const trades = [...batch.trades.values()];
+    this.flushChain = this.flushChain.then(() => this.settle(marketId, trades));
+  }
+
+  private async settle(
+    marketId: string,
+    trades: PendingTrade[]
+  ): Promise<void> {
+    const fallback: PendingTrade[] = [];
+
+    if (trades.length === 1) {
+      fallback.push(trades[0]);
+    } else {
+      try {
+        const result = await this.client.settleTrades(
+          trades.map((t) => t.payload)
+        );
+        trades.forEach((trade, i) => {
+          if (result.settled[i]) {
+            trade.resolve({
+              hash: result.hash,
+              ledger: result.ledger,
+              mode: "BATCH",
+            });
+          } else {
+            fallback.push(trade);
+          }
+        });
+        settlementBatches.inc({ result: "confirmed" });
+        this.logger.info("Settlement batch confirmed", {
+          marketId,
+          size: trades.length,
+          settled: trades.length - fallback.length,
+          hash: result.hash,
+          ledger: result.ledger,
+        });
+      } catch (error) {
+        settlementBatches.inc({ result: "failed" });
+        const message = error instanceof Error ? error.message : String(error);
+        if (!(error instanceof SettlementRejectedError)) {
+          this.logger.error(
+            "Settlement batch unconfirmed, failing its trades without re-sending",
+            { marketId, size: trades.length, error: message }
+          );
+          for (const trade of trades) trade.reject(error);
+          return;
+        }
+        this.logger.warn(
+          "Settlement batch failed, falling back to single-trade settlement",
+          { marketId, size: trades.length, error: message }
+        );
+        fallback.push(...trades);
+      }
+    }
+
+    for (const trade of fallback) {
+      if (trades.length > 1) settlementFallbacks.inc();
+      try {
+        const confirmation = await this.client.settleTrade(trade.payload);
+        trade.resolve({ ...confirmation, mode: "SINGLE" });
+      } catch (error) {
+        trade.reject(error);
+      }
+    }
+  }
+}
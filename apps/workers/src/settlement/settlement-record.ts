@@ -0,0 +1,73 @@
+import type { PrismaClient } from "../../../../src/generated/prisma/client/index.js";
+import type { SettlementConfirmation } from "./soroban-settlement.js";
+
+/**
+ * Persists the settlement status of trades as the worker moves them along.
+ * Each trade has one record; every call overwrites its current state.
+ */
+export interface SettlementRecorder {
+  /** A transaction carrying these trades was accepted by the RPC node. */
+  submitted(tradeIds: string[], txHash: string): Promise<void>;
+  confirmed(
+    tradeId: string,
+    attempts: number,
+    confirmation: SettlementConfirmation
+  ): Promise<void>;
+  /** `deadLettered` is set when this was the job's final attempt. */
+  failed(
+    tradeId: string,
+    attempts: number,
+    error: string,
+    deadLettered: boolean
+  ): Promise<void>;
+}
+
+export class PrismaSettlementRecorder implements SettlementRecorder {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async submitted(tradeIds: string[], txHash: string): Promise<void> {
+    await this.prisma.tradeSettlement.updateMany({
+      where: { tradeId: { in: tradeIds }, status: { not: "CONFIRMED" } },
+      data: { status: "SUBMITTED", txHash, submittedAt: new Date() },
+    });
+  }
+
+  async confirmed(
+    tradeId: string,
+    attempts: number,
+    { hash, ledger }: SettlementConfirmation
+  ): Promise<void> {
+    // Upsert: trades matched before settlement tracking have no record
+    const data = {
+      status: "CONFIRMED" as const,
+      txHash: hash,
+      ledger,
+      attempts,
+      lastError: null,
+      confirmedAt: new Date(),
+    };
+    await this.prisma.tradeSettlement.upsert({
+      where: { tradeId },
+      create: { tradeId, ...data },
+      update: data,
+    });
+  }
+
+  async failed(
+    tradeId: string,
+    attempts: number,
+    error: string,
+    deadLettered: boolean
+  ): Promise<void> {
+    const data = {
+      status: deadLettered ? ("DEAD_LETTERED" as const) : ("FAILED" as const),
+      attempts,
+      lastError: error,
+    };
+    await this.prisma.tradeSettlement.upsert({
+      where: { tradeId },
+      create: { tradeId, ...data },
+      update: data,
+    });
+  }
+}
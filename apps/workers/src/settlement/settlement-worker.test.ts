@@ -5,6 +5,7 @@ import {
   type SettlementRedisClient,
   type SettlementStellarConfig,
 } from "./settlement-worker.js";
+import type { SettlementRecorder } from "./settlement-record.js";
 import type { QueueJob } from "../consumers/queue-consumer.js";
 import type { ILogger } from "../../../../packages/shared/src/logger.js";
 
@@ -111,6 +112,14 @@ vi.mock("@stellar/stellar-sdk", () => ({
   xdr: {},
 }));
 
+function makeRecorder(): SettlementRecorder {
+  return {
+    submitted: vi.fn().mockResolvedValue(undefined),
+    confirmed: vi.fn().mockResolvedValue(undefined),
+    failed: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
 function makeLogger(): ILogger {
   return {
     debug: vi.fn(),
@@ -311,6 +320,36 @@ describe("SettlementWorker", () => {
       );
     });
 
+    it("records the failure, and dead-lettering on the final attempt", async () => {
+      const settlements = makeRecorder();
+      redisClient = makeRedisClient({
+        exists: vi.fn().mockRejectedValue(new Error("Redis down")),
+      });
+      worker = new SettlementWorker(
+        redisClient,
+        logger,
+        makeConfig({ maxAttempts: 3, settlements })
+      );
+
+      await expect(worker.process(makeJob({ attempts: 2 }))).rejects.toThrow();
+      await expect(worker.process(makeJob({ attempts: 3 }))).rejects.toThrow();
+
+      expect(settlements.failed).toHaveBeenNthCalledWith(
+        1,
+        "trade-abc-123",
+        2,
+        "Redis down",
+        false
+      );
+      expect(settlements.failed).toHaveBeenNthCalledWith(
+        2,
+        "trade-abc-123",
+        3,
+        "Redis down",
+        true
+      );
+    });
+
     it("does not dead-letter when attempts are below max", async () => {
       redisClient = makeRedisClient({
         exists: vi.fn().mockRejectedValue(new Error("transient")),
@@ -414,7 +453,8 @@ describe("SettlementWorker — Stellar SDK invoke (executeOnChain)", () => {
       expect.anything(), // buyerAddress ScVal
       expect.anything(), // sellerAddress ScVal
       expect.anything(), // price ScVal
-      expect.anything() // quantity ScVal
+      expect.anything(), // quantity ScVal
+      expect.anything() // matchType ScVal
     );
   });
 
@@ -477,6 +517,77 @@ describe("SettlementWorker — Stellar SDK invoke (executeOnChain)", () => {
     );
   });
 
+  it("records the transaction hash on submission and the ledger on confirmation", async () => {
+    const settlements = makeRecorder();
+    stellarWorker = new SettlementWorker(redisClient, logger, {
+      maxAttempts: 3,
+      processingTimeoutMs: 5_000,
+      idempotencyTtlSeconds: 86_400,
+      stellar: stellarConfig,
+      settlements,
+    });
+    const job: QueueJob = {
+      id: "job-stellar-4",
+      attempts: 2,
+      payload: {
+        tradeId: "trade-on-chain-004",
+        marketId: "market-004",
+        outcome: "YES",
+        buyOrderId: "buy-4",
+        sellOrderId: "sell-4",
+        buyerAddress: "GBUYER111111111111111111111111111111111111111111111111",
+        sellerAddress: "GSELLER11111111111111111111111111111111111111111111111",
+        price: "0.50",
+        quantity: "20",
+        timestamp: "1700000005000",
+      },
+    };
+
+    const processPromise = stellarWorker.process(job);
+    await vi.runAllTimersAsync();
+    await processPromise;
+
+    expect(settlements.submitted).toHaveBeenCalledWith(
+      ["trade-on-chain-004"],
+      "abc123txhash"
+    );
+    expect(settlements.confirmed).toHaveBeenCalledWith(
+      "trade-on-chain-004",
+      2,
+      { hash: "abc123txhash", ledger: 1000 }
+    );
+  });
+
+  it("still settles when the settlement record cannot be written", async () => {
+    const settlements = makeRecorder();
+    vi.mocked(settlements.confirmed).mockRejectedValue(new Error("db down"));
+    stellarWorker = new SettlementWorker(redisClient, logger, {
+      maxAttempts: 3,
+      processingTimeoutMs: 5_000,
+      idempotencyTtlSeconds: 86_400,
+      stellar: stellarConfig,
+      settlements,
+    });
+
+    const processPromise = stellarWorker.process({
+      id: "job-stellar-5",
+      attempts: 1,
+      payload: makeJob().payload,
+    });
+    await vi.runAllTimersAsync();
+    await processPromise;
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Settlement record update failed",
+      expect.objectContaining({ tradeIds: ["trade-abc-123"], error: "db down" })
+    );
+    expect(redisClient.set).toHaveBeenCalledWith(
+      "settlement:processed:trade-abc-123",
+      "1",
+      86_400
+    );
+  });
+
   it("throws when sendTransaction returns ERROR status", async () => {
     mockSendTransaction.mockResolvedValue({
       status: "ERROR",
@@ -1,11 +1,3 @@
-import {
-  Contract,
-  Keypair,
-  TransactionBuilder,
-  nativeToScVal,
-  rpc as StellarRpc,
-  xdr,
-} from "@stellar/stellar-sdk";
 import type { ILogger } from "../../../../packages/shared/src/logger.js";
 import {
   processJob,
@@ -13,6 +5,15 @@ import {
   type QueueConsumerConfig,
 } from "../consumers/queue-consumer.js";
 import { logDeadLetter } from "../consumers/dead-letter.js";
+import {
+  SorobanSettlementClient,
+  type SettlementRpcServer,
+} from "./soroban-settlement.js";
+import {
+  SettlementBatcher,
+  type SettlementBatchConfig,
+} from "./settlement-batcher.js";
+import type { SettlementRecorder } from "./settlement-record.js";
 
 export interface SettlementJobPayload {
   tradeId: string;
@@ -25,6 +26,8 @@ export interface SettlementJobPayload {
   price: string;
   quantity: string;
   timestamp: string;
+  /** "MINT" or "MERGE" for complete-set fills; absent for direct trades */
+  matchType?: string;
 }
 
 export interface SettlementWorkerConfig {
@@ -32,6 +35,12 @@ export interface SettlementWorkerConfig {
   processingTimeoutMs: number;
   idempotencyTtlSeconds: number;
   stellar?: SettlementStellarConfig;
+  /** Settle trades in per-market batches; requires `stellar` */
+  batch?: SettlementBatchConfig;
+  /** RPC server to use instead of one on `stellar.rpcUrl`, e.g. a test stub */
+  rpcServer?: SettlementRpcServer;
+  /** Persists each trade's settlement status; nothing is recorded without it */
+  settlements?: SettlementRecorder;
 }
 
 export interface SettlementStellarConfig {
@@ -51,7 +60,9 @@ export class SettlementWorker {
   private readonly idempotencyTtlSeconds: number;
   private readonly logger: ILogger;
   private readonly redisClient: SettlementRedisClient;
-  private readonly stellarConfig?: SettlementStellarConfig;
+  private readonly chain?: SorobanSettlementClient;
+  private readonly batcher?: SettlementBatcher;
+  private readonly settlements?: SettlementRecorder;
 
   constructor(
     redisClient: SettlementRedisClient,
@@ -61,7 +72,21 @@ export class SettlementWorker {
     this.redisClient = redisClient;
     this.logger = logger;
     this.idempotencyTtlSeconds = config.idempotencyTtlSeconds;
-    this.stellarConfig = config.stellar;
+    this.settlements = config.settlements;
+    if (config.stellar) {
+      this.chain = new SorobanSettlementClient(
+        config.stellar,
+        logger,
+        config.rpcServer,
+        (tradeIds, hash) =>
+          this.record(tradeIds, (recorder) =>
+            recorder.submitted(tradeIds, hash)
+          )
+      );
+      if (config.batch) {
+        this.batcher = new SettlementBatcher(this.chain, logger, config.batch);
+      }
+    }
     this.consumerConfig = {
       queueName: "settlement",
       maxAttempts: config.maxAttempts,
@@ -75,18 +100,34 @@ export class SettlementWorker {
         this.handleJob(j)
       );
     } catch (error) {
-      if (job.attempts >= this.consumerConfig.maxAttempts) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const deadLettered = job.attempts >= this.consumerConfig.maxAttempts;
+      const { tradeId } = job.payload as Partial<SettlementJobPayload>;
+      if (typeof tradeId === "string") {
+        await this.record([tradeId], (recorder) =>
+          recorder.failed(tradeId, job.attempts, reason, deadLettered)
+        );
+      }
+      if (deadLettered) {
         await logDeadLetter(this.logger, {
           id: job.id,
           queue: this.consumerConfig.queueName,
           payload: job.payload,
-          reason: error instanceof Error ? error.message : String(error),
+          reason,
         });
       }
       throw error;
     }
   }
 
+  /**
+   * Flush queued settlement batches without waiting for them to fill, e.g.
+   * on shutdown. Resolves once every flushed trade has settled or failed.
+   */
+  async flushBatches(): Promise<void> {
+    await this.batcher?.drain();
+  }
+
   private async handleJob(job: QueueJob): Promise<void> {
     const payload = job.payload as unknown as SettlementJobPayload;
     const { tradeId } = payload;
@@ -111,8 +152,13 @@ export class SettlementWorker {
       quantity: payload.quantity,
     });
 
-    if (this.stellarConfig) {
-      await this.executeOnChain(payload);
+    const confirmation = this.batcher
+      ? await this.batcher.submit(payload)
+      : await this.chain?.settleTrade(payload);
+    if (confirmation) {
+      await this.record([tradeId], (recorder) =>
+        recorder.confirmed(tradeId, job.attempts, confirmation)
+      );
     } else {
       this.logger.warn(
         "No Stellar config provided — settlement recorded off-chain only",
@@ -128,78 +174,22 @@ export class SettlementWorker {
     });
   }
 
-  private async executeOnChain(payload: SettlementJobPayload): Promise<void> {
-    const { rpcUrl, contractId, networkPassphrase, signerSecret } =
-      this.stellarConfig!;
-
-    const keypair = Keypair.fromSecret(signerSecret);
-    const server = new StellarRpc.Server(rpcUrl);
-    const contract = new Contract(contractId);
-
-    const sourceAccount = await server.getAccount(keypair.publicKey());
-
-    const outcomeScVal = nativeToScVal(payload.outcome === "YES", {
-      type: "bool",
-    });
-    const args: xdr.ScVal[] = [
-      nativeToScVal(payload.tradeId, { type: "string" }),
-      nativeToScVal(payload.marketId, { type: "string" }),
-      outcomeScVal,
-      nativeToScVal(payload.buyerAddress, { type: "address" }),
-      nativeToScVal(payload.sellerAddress, { type: "address" }),
-      nativeToScVal(BigInt(Math.round(Number(payload.price) * 1e7)), {
-        type: "i128",
-      }),
-      nativeToScVal(BigInt(payload.quantity), { type: "i128" }),
-    ];
-
-    const tx = new TransactionBuilder(sourceAccount, {
-      fee: "100",
-      networkPassphrase,
-    })
-      .addOperation(contract.call("settle_trade", ...args))
-      .setTimeout(30)
-      .build();
-
-    const preparedTx = await server.prepareTransaction(tx);
-    preparedTx.sign(keypair);
-
-    const sendResult = await server.sendTransaction(preparedTx);
-
-    if (sendResult.status === "ERROR") {
-      throw new Error(
-        `settle_trade submission failed: status=ERROR hash=${sendResult.hash}`
-      );
-    }
-
-    this.logger.info("settle_trade submitted, awaiting confirmation", {
-      tradeId: payload.tradeId,
-      hash: sendResult.hash,
-    });
-
-    // Poll until the transaction is confirmed or fails
-    const MAX_POLL_ATTEMPTS = 30;
-    const POLL_INTERVAL_MS = 1_000;
-    for (let i = 0; i < MAX_POLL_ATTEMPTS; i++) {
-      await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
-      const txStatus = await server.getTransaction(sendResult.hash);
-      if (txStatus.status === StellarRpc.Api.GetTransactionStatus.SUCCESS) {
-        this.logger.info("settle_trade confirmed on-chain", {
-          tradeId: payload.tradeId,
-          hash: sendResult.hash,
-          ledger: txStatus.ledger,
-        });
-        return;
-      }
-      if (txStatus.status === StellarRpc.Api.GetTransactionStatus.FAILED) {
-        throw new Error(
-          `settle_trade transaction failed on-chain: hash=${sendResult.hash}`
-        );
-      }
+  /**
+   * Apply a settlement record update. The record is for reporting only, so
+   * a failed write is logged rather than failing the settlement.
+   */
+  private async record(
+    tradeIds: string[],
+    update: (recorder: SettlementRecorder) => Promise<void>
+  ): Promise<void> {
+    if (!this.settlements) return;
+    try {
+      await update(this.settlements);
+    } catch (error) {
+      this.logger.warn("Settlement record update failed", {
+        tradeIds,
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
-
-    throw new Error(
-      `settle_trade not confirmed after ${MAX_POLL_ATTEMPTS}s: hash=${sendResult.hash}`
-    );
   }
 }
@@ -0,0 +1,236 @@
+import {
+  Contract,
+  Keypair,
+  TransactionBuilder,
+  nativeToScVal,
+  scValToNative,
+  rpc as StellarRpc,
+  xdr,
+} from "@stellar/stellar-sdk";
+import type { ILogger } from "../../../../packages/shared/src/logger.js";
+import type {
+  SettlementJobPayload,
+  SettlementStellarConfig,
+} from "./settlement-worker.js";
+
+/** The RPC calls settlement makes; tests pass a stub in place of a Server. */
+export type SettlementRpcServer = Pick<
+  StellarRpc.Server,
+  "getAccount" | "prepareTransaction" | "sendTransaction" | "getTransaction"
+>;
+
+export interface SettlementConfirmation {
+  hash: string;
+  ledger: number;
+}
+
+export interface BatchSettlementConfirmation extends SettlementConfirmation {
+  /** One entry per submitted trade, in submission order */
+  settled: boolean[];
+}
+
+/** Called once a transaction is accepted, before it is confirmed. */
+export type SettlementSubmittedListener = (
+  tradeIds: string[],
+  hash: string
+) => Promise<void>;
+
+interface ConfirmedTransaction extends SettlementConfirmation {
+  returnValue?: xdr.ScVal;
+}
+
+/**
+ * A settlement transaction that definitely did not settle its trades: it was
+ * rejected on submission, failed on-chain, expired before it was included or
+ * returned no per-trade result. Its trades can be sent again.
+ */
+export class SettlementRejectedError extends Error {
+  constructor(
+    message: string,
+    public readonly hash: string
+  ) {
+    super(message);
+    this.name = "SettlementRejectedError";
+  }
+}
+
+// Transactions expire 30s after they are built, so a transaction that is
+// still unknown this long after submission means the network has stalled.
+const MAX_POLL_ATTEMPTS = 120;
+const POLL_INTERVAL_MS = 1_000;
+
+/**
+ * The `settle_trade` arguments of a trade. The last one tells the contract
+ * how to move value: DIRECT transfers shares from seller to buyer against
+ * collateral, MINT has the buyer pay for newly minted shares of a complete
+ * set whose other half its mirror trade buys, and MERGE burns the seller's
+ * shares against the collateral its mirror trade releases.
+ */
+function tradeArgs(payload: SettlementJobPayload): xdr.ScVal[] {
+  return [
+    nativeToScVal(payload.tradeId, { type: "string" }),
+    nativeToScVal(payload.marketId, { type: "string" }),
+    nativeToScVal(payload.outcome === "YES", { type: "bool" }),
+    nativeToScVal(payload.buyerAddress, { type: "address" }),
+    nativeToScVal(payload.sellerAddress, { type: "address" }),
+    nativeToScVal(BigInt(Math.round(Number(payload.price) * 1e7)), {
+      type: "i128",
+    }),
+    nativeToScVal(BigInt(payload.quantity), { type: "i128" }),
+    nativeToScVal(payload.matchType ?? "DIRECT", { type: "symbol" }),
+  ];
+}
+
+/**
+ * Submits settlement calls to the settlement contract and waits for them to
+ * be confirmed. Calls are sent one at a time by the caller, since they all
+ * use the signer account's sequence number.
+ */
+export class SorobanSettlementClient {
+  private readonly keypair: Keypair;
+  private readonly contract: Contract;
+  private readonly server: SettlementRpcServer;
+
+  constructor(
+    private readonly config: SettlementStellarConfig,
+    private readonly logger: ILogger,
+    server?: SettlementRpcServer,
+    private readonly onSubmitted?: SettlementSubmittedListener
+  ) {
+    this.keypair = Keypair.fromSecret(config.signerSecret);
+    this.contract = new Contract(config.contractId);
+    this.server = server ?? new StellarRpc.Server(config.rpcUrl);
+  }
+
+  /**
+   * Settle one trade with `settle_trade`.
+   *
+   * @throws SettlementRejectedError if the transaction is rejected, fails or
+   *   expires
+   * @throws Error if the transaction's fate is still unknown
+   */
+  async settleTrade(
+    payload: SettlementJobPayload
+  ): Promise<SettlementConfirmation> {
+    const { hash, ledger } = await this.submit(
+      this.contract.call("settle_trade", ...tradeArgs(payload)),
+      "settle_trade",
+      [payload.tradeId],
+      { tradeId: payload.tradeId }
+    );
+    return { hash, ledger };
+  }
+
+  /**
+   * Settle several trades in one `settle_trades` call. The contract takes a
+   * vector of `settle_trade` argument lists and returns one bool per trade;
+   * a trade it rejected does not fail the transaction.
+   *
+   * @throws SettlementRejectedError if the transaction is rejected, fails,
+   *   expires or returns a result that does not cover every trade
+   * @throws Error if the transaction's fate is still unknown
+   */
+  async settleTrades(
+    payloads: SettlementJobPayload[]
+  ): Promise<BatchSettlementConfirmation> {
+    const tradeIds = payloads.map((p) => p.tradeId);
+    const trades = xdr.ScVal.scvVec(
+      payloads.map((payload) => xdr.ScVal.scvVec(tradeArgs(payload)))
+    );
+    const { hash, ledger, returnValue } = await this.submit(
+      this.contract.call("settle_trades", trades),
+      "settle_trades",
+      tradeIds,
+      { tradeIds }
+    );
+
+    const settled: unknown = returnValue
+      ? scValToNative(returnValue)
+      : undefined;
+    if (
+      !Array.isArray(settled) ||
+      settled.length !== payloads.length ||
+      settled.some((value) => typeof value !== "boolean")
+    ) {
+      throw new SettlementRejectedError(
+        `settle_trades returned no per-trade result for ${payloads.length} trades: hash=${hash}`,
+        hash
+      );
+    }
+    return { hash, ledger, settled: settled as boolean[] };
+  }
+
+  private async submit(
+    operation: xdr.Operation,
+    method: string,
+    tradeIds: string[],
+    context: Record<string, unknown>
+  ): Promise<ConfirmedTransaction> {
+    const sourceAccount = await this.server.getAccount(
+      this.keypair.publicKey()
+    );
+
+    const tx = new TransactionBuilder(sourceAccount, {
+      fee: "100",
+      networkPassphrase: this.config.networkPassphrase,
+    })
+      .addOperation(operation)
+      .setTimeout(30)
+      .build();
+
+    const preparedTx = await this.server.prepareTransaction(tx);
+    preparedTx.sign(this.keypair);
+
+    const sendResult = await this.server.sendTransaction(preparedTx);
+
+    if (sendResult.status === "ERROR") {
+      throw new SettlementRejectedError(
+        `${method} submission failed: status=ERROR hash=${sendResult.hash}`,
+        sendResult.hash
+      );
+    }
+
+    this.logger.info(`${method} submitted, awaiting confirmation`, {
+      ...context,
+      hash: sendResult.hash,
+    });
+    await this.onSubmitted?.(tradeIds, sendResult.hash);
+
+    // Poll until the transaction is confirmed, fails or can no longer be
+    // included: once the network closes a ledger past its max time, a
+    // transaction it does not know about will never land.
+    const expiresAt = Number(preparedTx.timeBounds?.maxTime ?? 0);
+    for (let i = 0; i < MAX_POLL_ATTEMPTS; i++) {
+      await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
+      const txStatus = await this.server.getTransaction(sendResult.hash);
+      if (txStatus.status === StellarRpc.Api.GetTransactionStatus.SUCCESS) {
+        this.logger.info(`${method} confirmed on-chain`, {
+          ...context,
+          hash: sendResult.hash,
+          ledger: txStatus.ledger,
+        });
+        return {
+          hash: sendResult.hash,
+          ledger: txStatus.ledger,
+          returnValue: txStatus.returnValue,
+        };
+      }
+      if (txStatus.status === StellarRpc.Api.GetTransactionStatus.FAILED) {
+        throw new SettlementRejectedError(
+          `${method} transaction failed on-chain: hash=${sendResult.hash}`,
+          sendResult.hash
+        );
+      }
+      if (expiresAt > 0 && txStatus.latestLedgerCloseTime > expiresAt) {
+        throw new SettlementRejectedError(
+          `${method} transaction expired unconfirmed: hash=${sendResult.hash}`,
+          sendResult.hash
+        );
+      }
+    }
+
+    throw new Error(
+      `${method} still unconfirmed after ${MAX_POLL_ATTEMPTS}s: hash=${sendResult.hash}`
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { trackQueueDepth, workerMetrics } from "./metrics.js";
+
+describe("worker metrics", () => {
+  beforeEach(() => {
+    workerMetrics.resetAll();
+  });
+
+  it("reads queue depth by state from tracked queues on render", async () => {
+    const getJobCounts = vi
+      .fn()
+      .mockResolvedValue({ waiting: 4, active: 1, delayed: 0, failed: 2 });
+    trackQueueDepth("settlement-trades", { getJobCounts });
+
+    const output = await workerMetrics.render();
+
+    expect(getJobCounts).toHaveBeenCalledWith(
+      "waiting",
+      "active",
+      "delayed",
+      "failed"
+    );
+    expect(output).toContain(
+      'vatix_queue_jobs{queue="settlement-trades",state="waiting"} 4'
+    );
+    expect(output).toContain(
+      'vatix_queue_jobs{queue="settlement-trades",state="failed"} 2'
+    );
+  });
+});
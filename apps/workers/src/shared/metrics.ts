@@ -0,0 +1,92 @@
+/**
+ * Worker Metrics
+ *
+ * Prometheus registry shared by the worker entrypoints. Queue depth is read
+ * from BullMQ on every scrape; failed jobs are reported as their own state
+ * because BullMQ retains them as the dead-letter queue (ADR 001).
+ *
+ * @module apps/workers/src/shared/metrics
+ */
+import { MetricsRegistry } from "../../../../packages/shared/src/metrics.js";
+
+/** The subset of a BullMQ Queue the depth gauge reads. */
+export interface JobCountsSource {
+  getJobCounts(...states: QueueState[]): Promise<Record<string, number>>;
+}
+
+export const QUEUE_STATES = ["waiting", "active", "delayed", "failed"] as const;
+export type QueueState = (typeof QUEUE_STATES)[number];
+
+export const workerMetrics = new MetricsRegistry();
+
+const trackedQueues = new Map<string, JobCountsSource>();
+
+export const queueJobs = workerMetrics.gauge({
+  name: "vatix_queue_jobs",
+  help: "Jobs in a BullMQ queue by state; failed jobs form the dead-letter queue",
+  labelNames: ["queue", "state"],
+  collect: async (gauge) => {
+    for (const [queue, source] of trackedQueues) {
+      const counts = await source.getJobCounts(...QUEUE_STATES);
+      for (const state of QUEUE_STATES) {
+        gauge.set({ queue, state }, counts[state] ?? 0);
+      }
+    }
+  },
+});
+
+export const deadLetters = workerMetrics.counter({
+  name: "vatix_dead_letters_total",
+  help: "Jobs written to a dead-letter stream after their final attempt",
+  labelNames: ["queue"],
+});
+
+export const settlementBatches = workerMetrics.counter({
+  name: "vatix_settlement_batches_total",
+  help: "settle_trades batch transactions by result (confirmed or failed)",
+  labelNames: ["result"],
+});
+
+export const settlementFallbacks = workerMetrics.counter({
+  name: "vatix_settlement_fallbacks_total",
+  help: "Batched trades re-sent with settle_trade after their batch failed or rejected them",
+});
+
+export const tradeDiscrepancies = workerMetrics.gauge({
+  name: "vatix_trade_discrepancies",
+  help: "Open discrepancies between CLOB trades and indexed chain trades by kind",
+  labelNames: ["kind"],
+});
+
+export const tradeReconciliationRuns = workerMetrics.counter({
+  name: "vatix_trade_reconciliation_runs_total",
+  help: "Trade reconciliation runs by result (success or failure)",
+  labelNames: ["result"],
+});
+
+export const positionDrifts = workerMetrics.gauge({
+  name: "vatix_position_drifts",
+  help: "Open positions whose UserPosition differs from the position recomputed from trades",
+});
+
+export const positionReconciliationRuns = workerMetrics.counter({
+  name: "vatix_position_reconciliation_runs_total",
+  help: "Position reconciliation runs by result (success or failure)",
+  labelNames: ["result"],
+});
+
+export const positionSnapshotRuns = workerMetrics.counter({
+  name: "vatix_position_snapshot_runs_total",
+  help: "Position snapshot runs by result (success or failure)",
+  labelNames: ["result"],
+});
+
+export const positionSnapshotRows = workerMetrics.counter({
+  name: "vatix_position_snapshot_rows_total",
+  help: "Position rows written by the snapshot worker",
+});
+
+/** Report `source`'s job counts under `queue` on every scrape. */
+export function trackQueueDepth(queue: string, source: JobCountsSource): void {
+  trackedQueues.set(queue, source);
+}
@@ -0,0 +1,149 @@
+import "dotenv/config";
+import { loadSnapshotConfig } from "../../../../packages/shared/src/config.js";
+import {
+  resolveMetricsPort,
+  startMetricsServer,
+} from "../../../../packages/shared/src/metrics.js";
+import { PositionSnapshotJob } from "./positions.js";
+import { createLogger } from "../../../indexer/src/logger.js";
+import {
+  getPrismaClient,
+  disconnectPrisma,
+} from "../../../../src/services/prisma.js";
+import { workerMetrics } from "../shared/metrics.js";
+import type { ShutdownHandler, ShutdownSignal } from "../finalization/types.js";
+
+const DEFAULT_METRICS_PORT = 9469;
+
+async function bootstrap(): Promise<void> {
+  const config = loadSnapshotConfig();
+  const logger = createLogger(config.logLevel);
+  const prisma = getPrismaClient();
+  const job = new PositionSnapshotJob(prisma, logger);
+
+  const metricsPort = resolveMetricsPort(DEFAULT_METRICS_PORT);
+  const metricsServer = await startMetricsServer(workerMetrics, {
+    port: metricsPort,
+  });
+
+  logger.info("Position snapshot worker started", {
+    intervalMs: config.intervalMs,
+    metricsPort,
+  });
+
+  let isPollInProgress = false;
+
+  const poll = async (): Promise<void> => {
+    if (isPollInProgress) {
+      logger.warn("Skipping snapshot poll because a previous poll is active", {
+        intervalMs: config.intervalMs,
+        component: "snapshot-worker",
+      });
+      return;
+    }
+
+    isPollInProgress = true;
+
+    try {
+      const result = await job.run();
+      logger.info("Position snapshot complete", {
+        component: "snapshot-worker",
+        snapshotAt: result.snapshotAt,
+        markets: result.markets,
+        rows: result.rows,
+        durationMs: result.durationMs,
+      });
+    } catch (error) {
+      logger.error("Position snapshot failed", {
+        component: "snapshot-worker",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      isPollInProgress = false;
+    }
+  };
+
+  await poll();
+  const timer = setInterval(() => void poll(), config.intervalMs);
+
+  const VALID_SHUTDOWN_SIGNALS = ["SIGINT", "SIGTERM", "SIGHUP"] as const;
+  const SHUTDOWN_TIMEOUT_MS = 30_000;
+
+  let isShuttingDown = false;
+  const shutdown: ShutdownHandler = async (signal: ShutdownSignal) => {
+    if (
+      typeof signal !== "string" ||
+      signal.trim() === "" ||
+      !VALID_SHUTDOWN_SIGNALS.includes(
+        signal as (typeof VALID_SHUTDOWN_SIGNALS)[number]
+      )
+    ) {
+      logger.warn("Graceful shutdown called with invalid signal", {
+        signal,
+        statusCode: 400,
+        component: "snapshot-worker",
+        validSignals: [...VALID_SHUTDOWN_SIGNALS],
+      });
+      return;
+    }
+
+    if (isShuttingDown) return;
+    isShuttingDown = true;
+
+    logger.info("Position snapshot worker shutdown initiated", {
+      signal,
+      component: "snapshot-worker",
+      status: "initiated",
+    });
+
+    clearInterval(timer);
+
+    const timeoutHandle = setTimeout(() => {
+      logger.error("Shutdown timeout exceeded, forcing exit", {
+        signal,
+        component: "snapshot-worker",
+        timeoutMs: SHUTDOWN_TIMEOUT_MS,
+      });
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS);
+
+    try {
+      metricsServer.close();
+      await disconnectPrisma();
+      clearTimeout(timeoutHandle);
+
+      logger.info("Position snapshot worker shutdown complete", {
+        signal,
+        component: "snapshot-worker",
+        status: "complete",
+        exitCode: 0,
+      });
+      process.exit(0);
+    } catch (error) {
+      clearTimeout(timeoutHandle);
+      logger.error("Position snapshot worker shutdown failed", {
+        signal,
+        component: "snapshot-worker",
+        status: "failed",
+        exitCode: 1,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      process.exit(1);
+    }
+  };
+
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+void bootstrap().catch((error) => {
+  console.error(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "error",
+      message: "Position snapshot worker failed during bootstrap",
+      error: error instanceof Error ? error.message : String(error),
+    })
+  );
+  process.exit(1);
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "../../../../src/generated/prisma/client/index.js";
+import { PositionSnapshotJob } from "./positions.js";
+import {
+  positionSnapshotRows,
+  positionSnapshotRuns,
+  workerMetrics,
+} from "../shared/metrics.js";
+import type { Logger } from "../../../indexer/src/logger.js";
+import type { PrismaClient } from "../../../../src/generated/prisma/client/index.js";
+
+function makeLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn(),
+  };
+}
+
+/** Two markets with positions; only market-1 holds shares. */
+function makePrisma() {
+  const position = { createMany: vi.fn().mockResolvedValue({ count: 1 }) };
+  const prisma = {
+    userPosition: {
+      findMany: vi.fn(async (args: { distinct?: string[]; where?: any }) => {
+        if (args.distinct) {
+          return [{ marketId: "market-1" }, { marketId: "market-2" }];
+        }
+        return args.where.marketId === "market-1"
+          ? [{ userAddress: "GBUYER", yesShares: 10, noShares: 0 }]
+          : [];
+      }),
+    },
+    market: {
+      findUnique: vi
+        .fn()
+        .mockResolvedValue({ status: "ACTIVE", outcome: null }),
+    },
+    order: { groupBy: vi.fn().mockResolvedValue([]) },
+    trade: {
+      findFirst: vi.fn().mockResolvedValue({
+        outcome: "YES",
+        price: new Prisma.Decimal("0.4"),
+      }),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    indexedTrade: { findMany: vi.fn().mockResolvedValue([]) },
+    position,
+  };
+  return { prisma: prisma as unknown as PrismaClient, position };
+}
+
+describe("PositionSnapshotJob", () => {
+  beforeEach(() => {
+    workerMetrics.resetAll();
+  });
+
+  it("writes one snapshot's rows for every market with positions", async () => {
+    const { prisma, position } = makePrisma();
+
+    const result = await new PositionSnapshotJob(prisma, makeLogger()).run();
+
+    expect(result).toMatchObject({ markets: 2, rows: 1 });
+    expect(position.createMany).toHaveBeenCalledTimes(1);
+    const [{ data }] = position.createMany.mock.calls[0];
+    expect(data).toEqual([
+      expect.objectContaining({
+        walletAddress: "GBUYER",
+        marketId: "market-1",
+        outcome: "YES",
+        quantity: 10,
+        snapshotAt: new Date(result.snapshotAt),
+      }),
+    ]);
+    expect(positionSnapshotRows.get()).toBe(1);
+    expect(positionSnapshotRuns.get({ result: "success" })).toBe(1);
+  });
+
+  it("counts a failed run", async () => {
+    const { prisma, position } = makePrisma();
+    position.createMany.mockRejectedValue(new Error("db down"));
+
+    await expect(
+      new PositionSnapshotJob(prisma, makeLogger()).run()
+    ).rejects.toThrow("db down");
+    expect(positionSnapshotRuns.get({ result: "failure" })).toBe(1);
+  });
+});
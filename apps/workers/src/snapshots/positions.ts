@@ -0,0 +1,72 @@
+import type { PrismaClient } from "../../../../src/generated/prisma/client/index.js";
+import type { ILogger } from "../../../../packages/shared/src/logger.js";
+import { buildMarketSnapshot } from "../../../../src/services/position-snapshots.js";
+import {
+  positionSnapshotRows,
+  positionSnapshotRuns,
+} from "../shared/metrics.js";
+
+export interface PositionSnapshotResult {
+  /** Markets with at least one `UserPosition` */
+  markets: number;
+  /** `Position` rows written */
+  rows: number;
+  snapshotAt: string;
+  completedAt: string;
+  durationMs: number;
+}
+
+/**
+ * Values every `UserPosition` at its market's mark price and writes the
+ * result as `Position` rows sharing one `snapshotAt`. The rows feed the
+ * wallet portfolio history endpoint.
+ */
+export class PositionSnapshotJob {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly logger: ILogger
+  ) {}
+
+  async run(): Promise<PositionSnapshotResult> {
+    try {
+      const result = await this.snapshot();
+      positionSnapshotRuns.inc({ result: "success" });
+      return result;
+    } catch (error) {
+      positionSnapshotRuns.inc({ result: "failure" });
+      throw error;
+    }
+  }
+
+  private async snapshot(): Promise<PositionSnapshotResult> {
+    const snapshotAt = new Date();
+    const markets = await this.prisma.userPosition.findMany({
+      distinct: ["marketId"],
+      select: { marketId: true },
+      orderBy: { marketId: "asc" },
+    });
+
+    let rows = 0;
+    for (const { marketId } of markets) {
+      const data = await buildMarketSnapshot(this.prisma, marketId, snapshotAt);
+      if (data.length === 0) continue;
+      const { count } = await this.prisma.position.createMany({ data });
+      rows += count;
+      this.logger.debug("Market positions snapshotted", {
+        component: "position-snapshots",
+        marketId,
+        rows: count,
+      });
+    }
+    positionSnapshotRows.inc(undefined, rows);
+
+    const completedAt = new Date();
+    return {
+      markets: markets.length,
+      rows,
+      snapshotAt: snapshotAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+      durationMs: completedAt.getTime() - snapshotAt.getTime(),
+    };
+  }
+}
@@ -4,6 +4,8 @@ import {
   loadIndexerConfig,
   loadOracleWorkerConfig,
   loadFinalizationConfig,
+  loadReconciliationConfig,
+  loadSnapshotConfig,
   ConfigValidationError,
 } from "./config.js";
 
@@ -164,6 +166,46 @@ describe("loadFinalizationConfig", () => {
   });
 });
 
+describe("loadReconciliationConfig", () => {
+  it("loads valid reconciliation config with defaults", () => {
+    const config = loadReconciliationConfig({});
+    expect(config.intervalMs).toBe(60000);
+    expect(config.lookbackSeconds).toBe(86400);
+    expect(config.graceSeconds).toBe(300);
+    expect(config.logLevel).toBe("info");
+  });
+
+  it("throws when RECONCILIATION_LOOKBACK_SECONDS is not a positive integer", () => {
+    const env = { RECONCILIATION_LOOKBACK_SECONDS: "0" };
+    expect(() => loadReconciliationConfig(env)).toThrow(
+      "RECONCILIATION_LOOKBACK_SECONDS"
+    );
+  });
+
+  it("throws when the grace period covers the whole lookback", () => {
+    const env = {
+      RECONCILIATION_LOOKBACK_SECONDS: "600",
+      RECONCILIATION_GRACE_SECONDS: "600",
+    };
+    expect(() => loadReconciliationConfig(env)).toThrow(
+      "RECONCILIATION_GRACE_SECONDS"
+    );
+  });
+});
+
+describe("loadSnapshotConfig", () => {
+  it("loads valid snapshot config with defaults", () => {
+    const config = loadSnapshotConfig({});
+    expect(config.intervalMs).toBe(3600000);
+    expect(config.logLevel).toBe("info");
+  });
+
+  it("throws when SNAPSHOT_INTERVAL_MS is below one minute", () => {
+    const env = { SNAPSHOT_INTERVAL_MS: "1000" };
+    expect(() => loadSnapshotConfig(env)).toThrow("SNAPSHOT_INTERVAL_MS");
+  });
+});
+
 describe("ConfigValidationError", () => {
   it("has statusCode 400 on invalid input", () => {
     const env = { ...BASE_ENV, NODE_ENV: "invalid" };
@@ -10,6 +10,8 @@
  *   - loadBaseConfig()   — server, database, redis, stellar, security, cors, rate-limiting
  *   - loadIndexerConfig() — indexer-specific fields
  *   - loadFinalizationConfig() — finalization worker fields
+ *   - loadReconciliationConfig() — reconciliation worker fields
+ *   - loadSnapshotConfig() — position snapshot worker fields
  */
 
 // ---------------------------------------------------------------------------
@@ -44,8 +46,7 @@ export type Env = Record<string, string | undefined>;
 const processEnv: Env =
   (
     (globalThis as Record<string, unknown>)["process"] as
-      | { env: Env }
-      | undefined
+      { env: Env } | undefined
   )?.env ?? {};
 
 // ---------------------------------------------------------------------------
@@ -159,8 +160,7 @@ function loadUrl(name: string, env: Env, allowedProtocols: string[]): string {
   // URL is available in Node.js >= 10 globally; no DOM lib needed at runtime.
   // We cast through unknown to satisfy strict TS without requiring lib: ["DOM"].
   const URLCtor = (globalThis as Record<string, unknown>)["URL"] as
-    | (new (input: string) => { protocol: string; hostname: string })
-    | undefined;
+    (new (input: string) => { protocol: string; hostname: string }) | undefined;
   if (!URLCtor) {
     throw new ConfigValidationError(
       "URL constructor is not available in this environment"
@@ -394,6 +394,80 @@ export function loadFinalizationConfig(
   };
 }
 
+// ---------------------------------------------------------------------------
+// Reconciliation worker config
+// ---------------------------------------------------------------------------
+
+export interface ReconciliationConfig {
+  intervalMs: number;
+  /** How far back each run looks for trades */
+  lookbackSeconds: number;
+  /** Trades younger than this are left for a later run */
+  graceSeconds: number;
+  logLevel: LogLevel;
+}
+
+/**
+ * Loads and validates reconciliation worker config.
+ *
+ * @param env - Defaults to process.env. Pass a custom object in tests.
+ */
+export function loadReconciliationConfig(
+  env: Env = processEnv
+): ReconciliationConfig {
+  const config: ReconciliationConfig = {
+    intervalMs: requireMinNumber(
+      "RECONCILIATION_INTERVAL_MS",
+      env,
+      1000,
+      60_000
+    ),
+    lookbackSeconds: requirePositiveInt(
+      "RECONCILIATION_LOOKBACK_SECONDS",
+      env,
+      { fallback: 86_400 }
+    ),
+    graceSeconds: requireNonNegativeNumber(
+      "RECONCILIATION_GRACE_SECONDS",
+      env,
+      300
+    ),
+    logLevel: loadLogLevel("RECONCILIATION_LOG_LEVEL", env, "info"),
+  };
+  if (config.graceSeconds >= config.lookbackSeconds) {
+    throw new ConfigValidationError(
+      `RECONCILIATION_GRACE_SECONDS must be less than RECONCILIATION_LOOKBACK_SECONDS (${config.lookbackSeconds}), got: ${config.graceSeconds}`
+    );
+  }
+  return config;
+}
+
+// ---------------------------------------------------------------------------
+// Position snapshot worker config
+// ---------------------------------------------------------------------------
+
+export interface SnapshotConfig {
+  intervalMs: number;
+  logLevel: LogLevel;
+}
+
+/**
+ * Loads and validates position snapshot worker config.
+ *
+ * @param env - Defaults to process.env. Pass a custom object in tests.
+ */
+export function loadSnapshotConfig(env: Env = processEnv): SnapshotConfig {
+  return {
+    intervalMs: requireMinNumber(
+      "SNAPSHOT_INTERVAL_MS",
+      env,
+      60_000,
+      3_600_000
+    ),
+    logLevel: loadLogLevel("SNAPSHOT_LOG_LEVEL", env, "info"),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Oracle worker config
 // ---------------------------------------------------------------------------
@@ -15,6 +15,8 @@ export type {
   BaseConfig,
   IndexerConfig,
   FinalizationConfig,
+  ReconciliationConfig,
+  SnapshotConfig,
   RateLimitConfig,
   RateLimitTier,
 } from "./config.js";
@@ -24,6 +26,26 @@ export {
   loadBaseConfig,
   loadIndexerConfig,
   loadFinalizationConfig,
+  loadReconciliationConfig,
+  loadSnapshotConfig,
 } from "./config.js";
 
 export { resolveCorsAllowedOrigins } from "./cors.js";
+
+export {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  DEFAULT_LATENCY_BUCKETS,
+  PROMETHEUS_CONTENT_TYPE,
+  resolveMetricsPort,
+  startMetricsServer,
+} from "./metrics.js";
+export type {
+  Labels,
+  MetricOptions,
+  GaugeOptions,
+  HistogramOptions,
+  MetricsServerOptions,
+} from "./metrics.js";
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { AddressInfo } from "node:net";
+import {
+  MetricsRegistry,
+  resolveMetricsPort,
+  startMetricsServer,
+} from "./metrics.js";
+
+describe("MetricsRegistry", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("renders labelled counters in exposition format", async () => {
+    const registry = new MetricsRegistry();
+    const trades = registry.counter({
+      name: "trades_total",
+      help: "Trades matched",
+      labelNames: ["market_id"],
+    });
+
+    trades.inc({ market_id: "m-1" });
+    trades.inc({ market_id: "m-1" }, 2);
+    trades.inc({ market_id: 'm"2' });
+
+    expect(await registry.render()).toBe(
+      [
+        "# HELP trades_total Trades matched",
+        "# TYPE trades_total counter",
+        'trades_total{market_id="m-1"} 3',
+        'trades_total{market_id="m\\"2"} 1',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("renders cumulative histogram buckets with sum and count", async () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram({
+      name: "latency_seconds",
+      help: "Latency",
+      buckets: [0.1, 1],
+    });
+
+    latency.observe(undefined, 0.05);
+    latency.observe(undefined, 0.5);
+    latency.observe(undefined, 3);
+
+    const output = await registry.render();
+    expect(output).toContain('latency_seconds_bucket{le="0.1"} 1');
+    expect(output).toContain('latency_seconds_bucket{le="1"} 2');
+    expect(output).toContain('latency_seconds_bucket{le="+Inf"} 3');
+    expect(output).toContain("latency_seconds_sum 3.55");
+    expect(output).toContain("latency_seconds_count 3");
+  });
+
+  it("refreshes gauges through their collector on render", async () => {
+    const registry = new MetricsRegistry();
+    let depth = 4;
+    registry.gauge({
+      name: "queue_depth",
+      help: "Jobs waiting",
+      labelNames: ["queue"],
+      collect: (gauge) => gauge.set({ queue: "settlement" }, depth),
+    });
+
+    expect(await registry.render()).toContain(
+      'queue_depth{queue="settlement"} 4'
+    );
+    depth = 7;
+    expect(await registry.render()).toContain(
+      'queue_depth{queue="settlement"} 7'
+    );
+  });
+
+  it("keeps the previous gauge value when a collector fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const registry = new MetricsRegistry();
+    const gauge = registry.gauge({
+      name: "queue_depth",
+      help: "Jobs waiting",
+      collect: async () => {
+        throw new Error("redis down");
+      },
+    });
+    gauge.set(undefined, 2);
+
+    expect(await registry.render()).toContain("queue_depth 2");
+    expect(console.error).toHaveBeenCalledOnce();
+  });
+
+  it("rejects unknown, missing and duplicate names", () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter({
+      name: "events_total",
+      help: "Events",
+      labelNames: ["kind"],
+    });
+
+    expect(() => counter.inc({})).toThrow('Missing label "kind"');
+    expect(() => counter.inc({ kind: "a", other: "b" })).toThrow(
+      'Unknown label "other"'
+    );
+    expect(() => counter.inc({ kind: "a" }, -1)).toThrow("cannot decrease");
+    expect(() =>
+      registry.gauge({ name: "events_total", help: "Again" })
+    ).toThrow("already registered");
+  });
+});
+
+describe("startMetricsServer", () => {
+  it("serves the registry on GET /metrics and 404s elsewhere", async () => {
+    const registry = new MetricsRegistry();
+    registry.counter({ name: "up_total", help: "Up" }).inc();
+    const server = await startMetricsServer(registry, {
+      port: 0,
+      host: "127.0.0.1",
+    });
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const metrics = await fetch(`http://127.0.0.1:${port}/metrics`);
+      expect(metrics.status).toBe(200);
+      expect(metrics.headers.get("content-type")).toContain("version=0.0.4");
+      expect(await metrics.text()).toContain("up_total 1");
+
+      const other = await fetch(`http://127.0.0.1:${port}/health`);
+      expect(other.status).toBe(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe("resolveMetricsPort", () => {
+  it("falls back to the default when METRICS_PORT is unset", () => {
+    expect(resolveMetricsPort(9464, {})).toBe(9464);
+    expect(resolveMetricsPort(9464, { METRICS_PORT: "9100" })).toBe(9100);
+  });
+
+  it("throws on an invalid METRICS_PORT", () => {
+    expect(() => resolveMetricsPort(9464, { METRICS_PORT: "abc" })).toThrow(
+      "METRICS_PORT"
+    );
+  });
+});
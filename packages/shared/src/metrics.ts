@@ -0,0 +1,392 @@
+/**
+ * In-process metrics registry with Prometheus text exposition.
+ *
+ * Each app owns one MetricsRegistry, creates its counters, gauges and
+ * histograms at module load and serves `registry.render()` on `/metrics`.
+ * Apps without an HTTP server use startMetricsServer().
+ *
+ * @module packages/shared/src/metrics
+ */
+
+import { createServer, type Server } from "node:http";
+
+/** Content type of the Prometheus text exposition format. */
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+/** Latency buckets in seconds, from 1ms to 10s. */
+export const DEFAULT_LATENCY_BUCKETS = [
+  0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const METRIC_NAME_REGEX = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export type Labels = Record<string, string | number>;
+
+export interface MetricOptions {
+  name: string;
+  help: string;
+  labelNames?: string[];
+}
+
+export interface GaugeOptions extends MetricOptions {
+  /**
+   * Called before every render to refresh the gauge, e.g. to read a queue
+   * length. A rejection leaves the previous values in place.
+   */
+  collect?: (gauge: Gauge) => void | Promise<void>;
+}
+
+export interface HistogramOptions extends MetricOptions {
+  /** Upper bounds in ascending order; `+Inf` is implied */
+  buckets?: number[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return Number.isNaN(value) ? "NaN" : String(value);
+}
+
+function formatLabels(entries: [string, string][]): string {
+  if (entries.length === 0) return "";
+  const pairs = entries.map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+abstract class Metric<TSeries> {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: string[];
+  protected readonly series = new Map<string, TSeries>();
+
+  constructor(options: MetricOptions) {
+    if (!METRIC_NAME_REGEX.test(options.name)) {
+      throw new Error(`Invalid metric name "${options.name}"`);
+    }
+    for (const label of options.labelNames ?? []) {
+      if (!LABEL_NAME_REGEX.test(label) || label.startsWith("__")) {
+        throw new Error(`Invalid label name "${label}" on ${options.name}`);
+      }
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  /** Drop every recorded series. */
+  reset(): void {
+    this.series.clear();
+  }
+
+  /** Ordered label values, validated against the declared label names. */
+  protected labelValues(labels: Labels = {}): string[] {
+    for (const name of Object.keys(labels)) {
+      if (!this.labelNames.includes(name)) {
+        throw new Error(`Unknown label "${name}" on ${this.name}`);
+      }
+    }
+    return this.labelNames.map((name) => {
+      const value = labels[name];
+      if (value === undefined) {
+        throw new Error(`Missing label "${name}" on ${this.name}`);
+      }
+      return String(value);
+    });
+  }
+
+  protected seriesFor(
+    labels: Labels | undefined,
+    init: () => TSeries
+  ): TSeries {
+    const key = JSON.stringify(this.labelValues(labels));
+    let entry = this.series.get(key);
+    if (entry === undefined) {
+      entry = init();
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected labelEntries(key: string): [string, string][] {
+    const values = JSON.parse(key) as string[];
+    return this.labelNames.map((name, i) => [name, values[i]]);
+  }
+
+  /** Refresh values before rendering; only gauges with `collect` do work. */
+  async collect(): Promise<void> {}
+
+  protected abstract sampleLines(): string[];
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${escapeHelp(this.help)}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.sampleLines(),
+    ].join("\n");
+  }
+}
+
+export class Counter extends Metric<{ value: number }> {
+  readonly type = "counter" as const;
+
+  /** @throws Error if `amount` is negative */
+  inc(labels?: Labels, amount = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.seriesFor(labels, () => ({ value: 0 })).value += amount;
+  }
+
+  get(labels?: Labels): number {
+    return (
+      this.series.get(JSON.stringify(this.labelValues(labels)))?.value ?? 0
+    );
+  }
+
+  protected sampleLines(): string[] {
+    return [...this.series].map(
+      ([key, { value }]) =>
+        `${this.name}${formatLabels(this.labelEntries(key))} ${formatValue(value)}`
+    );
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = "gauge" as const;
+  private readonly collector?: GaugeOptions["collect"];
+
+  constructor(options: GaugeOptions) {
+    super(options);
+    this.collector = options.collect;
+  }
+
+  set(labels: Labels | undefined, value: number): void {
+    this.seriesFor(labels, () => ({ value: 0 })).value = value;
+  }
+
+  inc(labels?: Labels, amount = 1): void {
+    this.seriesFor(labels, () => ({ value: 0 })).value += amount;
+  }
+
+  dec(labels?: Labels, amount = 1): void {
+    this.inc(labels, -amount);
+  }
+
+  get(labels?: Labels): number | undefined {
+    return this.series.get(JSON.stringify(this.labelValues(labels)))?.value;
+  }
+
+  async collect(): Promise<void> {
+    if (!this.collector) return;
+    try {
+      await this.collector(this);
+    } catch (error) {
+      console.error(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "error",
+          component: "metrics",
+          message: "Gauge collection failed",
+          metric: this.name,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  protected sampleLines(): string[] {
+    return [...this.series].map(
+      ([key, { value }]) =>
+        `${this.name}${formatLabels(this.labelEntries(key))} ${formatValue(value)}`
+    );
+  }
+}
+
+interface HistogramSeries {
+  /** Per-bucket counts, not cumulative; cumulated at render time */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+  readonly type = "histogram" as const;
+  readonly buckets: number[];
+
+  constructor(options: HistogramOptions) {
+    super(options);
+    if (this.labelNames.includes("le")) {
+      throw new Error(`Histogram ${this.name} cannot use the "le" label`);
+    }
+    const buckets = options.buckets ?? DEFAULT_LATENCY_BUCKETS;
+    if (buckets.some((b, i) => i > 0 && b <= buckets[i - 1])) {
+      throw new Error(`Histogram ${this.name} buckets must be increasing`);
+    }
+    this.buckets = [...buckets];
+  }
+
+  observe(labels: Labels | undefined, value: number): void {
+    const entry = this.seriesFor(labels, () => ({
+      counts: new Array<number>(this.buckets.length).fill(0),
+      sum: 0,
+      count: 0,
+    }));
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index !== -1) entry.counts[index]++;
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /**
+   * Start a timer; the returned function observes the elapsed seconds.
+   * Labels passed to the stop function are merged over the start labels.
+   */
+  startTimer(labels?: Labels): (endLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (endLabels) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...endLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  protected sampleLines(): string[] {
+    const lines: string[] = [];
+    for (const [key, { counts, sum, count }] of this.series) {
+      const entries = this.labelEntries(key);
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += counts[i];
+        lines.push(
+          `${this.name}_bucket${formatLabels([...entries, ["le", formatValue(bound)]])} ${cumulative}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels([...entries, ["le", "+Inf"]])} ${count}`,
+        `${this.name}_sum${formatLabels(entries)} ${formatValue(sum)}`,
+        `${this.name}_count${formatLabels(entries)} ${count}`
+      );
+    }
+    return lines;
+  }
+}
+
+type AnyMetric = Counter | Gauge | Histogram;
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, AnyMetric>();
+
+  counter(options: MetricOptions): Counter {
+    return this.register(new Counter(options));
+  }
+
+  gauge(options: GaugeOptions): Gauge {
+    return this.register(new Gauge(options));
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(new Histogram(options));
+  }
+
+  getMetric(name: string): AnyMetric | undefined {
+    return this.metrics.get(name);
+  }
+
+  /** Reset every metric's values; intended for tests. */
+  resetAll(): void {
+    for (const metric of this.metrics.values()) metric.reset();
+  }
+
+  /** Run gauge collectors, then render every metric in registration order. */
+  async render(): Promise<string> {
+    await Promise.all([...this.metrics.values()].map((m) => m.collect()));
+    const blocks = [...this.metrics.values()].map((m) => m.render());
+    return blocks.length > 0 ? `${blocks.join("\n")}\n` : "";
+  }
+
+  /** @throws Error if a metric with the same name is already registered */
+  private register<T extends AnyMetric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export interface MetricsServerOptions {
+  port: number;
+  host?: string;
+}
+
+/**
+ * Serve `registry` on `GET /metrics` for apps that have no HTTP server of
+ * their own. Every other path is a 404.
+ */
+export async function startMetricsServer(
+  registry: MetricsRegistry,
+  options: MetricsServerOptions
+): Promise<Server> {
+  const server = createServer((req, res) => {
+    const path = (req.url ?? "").split("?")[0];
+    if (req.method !== "GET" || path !== "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+    registry.render().then(
+      (body) => {
+        res.writeHead(200, { "Content-Type": PROMETHEUS_CONTENT_TYPE });
+        res.end(body);
+      },
+      () => {
+        res.writeHead(500).end();
+      }
+    );
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host ?? "0.0.0.0", () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  return server;
+}
+
+/**
+ * Read the metrics port from `METRICS_PORT`, falling back to the app's
+ * default.
+ *
+ * @throws Error if METRICS_PORT is set but not a valid port
+ */
+export function resolveMetricsPort(
+  defaultPort: number,
+  env: Record<string, string | undefined> = process.env
+): number {
+  const raw = env.METRICS_PORT;
+  if (raw === undefined || raw.trim() === "") return defaultPort;
+  const port = Number(raw);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`METRICS_PORT must be a port number, got "${raw}"`);
+  }
+  return port;
+}
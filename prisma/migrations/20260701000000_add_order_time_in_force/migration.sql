@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "TimeInForce" AS ENUM ('GTC', 'IOC', 'FOK', 'GTT');
+
+-- AlterTable
+ALTER TABLE "orders"
+  ADD COLUMN "time_in_force" "TimeInForce" NOT NULL DEFAULT 'GTC',
+  ADD COLUMN "post_only" BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN "expires_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "orders_status_expires_at_idx" ON "orders"("status", "expires_at");
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "OrderType" AS ENUM ('LIMIT', 'MARKET');
+
+-- AlterTable
+ALTER TABLE "orders"
+  ADD COLUMN "order_type" "OrderType" NOT NULL DEFAULT 'LIMIT',
+  ADD COLUMN "max_cost" DECIMAL(20,8);
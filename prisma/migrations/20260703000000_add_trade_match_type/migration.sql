@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "MatchType" AS ENUM ('DIRECT', 'MINT', 'MERGE');
+
+-- AlterTable
+ALTER TABLE "trades" ADD COLUMN "match_type" "MatchType" NOT NULL DEFAULT 'DIRECT';
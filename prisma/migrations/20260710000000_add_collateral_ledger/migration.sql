@@ -0,0 +1,95 @@
+-- CreateEnum
+CREATE TYPE "CollateralEntryType" AS ENUM ('DEPOSIT', 'WITHDRAWAL', 'RESERVE', 'RELEASE', 'TRADE');
+
+-- CreateTable
+CREATE TABLE "collateral_withdrawals" (
+    "id" TEXT NOT NULL,
+    "idempotency_key" VARCHAR(64) NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "ledger" INTEGER NOT NULL,
+    "contract_id" TEXT NOT NULL,
+    "account" VARCHAR(56) NOT NULL,
+    "market_id" TEXT NOT NULL,
+    "amount_raw" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "collateral_withdrawals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "collateral_balances" (
+    "id" TEXT NOT NULL,
+    "user_address" VARCHAR(56) NOT NULL,
+    "market_id" TEXT NOT NULL,
+    "available" DECIMAL(20,8) NOT NULL DEFAULT 0,
+    "reserved" DECIMAL(20,8) NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "collateral_balances_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "collateral_ledger_entries" (
+    "id" TEXT NOT NULL,
+    "user_address" VARCHAR(56) NOT NULL,
+    "market_id" TEXT NOT NULL,
+    "type" "CollateralEntryType" NOT NULL,
+    "available_delta" DECIMAL(20,8) NOT NULL,
+    "reserved_delta" DECIMAL(20,8) NOT NULL,
+    "reference" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "collateral_ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collateral_withdrawals_idempotency_key_key" ON "collateral_withdrawals"("idempotency_key");
+
+-- CreateIndex
+CREATE INDEX "collateral_withdrawals_account_idx" ON "collateral_withdrawals"("account");
+
+-- CreateIndex
+CREATE INDEX "collateral_withdrawals_market_id_idx" ON "collateral_withdrawals"("market_id");
+
+-- CreateIndex
+CREATE INDEX "collateral_withdrawals_account_market_id_idx" ON "collateral_withdrawals"("account", "market_id");
+
+-- CreateIndex
+CREATE INDEX "collateral_withdrawals_ledger_idx" ON "collateral_withdrawals"("ledger");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collateral_balances_user_address_market_id_key" ON "collateral_balances"("user_address", "market_id");
+
+-- CreateIndex
+CREATE INDEX "collateral_balances_user_address_idx" ON "collateral_balances"("user_address");
+
+-- CreateIndex
+CREATE INDEX "collateral_ledger_entries_user_address_market_id_idx" ON "collateral_ledger_entries"("user_address", "market_id");
+
+-- CreateIndex
+CREATE INDEX "collateral_ledger_entries_reference_idx" ON "collateral_ledger_entries"("reference");
+
+-- Backfill the ledger from indexed deposits and withdrawals, one entry each.
+-- Amounts are stored in base units with 7 decimals (COLLATERAL_RAW_DECIMALS).
+INSERT INTO "collateral_ledger_entries" ("id", "user_address", "market_id", "type", "available_delta", "reserved_delta", "reference", "created_at")
+SELECT gen_random_uuid()::text, "account", "market_id", 'DEPOSIT', "amount_raw"::numeric / 10000000, 0, "idempotency_key", "created_at"
+FROM "collateral_deposits";
+
+INSERT INTO "collateral_ledger_entries" ("id", "user_address", "market_id", "type", "available_delta", "reserved_delta", "reference", "created_at")
+SELECT gen_random_uuid()::text, "account", "market_id", 'WITHDRAWAL', -("amount_raw"::numeric / 10000000), 0, "idempotency_key", "created_at"
+FROM "collateral_withdrawals";
+
+-- Reserve price × remaining for every resting bid, so cancelling or filling
+-- it releases or spends collateral that was actually held.
+INSERT INTO "collateral_ledger_entries" ("id", "user_address", "market_id", "type", "available_delta", "reserved_delta", "reference", "created_at")
+SELECT gen_random_uuid()::text, "user_address", "market_id", 'RESERVE', -("price" * ("quantity" - "filled_quantity")), "price" * ("quantity" - "filled_quantity"), "id", "created_at"
+FROM "orders"
+WHERE "side" = 'BUY'
+  AND "status" IN ('OPEN', 'PARTIALLY_FILLED')
+  AND "quantity" > "filled_quantity";
+
+-- Balances are the sum of each wallet's entries in a market.
+INSERT INTO "collateral_balances" ("id", "user_address", "market_id", "available", "reserved", "updated_at")
+SELECT gen_random_uuid()::text, "user_address", "market_id", SUM("available_delta"), SUM("reserved_delta"), CURRENT_TIMESTAMP
+FROM "collateral_ledger_entries"
+GROUP BY "user_address", "market_id";
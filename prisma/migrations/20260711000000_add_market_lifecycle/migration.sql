@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "markets" ADD COLUMN "metadata" JSONB;
+
+-- CreateTable
+CREATE TABLE "market_status_transitions" (
+    "id" TEXT NOT NULL,
+    "market_id" TEXT NOT NULL,
+    "from_status" "MarketStatus",
+    "to_status" "MarketStatus" NOT NULL,
+    "outcome" BOOLEAN,
+    "actor" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "market_status_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "market_status_transitions_market_id_created_at_idx" ON "market_status_transitions"("market_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "market_status_transitions" ADD CONSTRAINT "market_status_transitions_market_id_fkey" FOREIGN KEY ("market_id") REFERENCES "markets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "MarketStatus" ADD VALUE 'CLOSED' AFTER 'ACTIVE';
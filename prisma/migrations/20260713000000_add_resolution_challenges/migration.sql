@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "ChallengeDecision" AS ENUM ('ACCEPT', 'REJECT');
+
+-- CreateTable
+CREATE TABLE "resolution_challenges" (
+    "id" TEXT NOT NULL,
+    "candidate_id" TEXT NOT NULL,
+    "market_id" TEXT NOT NULL,
+    "challenger_address" VARCHAR(56) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "evidence_url" TEXT,
+    "decision" "ChallengeDecision",
+    "adjudicated_by" TEXT,
+    "adjudication_reason" TEXT,
+    "adjudicated_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "resolution_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "resolution_challenges_candidate_id_key" ON "resolution_challenges"("candidate_id");
+
+-- CreateIndex
+CREATE INDEX "resolution_challenges_market_id_idx" ON "resolution_challenges"("market_id");
+
+-- CreateIndex
+CREATE INDEX "resolution_challenges_challenger_address_idx" ON "resolution_challenges"("challenger_address");
+
+-- AddForeignKey
+ALTER TABLE "resolution_challenges" ADD CONSTRAINT "resolution_challenges_candidate_id_fkey" FOREIGN KEY ("candidate_id") REFERENCES "resolution_candidates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "resolution_challenges" ADD CONSTRAINT "resolution_challenges_market_id_fkey" FOREIGN KEY ("market_id") REFERENCES "markets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
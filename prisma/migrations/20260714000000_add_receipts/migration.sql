@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "ReceiptKind" AS ENUM ('ORDER', 'TRADE');
+
+-- CreateTable
+CREATE TABLE "receipts" (
+    "id" TEXT NOT NULL,
+    "kind" "ReceiptKind" NOT NULL,
+    "subject_id" TEXT NOT NULL,
+    "market_id" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "signature" TEXT NOT NULL,
+    "public_key" VARCHAR(56) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "receipts_kind_subject_id_key" ON "receipts"("kind", "subject_id");
+
+-- CreateIndex
+CREATE INDEX "receipts_market_id_idx" ON "receipts"("market_id");
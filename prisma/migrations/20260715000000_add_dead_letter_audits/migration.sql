@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "DeadLetterAction" AS ENUM ('REPLAY', 'PURGE');
+
+-- CreateTable
+CREATE TABLE "dead_letter_audits" (
+    "id" TEXT NOT NULL,
+    "queue" TEXT NOT NULL,
+    "entry_id" TEXT NOT NULL,
+    "action" "DeadLetterAction" NOT NULL,
+    "actor" TEXT NOT NULL,
+    "reason" TEXT,
+    "entry" JSONB NOT NULL,
+    "replayed_entry_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "dead_letter_audits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "dead_letter_audits_queue_created_at_idx" ON "dead_letter_audits"("queue", "created_at");
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "SettlementStatus" AS ENUM ('QUEUED', 'SUBMITTED', 'CONFIRMED', 'FAILED', 'DEAD_LETTERED');
+
+-- CreateTable
+CREATE TABLE "trade_settlements" (
+    "id" TEXT NOT NULL,
+    "trade_id" VARCHAR(256) NOT NULL,
+    "status" "SettlementStatus" NOT NULL DEFAULT 'QUEUED',
+    "tx_hash" VARCHAR(64),
+    "ledger" INTEGER,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "submitted_at" TIMESTAMP(3),
+    "confirmed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trade_settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trade_settlements_trade_id_key" ON "trade_settlements"("trade_id");
+
+-- CreateIndex
+CREATE INDEX "trade_settlements_status_updated_at_idx" ON "trade_settlements"("status", "updated_at");
+
+-- AddForeignKey
+ALTER TABLE "trade_settlements" ADD CONSTRAINT "trade_settlements_trade_id_fkey" FOREIGN KEY ("trade_id") REFERENCES "trades"("trade_id") ON DELETE CASCADE ON UPDATE CASCADE;
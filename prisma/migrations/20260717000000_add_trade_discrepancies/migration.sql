@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "TradeDiscrepancyKind" AS ENUM ('MISSING_ON_CHAIN', 'MISSING_OFF_CHAIN', 'PRICE_MISMATCH', 'QUANTITY_MISMATCH');
+
+-- CreateTable
+CREATE TABLE "trade_discrepancies" (
+    "id" TEXT NOT NULL,
+    "key" VARCHAR(600) NOT NULL,
+    "kind" "TradeDiscrepancyKind" NOT NULL,
+    "market_id" TEXT NOT NULL,
+    "trade_id" VARCHAR(256),
+    "indexed_trade_id" TEXT,
+    "buy_order_id" TEXT NOT NULL,
+    "sell_order_id" TEXT NOT NULL,
+    "expected" TEXT,
+    "actual" TEXT,
+    "detected_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMP(3),
+
+    CONSTRAINT "trade_discrepancies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trade_discrepancies_key_key" ON "trade_discrepancies"("key");
+
+-- CreateIndex
+CREATE INDEX "trade_discrepancies_resolved_at_kind_idx" ON "trade_discrepancies"("resolved_at", "kind");
+
+-- CreateIndex
+CREATE INDEX "trade_discrepancies_market_id_idx" ON "trade_discrepancies"("market_id");
+
+-- CreateIndex
+CREATE INDEX "trades_buy_order_id_sell_order_id_idx" ON "trades"("buy_order_id", "sell_order_id");
+
+-- CreateIndex
+CREATE INDEX "indexed_trades_buy_order_id_sell_order_id_idx" ON "indexed_trades"("buy_order_id", "sell_order_id");
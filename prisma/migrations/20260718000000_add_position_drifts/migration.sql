@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "position_drifts" (
+    "id" TEXT NOT NULL,
+    "market_id" TEXT NOT NULL,
+    "user_address" VARCHAR(56) NOT NULL,
+    "expected_yes_shares" INTEGER NOT NULL,
+    "actual_yes_shares" INTEGER NOT NULL,
+    "expected_no_shares" INTEGER NOT NULL,
+    "actual_no_shares" INTEGER NOT NULL,
+    "expected_locked_collateral" DECIMAL(20,8) NOT NULL,
+    "actual_locked_collateral" DECIMAL(20,8) NOT NULL,
+    "deposited_collateral" DECIMAL(20,8) NOT NULL,
+    "detected_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMP(3),
+    "repaired_at" TIMESTAMP(3),
+    "repaired_by" TEXT,
+    "repair_reason" TEXT,
+
+    CONSTRAINT "position_drifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "position_drifts_market_id_user_address_idx" ON "position_drifts"("market_id", "user_address");
+
+-- CreateIndex
+CREATE INDEX "position_drifts_resolved_at_idx" ON "position_drifts"("resolved_at");
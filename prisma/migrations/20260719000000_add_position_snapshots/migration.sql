@@ -0,0 +1,16 @@
+-- DropIndex
+DROP INDEX "positions_wallet_market_outcome_key";
+
+-- DropIndex
+DROP INDEX "positions_wallet_address_idx";
+
+-- AlterTable
+ALTER TABLE "positions" ADD COLUMN     "cost_basis" DECIMAL(20,8) NOT NULL DEFAULT 0,
+ADD COLUMN     "mark_price" DECIMAL(20,8),
+ADD COLUMN     "snapshot_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "positions_wallet_address_snapshot_at_idx" ON "positions"("wallet_address", "snapshot_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "positions_wallet_market_outcome_snapshot_key" ON "positions"("wallet_address", "market_id", "outcome", "snapshot_at");
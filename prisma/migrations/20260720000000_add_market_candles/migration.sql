@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "market_candles" (
+    "id" TEXT NOT NULL,
+    "market_id" TEXT NOT NULL,
+    "outcome" VARCHAR(8) NOT NULL,
+    "interval" VARCHAR(4) NOT NULL,
+    "bucket_start" TIMESTAMP(3) NOT NULL,
+    "open" DECIMAL(10,8) NOT NULL,
+    "high" DECIMAL(10,8) NOT NULL,
+    "low" DECIMAL(10,8) NOT NULL,
+    "close" DECIMAL(10,8) NOT NULL,
+    "volume" INTEGER NOT NULL,
+    "trade_count" INTEGER NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "market_candles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "market_candles_market_id_outcome_interval_bucket_start_key" ON "market_candles"("market_id", "outcome", "interval", "bucket_start");
+
+-- CreateIndex
+CREATE INDEX "trades_market_id_traded_at_idx" ON "trades"("market_id", "traded_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "trades_market_id_outcome_traded_at_idx" ON "trades"("market_id", "outcome", "traded_at");
@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "market_stats" (
+    "market_id" TEXT NOT NULL,
+    "total_volume" INTEGER NOT NULL DEFAULT 0,
+    "volume_24h" INTEGER NOT NULL DEFAULT 0,
+    "trade_count" INTEGER NOT NULL DEFAULT 0,
+    "open_interest" INTEGER NOT NULL DEFAULT 0,
+    "unique_traders" INTEGER NOT NULL DEFAULT 0,
+    "open_orders" INTEGER NOT NULL DEFAULT 0,
+    "last_price" DECIMAL(10,8),
+    "last_traded_at" TIMESTAMP(3),
+    "best_bid" DECIMAL(10,8),
+    "best_ask" DECIMAL(10,8),
+    "spread" DECIMAL(10,8),
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "market_stats_pkey" PRIMARY KEY ("market_id")
+);
+
+-- CreateIndex
+CREATE INDEX "market_stats_total_volume_idx" ON "market_stats"("total_volume");
+
+-- CreateIndex
+CREATE INDEX "market_stats_volume_24h_idx" ON "market_stats"("volume_24h");
+
+-- CreateIndex
+CREATE INDEX "market_stats_open_interest_idx" ON "market_stats"("open_interest");
+
+-- AddForeignKey
+ALTER TABLE "market_stats" ADD CONSTRAINT "market_stats_market_id_fkey" FOREIGN KEY ("market_id") REFERENCES "markets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill one row per existing market from its trades and positions. Quotes
+-- and open orders are written the next time one of the market's books changes.
+INSERT INTO "market_stats" ("market_id", "total_volume", "volume_24h", "trade_count", "open_interest", "unique_traders", "last_price", "last_traded_at")
+SELECT
+    m."id",
+    COALESCE(t."total_volume", 0),
+    COALESCE(t."volume_24h", 0),
+    COALESCE(t."trade_count", 0),
+    COALESCE(p."open_interest", 0),
+    COALESCE(p."unique_traders", 0),
+    l."last_price",
+    l."traded_at"
+FROM "markets" m
+LEFT JOIN (
+    SELECT "market_id",
+        SUM("quantity") AS "total_volume",
+        SUM("quantity") FILTER (WHERE "traded_at" >= NOW() - INTERVAL '24 hours') AS "volume_24h",
+        COUNT(*) AS "trade_count"
+    FROM "trades"
+    GROUP BY "market_id"
+) t ON t."market_id" = m."id"
+LEFT JOIN (
+    SELECT "market_id",
+        SUM(GREATEST("yes_shares", 0)) AS "open_interest",
+        COUNT(*) AS "unique_traders"
+    FROM "user_positions"
+    GROUP BY "market_id"
+) p ON p."market_id" = m."id"
+LEFT JOIN LATERAL (
+    SELECT CASE WHEN "outcome" = 'YES' THEN "price" ELSE 1 - "price" END AS "last_price",
+        "traded_at"
+    FROM "trades"
+    WHERE "market_id" = m."id"
+    ORDER BY "traded_at" DESC, "id" DESC
+    LIMIT 1
+) l ON TRUE;
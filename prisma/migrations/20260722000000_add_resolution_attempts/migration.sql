@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "ResolutionAttemptStatus" AS ENUM ('PENDING', 'SUBMITTED');
+
+-- CreateTable
+CREATE TABLE "resolution_attempts" (
+    "market_id" TEXT NOT NULL,
+    "status" "ResolutionAttemptStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL,
+    "last_attempt_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "submitted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "resolution_attempts_pkey" PRIMARY KEY ("market_id")
+);
+
+-- CreateIndex
+CREATE INDEX "resolution_attempts_status_next_attempt_at_idx" ON "resolution_attempts"("status", "next_attempt_at");
+
+-- AddForeignKey
+ALTER TABLE "resolution_attempts" ADD CONSTRAINT "resolution_attempts_market_id_fkey" FOREIGN KEY ("market_id") REFERENCES "markets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
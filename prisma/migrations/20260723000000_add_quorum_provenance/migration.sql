@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "ResolutionAttemptStatus" ADD VALUE 'CONFLICT';
+
+-- AlterTable
+ALTER TABLE "resolution_attempts" ADD COLUMN "conflict" JSONB;
+
+-- AlterTable
+ALTER TABLE "resolution_candidates" ADD COLUMN "provenance" JSONB;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "oracle_reports" ADD COLUMN "canonical_source" "OracleSource";
+
+-- AlterTable
+ALTER TABLE "resolution_candidates" ADD COLUMN "canonical_source" "OracleSource";
+
+-- CreateIndex
+CREATE INDEX "oracle_reports_canonical_source_idx" ON "oracle_reports"("canonical_source");
+
+-- CreateIndex
+CREATE INDEX "resolution_candidates_canonical_source_idx" ON "resolution_candidates"("canonical_source");
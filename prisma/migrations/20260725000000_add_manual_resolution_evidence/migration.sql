@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "resolution_candidates" ADD COLUMN "evidence" TEXT;
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "DeadLetterAction" ADD VALUE 'RETRY';
+ALTER TYPE "DeadLetterAction" ADD VALUE 'CANCEL';
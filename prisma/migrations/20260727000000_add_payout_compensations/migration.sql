@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "PayoutCompensationStatus" AS ENUM ('PENDING', 'ENQUEUED');
+
+-- CreateTable
+CREATE TABLE "payout_compensations" (
+    "id" TEXT NOT NULL,
+    "market_id" TEXT NOT NULL,
+    "user_address" VARCHAR(56) NOT NULL,
+    "resolution_id" TEXT NOT NULL,
+    "superseded_resolution_id" TEXT NOT NULL,
+    "previous_outcome" BOOLEAN NOT NULL,
+    "outcome" BOOLEAN NOT NULL,
+    "previous_payout" DECIMAL(20,8) NOT NULL,
+    "payout" DECIMAL(20,8) NOT NULL,
+    "payout_delta" DECIMAL(20,8) NOT NULL,
+    "status" "PayoutCompensationStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "enqueued_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payout_compensations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payout_compensations_status_created_at_idx" ON "payout_compensations"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "payout_compensations_market_id_idx" ON "payout_compensations"("market_id");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "oracle_reports" ADD COLUMN "idempotency_key" VARCHAR(64);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oracle_reports_idempotency_key_key" ON "oracle_reports"("idempotency_key");
@@ -46,3 +46,9 @@ export class ForbiddenError extends AppError {
     super(message, 403, "forbidden");
   }
 }
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message = "Service unavailable") {
+    super(message, 503, "service_unavailable");
+  }
+}
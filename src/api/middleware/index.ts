@@ -1,2 +1,9 @@
 export { OrderBook } from "../../matching/orderbook.js";
-export { buildSignableMessage, verifyStellarSignature } from "./stellarAuth.js";
+export {
+  buildSignableMessage,
+  buildCancelSignableMessage,
+  buildChallengeSignableMessage,
+  verifyStellarSignature,
+  verifyStellarCancelSignature,
+  verifyStellarChallengeSignature,
+} from "./stellarAuth.js";
@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import Fastify from "fastify";
+import { requestMetrics } from "./metrics.js";
+import { apiMetrics, httpRequestDuration } from "../../services/metrics.js";
+
+describe("Request Metrics Middleware", () => {
+  beforeEach(() => {
+    apiMetrics.resetAll();
+  });
+
+  it("labels latency by route pattern rather than raw URL", async () => {
+    const server = Fastify();
+    await server.register(requestMetrics);
+    server.get("/markets/:id", async () => ({ ok: true }));
+
+    await server.inject({ method: "GET", url: "/markets/m-1" });
+    await server.inject({ method: "GET", url: "/markets/m-2" });
+
+    const output = await apiMetrics.render();
+    expect(output).toContain(
+      'vatix_http_request_duration_seconds_count{method="GET",route="/markets/:id",status_code="200"} 2'
+    );
+    expect(output).not.toContain("m-1");
+  });
+
+  it("groups requests without a matching route", async () => {
+    const server = Fastify();
+    await server.register(requestMetrics);
+
+    await server.inject({ method: "GET", url: "/nope/123" });
+
+    expect(httpRequestDuration.render()).toContain(
+      'route="unmatched",status_code="404"'
+    );
+  });
+});
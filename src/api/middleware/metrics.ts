@@ -0,0 +1,26 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import fp from "fastify-plugin";
+import { httpRequestDuration } from "../../services/metrics.js";
+
+/**
+ * Records every response in the request latency histogram. Requests are
+ * labelled by route pattern (`/v1/markets/:id`), never the raw URL, so the
+ * series count stays bounded; unmatched requests share the "unmatched" route.
+ */
+async function metrics(fastify: FastifyInstance) {
+  fastify.addHook(
+    "onResponse",
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      httpRequestDuration.observe(
+        {
+          method: request.method,
+          route: request.routeOptions.url ?? "unmatched",
+          status_code: reply.statusCode,
+        },
+        reply.elapsedTime / 1000
+      );
+    }
+  );
+}
+
+export const requestMetrics = fp(metrics);
@@ -1,7 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import Fastify, { FastifyInstance } from "fastify";
 import { Keypair } from "@stellar/stellar-sdk";
-import { buildSignableMessage } from "./stellarAuth.js";
+import {
+  buildCancelSignableMessage,
+  buildSignableMessage,
+  buildSubscribeSignableMessage,
+  verifySubscribeSignature,
+} from "./stellarAuth.js";
 import type { PrismaClient } from "../../generated/prisma/client";
 
 // ---------------------------------------------------------------------------
@@ -18,9 +23,14 @@ const { mockPrismaClient, mockMatchingService } = vi.hoisted(() => ({
     market: {
       findUnique: vi.fn(),
     },
+    collateralBalance: {
+      findUnique: vi.fn(),
+    },
   } as unknown as PrismaClient,
   mockMatchingService: {
     placeOrder: vi.fn(),
+    cancelOrder: vi.fn(),
+    cancelAllOrders: vi.fn(),
   },
 }));
 
@@ -61,8 +71,13 @@ function makeHeaders(
     userAddress: string;
     side: string;
     outcome: string;
-    price: number;
+    price?: number;
     quantity: number;
+    orderType?: string;
+    maxCost?: number;
+    timeInForce?: string;
+    postOnly?: boolean;
+    expiresAt?: number;
   },
   ts = Date.now()
 ): Record<string, string> {
@@ -103,6 +118,9 @@ describe("POST /orders – Stellar wallet signature verification", () => {
     (
       mockPrismaClient.market.findUnique as ReturnType<typeof vi.fn>
     ).mockResolvedValue(validMarket);
+    (
+      mockPrismaClient.collateralBalance.findUnique as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({ available: "1000" });
 
     (
       mockMatchingService.placeOrder as ReturnType<typeof vi.fn>
@@ -264,4 +282,285 @@ describe("POST /orders – Stellar wallet signature verification", () => {
 
     expect(response.statusCode).toBe(401);
   });
+
+  it("should accept a GTT order whose signature covers the time-in-force fields", async () => {
+    const gttBody = {
+      ...validBody,
+      timeInForce: "GTT",
+      postOnly: true,
+      expiresAt: Date.now() + 60_000,
+    };
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/orders",
+      headers: makeHeaders(testKeypair, gttBody),
+      payload: gttBody,
+    });
+
+    expect(response.statusCode).toBe(201);
+  });
+
+  it("should accept a MARKET order signed without a price", async () => {
+    const { price: _price, ...rest } = validBody;
+    const marketBody = { ...rest, orderType: "MARKET", maxCost: 40 };
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/orders",
+      headers: makeHeaders(testKeypair, marketBody),
+      payload: marketBody,
+    });
+
+    expect(response.statusCode).toBe(201);
+  });
+
+  it("should return 401 when timeInForce is added to a body signed without it", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/orders",
+      headers: makeHeaders(testKeypair, validBody),
+      payload: { ...validBody, timeInForce: "IOC" },
+    });
+
+    expect(response.statusCode).toBe(401);
+    const body = JSON.parse(response.body);
+    expect(body.error).toContain("Signature verification failed");
+  });
+});
+
+describe("buildSignableMessage", () => {
+  const fields = {
+    marketId: "market-1",
+    outcome: "YES",
+    price: 0.6,
+    quantity: 100,
+    side: "BUY",
+    timestamp: 1_700_000_000_000,
+    userAddress: "GABC",
+  };
+
+  it("should omit time-in-force fields that were not provided", () => {
+    expect(JSON.parse(buildSignableMessage(fields).toString("utf8"))).toEqual(
+      fields
+    );
+  });
+
+  it("should serialise optional fields in sorted key order", () => {
+    const message = buildSignableMessage({
+      ...fields,
+      timeInForce: "GTT",
+      postOnly: false,
+      expiresAt: 1_700_000_060_000,
+      orderType: "MARKET",
+      maxCost: 40,
+    }).toString("utf8");
+
+    expect(Object.keys(JSON.parse(message))).toEqual([
+      "expiresAt",
+      "marketId",
+      "maxCost",
+      "orderType",
+      "outcome",
+      "postOnly",
+      "price",
+      "quantity",
+      "side",
+      "timeInForce",
+      "timestamp",
+      "userAddress",
+    ]);
+  });
+});
+
+describe("DELETE /orders – Stellar wallet cancel signature verification", () => {
+  let app: FastifyInstance;
+  const testKeypair = Keypair.random();
+  const userAddress = testKeypair.publicKey();
+
+  function signCancel(
+    keypair: Keypair,
+    fields: { marketId?: string; orderId?: string },
+    ts = Date.now()
+  ): Record<string, string> {
+    const sig = keypair
+      .sign(
+        buildCancelSignableMessage({
+          marketId: fields.marketId ?? "",
+          orderId: fields.orderId ?? "",
+          timestamp: ts,
+          userAddress,
+        })
+      )
+      .toString("base64");
+    return { "x-signature": sig, "x-timestamp": String(ts) };
+  }
+
+  beforeEach(async () => {
+    clearRateLimitStores();
+    app = Fastify({ logger: false });
+    app.setErrorHandler(errorHandler);
+    await app.register(ordersRoutes);
+    vi.clearAllMocks();
+
+    (
+      mockMatchingService.cancelOrder as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({
+      order: { id: "order-1", userAddress, status: "CANCELLED" },
+    });
+    (
+      mockMatchingService.cancelAllOrders as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({ marketId: "market-1", cancelledOrders: [] });
+  });
+
+  afterEach(async () => {
+    await app.close();
+    clearRateLimitStores();
+  });
+
+  it("should accept a single cancel signed over the order id", async () => {
+    const response = await app.inject({
+      method: "DELETE",
+      url: "/orders/order-1",
+      headers: signCancel(testKeypair, { orderId: "order-1" }),
+      payload: { userAddress },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockMatchingService.cancelOrder).toHaveBeenCalledWith(
+      "order-1",
+      userAddress
+    );
+  });
+
+  it("should reject a single cancel signed over a different order id", async () => {
+    const response = await app.inject({
+      method: "DELETE",
+      url: "/orders/order-1",
+      headers: signCancel(testKeypair, { orderId: "order-2" }),
+      payload: { userAddress },
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(JSON.parse(response.body).error).toContain(
+      "Signature verification failed"
+    );
+    expect(mockMatchingService.cancelOrder).not.toHaveBeenCalled();
+  });
+
+  it("should accept a bulk cancel signed over the market id", async () => {
+    const response = await app.inject({
+      method: "DELETE",
+      url: "/orders",
+      headers: signCancel(testKeypair, { marketId: "market-1" }),
+      payload: { marketId: "market-1", userAddress },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockMatchingService.cancelAllOrders).toHaveBeenCalledWith(
+      "market-1",
+      userAddress
+    );
+  });
+
+  it("should not accept an order placement signature as a cancel", async () => {
+    const ts = Date.now();
+    const sig = testKeypair
+      .sign(
+        buildSignableMessage({
+          marketId: "market-1",
+          userAddress,
+          side: "BUY",
+          outcome: "YES",
+          price: 0.6,
+          quantity: 100,
+          timestamp: ts,
+        })
+      )
+      .toString("base64");
+
+    const response = await app.inject({
+      method: "DELETE",
+      url: "/orders",
+      headers: { "x-signature": sig, "x-timestamp": String(ts) },
+      payload: { marketId: "market-1", userAddress },
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(mockMatchingService.cancelAllOrders).not.toHaveBeenCalled();
+  });
+
+  it("should return 401 when the timestamp is expired", async () => {
+    const response = await app.inject({
+      method: "DELETE",
+      url: "/orders/order-1",
+      headers: signCancel(
+        testKeypair,
+        { orderId: "order-1" },
+        Date.now() - 6 * 60 * 1000
+      ),
+      payload: { userAddress },
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(JSON.parse(response.body).error).toContain("expired");
+  });
+});
+
+describe("verifySubscribeSignature", () => {
+  const keypair = Keypair.random();
+  const userAddress = keypair.publicKey();
+  const channel = `orders:${userAddress}`;
+
+  function sign(fields: { channel: string; timestamp: number }): string {
+    return keypair
+      .sign(buildSubscribeSignableMessage({ ...fields, userAddress }))
+      .toString("base64");
+  }
+
+  it("should accept a fresh signature over the subscribed channel", () => {
+    const timestamp = Date.now();
+
+    expect(
+      verifySubscribeSignature({
+        channel,
+        signature: sign({ channel, timestamp }),
+        timestamp,
+        userAddress,
+      })
+    ).toBeNull();
+  });
+
+  it("should reject a signature made for a different channel", () => {
+    const timestamp = Date.now();
+    const otherWallet = Keypair.random().publicKey();
+
+    expect(
+      verifySubscribeSignature({
+        channel: `orders:${otherWallet}`,
+        signature: sign({ channel, timestamp }),
+        timestamp,
+        userAddress: otherWallet,
+      })
+    ).toBe("Signature verification failed");
+  });
+
+  it("should reject an expired timestamp", () => {
+    const timestamp = Date.now() - 6 * 60 * 1000;
+
+    expect(
+      verifySubscribeSignature({
+        channel,
+        signature: sign({ channel, timestamp }),
+        timestamp,
+        userAddress,
+      })
+    ).toContain("expired");
+  });
+
+  it("should reject a missing signature", () => {
+    expect(
+      verifySubscribeSignature({ channel, timestamp: Date.now(), userAddress })
+    ).toBe("Missing signature");
+  });
 });
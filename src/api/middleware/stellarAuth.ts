@@ -8,22 +8,38 @@ const TIMESTAMP_TOLERANCE_MS = 5 * 60 * 1000; // 5 minutes
  * Builds the canonical UTF-8 message buffer that a user must sign when placing
  * an order.  Keys are sorted alphabetically so the serialisation is deterministic
  * regardless of how the caller constructs the object.
+ *
+ * Optional fields (`expiresAt`, `maxCost`, `orderType`, `postOnly`, `price`,
+ * `timeInForce`) are only serialised when the caller sends them, so a plain
+ * GTC limit order signs exactly the same message it did before the optional
+ * fields existed.
  */
 export function buildSignableMessage(fields: {
+  expiresAt?: number;
   marketId: string;
+  maxCost?: number;
+  orderType?: string;
   outcome: string;
-  price: number;
+  postOnly?: boolean;
+  price?: number;
   quantity: number;
   side: string;
+  timeInForce?: string;
   timestamp: number;
   userAddress: string;
 }): Buffer {
+  // JSON.stringify drops keys whose value is undefined
   const payload = JSON.stringify({
+    expiresAt: fields.expiresAt,
     marketId: fields.marketId,
+    maxCost: fields.maxCost,
+    orderType: fields.orderType,
     outcome: fields.outcome,
+    postOnly: fields.postOnly,
     price: fields.price,
     quantity: fields.quantity,
     side: fields.side,
+    timeInForce: fields.timeInForce,
     timestamp: fields.timestamp,
     userAddress: fields.userAddress,
   });
@@ -31,24 +47,104 @@ export function buildSignableMessage(fields: {
 }
 
 /**
- * Fastify preHandler hook that enforces Stellar wallet ownership before an order
- * is processed.
- *
- * Required headers:
- *   x-signature  – base64-encoded Ed25519 signature of the canonical message
- *   x-timestamp  – milliseconds since Unix epoch (string); must be within ±5 min
- *
- * The canonical message is built from the parsed request body fields combined
- * with the timestamp from the header, so a replay of an identical body with a
- * stale timestamp is rejected even if the signature itself was once valid.
- *
- * Returns HTTP 401 for any authentication failure; delegates all other
- * validation to the route handler.
+ * Builds the canonical UTF-8 message buffer that a user must sign when
+ * cancelling orders.  `orderId` identifies a single order; `marketId` scopes a
+ * bulk cancel of every resting order the wallet holds in that market.  The
+ * unused field is signed as an empty string so the two forms never collide.
  */
-export function verifyStellarSignature(
+export function buildCancelSignableMessage(fields: {
+  marketId: string;
+  orderId: string;
+  timestamp: number;
+  userAddress: string;
+}): Buffer {
+  const payload = JSON.stringify({
+    action: "cancel",
+    marketId: fields.marketId,
+    orderId: fields.orderId,
+    timestamp: fields.timestamp,
+    userAddress: fields.userAddress,
+  });
+  return Buffer.from(payload, "utf8");
+}
+
+/**
+ * Builds the canonical UTF-8 message buffer that a user must sign to
+ * subscribe to a private WebSocket feed channel such as `orders:<wallet>`.
+ */
+export function buildSubscribeSignableMessage(fields: {
+  channel: string;
+  timestamp: number;
+  userAddress: string;
+}): Buffer {
+  const payload = JSON.stringify({
+    action: "subscribe",
+    channel: fields.channel,
+    timestamp: fields.timestamp,
+    userAddress: fields.userAddress,
+  });
+  return Buffer.from(payload, "utf8");
+}
+
+/**
+ * Builds the canonical UTF-8 message buffer that a wallet must sign to
+ * challenge a market's proposed resolution. `evidenceUrl` is only serialised
+ * when the caller sends it.
+ */
+export function buildChallengeSignableMessage(fields: {
+  evidenceUrl?: string;
+  marketId: string;
+  reason: string;
+  timestamp: number;
+  userAddress: string;
+}): Buffer {
+  const payload = JSON.stringify({
+    action: "challenge",
+    evidenceUrl: fields.evidenceUrl,
+    marketId: fields.marketId,
+    reason: fields.reason,
+    timestamp: fields.timestamp,
+    userAddress: fields.userAddress,
+  });
+  return Buffer.from(payload, "utf8");
+}
+
+/** True when `timestamp` is within the allowed clock skew of now. */
+function isTimestampFresh(timestamp: number): boolean {
+  return Math.abs(Date.now() - timestamp) <= TIMESTAMP_TOLERANCE_MS;
+}
+
+/**
+ * Verifies a base64 Ed25519 signature over `message` by `userAddress`.
+ * Returns an error message, or null when the signature is valid.
+ */
+function checkSignature(
+  userAddress: string,
+  signature: string,
+  message: Buffer
+): string | null {
+  try {
+    const keypair = Keypair.fromPublicKey(userAddress);
+    const sigBytes = Buffer.from(signature, "base64");
+    return keypair.verify(message, sigBytes)
+      ? null
+      : "Signature verification failed";
+  } catch {
+    return "Invalid signature or userAddress";
+  }
+}
+
+/**
+ * Shared header, timestamp and signature checks for signed wallet requests.
+ * `buildMessage` receives the validated timestamp and returns the canonical
+ * bytes the wallet is expected to have signed.
+ */
+function verifySignedRequest(
   request: FastifyRequest,
   reply: FastifyReply,
-  done: () => void
+  done: () => void,
+  userAddress: string | undefined,
+  buildMessage: (timestamp: number) => Buffer
 ): void {
   const rawSig = request.headers["x-signature"];
   const rawTs = request.headers["x-timestamp"];
@@ -69,11 +165,49 @@ export function verifyStellarSignature(
     return;
   }
 
-  if (Math.abs(Date.now() - timestamp) > TIMESTAMP_TOLERANCE_MS) {
+  if (!isTimestampFresh(timestamp)) {
     unauthorized(reply, "Request timestamp is expired");
     return;
   }
 
+  if (!userAddress) {
+    unauthorized(reply, "Missing userAddress in request body");
+    return;
+  }
+
+  const signatureError = checkSignature(
+    userAddress,
+    rawSig,
+    buildMessage(timestamp)
+  );
+  if (signatureError) {
+    unauthorized(reply, signatureError);
+    return;
+  }
+
+  done();
+}
+
+/**
+ * Fastify preHandler hook that enforces Stellar wallet ownership before an order
+ * is processed.
+ *
+ * Required headers:
+ *   x-signature  – base64-encoded Ed25519 signature of the canonical message
+ *   x-timestamp  – milliseconds since Unix epoch (string); must be within ±5 min
+ *
+ * The canonical message is built from the parsed request body fields combined
+ * with the timestamp from the header, so a replay of an identical body with a
+ * stale timestamp is rejected even if the signature itself was once valid.
+ *
+ * Returns HTTP 401 for any authentication failure; delegates all other
+ * validation to the route handler.
+ */
+export function verifyStellarSignature(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  done: () => void
+): void {
   // Body is guaranteed to be parsed and schema-validated before preHandler runs.
   const body = request.body as {
     marketId?: string;
@@ -82,36 +216,130 @@ export function verifyStellarSignature(
     outcome?: string;
     price?: number;
     quantity?: number;
+    timeInForce?: string;
+    postOnly?: boolean;
+    expiresAt?: number;
+    orderType?: string;
+    maxCost?: number;
   } | null;
 
   const userAddress = body?.userAddress;
-  if (!userAddress) {
-    unauthorized(reply, "Missing userAddress in request body");
-    return;
-  }
 
-  try {
-    const keypair = Keypair.fromPublicKey(userAddress);
-    const message = buildSignableMessage({
+  verifySignedRequest(request, reply, done, userAddress, (timestamp) =>
+    buildSignableMessage({
+      expiresAt: body?.expiresAt,
       marketId: body?.marketId ?? "",
+      maxCost: body?.maxCost,
+      orderType: body?.orderType,
       outcome: body?.outcome ?? "",
-      price: body?.price ?? 0,
+      postOnly: body?.postOnly,
+      price: body?.price,
       quantity: body?.quantity ?? 0,
       side: body?.side ?? "",
+      timeInForce: body?.timeInForce,
       timestamp,
-      userAddress,
-    });
-    const sigBytes = Buffer.from(rawSig, "base64");
-    const isValid = keypair.verify(message, sigBytes);
-
-    if (!isValid) {
-      unauthorized(reply, "Signature verification failed");
-      return;
-    }
-  } catch {
-    unauthorized(reply, "Invalid signature or userAddress");
-    return;
+      userAddress: userAddress ?? "",
+    })
+  );
+}
+
+/**
+ * Fastify preHandler hook for order cancellation routes.  Uses the same
+ * headers and timestamp tolerance as `verifyStellarSignature`, but verifies
+ * the signature against `buildCancelSignableMessage` built from the `:id`
+ * route param (single cancel) or the body `marketId` (bulk cancel).
+ */
+export function verifyStellarCancelSignature(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  done: () => void
+): void {
+  const params = request.params as { id?: string } | null;
+  const body = request.body as {
+    marketId?: string;
+    userAddress?: string;
+  } | null;
+
+  const userAddress = body?.userAddress;
+
+  verifySignedRequest(request, reply, done, userAddress, (timestamp) =>
+    buildCancelSignableMessage({
+      marketId: body?.marketId ?? "",
+      orderId: params?.id ?? "",
+      timestamp,
+      userAddress: userAddress ?? "",
+    })
+  );
+}
+
+/**
+ * Fastify preHandler hook for resolution challenges. Verifies the signature
+ * against `buildChallengeSignableMessage` built from the `:id` route param
+ * and the body, so a challenge cannot be replayed against another market.
+ */
+export function verifyStellarChallengeSignature(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  done: () => void
+): void {
+  const params = request.params as { id?: string } | null;
+  const body = request.body as {
+    evidenceUrl?: string;
+    reason?: string;
+    userAddress?: string;
+  } | null;
+
+  const userAddress = body?.userAddress;
+
+  verifySignedRequest(request, reply, done, userAddress, (timestamp) =>
+    buildChallengeSignableMessage({
+      evidenceUrl: body?.evidenceUrl,
+      marketId: params?.id ?? "",
+      reason: body?.reason ?? "",
+      timestamp,
+      userAddress: userAddress ?? "",
+    })
+  );
+}
+
+/**
+ * Verifies a signed subscription to a private feed channel. WebSocket
+ * messages carry no headers, so the signature and timestamp arrive as fields
+ * of the subscribe message instead; the timestamp tolerance is the same as
+ * for signed HTTP requests.
+ *
+ * @returns an error message, or null when the subscription is authorised
+ */
+export function verifySubscribeSignature(fields: {
+  channel: string;
+  signature?: unknown;
+  timestamp?: unknown;
+  userAddress: string;
+}): string | null {
+  if (typeof fields.signature !== "string" || fields.signature === "") {
+    return "Missing signature";
   }
 
-  done();
+  const timestamp = fields.timestamp;
+  if (
+    typeof timestamp !== "number" ||
+    !Number.isFinite(timestamp) ||
+    timestamp <= 0
+  ) {
+    return "Missing or invalid timestamp";
+  }
+
+  if (!isTimestampFresh(timestamp)) {
+    return "Subscription timestamp is expired";
+  }
+
+  return checkSignature(
+    fields.userAddress,
+    fields.signature,
+    buildSubscribeSignableMessage({
+      channel: fields.channel,
+      timestamp,
+      userAddress: fields.userAddress,
+    })
+  );
 }
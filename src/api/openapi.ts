@@ -108,7 +108,8 @@ export const openApiSpec = {
     "/v1/markets": {
       get: {
         summary: "List markets",
-        description: "Retrieve a paginated list of prediction markets",
+        description:
+          "Retrieve a paginated list of prediction markets with their trading statistics",
         tags: ["Markets"],
         parameters: [
           {
@@ -117,9 +118,31 @@ export const openApiSpec = {
             description: "Filter by market status",
             schema: {
               type: "string",
-              enum: ["ACTIVE", "RESOLVED", "CANCELLED"],
+              enum: ["ACTIVE", "CLOSED", "RESOLVED", "CANCELLED"],
+            },
+          },
+          {
+            name: "sort",
+            in: "query",
+            description:
+              "Field to sort by; volume is total shares traded and openInterest the complete sets outstanding",
+            schema: {
+              type: "string",
+              enum: [
+                "createdAt",
+                "endTime",
+                "volume",
+                "volume24h",
+                "openInterest",
+              ],
+              default: "createdAt",
             },
           },
+          {
+            name: "direction",
+            in: "query",
+            schema: { type: "string", enum: ["asc", "desc"], default: "desc" },
+          },
           {
             name: "limit",
             in: "query",
@@ -142,7 +165,8 @@ export const openApiSpec = {
     "/v1/markets/{id}": {
       get: {
         summary: "Market details",
-        description: "Retrieve a single market by ID",
+        description:
+          "Retrieve a single market by ID with its volume, open interest, quotes and implied probability",
         tags: ["Markets"],
         parameters: [
           {
@@ -185,6 +209,202 @@ export const openApiSpec = {
         },
       },
     },
+    "/v1/markets/{id}/candles": {
+      get: {
+        summary: "Market candles",
+        description:
+          "OHLCV candles of one outcome's trades, oldest first: the latest `limit` candles in the window. Intervals without trades have no candle.",
+        tags: ["Markets"],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+          {
+            name: "interval",
+            in: "query",
+            required: true,
+            schema: { type: "string", enum: ["1m", "5m", "1h", "1d"] },
+          },
+          {
+            name: "outcome",
+            in: "query",
+            schema: { type: "string", enum: ["YES", "NO"], default: "YES" },
+          },
+          {
+            name: "from",
+            in: "query",
+            schema: { type: "string", format: "date-time" },
+            description:
+              "Only candles whose interval contains or follows this time",
+          },
+          {
+            name: "to",
+            in: "query",
+            schema: { type: "string", format: "date-time" },
+            description: "Only candles starting at or before this time",
+          },
+          {
+            name: "limit",
+            in: "query",
+            schema: {
+              type: "integer",
+              minimum: 1,
+              maximum: 1000,
+              default: 500,
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Market candles",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    marketId: { type: "string" },
+                    outcome: { type: "string" },
+                    interval: { type: "string" },
+                    candles: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/Candle" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "400": { description: "Invalid query parameters" },
+          "404": { description: "Market not found" },
+        },
+      },
+    },
+    "/v1/markets/{id}/trades": {
+      get: {
+        summary: "Market trade tape",
+        description:
+          "Trades of a market, newest first, with cursor pagination. Pass the returned nextCursor as cursor to fetch the next page.",
+        tags: ["Markets"],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+          {
+            name: "outcome",
+            in: "query",
+            schema: { type: "string", enum: ["YES", "NO"] },
+          },
+          {
+            name: "cursor",
+            in: "query",
+            schema: { type: "string" },
+          },
+          {
+            name: "limit",
+            in: "query",
+            schema: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "A page of the trade tape",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    marketId: { type: "string" },
+                    trades: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/MarketTrade" },
+                    },
+                    nextCursor: { type: ["string", "null"] },
+                    hasNext: { type: "boolean" },
+                    limit: { type: "number" },
+                  },
+                },
+              },
+            },
+          },
+          "400": { description: "Invalid query parameters or cursor" },
+          "404": { description: "Market not found" },
+        },
+      },
+    },
+    "/v1/markets/{id}/resolution/challenges": {
+      post: {
+        summary: "Challenge a proposed resolution",
+        description:
+          "Dispute the market's latest PROPOSED resolution candidate while its challenge window is open. The candidate moves to CHALLENGED and is not finalized until an admin adjudicates. Requires Stellar wallet ownership proof via Ed25519 signature headers.",
+        tags: ["Markets"],
+        parameters: [
+          {
+            name: "x-signature",
+            in: "header",
+            required: true,
+            description:
+              "Base64-encoded Ed25519 signature of the canonical challenge message (action, evidenceUrl when sent, marketId, reason, timestamp, userAddress; keys sorted alphabetically), signed by the private key of userAddress.",
+            schema: { type: "string" },
+          },
+          {
+            name: "x-timestamp",
+            in: "header",
+            required: true,
+            description:
+              "Unix timestamp in milliseconds (string). Must be within ±5 minutes of server time to prevent replay attacks.",
+            schema: { type: "string" },
+          },
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["userAddress", "reason"],
+                properties: {
+                  userAddress: { type: "string" },
+                  reason: { type: "string", maxLength: 2000 },
+                  evidenceUrl: {
+                    type: "string",
+                    format: "uri",
+                    maxLength: 2048,
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Challenge recorded",
+          },
+          "400": {
+            description:
+              "Invalid request body or the challenge window has closed",
+          },
+          "401": {
+            description:
+              "Missing, expired, or invalid x-signature / x-timestamp headers",
+          },
+          "404": {
+            description: "Market not found or has no proposed resolution",
+          },
+        },
+      },
+    },
     "/v1/orders": {
       post: {
         summary: "Create an order",
@@ -197,7 +417,7 @@ export const openApiSpec = {
             in: "header",
             required: true,
             description:
-              "Base64-encoded Ed25519 signature of the canonical request body JSON (keys sorted alphabetically) combined with x-timestamp, signed by the private key of userAddress.",
+              "Base64-encoded Ed25519 signature of the canonical request body JSON (keys sorted alphabetically) combined with x-timestamp, signed by the private key of userAddress. orderType, price, maxCost, timeInForce, postOnly and expiresAt are part of the signed message only when sent.",
             schema: { type: "string" },
           },
           {
@@ -220,7 +440,6 @@ export const openApiSpec = {
                   "userAddress",
                   "side",
                   "outcome",
-                  "price",
                   "quantity",
                 ],
                 properties: {
@@ -238,15 +457,49 @@ export const openApiSpec = {
                     type: "string",
                     enum: ["YES", "NO"],
                   },
+                  orderType: {
+                    type: "string",
+                    enum: ["LIMIT", "MARKET"],
+                    default: "LIMIT",
+                    description:
+                      "MARKET orders sweep the opposite side immediately and never rest. They default to IOC and accept only IOC or FOK.",
+                  },
                   price: {
                     type: "number",
                     minimum: 0,
                     maximum: 1,
+                    description:
+                      "Limit price. Required for LIMIT orders. For MARKET orders, the worst acceptable price; required unless maxCost is set.",
+                  },
+                  maxCost: {
+                    type: "number",
+                    exclusiveMinimum: 0,
+                    description:
+                      "MARKET BUY only. Maximum total cost (sum of price × quantity) the order may spend.",
                   },
                   quantity: {
                     type: "integer",
                     minimum: 1,
                   },
+                  timeInForce: {
+                    type: "string",
+                    enum: ["GTC", "IOC", "FOK", "GTT"],
+                    default: "GTC",
+                    description:
+                      "GTC rests until filled or cancelled. IOC fills what it can and cancels the rest. FOK fills completely or is cancelled without trading. GTT rests until expiresAt.",
+                  },
+                  postOnly: {
+                    type: "boolean",
+                    default: false,
+                    description:
+                      "Reject the order with 400 if it would trade on arrival. Only valid with GTC or GTT.",
+                  },
+                  expiresAt: {
+                    type: "integer",
+                    minimum: 1,
+                    description:
+                      "Expiry as Unix milliseconds. Required for GTT orders and rejected for every other time-in-force.",
+                  },
                 },
               },
             },
@@ -254,10 +507,63 @@ export const openApiSpec = {
         },
         responses: {
           "201": {
-            description: "Order created",
+            description:
+              "Order accepted. IOC, FOK and MARKET orders that did not fill completely are returned with status CANCELLED. `receipt` and `tradeReceipts` are Ed25519 receipts for the order and each trade, signed with the operator key.",
+          },
+          "400": {
+            description:
+              "Invalid request body, market not active, invalid time-in-force combination, or post-only order would cross",
+          },
+          "401": {
+            description:
+              "Missing, expired, or invalid x-signature / x-timestamp headers",
+          },
+        },
+      },
+      delete: {
+        summary: "Cancel all orders in a market",
+        description:
+          "Cancel every OPEN or PARTIALLY_FILLED order the wallet holds in a market, across both outcome books. The signed message uses the market ID and an empty order ID.",
+        tags: ["Orders"],
+        parameters: [
+          {
+            name: "x-signature",
+            in: "header",
+            required: true,
+            description:
+              "Base64-encoded Ed25519 signature of the canonical cancel message (action, marketId, orderId, timestamp, userAddress; keys sorted alphabetically), signed by the private key of userAddress.",
+            schema: { type: "string" },
+          },
+          {
+            name: "x-timestamp",
+            in: "header",
+            required: true,
+            description:
+              "Unix timestamp in milliseconds (string). Must be within ±5 minutes of server time to prevent replay attacks.",
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["marketId", "userAddress"],
+                properties: {
+                  marketId: { type: "string" },
+                  userAddress: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Orders cancelled (may be an empty list)",
           },
           "400": {
-            description: "Invalid request body or market not active",
+            description: "Invalid request body",
           },
           "401": {
             description:
@@ -265,142 +571,1563 @@ export const openApiSpec = {
           },
         },
       },
-    },
-    "/v1/orders/user/{address}": {
-      get: {
-        summary: "User orders",
-        description: "Retrieve orders submitted by a user",
-        tags: ["Orders"],
+    },
+    "/v1/orders/{id}": {
+      delete: {
+        summary: "Cancel an order",
+        description:
+          "Cancel a single resting order. The order is removed from the in-memory book and marked CANCELLED. The signed message uses the order ID and an empty market ID.",
+        tags: ["Orders"],
+        parameters: [
+          {
+            name: "x-signature",
+            in: "header",
+            required: true,
+            description:
+              "Base64-encoded Ed25519 signature of the canonical cancel message (action, marketId, orderId, timestamp, userAddress; keys sorted alphabetically), signed by the private key of userAddress.",
+            schema: { type: "string" },
+          },
+          {
+            name: "x-timestamp",
+            in: "header",
+            required: true,
+            description:
+              "Unix timestamp in milliseconds (string). Must be within ±5 minutes of server time to prevent replay attacks.",
+            schema: { type: "string" },
+          },
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["userAddress"],
+                properties: {
+                  userAddress: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Order cancelled",
+          },
+          "400": {
+            description: "Invalid request body or order is no longer open",
+          },
+          "401": {
+            description:
+              "Missing, expired, or invalid x-signature / x-timestamp headers",
+          },
+          "403": {
+            description: "Order belongs to a different wallet",
+          },
+          "404": {
+            description: "Order not found",
+          },
+        },
+      },
+    },
+    "/v1/orders/{id}/receipts": {
+      get: {
+        summary: "Order receipts",
+        description:
+          "Retrieve the signed receipt issued when the order was accepted, and the receipts of every trade that filled it as taker or maker.",
+        tags: ["Receipts"],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Order and trade receipts",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    order: {
+                      $ref: "#/components/schemas/SignedOrderReceipt",
+                    },
+                    trades: {
+                      type: "array",
+                      items: {
+                        $ref: "#/components/schemas/SignedTradeReceipt",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "404": {
+            description: "No receipt was issued for the order",
+          },
+        },
+      },
+    },
+    "/v1/orders/user/{address}": {
+      get: {
+        summary: "User orders",
+        description: "Retrieve orders submitted by a user",
+        tags: ["Orders"],
+        parameters: [
+          {
+            name: "address",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "User orders",
+          },
+        },
+      },
+    },
+    "/v1/trades/user/{address}": {
+      get: {
+        summary: "User trade history",
+        description:
+          "Retrieve trade history for a wallet. Each trade carries its on-chain `settlement` (status, txHash, ledger, attempts, lastError, updatedAt), or null for trades recorded before settlement tracking.",
+        tags: ["Trades"],
+        parameters: [
+          {
+            name: "address",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "User trades",
+          },
+        },
+      },
+    },
+    "/v1/receipts/public-key": {
+      get: {
+        summary: "Operator public key",
+        description:
+          "The Stellar public key whose Ed25519 signatures appear on order and trade receipts.",
+        tags: ["Receipts"],
+        responses: {
+          "200": {
+            description: "Operator public key",
+          },
+        },
+      },
+    },
+    "/v1/receipts/verify": {
+      post: {
+        summary: "Verify a receipt",
+        description:
+          "Check a receipt's signature. Send a SignedOrderReceipt or a SignedTradeReceipt as returned by the API. `isOperatorKey` tells whether the receipt was signed by this operator's current key.",
+        tags: ["Receipts"],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                oneOf: [
+                  { $ref: "#/components/schemas/SignedOrderReceipt" },
+                  { $ref: "#/components/schemas/SignedTradeReceipt" },
+                ],
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Verification result (isValid, isOperatorKey, error)",
+          },
+          "400": {
+            description: "Neither or both of orderData and tradeData sent",
+          },
+        },
+      },
+    },
+    "/v1/stream": {
+      get: {
+        summary: "Real-time feed",
+        description:
+          "WebSocket endpoint for live market data. Send " +
+          '`{"op":"subscribe","channel":"..."}` to join a channel: ' +
+          "`book:<marketId>` (depth snapshot, then incremental level " +
+          "updates for both outcomes), `trades:<marketId>` (public trades) " +
+          "or `orders:<wallet>` (order status and fill updates; requires " +
+          "`timestamp` and a base64 `signature` over the canonical subscribe " +
+          "message). Every message carries a per-channel `seq`; on a gap, " +
+          "subscribe again to resync. See docs/websocket-feed.md.",
+        tags: ["Streaming"],
+        responses: {
+          "101": {
+            description: "Switching Protocols — WebSocket established",
+          },
+          "426": {
+            description:
+              "Upgrade Required — request was not a WebSocket upgrade",
+          },
+        },
+      },
+    },
+    "/v1/wallets/{wallet}/positions": {
+      get: {
+        summary: "Wallet positions",
+        description:
+          "Retrieve position exposures for a wallet. Set includePnl=true to also compute realized/unrealized PnL (this is the canonical replacement for the deprecated /positions/user/:address endpoint).",
+        tags: ["Positions"],
+        parameters: [
+          {
+            name: "wallet",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+            description:
+              "Stellar public key (StrKey): starts with G and is 56 chars using [A-Z2-7]",
+          },
+          {
+            name: "includePnl",
+            in: "query",
+            required: false,
+            schema: { type: "boolean", default: false },
+            description:
+              "When true, computes and includes realized/unrealized PnL per position and in the response summary.",
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Wallet positions",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/WalletPositionsResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/wallets/{wallet}/positions/{marketId}": {
+      get: {
+        summary: "Single market position",
+        description:
+          "Retrieve the position exposure for a wallet in a specific market. Returns 404 if no position exists.",
+        tags: ["Positions"],
+        parameters: [
+          {
+            name: "wallet",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+            description:
+              "Stellar public key (StrKey): starts with G and is 56 chars using [A-Z2-7]",
+          },
+          {
+            name: "marketId",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+            description: "Market ID to fetch position for",
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Single market position",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    wallet: { type: "string" },
+                    marketId: { type: "string" },
+                    position: {
+                      $ref: "#/components/schemas/WalletExposureRow",
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "404": {
+            description: "No position found for the given wallet and market",
+          },
+        },
+      },
+    },
+    "/v1/wallets/{wallet}/portfolio/history": {
+      get: {
+        summary: "Wallet portfolio history",
+        description:
+          "Time series of a wallet's portfolio value, cost basis and PnL, per market and in total, from the position snapshots the snapshot worker writes. Holdings that could not be priced are valued at cost.",
+        tags: ["Positions"],
+        parameters: [
+          {
+            name: "wallet",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+            description:
+              "Stellar public key (StrKey): starts with G and is 56 chars using [A-Z2-7]",
+          },
+          {
+            name: "from",
+            in: "query",
+            schema: { type: "string", format: "date-time" },
+            description:
+              "Start of the window (inclusive). Defaults to 30 days before to.",
+          },
+          {
+            name: "to",
+            in: "query",
+            schema: { type: "string", format: "date-time" },
+            description: "End of the window (inclusive). Defaults to now.",
+          },
+          {
+            name: "marketId",
+            in: "query",
+            schema: { type: "string" },
+            description: "Only include this market",
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Portfolio history",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/PortfolioHistoryResponse",
+                },
+              },
+            },
+          },
+          "400": {
+            description:
+              "Invalid wallet, from after to, or a window over 365 days",
+          },
+        },
+      },
+    },
+    "/v1/wallets/{wallet}/balances": {
+      get: {
+        summary: "Wallet collateral balances",
+        description:
+          "Retrieve a wallet's collateral per market: available to new orders and reserved by resting bids. Balances are credited by indexed on-chain deposits and debited by withdrawals.",
+        tags: ["Balances"],
+        parameters: [
+          {
+            name: "wallet",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+            description:
+              "Stellar public key (StrKey): starts with G and is 56 chars using [A-Z2-7]",
+          },
+          {
+            name: "marketId",
+            in: "query",
+            required: false,
+            schema: { type: "string" },
+            description: "Only return the balance held in this market",
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Wallet collateral balances",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/WalletBalancesResponse",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/v1/admin/markets": {
+      get: {
+        summary: "Admin market listing",
+        description:
+          "List all markets including CANCELLED ones. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        responses: {
+          "200": {
+            description: "Admin market list",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+      post: {
+        summary: "Create market",
+        description:
+          "Create an ACTIVE market. The creation is recorded as the market's first status transition, attributed to `actor`. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["question", "endTime", "oracleAddress", "actor"],
+                properties: {
+                  question: { type: "string" },
+                  endTime: {
+                    type: "string",
+                    format: "date-time",
+                    description: "Must be in the future",
+                  },
+                  oracleAddress: {
+                    type: "string",
+                    description: "Stellar public key of the market's oracle",
+                  },
+                  metadata: {
+                    type: "object",
+                    description: "Free-form attributes stored with the market",
+                  },
+                  actor: {
+                    type: "string",
+                    description: "Admin creating the market",
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Market created",
+          },
+          "400": {
+            description: "Invalid request or endTime not in the future",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+    },
+    "/v1/admin/markets/{id}/status": {
+      patch: {
+        summary: "Update market status",
+        description:
+          "Move a market along an allowed lifecycle edge: ACTIVE to CLOSED (halts trading), ACTIVE or CLOSED to RESOLVED (requires `outcome`), or ACTIVE or CLOSED to CANCELLED. Leaving ACTIVE cancels every open order in the market. RESOLVED and CANCELLED are terminal. Each change is recorded with `actor` and `reason`. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["status", "actor", "reason"],
+                properties: {
+                  status: {
+                    type: "string",
+                    enum: ["ACTIVE", "CLOSED", "RESOLVED", "CANCELLED"],
+                  },
+                  outcome: {
+                    type: "boolean",
+                    description:
+                      "Winning outcome (true = YES); required for RESOLVED only",
+                  },
+                  actor: {
+                    type: "string",
+                    description: "Admin making the change",
+                  },
+                  reason: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Market updated",
+          },
+          "400": {
+            description:
+              "Invalid request, transition not allowed, or missing outcome",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+          "404": {
+            description: "Market not found",
+          },
+        },
+      },
+    },
+    "/v1/admin/markets/{id}/resolution": {
+      post: {
+        summary: "Submit a manual resolution",
+        description:
+          "Propose the outcome of an ended MANUAL-source market (one whose oracle address maps to the MANUAL oracle source). The outcome is signed with the oracle key and stored as an OracleReport and a PROPOSED ResolutionCandidate with source `manual`, the operator address and the supporting evidence. It can be challenged during the normal challenge window and is finalized by the FinalizationJob afterwards. Repeating the same submission (market, operator and outcome) returns the existing candidate. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["outcome", "operatorAddress", "evidence"],
+                properties: {
+                  outcome: {
+                    type: "boolean",
+                    description: "Proposed winning outcome (true = YES)",
+                  },
+                  operatorAddress: {
+                    type: "string",
+                    description: "Stellar address of the submitting operator",
+                  },
+                  evidence: {
+                    type: "string",
+                    minLength: 1,
+                    maxLength: 4000,
+                    description: "URL or text supporting the outcome",
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description:
+              "Candidate proposed; returns the candidate, its OracleReport, the signed report and the challenge window",
+          },
+          "200": {
+            description:
+              "Repeated submission; returns the existing candidate and its challenge window",
+          },
+          "400": {
+            description:
+              "Invalid request, market not MANUAL-source, not ended, already resolved, or with a pending candidate",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+          "404": {
+            description: "Market not found",
+          },
+          "503": {
+            description: "ORACLE_SECRET_KEY is not configured",
+          },
+        },
+      },
+      patch: {
+        summary: "Correct or override a resolution",
+        description:
+          "Supersede a RESOLVED market's ACTIVE resolution with one for the other outcome. CORRECT marks the old row CORRECTED, OVERRIDE marks it OVERRIDDEN; both record the previous outcome, `actor` and `reason` in its correction metadata. Market.outcome is flipped, settled positions' payouts and realized PnL are recomputed, and a compensation job is enqueued for every position whose payout changed. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["action", "outcome", "actor", "reason"],
+                properties: {
+                  action: { type: "string", enum: ["CORRECT", "OVERRIDE"] },
+                  outcome: {
+                    type: "boolean",
+                    description:
+                      "New winning outcome (true = YES); must differ from the current one",
+                  },
+                  actor: {
+                    type: "string",
+                    description: "Admin making the change",
+                  },
+                  reason: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description:
+              "Resolution superseded; returns the new and superseded resolutions and per-position adjustments",
+          },
+          "400": {
+            description:
+              "Invalid request, market not RESOLVED, or outcome unchanged",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+          "404": {
+            description: "Market not found or has no finalized resolution",
+          },
+        },
+      },
+    },
+    "/v1/admin/markets/{id}/transitions": {
+      get: {
+        summary: "Market status history",
+        description:
+          "Every status transition of a market, oldest first, with actor and reason. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Status transitions",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+          "404": {
+            description: "Market not found",
+          },
+        },
+      },
+    },
+    "/v1/admin/challenges": {
+      get: {
+        summary: "List resolution challenges",
+        description:
+          "Resolution challenges with their candidates, newest first. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "marketId",
+            in: "query",
+            required: false,
+            schema: { type: "string" },
+          },
+          {
+            name: "pending",
+            in: "query",
+            required: false,
+            description:
+              "true for challenges awaiting adjudication, false for adjudicated ones",
+            schema: { type: "boolean" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Resolution challenges",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+    },
+    "/v1/admin/challenges/{id}/adjudication": {
+      post: {
+        summary: "Adjudicate a resolution challenge",
+        description:
+          "ACCEPT upholds the challenge: the candidate is rejected and the market waits for a new one. REJECT dismisses the challenge: the candidate is finalized and the market resolves with its proposed outcome. The decision is recorded on the challenge with `actor` and `reason`. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["decision", "actor", "reason"],
+                properties: {
+                  decision: { type: "string", enum: ["ACCEPT", "REJECT"] },
+                  actor: {
+                    type: "string",
+                    description: "Admin making the decision",
+                  },
+                  reason: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Challenge adjudicated",
+          },
+          "400": {
+            description:
+              "Invalid request, challenge already adjudicated, or market cannot be resolved",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+          "404": {
+            description: "Challenge not found",
+          },
+        },
+      },
+    },
+    "/v1/admin/dead-letters/{queue}": {
+      get: {
+        summary: "List dead letters",
+        description:
+          "Dead-lettered jobs of one queue, newest first. Pass `nextCursor` back as `cursor` for the next page. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            schema: {
+              type: "string",
+              enum: ["settlement", "oracle-submission"],
+            },
+          },
+          {
+            name: "reason",
+            in: "query",
+            required: false,
+            description: "Case-insensitive substring of the failure reason",
+            schema: { type: "string" },
+          },
+          {
+            name: "from",
+            in: "query",
+            required: false,
+            schema: { type: "string", format: "date-time" },
+          },
+          {
+            name: "to",
+            in: "query",
+            required: false,
+            schema: { type: "string", format: "date-time" },
+          },
+          {
+            name: "cursor",
+            in: "query",
+            required: false,
+            schema: { type: "string" },
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            schema: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "A page of dead letters",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+    },
+    "/v1/admin/dead-letters/{queue}/{id}": {
+      get: {
+        summary: "Get a dead letter",
+        description:
+          "One dead letter with its original payload. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            schema: {
+              type: "string",
+              enum: ["settlement", "oracle-submission"],
+            },
+          },
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "Stream entry ID",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Dead letter",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+          "404": {
+            description: "Dead letter not found",
+          },
+        },
+      },
+    },
+    "/v1/admin/dead-letters/{queue}/replay": {
+      post: {
+        summary: "Replay dead letters",
+        description:
+          "Requeue dead letters on the stream their worker consumes and remove them from the dead-letter stream. Trades whose settlement idempotency key is set and markets with a submission in flight are skipped and left in place. Every replay is recorded in the audit trail. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            schema: {
+              type: "string",
+              enum: ["settlement", "oracle-submission"],
+            },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["ids", "actor"],
+                properties: {
+                  ids: {
+                    type: "array",
+                    items: { type: "string" },
+                    minItems: 1,
+                    maxItems: 500,
+                  },
+                  actor: { type: "string" },
+                  reason: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Per-entry replay results",
+          },
+          "400": {
+            description: "Invalid request",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+    },
+    "/v1/admin/dead-letters/{queue}/purge": {
+      post: {
+        summary: "Purge dead letters",
+        description:
+          "Delete dead letters by `ids` or every entry older than `before`; exactly one is required. A copy of each purged entry is kept in the audit trail. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "queue",
+            in: "path",
+            required: true,
+            schema: {
+              type: "string",
+              enum: ["settlement", "oracle-submission"],
+            },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["actor", "reason"],
+                properties: {
+                  ids: {
+                    type: "array",
+                    items: { type: "string" },
+                    minItems: 1,
+                    maxItems: 500,
+                  },
+                  before: { type: "string", format: "date-time" },
+                  actor: { type: "string" },
+                  reason: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Purged entry IDs",
+          },
+          "400": {
+            description: "Invalid request",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+    },
+    "/v1/admin/dead-letter-audits": {
+      get: {
+        summary: "List dead-letter audits",
+        description:
+          "Replays and purges of dead letters, newest first. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "queue",
+            in: "query",
+            required: false,
+            schema: {
+              type: "string",
+              enum: ["settlement", "oracle-submission"],
+            },
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            schema: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Audit records",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+    },
+    "/v1/admin/settlements/stuck": {
+      get: {
+        summary: "List stuck settlements",
+        description:
+          "Trade settlements that are not CONFIRMED and have not changed for `olderThanSeconds`, oldest first. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "olderThanSeconds",
+            in: "query",
+            required: false,
+            schema: { type: "integer", minimum: 0, default: 300 },
+          },
+          {
+            name: "status",
+            in: "query",
+            required: false,
+            schema: {
+              type: "string",
+              enum: ["QUEUED", "SUBMITTED", "FAILED", "DEAD_LETTERED"],
+            },
+          },
+          {
+            name: "marketId",
+            in: "query",
+            required: false,
+            schema: { type: "string" },
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            schema: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Stuck settlements",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+    },
+    "/v1/admin/reconciliation/trades": {
+      get: {
+        summary: "Trade reconciliation report",
+        description:
+          "Discrepancies between CLOB trades and indexed on-chain trades found by the reconciliation worker, newest first, with the number still open per kind. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "kind",
+            in: "query",
+            required: false,
+            schema: {
+              type: "string",
+              enum: [
+                "MISSING_ON_CHAIN",
+                "MISSING_OFF_CHAIN",
+                "PRICE_MISMATCH",
+                "QUANTITY_MISMATCH",
+              ],
+            },
+          },
+          {
+            name: "marketId",
+            in: "query",
+            required: false,
+            schema: { type: "string" },
+          },
+          {
+            name: "includeResolved",
+            in: "query",
+            required: false,
+            schema: { type: "boolean", default: false },
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            schema: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Open counts and discrepancies",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+    },
+    "/v1/admin/positions/drift": {
+      get: {
+        summary: "List position drift",
+        description:
+          "Positions whose stored shares or locked collateral differ from the values recomputed from CLOB and indexed trades, newest first. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "marketId",
+            in: "query",
+            required: false,
+            schema: { type: "string" },
+          },
+          {
+            name: "userAddress",
+            in: "query",
+            required: false,
+            schema: { type: "string" },
+          },
+          {
+            name: "includeResolved",
+            in: "query",
+            required: false,
+            schema: { type: "boolean", default: false },
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            schema: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Drifting positions",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+    },
+    "/v1/admin/positions/drift/repair": {
+      post: {
+        summary: "Repair position drift",
+        description:
+          "Overwrite drifting positions with their recomputed values. A position that changed since the drift was recorded is skipped as STALE. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["ids", "actor", "reason"],
+                properties: {
+                  ids: {
+                    type: "array",
+                    minItems: 1,
+                    maxItems: 500,
+                    items: { type: "string" },
+                  },
+                  actor: { type: "string" },
+                  reason: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Per-drift repair results",
+          },
+          "400": {
+            description: "Invalid request body",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+    },
+    "/v1/admin/oracle/source-aliases": {
+      get: {
+        summary: "List oracle source aliases",
+        description:
+          "Aliases that map free-form oracle source strings to a canonical OracleSource, sorted by alias. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "canonicalSource",
+            in: "query",
+            required: false,
+            schema: {
+              type: "string",
+              enum: ["CHAINLINK", "PYTH", "UMA", "API3", "INTERNAL", "MANUAL"],
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Oracle source aliases",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+      post: {
+        summary: "Map an oracle source alias",
+        description:
+          "Map an alias (matched trimmed and case-insensitively) to a canonical OracleSource. Oracle reports and resolution candidates already stored under the alias are re-labelled; the response counts them. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["alias", "canonicalSource"],
+                properties: {
+                  alias: { type: "string" },
+                  canonicalSource: {
+                    type: "string",
+                    enum: [
+                      "CHAINLINK",
+                      "PYTH",
+                      "UMA",
+                      "API3",
+                      "INTERNAL",
+                      "MANUAL",
+                    ],
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Alias created; counts of re-labelled rows",
+          },
+          "400": {
+            description: "Invalid body or alias already mapped",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+    },
+    "/v1/admin/oracle/source-aliases/{id}": {
+      patch: {
+        summary: "Remap an oracle source alias",
+        description:
+          "Point an alias at another canonical OracleSource and re-label the reports and candidates stored under it. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "integer", minimum: 1 },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["canonicalSource"],
+                properties: {
+                  canonicalSource: {
+                    type: "string",
+                    enum: [
+                      "CHAINLINK",
+                      "PYTH",
+                      "UMA",
+                      "API3",
+                      "INTERNAL",
+                      "MANUAL",
+                    ],
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Alias updated; counts of re-labelled rows",
+          },
+          "404": {
+            description: "Alias not found",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
+          },
+        },
+      },
+      delete: {
+        summary: "Remove an oracle source alias",
+        description:
+          "Remove an alias. Reports and candidates stored under it lose their canonical source unless the alias itself names one. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
         parameters: [
           {
-            name: "address",
+            name: "id",
             in: "path",
             required: true,
-            schema: { type: "string" },
+            schema: { type: "integer", minimum: 1 },
           },
         ],
         responses: {
           "200": {
-            description: "User orders",
+            description: "Alias removed; counts of re-labelled rows",
+          },
+          "404": {
+            description: "Alias not found",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
           },
         },
       },
     },
-    "/v1/trades/user/{address}": {
+    "/v1/admin/oracle/reports": {
       get: {
-        summary: "User trade history",
-        description: "Retrieve trade history for a wallet",
-        tags: ["Trades"],
+        summary: "List oracle reports",
+        description:
+          "Oracle reports newest first, filtered by market, status, source and canonical oracle source. `source` matches the stored provider name case-insensitively. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
         parameters: [
           {
-            name: "address",
-            in: "path",
-            required: true,
+            name: "canonicalSource",
+            in: "query",
+            required: false,
+            schema: {
+              type: "string",
+              enum: ["CHAINLINK", "PYTH", "UMA", "API3", "INTERNAL", "MANUAL"],
+            },
+          },
+          {
+            name: "marketId",
+            in: "query",
+            required: false,
+            schema: { type: "string" },
+          },
+          {
+            name: "status",
+            in: "query",
+            required: false,
+            schema: {
+              type: "string",
+              enum: ["PENDING", "SUBMITTED", "CONFIRMED", "FAILED"],
+            },
+          },
+          {
+            name: "source",
+            in: "query",
+            required: false,
             schema: { type: "string" },
           },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            schema: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
         ],
         responses: {
           "200": {
-            description: "User trades",
+            description: "Oracle reports",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
           },
         },
       },
     },
-    "/v1/wallets/{wallet}/positions": {
+    "/v1/admin/oracle/candidates": {
       get: {
-        summary: "Wallet positions",
+        summary: "List resolution candidates",
         description:
-          "Retrieve position exposures for a wallet. Set includePnl=true to also compute realized/unrealized PnL (this is the canonical replacement for the deprecated /positions/user/:address endpoint).",
-        tags: ["Positions"],
+          "Resolution candidates newest first, filtered by canonical oracle source and market. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
         parameters: [
           {
-            name: "wallet",
-            in: "path",
-            required: true,
+            name: "canonicalSource",
+            in: "query",
+            required: false,
+            schema: {
+              type: "string",
+              enum: ["CHAINLINK", "PYTH", "UMA", "API3", "INTERNAL", "MANUAL"],
+            },
+          },
+          {
+            name: "marketId",
+            in: "query",
+            required: false,
             schema: { type: "string" },
-            description:
-              "Stellar public key (StrKey): starts with G and is 56 chars using [A-Z2-7]",
           },
           {
-            name: "includePnl",
+            name: "limit",
             in: "query",
             required: false,
-            schema: { type: "boolean", default: false },
-            description:
-              "When true, computes and includes realized/unrealized PnL per position and in the response summary.",
+            schema: { type: "integer", minimum: 1, maximum: 500, default: 100 },
           },
         ],
         responses: {
           "200": {
-            description: "Wallet positions",
-            content: {
-              "application/json": {
-                schema: {
-                  $ref: "#/components/schemas/WalletPositionsResponse",
-                },
-              },
-            },
+            description: "Resolution candidates",
+          },
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
           },
         },
       },
     },
-    "/v1/wallets/{wallet}/positions/{marketId}": {
+    "/v1/admin/oracle/submissions": {
       get: {
-        summary: "Single market position",
+        summary: "Inspect the oracle submission queue",
         description:
-          "Retrieve the position exposure for a wallet in a specific market. Returns 404 if no position exists.",
-        tags: ["Positions"],
+          "Counts of pending, in-flight and failed oracle submissions, with the entries of the requested state (all states by default). Pending entries wait on the submission stream, in-flight ones were delivered to a worker and not acknowledged, and failed ones are on the dead-letter stream. Requires API key and admin token.",
+        tags: ["Admin"],
+        security: [{ ApiKeyAuth: [], BearerAuth: [] }],
         parameters: [
           {
-            name: "wallet",
-            in: "path",
-            required: true,
-            schema: { type: "string" },
-            description:
-              "Stellar public key (StrKey): starts with G and is 56 chars using [A-Z2-7]",
+            name: "state",
+            in: "query",
+            required: false,
+            schema: {
+              type: "string",
+              enum: ["pending", "in_flight", "failed"],
+            },
           },
           {
             name: "marketId",
-            in: "path",
-            required: true,
+            in: "query",
+            required: false,
             schema: { type: "string" },
-            description: "Market ID to fetch position for",
+          },
+          {
+            name: "limit",
+            in: "query",
+            required: false,
+            schema: { type: "integer", minimum: 1, maximum: 500, default: 100 },
           },
         ],
         responses: {
           "200": {
-            description: "Single market position",
-            content: {
-              "application/json": {
-                schema: {
-                  type: "object",
-                  properties: {
-                    wallet: { type: "string" },
-                    marketId: { type: "string" },
-                    position: {
-                      $ref: "#/components/schemas/WalletExposureRow",
-                    },
-                  },
-                },
-              },
-            },
+            description: "Queue counts and entries",
           },
-          "404": {
-            description: "No position found for the given wallet and market",
+          "401": {
+            description: "Missing or invalid API key",
+          },
+          "403": {
+            description: "Invalid admin token",
           },
         },
       },
     },
-    "/v1/admin/markets": {
-      get: {
-        summary: "Admin market listing",
+    "/v1/admin/oracle/submissions/{id}/retry": {
+      post: {
+        summary: "Retry an oracle submission",
         description:
-          "List all markets including CANCELLED ones. Requires API key and admin token.",
+          "Requeue an in-flight or failed submission with its attempts reset. An in-flight entry is acknowledged and replaced by a new entry; a failed one is replayed from the dead-letter stream. Every retry is recorded in the audit trail. Requires API key and admin token.",
         tags: ["Admin"],
         security: [{ ApiKeyAuth: [], BearerAuth: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["actor"],
+                properties: {
+                  actor: { type: "string" },
+                  reason: { type: "string" },
+                },
+              },
+            },
+          },
+        },
         responses: {
           "200": {
-            description: "Admin market list",
+            description: "The new submission entry",
+          },
+          "400": {
+            description: "Invalid request or the submission cannot be retried",
           },
           "401": {
             description: "Missing or invalid API key",
@@ -408,14 +2135,17 @@ export const openApiSpec = {
           "403": {
             description: "Invalid admin token",
           },
+          "404": {
+            description: "Submission not found",
+          },
         },
       },
     },
-    "/v1/admin/markets/{id}/status": {
-      patch: {
-        summary: "Update market status",
+    "/v1/admin/oracle/submissions/{id}/cancel": {
+      post: {
+        summary: "Cancel an oracle submission",
         description:
-          "Admin endpoint to change market status. Requires API key and admin token.",
+          "Remove a pending, in-flight or failed submission and release its market so a new resolution can be queued. A worker already submitting an in-flight entry is not stopped. Every cancellation is recorded in the audit trail. Requires API key and admin token.",
         tags: ["Admin"],
         security: [{ ApiKeyAuth: [], BearerAuth: [] }],
         parameters: [
@@ -432,12 +2162,10 @@ export const openApiSpec = {
             "application/json": {
               schema: {
                 type: "object",
-                required: ["status"],
+                required: ["actor", "reason"],
                 properties: {
-                  status: {
-                    type: "string",
-                    enum: ["ACTIVE", "RESOLVED", "CANCELLED"],
-                  },
+                  actor: { type: "string" },
+                  reason: { type: "string" },
                 },
               },
             },
@@ -445,10 +2173,11 @@ export const openApiSpec = {
         },
         responses: {
           "200": {
-            description: "Market updated",
+            description: "The cancelled submission",
           },
           "400": {
-            description: "Invalid request",
+            description:
+              "Invalid request or the submission cannot be cancelled",
           },
           "401": {
             description: "Missing or invalid API key",
@@ -457,7 +2186,7 @@ export const openApiSpec = {
             description: "Invalid admin token",
           },
           "404": {
-            description: "Market not found",
+            description: "Submission not found",
           },
         },
       },
@@ -508,6 +2237,31 @@ export const openApiSpec = {
           },
         },
       },
+      Candle: {
+        type: "object",
+        properties: {
+          bucketStart: { type: "string", format: "date-time" },
+          open: { type: "string" },
+          high: { type: "string" },
+          low: { type: "string" },
+          close: { type: "string" },
+          volume: { type: "number", description: "Shares traded" },
+          tradeCount: { type: "number" },
+        },
+      },
+      MarketTrade: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          outcome: { type: "string" },
+          price: { type: "number" },
+          quantity: { type: "number" },
+          buyerAddress: { type: "string" },
+          sellerAddress: { type: "string" },
+          matchType: { type: "string" },
+          tradedAt: { type: "string", format: "date-time" },
+        },
+      },
       WalletExposureRow: {
         type: "object",
         properties: {
@@ -552,6 +2306,115 @@ export const openApiSpec = {
           },
         },
       },
+      PortfolioMarketPoint: {
+        type: "object",
+        properties: {
+          marketId: { type: "string" },
+          value: { type: "string" },
+          costBasis: { type: "string" },
+          pnl: { type: "string", description: "value - costBasis" },
+          priced: {
+            type: "boolean",
+            description: "False when a holding was valued at cost",
+          },
+        },
+      },
+      PortfolioHistoryPoint: {
+        type: "object",
+        properties: {
+          snapshotAt: { type: "string", format: "date-time" },
+          value: { type: "string" },
+          costBasis: { type: "string" },
+          pnl: { type: "string" },
+          markets: {
+            type: "array",
+            items: { $ref: "#/components/schemas/PortfolioMarketPoint" },
+          },
+        },
+      },
+      PortfolioHistoryResponse: {
+        type: "object",
+        properties: {
+          wallet: { type: "string" },
+          from: { type: "string", format: "date-time" },
+          to: { type: "string", format: "date-time" },
+          points: {
+            type: "array",
+            items: { $ref: "#/components/schemas/PortfolioHistoryPoint" },
+          },
+          count: { type: "number" },
+        },
+      },
+      WalletBalanceRow: {
+        type: "object",
+        properties: {
+          marketId: { type: "string" },
+          available: {
+            type: "string",
+            description: "Collateral new orders can spend (8 decimal places)",
+          },
+          reserved: {
+            type: "string",
+            description: "Collateral held by resting bids (8 decimal places)",
+          },
+          total: { type: "string", description: "available + reserved" },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      WalletBalancesResponse: {
+        type: "object",
+        properties: {
+          wallet: { type: "string" },
+          balances: {
+            type: "array",
+            items: { $ref: "#/components/schemas/WalletBalanceRow" },
+          },
+          count: { type: "number" },
+        },
+      },
+      SignedOrderReceipt: {
+        type: "object",
+        properties: {
+          orderData: {
+            type: "object",
+            properties: {
+              orderId: { type: "string" },
+              marketId: { type: "string" },
+              userAddress: { type: "string" },
+              side: { type: "string", enum: ["BUY", "SELL"] },
+              outcome: { type: "string", enum: ["YES", "NO"] },
+              price: { type: "number" },
+              quantity: { type: "number" },
+              timestamp: { type: "number" },
+            },
+          },
+          signature: { type: "string", description: "Base64 Ed25519" },
+          publicKey: { type: "string" },
+        },
+      },
+      SignedTradeReceipt: {
+        type: "object",
+        properties: {
+          tradeData: {
+            type: "object",
+            properties: {
+              tradeId: { type: "string" },
+              marketId: { type: "string" },
+              outcome: { type: "string", enum: ["YES", "NO"] },
+              buyerAddress: { type: "string" },
+              sellerAddress: { type: "string" },
+              buyOrderId: { type: "string" },
+              sellOrderId: { type: "string" },
+              price: { type: "number" },
+              quantity: { type: "number" },
+              matchType: { type: "string", enum: ["DIRECT", "MINT", "MERGE"] },
+              timestamp: { type: "number" },
+            },
+          },
+          signature: { type: "string", description: "Base64 Ed25519" },
+          publicKey: { type: "string" },
+        },
+      },
     },
   },
 } as const;
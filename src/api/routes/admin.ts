@@ -1,11 +1,114 @@
 import type { FastifyInstance } from "fastify";
+import type { Prisma } from "../../generated/prisma/client";
 import { getPrismaClient } from "../../services/prisma.js";
+import {
+  createMarket,
+  getMarketTransitions,
+  transitionMarketStatus,
+} from "../../services/market-lifecycle.js";
+import { adjudicateChallenge } from "../../services/resolution-challenges.js";
+import { submitManualResolution } from "../../services/manual-resolutions.js";
+import {
+  DEAD_LETTER_QUEUES,
+  MAX_DEAD_LETTER_BATCH,
+  getDeadLetter,
+  getDeadLetterAudits,
+  listDeadLetters,
+  purgeDeadLetters,
+  replayDeadLetters,
+  type DeadLetterQueue,
+} from "../../services/dead-letters.js";
+import {
+  UNSETTLED_STATUSES,
+  getStuckSettlements,
+  type StuckSettlementFilter,
+} from "../../services/settlements.js";
+import {
+  TRADE_DISCREPANCY_KINDS,
+  getTradeDiscrepancyReport,
+  type TradeDiscrepancyFilter,
+} from "../../services/trade-discrepancies.js";
+import {
+  MAX_POSITION_REPAIR_BATCH,
+  getPositionDrift,
+  repairPositionDrift,
+  type PositionDriftFilter,
+} from "../../services/position-drift.js";
+import {
+  correctResolution,
+  type ResolutionCorrectionAction,
+} from "../../services/resolution-corrections.js";
+import {
+  createOracleSourceAlias,
+  deleteOracleSourceAlias,
+  listOracleReports,
+  listOracleSourceAliases,
+  listResolutionCandidates,
+  updateOracleSourceAlias,
+  type CanonicalSourceFilter,
+  type OracleReportFilter,
+} from "../../services/oracle-sources.js";
+import {
+  ORACLE_SUBMISSION_STATES,
+  cancelOracleSubmission,
+  getOracleSubmissionQueue,
+  retryOracleSubmission,
+  type OracleSubmissionFilter,
+} from "../../services/oracle-submissions.js";
+import { ORACLE_SOURCES } from "../../oracle/sourceResolver.js";
+import { STELLAR_PUBLIC_KEY_REGEX } from "../../matching/validation.js";
+import type {
+  ChallengeDecision,
+  MarketStatus,
+  OracleSource,
+} from "../../types/index.js";
 import { requireAdmin } from "../middleware/adminGuard.js";
 import { requireApiKey } from "../middleware/apiKeyAuth.js";
 import { MarketNotFoundError } from "../middleware/errors.js";
 import { adminLimiter } from "../middleware/rateLimiter.js";
 import { success } from "../middleware/responses.js";
 
+/** Redis stream entry id, `<ms>-<seq>` */
+const STREAM_ID_PATTERN = "^[0-9]+-[0-9]+$";
+
+const deadLetterQueueParam = {
+  type: "string",
+  enum: [...DEAD_LETTER_QUEUES],
+} as const;
+
+const deadLetterIdsSchema = {
+  type: "array",
+  minItems: 1,
+  maxItems: MAX_DEAD_LETTER_BATCH,
+  items: { type: "string", pattern: STREAM_ID_PATTERN },
+} as const;
+
+const oracleSourceSchema = {
+  type: "string",
+  enum: [...ORACLE_SOURCES],
+} as const;
+
+const aliasIdParams = {
+  type: "object",
+  required: ["id"],
+  properties: { id: { type: "integer", minimum: 1 } },
+} as const;
+
+const canonicalSourceQuery = {
+  type: "object",
+  properties: {
+    canonicalSource: oracleSourceSchema,
+    marketId: { type: "string", minLength: 1 },
+    limit: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+  },
+} as const;
+
+const submissionIdParams = {
+  type: "object",
+  required: ["id"],
+  properties: { id: { type: "string", pattern: STREAM_ID_PATTERN } },
+} as const;
+
 export async function adminRoutes(fastify: FastifyInstance) {
   const prisma = getPrismaClient();
 
@@ -22,8 +125,61 @@ export async function adminRoutes(fastify: FastifyInstance) {
     success(reply, { markets, count: markets.length });
   });
 
-  // PATCH /admin/markets/:id/status - update market status
-  fastify.patch<{ Params: { id: string }; Body: { status: string } }>(
+  // POST /admin/markets - create an ACTIVE market
+  fastify.post<{
+    Body: {
+      question: string;
+      endTime: string;
+      oracleAddress: string;
+      metadata?: Prisma.InputJsonObject;
+      actor: string;
+    };
+  }>(
+    "/admin/markets",
+    {
+      schema: {
+        body: {
+          type: "object",
+          required: ["question", "endTime", "oracleAddress", "actor"],
+          properties: {
+            question: { type: "string", minLength: 1 },
+            endTime: { type: "string", format: "date-time" },
+            oracleAddress: {
+              type: "string",
+              pattern: STELLAR_PUBLIC_KEY_REGEX.source,
+            },
+            metadata: { type: "object" },
+            actor: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { question, endTime, oracleAddress, metadata, actor } =
+        request.body;
+
+      const { market, transition } = await createMarket({
+        question,
+        endTime: new Date(endTime),
+        oracleAddress,
+        metadata,
+        actor,
+      });
+
+      success(reply, { market, transition }, 201);
+    }
+  );
+
+  // PATCH /admin/markets/:id/status - move a market along an allowed lifecycle edge
+  fastify.patch<{
+    Params: { id: string };
+    Body: {
+      status: MarketStatus;
+      outcome?: boolean;
+      actor: string;
+      reason: string;
+    };
+  }>(
     "/admin/markets/:id/status",
     {
       schema: {
@@ -34,31 +190,739 @@ export async function adminRoutes(fastify: FastifyInstance) {
         },
         body: {
           type: "object",
-          required: ["status"],
+          required: ["status", "actor", "reason"],
           properties: {
             status: {
               type: "string",
-              enum: ["ACTIVE", "RESOLVED", "CANCELLED"],
+              enum: ["ACTIVE", "CLOSED", "RESOLVED", "CANCELLED"],
+            },
+            outcome: { type: "boolean" },
+            actor: { type: "string", minLength: 1 },
+            reason: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const { status, outcome, actor, reason } = request.body;
+
+      const { market, transition, cancelledOrders } =
+        await transitionMarketStatus({
+          marketId: id,
+          status,
+          outcome,
+          actor,
+          reason,
+        });
+
+      success(reply, {
+        market,
+        transition,
+        cancelledOrderCount: cancelledOrders.length,
+      });
+    }
+  );
+
+  // PATCH /admin/markets/:id/resolution - supersede the finalized resolution
+  // with the other outcome and enqueue payout compensation
+  fastify.patch<{
+    Params: { id: string };
+    Body: {
+      action: ResolutionCorrectionAction;
+      outcome: boolean;
+      actor: string;
+      reason: string;
+    };
+  }>(
+    "/admin/markets/:id/resolution",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "string" } },
+        },
+        body: {
+          type: "object",
+          required: ["action", "outcome", "actor", "reason"],
+          properties: {
+            action: { type: "string", enum: ["CORRECT", "OVERRIDE"] },
+            outcome: { type: "boolean" },
+            actor: { type: "string", minLength: 1 },
+            reason: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { action, outcome, actor, reason } = request.body;
+
+      const result = await correctResolution({
+        marketId: request.params.id,
+        action,
+        outcome,
+        actor,
+        reason,
+      });
+
+      success(reply, result);
+    }
+  );
+
+  // POST /admin/markets/:id/resolution - propose the outcome of a
+  // MANUAL-source market; it is finalized after the challenge window like
+  // an oracle resolution. Repeating a submission returns its candidate.
+  fastify.post<{
+    Params: { id: string };
+    Body: { outcome: boolean; operatorAddress: string; evidence: string };
+  }>(
+    "/admin/markets/:id/resolution",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "string" } },
+        },
+        body: {
+          type: "object",
+          required: ["outcome", "operatorAddress", "evidence"],
+          properties: {
+            outcome: { type: "boolean" },
+            operatorAddress: {
+              type: "string",
+              pattern: STELLAR_PUBLIC_KEY_REGEX.source,
             },
+            evidence: { type: "string", minLength: 1, maxLength: 4000 },
           },
         },
       },
     },
+    async (request, reply) => {
+      const { outcome, operatorAddress, evidence } = request.body;
+
+      const result = await submitManualResolution({
+        marketId: request.params.id,
+        outcome,
+        operatorAddress,
+        evidence,
+      });
+
+      success(reply, result, result.created ? 201 : 200);
+    }
+  );
+
+  // GET /admin/markets/:id/transitions - status history, oldest first
+  fastify.get<{ Params: { id: string } }>(
+    "/admin/markets/:id/transitions",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "string" } },
+        },
+      },
+    },
     async (request, reply) => {
       const { id } = request.params;
-      const { status } = request.body;
 
       const existing = await prisma.market.findUnique({ where: { id } });
       if (!existing) {
         throw new MarketNotFoundError(id);
       }
 
-      const market = await prisma.market.update({
-        where: { id },
-        data: { status: status as any },
+      const transitions = await getMarketTransitions(id);
+      success(reply, { transitions, count: transitions.length });
+    }
+  );
+
+  // GET /admin/challenges - challenges, newest first; pending=true
+  // limits the list to those still awaiting adjudication
+  fastify.get<{ Querystring: { marketId?: string; pending?: boolean } }>(
+    "/admin/challenges",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            marketId: { type: "string" },
+            pending: { type: "boolean" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { marketId, pending } = request.query;
+
+      const challenges = await prisma.resolutionChallenge.findMany({
+        where: {
+          ...(marketId ? { marketId } : {}),
+          ...(pending === undefined
+            ? {}
+            : { decision: pending ? null : { not: null } }),
+        },
+        include: { candidate: true },
+        orderBy: { createdAt: "desc" },
+      });
+      success(reply, { challenges, count: challenges.length });
+    }
+  );
+
+  // POST /admin/challenges/:id/adjudication - ACCEPT upholds the challenge
+  // and discards the candidate, REJECT dismisses it and finalizes the candidate
+  fastify.post<{
+    Params: { id: string };
+    Body: { decision: ChallengeDecision; actor: string; reason: string };
+  }>(
+    "/admin/challenges/:id/adjudication",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "string" } },
+        },
+        body: {
+          type: "object",
+          required: ["decision", "actor", "reason"],
+          properties: {
+            decision: { type: "string", enum: ["ACCEPT", "REJECT"] },
+            actor: { type: "string", minLength: 1 },
+            reason: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { decision, actor, reason } = request.body;
+
+      const { candidate, challenge, resolution } = await adjudicateChallenge({
+        challengeId: request.params.id,
+        decision,
+        actor,
+        reason,
+      });
+
+      success(reply, { candidate, challenge, resolution });
+    }
+  );
+
+  // GET /admin/dead-letters/:queue - dead letters newest first, filtered by
+  // reason substring and dead-letter time; page with nextCursor
+  fastify.get<{
+    Params: { queue: DeadLetterQueue };
+    Querystring: {
+      reason?: string;
+      from?: string;
+      to?: string;
+      cursor?: string;
+      limit?: number;
+    };
+  }>(
+    "/admin/dead-letters/:queue",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["queue"],
+          properties: { queue: deadLetterQueueParam },
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            reason: { type: "string", minLength: 1 },
+            from: { type: "string", format: "date-time" },
+            to: { type: "string", format: "date-time" },
+            cursor: { type: "string", pattern: STREAM_ID_PATTERN },
+            limit: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { reason, from, to, cursor, limit } = request.query;
+
+      const page = await listDeadLetters({
+        queue: request.params.queue,
+        reason,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+        cursor,
+        limit: limit ?? 50,
+      });
+      success(reply, { ...page, count: page.entries.length });
+    }
+  );
+
+  // GET /admin/dead-letters/:queue/:id - one dead letter with its payload
+  fastify.get<{ Params: { queue: DeadLetterQueue; id: string } }>(
+    "/admin/dead-letters/:queue/:id",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["queue", "id"],
+          properties: {
+            queue: deadLetterQueueParam,
+            id: { type: "string", pattern: STREAM_ID_PATTERN },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { queue, id } = request.params;
+      success(reply, await getDeadLetter(queue, id));
+    }
+  );
+
+  // POST /admin/dead-letters/:queue/replay - requeue dead letters on the
+  // stream their worker consumes; settled trades are skipped
+  fastify.post<{
+    Params: { queue: DeadLetterQueue };
+    Body: { ids: string[]; actor: string; reason?: string };
+  }>(
+    "/admin/dead-letters/:queue/replay",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["queue"],
+          properties: { queue: deadLetterQueueParam },
+        },
+        body: {
+          type: "object",
+          required: ["ids", "actor"],
+          properties: {
+            ids: deadLetterIdsSchema,
+            actor: { type: "string", minLength: 1 },
+            reason: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { ids, actor, reason } = request.body;
+
+      const results = await replayDeadLetters({
+        queue: request.params.queue,
+        ids,
+        actor,
+        reason,
+      });
+      success(reply, {
+        results,
+        replayed: results.filter((r) => r.status === "REPLAYED").length,
+      });
+    }
+  );
+
+  // POST /admin/dead-letters/:queue/purge - delete dead letters by id or
+  // age, keeping a copy of each in the audit trail
+  fastify.post<{
+    Params: { queue: DeadLetterQueue };
+    Body: { ids?: string[]; before?: string; actor: string; reason: string };
+  }>(
+    "/admin/dead-letters/:queue/purge",
+    {
+      schema: {
+        params: {
+          type: "object",
+          required: ["queue"],
+          properties: { queue: deadLetterQueueParam },
+        },
+        body: {
+          type: "object",
+          required: ["actor", "reason"],
+          properties: {
+            ids: deadLetterIdsSchema,
+            before: { type: "string", format: "date-time" },
+            actor: { type: "string", minLength: 1 },
+            reason: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { ids, before, actor, reason } = request.body;
+
+      const result = await purgeDeadLetters({
+        queue: request.params.queue,
+        ids,
+        before: before ? new Date(before) : undefined,
+        actor,
+        reason,
+      });
+      success(reply, result);
+    }
+  );
+
+  // GET /admin/dead-letter-audits - replay and purge history, newest first
+  fastify.get<{ Querystring: { queue?: DeadLetterQueue; limit?: number } }>(
+    "/admin/dead-letter-audits",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            queue: deadLetterQueueParam,
+            limit: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { queue, limit } = request.query;
+
+      const audits = await getDeadLetterAudits({ queue, limit: limit ?? 100 });
+      success(reply, { audits, count: audits.length });
+    }
+  );
+
+  // GET /admin/settlements/stuck - unconfirmed trade settlements that have
+  // not changed for olderThanSeconds, oldest first
+  fastify.get<{
+    Querystring: Partial<StuckSettlementFilter>;
+  }>(
+    "/admin/settlements/stuck",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            olderThanSeconds: { type: "integer", minimum: 0, default: 300 },
+            status: { type: "string", enum: [...UNSETTLED_STATUSES] },
+            marketId: { type: "string", minLength: 1 },
+            limit: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { olderThanSeconds, status, marketId, limit } = request.query;
+
+      const settlements = await getStuckSettlements({
+        olderThanSeconds: olderThanSeconds ?? 300,
+        status,
+        marketId,
+        limit: limit ?? 100,
+      });
+      success(reply, { settlements, count: settlements.length });
+    }
+  );
+
+  // GET /admin/reconciliation/trades - discrepancies between CLOB trades and
+  // indexed chain trades, newest first, with open counts per kind
+  fastify.get<{
+    Querystring: Partial<TradeDiscrepancyFilter>;
+  }>(
+    "/admin/reconciliation/trades",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            kind: { type: "string", enum: [...TRADE_DISCREPANCY_KINDS] },
+            marketId: { type: "string", minLength: 1 },
+            includeResolved: { type: "boolean", default: false },
+            limit: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { kind, marketId, includeResolved, limit } = request.query;
+
+      const report = await getTradeDiscrepancyReport({
+        kind,
+        marketId,
+        includeResolved: includeResolved ?? false,
+        limit: limit ?? 100,
+      });
+      success(reply, { ...report, count: report.discrepancies.length });
+    }
+  );
+
+  // GET /admin/positions/drift - positions whose UserPosition differs from
+  // the position recomputed from trades, newest first
+  fastify.get<{
+    Querystring: Partial<PositionDriftFilter>;
+  }>(
+    "/admin/positions/drift",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            marketId: { type: "string", minLength: 1 },
+            userAddress: {
+              type: "string",
+              pattern: STELLAR_PUBLIC_KEY_REGEX.source,
+            },
+            includeResolved: { type: "boolean", default: false },
+            limit: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { marketId, userAddress, includeResolved, limit } = request.query;
+
+      const drift = await getPositionDrift({
+        marketId,
+        userAddress,
+        includeResolved: includeResolved ?? false,
+        limit: limit ?? 100,
+      });
+      success(reply, { drift, count: drift.length });
+    }
+  );
+
+  // POST /admin/positions/drift/repair - overwrite drifting positions with
+  // their recomputed values; positions changed since detection are skipped
+  fastify.post<{
+    Body: { ids: string[]; actor: string; reason: string };
+  }>(
+    "/admin/positions/drift/repair",
+    {
+      schema: {
+        body: {
+          type: "object",
+          required: ["ids", "actor", "reason"],
+          properties: {
+            ids: {
+              type: "array",
+              minItems: 1,
+              maxItems: MAX_POSITION_REPAIR_BATCH,
+              items: { type: "string", minLength: 1 },
+            },
+            actor: { type: "string", minLength: 1 },
+            reason: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { ids, actor, reason } = request.body;
+
+      const results = await repairPositionDrift({ ids, actor, reason });
+      success(reply, {
+        results,
+        repaired: results.filter((r) => r.status === "REPAIRED").length,
+      });
+    }
+  );
+
+  // GET /admin/oracle/source-aliases - alias → canonical oracle source map
+  fastify.get<{ Querystring: { canonicalSource?: OracleSource } }>(
+    "/admin/oracle/source-aliases",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: { canonicalSource: oracleSourceSchema },
+        },
+      },
+    },
+    async (request, reply) => {
+      const aliases = await listOracleSourceAliases(
+        request.query.canonicalSource
+      );
+      success(reply, { aliases, count: aliases.length });
+    }
+  );
+
+  // POST /admin/oracle/source-aliases - map an alias; reports and
+  // candidates already stored under it are re-labelled
+  fastify.post<{
+    Body: { alias: string; canonicalSource: OracleSource };
+  }>(
+    "/admin/oracle/source-aliases",
+    {
+      schema: {
+        body: {
+          type: "object",
+          required: ["alias", "canonicalSource"],
+          properties: {
+            alias: { type: "string", minLength: 1, maxLength: 256 },
+            canonicalSource: oracleSourceSchema,
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      success(reply, await createOracleSourceAlias(request.body), 201);
+    }
+  );
+
+  // PATCH /admin/oracle/source-aliases/:id - point an alias at another
+  // canonical source
+  fastify.patch<{
+    Params: { id: number };
+    Body: { canonicalSource: OracleSource };
+  }>(
+    "/admin/oracle/source-aliases/:id",
+    {
+      schema: {
+        params: aliasIdParams,
+        body: {
+          type: "object",
+          required: ["canonicalSource"],
+          properties: { canonicalSource: oracleSourceSchema },
+        },
+      },
+    },
+    async (request, reply) => {
+      success(
+        reply,
+        await updateOracleSourceAlias(
+          request.params.id,
+          request.body.canonicalSource
+        )
+      );
+    }
+  );
+
+  // DELETE /admin/oracle/source-aliases/:id - remove an alias
+  fastify.delete<{ Params: { id: number } }>(
+    "/admin/oracle/source-aliases/:id",
+    { schema: { params: aliasIdParams } },
+    async (request, reply) => {
+      success(reply, await deleteOracleSourceAlias(request.params.id));
+    }
+  );
+
+  // GET /admin/oracle/reports - oracle reports newest first, by market,
+  // status, source and canonical source
+  fastify.get<{ Querystring: Partial<OracleReportFilter> }>(
+    "/admin/oracle/reports",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            ...canonicalSourceQuery.properties,
+            status: {
+              type: "string",
+              enum: ["PENDING", "SUBMITTED", "CONFIRMED", "FAILED"],
+            },
+            source: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { canonicalSource, marketId, status, source, limit } =
+        request.query;
+
+      const reports = await listOracleReports({
+        canonicalSource,
+        marketId,
+        status,
+        source,
+        limit: limit ?? 100,
+      });
+      success(reply, { reports, count: reports.length });
+    }
+  );
+
+  // GET /admin/oracle/candidates - resolution candidates newest first, by
+  // canonical source and market
+  fastify.get<{ Querystring: Partial<CanonicalSourceFilter> }>(
+    "/admin/oracle/candidates",
+    { schema: { querystring: canonicalSourceQuery } },
+    async (request, reply) => {
+      const { canonicalSource, marketId, limit } = request.query;
+
+      const candidates = await listResolutionCandidates({
+        canonicalSource,
+        marketId,
+        limit: limit ?? 100,
       });
+      success(reply, { candidates, count: candidates.length });
+    }
+  );
 
-      success(reply, { market });
+  // GET /admin/oracle/submissions - the live submission queue: pending,
+  // in-flight and failed entries, by state and market
+  fastify.get<{ Querystring: Partial<OracleSubmissionFilter> }>(
+    "/admin/oracle/submissions",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            state: { type: "string", enum: [...ORACLE_SUBMISSION_STATES] },
+            marketId: { type: "string", minLength: 1 },
+            limit: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { state, marketId, limit } = request.query;
+
+      success(
+        reply,
+        await getOracleSubmissionQueue({ state, marketId, limit: limit ?? 100 })
+      );
+    }
+  );
+
+  // POST /admin/oracle/submissions/:id/retry - requeue an in-flight or
+  // failed submission with a fresh set of attempts
+  fastify.post<{
+    Params: { id: string };
+    Body: { actor: string; reason?: string };
+  }>(
+    "/admin/oracle/submissions/:id/retry",
+    {
+      schema: {
+        params: submissionIdParams,
+        body: {
+          type: "object",
+          required: ["actor"],
+          properties: {
+            actor: { type: "string", minLength: 1 },
+            reason: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      success(
+        reply,
+        await retryOracleSubmission({ id: request.params.id, ...request.body })
+      );
+    }
+  );
+
+  // POST /admin/oracle/submissions/:id/cancel - drop a pending, in-flight
+  // or failed submission and release its market
+  fastify.post<{
+    Params: { id: string };
+    Body: { actor: string; reason: string };
+  }>(
+    "/admin/oracle/submissions/:id/cancel",
+    {
+      schema: {
+        params: submissionIdParams,
+        body: {
+          type: "object",
+          required: ["actor", "reason"],
+          properties: {
+            actor: { type: "string", minLength: 1 },
+            reason: { type: "string", minLength: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      success(
+        reply,
+        await cancelOracleSubmission({ id: request.params.id, ...request.body })
+      );
     }
   );
 }
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import fastify from "fastify";
+import { Prisma } from "../../generated/prisma/client";
+import balancesRouter from "./balances";
+import { errorHandler } from "../middleware/errorHandler";
+
+const wallet = "GINJ46CDSMNOSKETX3K5DU44435TGRWIQEM7ZVI3ON3BTOOFVJJHTWXO";
+
+const mockPrisma = {
+  collateralBalance: {
+    findMany: vi.fn(),
+  },
+};
+
+vi.mock("../../services/prisma", () => ({
+  getPrismaClient: () => mockPrisma,
+}));
+
+vi.mock("../middleware/rateLimiter", () => ({
+  heavyReadLimiter: async () => {},
+}));
+
+describe("Balances Route", () => {
+  const createTestServer = async () => {
+    const app = fastify();
+    app.setErrorHandler(errorHandler);
+    await app.register(balancesRouter);
+    return app;
+  };
+
+  beforeEach(() => {
+    mockPrisma.collateralBalance.findMany.mockReset();
+    mockPrisma.collateralBalance.findMany.mockResolvedValue([
+      {
+        marketId: "market-1",
+        available: new Prisma.Decimal("12.5"),
+        reserved: new Prisma.Decimal("30"),
+        updatedAt: new Date("2026-07-01T00:00:00.000Z"),
+      },
+    ]);
+  });
+
+  it("returns available, reserved and total per market", async () => {
+    const app = await createTestServer();
+    const response = await app.inject({
+      method: "GET",
+      url: `/wallets/${wallet}/balances`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toEqual({
+      wallet,
+      balances: [
+        {
+          marketId: "market-1",
+          available: "12.50000000",
+          reserved: "30.00000000",
+          total: "42.50000000",
+          updatedAt: "2026-07-01T00:00:00.000Z",
+        },
+      ],
+      count: 1,
+    });
+    expect(mockPrisma.collateralBalance.findMany).toHaveBeenCalledWith({
+      where: { userAddress: wallet },
+      orderBy: { updatedAt: "desc" },
+    });
+  });
+
+  it("filters by market when marketId is given", async () => {
+    const app = await createTestServer();
+    await app.inject({
+      method: "GET",
+      url: `/wallets/${wallet}/balances?marketId=market-1`,
+    });
+
+    expect(mockPrisma.collateralBalance.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userAddress: wallet, marketId: "market-1" },
+      })
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { getPrismaClient } from "../../services/prisma.js";
+import {
+  STELLAR_PUBLIC_KEY_REGEX,
+  validateUserAddress,
+} from "../../matching/validation.js";
+import { ValidationError } from "../middleware/errors.js";
+import { heavyReadLimiter } from "../middleware/rateLimiter.js";
+import { success } from "../middleware/responses.js";
+
+interface WalletBalanceRow {
+  marketId: string;
+  /** Collateral that new orders can spend (8 decimal places). */
+  available: string;
+  /** Collateral held by the wallet's resting bids (8 decimal places). */
+  reserved: string;
+  /** available + reserved (8 decimal places). */
+  total: string;
+  updatedAt: Date;
+}
+
+interface WalletBalancesResponse {
+  wallet: string;
+  balances: WalletBalanceRow[];
+  count: number;
+}
+
+interface GetWalletBalancesParams {
+  wallet: string;
+}
+
+interface GetWalletBalancesQuery {
+  marketId?: string;
+}
+
+export default async function balancesRouter(server: FastifyInstance) {
+  server.get<{
+    Params: GetWalletBalancesParams;
+    Querystring: GetWalletBalancesQuery;
+  }>(
+    "/wallets/:wallet/balances",
+    {
+      onRequest: [heavyReadLimiter],
+      schema: {
+        params: {
+          type: "object",
+          required: ["wallet"],
+          properties: {
+            wallet: {
+              type: "string",
+              pattern: STELLAR_PUBLIC_KEY_REGEX.source,
+              description:
+                "Stellar public key (StrKey): starts with G and is 56 chars using [A-Z2-7]",
+            },
+          },
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            marketId: {
+              type: "string",
+              description: "Only return the balance held in this market",
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: GetWalletBalancesParams;
+        Querystring: GetWalletBalancesQuery;
+      }>,
+      reply: FastifyReply
+    ) => {
+      const { wallet } = request.params;
+      const { marketId } = request.query;
+      const prisma = getPrismaClient();
+
+      const addressError = validateUserAddress(wallet);
+      if (addressError) {
+        throw new ValidationError(addressError);
+      }
+
+      const rows = await prisma.collateralBalance.findMany({
+        where: { userAddress: wallet, ...(marketId ? { marketId } : {}) },
+        orderBy: { updatedAt: "desc" },
+      });
+
+      const balances: WalletBalanceRow[] = rows.map((row) => ({
+        marketId: row.marketId,
+        available: row.available.toFixed(8),
+        reserved: row.reserved.toFixed(8),
+        total: row.available.plus(row.reserved).toFixed(8),
+        updatedAt: row.updatedAt,
+      }));
+
+      request.log.info(
+        { wallet, balanceCount: balances.length },
+        "wallet balances fetched"
+      );
+
+      const response: WalletBalancesResponse = {
+        wallet,
+        balances,
+        count: balances.length,
+      };
+
+      success(reply, response);
+    }
+  );
+}
@@ -1,4 +1,4 @@
-import type { MarketStatus, Outcome } from "../../types/index.js";
+import type { MarketStatus, MatchType, Outcome } from "../../types/index.js";
 
 export interface MarketListItemDto {
   id: string;
@@ -10,6 +10,25 @@ export interface MarketListItemDto {
   outcome: boolean | null;
   createdAt: string;
   updatedAt: string;
+  /** Total shares traded in the market */
+  totalVolume: number;
+  /** Shares traded in the last 24 hours */
+  volume24h: number;
+  tradeCount: number;
+  /** Complete sets outstanding, counted as YES shares held long */
+  openInterest: number;
+  openOrders: number;
+  uniqueTraders: number;
+  /** Price of the last trade in YES terms (0-1) */
+  lastPrice: number | null;
+  lastTradedAt: string | null;
+  /** Best YES bid (0-1) */
+  bestBid: number | null;
+  /** Best YES ask (0-1) */
+  bestAsk: number | null;
+  spread: number | null;
+  /** Probability of YES implied by the book mid or the last trade */
+  impliedProbability: number | null;
 }
 
 export interface MarketDetailsDto extends MarketListItemDto {}
@@ -32,3 +51,16 @@ export interface MarketOrderBookDto {
   bids: OrderBookLevelDto[];
   asks: OrderBookLevelDto[];
 }
+
+export interface MarketTradeDto {
+  /** Trade ID assigned by the matching engine */
+  id: string;
+  outcome: Outcome;
+  /** Price per share expressed as a decimal in the range 0-1 */
+  price: number;
+  quantity: number;
+  buyerAddress: string;
+  sellerAddress: string;
+  matchType: MatchType;
+  tradedAt: string;
+}
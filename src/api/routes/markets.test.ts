@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import Fastify, { FastifyInstance } from "fastify";
+import { Keypair } from "@stellar/stellar-sdk";
 import { marketsRoutes } from "./markets.js";
 import { errorHandler } from "../middleware/errorHandler.js";
+import { buildChallengeSignableMessage } from "../middleware/stellarAuth.js";
+import { Prisma } from "../../generated/prisma/client";
 import type { PrismaClient } from "../../generated/prisma/client";
 
 const mockPrismaClient = {
@@ -12,6 +15,9 @@ const mockPrismaClient = {
   order: {
     findMany: vi.fn(),
   },
+  trade: {
+    findMany: vi.fn(),
+  },
 } as unknown as PrismaClient;
 
 vi.mock("../../services/prisma.js", () => ({
@@ -20,6 +26,24 @@ vi.mock("../../services/prisma.js", () => ({
 
 vi.mock("../middleware/rateLimiter", () => ({
   heavyReadLimiter: async () => {},
+  writeLimiter: async () => {},
+}));
+
+const { mockChallengeResolution } = vi.hoisted(() => ({
+  mockChallengeResolution: vi.fn(),
+}));
+
+vi.mock("../../services/resolution-challenges.js", () => ({
+  challengeResolution: mockChallengeResolution,
+}));
+
+const { mockGetCandles } = vi.hoisted(() => ({
+  mockGetCandles: vi.fn(),
+}));
+
+vi.mock("../../services/candles.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../services/candles.js")>()),
+  getCandles: mockGetCandles,
 }));
 
 describe("GET /markets", () => {
@@ -86,6 +110,7 @@ describe("GET /markets", () => {
         where: {},
         orderBy: { createdAt: "desc" },
         take: 50,
+        include: { stats: true },
       });
     });
 
@@ -289,6 +314,7 @@ describe("GET /markets", () => {
         where: { status: "ACTIVE" },
         orderBy: { createdAt: "desc" },
         take: 50,
+        include: { stats: true },
       });
     });
 
@@ -325,6 +351,7 @@ describe("GET /markets", () => {
         where: { status: "RESOLVED" },
         orderBy: { createdAt: "desc" },
         take: 50,
+        include: { stats: true },
       });
     });
 
@@ -361,6 +388,7 @@ describe("GET /markets", () => {
         where: { status: "CANCELLED" },
         orderBy: { createdAt: "desc" },
         take: 50,
+        include: { stats: true },
       });
     });
 
@@ -589,6 +617,7 @@ describe("GET /markets", () => {
         where: {},
         orderBy: { endTime: "asc" },
         take: 50,
+        include: { stats: true },
       });
     });
 
@@ -606,7 +635,44 @@ describe("GET /markets", () => {
         where: {},
         orderBy: { createdAt: "desc" },
         take: 50,
+        include: { stats: true },
+      });
+    });
+
+    it("should sort by a market statistic, newest first on ties", async () => {
+      (
+        mockPrismaClient.market.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValue([]);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/markets?sort=openInterest",
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockPrismaClient.market.findMany).toHaveBeenCalledWith({
+        where: {},
+        orderBy: [{ stats: { openInterest: "desc" } }, { createdAt: "desc" }],
+        take: 50,
+        include: { stats: true },
+      });
+    });
+
+    it("should sort by total volume", async () => {
+      (
+        mockPrismaClient.market.findMany as ReturnType<typeof vi.fn>
+      ).mockResolvedValue([]);
+
+      await app.inject({
+        method: "GET",
+        url: "/markets?sort=volume&direction=asc",
       });
+
+      expect(mockPrismaClient.market.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ stats: { totalVolume: "asc" } }, { createdAt: "desc" }],
+        })
+      );
     });
 
     it("should reject invalid sort values", async () => {
@@ -643,6 +709,7 @@ describe("GET /markets", () => {
         where: {},
         orderBy: { createdAt: "desc" },
         take: 50,
+        include: { stats: true },
       });
     });
   });
@@ -662,6 +729,7 @@ describe("GET /markets", () => {
         where: {},
         orderBy: { createdAt: "desc" },
         take: 50,
+        include: { stats: true },
       });
     });
 
@@ -679,6 +747,7 @@ describe("GET /markets", () => {
         where: {},
         orderBy: { createdAt: "desc" },
         take: 10,
+        include: { stats: true },
       });
     });
 
@@ -757,6 +826,84 @@ describe("GET /markets/:id", () => {
 
       expect(mockPrismaClient.market.findUnique).toHaveBeenCalledWith({
         where: { id: "550e8400-e29b-41d4-a716-446655440000" },
+        include: { stats: true },
+      });
+    });
+  });
+
+  describe("statistics", () => {
+    const market = {
+      id: "market-1",
+      question: "Will it rain tomorrow?",
+      endTime: new Date("2026-12-31T23:59:59Z"),
+      resolutionTime: null,
+      oracleAddress: "GABC123...",
+      status: "ACTIVE",
+      outcome: null,
+      createdAt: new Date("2026-01-25T10:00:00Z"),
+      updatedAt: new Date("2026-01-25T10:00:00Z"),
+    };
+
+    it("includes the market's maintained statistics", async () => {
+      (
+        mockPrismaClient.market.findUnique as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({
+        ...market,
+        stats: {
+          marketId: "market-1",
+          totalVolume: 150,
+          volume24h: 40,
+          tradeCount: 12,
+          openInterest: 90,
+          uniqueTraders: 7,
+          openOrders: 5,
+          lastPrice: new Prisma.Decimal("0.62"),
+          lastTradedAt: new Date("2026-07-20T09:00:00Z"),
+          bestBid: new Prisma.Decimal("0.6"),
+          bestAsk: new Prisma.Decimal("0.65"),
+          spread: new Prisma.Decimal("0.05"),
+          updatedAt: new Date("2026-07-20T09:00:00Z"),
+        },
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/markets/market-1",
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data.market).toMatchObject({
+        totalVolume: 150,
+        volume24h: 40,
+        tradeCount: 12,
+        openInterest: 90,
+        uniqueTraders: 7,
+        openOrders: 5,
+        lastPrice: 0.62,
+        lastTradedAt: "2026-07-20T09:00:00.000Z",
+        bestBid: 0.6,
+        bestAsk: 0.65,
+        spread: 0.05,
+        impliedProbability: 0.625,
+      });
+    });
+
+    it("reports zero activity for a market without statistics", async () => {
+      (
+        mockPrismaClient.market.findUnique as ReturnType<typeof vi.fn>
+      ).mockResolvedValue({ ...market, stats: null });
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/markets/market-1",
+      });
+
+      expect(JSON.parse(response.body).data.market).toMatchObject({
+        totalVolume: 0,
+        openInterest: 0,
+        lastPrice: null,
+        spread: null,
+        impliedProbability: null,
       });
     });
   });
@@ -780,3 +927,241 @@ describe("GET /markets/:id", () => {
     });
   });
 });
+
+describe("GET /markets/:id/candles", () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    app.setErrorHandler(errorHandler);
+    await app.register(marketsRoutes);
+    vi.clearAllMocks();
+    (
+      mockPrismaClient.market.findUnique as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({ id: "market-1" });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("returns the outcome's candles for the window", async () => {
+    const candle = {
+      bucketStart: "2026-07-20T10:00:00.000Z",
+      open: "0.5",
+      high: "0.8",
+      low: "0.5",
+      close: "0.8",
+      volume: 3,
+      tradeCount: 2,
+    };
+    mockGetCandles.mockResolvedValue([candle]);
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/markets/market-1/candles?outcome=NO&interval=5m&from=2026-07-20T00:00:00.000Z&limit=10",
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toEqual({
+      marketId: "market-1",
+      outcome: "NO",
+      interval: "5m",
+      candles: [candle],
+    });
+    expect(mockGetCandles).toHaveBeenCalledWith({
+      marketId: "market-1",
+      outcome: "NO",
+      interval: "5m",
+      from: new Date("2026-07-20T00:00:00.000Z"),
+      to: undefined,
+      limit: 10,
+    });
+  });
+
+  it("defaults to YES candles", async () => {
+    mockGetCandles.mockResolvedValue([]);
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/markets/market-1/candles?interval=1h",
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockGetCandles).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: "YES", limit: 500 })
+    );
+  });
+});
+
+describe("GET /markets/:id/trades", () => {
+  let app: FastifyInstance;
+
+  const trade = (n: number) => ({
+    id: `row-${n}`,
+    tradeId: `trade-${n}`,
+    marketId: "market-1",
+    outcome: "YES",
+    price: "0.6",
+    quantity: n,
+    buyerAddress: "GBUYER",
+    sellerAddress: "GSELLER",
+    matchType: "DIRECT",
+    tradedAt: new Date(`2026-07-20T10:0${n}:00.000Z`),
+  });
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    app.setErrorHandler(errorHandler);
+    await app.register(marketsRoutes);
+    vi.clearAllMocks();
+    (
+      mockPrismaClient.market.findUnique as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({ id: "market-1" });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("returns a page of trades with a cursor to the next one", async () => {
+    const findMany = mockPrismaClient.trade.findMany as ReturnType<
+      typeof vi.fn
+    >;
+    findMany.mockResolvedValue([trade(3), trade(2), trade(1)]);
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/markets/market-1/trades?limit=2",
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body).data;
+    expect(body.trades).toHaveLength(2);
+    expect(body.trades[0]).toEqual({
+      id: "trade-3",
+      outcome: "YES",
+      price: 0.6,
+      quantity: 3,
+      buyerAddress: "GBUYER",
+      sellerAddress: "GSELLER",
+      matchType: "DIRECT",
+      tradedAt: "2026-07-20T10:03:00.000Z",
+    });
+    expect(body.hasNext).toBe(true);
+    expect(typeof body.nextCursor).toBe("string");
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { marketId: "market-1" },
+        orderBy: [{ tradedAt: "desc" }, { id: "desc" }],
+        take: 3,
+      })
+    );
+
+    findMany.mockResolvedValue([trade(1)]);
+    const next = await app.inject({
+      method: "GET",
+      url: `/markets/market-1/trades?limit=2&outcome=YES&cursor=${body.nextCursor}`,
+    });
+
+    expect(next.statusCode).toBe(200);
+    const nextBody = JSON.parse(next.body).data;
+    expect(nextBody).toMatchObject({ hasNext: false, nextCursor: null });
+    expect(findMany.mock.calls[1][0].where).toEqual({
+      AND: [
+        { marketId: "market-1", outcome: "YES" },
+        {
+          OR: [
+            { tradedAt: { lt: new Date("2026-07-20T10:02:00.000Z") } },
+            {
+              tradedAt: { equals: new Date("2026-07-20T10:02:00.000Z") },
+              id: { lt: "row-2" },
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe("POST /markets/:id/resolution/challenges", () => {
+  let app: FastifyInstance;
+  const keypair = Keypair.random();
+  const userAddress = keypair.publicKey();
+  const payload = {
+    userAddress,
+    reason: "The source reported the wrong closing price",
+    evidenceUrl: "https://example.com/closing-price",
+  };
+
+  function signChallenge(marketId: string, ts = Date.now()) {
+    const sig = keypair
+      .sign(
+        buildChallengeSignableMessage({
+          evidenceUrl: payload.evidenceUrl,
+          marketId,
+          reason: payload.reason,
+          timestamp: ts,
+          userAddress,
+        })
+      )
+      .toString("base64");
+    return { "x-signature": sig, "x-timestamp": String(ts) };
+  }
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    app.setErrorHandler(errorHandler);
+    await app.register(marketsRoutes);
+    vi.clearAllMocks();
+    mockChallengeResolution.mockResolvedValue({
+      candidate: { id: "candidate-1", status: "CHALLENGED" },
+      challenge: { id: "challenge-1", candidateId: "candidate-1" },
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("records a challenge signed over the market id", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/markets/market-1/resolution/challenges",
+      headers: signChallenge("market-1"),
+      payload,
+    });
+
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body).data.challenge.id).toBe("challenge-1");
+    expect(mockChallengeResolution).toHaveBeenCalledWith({
+      marketId: "market-1",
+      challengerAddress: userAddress,
+      reason: payload.reason,
+      evidenceUrl: payload.evidenceUrl,
+    });
+  });
+
+  it("rejects a challenge signed for a different market", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/markets/market-1/resolution/challenges",
+      headers: signChallenge("market-2"),
+      payload,
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(mockChallengeResolution).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unsigned challenge", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/markets/market-1/resolution/challenges",
+      payload,
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(mockChallengeResolution).not.toHaveBeenCalled();
+  });
+});
@@ -1,23 +1,51 @@
 import type { FastifyInstance, FastifyRequest } from "fastify";
 import { getPrismaClient } from "../../services/prisma.js";
-import type { Market, MarketStatus, Outcome } from "../../types/index.js";
-import { heavyReadLimiter } from "../middleware/rateLimiter.js";
+import { challengeResolution } from "../../services/resolution-challenges.js";
+import { toMarketWithStats } from "../../services/market-stats.js";
+import {
+  CANDLE_INTERVALS,
+  MAX_CANDLES,
+  getCandles,
+  type CandleInterval,
+} from "../../services/candles.js";
+import { STELLAR_PUBLIC_KEY_REGEX } from "../../matching/validation.js";
+import type {
+  Market,
+  MarketStats,
+  MarketStatus,
+  Outcome,
+} from "../../types/index.js";
+import { heavyReadLimiter, writeLimiter } from "../middleware/rateLimiter.js";
 import { success } from "../middleware/responses.js";
-import { MarketNotFoundError } from "../middleware/errors.js";
+import { MarketNotFoundError, ValidationError } from "../middleware/errors.js";
+import { verifyStellarChallengeSignature } from "../middleware/stellarAuth.js";
 import type {
   MarketDetailsDto,
   MarketListItemDto,
   MarketOrderBookDto,
+  MarketTradeDto,
   OrderBookLevelDto,
 } from "./market.dto.js";
 
 interface GetMarketsQueryParams {
   status?: MarketStatus;
-  sort?: "createdAt" | "endTime";
+  sort?: MarketSortField;
   direction?: "asc" | "desc";
   limit?: number;
 }
 
+type MarketSortField =
+  "createdAt" | "endTime" | "volume" | "volume24h" | "openInterest";
+
+/** Sort fields backed by `market_stats` rather than the market row */
+const STATS_SORT_COLUMNS: Partial<
+  Record<MarketSortField, "totalVolume" | "volume24h" | "openInterest">
+> = {
+  volume: "totalVolume",
+  volume24h: "volume24h",
+  openInterest: "openInterest",
+};
+
 interface GetMarketsResponse {
   markets: MarketListItemDto[];
   count: number;
@@ -27,6 +55,26 @@ interface GetMarketParams {
   id: string;
 }
 
+interface ChallengeResolutionBody {
+  userAddress: string;
+  reason: string;
+  evidenceUrl?: string;
+}
+
+interface GetMarketCandlesQuery {
+  outcome?: Outcome;
+  interval: CandleInterval;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+interface GetMarketTradesQuery {
+  outcome?: Outcome;
+  cursor?: string;
+  limit?: number;
+}
+
 interface GetMarketResponse {
   market: MarketDetailsDto;
 }
@@ -37,7 +85,44 @@ interface GetMarketOrderbookResponse {
 
 const OPEN_ORDER_STATUSES = ["OPEN", "PARTIALLY_FILLED"] as const;
 
-function toMarketDto(market: Market): MarketDetailsDto {
+// ---------------------------------------------------------------------------
+// Cursor pagination helpers for GET /markets/:id/trades
+// Cursor encodes the last seen { tradedAt (ISO string), id } so the next page
+// starts strictly after that row using the same (tradedAt DESC, id DESC)
+// ordering the query uses.
+// ---------------------------------------------------------------------------
+
+interface TradeCursorPayload {
+  tradedAt: string;
+  id: string;
+}
+
+function encodeTradeCursor(payload: TradeCursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+function decodeTradeCursor(cursor: string): TradeCursorPayload {
+  try {
+    const raw = Buffer.from(cursor, "base64url").toString("utf8");
+    const parsed = JSON.parse(raw) as unknown;
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      typeof (parsed as Record<string, unknown>).tradedAt !== "string" ||
+      typeof (parsed as Record<string, unknown>).id !== "string"
+    ) {
+      throw new Error("invalid shape");
+    }
+    return parsed as TradeCursorPayload;
+  } catch {
+    throw new ValidationError("cursor is invalid or corrupted");
+  }
+}
+
+function toMarketDto(
+  market: Market & { stats?: MarketStats | null }
+): MarketDetailsDto {
+  const withStats = toMarketWithStats(market);
   return {
     id: market.id,
     question: market.question,
@@ -48,6 +133,18 @@ function toMarketDto(market: Market): MarketDetailsDto {
     outcome: market.outcome,
     createdAt: market.createdAt.toISOString(),
     updatedAt: market.updatedAt.toISOString(),
+    totalVolume: withStats.totalVolume,
+    volume24h: withStats.volume24h,
+    tradeCount: withStats.tradeCount,
+    openInterest: withStats.openInterest,
+    openOrders: withStats.openOrders,
+    uniqueTraders: withStats.uniqueTraders,
+    lastPrice: withStats.lastPrice,
+    lastTradedAt: withStats.lastTradedAt?.toISOString() ?? null,
+    bestBid: withStats.bestBid,
+    bestAsk: withStats.bestAsk,
+    spread: withStats.spread,
+    impliedProbability: withStats.impliedProbability,
   };
 }
 
@@ -75,11 +172,17 @@ export async function marketsRoutes(fastify: FastifyInstance) {
           properties: {
             status: {
               type: "string",
-              enum: ["ACTIVE", "RESOLVED", "CANCELLED"],
+              enum: ["ACTIVE", "CLOSED", "RESOLVED", "CANCELLED"],
             },
             sort: {
               type: "string",
-              enum: ["createdAt", "endTime"],
+              enum: [
+                "createdAt",
+                "endTime",
+                "volume",
+                "volume24h",
+                "openInterest",
+              ],
             },
             direction: {
               type: "string",
@@ -109,14 +212,23 @@ export async function marketsRoutes(fastify: FastifyInstance) {
 
       const whereClause = status ? { status } : {};
 
-      const orderBy = {
-        [sort]: direction,
-      };
+      // Stats sorts read the maintained aggregate; ties fall back to the
+      // newest market first
+      const statsColumn = STATS_SORT_COLUMNS[sort];
+      const orderBy = statsColumn
+        ? [
+            { stats: { [statsColumn]: direction } },
+            { createdAt: "desc" as const },
+          ]
+        : {
+            [sort]: direction,
+          };
 
       const markets = await prisma.market.findMany({
         where: whereClause,
         orderBy,
         take: limit,
+        include: { stats: true },
       });
 
       const response: GetMarketsResponse = {
@@ -145,7 +257,10 @@ export async function marketsRoutes(fastify: FastifyInstance) {
     async (request: FastifyRequest<{ Params: GetMarketParams }>, reply) => {
       const { id } = request.params;
 
-      const market = await prisma.market.findUnique({ where: { id } });
+      const market = await prisma.market.findUnique({
+        where: { id },
+        include: { stats: true },
+      });
       if (!market) {
         throw new MarketNotFoundError(id);
       }
@@ -263,4 +378,222 @@ export async function marketsRoutes(fastify: FastifyInstance) {
       success(reply, { orderbook });
     }
   );
+
+  // GET /markets/:id/candles — OHLCV candles of one outcome, oldest first.
+  // Read-only: the candle refresher keeps the stored candles up to date.
+  fastify.get<{ Params: GetMarketParams; Querystring: GetMarketCandlesQuery }>(
+    "/markets/:id/candles",
+    {
+      onRequest: [heavyReadLimiter],
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          additionalProperties: false,
+          properties: {
+            id: { type: "string" },
+          },
+        },
+        querystring: {
+          type: "object",
+          required: ["interval"],
+          properties: {
+            outcome: { type: "string", enum: ["YES", "NO"], default: "YES" },
+            interval: { type: "string", enum: [...CANDLE_INTERVALS] },
+            from: { type: "string", format: "date-time" },
+            to: { type: "string", format: "date-time" },
+            limit: {
+              type: "integer",
+              minimum: 1,
+              maximum: MAX_CANDLES,
+              default: 500,
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const {
+        outcome = "YES",
+        interval,
+        from,
+        to,
+        limit = 500,
+      } = request.query;
+
+      const fromDate = from ? new Date(from) : undefined;
+      const toDate = to ? new Date(to) : undefined;
+      if (fromDate && toDate && fromDate > toDate) {
+        throw new ValidationError(
+          "Invalid date range: from must be earlier than or equal to to"
+        );
+      }
+
+      const market = await prisma.market.findUnique({ where: { id } });
+      if (!market) {
+        throw new MarketNotFoundError(id);
+      }
+
+      const candles = await getCandles({
+        marketId: id,
+        outcome,
+        interval,
+        from: fromDate,
+        to: toDate,
+        limit,
+      });
+
+      success(reply, { marketId: id, outcome, interval, candles });
+    }
+  );
+
+  // GET /markets/:id/trades — public trade tape, newest first. Cursor
+  // encodes the last item's (tradedAt, id) and is opaque to clients.
+  fastify.get<{ Params: GetMarketParams; Querystring: GetMarketTradesQuery }>(
+    "/markets/:id/trades",
+    {
+      onRequest: [heavyReadLimiter],
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          additionalProperties: false,
+          properties: {
+            id: { type: "string" },
+          },
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            outcome: { type: "string", enum: ["YES", "NO"] },
+            cursor: { type: "string" },
+            limit: {
+              type: "integer",
+              minimum: 1,
+              maximum: 100,
+            },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const { outcome, cursor, limit = 20 } = request.query;
+
+      const cursorPayload = cursor ? decodeTradeCursor(cursor) : undefined;
+
+      const market = await prisma.market.findUnique({ where: { id } });
+      if (!market) {
+        throw new MarketNotFoundError(id);
+      }
+
+      const baseWhere = {
+        marketId: id,
+        ...(outcome ? { outcome } : {}),
+      };
+
+      // Rows that come strictly after the cursor in (tradedAt DESC, id DESC)
+      // order
+      const whereClause = cursorPayload
+        ? {
+            AND: [
+              baseWhere,
+              {
+                OR: [
+                  { tradedAt: { lt: new Date(cursorPayload.tradedAt) } },
+                  {
+                    tradedAt: { equals: new Date(cursorPayload.tradedAt) },
+                    id: { lt: cursorPayload.id },
+                  },
+                ],
+              },
+            ],
+          }
+        : baseWhere;
+
+      // Fetch one extra row to detect whether another page exists
+      const trades = await prisma.trade.findMany({
+        where: whereClause,
+        orderBy: [{ tradedAt: "desc" }, { id: "desc" }],
+        take: limit + 1,
+      });
+
+      const hasNext = trades.length > limit;
+      const page = trades.slice(0, limit);
+
+      let nextCursor: string | null = null;
+      if (hasNext) {
+        const last = page[page.length - 1];
+        nextCursor = encodeTradeCursor({
+          tradedAt: last.tradedAt.toISOString(),
+          id: last.id,
+        });
+      }
+
+      const tape: MarketTradeDto[] = page.map((trade) => ({
+        id: trade.tradeId,
+        outcome: trade.outcome as Outcome,
+        price: Number(trade.price),
+        quantity: trade.quantity,
+        buyerAddress: trade.buyerAddress,
+        sellerAddress: trade.sellerAddress,
+        matchType: trade.matchType,
+        tradedAt: trade.tradedAt.toISOString(),
+      }));
+
+      success(reply, {
+        marketId: id,
+        trades: tape,
+        nextCursor,
+        hasNext,
+        limit,
+      });
+    }
+  );
+
+  // POST /markets/:id/resolution/challenges — dispute the market's proposed
+  // resolution while its challenge window is open. The caller must sign
+  // buildChallengeSignableMessage({ marketId, reason, evidenceUrl }).
+  fastify.post<{ Params: GetMarketParams; Body: ChallengeResolutionBody }>(
+    "/markets/:id/resolution/challenges",
+    {
+      onRequest: [writeLimiter],
+      preHandler: [verifyStellarChallengeSignature],
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          additionalProperties: false,
+          properties: {
+            id: { type: "string" },
+          },
+        },
+        body: {
+          type: "object",
+          required: ["userAddress", "reason"],
+          properties: {
+            userAddress: {
+              type: "string",
+              pattern: STELLAR_PUBLIC_KEY_REGEX.source,
+            },
+            reason: { type: "string", minLength: 1, maxLength: 2000 },
+            evidenceUrl: { type: "string", format: "uri", maxLength: 2048 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { userAddress, reason, evidenceUrl } = request.body;
+
+      const { candidate, challenge } = await challengeResolution({
+        marketId: request.params.id,
+        challengerAddress: userAddress,
+        reason,
+        evidenceUrl,
+      });
+
+      success(reply, { candidate, challenge }, 201);
+    }
+  );
 }
@@ -19,9 +19,17 @@ const { mockAuditService, mockPrismaClient, mockMatchingService } = vi.hoisted(
       market: {
         findUnique: vi.fn(),
       },
+      collateralBalance: {
+        findUnique: vi.fn(),
+      },
+      userPosition: {
+        findUnique: vi.fn(),
+      },
     } as unknown as PrismaClient,
     mockMatchingService: {
       placeOrder: vi.fn(),
+      cancelOrder: vi.fn(),
+      cancelAllOrders: vi.fn(),
     },
   })
 );
@@ -44,7 +52,11 @@ vi.mock("../middleware/stellarAuth.js", () => ({
   verifyStellarSignature: vi.fn(
     (_req: unknown, _reply: unknown, done: () => void) => done()
   ),
+  verifyStellarCancelSignature: vi.fn(
+    (_req: unknown, _reply: unknown, done: () => void) => done()
+  ),
   buildSignableMessage: vi.fn(),
+  buildCancelSignableMessage: vi.fn(),
 }));
 
 describe("GET /trades/user/:address", () => {
@@ -128,6 +140,73 @@ describe("GET /trades/user/:address", () => {
     expect(body.limit).toBe(20);
   });
 
+  it("should include each trade's settlement status", async () => {
+    const settlement = {
+      status: "CONFIRMED",
+      txHash: "abc123",
+      ledger: 1000,
+      attempts: 1,
+      lastError: null,
+      updatedAt: "2026-04-27T14:00:05.000Z",
+    };
+    (
+      mockAuditService.getWalletTradeHistory as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({
+      trades: [
+        {
+          id: "1714170000001-0",
+          trade: {
+            id: "trade-1",
+            marketId: "market-1",
+            outcome: "YES",
+            buyerAddress: validAddress,
+            sellerAddress:
+              "GBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB",
+            buyOrderId: "buy-1",
+            sellOrderId: "sell-1",
+            price: 0.51,
+            quantity: 20,
+            timestamp: 1714170000001,
+          },
+          loggedAt: "2026-04-27T14:00:01.000Z",
+          settlement,
+        },
+        {
+          id: "1714170000000-0",
+          trade: {
+            id: "trade-0",
+            marketId: "market-1",
+            outcome: "YES",
+            buyerAddress: validAddress,
+            sellerAddress:
+              "GBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB",
+            buyOrderId: "buy-0",
+            sellOrderId: "sell-0",
+            price: 0.5,
+            quantity: 5,
+            timestamp: 1714170000000,
+          },
+          loggedAt: "2026-04-27T14:00:00.000Z",
+          settlement: null,
+        },
+      ],
+      total: 2,
+      hasNext: false,
+      page: 1,
+      limit: 20,
+    });
+
+    const response = await app.inject({
+      method: "GET",
+      url: `/trades/user/${validAddress}`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.trades[0].settlement).toEqual(settlement);
+    expect(body.trades[1].settlement).toBeNull();
+  });
+
   it("should pass pagination args to wallet trade history lookup", async () => {
     (
       mockAuditService.getWalletTradeHistory as ReturnType<typeof vi.fn>
@@ -431,6 +510,17 @@ describe("POST /orders", () => {
       createdAt: new Date(),
       updatedAt: new Date(),
     });
+
+    // Wallet can pay for the orders below
+    (
+      mockPrismaClient.collateralBalance.findUnique as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({ available: "1000" });
+    (
+      mockPrismaClient.userPosition.findUnique as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({ yesShares: 1000, noShares: 1000 });
+    (
+      mockPrismaClient.order.findMany as ReturnType<typeof vi.fn>
+    ).mockResolvedValue([]);
   });
 
   afterEach(async () => {
@@ -496,6 +586,83 @@ describe("POST /orders", () => {
     expect(body.filledQuantity).toBe(0);
   });
 
+  it("should return the signed order and trade receipts", async () => {
+    const trade = {
+      id: "trade-1",
+      marketId: "market-1",
+      outcome: "YES",
+      buyerAddress: validAddress,
+      sellerAddress: "GSELLER",
+      buyOrderId: "order-123",
+      sellOrderId: "order-456",
+      price: 0.6,
+      quantity: 100,
+      timestamp: 1_700_000_000_000,
+    };
+    const receipt = {
+      orderData: {
+        orderId: "order-123",
+        marketId: "market-1",
+        userAddress: validAddress,
+        side: "BUY",
+        outcome: "YES",
+        price: 0.6,
+        quantity: 100,
+        timestamp: 1_700_000_000_000,
+      },
+      signature: "b3JkZXI=",
+      publicKey: "GOPERATOR",
+    };
+    const tradeReceipt = {
+      tradeData: {
+        tradeId: "trade-1",
+        marketId: "market-1",
+        outcome: "YES",
+        buyerAddress: validAddress,
+        sellerAddress: "GSELLER",
+        buyOrderId: "order-123",
+        sellOrderId: "order-456",
+        price: 0.6,
+        quantity: 100,
+        matchType: "DIRECT",
+        timestamp: 1_700_000_000_000,
+      },
+      signature: "dHJhZGU=",
+      publicKey: "GOPERATOR",
+    };
+
+    (
+      mockPrismaClient.market.findUnique as ReturnType<typeof vi.fn>
+    ).mockResolvedValue(validMarket);
+    (
+      mockMatchingService.placeOrder as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({
+      order: { id: "order-123", status: "FILLED" },
+      trades: [trade],
+      filledQuantity: 100,
+      receipt,
+      tradeReceipts: [tradeReceipt],
+    });
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/orders",
+      payload: {
+        marketId: "market-1",
+        userAddress: validAddress,
+        side: "BUY",
+        outcome: "YES",
+        price: 0.6,
+        quantity: 100,
+      },
+    });
+
+    expect(response.statusCode).toBe(201);
+    const body = JSON.parse(response.body);
+    expect(body.receipt).toEqual(receipt);
+    expect(body.tradeReceipts).toEqual([tradeReceipt]);
+  });
+
   it("should reject order with invalid Stellar address", async () => {
     const response = await app.inject({
       method: "POST",
@@ -740,6 +907,102 @@ describe("POST /orders", () => {
     expect(mockPrismaClient.order.create).not.toHaveBeenCalled();
   });
 
+  it("should pass time-in-force fields through to the matching service", async () => {
+    const expiresAt = Date.now() + 60 * 60 * 1000;
+    const gttOrder = {
+      marketId: "market-1",
+      userAddress: validAddress,
+      side: "SELL" as const,
+      outcome: "YES" as const,
+      price: 0.7,
+      quantity: 50,
+      timeInForce: "GTT" as const,
+      postOnly: true,
+      expiresAt,
+    };
+
+    (
+      mockPrismaClient.market.findUnique as ReturnType<typeof vi.fn>
+    ).mockResolvedValue(validMarket);
+
+    (
+      mockMatchingService.placeOrder as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({
+      order: {
+        id: "order-gtt",
+        ...gttOrder,
+        price: "0.7",
+        filledQuantity: 0,
+        status: "OPEN",
+        expiresAt: new Date(expiresAt),
+        createdAt: new Date(),
+      },
+      trades: [],
+      filledQuantity: 0,
+    });
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/orders",
+      payload: gttOrder,
+    });
+
+    expect(response.statusCode).toBe(201);
+    expect(mockMatchingService.placeOrder).toHaveBeenCalledWith(gttOrder);
+
+    const body = JSON.parse(response.body);
+    expect(body.order.timeInForce).toBe("GTT");
+    expect(body.order.postOnly).toBe(true);
+    expect(body.order.expiresAt).toBe(new Date(expiresAt).toISOString());
+  });
+
+  it("should accept a MARKET order without a price", async () => {
+    const marketOrder = {
+      marketId: "market-1",
+      userAddress: validAddress,
+      side: "BUY" as const,
+      outcome: "YES" as const,
+      quantity: 100,
+      orderType: "MARKET" as const,
+      maxCost: 40,
+    };
+
+    (
+      mockPrismaClient.market.findUnique as ReturnType<typeof vi.fn>
+    ).mockResolvedValue(validMarket);
+
+    (
+      mockMatchingService.placeOrder as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({
+      order: {
+        id: "order-mkt",
+        ...marketOrder,
+        price: "0.99",
+        maxCost: "40",
+        filledQuantity: 80,
+        status: "CANCELLED",
+        timeInForce: "IOC",
+        createdAt: new Date(),
+      },
+      trades: [],
+      filledQuantity: 80,
+    });
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/orders",
+      payload: marketOrder,
+    });
+
+    expect(response.statusCode).toBe(201);
+    expect(mockMatchingService.placeOrder).toHaveBeenCalledWith(marketOrder);
+
+    const body = JSON.parse(response.body);
+    expect(body.order.orderType).toBe("MARKET");
+    expect(body.order.maxCost).toBe("40");
+    expect(body.filledQuantity).toBe(80);
+  });
+
   it("should handle database errors gracefully", async () => {
     // Mock market for validation
     (
@@ -766,3 +1029,134 @@ describe("POST /orders", () => {
     expect(response.statusCode).toBe(500);
   });
 });
+
+describe("DELETE /orders/:id", () => {
+  let app: FastifyInstance;
+  const validAddress =
+    "GABCDEFGHIJKLMNOPQRSTUVWXYZ234567ABCDEFGHIJKLMNOPQRSTUVW";
+
+  beforeEach(async () => {
+    clearRateLimitStores();
+    app = Fastify({ logger: false });
+    app.setErrorHandler(errorHandler);
+    await app.register(ordersRoutes);
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    clearRateLimitStores();
+  });
+
+  it("should cancel the order through the matching service", async () => {
+    (
+      mockMatchingService.cancelOrder as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({
+      order: {
+        id: "order-123",
+        marketId: "market-1",
+        userAddress: validAddress,
+        side: "BUY",
+        outcome: "YES",
+        price: "0.6",
+        quantity: 100,
+        filledQuantity: 40,
+        status: "CANCELLED",
+        createdAt: new Date(),
+      },
+    });
+
+    const response = await app.inject({
+      method: "DELETE",
+      url: "/orders/order-123",
+      payload: { userAddress: validAddress },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockMatchingService.cancelOrder).toHaveBeenCalledWith(
+      "order-123",
+      validAddress
+    );
+    const body = JSON.parse(response.body);
+    expect(body.order.id).toBe("order-123");
+    expect(body.order.status).toBe("CANCELLED");
+  });
+
+  it("should not call the matching service without a userAddress", async () => {
+    const response = await app.inject({
+      method: "DELETE",
+      url: "/orders/order-123",
+      payload: {},
+    });
+
+    expect(response.statusCode).not.toBe(200);
+    expect(mockMatchingService.cancelOrder).not.toHaveBeenCalled();
+  });
+});
+
+describe("DELETE /orders", () => {
+  let app: FastifyInstance;
+  const validAddress =
+    "GABCDEFGHIJKLMNOPQRSTUVWXYZ234567ABCDEFGHIJKLMNOPQRSTUVW";
+
+  beforeEach(async () => {
+    clearRateLimitStores();
+    app = Fastify({ logger: false });
+    app.setErrorHandler(errorHandler);
+    await app.register(ordersRoutes);
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    clearRateLimitStores();
+  });
+
+  it("should cancel every resting order the wallet holds in the market", async () => {
+    (
+      mockMatchingService.cancelAllOrders as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({
+      marketId: "market-1",
+      cancelledOrders: [
+        { id: "order-1", outcome: "YES", status: "CANCELLED" },
+        { id: "order-2", outcome: "NO", status: "CANCELLED" },
+      ],
+    });
+
+    const response = await app.inject({
+      method: "DELETE",
+      url: "/orders",
+      payload: { marketId: "market-1", userAddress: validAddress },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockMatchingService.cancelAllOrders).toHaveBeenCalledWith(
+      "market-1",
+      validAddress
+    );
+    const body = JSON.parse(response.body);
+    expect(body.marketId).toBe("market-1");
+    expect(body.count).toBe(2);
+    expect(body.orders.map((o: { id: string }) => o.id)).toEqual([
+      "order-1",
+      "order-2",
+    ]);
+  });
+
+  it("should return an empty list when nothing is open", async () => {
+    (
+      mockMatchingService.cancelAllOrders as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({ marketId: "market-1", cancelledOrders: [] });
+
+    const response = await app.inject({
+      method: "DELETE",
+      url: "/orders",
+      payload: { marketId: "market-1", userAddress: validAddress },
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.orders).toEqual([]);
+    expect(body.count).toBe(0);
+  });
+});
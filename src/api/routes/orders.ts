@@ -2,7 +2,13 @@ import type { FastifyInstance, FastifyRequest } from "fastify";
 import { z } from "zod";
 import { getPrismaClient } from "../../services/prisma.js";
 import { ValidationError } from "../middleware/errors.js";
-import type { OrderSide, Outcome, OrderStatus } from "../../types/index.js";
+import type {
+  OrderSide,
+  Outcome,
+  OrderStatus,
+  OrderType,
+  TimeInForce,
+} from "../../types/index.js";
 import { auditService } from "../../services/audit.js";
 import { matchingService } from "../../matching/matching-service.js";
 import {
@@ -12,6 +18,14 @@ import {
   type OrderInput,
 } from "../../matching/validation.js";
 import { heavyReadLimiter, writeLimiter } from "../middleware/rateLimiter.js";
+import {
+  verifyStellarCancelSignature,
+  verifyStellarSignature,
+} from "../middleware/stellarAuth.js";
+import {
+  signedOrderReceiptSchema,
+  signedTradeReceiptSchema,
+} from "./receipts.js";
 
 // ---------------------------------------------------------------------------
 // Zod schema for POST /orders body
@@ -27,18 +41,63 @@ const CreateOrderSchema = z.object({
     ),
   side: z.enum(["BUY", "SELL"]),
   outcome: z.enum(["YES", "NO"]),
+  // Optional for MARKET orders, where it is the worst acceptable price
   price: z
     .number()
     .gt(0, "price must be greater than 0")
-    .lt(1, "price must be less than 1"),
+    .lt(1, "price must be less than 1")
+    .optional(),
   quantity: z
     .number()
     .int("quantity must be an integer")
     .min(1, "quantity must be at least 1"),
+  orderType: z.enum(["LIMIT", "MARKET"]).optional(),
+  maxCost: z.number().positive("maxCost must be positive").optional(),
+  timeInForce: z.enum(["GTC", "IOC", "FOK", "GTT"]).optional(),
+  postOnly: z.boolean().optional(),
+  expiresAt: z
+    .number()
+    .int("expiresAt must be an integer timestamp in milliseconds")
+    .positive("expiresAt must be a positive timestamp")
+    .optional(),
 });
 
 type CreateOrderBody = z.infer<typeof CreateOrderSchema>;
 
+// ---------------------------------------------------------------------------
+// Zod schemas for DELETE /orders/:id and DELETE /orders bodies
+// ---------------------------------------------------------------------------
+
+const CancelOrderSchema = z.object({
+  userAddress: z
+    .string()
+    .regex(
+      STELLAR_PUBLIC_KEY_REGEX,
+      "userAddress must be a valid Stellar public key"
+    ),
+});
+
+const CancelMarketOrdersSchema = CancelOrderSchema.extend({
+  marketId: z.string().min(1, "marketId is required"),
+});
+
+type CancelOrderBody = z.infer<typeof CancelOrderSchema>;
+type CancelMarketOrdersBody = z.infer<typeof CancelMarketOrdersSchema>;
+
+/** Parse a body with Zod, mapping issues onto a field-level ValidationError. */
+function parseBody<T>(schema: z.ZodType<T>, body: unknown): T {
+  const parseResult = schema.safeParse(body);
+  if (!parseResult.success) {
+    const fields: Record<string, string> = {};
+    for (const issue of parseResult.error.issues) {
+      const field = issue.path.join(".") || "body";
+      fields[field] = issue.message;
+    }
+    throw new ValidationError(parseResult.error.issues[0].message, fields);
+  }
+  return parseResult.data;
+}
+
 // ---------------------------------------------------------------------------
 // Cursor pagination helpers for GET /orders/user/:address
 // Cursor encodes the last seen { createdAt (ISO string), id } so the next
@@ -87,6 +146,10 @@ export interface GetUserOrdersQuery {
   limit?: number;
 }
 
+export interface CancelOrderParams {
+  id: string;
+}
+
 export interface GetWalletTradesQuery {
   page?: number;
   limit?: number;
@@ -105,10 +168,15 @@ export interface OrderResponse {
   userAddress: string;
   side: OrderSide;
   outcome: Outcome;
+  orderType: OrderType;
   price: string;
+  maxCost: string | null;
   quantity: number;
   filledQuantity: number;
   status: OrderStatus;
+  timeInForce: TimeInForce;
+  postOnly: boolean;
+  expiresAt: Date | null;
   createdAt: Date;
 }
 
@@ -142,6 +210,27 @@ export interface TradeListResponse {
   limit: number;
 }
 
+const orderResponseSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    marketId: { type: "string" },
+    userAddress: { type: "string" },
+    side: { type: "string" },
+    outcome: { type: "string" },
+    orderType: { type: "string" },
+    price: { type: "string" },
+    maxCost: { type: ["string", "null"] },
+    quantity: { type: "number" },
+    filledQuantity: { type: "number" },
+    status: { type: "string" },
+    timeInForce: { type: "string" },
+    postOnly: { type: "boolean" },
+    expiresAt: { type: ["string", "null"] },
+    createdAt: { type: "string" },
+  },
+} as const;
+
 export async function ordersRoutes(fastify: FastifyInstance) {
   const prisma = getPrismaClient();
 
@@ -256,6 +345,7 @@ export async function ordersRoutes(fastify: FastifyInstance) {
           quantity: entry.trade.quantity,
           timestamp: entry.trade.timestamp,
           loggedAt: entry.loggedAt,
+          settlement: entry.settlement ?? null,
         })),
         total,
         hasNext,
@@ -303,21 +393,7 @@ export async function ordersRoutes(fastify: FastifyInstance) {
             properties: {
               orders: {
                 type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    id: { type: "string" },
-                    marketId: { type: "string" },
-                    userAddress: { type: "string" },
-                    side: { type: "string" },
-                    outcome: { type: "string" },
-                    price: { type: "string" },
-                    quantity: { type: "number" },
-                    filledQuantity: { type: "number" },
-                    status: { type: "string" },
-                    createdAt: { type: "string" },
-                  },
-                },
+                items: orderResponseSchema,
               },
               nextCursor: { type: ["string", "null"] },
               hasNext: { type: "boolean" },
@@ -395,13 +471,17 @@ export async function ordersRoutes(fastify: FastifyInstance) {
         nextCursor,
         hasNext,
         limit,
-      });
+      };
     }
   );
 
   // POST /orders — create a new order.
   // Zod validates the request body shape and types; assertValidOrder does
-  // domain validation (address format, market state).
+  // domain validation (address format, market state, time-in-force rules).
+  // IOC/FOK and MARKET remainders are cancelled rather than rested, so the
+  // returned order can come back CANCELLED with a partial or zero fill.
+  // The response carries operator-signed receipts for the order and for each
+  // trade; GET /orders/:id/receipts returns them again later.
   fastify.post<{ Body: CreateOrderBody }>(
     "/orders",
     {
@@ -410,14 +490,7 @@ export async function ordersRoutes(fastify: FastifyInstance) {
       schema: {
         body: {
           type: "object",
-          required: [
-            "marketId",
-            "userAddress",
-            "side",
-            "outcome",
-            "price",
-            "quantity",
-          ],
+          required: ["marketId", "userAddress", "side", "outcome", "quantity"],
           properties: {
             marketId: { type: "string" },
             userAddress: { type: "string" },
@@ -429,36 +502,39 @@ export async function ordersRoutes(fastify: FastifyInstance) {
               type: "string",
               enum: ["YES", "NO"],
             },
+            orderType: {
+              type: "string",
+              enum: ["LIMIT", "MARKET"],
+            },
             price: {
               type: "number",
               exclusiveMinimum: 0,
               exclusiveMaximum: 1,
             },
+            maxCost: {
+              type: "number",
+              exclusiveMinimum: 0,
+            },
             quantity: {
               type: "integer",
               minimum: 1,
             },
+            timeInForce: {
+              type: "string",
+              enum: ["GTC", "IOC", "FOK", "GTT"],
+            },
+            postOnly: { type: "boolean" },
+            expiresAt: {
+              type: "integer",
+              minimum: 1,
+            },
           },
         },
         response: {
           201: {
             type: "object",
             properties: {
-              order: {
-                type: "object",
-                properties: {
-                  id: { type: "string" },
-                  marketId: { type: "string" },
-                  userAddress: { type: "string" },
-                  side: { type: "string" },
-                  outcome: { type: "string" },
-                  price: { type: "string" },
-                  quantity: { type: "number" },
-                  filledQuantity: { type: "number" },
-                  status: { type: "string" },
-                  createdAt: { type: "string" },
-                },
-              },
+              order: orderResponseSchema,
               trades: {
                 type: "array",
                 items: {
@@ -478,6 +554,11 @@ export async function ordersRoutes(fastify: FastifyInstance) {
                 },
               },
               filledQuantity: { type: "number" },
+              receipt: signedOrderReceiptSchema,
+              tradeReceipts: {
+                type: "array",
+                items: signedTradeReceiptSchema,
+              },
             },
           },
         },
@@ -485,48 +566,143 @@ export async function ordersRoutes(fastify: FastifyInstance) {
     },
     async (request: FastifyRequest<{ Body: CreateOrderBody }>, reply) => {
       // Zod parse: produces a typed, validated body or throws with field-level errors
-      const parseResult = CreateOrderSchema.safeParse(request.body);
-      if (!parseResult.success) {
-        const fields: Record<string, string> = {};
-        for (const issue of parseResult.error.issues) {
-          const field = issue.path.join(".") || "body";
-          fields[field] = issue.message;
-        }
-        throw new ValidationError(parseResult.error.issues[0].message, fields);
-      }
-
-      const { marketId, userAddress, side, outcome, price, quantity } =
-        parseResult.data;
+      const {
+        marketId,
+        userAddress,
+        side,
+        outcome,
+        orderType,
+        price,
+        maxCost,
+        quantity,
+        timeInForce,
+        postOnly,
+        expiresAt,
+      } = parseBody(CreateOrderSchema, request.body);
 
       const orderInput: OrderInput = {
         marketId,
         userAddress,
         side: side as OrderSide,
         outcome: outcome as Outcome,
+        orderType,
         price,
+        maxCost,
         quantity,
+        timeInForce,
+        postOnly,
+        expiresAt,
       };
 
       // Domain validation: address format, market existence and state
       await assertValidOrder(orderInput);
 
-      const order = await prisma.order.create({
-        data: {
-          marketId,
-          userAddress,
-          side,
-          outcome,
-          price: price.toString(),
-          quantity,
-          filledQuantity: 0,
-          status: "OPEN",
+      const { order, trades, filledQuantity, receipt, tradeReceipts } =
+        await matchingService.placeOrder(orderInput);
+
+      reply
+        .status(201)
+        .send({ order, trades, filledQuantity, receipt, tradeReceipts });
+    }
+  );
+
+  // DELETE /orders/:id — cancel a single resting order.
+  // The caller must sign buildCancelSignableMessage({ orderId }) with the
+  // wallet that owns the order.
+  fastify.delete<{ Params: CancelOrderParams; Body: CancelOrderBody }>(
+    "/orders/:id",
+    {
+      onRequest: [writeLimiter],
+      preHandler: [verifyStellarCancelSignature],
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "string" },
+          },
         },
-      });
+        body: {
+          type: "object",
+          required: ["userAddress"],
+          properties: {
+            userAddress: { type: "string" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              order: orderResponseSchema,
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: CancelOrderParams;
+        Body: CancelOrderBody;
+      }>
+    ) => {
+      const { userAddress } = parseBody(CancelOrderSchema, request.body);
+
+      const { order } = await matchingService.cancelOrder(
+        request.params.id,
+        userAddress
+      );
+
+      return { order };
+    }
+  );
+
+  // DELETE /orders — cancel every resting order the wallet holds in a market.
+  // The caller must sign buildCancelSignableMessage({ marketId }).
+  fastify.delete<{ Body: CancelMarketOrdersBody }>(
+    "/orders",
+    {
+      onRequest: [writeLimiter],
+      preHandler: [verifyStellarCancelSignature],
+      schema: {
+        body: {
+          type: "object",
+          required: ["marketId", "userAddress"],
+          properties: {
+            marketId: { type: "string" },
+            userAddress: { type: "string" },
+          },
+        },
+        response: {
+          200: {
+            type: "object",
+            properties: {
+              marketId: { type: "string" },
+              orders: {
+                type: "array",
+                items: orderResponseSchema,
+              },
+              count: { type: "number" },
+            },
+          },
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CancelMarketOrdersBody }>) => {
+      const { marketId, userAddress } = parseBody(
+        CancelMarketOrdersSchema,
+        request.body
+      );
 
-      // TODO: Add to matching engine
-      // await matchingEngine.addOrder(order);
+      const { cancelledOrders } = await matchingService.cancelAllOrders(
+        marketId,
+        userAddress
+      );
 
-      reply.status(201).send({ order, trades, filledQuantity });
+      return {
+        marketId,
+        orders: cancelledOrders,
+        count: cancelledOrders.length,
+      };
     }
   );
 }
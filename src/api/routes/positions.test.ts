@@ -69,6 +69,9 @@ const mockPrisma = {
   indexedTrade: {
     findMany: vi.fn().mockResolvedValue([]),
   },
+  position: {
+    findMany: vi.fn().mockResolvedValue([]),
+  },
   $disconnect: vi.fn(),
 };
 
@@ -292,4 +295,45 @@ describe("Positions Route", () => {
     const body = JSON.parse(response.body);
     expect(body.error).toContain("params/wallet");
   });
+
+  it("should return portfolio history points built from position snapshots", async () => {
+    const app = await createTestServer();
+    const wallet = "GINJ46CDSMNOSKETX3K5DU44435TGRWIQEM7ZVI3ON3BTOOFVJJHTWXO";
+    mockPrisma.position.findMany.mockResolvedValueOnce([
+      {
+        marketId: "market-1",
+        valuation: "7.00000000",
+        costBasis: "6.00000000",
+        markPrice: "0.70000000",
+        snapshotAt: new Date("2026-07-19T10:00:00.000Z"),
+      },
+    ]);
+
+    const response = await app.inject({
+      method: "GET",
+      url: `/wallets/${wallet}/portfolio/history?from=2026-07-19T00:00:00.000Z&to=2026-07-20T00:00:00.000Z&marketId=market-1`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.data.count).toBe(1);
+    expect(body.data.points[0]).toMatchObject({
+      snapshotAt: "2026-07-19T10:00:00.000Z",
+      value: "7.00000000",
+      costBasis: "6.00000000",
+      pnl: "1.00000000",
+    });
+    expect(mockPrisma.position.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          walletAddress: wallet,
+          snapshotAt: {
+            gte: new Date("2026-07-19T00:00:00.000Z"),
+            lte: new Date("2026-07-20T00:00:00.000Z"),
+          },
+          marketId: "market-1",
+        },
+      })
+    );
+  });
 });
@@ -1,5 +1,10 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { getPrismaClient } from "../../services/prisma.js";
+import { computeRealizedPnl } from "../../services/position-payouts.js";
+import {
+  buildPortfolioHistory,
+  getYesMidPrices,
+} from "../../services/position-snapshots.js";
 import {
   STELLAR_PUBLIC_KEY_REGEX,
   validateUserAddress,
@@ -44,6 +49,17 @@ interface WalletPositionsResponse {
   pnlTotal?: string;
 }
 
+interface GetPortfolioHistoryQuery {
+  from?: string;
+  to?: string;
+  marketId?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Window returned when the request doesn't set `from` */
+const DEFAULT_HISTORY_DAYS = 30;
+const MAX_HISTORY_DAYS = 365;
+
 interface GetWalletPositionsParams {
   wallet: string;
 }
@@ -54,39 +70,6 @@ interface GetWalletPositionsQuery {
   includePnl?: boolean;
 }
 
-/**
- * Compute realized PnL for a settled position.
- *
- * A binary prediction market share pays out 1 unit of collateral if the
- * chosen outcome wins, 0 if it loses.  The cost basis is lockedCollateral.
- *
- *   pnlRealized = winningShares * 1 - lockedCollateral
- *
- * Precision: all arithmetic is done in integer stroops (1e8) to avoid
- * floating-point drift, then formatted back to 8 decimal places.
- */
-function computeRealizedPnl(
-  yesShares: number,
-  noShares: number,
-  lockedCollateralStr: string,
-  outcome: boolean // true = YES won, false = NO won
-): string {
-  const PRECISION = 100_000_000n; // 1e8
-  const winningShares = BigInt(outcome ? yesShares : noShares);
-  // lockedCollateral is already in collateral units with up to 8 decimals
-  const [whole, frac = ""] = lockedCollateralStr.split(".");
-  const fracPadded = frac.padEnd(8, "0").slice(0, 8);
-  const costBasisStroops = BigInt(whole) * PRECISION + BigInt(fracPadded);
-  const payoutStroops = winningShares * PRECISION;
-  const pnlStroops = payoutStroops - costBasisStroops;
-  // Format back to 8 decimal places, preserving sign
-  const sign = pnlStroops < 0n ? "-" : "";
-  const abs = pnlStroops < 0n ? -pnlStroops : pnlStroops;
-  const wholeOut = abs / PRECISION;
-  const fracOut = (abs % PRECISION).toString().padStart(8, "0");
-  return `${sign}${wholeOut}.${fracOut}`;
-}
-
 /**
  * Compute unrealized PnL for an open position.
  *
@@ -283,41 +266,9 @@ export default async function positionsRouter(server: FastifyInstance) {
       // Fetch best bid/ask per market for unrealized PnL pricing — skipped
       // unless PnL was requested, since it's an extra query per market.
       const marketIds = [...new Set(positions.map((p) => p.marketId))];
-      const orderGroups =
-        includePnl && marketIds.length > 0
-          ? await (prisma as any).order.groupBy({
-              by: ["marketId", "side"],
-              where: {
-                marketId: { in: marketIds },
-                status: { in: ["OPEN", "PARTIALLY_FILLED"] },
-                outcome: "YES",
-              },
-              _min: { price: true },
-              _max: { price: true },
-            })
-          : [];
-
-      // Build mid-price map per market
-      const midPriceMap = new Map<string, number | null>();
-      for (const marketId of marketIds) {
-        const ask = orderGroups.find(
-          (g: any) => g.marketId === marketId && g.side === "SELL"
-        );
-        const bid = orderGroups.find(
-          (g: any) => g.marketId === marketId && g.side === "BUY"
-        );
-        const askPrice = ask?._min?.price ? Number(ask._min.price) : null;
-        const bidPrice = bid?._max?.price ? Number(bid._max.price) : null;
-        if (askPrice !== null && bidPrice !== null) {
-          midPriceMap.set(marketId, (askPrice + bidPrice) / 2);
-        } else if (askPrice !== null) {
-          midPriceMap.set(marketId, askPrice);
-        } else if (bidPrice !== null) {
-          midPriceMap.set(marketId, bidPrice);
-        } else {
-          midPriceMap.set(marketId, null);
-        }
-      }
+      const midPriceMap = includePnl
+        ? await getYesMidPrices(prisma, marketIds)
+        : new Map<string, number | null>();
       const collateralMap = await getCalculatedCollateralMap(
         prisma,
         wallet,
@@ -487,4 +438,109 @@ export default async function positionsRouter(server: FastifyInstance) {
       success(reply, { wallet, marketId, position: exposure });
     }
   );
+
+  server.get<{
+    Params: GetWalletPositionsParams;
+    Querystring: GetPortfolioHistoryQuery;
+  }>(
+    "/wallets/:wallet/portfolio/history",
+    {
+      onRequest: [heavyReadLimiter],
+      schema: {
+        params: {
+          type: "object",
+          required: ["wallet"],
+          properties: {
+            wallet: {
+              type: "string",
+              pattern: STELLAR_PUBLIC_KEY_REGEX.source,
+              description:
+                "Stellar public key (StrKey): starts with G and is 56 chars using [A-Z2-7]",
+            },
+          },
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            from: {
+              type: "string",
+              format: "date-time",
+              description: `Start of the window (inclusive). Defaults to ${DEFAULT_HISTORY_DAYS} days before to.`,
+            },
+            to: {
+              type: "string",
+              format: "date-time",
+              description: "End of the window (inclusive). Defaults to now.",
+            },
+            marketId: {
+              type: "string",
+              description: "Only include this market",
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{
+        Params: GetWalletPositionsParams;
+        Querystring: GetPortfolioHistoryQuery;
+      }>,
+      reply: FastifyReply
+    ) => {
+      const { wallet } = request.params;
+      const { marketId } = request.query;
+      const prisma = getPrismaClient();
+
+      const addressError = validateUserAddress(wallet);
+      if (addressError) {
+        throw new ValidationError(addressError);
+      }
+
+      const to = request.query.to ? new Date(request.query.to) : new Date();
+      const from = request.query.from
+        ? new Date(request.query.from)
+        : new Date(to.getTime() - DEFAULT_HISTORY_DAYS * DAY_MS);
+      if (from.getTime() > to.getTime()) {
+        throw new ValidationError("from must not be after to", {
+          from: "Must not be after to",
+        });
+      }
+      if (to.getTime() - from.getTime() > MAX_HISTORY_DAYS * DAY_MS) {
+        throw new ValidationError(
+          `The window can span at most ${MAX_HISTORY_DAYS} days`,
+          { from: `Must be within ${MAX_HISTORY_DAYS} days of to` }
+        );
+      }
+
+      const rows = await prisma.position.findMany({
+        where: {
+          walletAddress: wallet,
+          snapshotAt: { gte: from, lte: to },
+          ...(marketId ? { marketId } : {}),
+        },
+        select: {
+          marketId: true,
+          valuation: true,
+          costBasis: true,
+          markPrice: true,
+          snapshotAt: true,
+        },
+        orderBy: { snapshotAt: "asc" },
+      });
+      const points = buildPortfolioHistory(rows);
+
+      request.log.info(
+        { wallet, marketId, points: points.length },
+        "wallet portfolio history fetched"
+      );
+
+      success(reply, {
+        wallet,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        points,
+        count: points.length,
+      });
+    }
+  );
 }
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import fastify from "fastify";
+import { Keypair } from "@stellar/stellar-sdk";
+import { receiptsRoutes } from "./receipts";
+import { errorHandler } from "../middleware/errorHandler";
+import { signingService } from "../../services/signing";
+
+const mockPrisma = {
+  receipt: { findUnique: vi.fn(), findMany: vi.fn() },
+  trade: { findMany: vi.fn() },
+};
+
+vi.mock("../../services/prisma", () => ({
+  getPrismaClient: () => mockPrisma,
+}));
+
+vi.mock("../middleware/rateLimiter", () => ({
+  heavyReadLimiter: async () => {},
+}));
+
+const operatorKey = Keypair.random();
+
+const tradeData = {
+  tradeId: "trade-1",
+  marketId: "market-1",
+  outcome: "NO" as const,
+  buyerAddress: "GBUYER",
+  sellerAddress: "GSELLER",
+  buyOrderId: "order-1",
+  sellOrderId: "order-2",
+  price: 0.3,
+  quantity: 5,
+  matchType: "MINT" as const,
+  timestamp: 1_700_000_000_000,
+};
+
+describe("Receipts Routes", () => {
+  const createTestServer = async () => {
+    const app = fastify();
+    app.setErrorHandler(errorHandler);
+    await app.register(receiptsRoutes);
+    return app;
+  };
+
+  beforeAll(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    process.env.ORACLE_SECRET_KEY = operatorKey.secret();
+    signingService.initialize();
+  });
+
+  it("publishes the operator public key", async () => {
+    const app = await createTestServer();
+    const response = await app.inject({
+      method: "GET",
+      url: "/receipts/public-key",
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toEqual({
+      publicKey: operatorKey.publicKey(),
+    });
+  });
+
+  it("verifies a trade receipt signed by the operator", async () => {
+    const app = await createTestServer();
+    const receipt = signingService.signTradeReceipt(tradeData);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/receipts/verify",
+      payload: receipt,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data).toEqual({
+      isValid: true,
+      isOperatorKey: true,
+    });
+  });
+
+  it("reports a tampered receipt as invalid", async () => {
+    const app = await createTestServer();
+    const receipt = signingService.signTradeReceipt(tradeData);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/receipts/verify",
+      payload: { ...receipt, tradeData: { ...tradeData, quantity: 50 } },
+    });
+
+    expect(JSON.parse(response.body).data).toEqual({
+      isValid: false,
+      isOperatorKey: true,
+      error: "Signature verification failed",
+    });
+  });
+
+  it("returns an order's stored receipts", async () => {
+    const app = await createTestServer();
+    const stored = signingService.signTradeReceipt(tradeData);
+    mockPrisma.receipt.findUnique.mockResolvedValue({
+      payload: { orderId: "order-1" },
+      signature: "sig-order",
+      publicKey: operatorKey.publicKey(),
+    });
+    mockPrisma.trade.findMany.mockResolvedValue([{ tradeId: "trade-1" }]);
+    mockPrisma.receipt.findMany.mockResolvedValue([
+      {
+        payload: stored.tradeData,
+        signature: stored.signature,
+        publicKey: stored.publicKey,
+      },
+    ]);
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/orders/order-1/receipts",
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data.trades).toEqual([stored]);
+    expect(mockPrisma.trade.findMany).toHaveBeenCalledWith({
+      where: { OR: [{ buyOrderId: "order-1" }, { sellOrderId: "order-1" }] },
+      select: { tradeId: true },
+    });
+  });
+});
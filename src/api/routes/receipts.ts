@@ -0,0 +1,146 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import {
+  getOrderReceipts,
+  verifyReceipt,
+  type ReceiptToVerify,
+} from "../../services/receipts.js";
+import { signingService } from "../../services/signing.js";
+import { STELLAR_PUBLIC_KEY_REGEX } from "../../matching/validation.js";
+import { heavyReadLimiter } from "../middleware/rateLimiter.js";
+import { success } from "../middleware/responses.js";
+
+interface GetOrderReceiptsParams {
+  id: string;
+}
+
+const orderDataSchema = {
+  type: "object",
+  required: [
+    "orderId",
+    "userAddress",
+    "side",
+    "outcome",
+    "price",
+    "quantity",
+    "timestamp",
+  ],
+  properties: {
+    orderId: { type: "string" },
+    marketId: { type: "string" },
+    userAddress: { type: "string" },
+    side: { type: "string", enum: ["BUY", "SELL"] },
+    outcome: { type: "string", enum: ["YES", "NO"] },
+    price: { type: "number" },
+    quantity: { type: "number" },
+    timestamp: { type: "number" },
+  },
+} as const;
+
+const tradeDataSchema = {
+  type: "object",
+  required: [
+    "tradeId",
+    "marketId",
+    "outcome",
+    "buyerAddress",
+    "sellerAddress",
+    "buyOrderId",
+    "sellOrderId",
+    "price",
+    "quantity",
+    "matchType",
+    "timestamp",
+  ],
+  properties: {
+    tradeId: { type: "string" },
+    marketId: { type: "string" },
+    outcome: { type: "string", enum: ["YES", "NO"] },
+    buyerAddress: { type: "string" },
+    sellerAddress: { type: "string" },
+    buyOrderId: { type: "string" },
+    sellOrderId: { type: "string" },
+    price: { type: "number" },
+    quantity: { type: "number" },
+    matchType: { type: "string", enum: ["DIRECT", "MINT", "MERGE"] },
+    timestamp: { type: "number" },
+  },
+} as const;
+
+/** Response schema of a SignedOrderReceipt; shared with POST /orders. */
+export const signedOrderReceiptSchema = {
+  type: "object",
+  properties: {
+    orderData: orderDataSchema,
+    signature: { type: "string" },
+    publicKey: { type: "string" },
+  },
+} as const;
+
+/** Response schema of a SignedTradeReceipt; shared with POST /orders. */
+export const signedTradeReceiptSchema = {
+  type: "object",
+  properties: {
+    tradeData: tradeDataSchema,
+    signature: { type: "string" },
+    publicKey: { type: "string" },
+  },
+} as const;
+
+export async function receiptsRoutes(fastify: FastifyInstance) {
+  // GET /receipts/public-key — the operator key every receipt is signed with
+  fastify.get("/receipts/public-key", async (_request, reply) => {
+    success(reply, { publicKey: signingService.getPublicKey() });
+  });
+
+  // GET /orders/:id/receipts — the order's receipt plus one per trade that
+  // filled it, whether the order was the taker or a resting maker
+  fastify.get<{ Params: GetOrderReceiptsParams }>(
+    "/orders/:id/receipts",
+    {
+      onRequest: [heavyReadLimiter],
+      schema: {
+        params: {
+          type: "object",
+          required: ["id"],
+          properties: { id: { type: "string", minLength: 1 } },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: GetOrderReceiptsParams }>,
+      reply: FastifyReply
+    ) => {
+      success(reply, await getOrderReceipts(request.params.id));
+    }
+  );
+
+  // POST /receipts/verify — check a receipt against its signature. The
+  // result also says whether the key is this operator's, since a valid
+  // signature from any other key is worthless in a dispute.
+  fastify.post<{ Body: ReceiptToVerify }>(
+    "/receipts/verify",
+    {
+      schema: {
+        body: {
+          type: "object",
+          required: ["signature", "publicKey"],
+          properties: {
+            orderData: orderDataSchema,
+            tradeData: tradeDataSchema,
+            signature: { type: "string", minLength: 1 },
+            publicKey: {
+              type: "string",
+              pattern: STELLAR_PUBLIC_KEY_REGEX.source,
+            },
+          },
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Body: ReceiptToVerify }>,
+      reply: FastifyReply
+    ) => {
+      success(reply, verifyReceipt(request.body));
+    }
+  );
+}
@@ -3,7 +3,7 @@
  * Keep in sync with src/index.ts registrations and docs/api-versioning.md.
  */
 export interface CanonicalRoute {
-  method: "GET" | "POST" | "PATCH";
+  method: "GET" | "POST" | "PATCH" | "DELETE";
   path: string;
   legacyAlias?: string;
   notes?: string;
@@ -23,7 +23,37 @@ export const CANONICAL_V1_ROUTES: CanonicalRoute[] = [
     path: "/v1/markets/:id/orderbook",
     legacyAlias: "/markets/:id/orderbook",
   },
+  {
+    method: "GET",
+    path: "/v1/markets/:id/candles",
+    notes: "OHLCV candles per outcome",
+  },
+  {
+    method: "GET",
+    path: "/v1/markets/:id/trades",
+    notes: "Public trade tape",
+  },
+  {
+    method: "POST",
+    path: "/v1/markets/:id/resolution/challenges",
+    notes: "Signed resolution challenge",
+  },
   { method: "POST", path: "/v1/orders", legacyAlias: "/orders" },
+  {
+    method: "DELETE",
+    path: "/v1/orders",
+    notes: "Bulk cancel a wallet's orders in one market",
+  },
+  {
+    method: "DELETE",
+    path: "/v1/orders/:id",
+    notes: "Cancel a single resting order",
+  },
+  {
+    method: "GET",
+    path: "/v1/orders/:id/receipts",
+    notes: "Signed order and fill receipts",
+  },
   {
     method: "GET",
     path: "/v1/orders/user/:address",
@@ -34,6 +64,21 @@ export const CANONICAL_V1_ROUTES: CanonicalRoute[] = [
     path: "/v1/trades/user/:address",
     legacyAlias: "/trades/user/:address",
   },
+  {
+    method: "GET",
+    path: "/v1/receipts/public-key",
+    notes: "Operator receipt signing key",
+  },
+  {
+    method: "POST",
+    path: "/v1/receipts/verify",
+    notes: "Verify a signed receipt",
+  },
+  {
+    method: "GET",
+    path: "/v1/stream",
+    notes: "WebSocket feed; plain HTTP gets 426",
+  },
   {
     method: "GET",
     path: "/v1/wallets/:wallet/positions",
@@ -45,18 +90,148 @@ export const CANONICAL_V1_ROUTES: CanonicalRoute[] = [
     path: "/v1/wallets/:wallet/positions/:marketId",
     notes: "Single-market position read",
   },
+  {
+    method: "GET",
+    path: "/v1/wallets/:wallet/portfolio/history",
+    notes: "Portfolio value and PnL history",
+  },
+  {
+    method: "GET",
+    path: "/v1/wallets/:wallet/balances",
+    notes: "Wallet collateral balances",
+  },
   {
     method: "GET",
     path: "/v1/admin/markets",
     legacyAlias: "/admin/markets",
     notes: "Requires API key and admin auth",
   },
+  {
+    method: "POST",
+    path: "/v1/admin/markets",
+    notes: "Create market (admin auth)",
+  },
   {
     method: "PATCH",
     path: "/v1/admin/markets/:id/status",
     legacyAlias: "/admin/markets/:id/status",
     notes: "Requires API key and admin auth",
   },
+  {
+    method: "POST",
+    path: "/v1/admin/markets/:id/resolution",
+    notes: "Manual resolution (admin)",
+  },
+  {
+    method: "PATCH",
+    path: "/v1/admin/markets/:id/resolution",
+    notes: "Correct a resolution (admin)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/markets/:id/transitions",
+    notes: "Status history (admin auth)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/challenges",
+    notes: "List challenges (admin auth)",
+  },
+  {
+    method: "POST",
+    path: "/v1/admin/challenges/:id/adjudication",
+    notes: "Rule on a challenge (admin)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/dead-letters/:queue",
+    notes: "List dead letters (admin)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/dead-letters/:queue/:id",
+    notes: "Single dead letter (admin)",
+  },
+  {
+    method: "POST",
+    path: "/v1/admin/dead-letters/:queue/replay",
+    notes: "Replay dead letters (admin)",
+  },
+  {
+    method: "POST",
+    path: "/v1/admin/dead-letters/:queue/purge",
+    notes: "Purge dead letters (admin)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/dead-letter-audits",
+    notes: "Dead-letter audit log (admin)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/settlements/stuck",
+    notes: "Stuck settlements (admin)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/reconciliation/trades",
+    notes: "Trade discrepancies (admin)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/positions/drift",
+    notes: "Position drift (admin)",
+  },
+  {
+    method: "POST",
+    path: "/v1/admin/positions/drift/repair",
+    notes: "Repair position drift (admin)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/oracle/source-aliases",
+    notes: "Oracle source aliases (admin)",
+  },
+  {
+    method: "POST",
+    path: "/v1/admin/oracle/source-aliases",
+    notes: "Map a source alias (admin)",
+  },
+  {
+    method: "PATCH",
+    path: "/v1/admin/oracle/source-aliases/:id",
+    notes: "Remap a source alias (admin)",
+  },
+  {
+    method: "DELETE",
+    path: "/v1/admin/oracle/source-aliases/:id",
+    notes: "Remove a source alias (admin)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/oracle/reports",
+    notes: "Oracle reports (admin)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/oracle/candidates",
+    notes: "Resolution candidates (admin)",
+  },
+  {
+    method: "GET",
+    path: "/v1/admin/oracle/submissions",
+    notes: "Submission queue (admin)",
+  },
+  {
+    method: "POST",
+    path: "/v1/admin/oracle/submissions/:id/retry",
+    notes: "Retry a submission (admin)",
+  },
+  {
+    method: "POST",
+    path: "/v1/admin/oracle/submissions/:id/cancel",
+    notes: "Cancel a submission (admin)",
+  },
   {
     method: "GET",
     path: "/v1/openapi.json",
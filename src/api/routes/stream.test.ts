@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import websocket from "@fastify/websocket";
+import { Keypair } from "@stellar/stellar-sdk";
+import type WebSocket from "ws";
+
+const { mockPrisma, mockMatchingService } = vi.hoisted(() => ({
+  mockPrisma: {
+    market: { findUnique: vi.fn() },
+  },
+  mockMatchingService: {
+    primeBookDepth: vi.fn(),
+  },
+}));
+
+vi.mock("../../services/prisma.js", () => ({
+  getPrismaClient: () => mockPrisma,
+}));
+
+vi.mock("../../matching/matching-service.js", () => ({
+  matchingService: mockMatchingService,
+}));
+
+import { streamRoutes } from "./stream.js";
+import { marketFeed } from "../../services/market-feed.js";
+import { buildSubscribeSignableMessage } from "../middleware/stellarAuth.js";
+
+type Message = Record<string, any>;
+
+/** Collects every message the server sends on `ws`. */
+function collect(ws: WebSocket) {
+  const received: Message[] = [];
+  const waiters: Array<() => void> = [];
+
+  ws.on("message", (raw) => {
+    received.push(JSON.parse(raw.toString()));
+    waiters.splice(0).forEach((wake) => wake());
+  });
+
+  return {
+    received,
+    /** Resolves once at least `count` messages have arrived. */
+    async waitFor(count: number): Promise<Message[]> {
+      while (received.length < count) {
+        await new Promise<void>((resolve) => waiters.push(resolve));
+      }
+      return received;
+    },
+  };
+}
+
+describe("GET /stream", () => {
+  let app: FastifyInstance;
+  let ws: WebSocket | undefined;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockPrisma.market.findUnique.mockImplementation(
+      async ({ where }: { where: { id: string } }) =>
+        where.id.startsWith("missing") ? null : { id: where.id }
+    );
+    mockMatchingService.primeBookDepth.mockResolvedValue(undefined);
+
+    app = Fastify();
+    await app.register(websocket);
+    await app.register(streamRoutes);
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    ws?.terminate();
+    ws = undefined;
+    await app.close();
+  });
+
+  it("returns 426 for plain HTTP requests", async () => {
+    const response = await app.inject({ method: "GET", url: "/stream" });
+
+    expect(response.statusCode).toBe(426);
+    expect(response.headers.upgrade).toBe("websocket");
+  });
+
+  it("sends a book snapshot, then updates with consecutive seq", async () => {
+    marketFeed.publishDepth("stream-m1", "YES", {
+      bids: [{ price: 0.5, quantity: 10, orderCount: 1 }],
+      asks: [],
+    });
+    const seqBefore = marketFeed.getSequence("book:stream-m1");
+
+    ws = await app.injectWS("/stream");
+    const inbox = collect(ws);
+    ws.send(JSON.stringify({ op: "subscribe", channel: "book:stream-m1" }));
+
+    const [snapshot] = await inbox.waitFor(1);
+    expect(mockMatchingService.primeBookDepth).toHaveBeenCalledWith(
+      "stream-m1"
+    );
+    expect(snapshot).toMatchObject({
+      type: "snapshot",
+      channel: "book:stream-m1",
+      seq: seqBefore,
+      data: { YES: { bids: [{ price: 0.5, quantity: 10 }] } },
+    });
+
+    marketFeed.publishDepth("stream-m1", "YES", { bids: [], asks: [] });
+
+    const [, update] = await inbox.waitFor(2);
+    expect(update).toMatchObject({
+      type: "update",
+      seq: seqBefore + 1,
+      data: { outcome: "YES", bids: [{ price: 0.5, quantity: 0 }] },
+    });
+  });
+
+  it("rejects a book subscription for an unknown market", async () => {
+    ws = await app.injectWS("/stream");
+    const inbox = collect(ws);
+    ws.send(JSON.stringify({ op: "subscribe", channel: "book:missing-1" }));
+
+    const [error] = await inbox.waitFor(1);
+    expect(error).toEqual({
+      type: "error",
+      channel: "book:missing-1",
+      error: "Market not found",
+    });
+    expect(mockMatchingService.primeBookDepth).not.toHaveBeenCalled();
+  });
+
+  it("rejects an unsigned orders subscription", async () => {
+    const wallet = Keypair.random().publicKey();
+
+    ws = await app.injectWS("/stream");
+    const inbox = collect(ws);
+    ws.send(JSON.stringify({ op: "subscribe", channel: `orders:${wallet}` }));
+
+    const [error] = await inbox.waitFor(1);
+    expect(error).toMatchObject({ type: "error", error: "Missing signature" });
+  });
+
+  it("delivers wallet updates after a signed orders subscription", async () => {
+    const keypair = Keypair.random();
+    const channel = `orders:${keypair.publicKey()}`;
+    const timestamp = Date.now();
+    const signature = keypair
+      .sign(
+        buildSubscribeSignableMessage({
+          channel,
+          timestamp,
+          userAddress: keypair.publicKey(),
+        })
+      )
+      .toString("base64");
+
+    ws = await app.injectWS("/stream");
+    const inbox = collect(ws);
+    ws.send(JSON.stringify({ op: "subscribe", channel, timestamp, signature }));
+
+    const [subscribed] = await inbox.waitFor(1);
+    expect(subscribed).toEqual({ type: "subscribed", channel, seq: 0 });
+
+    marketFeed.publish(channel, "order", { orderId: "order-1" });
+
+    const [, order] = await inbox.waitFor(2);
+    expect(order).toEqual({
+      type: "order",
+      channel,
+      seq: 1,
+      data: { orderId: "order-1" },
+    });
+  });
+
+  it("answers malformed messages with an error", async () => {
+    ws = await app.injectWS("/stream");
+    const inbox = collect(ws);
+    ws.send("not json");
+
+    const [error] = await inbox.waitFor(1);
+    expect(error).toEqual({
+      type: "error",
+      error: "Messages must be valid JSON",
+    });
+  });
+});
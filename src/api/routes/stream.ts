@@ -0,0 +1,216 @@
+import type { FastifyInstance } from "fastify";
+import type { WebSocket } from "@fastify/websocket";
+import { z } from "zod";
+import { getPrismaClient } from "../../services/prisma.js";
+import { matchingService } from "../../matching/matching-service.js";
+import { STELLAR_PUBLIC_KEY_REGEX } from "../../matching/validation.js";
+import { marketFeed, type FeedMessage } from "../../services/market-feed.js";
+import { verifySubscribeSignature } from "../middleware/stellarAuth.js";
+
+// ---------------------------------------------------------------------------
+// Client → server messages
+// ---------------------------------------------------------------------------
+
+const ClientMessageSchema = z.object({
+  op: z.enum(["subscribe", "unsubscribe"]),
+  channel: z.string().min(1).max(200),
+  // Only required for private orders:<wallet> channels
+  timestamp: z.number().optional(),
+  signature: z.string().optional(),
+});
+
+type ClientMessage = z.infer<typeof ClientMessageSchema>;
+
+// ---------------------------------------------------------------------------
+// Server → client control messages (feed data uses FeedMessage)
+// ---------------------------------------------------------------------------
+
+type ControlMessage =
+  | { type: "subscribed"; channel: string; seq: number }
+  | { type: "unsubscribed"; channel: string }
+  | { type: "error"; channel?: string; error: string };
+
+type ChannelKind = "book" | "trades" | "orders";
+
+interface ParsedChannel {
+  kind: ChannelKind;
+  /** marketId for book/trades channels, wallet address for orders */
+  target: string;
+}
+
+/** Upper bound on concurrent channel subscriptions per connection. */
+const MAX_SUBSCRIPTIONS_PER_SOCKET = 50;
+
+/**
+ * A connection whose unsent buffer grows past this is too slow to keep up
+ * and is closed; the client reconnects and resyncs from a fresh snapshot.
+ */
+const MAX_BUFFERED_BYTES = 1_048_576;
+
+// 1013 = Try Again Later
+const SLOW_CONSUMER_CLOSE_CODE = 1013;
+
+function parseChannel(channel: string): ParsedChannel | null {
+  const match = /^(book|trades|orders):(.+)$/.exec(channel);
+  if (!match) return null;
+
+  const kind = match[1] as ChannelKind;
+  const target = match[2];
+
+  if (kind === "orders" && !STELLAR_PUBLIC_KEY_REGEX.test(target)) {
+    return null;
+  }
+
+  return { kind, target };
+}
+
+async function marketExists(marketId: string): Promise<boolean> {
+  const prisma = getPrismaClient();
+  const market = await prisma.market.findUnique({
+    where: { id: marketId },
+    select: { id: true },
+  });
+  return market !== null;
+}
+
+/**
+ * Serves the real-time feed for one WebSocket connection.
+ *
+ * Every feed message carries a per-channel `seq`. A client that receives a
+ * `seq` other than the previous one plus one has missed messages and should
+ * resync by sending `subscribe` for the channel again, which replaces the
+ * subscription and delivers a fresh snapshot (book channels) or the current
+ * `seq` (trades and orders channels).
+ */
+function handleConnection(socket: WebSocket): void {
+  const subscriptions = new Map<string, () => void>();
+
+  const send = (message: FeedMessage | ControlMessage): void => {
+    if (socket.readyState !== socket.OPEN) return;
+
+    if (socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+      socket.close(SLOW_CONSUMER_CLOSE_CODE, "Slow consumer");
+      return;
+    }
+
+    socket.send(JSON.stringify(message));
+  };
+
+  const unsubscribe = (channel: string): void => {
+    subscriptions.get(channel)?.();
+    subscriptions.delete(channel);
+  };
+
+  const subscribe = async (message: ClientMessage): Promise<void> => {
+    const { channel } = message;
+    const parsed = parseChannel(channel);
+
+    if (!parsed) {
+      send({ type: "error", channel, error: "Unknown channel" });
+      return;
+    }
+
+    if (
+      !subscriptions.has(channel) &&
+      subscriptions.size >= MAX_SUBSCRIPTIONS_PER_SOCKET
+    ) {
+      send({ type: "error", channel, error: "Too many subscriptions" });
+      return;
+    }
+
+    if (parsed.kind === "orders") {
+      const authError = verifySubscribeSignature({
+        channel,
+        signature: message.signature,
+        timestamp: message.timestamp,
+        userAddress: parsed.target,
+      });
+      if (authError) {
+        send({ type: "error", channel, error: authError });
+        return;
+      }
+    } else if (!(await marketExists(parsed.target))) {
+      send({ type: "error", channel, error: "Market not found" });
+      return;
+    }
+
+    if (parsed.kind === "book") {
+      await matchingService.primeBookDepth(parsed.target);
+    }
+
+    // From here on nothing awaits, so no feed message can be published
+    // between taking the snapshot or seq and registering the listener.
+    if (socket.readyState !== socket.OPEN) return;
+
+    unsubscribe(channel);
+    subscriptions.set(channel, marketFeed.subscribe(channel, send));
+
+    if (parsed.kind === "book") {
+      send(marketFeed.getBookSnapshot(parsed.target));
+    } else {
+      send({
+        type: "subscribed",
+        channel,
+        seq: marketFeed.getSequence(channel),
+      });
+    }
+  };
+
+  socket.on("message", (raw) => {
+    let message: ClientMessage;
+    try {
+      const result = ClientMessageSchema.safeParse(JSON.parse(raw.toString()));
+      if (!result.success) {
+        send({ type: "error", error: "Invalid message" });
+        return;
+      }
+      message = result.data;
+    } catch {
+      send({ type: "error", error: "Messages must be valid JSON" });
+      return;
+    }
+
+    if (message.op === "unsubscribe") {
+      unsubscribe(message.channel);
+      send({ type: "unsubscribed", channel: message.channel });
+      return;
+    }
+
+    subscribe(message).catch(() => {
+      send({
+        type: "error",
+        channel: message.channel,
+        error: "Subscription failed",
+      });
+    });
+  });
+
+  socket.on("close", () => {
+    for (const channel of [...subscriptions.keys()]) {
+      unsubscribe(channel);
+    }
+  });
+}
+
+export async function streamRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /stream
+   *
+   * WebSocket endpoint for order book depth, public trades and private wallet
+   * order updates. Plain HTTP requests get 426 Upgrade Required.
+   */
+  fastify.route({
+    method: "GET",
+    url: "/stream",
+    handler: async (request, reply) => {
+      return reply.status(426).header("upgrade", "websocket").send({
+        error: "This endpoint requires a WebSocket upgrade",
+        requestId: request.id,
+        statusCode: 426,
+      });
+    },
+    wsHandler: (socket) => {
+      handleConnection(socket);
+    },
+  });
+}
@@ -61,5 +61,52 @@ export const config = {
      * Configured via ORACLE_POLL_INTERVAL_MS.
      */
     pollIntervalMs: env.ORACLE_POLL_INTERVAL_MS,
+    /**
+     * Stellar secret key that signs manually submitted resolutions, the same
+     * key the oracle signs its reports with.
+     * Configured via ORACLE_SECRET_KEY; manual resolutions are refused with
+     * a 503 while it is unset.
+     */
+    secretKey: env.ORACLE_SECRET_KEY,
+  },
+  matching: {
+    /**
+     * How often the API process sweeps expired GTT orders out of the
+     * in-memory books and the orders table (ms).
+     * Configured via ORDER_EXPIRY_SWEEP_INTERVAL_MS (default: 1000).
+     */
+    expirySweepIntervalMs: env.ORDER_EXPIRY_SWEEP_INTERVAL_MS,
+    /**
+     * How often the API process closes markets whose endTime has passed,
+     * halting their trading (ms).
+     * Configured via MARKET_CLOSE_INTERVAL_MS (default: 5000).
+     */
+    marketCloseIntervalMs: env.MARKET_CLOSE_INTERVAL_MS,
+    /**
+     * How often the API process recomputes the 24 hour volume of markets
+     * that traded recently (ms).
+     * Configured via MARKET_STATS_INTERVAL_MS (default: 60000).
+     */
+    marketStatsIntervalMs: env.MARKET_STATS_INTERVAL_MS,
+    /**
+     * How often the API process folds new trades into the stored OHLCV
+     * candles (ms).
+     * Configured via CANDLE_REFRESH_INTERVAL_MS (default: 10000).
+     */
+    candleRefreshIntervalMs: env.CANDLE_REFRESH_INTERVAL_MS,
+    /**
+     * How often the API process retries payout compensations that did not
+     * reach the compensation queue (ms).
+     * Configured via COMPENSATION_RELAY_INTERVAL_MS (default: 60000).
+     */
+    compensationRelayIntervalMs: env.COMPENSATION_RELAY_INTERVAL_MS,
+  },
+  feed: {
+    /**
+     * How often the WebSocket feed polls the global audit trade stream for
+     * new public trades (ms).
+     * Configured via TRADE_FEED_POLL_INTERVAL_MS (default: 250).
+     */
+    tradePollIntervalMs: env.TRADE_FEED_POLL_INTERVAL_MS,
   },
 } as const;
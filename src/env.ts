@@ -95,6 +95,28 @@ export const apiEnvSchema = z.object({
       })
       .default(30_000)
   ),
+  ORDER_EXPIRY_SWEEP_INTERVAL_MS: positiveInt(
+    "ORDER_EXPIRY_SWEEP_INTERVAL_MS"
+  ).default(1000),
+  TRADE_FEED_POLL_INTERVAL_MS: positiveInt(
+    "TRADE_FEED_POLL_INTERVAL_MS"
+  ).default(250),
+  MARKET_CLOSE_INTERVAL_MS: positiveInt("MARKET_CLOSE_INTERVAL_MS").default(
+    5000
+  ),
+  MARKET_STATS_INTERVAL_MS: positiveInt("MARKET_STATS_INTERVAL_MS").default(
+    60_000
+  ),
+  CANDLE_REFRESH_INTERVAL_MS: positiveInt("CANDLE_REFRESH_INTERVAL_MS").default(
+    10_000
+  ),
+  COMPENSATION_RELAY_INTERVAL_MS: positiveInt(
+    "COMPENSATION_RELAY_INTERVAL_MS"
+  ).default(60_000),
+  ORACLE_SECRET_KEY: z.preprocess(
+    emptyToUndefined,
+    z.string().trim().optional()
+  ),
 });
 
 export type ParsedApiEnv = z.infer<typeof apiEnvSchema>;
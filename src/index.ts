@@ -4,16 +4,20 @@ import Fastify, {
   type FastifyRequest,
   type FastifyReply,
 } from "fastify";
+import websocket from "@fastify/websocket";
 import { pathToFileURL } from "node:url";
 import { errorHandler } from "./api/middleware/errorHandler.js";
 import positionsRouter from "./api/routes/positions.js";
+import balancesRouter from "./api/routes/balances.js";
 import { NotFoundError, ValidationError } from "./api/middleware/errors.js";
 import { signingService } from "./services/signing.js";
 import "dotenv/config";
 import { getPrismaClient } from "./services/prisma.js";
 import { marketsRoutes } from "./api/routes/markets.js";
 import { ordersRoutes } from "./api/routes/orders.js";
+import { receiptsRoutes } from "./api/routes/receipts.js";
 import { adminRoutes } from "./api/routes/admin.js";
+import { streamRoutes } from "./api/routes/stream.js";
 import { healthRoutes } from "./api/routes/health.js";
 import { readyRoute } from "./api/routes/ready.js";
 import { createReadyDeps } from "./api/deps/ready-deps.js";
@@ -21,6 +25,7 @@ import { registerDeprecatedAliases } from "./api/routes/legacy.js";
 import { openApiSpec } from "./api/openapi.js";
 import { rateLimiter } from "./api/middleware/rateLimiter.js";
 import { requestLogger } from "./api/middleware/logger.js";
+import { requestMetrics } from "./api/middleware/metrics.js";
 import {
   makeGenReqId,
   requestIdMiddleware,
@@ -29,11 +34,18 @@ import { config } from "./config.js";
 import { parseApiEnv } from "./env.js";
 import { corsPlugin } from "./api/middleware/cors.js";
 import { redis } from "./services/redis.js";
+import { apiMetrics } from "./services/metrics.js";
+import {
+  resolveMetricsPort,
+  startMetricsServer,
+} from "../packages/shared/src/metrics.js";
 
 // Default: 64 KB. Override via BODY_LIMIT_BYTES env var.
 // Oversized requests are rejected with 413 Request Entity Too Large.
 const bodyLimit = Number(process.env.BODY_LIMIT_BYTES) || 65_536;
 
+const DEFAULT_METRICS_PORT = 9463;
+
 export interface BuildServerOptions {
   logger?: FastifyServerOptions["logger"];
   readyDeps?: Parameters<typeof readyRoute>[0];
@@ -85,9 +97,12 @@ export function buildServer(options: BuildServerOptions = {}): FastifyInstance {
   // Register request logger (before routes so every request is captured)
   server.register(requestLogger);
 
+  // Record per-route request latency for GET /metrics
+  server.register(requestMetrics);
+
   // Apply rate limiting globally, but exclude readiness/health probes
   // K8s readiness probes (GET /v1/ready) must not be rate-limited or
-  // blocked by authentication so the cluster can determine service health
+  // blocked by authentication so the cluster can determine service health.
   server.addHook("onRequest", (request, reply, done) => {
     const isHealthProbe =
       request.url === "/v1/ready" || request.url === "/v1/health";
@@ -98,6 +113,9 @@ export function buildServer(options: BuildServerOptions = {}): FastifyInstance {
     }
   });
 
+  // WebSocket support for the real-time feed at /v1/stream
+  server.register(websocket);
+
   // Register API routes under /v1
   server.register(
     async (v1) => {
@@ -115,8 +133,11 @@ export function buildServer(options: BuildServerOptions = {}): FastifyInstance {
 
       await v1.register(marketsRoutes);
       await v1.register(ordersRoutes);
+      await v1.register(receiptsRoutes);
       await v1.register(positionsRouter);
+      await v1.register(balancesRouter);
       await v1.register(adminRoutes);
+      await v1.register(streamRoutes);
       await v1.register(healthRoutes);
       await v1.register(readyRoute(options.readyDeps ?? createReadyDeps()));
 
@@ -215,6 +236,74 @@ const start = async () => {
     const { matchingService } = await import("./matching/matching-service.js");
     await matchingService.hydrateAllActiveMarkets();
 
+    // Cancel GTT orders once their expiry passes, in both the books and
+    // Postgres. Runs here because the books live in this process.
+    const { OrderExpirySweeper } = await import("./matching/expiry-sweeper.js");
+    const expirySweeper = new OrderExpirySweeper(
+      matchingService,
+      config.matching.expirySweepIntervalMs
+    );
+    expirySweeper.start();
+
+    // Close markets at their endTime: halt their books and tell the oracle
+    const { closeEndedMarkets } =
+      await import("./services/market-lifecycle.js");
+    const { MarketCloseScheduler } =
+      await import("./services/market-close-scheduler.js");
+    const marketCloseScheduler = new MarketCloseScheduler(
+      { closeEndedMarkets },
+      config.matching.marketCloseIntervalMs
+    );
+    marketCloseScheduler.start();
+
+    // Let trades age out of the 24 hour volume in market statistics
+    const { refreshRollingVolumes } =
+      await import("./services/market-stats.js");
+    const { MarketStatsRefresher } =
+      await import("./services/market-stats-refresher.js");
+    const marketStatsRefresher = new MarketStatsRefresher(
+      {
+        refreshRollingVolumes: (now) =>
+          refreshRollingVolumes(getPrismaClient(), now),
+      },
+      config.matching.marketStatsIntervalMs
+    );
+    marketStatsRefresher.start();
+
+    // Fold new trades into the stored candles the candles route reads
+    const { refreshTradedCandles } = await import("./services/candles.js");
+    const { CandleRefresher } = await import("./services/candle-refresher.js");
+    const candleRefresher = new CandleRefresher(
+      {
+        refreshTradedCandles: (tradedSince, now) =>
+          refreshTradedCandles(getPrismaClient(), tradedSince, now),
+      },
+      config.matching.candleRefreshIntervalMs
+    );
+    candleRefresher.start();
+
+    // Retry payout compensations a resolution correction could not enqueue
+    const { relayPendingCompensations } =
+      await import("./services/resolution-corrections.js");
+    const { CompensationRelay } =
+      await import("./services/compensation-relay.js");
+    const compensationRelay = new CompensationRelay(
+      { relayPendingCompensations: () => relayPendingCompensations() },
+      config.matching.compensationRelayIntervalMs
+    );
+    compensationRelay.start();
+
+    // Republish trades from the global audit stream on the WebSocket feed
+    const { auditService } = await import("./services/audit.js");
+    const { marketFeed } = await import("./services/market-feed.js");
+    const { TradeFeedTailer } = await import("./services/trade-feed-tailer.js");
+    const tradeFeedTailer = new TradeFeedTailer(
+      auditService,
+      marketFeed,
+      config.feed.tradePollIntervalMs
+    );
+    tradeFeedTailer.start();
+
     const port = config.port;
     await server.listen({ port, host: "0.0.0.0" });
     server.log.info(
@@ -222,6 +311,13 @@ const start = async () => {
       `Server running at http://localhost:${port}`
     );
 
+    // Prometheus scrape endpoint on its own port, kept off the public API
+    const metricsPort = resolveMetricsPort(DEFAULT_METRICS_PORT);
+    const metricsServer = await startMetricsServer(apiMetrics, {
+      port: metricsPort,
+    });
+    server.log.info({ port: metricsPort }, "Metrics endpoint listening");
+
     // Graceful shutdown handling
     const VALID_SHUTDOWN_SIGNALS = ["SIGINT", "SIGTERM", "SIGHUP"] as const;
     type ShutdownSignal = (typeof VALID_SHUTDOWN_SIGNALS)[number];
@@ -277,8 +373,16 @@ const start = async () => {
       }, SHUTDOWN_TIMEOUT_MS);
 
       try {
+        expirySweeper.stop();
+        marketCloseScheduler.stop();
+        marketStatsRefresher.stop();
+        candleRefresher.stop();
+        compensationRelay.stop();
+        tradeFeedTailer.stop();
+
         // Close server — stops accepting new connections, drains in-flight requests
         await server.close();
+        metricsServer.close();
 
         // Gracefully disconnect database and redis
         const { disconnectPrisma } = await import("./services/prisma.js");
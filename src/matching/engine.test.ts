@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import {
   matchOrder,
+  wouldCross,
+  getFillableQuantity,
   MatchingOrder,
   Trade,
   MatchResult,
@@ -736,6 +738,420 @@ describe("matchOrder", () => {
     });
   });
 
+  describe("Time In Force", () => {
+    it("should rest the remainder of a GTC order by default", () => {
+      orderBook.addOrder(createBookOrder("sell-1", "ask", 0.5, 40, 1000));
+
+      const result = matchOrder(
+        createMatchingOrder("buy-1", "BUY", 0.5, 100),
+        orderBook
+      );
+
+      expect(result.remainingOrder?.quantity).toBe(60);
+      expect(result.cancelledQuantity).toBe(0);
+    });
+
+    it("should cancel the unfilled remainder of an IOC order", () => {
+      orderBook.addOrder(createBookOrder("sell-1", "ask", 0.5, 40, 1000));
+
+      const result = matchOrder(
+        {
+          ...createMatchingOrder("buy-1", "BUY", 0.5, 100),
+          timeInForce: "IOC",
+        },
+        orderBook
+      );
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0].quantity).toBe(40);
+      expect(result.remainingOrder).toBeNull();
+      expect(result.cancelledQuantity).toBe(60);
+    });
+
+    it("should fill an FOK order completely when liquidity is sufficient", () => {
+      orderBook.addOrder(createBookOrder("sell-1", "ask", 0.45, 60, 1000));
+      orderBook.addOrder(createBookOrder("sell-2", "ask", 0.5, 60, 2000));
+
+      const result = matchOrder(
+        {
+          ...createMatchingOrder("buy-1", "BUY", 0.5, 100),
+          timeInForce: "FOK",
+        },
+        orderBook
+      );
+
+      expect(result.trades.reduce((sum, t) => sum + t.quantity, 0)).toBe(100);
+      expect(result.cancelledQuantity).toBe(0);
+      expect(orderBook.getBestAsk()?.quantity).toBe(20);
+    });
+
+    it("should kill an FOK order without touching the book when it cannot fill", () => {
+      orderBook.addOrder(createBookOrder("sell-1", "ask", 0.45, 60, 1000));
+      orderBook.addOrder(createBookOrder("sell-2", "ask", 0.55, 60, 2000));
+
+      const result = matchOrder(
+        {
+          ...createMatchingOrder("buy-1", "BUY", 0.5, 100),
+          timeInForce: "FOK",
+        },
+        orderBook
+      );
+
+      expect(result.trades).toHaveLength(0);
+      expect(result.remainingOrder).toBeNull();
+      expect(result.cancelledQuantity).toBe(100);
+      expect(orderBook.getOrderCount()).toBe(2);
+      expect(orderBook.getBestAsk()?.quantity).toBe(60);
+    });
+
+    it("should reject a post-only order that would cross", () => {
+      orderBook.addOrder(createBookOrder("sell-1", "ask", 0.5, 40, 1000));
+
+      const result = matchOrder(
+        { ...createMatchingOrder("buy-1", "BUY", 0.5, 10), postOnly: true },
+        orderBook
+      );
+
+      expect(result.rejectReason).toBe("POST_ONLY_WOULD_CROSS");
+      expect(result.trades).toHaveLength(0);
+      expect(result.remainingOrder).toBeNull();
+      expect(orderBook.getBestAsk()?.quantity).toBe(40);
+    });
+
+    it("should rest a post-only order that does not cross", () => {
+      orderBook.addOrder(createBookOrder("sell-1", "ask", 0.6, 40, 1000));
+
+      const result = matchOrder(
+        { ...createMatchingOrder("buy-1", "BUY", 0.5, 10), postOnly: true },
+        orderBook
+      );
+
+      expect(result.rejectReason).toBeUndefined();
+      expect(result.remainingOrder?.quantity).toBe(10);
+    });
+
+    it("should sweep expired GTT makers instead of trading with them", () => {
+      orderBook.addOrder({
+        ...createBookOrder("sell-1", "ask", 0.45, 40, 1000),
+        expiresAt: Date.now() - 1,
+      });
+      orderBook.addOrder(createBookOrder("sell-2", "ask", 0.5, 40, 2000));
+
+      const result = matchOrder(
+        createMatchingOrder("buy-1", "BUY", 0.5, 40),
+        orderBook
+      );
+
+      expect(result.expiredOrderIds).toEqual(["sell-1"]);
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0].sellOrderId).toBe("sell-2");
+      expect(orderBook.getOrderCount()).toBe(0);
+    });
+
+    it("should ignore expired makers when checking fillability and crossing", () => {
+      orderBook.addOrder({
+        ...createBookOrder("sell-1", "ask", 0.45, 100, 1000),
+        expiresAt: Date.now() - 1,
+      });
+      const order = createMatchingOrder("buy-1", "BUY", 0.5, 100);
+
+      expect(getFillableQuantity(order, orderBook)).toBe(0);
+      expect(wouldCross(order, orderBook)).toBe(false);
+    });
+  });
+
+  describe("Market Orders", () => {
+    const marketBuy = (
+      quantity: number,
+      overrides: Partial<MatchingOrder> = {}
+    ): MatchingOrder => ({
+      ...createMatchingOrder("mkt-1", "BUY", 0.99, quantity),
+      orderType: "MARKET",
+      ...overrides,
+    });
+
+    it("should sweep multiple price levels up to the worst price", () => {
+      orderBook.addOrder(createBookOrder("sell-1", "ask", 0.4, 50, 1000));
+      orderBook.addOrder(createBookOrder("sell-2", "ask", 0.5, 50, 2000));
+      orderBook.addOrder(createBookOrder("sell-3", "ask", 0.7, 50, 3000));
+
+      const result = matchOrder(marketBuy(150, { price: 0.6 }), orderBook);
+
+      expect(result.trades.map((t) => t.price)).toEqual([0.4, 0.5]);
+      expect(result.remainingOrder).toBeNull();
+      expect(result.cancelledQuantity).toBe(50);
+      expect(orderBook.getBestAsk()?.id).toBe("sell-3");
+    });
+
+    it("should never rest the remainder, even with a GTC time in force", () => {
+      orderBook.addOrder(createBookOrder("sell-1", "ask", 0.4, 10, 1000));
+
+      const result = matchOrder(
+        marketBuy(100, { timeInForce: "GTC" }),
+        orderBook
+      );
+
+      expect(result.remainingOrder).toBeNull();
+      expect(result.cancelledQuantity).toBe(90);
+      expect(orderBook.getBestBid()).toBeNull();
+    });
+
+    it("should stop before total cost exceeds maxCost", () => {
+      orderBook.addOrder(createBookOrder("sell-1", "ask", 0.4, 10, 1000));
+      orderBook.addOrder(createBookOrder("sell-2", "ask", 0.6, 10, 2000));
+
+      // 10 × 0.4 = 4.0, leaving 2.0 → 3 shares at 0.6
+      const result = matchOrder(marketBuy(100, { maxCost: 6 }), orderBook);
+
+      expect(result.trades.map((t) => t.quantity)).toEqual([10, 3]);
+      expect(result.cancelledQuantity).toBe(87);
+      expect(orderBook.getBestAsk()?.quantity).toBe(7);
+    });
+
+    it("should spend exactly maxCost despite float drift", () => {
+      orderBook.addOrder(createBookOrder("sell-1", "ask", 0.7, 100, 1000));
+
+      const result = matchOrder(marketBuy(100, { maxCost: 2.1 }), orderBook);
+
+      expect(result.trades[0].quantity).toBe(3);
+    });
+
+    it("should sell into bids down to the worst price", () => {
+      orderBook.addOrder(createBookOrder("buy-1", "bid", 0.6, 20, 1000));
+      orderBook.addOrder(createBookOrder("buy-2", "bid", 0.3, 20, 2000));
+
+      const result = matchOrder(
+        {
+          ...createMatchingOrder("mkt-sell", "SELL", 0.5, 40),
+          orderType: "MARKET",
+        },
+        orderBook
+      );
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0].price).toBe(0.6);
+      expect(result.cancelledQuantity).toBe(20);
+    });
+
+    it("should apply maxCost to FOK fillability", () => {
+      orderBook.addOrder(createBookOrder("sell-1", "ask", 0.5, 100, 1000));
+      const order = marketBuy(100, { maxCost: 40, timeInForce: "FOK" });
+
+      expect(getFillableQuantity(order, orderBook)).toBe(80);
+
+      const result = matchOrder(order, orderBook);
+      expect(result.trades).toHaveLength(0);
+      expect(result.cancelledQuantity).toBe(100);
+      expect(orderBook.getBestAsk()?.quantity).toBe(100);
+    });
+  });
+
+  describe("Cross-Outcome Matching", () => {
+    const noMaker = "GNOMAKER23456789012345678901234567890123456789012345";
+    let noBook: OrderBook;
+
+    const noBookOrder = (
+      id: string,
+      side: "bid" | "ask",
+      price: number,
+      quantity: number,
+      timestamp: number = Date.now()
+    ): BookOrder => ({
+      ...createBookOrder(id, side, price, quantity, timestamp, noMaker),
+      outcome: 1,
+    });
+
+    beforeEach(() => {
+      noBook = new OrderBook(marketId, 1);
+    });
+
+    it("should mint a complete set from complementary bids", () => {
+      noBook.addOrder(noBookOrder("no-bid-1", "bid", 0.4, 50));
+
+      const result = matchOrder(
+        createMatchingOrder("yes-buy", "BUY", 0.65, 30),
+        orderBook,
+        {},
+        noBook
+      );
+
+      expect(result.trades).toHaveLength(2);
+      expect(result.trades[0]).toMatchObject({
+        outcome: "YES",
+        buyOrderId: "yes-buy",
+        sellOrderId: "no-bid-1",
+        sellerAddress: noMaker,
+        price: 0.6,
+        quantity: 30,
+        matchType: "MINT",
+      });
+      expect(result.trades[1]).toMatchObject({
+        outcome: "NO",
+        buyOrderId: "no-bid-1",
+        buyerAddress: noMaker,
+        sellOrderId: "yes-buy",
+        price: 0.4,
+        quantity: 30,
+        matchType: "MINT",
+      });
+      expect(result.trades[0].id).not.toBe(result.trades[1].id);
+      expect(result.remainingOrder).toBeNull();
+      expect(noBook.getBestBid()?.quantity).toBe(20);
+    });
+
+    it("should only credit the buyers of a mint with shares", () => {
+      noBook.addOrder(noBookOrder("no-bid-1", "bid", 0.4, 50));
+
+      const result = matchOrder(
+        createMatchingOrder("yes-buy", "BUY", 0.6, 30),
+        orderBook,
+        {},
+        noBook
+      );
+
+      const byUser = new Map(
+        result.positionDeltas.map((d) => [d.userAddress, d])
+      );
+      expect(
+        byUser.get("GTAKER1234567890123456789012345678901234567890123456")
+      ).toMatchObject({ yesSharesDelta: 30, noSharesDelta: 0 });
+      expect(byUser.get(noMaker)).toMatchObject({
+        yesSharesDelta: 0,
+        noSharesDelta: 30,
+      });
+    });
+
+    it("should not mint when complementary bids sum to less than 1", () => {
+      noBook.addOrder(noBookOrder("no-bid-1", "bid", 0.3, 50));
+
+      const result = matchOrder(
+        createMatchingOrder("yes-buy", "BUY", 0.6, 30),
+        orderBook,
+        {},
+        noBook
+      );
+
+      expect(result.trades).toHaveLength(0);
+      expect(result.remainingOrder?.quantity).toBe(30);
+      expect(noBook.getBestBid()?.quantity).toBe(50);
+    });
+
+    it("should merge complementary asks and debit only the sellers", () => {
+      noBook.addOrder(noBookOrder("no-ask-1", "ask", 0.35, 10));
+
+      const result = matchOrder(
+        createMatchingOrder("yes-sell", "SELL", 0.6, 10),
+        orderBook,
+        {},
+        noBook
+      );
+
+      expect(result.trades.map((t) => [t.outcome, t.price])).toEqual([
+        ["YES", 0.65],
+        ["NO", 0.35],
+      ]);
+      expect(result.trades.every((t) => t.matchType === "MERGE")).toBe(true);
+      expect(result.trades[0].sellOrderId).toBe("yes-sell");
+      expect(result.trades[1].sellOrderId).toBe("no-ask-1");
+      expect(result.positionDeltas).toEqual(
+        expect.arrayContaining([
+          {
+            userAddress: "GTAKER1234567890123456789012345678901234567890123456",
+            yesSharesDelta: -10,
+            noSharesDelta: 0,
+          },
+          { userAddress: noMaker, yesSharesDelta: 0, noSharesDelta: -10 },
+        ])
+      );
+      expect(noBook.getBestAsk()).toBeNull();
+    });
+
+    it("should take the better price across both books", () => {
+      orderBook.addOrder(createBookOrder("yes-ask-1", "ask", 0.62, 10, 1000));
+      noBook.addOrder(noBookOrder("no-bid-1", "bid", 0.4, 10, 2000));
+
+      const result = matchOrder(
+        createMatchingOrder("yes-buy", "BUY", 0.65, 20),
+        orderBook,
+        {},
+        noBook
+      );
+
+      // Mint at 0.60 first, then the direct ask at 0.62
+      expect(
+        result.trades
+          .filter((t) => t.outcome === "YES")
+          .map((t) => [t.price, t.matchType])
+      ).toEqual([
+        [0.6, "MINT"],
+        [0.62, undefined],
+      ]);
+    });
+
+    it("should prefer the same book at equal prices", () => {
+      orderBook.addOrder(createBookOrder("yes-ask-1", "ask", 0.6, 10, 2000));
+      noBook.addOrder(noBookOrder("no-bid-1", "bid", 0.4, 10, 1000));
+
+      const result = matchOrder(
+        createMatchingOrder("yes-buy", "BUY", 0.6, 10),
+        orderBook,
+        {},
+        noBook
+      );
+
+      expect(result.trades).toHaveLength(1);
+      expect(result.trades[0].sellOrderId).toBe("yes-ask-1");
+      expect(noBook.getBestBid()?.quantity).toBe(10);
+    });
+
+    it("should roll back both books when matching fails", () => {
+      noBook.addOrder(noBookOrder("no-bid-1", "bid", 0.4, 10, 1000));
+      orderBook.addOrder(createBookOrder("yes-ask-1", "ask", 0.62, 10, 2000));
+
+      expect(() =>
+        matchOrder(
+          createMatchingOrder("yes-buy", "BUY", 0.65, 20),
+          orderBook,
+          {
+            onTradeFilled: (trade) => {
+              if (trade.price === 0.62) throw new Error("audit down");
+            },
+          },
+          noBook
+        )
+      ).toThrow("audit down");
+
+      expect(noBook.getBestBid()?.quantity).toBe(10);
+      expect(orderBook.getBestAsk()?.quantity).toBe(10);
+    });
+
+    it("should count complementary liquidity for FOK and post-only", () => {
+      orderBook.addOrder(createBookOrder("yes-ask-1", "ask", 0.5, 10, 1000));
+      noBook.addOrder(noBookOrder("no-bid-1", "bid", 0.5, 10, 2000));
+      const fok: MatchingOrder = {
+        ...createMatchingOrder("yes-fok", "BUY", 0.5, 20),
+        timeInForce: "FOK",
+      };
+
+      expect(getFillableQuantity(fok, orderBook)).toBe(10);
+      expect(getFillableQuantity(fok, orderBook, Date.now(), noBook)).toBe(20);
+      expect(
+        wouldCross(
+          createMatchingOrder("yes-buy", "BUY", 0.5, 1),
+          new OrderBook(marketId, 0),
+          Date.now(),
+          noBook
+        )
+      ).toBe(true);
+
+      const result = matchOrder(fok, orderBook, {}, noBook);
+      expect(result.cancelledQuantity).toBe(0);
+      expect(
+        result.trades.filter((t) => t.outcome === "YES").map((t) => t.price)
+      ).toEqual([0.5, 0.5]);
+    });
+  });
+
   describe("outcomeToNumber", () => {
     it("should convert YES to 0", () => {
       expect(outcomeToNumber("YES")).toBe(0);
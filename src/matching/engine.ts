@@ -1,4 +1,10 @@
-import type { Outcome, OrderSide } from "../types/index.js";
+import type {
+  MatchType,
+  Outcome,
+  OrderSide,
+  OrderType,
+  TimeInForce,
+} from "../types/index.js";
 import type { Order as BookOrder } from "./orderbook.js";
 import { OrderBook } from "./orderbook.js";
 
@@ -6,11 +12,28 @@ export interface MatchingOrder {
   id: string;
   userAddress: string;
   side: OrderSide;
+  /** Limit price, or the worst acceptable price for MARKET orders. */
   price: number;
   quantity: number;
   marketId: string;
   outcome: Outcome;
   timestamp: number;
+  /** LIMIT (default) or MARKET. MARKET orders never rest in the book. */
+  orderType?: OrderType;
+  /** MARKET BUY only: total price × quantity the order may spend. */
+  maxCost?: number;
+  /**
+   * How long the order stays working. Defaults to GTC.
+   * - GTC: rests until filled or cancelled
+   * - IOC: fills what it can immediately, the remainder is cancelled
+   * - FOK: fills completely or not at all; never rests
+   * - GTT: rests until `expiresAt`, then is swept
+   */
+  timeInForce?: TimeInForce;
+  /** Reject the order instead of taking liquidity if it would cross. */
+  postOnly?: boolean;
+  /** Epoch ms expiry for GTT orders. */
+  expiresAt?: number;
 }
 
 export interface Trade {
@@ -24,6 +47,17 @@ export interface Trade {
   price: number;
   quantity: number;
   timestamp: number;
+  /**
+   * Set when the fill crossed into the complementary outcome's book
+   * (absent for ordinary same-book trades). Each such fill records one
+   * trade per book, priced so the two sum to 1:
+   * - MINT: two bids paired into a newly minted YES/NO set; only the buyer
+   *   of each trade receives shares
+   * - MERGE: two asks paired into a set that is redeemed for collateral;
+   *   only the seller of each trade gives up shares
+   * The counterparty fields name the user on the other outcome's book.
+   */
+  matchType?: Exclude<MatchType, "DIRECT">;
 }
 
 export interface PositionDelta {
@@ -32,10 +66,19 @@ export interface PositionDelta {
   noSharesDelta: number;
 }
 
+export type MatchRejectReason = "POST_ONLY_WOULD_CROSS";
+
 export interface MatchResult {
   trades: Trade[];
+  /** Unfilled quantity that should rest in the book (GTC/GTT only). */
   remainingOrder: MatchingOrder | null;
   positionDeltas: PositionDelta[];
+  /** Unfilled quantity dropped by IOC/FOK instead of resting. */
+  cancelledQuantity: number;
+  /** Expired GTT makers removed from the book while matching. */
+  expiredOrderIds: string[];
+  /** Set when the order was refused outright and nothing was executed. */
+  rejectReason?: MatchRejectReason;
 }
 
 export interface MatchHooks {
@@ -107,6 +150,122 @@ function outcomeToNumber(outcome: Outcome): number {
   return outcome === "YES" ? 0 : 1;
 }
 
+function otherOutcome(outcome: Outcome): Outcome {
+  return outcome === "YES" ? "NO" : "YES";
+}
+
+/**
+ * The price in one outcome equivalent to `price` in the other (1 - price),
+ * rounded to absorb float drift on tick-aligned prices.
+ */
+export function complementPrice(price: number): number {
+  return Math.round((1 - price) * 1e8) / 1e8;
+}
+
+/** A resting order the taker can trade against, at the taker's price. */
+interface Liquidity {
+  bookOrder: BookOrder;
+  /** Price in the taker's outcome */
+  price: number;
+  /** True when the maker rests in the complementary outcome's book */
+  complementary: boolean;
+}
+
+/**
+ * Whether `a` is at least as good as `b` for the taker. Ties go to `a`, so
+ * same-book liquidity passed as `a` keeps priority at equal prices.
+ */
+function isAtLeastAsGood(a: number, b: number, takerSide: OrderSide): boolean {
+  return takerSide === "BUY" ? a <= b : a >= b;
+}
+
+/**
+ * The best resting order available to the taker right now: the top of the
+ * opposite side of its own book, or the top of the same side of the
+ * complementary book, whichever gives the better price.
+ */
+function getBestLiquidity(
+  order: MatchingOrder,
+  orderBook: OrderBook,
+  complementBook?: OrderBook
+): Liquidity | null {
+  const direct =
+    order.side === "BUY" ? orderBook.getBestAsk() : orderBook.getBestBid();
+  const complement = complementBook
+    ? order.side === "BUY"
+      ? complementBook.getBestBid()
+      : complementBook.getBestAsk()
+    : null;
+
+  const directLiquidity = direct
+    ? { bookOrder: direct, price: direct.price, complementary: false }
+    : null;
+  const complementLiquidity = complement
+    ? {
+        bookOrder: complement,
+        price: complementPrice(complement.price),
+        complementary: true,
+      }
+    : null;
+
+  if (!directLiquidity) return complementLiquidity;
+  if (!complementLiquidity) return directLiquidity;
+
+  return isAtLeastAsGood(
+    directLiquidity.price,
+    complementLiquidity.price,
+    order.side
+  )
+    ? directLiquidity
+    : complementLiquidity;
+}
+
+/**
+ * Walk all liquidity available to the taker in price priority, merging its
+ * own book with the complementary book. Read-only.
+ */
+function* iterateLiquidity(
+  order: MatchingOrder,
+  orderBook: OrderBook,
+  complementBook?: OrderBook
+): Generator<Liquidity> {
+  const direct = orderBook.iterateOrders(order.side === "BUY" ? "ask" : "bid");
+  const complement = complementBook?.iterateOrders(
+    order.side === "BUY" ? "bid" : "ask"
+  );
+
+  let nextDirect = direct.next();
+  let nextComplement = complement?.next();
+
+  while (!nextDirect.done || (nextComplement && !nextComplement.done)) {
+    const directPrice = nextDirect.done ? null : nextDirect.value.price;
+    const complementaryPrice =
+      nextComplement && !nextComplement.done
+        ? complementPrice(nextComplement.value.price)
+        : null;
+
+    if (
+      directPrice !== null &&
+      (complementaryPrice === null ||
+        isAtLeastAsGood(directPrice, complementaryPrice, order.side))
+    ) {
+      yield {
+        bookOrder: nextDirect.value as BookOrder,
+        price: directPrice,
+        complementary: false,
+      };
+      nextDirect = direct.next();
+    } else {
+      yield {
+        bookOrder: nextComplement!.value as BookOrder,
+        price: complementaryPrice!,
+        complementary: true,
+      };
+      nextComplement = complement!.next();
+    }
+  }
+}
+
 function canMatch(
   takerPrice: number,
   makerPrice: number,
@@ -119,6 +278,78 @@ function canMatch(
   }
 }
 
+// Absorbs float drift when dividing a cost budget by a tick-aligned price
+const COST_EPSILON = 1e-9;
+
+/** Whole shares a remaining cost budget can buy at `price`. */
+function affordableQuantity(budget: number, price: number): number {
+  return Math.floor(budget / price + COST_EPSILON);
+}
+
+function isExpired(bookOrder: BookOrder, now: number): boolean {
+  return bookOrder.expiresAt !== undefined && bookOrder.expiresAt <= now;
+}
+
+/**
+ * Whether the order would trade against at least one live resting order,
+ * in its own book or (if given) the complementary outcome's book.
+ * Expired makers are ignored since matching would sweep them first.
+ */
+export function wouldCross(
+  order: MatchingOrder,
+  orderBook: OrderBook,
+  now: number = Date.now(),
+  complementBook?: OrderBook
+): boolean {
+  for (const { bookOrder, price } of iterateLiquidity(
+    order,
+    orderBook,
+    complementBook
+  )) {
+    if (!canMatch(order.price, price, order.side)) return false;
+    if (!isExpired(bookOrder, now)) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Quantity the book (plus the complementary book, if given) can fill for
+ * this order at its limit price and within its max cost, if any, capped at
+ * the order quantity. Read-only: walks the books without modifying them.
+ */
+export function getFillableQuantity(
+  order: MatchingOrder,
+  orderBook: OrderBook,
+  now: number = Date.now(),
+  complementBook?: OrderBook
+): number {
+  let fillable = 0;
+  let budget = order.maxCost ?? Infinity;
+
+  for (const { bookOrder, price } of iterateLiquidity(
+    order,
+    orderBook,
+    complementBook
+  )) {
+    if (fillable >= order.quantity) break;
+    if (!canMatch(order.price, price, order.side)) break;
+    if (isExpired(bookOrder, now)) continue;
+
+    const qty = Math.min(
+      bookOrder.quantity,
+      order.quantity - fillable,
+      affordableQuantity(budget, price)
+    );
+    if (qty <= 0) break;
+
+    fillable += qty;
+    budget -= qty * price;
+  }
+
+  return fillable;
+}
+
 function generateTradeId(
   buyOrderId: string,
   sellOrderId: string,
@@ -156,6 +387,89 @@ function createTrade(
   };
 }
 
+/**
+ * The two trades recording a cross-book fill: one in the taker's book at
+ * the taker's price, one in the complementary book at the maker's price.
+ */
+function createComplementaryTrades(
+  newOrder: MatchingOrder,
+  bookOrder: BookOrder,
+  quantity: number,
+  price: number,
+  timestamp: number
+): [Trade, Trade] {
+  const matchType = newOrder.side === "BUY" ? "MINT" : "MERGE";
+  const makerOutcome = otherOutcome(newOrder.outcome);
+
+  // Each trade's "buyer" is its own book's buyer for a MINT; for a MERGE
+  // each trade's "seller" is its own book's seller.
+  const tradeParties = (
+    ownAddress: string,
+    ownOrderId: string,
+    otherAddress: string,
+    otherOrderId: string
+  ) =>
+    matchType === "MINT"
+      ? {
+          buyerAddress: ownAddress,
+          sellerAddress: otherAddress,
+          buyOrderId: ownOrderId,
+          sellOrderId: otherOrderId,
+        }
+      : {
+          buyerAddress: otherAddress,
+          sellerAddress: ownAddress,
+          buyOrderId: otherOrderId,
+          sellOrderId: ownOrderId,
+        };
+
+  const takerSide = tradeParties(
+    newOrder.userAddress,
+    newOrder.id,
+    bookOrder.userAddress,
+    bookOrder.id
+  );
+  const makerSide = tradeParties(
+    bookOrder.userAddress,
+    bookOrder.id,
+    newOrder.userAddress,
+    newOrder.id
+  );
+
+  return [
+    {
+      id: generateTradeId(
+        takerSide.buyOrderId,
+        takerSide.sellOrderId,
+        quantity,
+        timestamp
+      ),
+      marketId: newOrder.marketId,
+      outcome: newOrder.outcome,
+      ...takerSide,
+      price,
+      quantity,
+      timestamp,
+      matchType,
+    },
+    {
+      id: generateTradeId(
+        makerSide.buyOrderId,
+        makerSide.sellOrderId,
+        quantity,
+        timestamp
+      ),
+      marketId: newOrder.marketId,
+      outcome: makerOutcome,
+      ...makerSide,
+      price: bookOrder.price,
+      quantity,
+      timestamp,
+      matchType,
+    },
+  ];
+}
+
 function rollbackCommands(commands: MatchCommand[]): void {
   for (let i = commands.length - 1; i >= 0; i--) {
     commands[i].rollback();
@@ -165,25 +479,30 @@ function rollbackCommands(commands: MatchCommand[]): void {
 function calculatePositionDeltas(trades: Trade[]): PositionDelta[] {
   const deltaMap = new Map<string, { yes: number; no: number }>();
 
-  for (const trade of trades) {
-    const isYes = trade.outcome === "YES";
-
-    if (!deltaMap.has(trade.buyerAddress)) {
-      deltaMap.set(trade.buyerAddress, { yes: 0, no: 0 });
+  const addShares = (
+    userAddress: string,
+    outcome: Outcome,
+    quantity: number
+  ) => {
+    if (!deltaMap.has(userAddress)) {
+      deltaMap.set(userAddress, { yes: 0, no: 0 });
     }
-    if (!deltaMap.has(trade.sellerAddress)) {
-      deltaMap.set(trade.sellerAddress, { yes: 0, no: 0 });
+    const delta = deltaMap.get(userAddress)!;
+    if (outcome === "YES") {
+      delta.yes += quantity;
+    } else {
+      delta.no += quantity;
     }
+  };
 
-    const buyerDelta = deltaMap.get(trade.buyerAddress)!;
-    const sellerDelta = deltaMap.get(trade.sellerAddress)!;
-
-    if (isYes) {
-      buyerDelta.yes += trade.quantity;
-      sellerDelta.yes -= trade.quantity;
-    } else {
-      buyerDelta.no += trade.quantity;
-      sellerDelta.no -= trade.quantity;
+  for (const trade of trades) {
+    // A MINT only creates shares and a MERGE only destroys them; the
+    // counterparty's shares move in the mirror trade on the other book.
+    if (trade.matchType !== "MERGE") {
+      addShares(trade.buyerAddress, trade.outcome, trade.quantity);
+    }
+    if (trade.matchType !== "MINT") {
+      addShares(trade.sellerAddress, trade.outcome, -trade.quantity);
     }
   }
 
@@ -210,55 +529,136 @@ function calculatePositionDeltas(trades: Trade[]): PositionDelta[] {
  *
  * The execution price is the maker's price (resting order's price).
  *
+ * Time-in-force is applied here so callers never rest an order that should
+ * not rest:
+ * - post-only orders that would cross are rejected before any fill
+ * - FOK orders are checked against the book before any command executes;
+ *   if they cannot fill completely the book is left untouched
+ * - IOC/FOK remainders are reported as `cancelledQuantity`, not
+ *   `remainingOrder`
+ *
+ * MARKET orders sweep the book up to their worst price (`price`) and, for
+ * buys, stop before total cost would exceed `maxCost`. Their remainder is
+ * always cancelled, whatever the time-in-force.
+ *
+ * Expired GTT makers reached at the top of the book are removed (as part of
+ * the same rollback-able command list) and reported in `expiredOrderIds`.
+ *
+ * When `complementBook` (the other outcome's book of the same market) is
+ * given, resting orders on the same side of it are matched too: a bid at q
+ * there is an ask at 1 - q here (MINT), an ask at q there is a bid at
+ * 1 - q here (MERGE). Both books are walked in one price-priority sequence;
+ * at equal prices the order's own book goes first. Rollback covers both.
+ *
  * @param newOrder - The incoming order to match
  * @param orderBook - The order book to match against
+ * @param hooks - Callbacks fired as trades are created
+ * @param complementBook - The complementary outcome's book, if cross-outcome
+ *   matching should take place
  * @returns MatchResult containing trades, remaining order, and position deltas
  */
 export function matchOrder(
   newOrder: MatchingOrder,
   orderBook: OrderBook,
-  hooks: MatchHooks = {}
+  hooks: MatchHooks = {},
+  complementBook?: OrderBook
 ): MatchResult {
   const trades: Trade[] = [];
+  const expiredOrderIds: string[] = [];
   const executedCommands: MatchCommand[] = [];
   let remainingQty = newOrder.quantity;
+  let remainingBudget = newOrder.maxCost ?? Infinity;
   const timestamp = Date.now();
-  const matchingSide = newOrder.side === "BUY" ? "ask" : "bid";
+  const timeInForce = newOrder.timeInForce ?? "GTC";
+
+  if (
+    newOrder.postOnly &&
+    wouldCross(newOrder, orderBook, timestamp, complementBook)
+  ) {
+    return {
+      trades,
+      remainingOrder: null,
+      positionDeltas: [],
+      cancelledQuantity: newOrder.quantity,
+      expiredOrderIds,
+      rejectReason: "POST_ONLY_WOULD_CROSS",
+    };
+  }
+
+  if (
+    timeInForce === "FOK" &&
+    getFillableQuantity(newOrder, orderBook, timestamp, complementBook) <
+      newOrder.quantity
+  ) {
+    return {
+      trades,
+      remainingOrder: null,
+      positionDeltas: [],
+      cancelledQuantity: newOrder.quantity,
+      expiredOrderIds,
+    };
+  }
 
   try {
     while (remainingQty > 0) {
-      const bookOrder =
-        matchingSide === "ask"
-          ? orderBook.getBestAsk()
-          : orderBook.getBestBid();
+      const liquidity = getBestLiquidity(newOrder, orderBook, complementBook);
+
+      if (!liquidity) break;
 
-      if (!bookOrder) break;
+      const { bookOrder, complementary } = liquidity;
+      const makerBook = complementary ? complementBook! : orderBook;
 
-      if (!canMatch(newOrder.price, bookOrder.price, newOrder.side)) {
+      if (!canMatch(newOrder.price, liquidity.price, newOrder.side)) {
         break;
       }
 
-      const fillQty = Math.min(remainingQty, bookOrder.quantity);
-      const executionPrice = bookOrder.price;
+      if (isExpired(bookOrder, timestamp)) {
+        const expireCmd = new RemoveOrderCommand(makerBook, bookOrder.id);
+        expireCmd.execute();
+        executedCommands.push(expireCmd);
+        expiredOrderIds.push(bookOrder.id);
+        continue;
+      }
 
-      const trade = createTrade(
-        newOrder,
-        bookOrder,
-        fillQty,
-        executionPrice,
-        timestamp
+      const fillQty = Math.min(
+        remainingQty,
+        bookOrder.quantity,
+        affordableQuantity(remainingBudget, liquidity.price)
       );
-      trades.push(trade);
-      hooks.onTradeFilled?.(trade);
+      if (fillQty <= 0) break;
+
+      const executionPrice = liquidity.price;
+
+      const fillTrades = complementary
+        ? createComplementaryTrades(
+            newOrder,
+            bookOrder,
+            fillQty,
+            executionPrice,
+            timestamp
+          )
+        : [
+            createTrade(
+              newOrder,
+              bookOrder,
+              fillQty,
+              executionPrice,
+              timestamp
+            ),
+          ];
+      for (const trade of fillTrades) {
+        trades.push(trade);
+        hooks.onTradeFilled?.(trade);
+      }
 
       const newBookOrderQty = bookOrder.quantity - fillQty;
       let cmd: MatchCommand;
 
       if (newBookOrderQty === 0) {
-        cmd = new RemoveOrderCommand(orderBook, bookOrder.id);
+        cmd = new RemoveOrderCommand(makerBook, bookOrder.id);
       } else {
         cmd = new UpdateQuantityCommand(
-          orderBook,
+          makerBook,
           bookOrder.id,
           newBookOrderQty,
           bookOrder.quantity
@@ -269,18 +669,29 @@ export function matchOrder(
       executedCommands.push(cmd);
 
       remainingQty -= fillQty;
+      remainingBudget -= fillQty * executionPrice;
     }
   } catch (error) {
     rollbackCommands(executedCommands);
     throw error;
   }
 
+  const rests =
+    newOrder.orderType !== "MARKET" &&
+    (timeInForce === "GTC" || timeInForce === "GTT");
   const remainingOrder =
-    remainingQty > 0 ? { ...newOrder, quantity: remainingQty } : null;
+    remainingQty > 0 && rests ? { ...newOrder, quantity: remainingQty } : null;
+  const cancelledQuantity = rests ? 0 : remainingQty;
 
   const positionDeltas = calculatePositionDeltas(trades);
 
-  return { trades, remainingOrder, positionDeltas };
+  return {
+    trades,
+    remainingOrder,
+    positionDeltas,
+    cancelledQuantity,
+    expiredOrderIds,
+  };
 }
 
 export { outcomeToNumber };
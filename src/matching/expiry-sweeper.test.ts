@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { OrderExpirySweeper } from "./expiry-sweeper.js";
+import type { PrismaOrder } from "../types/index.js";
+
+const expiredOrder = { id: "order-1" } as PrismaOrder;
+
+describe("OrderExpirySweeper", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("returns the number of orders expired by the source", async () => {
+    const source = { expireOrders: vi.fn().mockResolvedValue([expiredOrder]) };
+    const sweeper = new OrderExpirySweeper(source, 1000);
+    const now = new Date("2026-07-01T00:00:00.000Z");
+
+    await expect(sweeper.sweep(now)).resolves.toBe(1);
+    expect(source.expireOrders).toHaveBeenCalledWith(now);
+  });
+
+  it("logs and swallows source failures", async () => {
+    const source = {
+      expireOrders: vi.fn().mockRejectedValue(new Error("db down")),
+    };
+    const sweeper = new OrderExpirySweeper(source, 1000);
+
+    await expect(sweeper.sweep()).resolves.toBe(0);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("db down")
+    );
+  });
+
+  it("skips a sweep while the previous one is still running", async () => {
+    let release!: (orders: PrismaOrder[]) => void;
+    const source = {
+      expireOrders: vi.fn().mockImplementation(
+        () =>
+          new Promise<PrismaOrder[]>((resolve) => {
+            release = resolve;
+          })
+      ),
+    };
+    const sweeper = new OrderExpirySweeper(source, 1000);
+
+    const first = sweeper.sweep();
+    await expect(sweeper.sweep()).resolves.toBe(0);
+    release([expiredOrder]);
+
+    await expect(first).resolves.toBe(1);
+    expect(source.expireOrders).toHaveBeenCalledTimes(1);
+  });
+
+  it("sweeps on every interval until stopped", async () => {
+    vi.useFakeTimers();
+    const source = { expireOrders: vi.fn().mockResolvedValue([]) };
+    const sweeper = new OrderExpirySweeper(source, 1000);
+
+    sweeper.start();
+    await vi.advanceTimersByTimeAsync(3000);
+    sweeper.stop();
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(source.expireOrders).toHaveBeenCalledTimes(3);
+  });
+});
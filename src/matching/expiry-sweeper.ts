@@ -0,0 +1,79 @@
+import type { PrismaOrder } from "../types/index.js";
+
+/** The slice of MatchingService the sweeper depends on. */
+export interface ExpiringOrderSource {
+  expireOrders(now?: Date): Promise<PrismaOrder[]>;
+}
+
+/**
+ * Periodically cancels good-till-time orders whose expiry has passed.
+ *
+ * Runs inside the API process because the order books it cleans up live in
+ * that process's memory. A sweep that is still running when the next tick
+ * fires is not overlapped; the tick is skipped instead.
+ */
+export class OrderExpirySweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private isSweepInProgress = false;
+
+  constructor(
+    private readonly source: ExpiringOrderSource,
+    private readonly intervalMs: number
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.sweep(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one sweep. Failures are logged, not thrown, so a transient database
+   * error never stops the interval.
+   *
+   * @returns number of orders expired, or 0 if skipped or failed
+   */
+  async sweep(now: Date = new Date()): Promise<number> {
+    if (this.isSweepInProgress) return 0;
+    this.isSweepInProgress = true;
+
+    try {
+      const expired = await this.source.expireOrders(now);
+
+      if (expired.length > 0) {
+        console.info(
+          JSON.stringify({
+            ts: new Date().toISOString(),
+            level: "info",
+            component: "order-expiry-sweeper",
+            message: "Expired GTT orders cancelled",
+            metric: "orders.expired",
+            value: expired.length,
+          })
+        );
+      }
+
+      return expired.length;
+    } catch (error) {
+      console.error(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "error",
+          component: "order-expiry-sweeper",
+          message: "Order expiry sweep failed",
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      return 0;
+    } finally {
+      this.isSweepInProgress = false;
+    }
+  }
+}
@@ -2,9 +2,12 @@ export { Mutex } from "./mutex.js";
 export { OrderBook, Order as BookOrder, DepthLevel } from "./orderbook.js";
 export {
   matchOrder,
+  wouldCross,
+  getFillableQuantity,
   MatchingOrder,
   Trade,
   MatchResult,
+  MatchRejectReason,
   PositionDelta,
   outcomeToNumber,
 } from "./engine.js";
@@ -15,4 +18,5 @@ export {
   ValidationResult,
   OrderValidationError,
 } from "./validation.js";
+export { OrderExpirySweeper, ExpiringOrderSource } from "./expiry-sweeper.js";
 export { default as positionsRouter } from "../api/routes/positions.js";
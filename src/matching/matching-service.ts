@@ -1,24 +1,79 @@
 import { randomUUID } from "crypto";
-import type { Outcome } from "../types/index.js";
-import type { OrderInput } from "./validation.js";
+import type {
+  Outcome,
+  PrismaOrder,
+  SignedOrderReceipt,
+  SignedTradeReceipt,
+} from "../types/index.js";
+import {
+  MAX_PRICE,
+  MIN_PRICE,
+  OrderValidationError,
+  validateCollateralBalance,
+  validateShareBalance,
+  type OrderInput,
+} from "./validation.js";
 import { OrderBook } from "./orderbook.js";
 import {
+  complementPrice,
   matchOrder,
   outcomeToNumber,
   type MatchingOrder,
   type Trade,
 } from "./engine.js";
 import { Mutex } from "./mutex.js";
-import { auditService } from "../services/audit.js";
+import { auditService, type CancellationReason } from "../services/audit.js";
+import {
+  collateralCost,
+  getFillEntries,
+  getReleaseEntry,
+  recordCollateralEntry,
+  spendCollateral,
+  type CollateralEntry,
+} from "../services/collateral-ledger.js";
+import { marketFeed } from "../services/market-feed.js";
+import { recordQuotes, recordTrades } from "../services/market-stats.js";
+import { matchDuration, tradesMatched } from "../services/metrics.js";
+import { issueReceipts, type IssuedReceipts } from "../services/receipts.js";
 import { settlementQueue } from "../services/settlement-queue.js";
 import { redis } from "../services/redis.js";
 import { getPrismaClient } from "../services/prisma.js";
-import { ValidationError } from "../api/middleware/errors.js";
+import {
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from "../api/middleware/errors.js";
 
 export interface PlaceOrderResult {
   order: any;
   trades: Trade[];
   filledQuantity: number;
+  /** Operator-signed receipt for the accepted order */
+  receipt: SignedOrderReceipt;
+  /** Operator-signed receipts for `trades`, in the same order */
+  tradeReceipts: SignedTradeReceipt[];
+}
+
+export interface CancelOrderResult {
+  order: PrismaOrder;
+}
+
+export interface CancelAllOrdersResult {
+  marketId: string;
+  cancelledOrders: PrismaOrder[];
+}
+
+const CANCELLABLE_STATUSES = ["OPEN", "PARTIALLY_FILLED"] as const;
+
+/** Price levels per side kept in the Redis snapshot and the WebSocket feed. */
+const DEPTH_LEVELS = 20;
+
+/** Selects which resting orders in a book a cancellation applies to. */
+interface CancelFilter {
+  userAddress?: string;
+  orderId?: string;
+  /** Only orders whose GTT expiry is at or before this instant. */
+  expiredAt?: Date;
 }
 
 /** Number of markets hydrated at startup. Used as a health metric. */
@@ -46,6 +101,16 @@ class MatchingService {
     return mutex;
   }
 
+  /**
+   * Run `fn` holding the mutexes of both outcome books of a market. They are
+   * always taken YES then NO, so two callers can never deadlock each other.
+   */
+  private runWithBothBooks<T>(marketId: string, fn: () => Promise<T>) {
+    const yesMutex = this.getOrCreateMutex(this.getBookKey(marketId, "YES"));
+    const noMutex = this.getOrCreateMutex(this.getBookKey(marketId, "NO"));
+    return yesMutex.run(() => noMutex.run(fn));
+  }
+
   private async hydrateBook(
     marketId: string,
     outcome: Outcome
@@ -78,6 +143,7 @@ class MatchingService {
         timestamp: order.createdAt.getTime(),
         marketId,
         outcome: outcomeNum,
+        expiresAt: order.expiresAt?.getTime(),
       });
     }
 
@@ -150,52 +216,181 @@ class MatchingService {
     return book;
   }
 
+  /**
+   * Soft-refresh the Redis depth snapshot and push the changed levels to feed
+   * subscribers. Redis failures are logged, not thrown.
+   */
+  private refreshDepthCache(
+    marketId: string,
+    outcome: Outcome,
+    book: OrderBook
+  ): void {
+    const depth = book.getDepth(DEPTH_LEVELS);
+    marketFeed.publishDepth(marketId, outcome, depth);
+    redis
+      .setOrderBook(marketId, outcome, {
+        bids: depth.bids.map((d) => ({
+          price: d.price,
+          quantity: d.quantity,
+        })),
+        asks: depth.asks.map((d) => ({
+          price: d.price,
+          quantity: d.quantity,
+        })),
+        timestamp: Date.now(),
+      })
+      .catch((error) => {
+        console.error("Failed to refresh Redis orderbook:", error);
+      });
+  }
+
+  /**
+   * Soft-refresh the quotes and open order count in the market's stats from
+   * its in-memory books. A book that is not loaded counts as empty. Failures
+   * are logged, not thrown.
+   */
+  private refreshMarketQuotes(marketId: string): void {
+    const yesBook = this.books.get(this.getBookKey(marketId, "YES"));
+    const noBook = this.books.get(this.getBookKey(marketId, "NO"));
+    recordQuotes(getPrismaClient(), marketId, {
+      bestBid: yesBook?.getBestBid()?.price ?? null,
+      bestAsk: yesBook?.getBestAsk()?.price ?? null,
+      spread: yesBook?.getSpread() ?? null,
+      openOrders:
+        (yesBook?.getOrderCount() ?? 0) + (noBook?.getOrderCount() ?? 0),
+    }).catch((error) => {
+      console.error("Failed to refresh market quotes:", error);
+    });
+  }
+
+  /**
+   * Make sure the feed holds a depth baseline for both outcome books of a
+   * market, hydrating them if needed. Call before taking a feed snapshot.
+   */
+  async primeBookDepth(marketId: string): Promise<void> {
+    const outcomes: Outcome[] = ["YES", "NO"];
+
+    for (const outcome of outcomes) {
+      const bookKey = this.getBookKey(marketId, outcome);
+      await this.getOrCreateMutex(bookKey).run(async () => {
+        const book = await this.getOrHydrateBook(marketId, outcome);
+        marketFeed.primeDepth(marketId, outcome, book.getDepth(DEPTH_LEVELS));
+      });
+    }
+  }
+
+  /**
+   * Match and persist an order. Orders match against the opposite side of
+   * their own outcome's book and, for complete-set MINT/MERGE fills, the
+   * same side of the other outcome's book, so both books are locked.
+   */
   async placeOrder(input: OrderInput): Promise<PlaceOrderResult> {
-    const bookKey = this.getBookKey(input.marketId, input.outcome);
+    const complementOutcome: Outcome = input.outcome === "YES" ? "NO" : "YES";
 
-    return this.getOrCreateMutex(bookKey).run(async () => {
+    return this.runWithBothBooks(input.marketId, async () => {
       const prisma = getPrismaClient();
       const book = await this.getOrHydrateBook(input.marketId, input.outcome);
+      const complementBook = await this.getOrHydrateBook(
+        input.marketId,
+        complementOutcome
+      );
+
+      // A MARKET order without a worst price sweeps the whole side
+      const price =
+        input.price ?? (input.side === "BUY" ? MAX_PRICE : MIN_PRICE);
 
-      // Self-trade check
+      // Self-trade check: any opposite-side order in this book, or a
+      // same-side order in the other book this one would mint or merge with
       const userOrders = book.getOrdersByUser(input.userAddress);
       const hasOppositeResting = userOrders.some((o) => {
         const oppositeSide = input.side === "BUY" ? "ask" : "bid";
         return o.side === oppositeSide;
       });
+      const hasComplementaryResting = complementBook
+        .getOrdersByUser(input.userAddress)
+        .some((o) =>
+          input.side === "BUY"
+            ? o.side === "bid" && complementPrice(o.price) <= price
+            : o.side === "ask" && complementPrice(o.price) >= price
+        );
 
-      if (hasOppositeResting) {
+      if (hasOppositeResting || hasComplementaryResting) {
         throw new ValidationError(
           "Self-trade: cannot match against your own resting order"
         );
       }
 
+      // An ask must be covered by shares not already offered in this book
+      if (input.side === "SELL") {
+        const position = await prisma.userPosition.findUnique({
+          where: {
+            marketId_userAddress: {
+              marketId: input.marketId,
+              userAddress: input.userAddress,
+            },
+          },
+        });
+        const held =
+          (input.outcome === "YES"
+            ? position?.yesShares
+            : position?.noShares) ?? 0;
+        const offered = userOrders
+          .filter((o) => o.side === "ask")
+          .reduce((sum, o) => sum + o.quantity, 0);
+
+        const sharesError = validateShareBalance(
+          input.outcome,
+          input.quantity,
+          held - offered
+        );
+        if (sharesError) {
+          throw new OrderValidationError({ shares: sharesError });
+        }
+      }
+
       const orderId = randomUUID();
       const timestamp = Date.now();
+      const orderType = input.orderType ?? "LIMIT";
 
       const takerOrder: MatchingOrder = {
         id: orderId,
         userAddress: input.userAddress,
         side: input.side,
-        price: input.price,
+        price,
         quantity: input.quantity,
         marketId: input.marketId,
         outcome: input.outcome,
         timestamp,
+        orderType,
+        maxCost: input.maxCost,
+        timeInForce:
+          input.timeInForce ?? (orderType === "MARKET" ? "IOC" : "GTC"),
+        postOnly: input.postOnly ?? false,
+        expiresAt: input.expiresAt,
       };
 
-      const auditWrites: Promise<string | null>[] = [];
-      const matchResult = matchOrder(takerOrder, book, {
-        onTradeFilled: (trade) => {
-          auditWrites.push(auditService.logOrderMatch(trade));
-        },
+      const stopMatchTimer = matchDuration.startTimer({
+        market_id: input.marketId,
       });
+      const matchResult = matchOrder(takerOrder, book, {}, complementBook);
+      stopMatchTimer();
 
-      let takerFilledQuantity =
-        input.quantity - (matchResult.remainingOrder?.quantity ?? 0);
+      if (matchResult.rejectReason === "POST_ONLY_WOULD_CROSS") {
+        throw new ValidationError("Post-only order would cross the book", {
+          postOnly: "Order would take liquidity at the current best price",
+        });
+      }
 
-      let takerStatus: "OPEN" | "PARTIALLY_FILLED" | "FILLED";
-      if (takerFilledQuantity === 0) {
+      let takerFilledQuantity =
+        input.quantity -
+        (matchResult.remainingOrder?.quantity ?? 0) -
+        matchResult.cancelledQuantity;
+
+      let takerStatus: "OPEN" | "PARTIALLY_FILLED" | "FILLED" | "CANCELLED";
+      if (matchResult.cancelledQuantity > 0) {
+        // IOC/FOK/MARKET remainder never rests
+        takerStatus = "CANCELLED";
+      } else if (takerFilledQuantity === 0) {
         takerStatus = "OPEN";
       } else if (takerFilledQuantity < input.quantity) {
         takerStatus = "PARTIALLY_FILLED";
@@ -204,8 +399,24 @@ class MatchingService {
       }
 
       let order: any;
+      let receipts!: IssuedReceipts;
+      let expiredOrders: PrismaOrder[] = [];
+      const updatedMakers: PrismaOrder[] = [];
       try {
         await prisma.$transaction(async (tx) => {
+          // The market may have closed since the order was validated. A
+          // halt that commits after this read waits for the book lock and
+          // then cancels whatever this order leaves resting.
+          const market = await tx.market.findUnique({
+            where: { id: input.marketId },
+            select: { status: true },
+          });
+          if (market?.status !== "ACTIVE") {
+            throw new OrderValidationError({
+              marketId: `Market is ${market?.status.toLowerCase() ?? "not found"}, orders cannot be placed`,
+            });
+          }
+
           // Create taker order
           order = await tx.order.create({
             data: {
@@ -214,15 +425,44 @@ class MatchingService {
               userAddress: input.userAddress,
               side: input.side,
               outcome: input.outcome,
-              price: input.price.toString(),
+              orderType,
+              price: price.toString(),
+              maxCost: input.maxCost?.toString() ?? null,
               quantity: input.quantity,
               filledQuantity: takerFilledQuantity,
               status: takerStatus,
+              timeInForce: takerOrder.timeInForce,
+              postOnly: takerOrder.postOnly,
+              expiresAt:
+                input.expiresAt !== undefined
+                  ? new Date(input.expiresAt)
+                  : null,
             },
           });
 
-          // Update maker orders
+          // Cancel expired GTT makers that matching swept off the book
+          if (matchResult.expiredOrderIds.length > 0) {
+            expiredOrders = await tx.order.findMany({
+              where: {
+                id: { in: matchResult.expiredOrderIds },
+                status: { in: [...CANCELLABLE_STATUSES] },
+              },
+            });
+            await tx.order.updateMany({
+              where: {
+                id: { in: matchResult.expiredOrderIds },
+                status: { in: [...CANCELLABLE_STATUSES] },
+              },
+              data: { status: "CANCELLED" },
+            });
+          }
+
+          // Update maker orders. Every fill has exactly one trade in the
+          // taker's book; a MINT/MERGE also records a mirror trade in the
+          // other book that must not be counted against the maker twice.
           for (const trade of matchResult.trades) {
+            if (trade.outcome !== input.outcome) continue;
+
             const maker =
               trade.buyOrderId === orderId
                 ? trade.sellOrderId
@@ -248,16 +488,19 @@ class MatchingService {
               makerStatus = "FILLED";
             }
 
-            await tx.order.update({
-              where: { id: maker },
-              data: {
-                filledQuantity: newFilledQty,
-                status: makerStatus,
-              },
-            });
+            updatedMakers.push(
+              await tx.order.update({
+                where: { id: maker },
+                data: {
+                  filledQuantity: newFilledQty,
+                  status: makerStatus,
+                },
+              })
+            );
           }
 
-          // Persist trades as source of truth (idempotent on trade.id)
+          // Persist trades as source of truth (idempotent on trade.id), each
+          // with a QUEUED settlement record for the settlement worker
           for (const trade of matchResult.trades) {
             await tx.trade.upsert({
               where: { tradeId: trade.id },
@@ -271,24 +514,108 @@ class MatchingService {
                 sellOrderId: trade.sellOrderId,
                 price: trade.price.toString(),
                 quantity: trade.quantity,
+                matchType: trade.matchType ?? "DIRECT",
                 tradedAt: new Date(trade.timestamp),
+                settlement: { create: {} },
               },
               update: {},
             });
           }
 
-          // Build collateral cost-basis deltas: buyer pays price*qty, seller receives it
+          // Sign the order and its trades with the operator key; the
+          // receipts commit or roll back with them
+          receipts = await issueReceipts(
+            tx,
+            {
+              orderId,
+              marketId: input.marketId,
+              userAddress: input.userAddress,
+              side: input.side,
+              outcome: input.outcome,
+              price,
+              quantity: input.quantity,
+              timestamp,
+            },
+            matchResult.trades
+          );
+
+          // Move collateral for every fill and reserve it for the part of a
+          // bid that rests. The taker's debits are conditional on its
+          // available balance; makers pay from their existing reservations.
+          const takerEntries: CollateralEntry[] = [];
+          for (const trade of matchResult.trades) {
+            for (const entry of getFillEntries(trade, orderId)) {
+              if (entry.availableDelta.isNegative()) {
+                takerEntries.push(entry);
+              } else {
+                await recordCollateralEntry(tx, entry);
+              }
+            }
+          }
+          if (input.side === "BUY" && matchResult.remainingOrder) {
+            const reservation = collateralCost(
+              matchResult.remainingOrder.price,
+              matchResult.remainingOrder.quantity
+            );
+            takerEntries.push({
+              userAddress: input.userAddress,
+              marketId: input.marketId,
+              type: "RESERVE",
+              availableDelta: reservation.neg(),
+              reservedDelta: reservation,
+              reference: orderId,
+            });
+          }
+          for (const entry of takerEntries) {
+            if (!(await spendCollateral(tx, entry))) {
+              const required = takerEntries.reduce(
+                (sum, e) => sum - Number(e.availableDelta),
+                0
+              );
+              const balance = await tx.collateralBalance.findUnique({
+                where: {
+                  userAddress_marketId: {
+                    userAddress: input.userAddress,
+                    marketId: input.marketId,
+                  },
+                },
+              });
+              throw new OrderValidationError({
+                collateral:
+                  validateCollateralBalance(
+                    Number(required.toFixed(8)),
+                    Number(balance?.available ?? 0)
+                  ) ?? "Insufficient collateral",
+              });
+            }
+          }
+
+          // Swept GTT makers no longer need their reservations
+          for (const expired of expiredOrders) {
+            const release = getReleaseEntry(expired);
+            if (release) {
+              await recordCollateralEntry(tx, release);
+            }
+          }
+
+          // Build collateral cost-basis deltas: buyer pays price*qty, seller
+          // receives it. A MINT trade only charges its buyer and a MERGE
+          // trade only pays its seller; the mirror trade covers the other.
           const collateralDeltaMap = new Map<string, number>();
           for (const trade of matchResult.trades) {
             const cost = trade.price * trade.quantity;
-            collateralDeltaMap.set(
-              trade.buyerAddress,
-              (collateralDeltaMap.get(trade.buyerAddress) ?? 0) + cost
-            );
-            collateralDeltaMap.set(
-              trade.sellerAddress,
-              (collateralDeltaMap.get(trade.sellerAddress) ?? 0) - cost
-            );
+            if (trade.matchType !== "MERGE") {
+              collateralDeltaMap.set(
+                trade.buyerAddress,
+                (collateralDeltaMap.get(trade.buyerAddress) ?? 0) + cost
+              );
+            }
+            if (trade.matchType !== "MINT") {
+              collateralDeltaMap.set(
+                trade.sellerAddress,
+                (collateralDeltaMap.get(trade.sellerAddress) ?? 0) - cost
+              );
+            }
           }
 
           // Update positions
@@ -322,9 +649,14 @@ class MatchingService {
               },
             });
           }
+
+          // Fold the trades into the market's volume, last price and open
+          // interest
+          await recordTrades(tx, input.marketId, matchResult.trades);
         });
       } catch (error) {
         this.invalidateBook(input.marketId, input.outcome);
+        this.invalidateBook(input.marketId, complementOutcome);
         throw error;
       }
 
@@ -340,14 +672,55 @@ class MatchingService {
           timestamp: matchResult.remainingOrder.timestamp,
           marketId: input.marketId,
           outcome: outcomeToNumber(input.outcome),
+          expiresAt: matchResult.remainingOrder.expiresAt,
         });
       }
 
-      // 2. Log trades to audit before returning control to the caller
+      // 2. Log trades and cancellations to audit before returning control
+      //    to the caller. Trades are only logged once committed: the trade
+      //    feed tails the audit stream.
+      const auditWrites: Promise<string | null>[] = matchResult.trades.map(
+        (trade) => auditService.logOrderMatch(trade)
+      );
+      const cancelledAt = Date.now();
+      for (const expired of expiredOrders) {
+        auditWrites.push(
+          auditService.logOrderCancellation({
+            orderId: expired.id,
+            marketId: expired.marketId,
+            outcome: expired.outcome,
+            side: expired.side,
+            userAddress: expired.userAddress,
+            price: Number(expired.price),
+            cancelledQuantity: expired.quantity - expired.filledQuantity,
+            timestamp: cancelledAt,
+            reason: "EXPIRED",
+          })
+        );
+      }
+      if (matchResult.cancelledQuantity > 0) {
+        auditWrites.push(
+          auditService.logOrderCancellation({
+            orderId,
+            marketId: input.marketId,
+            outcome: input.outcome,
+            side: input.side,
+            userAddress: input.userAddress,
+            price,
+            cancelledQuantity: matchResult.cancelledQuantity,
+            timestamp: cancelledAt,
+            reason: "TIME_IN_FORCE",
+          })
+        );
+      }
       await Promise.all(auditWrites);
 
       // 3. Enqueue settlement jobs (fire-and-forget)
       for (const trade of matchResult.trades) {
+        tradesMatched.inc({
+          market_id: trade.marketId,
+          outcome: trade.outcome,
+        });
         settlementQueue
           .enqueue({
             tradeId: trade.id,
@@ -360,37 +733,269 @@ class MatchingService {
             price: trade.price,
             quantity: trade.quantity,
             timestamp: trade.timestamp,
+            matchType: trade.matchType,
           })
           .catch((error) => {
             console.error("Failed to enqueue settlement job:", error);
           });
       }
 
-      // 4. Refresh Redis cache (soft)
-      const depth = book.getDepth(20);
-      redis
-        .setOrderBook(input.marketId, input.outcome, {
-          bids: depth.bids.map((d) => ({
-            price: d.price,
-            quantity: d.quantity,
-          })),
-          asks: depth.asks.map((d) => ({
-            price: d.price,
-            quantity: d.quantity,
-          })),
-          timestamp: Date.now(),
-        })
-        .catch((error) => {
-          console.error("Failed to refresh Redis orderbook:", error);
-        });
+      // 4. Push fills and order status changes to wallet feed subscribers
+      for (const trade of matchResult.trades) {
+        marketFeed.publishFills(trade, orderId);
+      }
+      marketFeed.publishOrder(
+        order,
+        matchResult.cancelledQuantity > 0 ? "TIME_IN_FORCE" : undefined
+      );
+      for (const maker of updatedMakers) {
+        marketFeed.publishOrder(maker);
+      }
+      for (const expired of expiredOrders) {
+        marketFeed.publishOrder({ ...expired, status: "CANCELLED" }, "EXPIRED");
+      }
+
+      // 5. Refresh Redis cache (soft) and publish the depth diff
+      this.refreshDepthCache(input.marketId, input.outcome, book);
+      this.refreshDepthCache(input.marketId, complementOutcome, complementBook);
+      this.refreshMarketQuotes(input.marketId);
 
       return {
         order,
         trades: matchResult.trades,
         filledQuantity: takerFilledQuantity,
+        receipt: receipts.receipt,
+        tradeReceipts: receipts.tradeReceipts,
       };
     });
   }
+
+  /**
+   * Cancel the resting orders in one book that match `filter`. Callers must
+   * hold the book's mutex. Postgres is the source of truth for which orders
+   * are still open; the in-memory book is brought in line with it.
+   */
+  private async cancelOrdersInBook(
+    marketId: string,
+    outcome: Outcome,
+    filter: CancelFilter,
+    reason: CancellationReason
+  ): Promise<PrismaOrder[]> {
+    const prisma = getPrismaClient();
+    const book = await this.getOrHydrateBook(marketId, outcome);
+
+    const openOrders = await prisma.order.findMany({
+      where: {
+        marketId,
+        outcome,
+        ...(filter.userAddress ? { userAddress: filter.userAddress } : {}),
+        ...(filter.orderId ? { id: filter.orderId } : {}),
+        ...(filter.expiredAt ? { expiresAt: { lte: filter.expiredAt } } : {}),
+        status: { in: [...CANCELLABLE_STATUSES] },
+      },
+    });
+
+    if (openOrders.length === 0) {
+      return [];
+    }
+
+    const orderIds = openOrders.map((o) => o.id);
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        await tx.order.updateMany({
+          where: {
+            id: { in: orderIds },
+            status: { in: [...CANCELLABLE_STATUSES] },
+          },
+          data: { status: "CANCELLED" },
+        });
+
+        // Return the collateral the cancelled bids were holding
+        for (const order of openOrders) {
+          const release = getReleaseEntry(order);
+          if (release) {
+            await recordCollateralEntry(tx, release);
+          }
+        }
+      });
+    } catch (error) {
+      this.invalidateBook(marketId, outcome);
+      throw error;
+    }
+
+    // After successful commit:
+    // 1. Remove the orders from the in-memory book
+    for (const id of orderIds) {
+      book.removeOrder(id);
+    }
+
+    // 2. Log cancellations to audit before returning control to the caller
+    const timestamp = Date.now();
+    await Promise.all(
+      openOrders.map((o) =>
+        auditService.logOrderCancellation({
+          orderId: o.id,
+          marketId,
+          outcome,
+          side: o.side,
+          userAddress: o.userAddress,
+          price: Number(o.price),
+          cancelledQuantity: o.quantity - o.filledQuantity,
+          timestamp,
+          reason,
+        })
+      )
+    );
+
+    // 3. Push the cancellations to wallet feed subscribers
+    const cancelledOrders = openOrders.map((o) => ({
+      ...o,
+      status: "CANCELLED" as const,
+    }));
+    for (const cancelled of cancelledOrders) {
+      marketFeed.publishOrder(cancelled, reason);
+    }
+
+    // 4. Refresh Redis cache (soft) and publish the depth diff
+    this.refreshDepthCache(marketId, outcome, book);
+    this.refreshMarketQuotes(marketId);
+
+    return cancelledOrders;
+  }
+
+  /**
+   * Cancel a single resting order on behalf of its owner.
+   *
+   * @throws NotFoundError if the order does not exist
+   * @throws ForbiddenError if the order belongs to another wallet
+   * @throws ValidationError if the order is no longer open
+   */
+  async cancelOrder(
+    orderId: string,
+    userAddress: string
+  ): Promise<CancelOrderResult> {
+    const prisma = getPrismaClient();
+
+    const existing = await prisma.order.findUnique({ where: { id: orderId } });
+    if (!existing) {
+      throw new NotFoundError(`Order ${orderId} not found`);
+    }
+
+    if (existing.userAddress !== userAddress) {
+      throw new ForbiddenError("Order does not belong to this wallet");
+    }
+
+    const bookKey = this.getBookKey(existing.marketId, existing.outcome);
+
+    return this.getOrCreateMutex(bookKey).run(async () => {
+      const [order] = await this.cancelOrdersInBook(
+        existing.marketId,
+        existing.outcome,
+        { userAddress, orderId },
+        "USER"
+      );
+
+      if (!order) {
+        throw new ValidationError(
+          `Order ${orderId} is no longer open and cannot be cancelled`
+        );
+      }
+
+      return { order };
+    });
+  }
+
+  /**
+   * Cancel every resting order a wallet holds in a market, across both
+   * outcome books. Each book is cancelled under its own mutex.
+   */
+  async cancelAllOrders(
+    marketId: string,
+    userAddress: string
+  ): Promise<CancelAllOrdersResult> {
+    const outcomes: Outcome[] = ["YES", "NO"];
+    const cancelledOrders: PrismaOrder[] = [];
+
+    for (const outcome of outcomes) {
+      const bookKey = this.getBookKey(marketId, outcome);
+      const cancelled = await this.getOrCreateMutex(bookKey).run(() =>
+        this.cancelOrdersInBook(marketId, outcome, { userAddress }, "USER")
+      );
+      cancelledOrders.push(...cancelled);
+    }
+
+    return { marketId, cancelledOrders };
+  }
+
+  /**
+   * Stop trading in a market that has closed, been cancelled or been
+   * resolved: cancel every resting order in both outcome books, drop the
+   * books from memory and clear the market's Redis order book cache.
+   * Callers must have moved the market out of ACTIVE first so no new order
+   * can rest.
+   */
+  async haltMarket(
+    marketId: string,
+    reason: "MARKET_CLOSED" | "MARKET_CANCELLED" | "MARKET_RESOLVED"
+  ): Promise<PrismaOrder[]> {
+    const outcomes: Outcome[] = ["YES", "NO"];
+    const cancelledOrders: PrismaOrder[] = [];
+
+    for (const outcome of outcomes) {
+      const bookKey = this.getBookKey(marketId, outcome);
+      const cancelled = await this.getOrCreateMutex(bookKey).run(async () => {
+        const orders = await this.cancelOrdersInBook(
+          marketId,
+          outcome,
+          {},
+          reason
+        );
+        this.invalidateBook(marketId, outcome);
+        return orders;
+      });
+      cancelledOrders.push(...cancelled);
+    }
+
+    await redis.clearOrderBook(marketId);
+
+    return cancelledOrders;
+  }
+
+  /**
+   * Cancel every GTT order whose expiry is at or before `now`, in both the
+   * `orders` table and the in-memory books. Each affected book is swept
+   * under its own mutex so expiry never races placeOrder.
+   */
+  async expireOrders(now: Date = new Date()): Promise<PrismaOrder[]> {
+    const prisma = getPrismaClient();
+
+    const books = await prisma.order.findMany({
+      where: {
+        status: { in: [...CANCELLABLE_STATUSES] },
+        expiresAt: { lte: now },
+      },
+      select: { marketId: true, outcome: true },
+      distinct: ["marketId", "outcome"],
+    });
+
+    const expiredOrders: PrismaOrder[] = [];
+
+    for (const { marketId, outcome } of books) {
+      const bookKey = this.getBookKey(marketId, outcome);
+      const expired = await this.getOrCreateMutex(bookKey).run(() =>
+        this.cancelOrdersInBook(
+          marketId,
+          outcome,
+          { expiredAt: now },
+          "EXPIRED"
+        )
+      );
+      expiredOrders.push(...expired);
+    }
+
+    return expiredOrders;
+  }
 }
 
 export const matchingService = new MatchingService();
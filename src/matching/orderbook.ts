@@ -8,6 +8,8 @@ export interface Order {
   timestamp: number;
   marketId: string;
   outcome: number;
+  // Epoch ms after which a GTT order must no longer trade
+  expiresAt?: number;
 }
 
 // Price level in the order book containing all orders at that price
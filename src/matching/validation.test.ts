@@ -6,8 +6,14 @@ import {
   validatePrice,
   validateTickSize,
   validateQuantity,
+  validateTimeInForce,
+  validateExpiresAt,
+  validateOrderType,
+  validateMaxCost,
   validateOrderFields,
   validateMarketState,
+  validateBalances,
+  getRequiredCollateral,
   validateOrder,
   assertValidOrder,
   OrderValidationError,
@@ -17,11 +23,23 @@ import {
 
 // Mock the prisma service
 const mockFindUnique = vi.fn();
+const mockBalanceFindUnique = vi.fn();
+const mockPositionFindUnique = vi.fn();
+const mockOrderFindMany = vi.fn();
 vi.mock("../services/prisma.js", () => ({
   getPrismaClient: () => ({
     market: {
       findUnique: mockFindUnique,
     },
+    collateralBalance: {
+      findUnique: mockBalanceFindUnique,
+    },
+    userPosition: {
+      findUnique: mockPositionFindUnique,
+    },
+    order: {
+      findMany: mockOrderFindMany,
+    },
   }),
 }));
 
@@ -257,6 +275,125 @@ describe("Order Validation", () => {
     });
   });
 
+  describe("validateTimeInForce", () => {
+    it("should accept omitted time in force", () => {
+      expect(validateTimeInForce(undefined)).toBeNull();
+    });
+
+    it("should accept GTC, IOC, FOK and GTT", () => {
+      for (const tif of ["GTC", "IOC", "FOK", "GTT"]) {
+        expect(validateTimeInForce(tif)).toBeNull();
+      }
+    });
+
+    it("should reject unknown values", () => {
+      expect(validateTimeInForce("DAY")).toBe(
+        "Time in force must be one of GTC, IOC, FOK, GTT"
+      );
+    });
+
+    it("should only allow IOC or FOK for MARKET orders", () => {
+      expect(validateTimeInForce(undefined, false, "MARKET")).toBeNull();
+      expect(validateTimeInForce("IOC", false, "MARKET")).toBeNull();
+      expect(validateTimeInForce("FOK", false, "MARKET")).toBeNull();
+      expect(validateTimeInForce("GTC", false, "MARKET")).toBe(
+        "MARKET orders must use IOC or FOK"
+      );
+      expect(validateTimeInForce("GTT", false, "MARKET")).toBe(
+        "MARKET orders must use IOC or FOK"
+      );
+    });
+
+    it("should reject post-only MARKET orders", () => {
+      expect(validateTimeInForce(undefined, true, "MARKET")).toBe(
+        "Post-only is not allowed for MARKET orders"
+      );
+    });
+
+    it("should reject post-only with IOC or FOK", () => {
+      expect(validateTimeInForce("IOC", true)).toBe(
+        "Post-only orders must use GTC or GTT"
+      );
+      expect(validateTimeInForce("FOK", true)).toBe(
+        "Post-only orders must use GTC or GTT"
+      );
+      expect(validateTimeInForce("GTT", true)).toBeNull();
+    });
+  });
+
+  describe("validateOrderType", () => {
+    it("should accept omitted, LIMIT and MARKET", () => {
+      expect(validateOrderType(undefined)).toBeNull();
+      expect(validateOrderType("LIMIT")).toBeNull();
+      expect(validateOrderType("MARKET")).toBeNull();
+    });
+
+    it("should reject unknown order types", () => {
+      expect(validateOrderType("STOP")).toBe(
+        "Order type must be 'LIMIT' or 'MARKET'"
+      );
+    });
+  });
+
+  describe("validateMaxCost", () => {
+    it("should accept a positive max cost on a MARKET BUY", () => {
+      expect(validateMaxCost(25, "MARKET", "BUY")).toBeNull();
+    });
+
+    it("should reject max cost on LIMIT or SELL orders", () => {
+      expect(validateMaxCost(25, "LIMIT", "BUY")).toBe(
+        "Max cost is only allowed for MARKET BUY orders"
+      );
+      expect(validateMaxCost(25, "MARKET", "SELL")).toBe(
+        "Max cost is only allowed for MARKET BUY orders"
+      );
+    });
+
+    it("should reject non-positive or non-finite values", () => {
+      expect(validateMaxCost(0, "MARKET", "BUY")).toBe(
+        "Max cost must be positive"
+      );
+      expect(validateMaxCost(Infinity, "MARKET", "BUY")).toBe(
+        "Max cost must be a number"
+      );
+    });
+  });
+
+  describe("validateExpiresAt", () => {
+    const now = 1_700_000_000_000;
+
+    it("should require expiry for GTT orders", () => {
+      expect(validateExpiresAt(undefined, "GTT", now)).toBe(
+        "Expiry is required for GTT orders"
+      );
+    });
+
+    it("should accept a future integer expiry for GTT orders", () => {
+      expect(validateExpiresAt(now + 60_000, "GTT", now)).toBeNull();
+    });
+
+    it("should reject a past expiry", () => {
+      expect(validateExpiresAt(now, "GTT", now)).toBe(
+        "Expiry must be in the future"
+      );
+    });
+
+    it("should reject non-integer expiry", () => {
+      expect(validateExpiresAt(now + 0.5, "GTT", now)).toBe(
+        "Expiry must be an integer timestamp in milliseconds"
+      );
+    });
+
+    it("should reject expiry on non-GTT orders", () => {
+      expect(validateExpiresAt(now + 60_000, "GTC", now)).toBe(
+        "Expiry is only allowed for GTT orders"
+      );
+      expect(validateExpiresAt(now + 60_000, undefined, now)).toBe(
+        "Expiry is only allowed for GTT orders"
+      );
+    });
+  });
+
   describe("validateOrderFields", () => {
     it("should pass valid order", () => {
       const result = validateOrderFields(validOrder);
@@ -284,6 +421,31 @@ describe("Order Validation", () => {
       expect(result.errors.quantity).toBeDefined();
     });
 
+    it("should accept a MARKET order bounded only by max cost", () => {
+      const { price: _price, ...rest } = validOrder;
+      const result = validateOrderFields({
+        ...rest,
+        orderType: "MARKET",
+        maxCost: 40,
+      });
+      expect(result.valid).toBe(true);
+    });
+
+    it("should require a worst price or max cost on MARKET orders", () => {
+      const { price: _price, ...rest } = validOrder;
+      const result = validateOrderFields({ ...rest, orderType: "MARKET" });
+      expect(result.valid).toBe(false);
+      expect(result.errors.price).toBe(
+        "MARKET orders require a worst price or a max cost"
+      );
+    });
+
+    it("should still require a price on LIMIT orders", () => {
+      const { price: _price, ...rest } = validOrder;
+      const result = validateOrderFields(rest);
+      expect(result.errors.price).toBe("Price is required");
+    });
+
     it("should reject order with price not aligned to tick size", () => {
       const orderWithBadPrice: OrderInput = {
         ...validOrder,
@@ -366,6 +528,61 @@ describe("Order Validation", () => {
     });
   });
 
+  describe("getRequiredCollateral", () => {
+    it("should require price x quantity for a LIMIT bid", () => {
+      expect(getRequiredCollateral({ ...validOrder, price: 0.55 })).toBe(55);
+    });
+
+    it("should cap a MARKET bid at its max cost", () => {
+      expect(
+        getRequiredCollateral({
+          ...validOrder,
+          orderType: "MARKET",
+          price: undefined,
+          maxCost: 20,
+        })
+      ).toBe(20);
+    });
+
+    it("should require nothing for an ask", () => {
+      expect(getRequiredCollateral({ ...validOrder, side: "SELL" })).toBe(0);
+    });
+  });
+
+  describe("validateBalances", () => {
+    it("should reject a bid the available collateral does not cover", async () => {
+      mockBalanceFindUnique.mockResolvedValue({ available: "49.99" });
+
+      const result = await validateBalances(validOrder);
+      expect(result.valid).toBe(false);
+      expect(result.errors.collateral).toBe(
+        "Insufficient collateral: order requires 50, available 49.99"
+      );
+    });
+
+    it("should treat a wallet without a balance row as empty", async () => {
+      mockBalanceFindUnique.mockResolvedValue(null);
+
+      const result = await validateBalances(validOrder);
+      expect(result.errors.collateral).toContain("available 0");
+    });
+
+    it("should subtract shares offered by open asks", async () => {
+      mockPositionFindUnique.mockResolvedValue({ yesShares: 100, noShares: 0 });
+      mockOrderFindMany.mockResolvedValue([
+        { quantity: 40, filledQuantity: 10 },
+      ]);
+
+      const sellOrder: OrderInput = { ...validOrder, side: "SELL" };
+      expect((await validateBalances(sellOrder)).errors.shares).toBe(
+        "Insufficient YES shares: order requires 100, available 70"
+      );
+      expect(
+        (await validateBalances({ ...sellOrder, quantity: 70 })).valid
+      ).toBe(true);
+    });
+  });
+
   describe("validateOrder", () => {
     it("should pass valid order with active market", async () => {
       const futureDate = new Date(Date.now() + 24 * 60 * 60 * 1000);
@@ -376,6 +593,7 @@ describe("Order Validation", () => {
         createdAt: new Date(),
         updatedAt: new Date(),
       });
+      mockBalanceFindUnique.mockResolvedValue({ available: "50" });
 
       const result = await validateOrder(validOrder);
       expect(result.valid).toBe(true);
@@ -414,6 +632,7 @@ describe("Order Validation", () => {
         createdAt: new Date(),
         updatedAt: new Date(),
       });
+      mockBalanceFindUnique.mockResolvedValue({ available: "50" });
 
       await expect(assertValidOrder(validOrder)).resolves.toBeUndefined();
     });
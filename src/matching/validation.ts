@@ -1,6 +1,11 @@
 import { ValidationError } from "../api/middleware/errors.js";
 import { getPrismaClient } from "../services/prisma.js";
-import type { OrderSide, Outcome } from "../types/index.js";
+import type {
+  OrderSide,
+  OrderType,
+  Outcome,
+  TimeInForce,
+} from "../types/index.js";
 
 // Input type for order validation (what the API receives)
 export interface OrderInput {
@@ -8,8 +13,16 @@ export interface OrderInput {
   userAddress: string;
   side: OrderSide;
   outcome: Outcome;
-  price: number;
+  // Limit price; for MARKET orders the optional worst acceptable price
+  price?: number;
   quantity: number;
+  orderType?: OrderType;
+  // MARKET BUY only: cap on total price × quantity spent
+  maxCost?: number;
+  timeInForce?: TimeInForce;
+  postOnly?: boolean;
+  // Epoch ms; required for GTT orders and rejected for every other type
+  expiresAt?: number;
 }
 
 // Validation result structure
@@ -97,6 +110,13 @@ export function validateOutcome(outcome: unknown): string | null {
  */
 export const TICK_SIZE = 0.01;
 
+/**
+ * Price bounds a MARKET order sweeps to when the caller gives no worst price:
+ * buys accept up to MAX_PRICE, sells accept down to MIN_PRICE.
+ */
+export const MIN_PRICE = TICK_SIZE;
+export const MAX_PRICE = 0.99;
+
 /**
  * Validates that a price aligns to the minimum tick size.
  * Uses rounded integer arithmetic to avoid IEEE-754 floating-point drift.
@@ -157,6 +177,128 @@ export function validateQuantity(quantity: unknown): string | null {
   return null;
 }
 
+/**
+ * Validates order type
+ * - Optional; must be 'LIMIT' or 'MARKET' when provided
+ */
+export function validateOrderType(orderType: unknown): string | null {
+  if (orderType === null || orderType === undefined) {
+    return null;
+  }
+
+  if (orderType !== "LIMIT" && orderType !== "MARKET") {
+    return "Order type must be 'LIMIT' or 'MARKET'";
+  }
+
+  return null;
+}
+
+/**
+ * Validates max cost
+ * - Optional; only allowed on MARKET BUY orders
+ * - Must be a positive finite number
+ */
+export function validateMaxCost(
+  maxCost: unknown,
+  orderType: OrderType | undefined,
+  side: OrderSide
+): string | null {
+  if (maxCost === null || maxCost === undefined) {
+    return null;
+  }
+
+  if (orderType !== "MARKET" || side !== "BUY") {
+    return "Max cost is only allowed for MARKET BUY orders";
+  }
+
+  if (typeof maxCost !== "number" || !Number.isFinite(maxCost)) {
+    return "Max cost must be a number";
+  }
+
+  if (maxCost <= 0) {
+    return "Max cost must be positive";
+  }
+
+  return null;
+}
+
+export const TIME_IN_FORCE_VALUES: readonly TimeInForce[] = [
+  "GTC",
+  "IOC",
+  "FOK",
+  "GTT",
+];
+
+/**
+ * Validates time-in-force
+ * - Optional; must be one of GTC, IOC, FOK, GTT when provided
+ * - Post-only orders must be able to rest, so IOC and FOK are not allowed
+ * - MARKET orders never rest, so only IOC and FOK are allowed and post-only
+ *   is rejected
+ */
+export function validateTimeInForce(
+  timeInForce: unknown,
+  postOnly?: boolean,
+  orderType?: OrderType
+): string | null {
+  if (
+    timeInForce !== null &&
+    timeInForce !== undefined &&
+    !TIME_IN_FORCE_VALUES.includes(timeInForce as TimeInForce)
+  ) {
+    return "Time in force must be one of GTC, IOC, FOK, GTT";
+  }
+
+  const restsInBook = timeInForce === "GTC" || timeInForce === "GTT";
+
+  if (orderType === "MARKET") {
+    if (postOnly) {
+      return "Post-only is not allowed for MARKET orders";
+    }
+    if (restsInBook) {
+      return "MARKET orders must use IOC or FOK";
+    }
+    return null;
+  }
+
+  if (postOnly && (timeInForce === "IOC" || timeInForce === "FOK")) {
+    return "Post-only orders must use GTC or GTT";
+  }
+
+  return null;
+}
+
+/**
+ * Validates expiry
+ * - Required for GTT orders and must be in the future
+ * - Not allowed for any other time-in-force
+ */
+export function validateExpiresAt(
+  expiresAt: unknown,
+  timeInForce: TimeInForce | undefined,
+  now: number = Date.now()
+): string | null {
+  if (timeInForce !== "GTT") {
+    return expiresAt === null || expiresAt === undefined
+      ? null
+      : "Expiry is only allowed for GTT orders";
+  }
+
+  if (expiresAt === null || expiresAt === undefined) {
+    return "Expiry is required for GTT orders";
+  }
+
+  if (typeof expiresAt !== "number" || !Number.isInteger(expiresAt)) {
+    return "Expiry must be an integer timestamp in milliseconds";
+  }
+
+  if (expiresAt <= now) {
+    return "Expiry must be in the future";
+  }
+
+  return null;
+}
+
 /**
  * Validates all synchronous order fields
  * Returns aggregated validation result with all errors
@@ -179,9 +321,30 @@ export function validateOrderFields(order: OrderInput): ValidationResult {
     errors.outcome = outcomeError;
   }
 
-  const priceError = validatePrice(order.price);
-  if (priceError) {
-    errors.price = priceError;
+  const orderTypeError = validateOrderType(order.orderType);
+  if (orderTypeError) {
+    errors.orderType = orderTypeError;
+  }
+
+  // MARKET orders may omit the worst price when a max cost bounds them
+  if (order.orderType === "MARKET" && order.price === undefined) {
+    if (order.maxCost === undefined) {
+      errors.price = "MARKET orders require a worst price or a max cost";
+    }
+  } else {
+    const priceError = validatePrice(order.price);
+    if (priceError) {
+      errors.price = priceError;
+    }
+  }
+
+  const maxCostError = validateMaxCost(
+    order.maxCost,
+    order.orderType,
+    order.side
+  );
+  if (maxCostError) {
+    errors.maxCost = maxCostError;
   }
 
   const quantityError = validateQuantity(order.quantity);
@@ -189,6 +352,20 @@ export function validateOrderFields(order: OrderInput): ValidationResult {
     errors.quantity = quantityError;
   }
 
+  const timeInForceError = validateTimeInForce(
+    order.timeInForce,
+    order.postOnly,
+    order.orderType
+  );
+  if (timeInForceError) {
+    errors.timeInForce = timeInForceError;
+  }
+
+  const expiresAtError = validateExpiresAt(order.expiresAt, order.timeInForce);
+  if (expiresAtError) {
+    errors.expiresAt = expiresAtError;
+  }
+
   return {
     valid: Object.keys(errors).length === 0,
     errors,
@@ -232,10 +409,137 @@ export async function validateMarketState(
   };
 }
 
+/**
+ * Most collateral a BUY order can spend: price × quantity, where a MARKET
+ * order without a worst price sweeps up to MAX_PRICE, capped by its max
+ * cost. SELL orders are paid for with shares and need no collateral.
+ */
+export function getRequiredCollateral(order: OrderInput): number {
+  if (order.side !== "BUY") {
+    return 0;
+  }
+
+  const worstCost = (order.price ?? MAX_PRICE) * order.quantity;
+  const required =
+    order.maxCost !== undefined
+      ? Math.min(order.maxCost, worstCost)
+      : worstCost;
+
+  // Drop floating-point noise; balances are stored with 8 decimals
+  return Number(required.toFixed(8));
+}
+
+/**
+ * Validates that a wallet's available collateral covers a bid
+ */
+export function validateCollateralBalance(
+  required: number,
+  available: number
+): string | null {
+  if (available < required) {
+    return `Insufficient collateral: order requires ${required}, available ${available}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validates that a wallet holds enough unencumbered shares for an ask
+ */
+export function validateShareBalance(
+  outcome: Outcome,
+  quantity: number,
+  available: number
+): string | null {
+  if (available < quantity) {
+    return `Insufficient ${outcome} shares: order requires ${quantity}, available ${available}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validates the wallet can pay for the order
+ * - BUY: available collateral in the market must cover getRequiredCollateral
+ * - SELL: shares held, less shares already offered by open asks, must cover
+ *   the quantity
+ *
+ * MatchingService repeats both checks under the book lock when it reserves
+ * the collateral, so this only rejects orders early.
+ */
+export async function validateBalances(
+  order: OrderInput
+): Promise<ValidationResult> {
+  const errors: Record<string, string> = {};
+  const prisma = getPrismaClient();
+
+  if (order.side === "BUY") {
+    const balance = await prisma.collateralBalance.findUnique({
+      where: {
+        userAddress_marketId: {
+          userAddress: order.userAddress,
+          marketId: order.marketId,
+        },
+      },
+    });
+
+    const collateralError = validateCollateralBalance(
+      getRequiredCollateral(order),
+      Number(balance?.available ?? 0)
+    );
+    if (collateralError) {
+      errors.collateral = collateralError;
+    }
+  } else {
+    const [position, openAsks] = await Promise.all([
+      prisma.userPosition.findUnique({
+        where: {
+          marketId_userAddress: {
+            marketId: order.marketId,
+            userAddress: order.userAddress,
+          },
+        },
+      }),
+      prisma.order.findMany({
+        where: {
+          marketId: order.marketId,
+          userAddress: order.userAddress,
+          outcome: order.outcome,
+          side: "SELL",
+          status: { in: ["OPEN", "PARTIALLY_FILLED"] },
+        },
+        select: { quantity: true, filledQuantity: true },
+      }),
+    ]);
+
+    const held =
+      (order.outcome === "YES" ? position?.yesShares : position?.noShares) ?? 0;
+    const offered = openAsks.reduce(
+      (sum, ask) => sum + ask.quantity - ask.filledQuantity,
+      0
+    );
+
+    const sharesError = validateShareBalance(
+      order.outcome,
+      order.quantity,
+      held - offered
+    );
+    if (sharesError) {
+      errors.shares = sharesError;
+    }
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+  };
+}
+
 /**
  * Main validation function
  * - Runs synchronous field validations first (fast path)
  * - If field validations pass, runs market state validation
+ * - If the market accepts orders, checks the wallet can pay for the order
  * - Returns combined validation result
  */
 export async function validateOrder(
@@ -251,7 +555,11 @@ export async function validateOrder(
   // Only run database validation if field validation passes
   const marketResult = await validateMarketState(order.marketId);
 
-  return marketResult;
+  if (!marketResult.valid) {
+    return marketResult;
+  }
+
+  return validateBalances(order);
 }
 
 /**
@@ -4,4 +4,11 @@ export {
   isChallengeWindowOpen,
 } from "./challengeWindow.js";
 
+export {
+  ORACLE_SOURCES,
+  OracleSourceResolver,
+  matchOracleSource,
+  normalizeAlias,
+} from "./sourceResolver.js";
+
 export { loadBaseConfig } from "../../packages/shared/src/config.js";
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  OracleSourceResolver,
+  matchOracleSource,
+  normalizeAlias,
+  type OracleSourceAliasClient,
+} from "./sourceResolver";
+
+function clientWith(rows: { alias: string; canonicalSource: string }[]) {
+  const findMany = vi.fn().mockResolvedValue(rows);
+  const client = {
+    oracleSourceAlias: { findMany },
+  } as unknown as OracleSourceAliasClient;
+  return { client, findMany };
+}
+
+describe("normalizeAlias", () => {
+  it("trims and lower-cases the alias", () => {
+    expect(normalizeAlias("  Fallback-1 ")).toBe("fallback-1");
+  });
+});
+
+describe("matchOracleSource", () => {
+  it("matches an OracleSource name regardless of case", () => {
+    expect(matchOracleSource(" chainlink")).toBe("CHAINLINK");
+    expect(matchOracleSource("PYTH")).toBe("PYTH");
+  });
+
+  it("returns null for anything else", () => {
+    expect(matchOracleSource("GORACLE1")).toBeNull();
+  });
+});
+
+describe("OracleSourceResolver", () => {
+  it("maps a source through its alias, case-insensitively", async () => {
+    const { client } = clientWith([
+      { alias: "fallback-1", canonicalSource: "PYTH" },
+    ]);
+    const resolver = new OracleSourceResolver(client);
+
+    await expect(resolver.canonicalize("Fallback-1")).resolves.toBe("PYTH");
+  });
+
+  it("falls back to a direct OracleSource name, then null", async () => {
+    const { client } = clientWith([]);
+    const resolver = new OracleSourceResolver(client);
+
+    await expect(resolver.canonicalize("uma")).resolves.toBe("UMA");
+    await expect(resolver.canonicalize("GORACLE1")).resolves.toBeNull();
+  });
+
+  it("lets an alias override a direct name", async () => {
+    const { client } = clientWith([
+      { alias: "manual", canonicalSource: "INTERNAL" },
+    ]);
+    const resolver = new OracleSourceResolver(client);
+
+    await expect(resolver.canonicalize("MANUAL")).resolves.toBe("INTERNAL");
+  });
+
+  it("serves cached aliases until the TTL expires", async () => {
+    let now = 0;
+    const { client, findMany } = clientWith([]);
+    const resolver = new OracleSourceResolver(client, 1_000, () => now);
+
+    await resolver.canonicalize("a");
+    now = 999;
+    await resolver.canonicalize("b");
+    expect(findMany).toHaveBeenCalledTimes(1);
+
+    now = 1_000;
+    await resolver.canonicalize("c");
+    expect(findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares one load between concurrent lookups", async () => {
+    const { client, findMany } = clientWith([]);
+    const resolver = new OracleSourceResolver(client);
+
+    await Promise.all([
+      resolver.canonicalize("a"),
+      resolver.canonicalize("b"),
+      resolver.canonicalize("c"),
+    ]);
+
+    expect(findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("reloads on the next lookup after invalidate()", async () => {
+    const { client, findMany } = clientWith([]);
+    const resolver = new OracleSourceResolver(client);
+
+    await expect(resolver.canonicalize("primary")).resolves.toBeNull();
+    findMany.mockResolvedValue([
+      { alias: "primary", canonicalSource: "CHAINLINK" },
+    ]);
+    resolver.invalidate();
+
+    await expect(resolver.canonicalize("primary")).resolves.toBe("CHAINLINK");
+    expect(findMany).toHaveBeenCalledTimes(2);
+  });
+});
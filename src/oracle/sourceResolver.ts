@@ -0,0 +1,100 @@
+/**
+ * Canonical oracle source resolution.
+ *
+ * OracleReport.source and ResolutionCandidate.source are free-form strings
+ * ("primary", "fallback-1", an oracle address, "chain:market_resolved:<id>").
+ * The oracle_source_aliases table maps them to the OracleSource enum; every
+ * oracle write path stores the result as canonicalSource next to the raw
+ * source.
+ */
+
+import type {
+  OracleSource,
+  PrismaClient,
+} from "../generated/prisma/client/index.js";
+
+export const ORACLE_SOURCES: readonly OracleSource[] = [
+  "CHAINLINK",
+  "PYTH",
+  "UMA",
+  "API3",
+  "INTERNAL",
+  "MANUAL",
+];
+
+/** How long a resolver serves aliases before reloading the table. */
+export const DEFAULT_ALIAS_CACHE_TTL_MS = 60_000;
+
+export type OracleSourceAliasClient = Pick<PrismaClient, "oracleSourceAlias">;
+
+/**
+ * Aliases are stored and matched trimmed and lower-cased, so "Chainlink "
+ * and "chainlink" are the same alias.
+ */
+export function normalizeAlias(alias: string): string {
+  return alias.trim().toLowerCase();
+}
+
+/**
+ * The OracleSource a source string names directly ("chainlink", "PYTH"),
+ * without an alias row; null otherwise.
+ */
+export function matchOracleSource(source: string): OracleSource | null {
+  const name = source.trim().toUpperCase();
+  return ORACLE_SOURCES.find((s) => s === name) ?? null;
+}
+
+/**
+ * Cached alias lookup. The whole alias table is loaded on first use and
+ * reloaded once it is older than the TTL, so each process sees an admin's
+ * alias change within `ttlMs`; call invalidate() to see it at once.
+ */
+export class OracleSourceResolver {
+  private aliases: Map<string, OracleSource> | null = null;
+  private loadedAt = 0;
+  private loading: Promise<Map<string, OracleSource>> | null = null;
+
+  constructor(
+    private readonly client: OracleSourceAliasClient,
+    private readonly ttlMs: number = DEFAULT_ALIAS_CACHE_TTL_MS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Canonical source of a raw source string: its alias if one exists, else
+   * the OracleSource it names directly, else null.
+   */
+  async canonicalize(source: string): Promise<OracleSource | null> {
+    const aliases = await this.getAliases();
+    return aliases.get(normalizeAlias(source)) ?? matchOracleSource(source);
+  }
+
+  /** Drop the cached aliases; the next lookup reloads the table. */
+  invalidate(): void {
+    this.aliases = null;
+  }
+
+  private async getAliases(): Promise<Map<string, OracleSource>> {
+    if (this.aliases && this.now() - this.loadedAt < this.ttlMs) {
+      return this.aliases;
+    }
+
+    // Concurrent lookups share one reload
+    this.loading ??= this.load().finally(() => {
+      this.loading = null;
+    });
+    return this.loading;
+  }
+
+  private async load(): Promise<Map<string, OracleSource>> {
+    const rows = await this.client.oracleSourceAlias.findMany({
+      select: { alias: true, canonicalSource: true },
+    });
+    const aliases = new Map(
+      rows.map((row) => [normalizeAlias(row.alias), row.canonicalSource])
+    );
+    this.aliases = aliases;
+    this.loadedAt = this.now();
+    return aliases;
+  }
+}
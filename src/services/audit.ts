@@ -1,6 +1,8 @@
 import { redis } from "./redis.js";
 import { getPrismaClient } from "./prisma.js";
+import { toSettlementSummary, type SettlementSummary } from "./settlements.js";
 import type { Trade } from "../matching/engine.js";
+import type { OrderSide, Outcome } from "../types/index.js";
 
 /**
  * Audit log entry for a trade execution
@@ -12,6 +14,42 @@ export interface AuditLogEntry {
   trade: Trade;
   /** ISO timestamp when logged */
   loggedAt: string;
+  /** On-chain settlement state; only set by getWalletTradeHistory */
+  settlement?: SettlementSummary | null;
+}
+
+/**
+ * Audit record for a user-initiated order cancellation
+ */
+/**
+ * Why an order left the book without filling:
+ * - USER: cancelled by its owner
+ * - EXPIRED: a GTT order passed its expiry
+ * - TIME_IN_FORCE: the unfilled remainder of an IOC or FOK order
+ * - MARKET_CLOSED: the market reached its end time
+ * - MARKET_CANCELLED: an admin cancelled the market
+ * - MARKET_RESOLVED: the market was resolved while still trading
+ */
+export type CancellationReason =
+  | "USER"
+  | "EXPIRED"
+  | "TIME_IN_FORCE"
+  | "MARKET_CLOSED"
+  | "MARKET_CANCELLED"
+  | "MARKET_RESOLVED";
+
+export interface OrderCancellation {
+  orderId: string;
+  marketId: string;
+  outcome: Outcome;
+  side: OrderSide;
+  userAddress: string;
+  price: number;
+  /** Unfilled quantity that was removed from the book */
+  cancelledQuantity: number;
+  /** Unix milliseconds when the cancellation was applied */
+  timestamp: number;
+  reason: CancellationReason;
 }
 
 /**
@@ -26,6 +64,7 @@ export interface AuditLogEntry {
 export class AuditService {
   private readonly streamPrefix: string;
   private readonly globalStream: string;
+  private readonly cancellationStreamPrefix: string;
   private readonly maxLogEntries = 100000; // ~30 days at 1 trade/min
   private readonly approximateTrimming = true;
 
@@ -33,6 +72,7 @@ export class AuditService {
     const keyPrefix = process.env.REDIS_KEY_PREFIX ?? "vatix:";
     this.streamPrefix = `${keyPrefix}audit:market:`;
     this.globalStream = `${keyPrefix}audit:trades:global`;
+    this.cancellationStreamPrefix = `${keyPrefix}audit:cancellations:`;
   }
 
   /**
@@ -57,6 +97,7 @@ export class AuditService {
         price: trade.price.toString(),
         quantity: trade.quantity.toString(),
         timestamp: trade.timestamp.toString(),
+        ...(trade.matchType ? { matchType: trade.matchType } : {}),
         loggedAt: new Date().toISOString(),
       };
 
@@ -138,6 +179,45 @@ export class AuditService {
     }
   }
 
+  /**
+   * Log an order cancellation to the market's cancellation stream.
+   * Kept separate from the trade streams so trade readers never see
+   * non-trade entries.
+   *
+   * @param cancellation - Cancellation to log
+   * @returns Stream entry ID
+   */
+  async logOrderCancellation(
+    cancellation: OrderCancellation
+  ): Promise<string | null> {
+    const logData = {
+      orderId: cancellation.orderId,
+      marketId: cancellation.marketId,
+      outcome: cancellation.outcome,
+      side: cancellation.side,
+      userAddress: cancellation.userAddress,
+      price: cancellation.price.toString(),
+      cancelledQuantity: cancellation.cancelledQuantity.toString(),
+      timestamp: cancellation.timestamp.toString(),
+      reason: cancellation.reason,
+      loggedAt: new Date().toISOString(),
+    };
+
+    try {
+      return await redis.xadd(
+        `${this.cancellationStreamPrefix}${cancellation.marketId}`,
+        "MAXLEN",
+        this.approximateTrimming ? "~" : "",
+        this.maxLogEntries,
+        "*",
+        ...this.flattenObject(logData)
+      );
+    } catch (error) {
+      console.error("Failed to log order cancellation to audit stream:", error);
+      throw error;
+    }
+  }
+
   /**
    * Get audit log entries for a specific market
    * Returns entries in chronological order (oldest first)
@@ -195,6 +275,48 @@ export class AuditService {
     }
   }
 
+  /**
+   * Get the ID of the newest entry in the global trade stream. Failures are
+   * thrown, since treating them as an empty stream would make a tailer
+   * replay the whole stream.
+   *
+   * @returns Stream entry ID, or null if the stream is empty
+   */
+  async getLatestTradeId(): Promise<string | null> {
+    const [latest] = await redis.xrevrange(
+      this.globalStream,
+      "+",
+      "-",
+      "COUNT",
+      "1"
+    );
+    return latest ? latest[0] : null;
+  }
+
+  /**
+   * Get trades from the global stream logged strictly after `afterId`
+   * Returns entries in chronological order (oldest first). Failures are
+   * thrown so a poller can retry from the same ID.
+   *
+   * @param afterId - Stream entry ID to read past, or null to read from the start
+   * @param limit - Maximum number of entries (default: 100)
+   * @returns Array of audit log entries
+   */
+  async getTradesAfter(
+    afterId: string | null,
+    limit: number = 100
+  ): Promise<AuditLogEntry[]> {
+    const entries = await redis.xrange(
+      this.globalStream,
+      afterId ? `(${afterId}` : "-",
+      "+",
+      "COUNT",
+      limit.toString()
+    );
+
+    return entries.map(([id, fields]) => this.parseStreamEntry(id, fields));
+  }
+
   /**
    * Get paginated trade history for a wallet address from Postgres (durable).
    * Redis audit stream is still written asynchronously for real-time consumers.
@@ -236,6 +358,7 @@ export class AuditService {
         orderBy: { tradedAt: "desc" },
         skip,
         take: limit,
+        include: { settlement: true },
       }),
       prisma.trade.count({ where }),
     ]);
@@ -253,8 +376,10 @@ export class AuditService {
         price: Number(row.price),
         quantity: row.quantity,
         timestamp: row.tradedAt.getTime(),
+        ...(row.matchType !== "DIRECT" ? { matchType: row.matchType } : {}),
       },
       loggedAt: row.createdAt.toISOString(),
+      settlement: row.settlement ? toSettlementSummary(row.settlement) : null,
     }));
 
     return {
@@ -381,6 +506,9 @@ export class AuditService {
       price: parseFloat(data.price),
       quantity: parseInt(data.quantity, 10),
       timestamp: parseInt(data.timestamp, 10),
+      ...(data.matchType
+        ? { matchType: data.matchType as Trade["matchType"] }
+        : {}),
     };
 
     return {
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CandleRefresher } from "./candle-refresher.js";
+
+describe("CandleRefresher", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("refreshes outcomes traded since the last successful run", async () => {
+    const source = { refreshTradedCandles: vi.fn().mockResolvedValue(2) };
+    const refresher = new CandleRefresher(source, 1000);
+    const first = new Date("2026-07-21T00:00:00.000Z");
+    const second = new Date("2026-07-21T00:00:10.000Z");
+
+    await expect(refresher.run(first)).resolves.toBe(2);
+    await refresher.run(second);
+
+    expect(source.refreshTradedCandles).toHaveBeenNthCalledWith(
+      1,
+      undefined,
+      first
+    );
+    expect(source.refreshTradedCandles).toHaveBeenNthCalledWith(
+      2,
+      first,
+      second
+    );
+  });
+
+  it("logs and swallows source failures, then covers the missed trades", async () => {
+    const source = {
+      refreshTradedCandles: vi
+        .fn()
+        .mockResolvedValueOnce(1)
+        .mockRejectedValueOnce(new Error("db down"))
+        .mockResolvedValueOnce(1),
+    };
+    const refresher = new CandleRefresher(source, 1000);
+    const first = new Date("2026-07-21T00:00:00.000Z");
+
+    await refresher.run(first);
+    await expect(
+      refresher.run(new Date("2026-07-21T00:00:10.000Z"))
+    ).resolves.toBe(0);
+    await refresher.run(new Date("2026-07-21T00:00:20.000Z"));
+
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("db down")
+    );
+    expect(source.refreshTradedCandles.mock.calls[2][0]).toBe(first);
+  });
+
+  it("skips a run while the previous one is still running", async () => {
+    let release!: (count: number) => void;
+    const source = {
+      refreshTradedCandles: vi.fn().mockImplementation(
+        () =>
+          new Promise<number>((resolve) => {
+            release = resolve;
+          })
+      ),
+    };
+    const refresher = new CandleRefresher(source, 1000);
+
+    const first = refresher.run();
+    await expect(refresher.run()).resolves.toBe(0);
+    release(1);
+
+    await expect(first).resolves.toBe(1);
+    expect(source.refreshTradedCandles).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,85 @@
+/** The slice of the candles service the refresher depends on. */
+export interface CandleSource {
+  refreshTradedCandles(tradedSince?: Date, now?: Date): Promise<number>;
+}
+
+/**
+ * Periodically brings the stored candles of recently traded markets up to
+ * date, so reading candles never writes. The first run refreshes every
+ * market outcome that ever traded; later runs only those that traded since
+ * the last successful run.
+ *
+ * A run that is still in progress when the next tick fires is not
+ * overlapped; the tick is skipped instead.
+ */
+export class CandleRefresher {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunInProgress = false;
+  private lastRunAt: Date | undefined;
+
+  constructor(
+    private readonly source: CandleSource,
+    private readonly intervalMs: number
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.run(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Refresh candles once. Failures are logged, not thrown, so a transient
+   * database error never stops the interval; the next run covers the trades
+   * the failed one missed.
+   *
+   * @returns number of market outcomes refreshed, or 0 if skipped or failed
+   */
+  async run(now: Date = new Date()): Promise<number> {
+    if (this.isRunInProgress) return 0;
+    this.isRunInProgress = true;
+
+    try {
+      const refreshed = await this.source.refreshTradedCandles(
+        this.lastRunAt,
+        now
+      );
+      this.lastRunAt = now;
+
+      if (refreshed > 0) {
+        console.info(
+          JSON.stringify({
+            ts: new Date().toISOString(),
+            level: "info",
+            component: "candle-refresher",
+            message: "Candles refreshed",
+            metric: "candles.refreshed",
+            value: refreshed,
+          })
+        );
+      }
+
+      return refreshed;
+    } catch (error) {
+      console.error(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "error",
+          component: "candle-refresher",
+          message: "Candle refresh failed",
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      return 0;
+    } finally {
+      this.isRunInProgress = false;
+    }
+  }
+}
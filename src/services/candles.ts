@@ -0,0 +1,276 @@
+import type { Prisma, PrismaClient } from "../generated/prisma/client";
+import { getPrismaClient } from "./prisma.js";
+
+export const CANDLE_INTERVALS = ["1m", "5m", "1h", "1d"] as const;
+export type CandleInterval = (typeof CANDLE_INTERVALS)[number];
+
+/** Upper bound on candles returned by one query. */
+export const MAX_CANDLES = 1000;
+
+const INTERVAL_MS: Record<CandleInterval, number> = {
+  "1m": 60_000,
+  "5m": 300_000,
+  "1h": 3_600_000,
+  "1d": 86_400_000,
+};
+
+/** Stored candles each interval is rolled up from; 1m is folded from trades */
+const SOURCE_INTERVAL: Record<CandleInterval, CandleInterval | null> = {
+  "1m": null,
+  "5m": "1m",
+  "1h": "5m",
+  "1d": "1h",
+};
+
+/**
+ * Trades are bucketed by `tradedAt` but committed slightly later, so a
+ * refresh always recomputes the buckets of this trailing window.
+ */
+const REFRESH_LAG_MS = 60_000;
+
+/** Trades read per query while folding 1m candles */
+const TRADE_BATCH_SIZE = 5_000;
+
+type CandleClient = Pick<PrismaClient, "trade" | "marketCandle">;
+
+/** Prices and size over a span of time. A single trade is a sample too. */
+export interface CandleSample {
+  at: Date;
+  open: Prisma.Decimal;
+  high: Prisma.Decimal;
+  low: Prisma.Decimal;
+  close: Prisma.Decimal;
+  volume: number;
+  tradeCount: number;
+}
+
+export interface CandleDto {
+  bucketStart: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: number;
+  tradeCount: number;
+}
+
+export interface CandleQuery {
+  marketId: string;
+  outcome: "YES" | "NO";
+  interval: CandleInterval;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+export function bucketStartOf(at: Date, interval: CandleInterval): Date {
+  const ms = INTERVAL_MS[interval];
+  return new Date(Math.floor(at.getTime() / ms) * ms);
+}
+
+/**
+ * Fold time-ordered samples into candles of `interval`, keyed by bucket
+ * start in milliseconds. Pass `into` to keep folding across batches.
+ */
+export function foldCandles(
+  samples: CandleSample[],
+  interval: CandleInterval,
+  into: Map<number, CandleSample> = new Map()
+): Map<number, CandleSample> {
+  for (const sample of samples) {
+    const bucket = bucketStartOf(sample.at, interval).getTime();
+    const candle = into.get(bucket);
+    if (!candle) {
+      into.set(bucket, { ...sample, at: new Date(bucket) });
+      continue;
+    }
+    if (sample.high.gt(candle.high)) candle.high = sample.high;
+    if (sample.low.lt(candle.low)) candle.low = sample.low;
+    candle.close = sample.close;
+    candle.volume += sample.volume;
+    candle.tradeCount += sample.tradeCount;
+  }
+  return into;
+}
+
+/** Fold the market's trades since `since` into 1m candles. */
+async function foldTrades(
+  client: CandleClient,
+  marketId: string,
+  outcome: string,
+  since: Date
+): Promise<Map<number, CandleSample>> {
+  const candles = new Map<number, CandleSample>();
+  let lastId: string | undefined;
+  for (;;) {
+    const trades = await client.trade.findMany({
+      where: { marketId, outcome, tradedAt: { gte: since } },
+      orderBy: [{ tradedAt: "asc" }, { id: "asc" }],
+      select: { id: true, price: true, quantity: true, tradedAt: true },
+      take: TRADE_BATCH_SIZE,
+      ...(lastId ? { cursor: { id: lastId }, skip: 1 } : {}),
+    });
+    foldCandles(
+      trades.map((trade) => ({
+        at: trade.tradedAt,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        volume: trade.quantity,
+        tradeCount: 1,
+      })),
+      "1m",
+      candles
+    );
+    if (trades.length < TRADE_BATCH_SIZE) return candles;
+    lastId = trades[trades.length - 1].id;
+  }
+}
+
+/**
+ * Bring the stored candles of `interval` up to date. Only buckets from the
+ * latest stored one (or the refresh lag window, if earlier) onwards are
+ * recomputed, after first refreshing the interval they are rolled up from.
+ */
+export async function refreshCandles(
+  client: CandleClient,
+  marketId: string,
+  outcome: string,
+  interval: CandleInterval,
+  now: Date = new Date()
+): Promise<number> {
+  const source = SOURCE_INTERVAL[interval];
+  if (source) {
+    await refreshCandles(client, marketId, outcome, source, now);
+  }
+
+  const latest = await client.marketCandle.findFirst({
+    where: { marketId, outcome, interval },
+    orderBy: { bucketStart: "desc" },
+    select: { bucketStart: true },
+  });
+  const lagged = new Date(now.getTime() - REFRESH_LAG_MS);
+  const since = latest
+    ? bucketStartOf(
+        latest.bucketStart < lagged ? latest.bucketStart : lagged,
+        interval
+      )
+    : new Date(0);
+
+  let candles: Map<number, CandleSample>;
+  if (source) {
+    const rows = await client.marketCandle.findMany({
+      where: {
+        marketId,
+        outcome,
+        interval: source,
+        bucketStart: { gte: since },
+      },
+      orderBy: { bucketStart: "asc" },
+    });
+    candles = foldCandles(
+      rows.map((row) => ({ ...row, at: row.bucketStart })),
+      interval
+    );
+  } else {
+    candles = await foldTrades(client, marketId, outcome, since);
+  }
+
+  for (const candle of candles.values()) {
+    const values = {
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      tradeCount: candle.tradeCount,
+    };
+    await client.marketCandle.upsert({
+      where: {
+        marketId_outcome_interval_bucketStart: {
+          marketId,
+          outcome,
+          interval,
+          bucketStart: candle.at,
+        },
+      },
+      create: {
+        marketId,
+        outcome,
+        interval,
+        bucketStart: candle.at,
+        ...values,
+      },
+      update: values,
+    });
+  }
+  return candles.size;
+}
+
+/**
+ * Refresh the candles of every interval for each market outcome that traded
+ * since `tradedSince`, or for every outcome that ever traded without it.
+ * Trades committed up to the refresh lag after `tradedSince` are included.
+ *
+ * @returns number of market outcomes refreshed
+ */
+export async function refreshTradedCandles(
+  client: CandleClient,
+  tradedSince?: Date,
+  now: Date = new Date()
+): Promise<number> {
+  const traded = await client.trade.groupBy({
+    by: ["marketId", "outcome"],
+    where: tradedSince
+      ? {
+          tradedAt: {
+            gte: new Date(tradedSince.getTime() - REFRESH_LAG_MS),
+          },
+        }
+      : {},
+  });
+
+  for (const { marketId, outcome } of traded) {
+    await refreshCandles(client, marketId, outcome, "1d", now);
+  }
+  return traded.length;
+}
+
+/**
+ * Candles of one outcome of a market, oldest first: the latest `limit` in
+ * the window. Buckets without trades are omitted. Reads the stored candles
+ * only; the candle refresher keeps them up to date.
+ */
+export async function getCandles(query: CandleQuery): Promise<CandleDto[]> {
+  const prisma = getPrismaClient();
+  const { marketId, outcome, interval, from, to, limit } = query;
+
+  const rows = await prisma.marketCandle.findMany({
+    where: {
+      marketId,
+      outcome,
+      interval,
+      ...(from || to
+        ? {
+            bucketStart: {
+              ...(from ? { gte: bucketStartOf(from, interval) } : {}),
+              ...(to ? { lte: to } : {}),
+            },
+          }
+        : {}),
+    },
+    orderBy: { bucketStart: "desc" },
+    take: limit,
+  });
+
+  return rows.reverse().map((row) => ({
+    bucketStart: row.bucketStart.toISOString(),
+    open: row.open.toString(),
+    high: row.high.toString(),
+    low: row.low.toString(),
+    close: row.close.toString(),
+    volume: row.volume,
+    tradeCount: row.tradeCount,
+  }));
+}
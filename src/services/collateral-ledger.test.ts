@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  fromRawAmount,
+  getFillEntries,
+  getReleaseEntry,
+  getTransferEntry,
+  spendCollateral,
+  type CollateralEntry,
+} from "./collateral-ledger.js";
+import type { Trade } from "../matching/engine.js";
+import type { PrismaOrder } from "../types/index.js";
+
+const trade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: "trade-1",
+  marketId: "m1",
+  outcome: "YES",
+  buyerAddress: "GBUYER",
+  sellerAddress: "GSELLER",
+  buyOrderId: "buy-1",
+  sellOrderId: "sell-1",
+  price: 0.55,
+  quantity: 10,
+  timestamp: 1_700_000_000_000,
+  ...overrides,
+});
+
+/** Entries as plain strings so they compare with toEqual. */
+const plain = (entries: CollateralEntry[]) =>
+  entries.map((e) => ({
+    userAddress: e.userAddress,
+    type: e.type,
+    available: e.availableDelta.toString(),
+    reserved: e.reservedDelta.toString(),
+  }));
+
+describe("collateral ledger", () => {
+  it("converts 7-decimal raw amounts", () => {
+    expect(fromRawAmount(250_000_000n).toString()).toBe("25");
+    expect(fromRawAmount("1").toString()).toBe("1e-7");
+  });
+
+  it("debits withdrawals and credits deposits", () => {
+    const transfer = {
+      account: "GWALLET",
+      marketId: "m1",
+      amountRaw: 50_000_000n,
+      idempotencyKey: "key-1",
+    };
+
+    expect(
+      getTransferEntry("DEPOSIT", transfer).availableDelta.toString()
+    ).toBe("5");
+    expect(
+      getTransferEntry("WITHDRAWAL", transfer).availableDelta.toString()
+    ).toBe("-5");
+  });
+
+  describe("getFillEntries", () => {
+    it("charges a taker buyer from available and credits the seller", () => {
+      expect(plain(getFillEntries(trade(), "buy-1"))).toEqual([
+        {
+          userAddress: "GBUYER",
+          type: "TRADE",
+          available: "-5.5",
+          reserved: "0",
+        },
+        {
+          userAddress: "GSELLER",
+          type: "TRADE",
+          available: "5.5",
+          reserved: "0",
+        },
+      ]);
+    });
+
+    it("charges a maker buyer from its reservation", () => {
+      expect(plain(getFillEntries(trade(), "sell-1"))[0]).toEqual({
+        userAddress: "GBUYER",
+        type: "TRADE",
+        available: "0",
+        reserved: "-5.5",
+      });
+    });
+
+    it("only charges the buyer of a MINT trade", () => {
+      const entries = getFillEntries(trade({ matchType: "MINT" }), "buy-1");
+      expect(entries.map((e) => e.userAddress)).toEqual(["GBUYER"]);
+    });
+
+    it("only pays the seller of a MERGE trade", () => {
+      const entries = getFillEntries(trade({ matchType: "MERGE" }), "sell-1");
+      expect(plain(entries)).toEqual([
+        {
+          userAddress: "GSELLER",
+          type: "TRADE",
+          available: "5.5",
+          reserved: "0",
+        },
+      ]);
+    });
+  });
+
+  it("releases the unfilled part of a bid only", () => {
+    const order = {
+      id: "order-1",
+      marketId: "m1",
+      userAddress: "GBUYER",
+      side: "BUY",
+      price: { toString: () => "0.4" },
+      quantity: 20,
+      filledQuantity: 5,
+    } as unknown as PrismaOrder;
+
+    expect(plain([getReleaseEntry(order)!])).toEqual([
+      {
+        userAddress: "GBUYER",
+        type: "RELEASE",
+        available: "6",
+        reserved: "-6",
+      },
+    ]);
+    expect(getReleaseEntry({ ...order, side: "SELL" })).toBeNull();
+  });
+
+  it("does not record a spend the balance cannot cover", async () => {
+    const client = {
+      collateralBalance: {
+        updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      },
+      collateralLedgerEntry: { create: vi.fn() },
+    };
+    const [entry] = getFillEntries(trade(), "buy-1");
+
+    await expect(spendCollateral(client as never, entry)).resolves.toBe(false);
+    expect(client.collateralBalance.updateMany.mock.calls[0][0].where).toEqual(
+      expect.objectContaining({
+        userAddress: "GBUYER",
+        available: { gte: entry.availableDelta.neg() },
+      })
+    );
+    expect(client.collateralLedgerEntry.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,182 @@
+import { Prisma } from "../generated/prisma/client";
+import type { Trade } from "../matching/engine.js";
+import type { CollateralEntryType, PrismaOrder } from "../types/index.js";
+
+/** Decimal places of on-chain collateral amounts (`amountRaw`). */
+export const COLLATERAL_RAW_DECIMALS = 7;
+
+type LedgerClient = Pick<
+  Prisma.TransactionClient,
+  "collateralBalance" | "collateralLedgerEntry"
+>;
+
+/** One change to a wallet's collateral balance in a market. */
+export interface CollateralEntry {
+  userAddress: string;
+  marketId: string;
+  type: CollateralEntryType;
+  /** Change to the spendable balance; negative for debits */
+  availableDelta: Prisma.Decimal;
+  /** Change to the balance held by resting bids */
+  reservedDelta: Prisma.Decimal;
+  /** Deposit/withdrawal idempotency key, order ID or trade ID */
+  reference: string;
+}
+
+const ZERO = new Prisma.Decimal(0);
+
+/** Convert an on-chain i128 amount in base units to collateral units. */
+export function fromRawAmount(amountRaw: string | bigint): Prisma.Decimal {
+  return new Prisma.Decimal(amountRaw.toString()).div(
+    new Prisma.Decimal(10).pow(COLLATERAL_RAW_DECIMALS)
+  );
+}
+
+/** Collateral value of `quantity` shares at `price`. */
+export function collateralCost(price: number, quantity: number) {
+  return new Prisma.Decimal(price).times(quantity);
+}
+
+/**
+ * Entries that settle one fill in collateral. The buyer pays price ×
+ * quantity: a taker from its available balance, a maker from the
+ * reservation its resting bid holds. The seller is credited the same amount.
+ * A MINT trade only charges its buyer and a MERGE trade only pays its
+ * seller; the mirror trade in the other outcome covers the counterparty.
+ */
+export function getFillEntries(
+  trade: Trade,
+  takerOrderId: string
+): CollateralEntry[] {
+  const cost = collateralCost(trade.price, trade.quantity);
+  const entries: CollateralEntry[] = [];
+
+  if (trade.matchType !== "MERGE") {
+    const takerPays = trade.buyOrderId === takerOrderId;
+    entries.push({
+      userAddress: trade.buyerAddress,
+      marketId: trade.marketId,
+      type: "TRADE",
+      availableDelta: takerPays ? cost.neg() : ZERO,
+      reservedDelta: takerPays ? ZERO : cost.neg(),
+      reference: trade.id,
+    });
+  }
+
+  if (trade.matchType !== "MINT") {
+    entries.push({
+      userAddress: trade.sellerAddress,
+      marketId: trade.marketId,
+      type: "TRADE",
+      availableDelta: cost,
+      reservedDelta: ZERO,
+      reference: trade.id,
+    });
+  }
+
+  return entries;
+}
+
+/** An indexed on-chain collateral movement. */
+export interface CollateralTransfer {
+  account: string;
+  marketId: string;
+  amountRaw: string | bigint;
+  idempotencyKey: string;
+}
+
+/** Entry crediting a deposit to, or debiting a withdrawal from, `available`. */
+export function getTransferEntry(
+  type: "DEPOSIT" | "WITHDRAWAL",
+  transfer: CollateralTransfer
+): CollateralEntry {
+  const amount = fromRawAmount(transfer.amountRaw);
+  return {
+    userAddress: transfer.account,
+    marketId: transfer.marketId,
+    type,
+    availableDelta: type === "DEPOSIT" ? amount : amount.neg(),
+    reservedDelta: ZERO,
+    reference: transfer.idempotencyKey,
+  };
+}
+
+/**
+ * Entry that returns the reservation of a bid leaving the book unfilled.
+ * Asks reserve nothing, so they return null.
+ */
+export function getReleaseEntry(order: PrismaOrder): CollateralEntry | null {
+  const remaining = order.quantity - order.filledQuantity;
+  if (order.side !== "BUY" || remaining <= 0) {
+    return null;
+  }
+
+  const amount = new Prisma.Decimal(order.price.toString()).times(remaining);
+  return {
+    userAddress: order.userAddress,
+    marketId: order.marketId,
+    type: "RELEASE",
+    availableDelta: amount,
+    reservedDelta: amount.neg(),
+    reference: order.id,
+  };
+}
+
+/**
+ * Apply an entry unconditionally and append it to the ledger. Used for
+ * changes that already happened elsewhere (on chain or in a committed
+ * fill), so the available balance may go negative.
+ */
+export async function recordCollateralEntry(
+  client: LedgerClient,
+  entry: CollateralEntry
+): Promise<void> {
+  await client.collateralBalance.upsert({
+    where: {
+      userAddress_marketId: {
+        userAddress: entry.userAddress,
+        marketId: entry.marketId,
+      },
+    },
+    create: {
+      userAddress: entry.userAddress,
+      marketId: entry.marketId,
+      available: entry.availableDelta,
+      reserved: entry.reservedDelta,
+    },
+    update: {
+      available: { increment: entry.availableDelta },
+      reserved: { increment: entry.reservedDelta },
+    },
+  });
+  await client.collateralLedgerEntry.create({ data: entry });
+}
+
+/**
+ * Apply an entry that debits the available balance, but only if the balance
+ * covers it. The check and the update are one statement, so concurrent
+ * orders cannot overdraw a wallet. Returns false when nothing was applied.
+ */
+export async function spendCollateral(
+  client: LedgerClient,
+  entry: CollateralEntry
+): Promise<boolean> {
+  const { count } = await client.collateralBalance.updateMany({
+    where: {
+      userAddress: entry.userAddress,
+      marketId: entry.marketId,
+      available: { gte: entry.availableDelta.neg() },
+    },
+    data: {
+      available: { increment: entry.availableDelta },
+      reserved: { increment: entry.reservedDelta },
+    },
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  await client.collateralLedgerEntry.create({ data: entry });
+  return true;
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CompensationRelay } from "./compensation-relay.js";
+
+describe("CompensationRelay", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns the number of compensations enqueued by the source", async () => {
+    const source = { relayPendingCompensations: vi.fn().mockResolvedValue(3) };
+    const relay = new CompensationRelay(source, 1000);
+
+    await expect(relay.run()).resolves.toBe(3);
+  });
+
+  it("logs and swallows source failures", async () => {
+    const source = {
+      relayPendingCompensations: vi
+        .fn()
+        .mockRejectedValue(new Error("db down")),
+    };
+    const relay = new CompensationRelay(source, 1000);
+
+    await expect(relay.run()).resolves.toBe(0);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("db down")
+    );
+  });
+
+  it("skips a run while the previous one is still running", async () => {
+    let release!: (count: number) => void;
+    const source = {
+      relayPendingCompensations: vi.fn().mockImplementation(
+        () =>
+          new Promise<number>((resolve) => {
+            release = resolve;
+          })
+      ),
+    };
+    const relay = new CompensationRelay(source, 1000);
+
+    const first = relay.run();
+    await expect(relay.run()).resolves.toBe(0);
+    release(1);
+    await expect(first).resolves.toBe(1);
+    expect(source.relayPendingCompensations).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,78 @@
+/** The slice of the resolution corrections service the relay depends on. */
+export interface CompensationSource {
+  relayPendingCompensations(): Promise<number>;
+}
+
+/**
+ * Periodically retries payout compensations that did not reach the
+ * compensation queue when their resolution was corrected, so a Redis
+ * outage at correction time only delays them.
+ *
+ * A run that is still in progress when the next tick fires is not
+ * overlapped; the tick is skipped instead.
+ */
+export class CompensationRelay {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunInProgress = false;
+
+  constructor(
+    private readonly source: CompensationSource,
+    private readonly intervalMs: number
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.run(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Relay pending compensations once. Failures are logged, not thrown, so a
+   * transient database error never stops the interval.
+   *
+   * @returns number of compensations enqueued, or 0 if skipped or failed
+   */
+  async run(): Promise<number> {
+    if (this.isRunInProgress) return 0;
+    this.isRunInProgress = true;
+
+    try {
+      const enqueued = await this.source.relayPendingCompensations();
+
+      if (enqueued > 0) {
+        console.info(
+          JSON.stringify({
+            ts: new Date().toISOString(),
+            level: "info",
+            component: "compensation-relay",
+            message: "Pending compensations enqueued",
+            metric: "compensations.relayed",
+            value: enqueued,
+          })
+        );
+      }
+
+      return enqueued;
+    } catch (error) {
+      console.error(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "error",
+          component: "compensation-relay",
+          message: "Compensation relay failed",
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      return 0;
+    } finally {
+      this.isRunInProgress = false;
+    }
+  }
+}
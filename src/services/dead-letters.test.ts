@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import {
+  listDeadLetters,
+  purgeDeadLetters,
+  replayDeadLetters,
+} from "./dead-letters.js";
+import { ValidationError } from "../api/middleware/errors.js";
+
+const mocks = vi.hoisted(() => ({
+  xrange: vi.fn(),
+  xrevrange: vi.fn(),
+  xadd: vi.fn(),
+  xdel: vi.fn(),
+  exists: vi.fn(),
+  set: vi.fn(),
+  auditCreate: vi.fn(),
+  auditCreateMany: vi.fn(),
+}));
+
+vi.mock("./redis.js", () => ({
+  redis: {
+    prefixed: (key: string) => `vatix:${key}`,
+    xrange: mocks.xrange,
+    xrevrange: mocks.xrevrange,
+    xadd: mocks.xadd,
+    xdel: mocks.xdel,
+    exists: mocks.exists,
+    set: mocks.set,
+  },
+}));
+
+vi.mock("./prisma.js", () => ({
+  getPrismaClient: () => ({
+    deadLetterAudit: {
+      create: mocks.auditCreate,
+      createMany: mocks.auditCreateMany,
+    },
+  }),
+}));
+
+function streamEntry(
+  id: string,
+  reason: string,
+  payload: unknown
+): [string, string[]] {
+  return [
+    id,
+    [
+      "messageId",
+      `msg-${id}`,
+      "queue",
+      "settlement",
+      "reason",
+      reason,
+      "payloadType",
+      "object",
+      "payload",
+      JSON.stringify(payload),
+      "timestamp",
+      "2026-07-01T00:00:00.000Z",
+    ],
+  ];
+}
+
+const settlementPayload = {
+  tradeId: "trade-1",
+  marketId: "market-1",
+  price: "0.6",
+  quantity: "10",
+};
+
+describe("dead-letters", () => {
+  beforeAll(() => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("listDeadLetters", () => {
+    it("filters by reason and ends the page when the stream is exhausted", async () => {
+      mocks.xrevrange.mockResolvedValue([
+        streamEntry("1700000000002-0", "RPC timeout", settlementPayload),
+        streamEntry("1700000000001-0", "Invalid signature", settlementPayload),
+      ]);
+
+      const page = await listDeadLetters({
+        queue: "settlement",
+        reason: "timeout",
+        from: new Date(1_700_000_000_000),
+        limit: 10,
+      });
+
+      expect(mocks.xrevrange).toHaveBeenCalledWith(
+        "vatix:dead-letter:settlement",
+        "+",
+        "1700000000000",
+        "COUNT",
+        "100"
+      );
+      expect(page.entries).toEqual([
+        {
+          id: "1700000000002-0",
+          queue: "settlement",
+          messageId: "msg-1700000000002-0",
+          reason: "RPC timeout",
+          payload: settlementPayload,
+          deadLetteredAt: "2026-07-01T00:00:00.000Z",
+        },
+      ]);
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+
+  describe("replayDeadLetters", () => {
+    it("requeues a settlement job, audits it and removes the dead letter", async () => {
+      mocks.xrange.mockResolvedValue([
+        streamEntry("1700000000001-0", "RPC timeout", settlementPayload),
+      ]);
+      mocks.exists.mockResolvedValue(false);
+      mocks.xadd.mockResolvedValue("1700000000500-0");
+
+      const results = await replayDeadLetters({
+        queue: "settlement",
+        ids: ["1700000000001-0"],
+        actor: "ops@vatix",
+      });
+
+      expect(results).toEqual([
+        {
+          id: "1700000000001-0",
+          status: "REPLAYED",
+          replayedEntryId: "1700000000500-0",
+        },
+      ]);
+      expect(mocks.exists).toHaveBeenCalledWith("settlement:processed:trade-1");
+      expect(mocks.xadd).toHaveBeenCalledWith(
+        "vatix:settlement-trades",
+        "*",
+        "tradeId",
+        "trade-1",
+        "marketId",
+        "market-1",
+        "price",
+        "0.6",
+        "quantity",
+        "10"
+      );
+      expect(mocks.auditCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          queue: "settlement",
+          entryId: "1700000000001-0",
+          action: "REPLAY",
+          actor: "ops@vatix",
+          replayedEntryId: "1700000000500-0",
+        }),
+      });
+      expect(mocks.xdel).toHaveBeenCalledWith(
+        "vatix:dead-letter:settlement",
+        "1700000000001-0"
+      );
+    });
+
+    it("skips a trade whose settlement idempotency key is set", async () => {
+      mocks.xrange.mockResolvedValue([
+        streamEntry("1700000000001-0", "RPC timeout", settlementPayload),
+      ]);
+      mocks.exists.mockResolvedValue(true);
+
+      const [result] = await replayDeadLetters({
+        queue: "settlement",
+        ids: ["1700000000001-0"],
+        actor: "ops@vatix",
+      });
+
+      expect(result.status).toBe("ALREADY_PROCESSED");
+      expect(mocks.xadd).not.toHaveBeenCalled();
+      expect(mocks.xdel).not.toHaveBeenCalled();
+      expect(mocks.auditCreate).not.toHaveBeenCalled();
+    });
+
+    it("does not replay an oracle submission while the market has one in flight", async () => {
+      mocks.xrange.mockResolvedValue([
+        streamEntry("1700000000001-0", "Signature verification failed", {
+          marketId: "market-1",
+          submission: {
+            id: "sub-1",
+            request: { marketId: "market-1", oracleAddress: "GORACLE" },
+            result: { outcome: true },
+            attempts: 3,
+          },
+        }),
+      ]);
+      mocks.exists.mockResolvedValue(true);
+
+      const [result] = await replayDeadLetters({
+        queue: "oracle-submission",
+        ids: ["1700000000001-0"],
+        actor: "ops@vatix",
+      });
+
+      expect(result.status).toBe("IN_FLIGHT");
+      expect(mocks.exists).toHaveBeenCalledWith("oracle:inflight:market-1");
+      expect(mocks.xadd).not.toHaveBeenCalled();
+    });
+
+    it("reports ids missing from the stream", async () => {
+      mocks.xrange.mockResolvedValue([]);
+
+      const [result] = await replayDeadLetters({
+        queue: "settlement",
+        ids: ["1700000000009-0"],
+        actor: "ops@vatix",
+      });
+
+      expect(result).toEqual({ id: "1700000000009-0", status: "NOT_FOUND" });
+    });
+  });
+
+  describe("purgeDeadLetters", () => {
+    it("audits every entry older than the cutoff before deleting it", async () => {
+      mocks.xrange.mockResolvedValue([
+        streamEntry("1700000000001-0", "RPC timeout", settlementPayload),
+        streamEntry("1700000000002-0", "RPC timeout", settlementPayload),
+      ]);
+
+      const result = await purgeDeadLetters({
+        queue: "settlement",
+        before: new Date(1_700_000_001_000),
+        actor: "ops@vatix",
+        reason: "Trades settled manually",
+      });
+
+      expect(mocks.xrange).toHaveBeenCalledWith(
+        "vatix:dead-letter:settlement",
+        "-",
+        "(1700000001000",
+        "COUNT",
+        "500"
+      );
+      expect(mocks.auditCreateMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            entryId: "1700000000001-0",
+            action: "PURGE",
+            reason: "Trades settled manually",
+            entry: expect.objectContaining({ payload: settlementPayload }),
+          }),
+          expect.objectContaining({ entryId: "1700000000002-0" }),
+        ],
+      });
+      expect(mocks.xdel).toHaveBeenCalledWith(
+        "vatix:dead-letter:settlement",
+        "1700000000001-0",
+        "1700000000002-0"
+      );
+      expect(result).toEqual({
+        purged: 2,
+        ids: ["1700000000001-0", "1700000000002-0"],
+      });
+    });
+
+    it("requires exactly one of ids and before", async () => {
+      await expect(
+        purgeDeadLetters({
+          queue: "settlement",
+          actor: "ops@vatix",
+          reason: "cleanup",
+        })
+      ).rejects.toBeInstanceOf(ValidationError);
+      expect(mocks.xdel).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,474 @@
+import { createHash } from "crypto";
+import type { Prisma } from "../generated/prisma/client";
+import { NotFoundError, ValidationError } from "../api/middleware/errors.js";
+import { getPrismaClient } from "./prisma.js";
+import { redis } from "./redis.js";
+import type { DeadLetterAudit } from "../types/index.js";
+
+/**
+ * Queues that dead-letter into `<prefix>dead-letter:<queue>` streams, as
+ * named by the workers when they call logDeadLetter.
+ */
+export const DEAD_LETTER_QUEUES = ["settlement", "oracle-submission"] as const;
+export type DeadLetterQueue = (typeof DEAD_LETTER_QUEUES)[number];
+
+/** Most entries a single list request will scan before returning a cursor */
+const MAX_SCANNED_ENTRIES = 1_000;
+const SCAN_BATCH_SIZE = 100;
+/** Most entries a single replay or purge request may touch */
+export const MAX_DEAD_LETTER_BATCH = 500;
+
+/** TTL of the oracle submission dedup and in-flight keys, as in the queue */
+const ORACLE_DEDUP_TTL_SECONDS = 86_400;
+
+/** Stream RedisSubmissionQueue reads oracle submissions from, unprefixed */
+export const ORACLE_SUBMISSION_STREAM = "oracle:submissions";
+
+export interface DeadLetterEntry {
+  /** Stream entry id, `<ms>-<seq>` */
+  id: string;
+  queue: DeadLetterQueue;
+  /** Id of the job that failed */
+  messageId: string;
+  reason: string;
+  payload: unknown;
+  deadLetteredAt: string;
+}
+
+export interface DeadLetterFilter {
+  queue: DeadLetterQueue;
+  /** Case-insensitive substring of the failure reason */
+  reason?: string;
+  from?: Date;
+  to?: Date;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+  limit: number;
+}
+
+export interface DeadLetterPage {
+  entries: DeadLetterEntry[];
+  /** Pass as `cursor` for older entries; null once the stream is exhausted */
+  nextCursor: string | null;
+}
+
+/**
+ * - REPLAYED: written back to the original stream and removed
+ * - ALREADY_PROCESSED: the settlement idempotency key shows the trade
+ *   settled after all; the entry is left for purging
+ * - IN_FLIGHT: the market already has an oracle submission queued
+ * - NOT_FOUND: no such entry on the dead-letter stream
+ * - NOT_REPLAYABLE: the entry does not carry a payload that can be requeued
+ */
+export type ReplayStatus =
+  | "REPLAYED"
+  | "ALREADY_PROCESSED"
+  | "IN_FLIGHT"
+  | "NOT_FOUND"
+  | "NOT_REPLAYABLE";
+
+export interface ReplayResult {
+  id: string;
+  status: ReplayStatus;
+  /** Id of the new entry on the original stream when REPLAYED */
+  replayedEntryId?: string;
+}
+
+export interface ReplayDeadLettersInput {
+  queue: DeadLetterQueue;
+  ids: string[];
+  actor: string;
+  reason?: string;
+}
+
+export interface PurgeDeadLettersInput {
+  queue: DeadLetterQueue;
+  /** Entries to purge; exclusive with `before` */
+  ids?: string[];
+  /** Purge every entry dead-lettered before this time */
+  before?: Date;
+  actor: string;
+  reason: string;
+}
+
+export interface PurgeResult {
+  purged: number;
+  ids: string[];
+}
+
+/**
+ * Oracle-submission dead letters carry the failed queue item under
+ * `submission`; entries written before that was added cannot be replayed.
+ */
+interface OracleDeadLetterPayload {
+  submission?: { request?: { marketId?: unknown }; result?: unknown };
+}
+
+export function deadLetterStreamKey(queue: DeadLetterQueue): string {
+  return redis.prefixed(`dead-letter:${queue}`);
+}
+
+function parseEntry(
+  queue: DeadLetterQueue,
+  [id, fields]: [string, string[]]
+): DeadLetterEntry {
+  const values: Record<string, string> = {};
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    values[fields[i]] = fields[i + 1];
+  }
+
+  let payload: unknown = values.payload;
+  try {
+    payload = JSON.parse(values.payload);
+  } catch {
+    // Keep the raw string; logDeadLetter always writes JSON, but a
+    // hand-written entry might not.
+  }
+
+  return {
+    id,
+    queue,
+    messageId: values.messageId ?? "",
+    reason: values.reason ?? "",
+    payload,
+    deadLetteredAt: values.timestamp ?? "",
+  };
+}
+
+async function readEntry(
+  queue: DeadLetterQueue,
+  id: string
+): Promise<DeadLetterEntry | null> {
+  const [raw] = await redis.xrange(deadLetterStreamKey(queue), id, id);
+  return raw ? parseEntry(queue, raw) : null;
+}
+
+/**
+ * List dead letters newest first. The reason filter is applied after
+ * reading, so a page may be short while `nextCursor` is still set.
+ */
+export async function listDeadLetters(
+  filter: DeadLetterFilter
+): Promise<DeadLetterPage> {
+  const { queue, reason, from, to, cursor, limit } = filter;
+  const key = deadLetterStreamKey(queue);
+  const needle = reason?.toLowerCase();
+
+  const start = from ? String(from.getTime()) : "-";
+  let end = cursor ? `(${cursor}` : to ? String(to.getTime()) : "+";
+
+  const entries: DeadLetterEntry[] = [];
+  let scanned = 0;
+  let lastScannedId: string | null = null;
+  let exhausted = false;
+
+  while (entries.length < limit && scanned < MAX_SCANNED_ENTRIES) {
+    const batch = await redis.xrevrange(
+      key,
+      end,
+      start,
+      "COUNT",
+      String(SCAN_BATCH_SIZE)
+    );
+
+    let consumed = 0;
+    for (const raw of batch) {
+      consumed++;
+      scanned++;
+      lastScannedId = raw[0];
+      const entry = parseEntry(queue, raw);
+      if (!needle || entry.reason.toLowerCase().includes(needle)) {
+        entries.push(entry);
+        if (entries.length === limit) break;
+      }
+    }
+
+    if (batch.length < SCAN_BATCH_SIZE && consumed === batch.length) {
+      exhausted = true;
+      break;
+    }
+    end = `(${lastScannedId}`;
+  }
+
+  return { entries, nextCursor: exhausted ? null : lastScannedId };
+}
+
+/** @throws NotFoundError if the entry is not on the queue's stream */
+export async function getDeadLetter(
+  queue: DeadLetterQueue,
+  id: string
+): Promise<DeadLetterEntry> {
+  const entry = await readEntry(queue, id);
+  if (!entry) {
+    throw new NotFoundError(`Dead letter ${id} not found on ${queue}`);
+  }
+  return entry;
+}
+
+function toStreamFields(payload: Record<string, unknown>): string[] {
+  return Object.entries(payload).flatMap(([field, value]) => [
+    field,
+    typeof value === "string" ? value : JSON.stringify(value),
+  ]);
+}
+
+/**
+ * Requeue a dead-lettered settlement job on the settlement stream, unless
+ * SettlementWorker already recorded the trade as processed.
+ */
+async function replaySettlement(
+  entry: DeadLetterEntry
+): Promise<Omit<ReplayResult, "id">> {
+  const payload = entry.payload as Record<string, unknown> | null;
+  if (
+    typeof payload !== "object" ||
+    payload === null ||
+    typeof payload.tradeId !== "string"
+  ) {
+    return { status: "NOT_REPLAYABLE" };
+  }
+
+  if (await redis.exists(`settlement:processed:${payload.tradeId}`)) {
+    return { status: "ALREADY_PROCESSED" };
+  }
+
+  const streamKey = redis.prefixed(
+    process.env.SETTLEMENT_QUEUE_NAME ?? "settlement-trades"
+  );
+  const replayedEntryId = await redis.xadd(
+    streamKey,
+    "*",
+    ...toStreamFields(payload)
+  );
+  return { status: "REPLAYED", replayedEntryId: replayedEntryId ?? undefined };
+}
+
+/**
+ * Requeue a dead-lettered oracle submission on the submission stream,
+ * unless the market already has another submission in flight.
+ */
+async function replayOracleSubmission(
+  entry: DeadLetterEntry
+): Promise<Omit<ReplayResult, "id">> {
+  const submission = (entry.payload as OracleDeadLetterPayload | null)
+    ?.submission;
+  const marketId = submission?.request?.marketId;
+  if (!submission || typeof marketId !== "string") {
+    return { status: "NOT_REPLAYABLE" };
+  }
+
+  if (await redis.exists(oracleInFlightKey(marketId))) {
+    return { status: "IN_FLIGHT" };
+  }
+
+  const replayedEntryId = await requeueOracleSubmission(submission, marketId);
+  return { status: "REPLAYED", replayedEntryId: replayedEntryId ?? undefined };
+}
+
+/** Key holding the stream id of a market's queued oracle submission */
+export function oracleInFlightKey(marketId: string): string {
+  return `oracle:inflight:${marketId}`;
+}
+
+/**
+ * Add an oracle submission to the end of the submission stream with its
+ * attempts reset, and point the market's dedup and in-flight keys at the
+ * new entry as RedisSubmissionQueue.enqueue does. The payload-hash dedup
+ * is bypassed on purpose: the same result already went through the queue.
+ *
+ * @returns the new entry's id
+ */
+export async function requeueOracleSubmission(
+  submission: { result?: unknown },
+  marketId: string
+): Promise<string | null> {
+  const item = {
+    ...submission,
+    status: "pending",
+    attempts: 0,
+    enqueuedAt: new Date().toISOString(),
+  };
+  const payloadHash = createHash("sha256")
+    .update(JSON.stringify(submission.result))
+    .digest("hex");
+
+  const entryId = await redis.xadd(
+    redis.prefixed(ORACLE_SUBMISSION_STREAM),
+    "*",
+    "payload",
+    JSON.stringify(item),
+    "marketId",
+    marketId,
+    "payloadHash",
+    payloadHash
+  );
+  if (entryId) {
+    await redis.set(
+      `oracle:dedup:${marketId}:${payloadHash}`,
+      entryId,
+      ORACLE_DEDUP_TTL_SECONDS
+    );
+    await redis.set(
+      oracleInFlightKey(marketId),
+      entryId,
+      ORACLE_DEDUP_TTL_SECONDS
+    );
+  }
+  return entryId;
+}
+
+/**
+ * Write dead letters back to the stream their queue consumes. Each
+ * replayed entry is audited and then removed from the dead-letter stream;
+ * entries that are skipped stay where they are.
+ *
+ * @throws ValidationError if more than MAX_DEAD_LETTER_BATCH ids are given
+ */
+export async function replayDeadLetters(
+  input: ReplayDeadLettersInput
+): Promise<ReplayResult[]> {
+  const { queue, ids, actor, reason } = input;
+  if (ids.length > MAX_DEAD_LETTER_BATCH) {
+    throw new ValidationError(
+      `At most ${MAX_DEAD_LETTER_BATCH} dead letters can be replayed at once`,
+      { ids: `Must contain at most ${MAX_DEAD_LETTER_BATCH} entries` }
+    );
+  }
+
+  const prisma = getPrismaClient();
+  const results: ReplayResult[] = [];
+
+  for (const id of new Set(ids)) {
+    const entry = await readEntry(queue, id);
+    if (!entry) {
+      results.push({ id, status: "NOT_FOUND" });
+      continue;
+    }
+
+    const result =
+      queue === "settlement"
+        ? await replaySettlement(entry)
+        : await replayOracleSubmission(entry);
+
+    if (result.status === "REPLAYED") {
+      await prisma.deadLetterAudit.create({
+        data: {
+          queue,
+          entryId: id,
+          action: "REPLAY",
+          actor,
+          reason,
+          entry: entry as unknown as Prisma.InputJsonObject,
+          replayedEntryId: result.replayedEntryId,
+        },
+      });
+      await redis.xdel(deadLetterStreamKey(queue), id);
+    }
+
+    results.push({ id, ...result });
+  }
+
+  console.info(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "info",
+      component: "dead-letters",
+      message: "Dead letters replayed",
+      queue,
+      actor,
+      requested: results.length,
+      replayed: results.filter((r) => r.status === "REPLAYED").length,
+    })
+  );
+
+  return results;
+}
+
+/**
+ * Delete dead letters after recording each one, payload included, in the
+ * audit trail. Unknown ids are ignored.
+ *
+ * @throws ValidationError unless exactly one of ids and before is given, or
+ * if more than MAX_DEAD_LETTER_BATCH ids are given
+ */
+export async function purgeDeadLetters(
+  input: PurgeDeadLettersInput
+): Promise<PurgeResult> {
+  const { queue, ids, before, actor, reason } = input;
+  if ((ids === undefined) === (before === undefined)) {
+    throw new ValidationError("Provide exactly one of ids and before", {
+      purge: "Must contain either ids or before",
+    });
+  }
+  if (ids && ids.length > MAX_DEAD_LETTER_BATCH) {
+    throw new ValidationError(
+      `At most ${MAX_DEAD_LETTER_BATCH} dead letters can be purged at once`,
+      { ids: `Must contain at most ${MAX_DEAD_LETTER_BATCH} entries` }
+    );
+  }
+
+  let entries: DeadLetterEntry[];
+  if (ids) {
+    const found = await Promise.all(
+      [...new Set(ids)].map((id) => readEntry(queue, id))
+    );
+    entries = found.filter((e): e is DeadLetterEntry => e !== null);
+  } else {
+    // Stream ids start with their write time in ms; "(" makes it exclusive
+    const raw = await redis.xrange(
+      deadLetterStreamKey(queue),
+      "-",
+      `(${(before as Date).getTime()}`,
+      "COUNT",
+      String(MAX_DEAD_LETTER_BATCH)
+    );
+    entries = raw.map((r) => parseEntry(queue, r));
+  }
+
+  if (entries.length === 0) {
+    return { purged: 0, ids: [] };
+  }
+
+  const prisma = getPrismaClient();
+  await prisma.deadLetterAudit.createMany({
+    data: entries.map((entry) => ({
+      queue,
+      entryId: entry.id,
+      action: "PURGE" as const,
+      actor,
+      reason,
+      entry: entry as unknown as Prisma.InputJsonObject,
+    })),
+  });
+
+  const purgedIds = entries.map((e) => e.id);
+  await redis.xdel(deadLetterStreamKey(queue), ...purgedIds);
+
+  console.info(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "info",
+      component: "dead-letters",
+      message: "Dead letters purged",
+      queue,
+      actor,
+      reason,
+      purged: purgedIds.length,
+    })
+  );
+
+  return { purged: purgedIds.length, ids: purgedIds };
+}
+
+/** Replay and purge history, newest first. */
+export async function getDeadLetterAudits(filter: {
+  queue?: DeadLetterQueue;
+  limit: number;
+}): Promise<DeadLetterAudit[]> {
+  const prisma = getPrismaClient();
+  return prisma.deadLetterAudit.findMany({
+    where: filter.queue ? { queue: filter.queue } : {},
+    orderBy: { createdAt: "desc" },
+    take: filter.limit,
+  });
+}
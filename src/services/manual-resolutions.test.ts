@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Keypair } from "@stellar/stellar-sdk";
+import {
+  MANUAL_RESOLUTION_SOURCE,
+  manualResolutionKey,
+  submitManualResolution,
+} from "./manual-resolutions.js";
+import {
+  MarketNotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from "../api/middleware/errors.js";
+import { verifyResolutionReport } from "../../apps/oracle/signature-helper.js";
+
+const mocks = vi.hoisted(() => {
+  const tx = {
+    market: { updateMany: vi.fn() },
+    oracleReport: { create: vi.fn() },
+    resolutionCandidate: { create: vi.fn(), findFirst: vi.fn() },
+  };
+  return {
+    tx,
+    marketFindUnique: vi.fn(),
+    candidateFindUnique: vi.fn(),
+    canonicalize: vi.fn(),
+    secretKey: undefined as string | undefined,
+  };
+});
+
+vi.mock("./prisma.js", () => ({
+  getPrismaClient: () => ({
+    market: { findUnique: mocks.marketFindUnique },
+    resolutionCandidate: { findUnique: mocks.candidateFindUnique },
+    $transaction: (fn: (tx: typeof mocks.tx) => Promise<unknown>) =>
+      fn(mocks.tx),
+  }),
+}));
+
+vi.mock("./oracle-sources.js", () => ({
+  getOracleSourceResolver: () => ({ canonicalize: mocks.canonicalize }),
+}));
+
+vi.mock("../config.js", () => ({
+  config: {
+    oracle: {
+      challengeWindowSeconds: 3600,
+      get secretKey() {
+        return mocks.secretKey;
+      },
+    },
+  },
+}));
+
+const NOW = new Date("2026-07-25T12:00:00.000Z");
+const OPERATOR = Keypair.random().publicKey();
+
+const market = {
+  id: "market-1",
+  oracleAddress: "GMANUALORACLE",
+  status: "CLOSED",
+  endTime: new Date("2026-07-25T00:00:00.000Z"),
+};
+
+const input = {
+  marketId: "market-1",
+  outcome: true,
+  operatorAddress: OPERATOR,
+  evidence: " https://example.com/official-result ",
+};
+
+describe("manual resolutions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    mocks.secretKey = Keypair.random().secret();
+    mocks.marketFindUnique.mockResolvedValue(market);
+    mocks.canonicalize.mockResolvedValue("MANUAL");
+    mocks.candidateFindUnique.mockResolvedValue(null);
+    mocks.tx.market.updateMany.mockResolvedValue({ count: 1 });
+    mocks.tx.resolutionCandidate.findFirst.mockResolvedValue(null);
+    mocks.tx.oracleReport.create.mockImplementation(async ({ data }) => ({
+      id: "report-1",
+      ...data,
+    }));
+    mocks.tx.resolutionCandidate.create.mockImplementation(
+      async ({ data }) => ({ id: "candidate-1", status: "PROPOSED", ...data })
+    );
+  });
+
+  it("signs the outcome and proposes a MANUAL candidate with its evidence", async () => {
+    const result = await submitManualResolution(input, NOW);
+
+    expect(result.created).toBe(true);
+    expect(result.signedReport?.payload).toEqual({
+      marketId: "market-1",
+      outcome: true,
+      timestamp: NOW.toISOString(),
+    });
+    expect(verifyResolutionReport(result.signedReport!)).toBe(true);
+
+    expect(mocks.tx.oracleReport.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        source: MANUAL_RESOLUTION_SOURCE,
+        canonicalSource: "MANUAL",
+        marketId: "market-1",
+        candidateResolution: true,
+        payloadHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+      }),
+    });
+    expect(mocks.tx.resolutionCandidate.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        marketId: "market-1",
+        proposedOutcome: true,
+        source: MANUAL_RESOLUTION_SOURCE,
+        canonicalSource: "MANUAL",
+        operatorAddress: OPERATOR,
+        idempotencyKey: manualResolutionKey("market-1", OPERATOR, true),
+        evidence: "https://example.com/official-result",
+        createdAt: NOW,
+      }),
+    });
+    expect(result.challengeWindow).toEqual({
+      opensAt: NOW,
+      closesAt: new Date("2026-07-25T13:00:00.000Z"),
+    });
+  });
+
+  it("returns the existing candidate when the submission is repeated", async () => {
+    const existing = {
+      id: "candidate-1",
+      status: "PROPOSED",
+      createdAt: new Date("2026-07-25T11:00:00.000Z"),
+    };
+    mocks.candidateFindUnique.mockResolvedValue(existing);
+
+    const result = await submitManualResolution(input, NOW);
+
+    expect(result).toMatchObject({
+      candidate: existing,
+      report: null,
+      created: false,
+    });
+    expect(mocks.tx.resolutionCandidate.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects a repeat of a submission that was rejected", async () => {
+    mocks.candidateFindUnique.mockResolvedValue({
+      id: "candidate-1",
+      status: "REJECTED",
+    });
+
+    await expect(submitManualResolution(input, NOW)).rejects.toThrow(
+      "already submitted and rejected"
+    );
+  });
+
+  it("throws MarketNotFoundError for an unknown market", async () => {
+    mocks.marketFindUnique.mockResolvedValue(null);
+
+    await expect(submitManualResolution(input, NOW)).rejects.toBeInstanceOf(
+      MarketNotFoundError
+    );
+  });
+
+  it("only accepts markets whose oracle maps to MANUAL", async () => {
+    mocks.canonicalize.mockResolvedValue("CHAINLINK");
+
+    await expect(submitManualResolution(input, NOW)).rejects.toThrow(
+      "Market market-1 is resolved by CHAINLINK"
+    );
+    expect(mocks.canonicalize).toHaveBeenCalledWith("GMANUALORACLE");
+  });
+
+  it("rejects a market that has not ended", async () => {
+    mocks.marketFindUnique.mockResolvedValue({
+      ...market,
+      endTime: new Date("2026-07-26T00:00:00.000Z"),
+    });
+
+    await expect(submitManualResolution(input, NOW)).rejects.toThrow(
+      "cannot be resolved before then"
+    );
+  });
+
+  it("rejects a market that is already resolved", async () => {
+    mocks.marketFindUnique.mockResolvedValue({ ...market, status: "RESOLVED" });
+
+    await expect(submitManualResolution(input, NOW)).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+
+  it("rejects a market with a pending candidate", async () => {
+    mocks.tx.resolutionCandidate.findFirst.mockResolvedValue({
+      id: "candidate-0",
+      status: "CHALLENGED",
+    });
+
+    await expect(submitManualResolution(input, NOW)).rejects.toThrow(
+      "already has a CHALLENGED resolution candidate (candidate-0)"
+    );
+    expect(mocks.tx.market.updateMany).toHaveBeenCalledWith({
+      where: { id: "market-1", status: { in: ["ACTIVE", "CLOSED"] } },
+      data: { updatedAt: NOW },
+    });
+    expect(mocks.tx.oracleReport.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects a market whose status changed before the lock", async () => {
+    mocks.tx.market.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(submitManualResolution(input, NOW)).rejects.toThrow(
+      "changed status concurrently"
+    );
+    expect(mocks.tx.resolutionCandidate.findFirst).not.toHaveBeenCalled();
+  });
+
+  it("returns the winning candidate when an identical submission commits first", async () => {
+    const winner = {
+      id: "candidate-2",
+      status: "PROPOSED",
+      createdAt: NOW,
+    };
+    mocks.candidateFindUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(winner);
+    mocks.tx.resolutionCandidate.create.mockRejectedValue(
+      Object.assign(new Error("Unique constraint failed"), { code: "P2002" })
+    );
+
+    const result = await submitManualResolution(input, NOW);
+
+    expect(result).toMatchObject({ candidate: winner, created: false });
+    expect(mocks.candidateFindUnique).toHaveBeenLastCalledWith({
+      where: {
+        idempotencyKey: manualResolutionKey("market-1", OPERATOR, true),
+      },
+    });
+  });
+
+  it("rejects blank evidence", async () => {
+    await expect(
+      submitManualResolution({ ...input, evidence: "   " }, NOW)
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(mocks.marketFindUnique).not.toHaveBeenCalled();
+  });
+
+  it("fails without a signing key", async () => {
+    mocks.secretKey = undefined;
+
+    await expect(submitManualResolution(input, NOW)).rejects.toBeInstanceOf(
+      ServiceUnavailableError
+    );
+    expect(mocks.tx.resolutionCandidate.create).not.toHaveBeenCalled();
+  });
+});
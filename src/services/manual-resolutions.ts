@@ -0,0 +1,268 @@
+import { createHash } from "crypto";
+import {
+  MarketNotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from "../api/middleware/errors.js";
+import { config } from "../config.js";
+import {
+  getChallengeWindow,
+  type ChallengeWindow,
+} from "../oracle/challengeWindow.js";
+import {
+  signResolutionReport,
+  type SignedResolutionReport,
+} from "../../apps/oracle/signature-helper.js";
+import { getOracleSourceResolver } from "./oracle-sources.js";
+import { getPrismaClient } from "./prisma.js";
+import type { OracleReport, ResolutionCandidate } from "../types/index.js";
+
+/** `source` of reports and candidates submitted through the admin API */
+export const MANUAL_RESOLUTION_SOURCE = "manual";
+
+export interface ManualResolutionInput {
+  marketId: string;
+  outcome: boolean;
+  /** Stellar address of the operator vouching for the outcome */
+  operatorAddress: string;
+  /** URL or text supporting the outcome, stored with the candidate */
+  evidence: string;
+}
+
+export interface ManualResolutionResult {
+  candidate: ResolutionCandidate;
+  /** Null when an earlier identical submission is returned */
+  report: OracleReport | null;
+  /** Null when an earlier identical submission is returned */
+  signedReport: SignedResolutionReport | null;
+  challengeWindow: ChallengeWindow;
+  /** False when the submission was a replay of an existing candidate */
+  created: boolean;
+}
+
+/**
+ * The candidate idempotency key of an operator's manual resolution. Retrying
+ * the same submission finds the candidate it created instead of adding one.
+ */
+export function manualResolutionKey(
+  marketId: string,
+  operatorAddress: string,
+  outcome: boolean
+): string {
+  return createHash("sha256")
+    .update(
+      `${MANUAL_RESOLUTION_SOURCE}:${marketId}:${operatorAddress}:${outcome}`
+    )
+    .digest("hex");
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: unknown }).code === "P2002"
+  );
+}
+
+/** The result returned when a submission repeats an existing candidate */
+function replayOf(
+  previous: ResolutionCandidate,
+  challengeWindowSeconds: number
+): ManualResolutionResult {
+  if (previous.status === "REJECTED") {
+    throw new ValidationError(
+      `This resolution was already submitted and rejected (candidate ${previous.id})`
+    );
+  }
+  return {
+    candidate: previous,
+    report: null,
+    signedReport: null,
+    challengeWindow: getChallengeWindow(
+      previous.createdAt,
+      challengeWindowSeconds
+    ),
+    created: false,
+  };
+}
+
+/**
+ * Propose the outcome of a market whose oracle address maps to the MANUAL
+ * source. The outcome is signed like an oracle report and stored as an
+ * OracleReport and a PROPOSED ResolutionCandidate, so it goes through the
+ * same challenge window and FinalizationJob as an oracle resolution.
+ *
+ * The market row is locked while the pending-candidate check and the
+ * inserts run, so two concurrent submissions cannot both propose; a
+ * concurrent identical submission loses on the idempotency key and gets
+ * the winner's candidate back.
+ *
+ * @throws MarketNotFoundError if the market does not exist
+ * @throws ValidationError if the market is not MANUAL-source, has not
+ * ended, is already resolved or cancelled, already has a pending candidate,
+ * or the same submission was rejected before
+ * @throws ServiceUnavailableError if ORACLE_SECRET_KEY is not configured
+ */
+export async function submitManualResolution(
+  input: ManualResolutionInput,
+  now: Date = new Date()
+): Promise<ManualResolutionResult> {
+  const { marketId, outcome, operatorAddress } = input;
+  const evidence = input.evidence.trim();
+  if (evidence === "") {
+    throw new ValidationError("evidence must not be blank");
+  }
+
+  const prisma = getPrismaClient();
+  const { challengeWindowSeconds } = config.oracle;
+
+  const market = await prisma.market.findUnique({ where: { id: marketId } });
+  if (!market) {
+    throw new MarketNotFoundError(marketId);
+  }
+
+  const canonicalSource = await getOracleSourceResolver().canonicalize(
+    market.oracleAddress
+  );
+  if (canonicalSource !== "MANUAL") {
+    throw new ValidationError(
+      `Market ${marketId} is resolved by ${canonicalSource ?? "an unmapped oracle source"}; only MANUAL-source markets accept manual resolutions`
+    );
+  }
+
+  const idempotencyKey = manualResolutionKey(
+    marketId,
+    operatorAddress,
+    outcome
+  );
+  const previous = await prisma.resolutionCandidate.findUnique({
+    where: { idempotencyKey },
+  });
+  if (previous) {
+    return replayOf(previous, challengeWindowSeconds);
+  }
+
+  if (market.status !== "ACTIVE" && market.status !== "CLOSED") {
+    throw new ValidationError(
+      `Market ${marketId} is ${market.status}; only an ACTIVE or CLOSED market can be resolved`
+    );
+  }
+  if (market.endTime > now) {
+    throw new ValidationError(
+      `Market ${marketId} ends at ${market.endTime.toISOString()}; it cannot be resolved before then`
+    );
+  }
+
+  const secretKey = config.oracle.secretKey;
+  if (!secretKey) {
+    throw new ServiceUnavailableError(
+      "ORACLE_SECRET_KEY is not configured; manual resolutions cannot be signed"
+    );
+  }
+  const signedReport = signResolutionReport(
+    { marketId, outcome, timestamp: now.toISOString() },
+    secretKey
+  );
+
+  let inserted: { report: OracleReport; candidate: ResolutionCandidate };
+  try {
+    inserted = await prisma.$transaction(async (tx) => {
+      // Touching the market locks its row until commit, serialising
+      // submissions for the same market through the check below
+      const locked = await tx.market.updateMany({
+        where: { id: marketId, status: { in: ["ACTIVE", "CLOSED"] } },
+        data: { updatedAt: now },
+      });
+      if (locked.count === 0) {
+        throw new ValidationError(
+          `Market ${marketId} changed status concurrently; retry the request`
+        );
+      }
+
+      const pending = await tx.resolutionCandidate.findFirst({
+        where: { marketId, status: { in: ["PROPOSED", "CHALLENGED"] } },
+      });
+      if (pending) {
+        throw new ValidationError(
+          `Market ${marketId} already has a ${pending.status} resolution candidate (${pending.id})`
+        );
+      }
+
+      const report = await tx.oracleReport.create({
+        data: {
+          payloadHash: createHash("sha256")
+            .update(JSON.stringify(signedReport.payload))
+            .digest("hex"),
+          source: MANUAL_RESOLUTION_SOURCE,
+          canonicalSource: "MANUAL",
+          confidence: 1,
+          marketId,
+          candidateResolution: outcome,
+          createdAt: now,
+        },
+      });
+
+      const candidate = await tx.resolutionCandidate.create({
+        data: {
+          marketId,
+          proposedOutcome: outcome,
+          source: MANUAL_RESOLUTION_SOURCE,
+          canonicalSource: "MANUAL",
+          confidenceScore: 1,
+          operatorAddress,
+          idempotencyKey,
+          evidence,
+          provenance: {
+            confidence: { score: 1, method: "manual", explanation: evidence },
+            contributions: [
+              {
+                outcome,
+                confidenceMetadata: { score: 1, method: "manual" },
+                sourceMetadata: {
+                  provider: MANUAL_RESOLUTION_SOURCE,
+                  observedAt: signedReport.payload.timestamp,
+                },
+              },
+            ],
+          },
+          createdAt: now,
+        },
+      });
+
+      return { report, candidate };
+    });
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+    // An identical submission committed first
+    const winner = await prisma.resolutionCandidate.findUnique({
+      where: { idempotencyKey },
+    });
+    if (!winner) throw error;
+    return replayOf(winner, challengeWindowSeconds);
+  }
+  const { report, candidate } = inserted;
+
+  console.info(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "info",
+      component: "manual-resolutions",
+      message: "Manual resolution proposed",
+      candidateId: candidate.id,
+      marketId,
+      outcome,
+      operatorAddress,
+    })
+  );
+
+  return {
+    candidate,
+    report,
+    signedReport,
+    challengeWindow: getChallengeWindow(
+      candidate.createdAt,
+      challengeWindowSeconds
+    ),
+    created: true,
+  };
+}
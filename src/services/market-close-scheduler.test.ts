@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { MarketCloseScheduler } from "./market-close-scheduler.js";
+import type { Market } from "../types/index.js";
+
+const closedMarket = { id: "market-1" } as Market;
+
+describe("MarketCloseScheduler", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("returns the number of markets closed by the source", async () => {
+    const source = {
+      closeEndedMarkets: vi.fn().mockResolvedValue([closedMarket]),
+    };
+    const scheduler = new MarketCloseScheduler(source, 1000);
+    const now = new Date("2026-07-01T00:00:00.000Z");
+
+    await expect(scheduler.run(now)).resolves.toBe(1);
+    expect(source.closeEndedMarkets).toHaveBeenCalledWith(now);
+    expect(console.info).toHaveBeenCalledWith(
+      expect.stringContaining("market-1")
+    );
+  });
+
+  it("logs and swallows source failures", async () => {
+    const source = {
+      closeEndedMarkets: vi.fn().mockRejectedValue(new Error("db down")),
+    };
+    const scheduler = new MarketCloseScheduler(source, 1000);
+
+    await expect(scheduler.run()).resolves.toBe(0);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("db down")
+    );
+  });
+
+  it("skips a run while the previous one is still running", async () => {
+    let release!: (markets: Market[]) => void;
+    const source = {
+      closeEndedMarkets: vi.fn().mockImplementation(
+        () =>
+          new Promise<Market[]>((resolve) => {
+            release = resolve;
+          })
+      ),
+    };
+    const scheduler = new MarketCloseScheduler(source, 1000);
+
+    const first = scheduler.run();
+    await expect(scheduler.run()).resolves.toBe(0);
+    release([closedMarket]);
+
+    await expect(first).resolves.toBe(1);
+    expect(source.closeEndedMarkets).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs on every interval until stopped", async () => {
+    vi.useFakeTimers();
+    const source = { closeEndedMarkets: vi.fn().mockResolvedValue([]) };
+    const scheduler = new MarketCloseScheduler(source, 1000);
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(3000);
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(source.closeEndedMarkets).toHaveBeenCalledTimes(3);
+  });
+});
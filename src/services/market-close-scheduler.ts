@@ -0,0 +1,81 @@
+import type { Market } from "../types/index.js";
+
+/** The slice of the market lifecycle the scheduler depends on. */
+export interface EndedMarketSource {
+  closeEndedMarkets(now?: Date): Promise<Market[]>;
+}
+
+/**
+ * Periodically closes markets whose endTime has passed, halting their
+ * trading.
+ *
+ * Runs inside the API process because halting empties the in-memory order
+ * books that live there. A run that is still in progress when the next
+ * tick fires is not overlapped; the tick is skipped instead.
+ */
+export class MarketCloseScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunInProgress = false;
+
+  constructor(
+    private readonly source: EndedMarketSource,
+    private readonly intervalMs: number
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.run(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Close ended markets once. Failures are logged, not thrown, so a
+   * transient database error never stops the interval.
+   *
+   * @returns number of markets closed, or 0 if skipped or failed
+   */
+  async run(now: Date = new Date()): Promise<number> {
+    if (this.isRunInProgress) return 0;
+    this.isRunInProgress = true;
+
+    try {
+      const closed = await this.source.closeEndedMarkets(now);
+
+      if (closed.length > 0) {
+        console.info(
+          JSON.stringify({
+            ts: new Date().toISOString(),
+            level: "info",
+            component: "market-close-scheduler",
+            message: "Ended markets closed",
+            metric: "markets.closed",
+            value: closed.length,
+            marketIds: closed.map((m) => m.id),
+          })
+        );
+      }
+
+      return closed.length;
+    } catch (error) {
+      console.error(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "error",
+          component: "market-close-scheduler",
+          message: "Market close run failed",
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      return 0;
+    } finally {
+      this.isRunInProgress = false;
+    }
+  }
+}
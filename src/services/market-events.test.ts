@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { publishMarketClosed } from "./market-events.js";
+
+const mockRedis = vi.hoisted(() => ({
+  xadd: vi.fn(),
+}));
+
+vi.mock("./redis.js", () => ({ redis: mockRedis }));
+
+const event = {
+  marketId: "market-1",
+  oracleAddress: "GORACLE",
+  endTime: "2026-07-01T00:00:00.000Z",
+  closedAt: "2026-07-01T00:00:02.000Z",
+};
+
+describe("market events", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("appends market-closed events to a capped stream", async () => {
+    mockRedis.xadd.mockResolvedValue("1-0");
+
+    await expect(publishMarketClosed(event)).resolves.toBe("1-0");
+    expect(mockRedis.xadd).toHaveBeenCalledWith(
+      "vatix:events:market-closed",
+      "MAXLEN",
+      "~",
+      100000,
+      "*",
+      "marketId",
+      "market-1",
+      "oracleAddress",
+      "GORACLE",
+      "endTime",
+      event.endTime,
+      "closedAt",
+      event.closedAt
+    );
+  });
+});
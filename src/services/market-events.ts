@@ -0,0 +1,47 @@
+import { redis } from "./redis.js";
+
+/**
+ * Published when a market stops trading at its endTime, for consumers that
+ * want to react to a close without polling. The oracle's resolution
+ * scheduler finds ended markets in Postgres and does not depend on it.
+ */
+export interface MarketClosedEvent {
+  marketId: string;
+  oracleAddress: string;
+  /** ISO timestamp of the market's endTime */
+  endTime: string;
+  /** ISO timestamp when trading was halted */
+  closedAt: string;
+}
+
+const MAX_STREAM_ENTRIES = 100000;
+
+function getStreamKey(): string {
+  const keyPrefix = process.env.REDIS_KEY_PREFIX ?? "vatix:";
+  return `${keyPrefix}events:market-closed`;
+}
+
+/**
+ * Append a market-closed event to its Redis Stream.
+ *
+ * @returns Stream entry ID
+ */
+export async function publishMarketClosed(
+  event: MarketClosedEvent
+): Promise<string | null> {
+  return redis.xadd(
+    getStreamKey(),
+    "MAXLEN",
+    "~",
+    MAX_STREAM_ENTRIES,
+    "*",
+    "marketId",
+    event.marketId,
+    "oracleAddress",
+    event.oracleAddress,
+    "endTime",
+    event.endTime,
+    "closedAt",
+    event.closedAt
+  );
+}
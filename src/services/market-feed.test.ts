@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { MarketFeed, type FeedMessage } from "./market-feed.js";
+import type { Trade } from "../matching/engine.js";
+import type { PrismaOrder } from "../types/index.js";
+
+const level = (price: number, quantity: number, orderCount = 1) => ({
+  price,
+  quantity,
+  orderCount,
+});
+
+describe("MarketFeed", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("numbers messages per channel starting at 1", () => {
+    const feed = new MarketFeed();
+
+    expect(feed.publish("trades:m1", "trade", {}).seq).toBe(1);
+    expect(feed.publish("trades:m1", "trade", {}).seq).toBe(2);
+    expect(feed.publish("trades:m2", "trade", {}).seq).toBe(1);
+    expect(feed.getSequence("trades:m1")).toBe(2);
+    expect(feed.getSequence("trades:unknown")).toBe(0);
+  });
+
+  it("delivers only to listeners of the channel until they unsubscribe", () => {
+    const feed = new MarketFeed();
+    const listener = vi.fn();
+    const other = vi.fn();
+
+    const unsubscribe = feed.subscribe("book:m1", listener);
+    feed.subscribe("book:m2", other);
+
+    feed.publish("book:m1", "update", { n: 1 });
+    unsubscribe();
+    feed.publish("book:m1", "update", { n: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      type: "update",
+      channel: "book:m1",
+      seq: 1,
+      data: { n: 1 },
+    });
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it("keeps delivering when one listener throws", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const feed = new MarketFeed();
+    const healthy = vi.fn();
+
+    feed.subscribe("book:m1", () => {
+      throw new Error("socket gone");
+    });
+    feed.subscribe("book:m1", healthy);
+    feed.publish("book:m1", "update", {});
+
+    expect(healthy).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("socket gone")
+    );
+  });
+
+  describe("publishDepth", () => {
+    it("publishes changed and removed levels against the primed baseline", () => {
+      const feed = new MarketFeed();
+      const messages: FeedMessage[] = [];
+      feed.subscribe("book:m1", (m) => messages.push(m));
+
+      feed.primeDepth("m1", "YES", {
+        bids: [level(0.5, 100), level(0.4, 50)],
+        asks: [level(0.6, 70)],
+      });
+      feed.publishDepth("m1", "YES", {
+        bids: [level(0.5, 100), level(0.45, 20)],
+        asks: [level(0.6, 30, 2)],
+      });
+
+      expect(messages).toEqual([
+        {
+          type: "update",
+          channel: "book:m1",
+          seq: 1,
+          data: {
+            marketId: "m1",
+            outcome: "YES",
+            bids: [level(0.45, 20), level(0.4, 0, 0)],
+            asks: [level(0.6, 30, 2)],
+          },
+        },
+      ]);
+    });
+
+    it("publishes nothing when the visible depth is unchanged", () => {
+      const feed = new MarketFeed();
+      const depth = { bids: [level(0.5, 100)], asks: [] };
+
+      feed.publishDepth("m1", "NO", depth);
+
+      expect(feed.publishDepth("m1", "NO", depth)).toBeNull();
+      expect(feed.getSequence("book:m1")).toBe(1);
+    });
+
+    it("does not overwrite a published baseline when primed again", () => {
+      const feed = new MarketFeed();
+
+      feed.publishDepth("m1", "YES", { bids: [level(0.5, 10)], asks: [] });
+      feed.primeDepth("m1", "YES", { bids: [], asks: [] });
+
+      expect(feed.getBookSnapshot("m1").data.YES.bids).toEqual([
+        level(0.5, 10),
+      ]);
+    });
+  });
+
+  it("stamps book snapshots with the current book sequence", () => {
+    const feed = new MarketFeed();
+
+    feed.publishDepth("m1", "YES", { bids: [level(0.5, 10)], asks: [] });
+    feed.publishDepth("m1", "NO", { bids: [], asks: [level(0.7, 5)] });
+
+    expect(feed.getBookSnapshot("m1")).toEqual({
+      type: "snapshot",
+      channel: "book:m1",
+      seq: 2,
+      data: {
+        marketId: "m1",
+        YES: { bids: [level(0.5, 10)], asks: [] },
+        NO: { bids: [], asks: [level(0.7, 5)] },
+      },
+    });
+  });
+
+  it("publishes a fill to both wallets with maker and taker liquidity", () => {
+    const feed = new MarketFeed();
+    const buyer = vi.fn();
+    const seller = vi.fn();
+    feed.subscribe("orders:GBUYER", buyer);
+    feed.subscribe("orders:GSELLER", seller);
+
+    const trade: Trade = {
+      id: "trade-1",
+      marketId: "m1",
+      outcome: "YES",
+      buyerAddress: "GBUYER",
+      sellerAddress: "GSELLER",
+      buyOrderId: "buy-1",
+      sellOrderId: "sell-1",
+      price: 0.55,
+      quantity: 10,
+      timestamp: 1_700_000_000_000,
+    };
+    feed.publishFills(trade, "buy-1");
+
+    expect(buyer.mock.calls[0][0]).toMatchObject({
+      type: "fill",
+      seq: 1,
+      data: { orderId: "buy-1", side: "BUY", liquidity: "TAKER" },
+    });
+    expect(seller.mock.calls[0][0]).toMatchObject({
+      type: "fill",
+      seq: 1,
+      data: { orderId: "sell-1", side: "SELL", liquidity: "MAKER" },
+    });
+  });
+
+  it("publishes a MINT trade's fill only to its buyer", () => {
+    const feed = new MarketFeed();
+    const buyer = vi.fn();
+    const counterparty = vi.fn();
+    feed.subscribe("orders:GYESBUYER", buyer);
+    feed.subscribe("orders:GNOBUYER", counterparty);
+
+    feed.publishFills(
+      {
+        id: "trade-1",
+        marketId: "m1",
+        outcome: "YES",
+        buyerAddress: "GYESBUYER",
+        sellerAddress: "GNOBUYER",
+        buyOrderId: "yes-buy",
+        sellOrderId: "no-buy",
+        price: 0.6,
+        quantity: 10,
+        timestamp: 1_700_000_000_000,
+        matchType: "MINT",
+      },
+      "yes-buy"
+    );
+
+    expect(buyer).toHaveBeenCalledTimes(1);
+    expect(counterparty).not.toHaveBeenCalled();
+  });
+
+  it("publishes order updates with a cancellation reason", () => {
+    const feed = new MarketFeed();
+    const listener = vi.fn();
+    feed.subscribe("orders:GOWNER", listener);
+
+    feed.publishOrder(
+      {
+        id: "order-1",
+        marketId: "m1",
+        userAddress: "GOWNER",
+        outcome: "NO",
+        side: "SELL",
+        price: { toString: () => "0.4" },
+        quantity: 20,
+        filledQuantity: 5,
+        status: "CANCELLED",
+      } as unknown as PrismaOrder,
+      "EXPIRED"
+    );
+
+    expect(listener.mock.calls[0][0].data).toMatchObject({
+      orderId: "order-1",
+      price: 0.4,
+      filledQuantity: 5,
+      status: "CANCELLED",
+      cancellationReason: "EXPIRED",
+    });
+  });
+});
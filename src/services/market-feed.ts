@@ -0,0 +1,328 @@
+import type { DepthLevel } from "../matching/orderbook.js";
+import type { Trade } from "../matching/engine.js";
+import type {
+  OrderSide,
+  OrderStatus,
+  Outcome,
+  PrismaOrder,
+} from "../types/index.js";
+import type { CancellationReason } from "./audit.js";
+
+/**
+ * Message types pushed to feed subscribers:
+ * - snapshot: full top-of-book depth for both outcomes of a market
+ * - update: changed depth levels since the previous message on the channel
+ * - trade: a public trade read from the global audit stream
+ * - order: a wallet's order changed status or fill quantity
+ * - fill: a wallet's order traded
+ */
+export type FeedMessageType =
+  "snapshot" | "update" | "trade" | "order" | "fill";
+
+export interface FeedMessage<T = unknown> {
+  type: FeedMessageType;
+  channel: string;
+  /**
+   * Per-channel sequence number, incremented by exactly one per message.
+   * A subscriber that sees a jump has missed messages and must resync.
+   */
+  seq: number;
+  data: T;
+}
+
+export type FeedListener = (message: FeedMessage) => void;
+
+export interface BookDepth {
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+}
+
+/** Depth levels that changed; a level with quantity 0 has been removed. */
+export interface BookDepthUpdate extends BookDepth {
+  marketId: string;
+  outcome: Outcome;
+}
+
+export interface BookSnapshot {
+  marketId: string;
+  YES: BookDepth;
+  NO: BookDepth;
+}
+
+export interface FeedTrade extends Trade {
+  /** Entry ID in the global audit stream the trade was read from */
+  streamId: string;
+}
+
+export interface FeedOrderUpdate {
+  orderId: string;
+  marketId: string;
+  outcome: Outcome;
+  side: OrderSide;
+  price: number;
+  quantity: number;
+  filledQuantity: number;
+  status: OrderStatus;
+  /** Present when the order left the book without filling */
+  cancellationReason?: CancellationReason;
+  timestamp: number;
+}
+
+export interface FeedFill {
+  tradeId: string;
+  orderId: string;
+  marketId: string;
+  outcome: Outcome;
+  side: OrderSide;
+  price: number;
+  quantity: number;
+  liquidity: "MAKER" | "TAKER";
+  timestamp: number;
+}
+
+export function bookChannel(marketId: string): string {
+  return `book:${marketId}`;
+}
+
+export function tradesChannel(marketId: string): string {
+  return `trades:${marketId}`;
+}
+
+export function ordersChannel(userAddress: string): string {
+  return `orders:${userAddress}`;
+}
+
+const EMPTY_DEPTH: BookDepth = { bids: [], asks: [] };
+
+/**
+ * Levels in `next` that differ from `previous`, plus zero-quantity entries
+ * for levels that are no longer present.
+ */
+function diffLevels(previous: DepthLevel[], next: DepthLevel[]): DepthLevel[] {
+  const before = new Map(previous.map((level) => [level.price, level]));
+  const changed: DepthLevel[] = [];
+
+  for (const level of next) {
+    const old = before.get(level.price);
+    before.delete(level.price);
+    if (
+      !old ||
+      old.quantity !== level.quantity ||
+      old.orderCount !== level.orderCount
+    ) {
+      changed.push({ ...level });
+    }
+  }
+
+  for (const removed of before.values()) {
+    changed.push({ price: removed.price, quantity: 0, orderCount: 0 });
+  }
+
+  return changed;
+}
+
+function cloneDepth(depth: BookDepth): BookDepth {
+  return {
+    bids: depth.bids.map((level) => ({ ...level })),
+    asks: depth.asks.map((level) => ({ ...level })),
+  };
+}
+
+/**
+ * In-process fan-out hub for the real-time WebSocket feed.
+ *
+ * Publishers (MatchingService, the trade stream tailer) call the publish
+ * methods synchronously after their state has committed; listeners are
+ * invoked in the same tick. Because a snapshot and a subscription can be
+ * taken in one synchronous step, a subscriber never sees a gap between the
+ * snapshot's `seq` and the first update that follows it.
+ */
+export class MarketFeed {
+  private sequences = new Map<string, number>();
+  private listeners = new Map<string, Set<FeedListener>>();
+  private depths = new Map<string, BookDepth>();
+
+  private getDepthKey(marketId: string, outcome: Outcome): string {
+    return `${marketId}:${outcome}`;
+  }
+
+  /** Current sequence number of a channel; 0 before its first message. */
+  getSequence(channel: string): number {
+    return this.sequences.get(channel) ?? 0;
+  }
+
+  /** Register a listener. Returns a function that removes it again. */
+  subscribe(channel: string, listener: FeedListener): () => void {
+    let channelListeners = this.listeners.get(channel);
+    if (!channelListeners) {
+      channelListeners = new Set();
+      this.listeners.set(channel, channelListeners);
+    }
+    channelListeners.add(listener);
+
+    return () => {
+      const current = this.listeners.get(channel);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) {
+        this.listeners.delete(channel);
+      }
+    };
+  }
+
+  /**
+   * Assign the next sequence number on `channel` and deliver the message.
+   * A throwing listener is logged and does not stop delivery to the others.
+   */
+  publish<T>(channel: string, type: FeedMessageType, data: T): FeedMessage<T> {
+    const seq = this.getSequence(channel) + 1;
+    this.sequences.set(channel, seq);
+
+    const message: FeedMessage<T> = { type, channel, seq, data };
+
+    for (const listener of this.listeners.get(channel) ?? []) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error(
+          JSON.stringify({
+            ts: new Date().toISOString(),
+            level: "error",
+            component: "market-feed",
+            message: "Feed listener failed",
+            channel,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+      }
+    }
+
+    return message;
+  }
+
+  /**
+   * Record the depth of a book without publishing anything. Used to seed the
+   * baseline the first time a book is read, so the first diff published for
+   * it is relative to what a snapshot would have shown.
+   */
+  primeDepth(marketId: string, outcome: Outcome, depth: BookDepth): void {
+    const key = this.getDepthKey(marketId, outcome);
+    if (!this.depths.has(key)) {
+      this.depths.set(key, cloneDepth(depth));
+    }
+  }
+
+  /**
+   * Publish the levels of a book that changed since the last published
+   * depth. Nothing is published when the visible depth did not change.
+   */
+  publishDepth(
+    marketId: string,
+    outcome: Outcome,
+    depth: BookDepth
+  ): FeedMessage<BookDepthUpdate> | null {
+    const key = this.getDepthKey(marketId, outcome);
+    const previous = this.depths.get(key) ?? EMPTY_DEPTH;
+
+    const bids = diffLevels(previous.bids, depth.bids);
+    const asks = diffLevels(previous.asks, depth.asks);
+    this.depths.set(key, cloneDepth(depth));
+
+    if (bids.length === 0 && asks.length === 0) {
+      return null;
+    }
+
+    return this.publish(bookChannel(marketId), "update", {
+      marketId,
+      outcome,
+      bids,
+      asks,
+    });
+  }
+
+  /**
+   * Current depth of both outcome books of a market, stamped with the book
+   * channel's sequence number. Updates with a higher `seq` apply on top.
+   */
+  getBookSnapshot(marketId: string): FeedMessage<BookSnapshot> {
+    const channel = bookChannel(marketId);
+    const yes = this.depths.get(this.getDepthKey(marketId, "YES"));
+    const no = this.depths.get(this.getDepthKey(marketId, "NO"));
+
+    return {
+      type: "snapshot",
+      channel,
+      seq: this.getSequence(channel),
+      data: {
+        marketId,
+        YES: cloneDepth(yes ?? EMPTY_DEPTH),
+        NO: cloneDepth(no ?? EMPTY_DEPTH),
+      },
+    };
+  }
+
+  publishTrade(trade: FeedTrade): FeedMessage<FeedTrade> {
+    return this.publish(tradesChannel(trade.marketId), "trade", trade);
+  }
+
+  publishOrder(
+    order: PrismaOrder,
+    cancellationReason?: CancellationReason
+  ): FeedMessage<FeedOrderUpdate> {
+    return this.publish(ordersChannel(order.userAddress), "order", {
+      orderId: order.id,
+      marketId: order.marketId,
+      outcome: order.outcome,
+      side: order.side,
+      price: Number(order.price),
+      quantity: order.quantity,
+      filledQuantity: order.filledQuantity,
+      status: order.status,
+      ...(cancellationReason ? { cancellationReason } : {}),
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Publish one fill to each side of a trade. For MINT and MERGE trades
+   * only the side whose order traded in this outcome gets a fill; the
+   * counterparty's fill comes from the mirror trade on the other outcome.
+   */
+  publishFills(trade: Trade, takerOrderId: string): void {
+    const sides = [
+      {
+        userAddress: trade.buyerAddress,
+        orderId: trade.buyOrderId,
+        side: "BUY" as const,
+      },
+      {
+        userAddress: trade.sellerAddress,
+        orderId: trade.sellOrderId,
+        side: "SELL" as const,
+      },
+    ].filter(({ side }) =>
+      trade.matchType === "MINT"
+        ? side === "BUY"
+        : trade.matchType === "MERGE"
+          ? side === "SELL"
+          : true
+    );
+
+    for (const { userAddress, orderId, side } of sides) {
+      this.publish<FeedFill>(ordersChannel(userAddress), "fill", {
+        tradeId: trade.id,
+        orderId,
+        marketId: trade.marketId,
+        outcome: trade.outcome,
+        side,
+        price: trade.price,
+        quantity: trade.quantity,
+        liquidity: orderId === takerOrderId ? "TAKER" : "MAKER",
+        timestamp: trade.timestamp,
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const marketFeed = new MarketFeed();
@@ -0,0 +1,330 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  closeEndedMarkets,
+  createMarket,
+  isAllowedTransition,
+  MARKET_CLOSE_ACTOR,
+  transitionMarketStatus,
+} from "./market-lifecycle.js";
+import {
+  MarketNotFoundError,
+  ValidationError,
+} from "../api/middleware/errors.js";
+
+const mocks = vi.hoisted(() => {
+  const tx = {
+    market: {
+      create: vi.fn(),
+      updateMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+    },
+    marketStatusTransition: { create: vi.fn() },
+  };
+  return {
+    tx,
+    marketFindUnique: vi.fn(),
+    marketFindMany: vi.fn(),
+    haltMarket: vi.fn(),
+    publishMarketClosed: vi.fn(),
+  };
+});
+
+vi.mock("./prisma.js", () => ({
+  getPrismaClient: () => ({
+    market: {
+      findUnique: mocks.marketFindUnique,
+      findMany: mocks.marketFindMany,
+    },
+    $transaction: (fn: (tx: typeof mocks.tx) => Promise<unknown>) =>
+      fn(mocks.tx),
+  }),
+}));
+
+vi.mock("../matching/matching-service.js", () => ({
+  matchingService: { haltMarket: mocks.haltMarket },
+}));
+
+vi.mock("./market-events.js", () => ({
+  publishMarketClosed: mocks.publishMarketClosed,
+}));
+
+const oracleAddress =
+  "GINJ46CDSMNOSKETX3K5DU44435TGRWIQEM7ZVI3ON3BTOOFVJJHTWXO";
+const now = new Date("2026-07-01T00:00:00.000Z");
+
+describe("market lifecycle", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    mocks.marketFindUnique.mockResolvedValue({ id: "m1", status: "ACTIVE" });
+    mocks.tx.market.updateMany.mockResolvedValue({ count: 1 });
+    mocks.tx.market.findUniqueOrThrow.mockResolvedValue({
+      id: "m1",
+      oracleAddress,
+      endTime: now,
+    });
+    mocks.tx.marketStatusTransition.create.mockImplementation(
+      async ({ data }) => ({ id: "t1", createdAt: now, ...data })
+    );
+    mocks.haltMarket.mockResolvedValue([]);
+  });
+
+  it("only allows edges out of ACTIVE and CLOSED", () => {
+    expect(isAllowedTransition("ACTIVE", "CLOSED")).toBe(true);
+    expect(isAllowedTransition("ACTIVE", "RESOLVED")).toBe(true);
+    expect(isAllowedTransition("ACTIVE", "CANCELLED")).toBe(true);
+    expect(isAllowedTransition("CLOSED", "RESOLVED")).toBe(true);
+    expect(isAllowedTransition("CLOSED", "CANCELLED")).toBe(true);
+    expect(isAllowedTransition("ACTIVE", "ACTIVE")).toBe(false);
+    expect(isAllowedTransition("CLOSED", "ACTIVE")).toBe(false);
+    expect(isAllowedTransition("RESOLVED", "ACTIVE")).toBe(false);
+    expect(isAllowedTransition("CANCELLED", "RESOLVED")).toBe(false);
+  });
+
+  describe("createMarket", () => {
+    it("creates an ACTIVE market and records who created it", async () => {
+      mocks.tx.market.create.mockResolvedValue({ id: "m1" });
+
+      await createMarket(
+        {
+          question: "  Will it rain?  ",
+          endTime: new Date("2026-08-01T00:00:00.000Z"),
+          oracleAddress,
+          metadata: { category: "weather" },
+          actor: "alice",
+        },
+        now
+      );
+
+      expect(mocks.tx.market.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          question: "Will it rain?",
+          status: "ACTIVE",
+          metadata: { category: "weather" },
+        }),
+      });
+      expect(mocks.tx.marketStatusTransition.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          marketId: "m1",
+          fromStatus: null,
+          toStatus: "ACTIVE",
+          actor: "alice",
+        }),
+      });
+    });
+
+    it("rejects an endTime that is not in the future", async () => {
+      await expect(
+        createMarket(
+          { question: "Q", endTime: now, oracleAddress, actor: "alice" },
+          now
+        )
+      ).rejects.toMatchObject({
+        fields: { endTime: "End time must be in the future" },
+      });
+      expect(mocks.tx.market.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("transitionMarketStatus", () => {
+    it("requires an outcome to resolve", async () => {
+      await expect(
+        transitionMarketStatus({
+          marketId: "m1",
+          status: "RESOLVED",
+          actor: "alice",
+          reason: "Result announced",
+        })
+      ).rejects.toBeInstanceOf(ValidationError);
+      expect(mocks.tx.market.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("resolves with the outcome, records the transition and halts trading", async () => {
+      const { transition } = await transitionMarketStatus({
+        marketId: "m1",
+        status: "RESOLVED",
+        outcome: true,
+        actor: "alice",
+        reason: "Result announced",
+      });
+
+      expect(mocks.tx.market.updateMany).toHaveBeenCalledWith({
+        where: { id: "m1", status: "ACTIVE" },
+        data: expect.objectContaining({ status: "RESOLVED", outcome: true }),
+      });
+      expect(transition).toMatchObject({
+        fromStatus: "ACTIVE",
+        toStatus: "RESOLVED",
+        outcome: true,
+        actor: "alice",
+        reason: "Result announced",
+      });
+      expect(mocks.haltMarket).toHaveBeenCalledWith("m1", "MARKET_RESOLVED");
+    });
+
+    it("cancels open orders after cancelling the market", async () => {
+      mocks.haltMarket.mockResolvedValue([{ id: "o1" }, { id: "o2" }]);
+
+      const { cancelledOrders } = await transitionMarketStatus({
+        marketId: "m1",
+        status: "CANCELLED",
+        actor: "alice",
+        reason: "Ambiguous question",
+      });
+
+      expect(mocks.haltMarket).toHaveBeenCalledWith("m1", "MARKET_CANCELLED");
+      expect(cancelledOrders).toHaveLength(2);
+      expect(mocks.publishMarketClosed).not.toHaveBeenCalled();
+    });
+
+    it("halts trading and publishes an event when closing", async () => {
+      await transitionMarketStatus({
+        marketId: "m1",
+        status: "CLOSED",
+        actor: MARKET_CLOSE_ACTOR,
+        reason: "Market end time reached",
+      });
+
+      expect(mocks.haltMarket).toHaveBeenCalledWith("m1", "MARKET_CLOSED");
+      expect(mocks.publishMarketClosed).toHaveBeenCalledWith({
+        marketId: "m1",
+        oracleAddress,
+        endTime: now.toISOString(),
+        closedAt: now.toISOString(),
+      });
+    });
+
+    it("still closes the market when the event cannot be published", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mocks.publishMarketClosed.mockRejectedValue(new Error("Redis down"));
+
+      const { market } = await transitionMarketStatus({
+        marketId: "m1",
+        status: "CLOSED",
+        actor: MARKET_CLOSE_ACTOR,
+        reason: "Market end time reached",
+      });
+
+      expect(market.id).toBe("m1");
+      expect(mocks.haltMarket).toHaveBeenCalledWith("m1", "MARKET_CLOSED");
+    });
+
+    it("does not halt again when cancelling a CLOSED market", async () => {
+      mocks.marketFindUnique.mockResolvedValue({ id: "m1", status: "CLOSED" });
+
+      await transitionMarketStatus({
+        marketId: "m1",
+        status: "CANCELLED",
+        actor: "alice",
+        reason: "Oracle unavailable",
+      });
+
+      expect(mocks.haltMarket).not.toHaveBeenCalled();
+    });
+
+    it("rejects a transition out of a terminal status", async () => {
+      mocks.marketFindUnique.mockResolvedValue({
+        id: "m1",
+        status: "RESOLVED",
+      });
+
+      await expect(
+        transitionMarketStatus({
+          marketId: "m1",
+          status: "CANCELLED",
+          actor: "alice",
+          reason: "Oops",
+        })
+      ).rejects.toThrow("Market cannot move from RESOLVED to CANCELLED");
+    });
+
+    it("fails when the market changed status concurrently", async () => {
+      mocks.tx.market.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        transitionMarketStatus({
+          marketId: "m1",
+          status: "CANCELLED",
+          actor: "alice",
+          reason: "Ambiguous question",
+        })
+      ).rejects.toThrow("changed status concurrently");
+      expect(mocks.tx.marketStatusTransition.create).not.toHaveBeenCalled();
+      expect(mocks.haltMarket).not.toHaveBeenCalled();
+    });
+
+    it("throws MarketNotFoundError for an unknown market", async () => {
+      mocks.marketFindUnique.mockResolvedValue(null);
+
+      await expect(
+        transitionMarketStatus({
+          marketId: "missing",
+          status: "CANCELLED",
+          actor: "alice",
+          reason: "Oops",
+        })
+      ).rejects.toBeInstanceOf(MarketNotFoundError);
+    });
+  });
+
+  describe("closeEndedMarkets", () => {
+    it("closes ended ACTIVE markets as the scheduler", async () => {
+      mocks.marketFindMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: "m1" }]);
+
+      const closed = await closeEndedMarkets(now);
+
+      expect(mocks.marketFindMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: { status: "ACTIVE", endTime: { lte: now } },
+        })
+      );
+      expect(mocks.tx.marketStatusTransition.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          toStatus: "CLOSED",
+          actor: MARKET_CLOSE_ACTOR,
+        }),
+      });
+      expect(closed).toHaveLength(1);
+    });
+
+    it("halts markets that left ACTIVE but still have open orders", async () => {
+      mocks.marketFindMany
+        .mockResolvedValueOnce([
+          { id: "m2", status: "CLOSED" },
+          { id: "m3", status: "RESOLVED" },
+        ])
+        .mockResolvedValueOnce([]);
+
+      await closeEndedMarkets(now);
+
+      expect(mocks.marketFindMany).toHaveBeenNthCalledWith(1, {
+        where: {
+          status: { not: "ACTIVE" },
+          orders: { some: { status: { in: ["OPEN", "PARTIALLY_FILLED"] } } },
+        },
+        select: { id: true, status: true },
+      });
+      expect(mocks.haltMarket).toHaveBeenCalledWith("m2", "MARKET_CLOSED");
+      expect(mocks.haltMarket).toHaveBeenCalledWith("m3", "MARKET_RESOLVED");
+    });
+
+    it("keeps closing other markets when one fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mocks.marketFindMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: "m1" }, { id: "m3" }]);
+      mocks.tx.market.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+
+      const closed = await closeEndedMarkets(now);
+
+      expect(closed).toHaveLength(1);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining("changed status concurrently")
+      );
+    });
+  });
+});
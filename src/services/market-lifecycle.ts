@@ -0,0 +1,306 @@
+import type { Prisma } from "../generated/prisma/client";
+import {
+  MarketNotFoundError,
+  ValidationError,
+} from "../api/middleware/errors.js";
+import { STELLAR_PUBLIC_KEY_REGEX } from "../matching/validation.js";
+import { matchingService } from "../matching/matching-service.js";
+import type { CancellationReason } from "./audit.js";
+import { publishMarketClosed } from "./market-events.js";
+import {
+  applyMarketTransition,
+  haltsTrading,
+  isAllowedTransition,
+} from "./market-transitions.js";
+import { getPrismaClient } from "./prisma.js";
+import type {
+  Market,
+  MarketStatus,
+  MarketStatusTransition,
+  PrismaOrder,
+} from "../types/index.js";
+
+export {
+  MARKET_STATUS_TRANSITIONS,
+  isAllowedTransition,
+} from "./market-transitions.js";
+
+/** Actor recorded on transitions made by the market close scheduler. */
+export const MARKET_CLOSE_ACTOR = "system:market-close-scheduler";
+
+export interface CreateMarketInput {
+  question: string;
+  endTime: Date;
+  oracleAddress: string;
+  metadata?: Prisma.InputJsonObject;
+  /** Who created the market, recorded on its first transition */
+  actor: string;
+}
+
+export interface MarketTransitionInput {
+  marketId: string;
+  status: MarketStatus;
+  /** Required when resolving and rejected otherwise */
+  outcome?: boolean;
+  actor: string;
+  reason: string;
+}
+
+export interface MarketTransitionResult {
+  market: Market;
+  transition: MarketStatusTransition;
+  /** Open orders cancelled because the market stopped trading */
+  cancelledOrders: PrismaOrder[];
+}
+
+/**
+ * Create an ACTIVE market and record its creation as the first transition.
+ *
+ * @throws ValidationError if a field is invalid or endTime is not in the future
+ */
+export async function createMarket(
+  input: CreateMarketInput,
+  now: Date = new Date()
+): Promise<{ market: Market; transition: MarketStatusTransition }> {
+  const errors: Record<string, string> = {};
+
+  if (input.question.trim().length === 0) {
+    errors.question = "Question is required";
+  }
+  if (Number.isNaN(input.endTime.getTime())) {
+    errors.endTime = "End time must be a valid date";
+  } else if (input.endTime <= now) {
+    errors.endTime = "End time must be in the future";
+  }
+  if (!STELLAR_PUBLIC_KEY_REGEX.test(input.oracleAddress)) {
+    errors.oracleAddress = "Oracle address must be a Stellar public key";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(Object.values(errors).join("; "), errors);
+  }
+
+  const prisma = getPrismaClient();
+
+  return prisma.$transaction(async (tx) => {
+    const market = await tx.market.create({
+      data: {
+        question: input.question.trim(),
+        endTime: input.endTime,
+        oracleAddress: input.oracleAddress,
+        status: "ACTIVE",
+        ...(input.metadata ? { metadata: input.metadata } : {}),
+        // Listing sorts by stats, so every market has a row from the start
+        stats: { create: {} },
+      },
+    });
+
+    const transition = await tx.marketStatusTransition.create({
+      data: {
+        marketId: market.id,
+        fromStatus: null,
+        toStatus: "ACTIVE",
+        actor: input.actor,
+        reason: "Market created",
+      },
+    });
+
+    return { market, transition };
+  });
+}
+
+/**
+ * Move a market along an allowed edge of MARKET_STATUS_TRANSITIONS and
+ * record who did it and why. Resolving sets the outcome and resolution
+ * time. Leaving ACTIVE halts trading once the status change has committed,
+ * so no new order can rest in the meantime.
+ * Closing also publishes a market-closed event for the oracle pipeline.
+ *
+ * @throws MarketNotFoundError if the market does not exist
+ * @throws ValidationError if the edge is not allowed, the outcome is missing
+ * on resolve, or the market changed status concurrently
+ */
+export async function transitionMarketStatus(
+  input: MarketTransitionInput
+): Promise<MarketTransitionResult> {
+  const { marketId, status, outcome, actor, reason } = input;
+  const prisma = getPrismaClient();
+
+  const existing = await prisma.market.findUnique({ where: { id: marketId } });
+  if (!existing) {
+    throw new MarketNotFoundError(marketId);
+  }
+
+  if (!isAllowedTransition(existing.status, status)) {
+    throw new ValidationError(
+      `Market cannot move from ${existing.status} to ${status}`,
+      { status: `Not allowed from ${existing.status}` }
+    );
+  }
+
+  if (status === "RESOLVED" && outcome === undefined) {
+    throw new ValidationError("Outcome is required to resolve a market", {
+      outcome: "Required when status is RESOLVED",
+    });
+  }
+  if (status !== "RESOLVED" && outcome !== undefined) {
+    throw new ValidationError("Outcome can only be set when resolving", {
+      outcome: "Only allowed when status is RESOLVED",
+    });
+  }
+
+  const { market, transition } = await prisma.$transaction(async (tx) => {
+    const transition = await applyMarketTransition(tx, {
+      marketId,
+      from: existing.status,
+      to: status,
+      outcome,
+      actor,
+      reason,
+    });
+
+    const market = await tx.market.findUniqueOrThrow({
+      where: { id: marketId },
+    });
+
+    return { market, transition };
+  });
+
+  const cancelledOrders = haltsTrading(existing.status)
+    ? await matchingService.haltMarket(marketId, haltReason(status))
+    : [];
+
+  if (status === "CLOSED") {
+    // The close is committed and the oracle polls CLOSED markets, so a lost
+    // event must not fail the transition
+    try {
+      await publishMarketClosed({
+        marketId,
+        oracleAddress: market.oracleAddress,
+        endTime: market.endTime.toISOString(),
+        closedAt: transition.createdAt.toISOString(),
+      });
+    } catch (error) {
+      console.error(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "error",
+          component: "market-lifecycle",
+          message: "Failed to publish market-closed event",
+          marketId,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  console.info(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "info",
+      component: "market-lifecycle",
+      message: "Market status changed",
+      marketId,
+      from: existing.status,
+      to: status,
+      actor,
+      cancelledOrders: cancelledOrders.length,
+    })
+  );
+
+  return { market, transition, cancelledOrders };
+}
+
+/** A market's status history, oldest first. */
+export async function getMarketTransitions(
+  marketId: string
+): Promise<MarketStatusTransition[]> {
+  const prisma = getPrismaClient();
+  return prisma.marketStatusTransition.findMany({
+    where: { marketId },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Close every ACTIVE market whose endTime is at or before `now`. A market
+ * that fails to close is logged and left for the next run; one moved by an
+ * admin in the meantime is skipped. Markets that left ACTIVE but still
+ * have open orders are halted: halting failed after their status change
+ * committed, or they were resolved by a worker process, which does not
+ * hold the order books.
+ *
+ * @returns the markets that were closed
+ */
+export async function closeEndedMarkets(
+  now: Date = new Date()
+): Promise<Market[]> {
+  const prisma = getPrismaClient();
+
+  const unhalted = await prisma.market.findMany({
+    where: {
+      status: { not: "ACTIVE" },
+      orders: { some: { status: { in: ["OPEN", "PARTIALLY_FILLED"] } } },
+    },
+    select: { id: true, status: true },
+  });
+
+  for (const { id, status } of unhalted) {
+    try {
+      await matchingService.haltMarket(id, haltReason(status));
+    } catch (error) {
+      logCloseFailure(id, error);
+    }
+  }
+
+  const ended = await prisma.market.findMany({
+    where: { status: "ACTIVE", endTime: { lte: now } },
+    select: { id: true },
+    orderBy: { endTime: "asc" },
+  });
+
+  const closed: Market[] = [];
+
+  for (const { id } of ended) {
+    try {
+      const { market } = await transitionMarketStatus({
+        marketId: id,
+        status: "CLOSED",
+        actor: MARKET_CLOSE_ACTOR,
+        reason: "Market end time reached",
+      });
+      closed.push(market);
+    } catch (error) {
+      logCloseFailure(id, error);
+    }
+  }
+
+  return closed;
+}
+
+/** The cancellation reason of orders halted by a move to `status` */
+function haltReason(
+  status: MarketStatus
+): Extract<CancellationReason, `MARKET_${string}`> {
+  switch (status) {
+    case "CLOSED":
+      return "MARKET_CLOSED";
+    case "RESOLVED":
+      return "MARKET_RESOLVED";
+    default:
+      return "MARKET_CANCELLED";
+  }
+}
+
+function logCloseFailure(marketId: string, error: unknown): void {
+  console.error(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "error",
+      component: "market-lifecycle",
+      message: "Failed to close ended market",
+      marketId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { MarketStatsRefresher } from "./market-stats-refresher.js";
+
+describe("MarketStatsRefresher", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("returns the number of markets refreshed by the source", async () => {
+    const source = { refreshRollingVolumes: vi.fn().mockResolvedValue(2) };
+    const refresher = new MarketStatsRefresher(source, 1000);
+    const now = new Date("2026-07-21T00:00:00.000Z");
+
+    await expect(refresher.run(now)).resolves.toBe(2);
+    expect(source.refreshRollingVolumes).toHaveBeenCalledWith(now);
+  });
+
+  it("logs and swallows source failures", async () => {
+    const source = {
+      refreshRollingVolumes: vi.fn().mockRejectedValue(new Error("db down")),
+    };
+    const refresher = new MarketStatsRefresher(source, 1000);
+
+    await expect(refresher.run()).resolves.toBe(0);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("db down")
+    );
+  });
+
+  it("skips a run while the previous one is still running", async () => {
+    let release!: (count: number) => void;
+    const source = {
+      refreshRollingVolumes: vi.fn().mockImplementation(
+        () =>
+          new Promise<number>((resolve) => {
+            release = resolve;
+          })
+      ),
+    };
+    const refresher = new MarketStatsRefresher(source, 1000);
+
+    const first = refresher.run();
+    await expect(refresher.run()).resolves.toBe(0);
+    release(1);
+
+    await expect(first).resolves.toBe(1);
+    expect(source.refreshRollingVolumes).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,78 @@
+/** The slice of the market stats service the refresher depends on. */
+export interface RollingVolumeSource {
+  refreshRollingVolumes(now?: Date): Promise<number>;
+}
+
+/**
+ * Periodically recomputes the 24 hour volume of markets that traded
+ * recently. Trades only ever add to the stored volume, so without this
+ * refresh it would never fall as trades age out of the window.
+ *
+ * A run that is still in progress when the next tick fires is not
+ * overlapped; the tick is skipped instead.
+ */
+export class MarketStatsRefresher {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunInProgress = false;
+
+  constructor(
+    private readonly source: RollingVolumeSource,
+    private readonly intervalMs: number
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.run(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Refresh rolling volumes once. Failures are logged, not thrown, so a
+   * transient database error never stops the interval.
+   *
+   * @returns number of markets refreshed, or 0 if skipped or failed
+   */
+  async run(now: Date = new Date()): Promise<number> {
+    if (this.isRunInProgress) return 0;
+    this.isRunInProgress = true;
+
+    try {
+      const refreshed = await this.source.refreshRollingVolumes(now);
+
+      if (refreshed > 0) {
+        console.info(
+          JSON.stringify({
+            ts: new Date().toISOString(),
+            level: "info",
+            component: "market-stats-refresher",
+            message: "Rolling volumes refreshed",
+            metric: "market_stats.refreshed",
+            value: refreshed,
+          })
+        );
+      }
+
+      return refreshed;
+    } catch (error) {
+      console.error(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "error",
+          component: "market-stats-refresher",
+          message: "Rolling volume refresh failed",
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      return 0;
+    } finally {
+      this.isRunInProgress = false;
+    }
+  }
+}
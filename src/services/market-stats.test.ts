@@ -0,0 +1,176 @@
+import { describe, it, expect, vi } from "vitest";
+import { Prisma } from "../generated/prisma/client";
+import type { PrismaClient } from "../generated/prisma/client";
+import type { Market } from "../types/index.js";
+import {
+  impliedProbability,
+  recordQuotes,
+  recordTrades,
+  refreshRollingVolumes,
+  toMarketWithStats,
+} from "./market-stats.js";
+
+const NOW = new Date("2026-07-21T12:00:00.000Z");
+
+function makeClient() {
+  return {
+    marketStats: {
+      upsert: vi.fn().mockResolvedValue({}),
+      update: vi.fn().mockResolvedValue({}),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    userPosition: {
+      aggregate: vi.fn().mockResolvedValue({ _sum: { yesShares: 30 } }),
+      count: vi.fn().mockResolvedValue(4),
+    },
+    trade: {
+      aggregate: vi.fn().mockResolvedValue({ _sum: { quantity: 12 } }),
+    },
+  };
+}
+
+describe("recordTrades", () => {
+  it("adds the trades' volume and takes the last price in YES terms", async () => {
+    const client = makeClient();
+
+    await recordTrades(client as unknown as Prisma.TransactionClient, "m1", [
+      { outcome: "YES", price: 0.6, quantity: 5, timestamp: NOW.getTime() },
+      { outcome: "NO", price: 0.3, quantity: 2, timestamp: NOW.getTime() },
+    ]);
+
+    expect(client.userPosition.aggregate).toHaveBeenCalledWith({
+      where: { marketId: "m1", yesShares: { gt: 0 } },
+      _sum: { yesShares: true },
+    });
+    expect(client.marketStats.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { marketId: "m1" },
+        update: {
+          totalVolume: { increment: 7 },
+          volume24h: { increment: 7 },
+          tradeCount: { increment: 2 },
+          openInterest: 30,
+          uniqueTraders: 4,
+          lastPrice: "0.70000000",
+          lastTradedAt: NOW,
+        },
+      })
+    );
+  });
+
+  it("does nothing without trades", async () => {
+    const client = makeClient();
+
+    await recordTrades(client as unknown as Prisma.TransactionClient, "m1", []);
+
+    expect(client.marketStats.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe("recordQuotes", () => {
+  it("stores the quotes and clears missing ones", async () => {
+    const client = makeClient();
+
+    await recordQuotes(client as unknown as PrismaClient, "m1", {
+      bestBid: 0.55,
+      bestAsk: null,
+      spread: null,
+      openOrders: 3,
+    });
+
+    expect(client.marketStats.upsert).toHaveBeenCalledWith({
+      where: { marketId: "m1" },
+      create: {
+        marketId: "m1",
+        bestBid: "0.55000000",
+        bestAsk: null,
+        spread: null,
+        openOrders: 3,
+      },
+      update: {
+        bestBid: "0.55000000",
+        bestAsk: null,
+        spread: null,
+        openOrders: 3,
+      },
+    });
+  });
+});
+
+describe("refreshRollingVolumes", () => {
+  it("recomputes the 24 hour volume of markets that traded recently", async () => {
+    const client = makeClient();
+    client.marketStats.findMany.mockResolvedValue([{ marketId: "m1" }]);
+
+    const refreshed = await refreshRollingVolumes(
+      client as unknown as PrismaClient,
+      NOW
+    );
+
+    expect(refreshed).toBe(1);
+    expect(client.marketStats.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { volume24h: { gt: 0 } } })
+    );
+    expect(client.trade.aggregate).toHaveBeenCalledWith({
+      where: {
+        marketId: "m1",
+        tradedAt: { gte: new Date("2026-07-20T12:00:00.000Z") },
+      },
+      _sum: { quantity: true },
+    });
+    expect(client.marketStats.update).toHaveBeenCalledWith({
+      where: { marketId: "m1" },
+      data: { volume24h: 12 },
+    });
+  });
+});
+
+describe("impliedProbability", () => {
+  const active = { status: "ACTIVE" as const, outcome: null };
+
+  it("uses the mid of the best bid and ask", () => {
+    expect(
+      impliedProbability(active, { bestBid: 0.4, bestAsk: 0.5, lastPrice: 0.9 })
+    ).toBe(0.45);
+  });
+
+  it("falls back to the last trade when one side of the book is empty", () => {
+    expect(
+      impliedProbability(active, {
+        bestBid: 0.4,
+        bestAsk: null,
+        lastPrice: 0.42,
+      })
+    ).toBe(0.42);
+  });
+
+  it("is the outcome of a resolved market", () => {
+    expect(
+      impliedProbability(
+        { status: "RESOLVED", outcome: false },
+        { bestBid: 0.4, bestAsk: 0.5, lastPrice: 0.9 }
+      )
+    ).toBe(0);
+  });
+});
+
+describe("toMarketWithStats", () => {
+  it("defaults a market without statistics to no activity", () => {
+    const market = {
+      id: "m1",
+      status: "ACTIVE",
+      outcome: null,
+      stats: null,
+    } as unknown as Market & { stats: null };
+
+    expect(toMarketWithStats(market)).toMatchObject({
+      id: "m1",
+      totalVolume: 0,
+      openOrders: 0,
+      uniqueTraders: 0,
+      lastPrice: null,
+      impliedProbability: null,
+    });
+    expect(toMarketWithStats(market)).not.toHaveProperty("stats");
+  });
+});
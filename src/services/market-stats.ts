@@ -0,0 +1,178 @@
+import type {
+  MarketStats,
+  Prisma,
+  PrismaClient,
+} from "../generated/prisma/client";
+import type { Market, MarketWithStats, Outcome } from "../types/index.js";
+
+/** Window `volume24h` covers */
+export const VOLUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Best YES quotes and resting order count of a market's books */
+export interface MarketQuotes {
+  bestBid: number | null;
+  bestAsk: number | null;
+  spread: number | null;
+  openOrders: number;
+}
+
+/** The part of a matched trade the statistics are built from */
+export interface TradeStatsInput {
+  outcome: Outcome;
+  price: number;
+  quantity: number;
+  timestamp: number;
+}
+
+type StatsTransaction = Pick<
+  Prisma.TransactionClient,
+  "marketStats" | "userPosition"
+>;
+
+function toYesPrice(outcome: Outcome, price: number): number {
+  return outcome === "YES" ? price : 1 - price;
+}
+
+/**
+ * Add a placed order's trades to the market's statistics and recount its
+ * positions. Call inside the transaction that writes the trades, after the
+ * positions have been updated.
+ */
+export async function recordTrades(
+  tx: StatsTransaction,
+  marketId: string,
+  trades: TradeStatsInput[]
+): Promise<void> {
+  if (trades.length === 0) return;
+
+  const volume = trades.reduce((sum, trade) => sum + trade.quantity, 0);
+  const last = trades[trades.length - 1];
+  const lastPrice = toYesPrice(last.outcome, last.price).toFixed(8);
+  const lastTradedAt = new Date(last.timestamp);
+
+  const [longYes, uniqueTraders] = await Promise.all([
+    tx.userPosition.aggregate({
+      where: { marketId, yesShares: { gt: 0 } },
+      _sum: { yesShares: true },
+    }),
+    tx.userPosition.count({ where: { marketId } }),
+  ]);
+  const openInterest = longYes._sum.yesShares ?? 0;
+
+  await tx.marketStats.upsert({
+    where: { marketId },
+    create: {
+      marketId,
+      totalVolume: volume,
+      volume24h: volume,
+      tradeCount: trades.length,
+      openInterest,
+      uniqueTraders,
+      lastPrice,
+      lastTradedAt,
+    },
+    update: {
+      totalVolume: { increment: volume },
+      volume24h: { increment: volume },
+      tradeCount: { increment: trades.length },
+      openInterest,
+      uniqueTraders,
+      lastPrice,
+      lastTradedAt,
+    },
+  });
+}
+
+/** Store the current quotes of a market's books. */
+export async function recordQuotes(
+  client: Pick<PrismaClient, "marketStats">,
+  marketId: string,
+  quotes: MarketQuotes
+): Promise<void> {
+  const values = {
+    bestBid: quotes.bestBid?.toFixed(8) ?? null,
+    bestAsk: quotes.bestAsk?.toFixed(8) ?? null,
+    spread: quotes.spread?.toFixed(8) ?? null,
+    openOrders: quotes.openOrders,
+  };
+  await client.marketStats.upsert({
+    where: { marketId },
+    create: { marketId, ...values },
+    update: values,
+  });
+}
+
+/**
+ * Recompute `volume24h` of every market that traded in the last window, so
+ * trades drop out of it once they are older than 24 hours.
+ *
+ * @returns number of markets refreshed
+ */
+export async function refreshRollingVolumes(
+  client: Pick<PrismaClient, "marketStats" | "trade">,
+  now: Date = new Date()
+): Promise<number> {
+  const since = new Date(now.getTime() - VOLUME_WINDOW_MS);
+  const stale = await client.marketStats.findMany({
+    where: { volume24h: { gt: 0 } },
+    select: { marketId: true },
+  });
+
+  for (const { marketId } of stale) {
+    const window = await client.trade.aggregate({
+      where: { marketId, tradedAt: { gte: since } },
+      _sum: { quantity: true },
+    });
+    await client.marketStats.update({
+      where: { marketId },
+      data: { volume24h: window._sum.quantity ?? 0 },
+    });
+  }
+  return stale.length;
+}
+
+/**
+ * Probability of YES implied by the market: its outcome once resolved,
+ * otherwise the mid of the best YES bid and ask, falling back to the last
+ * trade. Null when neither is available.
+ */
+export function impliedProbability(
+  market: Pick<Market, "status" | "outcome">,
+  stats: Pick<MarketWithStats, "bestBid" | "bestAsk" | "lastPrice">
+): number | null {
+  if (market.status === "RESOLVED" && market.outcome !== null) {
+    return market.outcome ? 1 : 0;
+  }
+  if (stats.bestBid !== null && stats.bestAsk !== null) {
+    return Number(((stats.bestBid + stats.bestAsk) / 2).toFixed(8));
+  }
+  return stats.lastPrice;
+}
+
+/** Market with its statistics; a market without a stats row has none yet. */
+export function toMarketWithStats(
+  market: Market & { stats?: MarketStats | null }
+): MarketWithStats {
+  const { stats, ...rest } = market;
+  const decimal = (value: Prisma.Decimal | null | undefined) =>
+    value === null || value === undefined ? null : Number(value);
+
+  const quotes = {
+    lastPrice: decimal(stats?.lastPrice),
+    bestBid: decimal(stats?.bestBid),
+    bestAsk: decimal(stats?.bestAsk),
+  };
+  return {
+    ...rest,
+    totalVolume: stats?.totalVolume ?? 0,
+    volume24h: stats?.volume24h ?? 0,
+    tradeCount: stats?.tradeCount ?? 0,
+    openOrders: stats?.openOrders ?? 0,
+    uniqueTraders: stats?.uniqueTraders ?? 0,
+    openInterest: stats?.openInterest ?? 0,
+    ...quotes,
+    lastTradedAt: stats?.lastTradedAt ?? null,
+    spread: decimal(stats?.spread),
+    impliedProbability: impliedProbability(market, quotes),
+  };
+}
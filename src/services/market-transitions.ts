@@ -0,0 +1,96 @@
+import type { Prisma } from "../generated/prisma/client";
+import { ValidationError } from "../api/middleware/errors.js";
+import type { MarketStatus, MarketStatusTransition } from "../types/index.js";
+
+/**
+ * Statuses a market may move to from each status. RESOLVED and CANCELLED
+ * are terminal; resolution corrections do not go through Market.status.
+ */
+export const MARKET_STATUS_TRANSITIONS: Record<
+  MarketStatus,
+  readonly MarketStatus[]
+> = {
+  ACTIVE: ["CLOSED", "RESOLVED", "CANCELLED"],
+  CLOSED: ["RESOLVED", "CANCELLED"],
+  RESOLVED: [],
+  CANCELLED: [],
+};
+
+export function isAllowedTransition(
+  from: MarketStatus,
+  to: MarketStatus
+): boolean {
+  return MARKET_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether moving from `from` stops trading on the market. Every edge out
+ * of ACTIVE does; a market that left ACTIVE earlier was halted then.
+ */
+export function haltsTrading(from: MarketStatus): boolean {
+  return from === "ACTIVE";
+}
+
+export interface MarketStatusChange {
+  marketId: string;
+  /** The status the caller read; the change fails if it no longer holds */
+  from: MarketStatus;
+  to: MarketStatus;
+  /** Set on the market when `to` is RESOLVED */
+  outcome?: boolean;
+  actor: string;
+  reason: string;
+  /** Resolution time of a RESOLVED market; defaults to now */
+  at?: Date;
+}
+
+/**
+ * Move a market along an allowed edge of MARKET_STATUS_TRANSITIONS inside
+ * `tx` and record the change as a MarketStatusTransition. Every status
+ * change after creation goes through here. The caller halts trading once
+ * `tx` has committed when `haltsTrading(from)` holds.
+ *
+ * @throws ValidationError if the edge is not allowed or the market is no
+ * longer in `from`
+ */
+export async function applyMarketTransition(
+  tx: Prisma.TransactionClient,
+  change: MarketStatusChange
+): Promise<MarketStatusTransition> {
+  const { marketId, from, to, outcome, actor, reason } = change;
+
+  if (!isAllowedTransition(from, to)) {
+    throw new ValidationError(`Market cannot move from ${from} to ${to}`, {
+      status: `Not allowed from ${from}`,
+    });
+  }
+
+  // Conditional on the status the caller validated against, so two writers
+  // cannot both move the market off the same status
+  const { count } = await tx.market.updateMany({
+    where: { id: marketId, status: from },
+    data: {
+      status: to,
+      ...(to === "RESOLVED"
+        ? { outcome, resolutionTime: change.at ?? new Date() }
+        : {}),
+    },
+  });
+
+  if (count === 0) {
+    throw new ValidationError(
+      `Market ${marketId} changed status concurrently; retry the request`
+    );
+  }
+
+  return tx.marketStatusTransition.create({
+    data: {
+      marketId,
+      fromStatus: from,
+      toStatus: to,
+      outcome: outcome ?? null,
+      actor,
+      reason,
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import { MetricsRegistry } from "../../packages/shared/src/metrics.js";
+
+/** Metrics of the API process, served on GET /metrics. */
+export const apiMetrics = new MetricsRegistry();
+
+export const httpRequestDuration = apiMetrics.histogram({
+  name: "vatix_http_request_duration_seconds",
+  help: "HTTP request latency by method, route pattern and status code",
+  labelNames: ["method", "route", "status_code"],
+});
+
+export const matchDuration = apiMetrics.histogram({
+  name: "vatix_match_duration_seconds",
+  help: "Time spent in matchOrder for one incoming order",
+  labelNames: ["market_id"],
+});
+
+export const tradesMatched = apiMetrics.counter({
+  name: "vatix_trades_matched_total",
+  help: "Trades committed by the matching engine",
+  labelNames: ["market_id", "outcome"],
+});
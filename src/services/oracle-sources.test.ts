@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NotFoundError, ValidationError } from "../api/middleware/errors.js";
+import {
+  createOracleSourceAlias,
+  deleteOracleSourceAlias,
+  getOracleSourceResolver,
+  listOracleReports,
+  updateOracleSourceAlias,
+} from "./oracle-sources.js";
+
+const mocks = vi.hoisted(() => ({
+  aliasFindMany: vi.fn(),
+  aliasFindUnique: vi.fn(),
+  aliasCreate: vi.fn(),
+  aliasUpdate: vi.fn(),
+  aliasDelete: vi.fn(),
+  reportFindMany: vi.fn(),
+  reportUpdateMany: vi.fn(),
+  candidateUpdateMany: vi.fn(),
+}));
+
+vi.mock("./prisma.js", () => {
+  const client = {
+    oracleSourceAlias: {
+      findMany: mocks.aliasFindMany,
+      findUnique: mocks.aliasFindUnique,
+      create: mocks.aliasCreate,
+      update: mocks.aliasUpdate,
+      delete: mocks.aliasDelete,
+    },
+    oracleReport: {
+      findMany: mocks.reportFindMany,
+      updateMany: mocks.reportUpdateMany,
+    },
+    resolutionCandidate: { updateMany: mocks.candidateUpdateMany },
+  };
+  return {
+    getPrismaClient: () => ({
+      ...client,
+      $transaction: (fn: (tx: typeof client) => Promise<unknown>) => fn(client),
+    }),
+  };
+});
+
+const alias = {
+  id: 1,
+  alias: "fallback-1",
+  canonicalSource: "PYTH",
+  createdAt: new Date("2026-07-24T00:00:00.000Z"),
+  updatedAt: new Date("2026-07-24T00:00:00.000Z"),
+};
+
+describe("oracle sources", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.reportUpdateMany.mockResolvedValue({ count: 2 });
+    mocks.candidateUpdateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe("createOracleSourceAlias", () => {
+    it("stores the normalized alias and re-labels rows stored under it", async () => {
+      mocks.aliasFindUnique.mockResolvedValue(null);
+      mocks.aliasCreate.mockResolvedValue(alias);
+
+      const change = await createOracleSourceAlias({
+        alias: " Fallback-1 ",
+        canonicalSource: "PYTH",
+      });
+
+      expect(mocks.aliasCreate).toHaveBeenCalledWith({
+        data: { alias: "fallback-1", canonicalSource: "PYTH" },
+      });
+      const where = {
+        source: { equals: "fallback-1", mode: "insensitive" },
+      };
+      expect(mocks.reportUpdateMany).toHaveBeenCalledWith({
+        where,
+        data: { canonicalSource: "PYTH" },
+      });
+      expect(mocks.candidateUpdateMany).toHaveBeenCalledWith({
+        where,
+        data: { canonicalSource: "PYTH" },
+      });
+      expect(change).toEqual({ alias, reports: 2, candidates: 1 });
+    });
+
+    it("rejects a blank alias", async () => {
+      await expect(
+        createOracleSourceAlias({ alias: "  ", canonicalSource: "PYTH" })
+      ).rejects.toBeInstanceOf(ValidationError);
+      expect(mocks.aliasCreate).not.toHaveBeenCalled();
+    });
+
+    it("rejects an alias that is already mapped", async () => {
+      mocks.aliasFindUnique.mockResolvedValue(alias);
+
+      await expect(
+        createOracleSourceAlias({ alias: "FALLBACK-1", canonicalSource: "UMA" })
+      ).rejects.toThrow('Alias "fallback-1" is already mapped to PYTH');
+      expect(mocks.aliasCreate).not.toHaveBeenCalled();
+    });
+
+    it("invalidates the cached resolver", async () => {
+      mocks.aliasFindUnique.mockResolvedValue(null);
+      mocks.aliasCreate.mockResolvedValue(alias);
+      const invalidate = vi.spyOn(getOracleSourceResolver(), "invalidate");
+
+      await createOracleSourceAlias({
+        alias: "fallback-1",
+        canonicalSource: "PYTH",
+      });
+
+      expect(invalidate).toHaveBeenCalled();
+    });
+  });
+
+  describe("updateOracleSourceAlias", () => {
+    it("re-labels rows with the new canonical source", async () => {
+      mocks.aliasFindUnique.mockResolvedValue(alias);
+      mocks.aliasUpdate.mockResolvedValue({ ...alias, canonicalSource: "UMA" });
+
+      const change = await updateOracleSourceAlias(1, "UMA");
+
+      expect(mocks.reportUpdateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { canonicalSource: "UMA" } })
+      );
+      expect(change.alias.canonicalSource).toBe("UMA");
+    });
+
+    it("throws NotFoundError for an unknown alias", async () => {
+      mocks.aliasFindUnique.mockResolvedValue(null);
+
+      await expect(updateOracleSourceAlias(9, "UMA")).rejects.toBeInstanceOf(
+        NotFoundError
+      );
+      expect(mocks.aliasUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteOracleSourceAlias", () => {
+    it("falls rows back to the source the alias names directly", async () => {
+      mocks.aliasFindUnique.mockResolvedValue({ ...alias, alias: "chainlink" });
+
+      await deleteOracleSourceAlias(1);
+
+      expect(mocks.aliasDelete).toHaveBeenCalledWith({ where: { id: 1 } });
+      expect(mocks.reportUpdateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { canonicalSource: "CHAINLINK" } })
+      );
+    });
+
+    it("clears the canonical source of rows under an arbitrary alias", async () => {
+      mocks.aliasFindUnique.mockResolvedValue(alias);
+
+      await deleteOracleSourceAlias(1);
+
+      expect(mocks.candidateUpdateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { canonicalSource: null } })
+      );
+    });
+  });
+
+  describe("listOracleReports", () => {
+    it("filters by canonical source and market", async () => {
+      mocks.reportFindMany.mockResolvedValue([]);
+
+      await listOracleReports({
+        canonicalSource: "PYTH",
+        marketId: "market-1",
+        limit: 20,
+      });
+
+      expect(mocks.reportFindMany).toHaveBeenCalledWith({
+        where: { canonicalSource: "PYTH", marketId: "market-1" },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      });
+    });
+
+    it("filters by status and stored source, case-insensitively", async () => {
+      mocks.reportFindMany.mockResolvedValue([]);
+
+      await listOracleReports({ status: "FAILED", source: "Pyth", limit: 20 });
+
+      expect(mocks.reportFindMany).toHaveBeenCalledWith({
+        where: {
+          status: "FAILED",
+          source: { equals: "Pyth", mode: "insensitive" },
+        },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      });
+    });
+  });
+});
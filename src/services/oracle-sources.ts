@@ -0,0 +1,215 @@
+import type { OracleSource, Prisma } from "../generated/prisma/client";
+import { NotFoundError, ValidationError } from "../api/middleware/errors.js";
+import {
+  OracleSourceResolver,
+  matchOracleSource,
+  normalizeAlias,
+} from "../oracle/sourceResolver.js";
+import { getPrismaClient } from "./prisma.js";
+import type {
+  OracleReport,
+  OracleReportStatus,
+  OracleSourceAlias,
+  ResolutionCandidate,
+} from "../types/index.js";
+
+export interface CreateOracleSourceAliasInput {
+  alias: string;
+  canonicalSource: OracleSource;
+}
+
+/** An alias change and the stored rows it re-labelled */
+export interface OracleSourceAliasChange {
+  alias: OracleSourceAlias;
+  /** Oracle reports whose canonicalSource was rewritten */
+  reports: number;
+  /** Resolution candidates whose canonicalSource was rewritten */
+  candidates: number;
+}
+
+export interface CanonicalSourceFilter {
+  canonicalSource?: OracleSource;
+  marketId?: string;
+  limit: number;
+}
+
+export interface OracleReportFilter extends CanonicalSourceFilter {
+  status?: OracleReportStatus;
+  /** Raw source as written, matched case-insensitively */
+  source?: string;
+}
+
+let resolver: OracleSourceResolver | null = null;
+
+/**
+ * The API process's cached alias resolver. Alias changes made through this
+ * module invalidate it; other processes see them once their own resolver's
+ * cache expires.
+ */
+export function getOracleSourceResolver(): OracleSourceResolver {
+  resolver ??= new OracleSourceResolver(getPrismaClient());
+  return resolver;
+}
+
+export async function listOracleSourceAliases(
+  canonicalSource?: OracleSource
+): Promise<OracleSourceAlias[]> {
+  return getPrismaClient().oracleSourceAlias.findMany({
+    where: canonicalSource ? { canonicalSource } : {},
+    orderBy: { alias: "asc" },
+  });
+}
+
+/**
+ * Map a new alias to a canonical source and re-label the reports and
+ * candidates already stored under it.
+ *
+ * @throws ValidationError if the alias is blank or already mapped
+ */
+export async function createOracleSourceAlias(
+  input: CreateOracleSourceAliasInput
+): Promise<OracleSourceAliasChange> {
+  const alias = normalizeAlias(input.alias);
+  if (alias === "") {
+    throw new ValidationError("alias must not be blank");
+  }
+
+  const prisma = getPrismaClient();
+  const existing = await prisma.oracleSourceAlias.findUnique({
+    where: { alias },
+  });
+  if (existing) {
+    throw new ValidationError(
+      `Alias "${alias}" is already mapped to ${existing.canonicalSource}`
+    );
+  }
+
+  const change = await prisma.$transaction(async (tx) => {
+    const created = await tx.oracleSourceAlias.create({
+      data: { alias, canonicalSource: input.canonicalSource },
+    });
+    return {
+      alias: created,
+      ...(await relabel(tx, alias, input.canonicalSource)),
+    };
+  });
+
+  getOracleSourceResolver().invalidate();
+  return change;
+}
+
+/**
+ * Point an alias at another canonical source, re-labelling the rows stored
+ * under it.
+ *
+ * @throws NotFoundError if the alias does not exist
+ */
+export async function updateOracleSourceAlias(
+  id: number,
+  canonicalSource: OracleSource
+): Promise<OracleSourceAliasChange> {
+  const prisma = getPrismaClient();
+
+  const change = await prisma.$transaction(async (tx) => {
+    const existing = await tx.oracleSourceAlias.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundError(`Oracle source alias ${id} not found`);
+    }
+
+    const updated = await tx.oracleSourceAlias.update({
+      where: { id },
+      data: { canonicalSource },
+    });
+    return {
+      alias: updated,
+      ...(await relabel(tx, existing.alias, canonicalSource)),
+    };
+  });
+
+  getOracleSourceResolver().invalidate();
+  return change;
+}
+
+/**
+ * Remove an alias. Rows stored under it fall back to the source they name
+ * directly, which is usually none.
+ *
+ * @throws NotFoundError if the alias does not exist
+ */
+export async function deleteOracleSourceAlias(
+  id: number
+): Promise<OracleSourceAliasChange> {
+  const prisma = getPrismaClient();
+
+  const change = await prisma.$transaction(async (tx) => {
+    const existing = await tx.oracleSourceAlias.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundError(`Oracle source alias ${id} not found`);
+    }
+
+    await tx.oracleSourceAlias.delete({ where: { id } });
+    return {
+      alias: existing,
+      ...(await relabel(tx, existing.alias, matchOracleSource(existing.alias))),
+    };
+  });
+
+  getOracleSourceResolver().invalidate();
+  return change;
+}
+
+/** Oracle reports, newest first, by market, status and source. */
+export async function listOracleReports(
+  filter: OracleReportFilter
+): Promise<OracleReport[]> {
+  return getPrismaClient().oracleReport.findMany({
+    where: {
+      ...canonicalSourceWhere(filter),
+      ...(filter.status ? { status: filter.status } : {}),
+      ...(filter.source
+        ? { source: { equals: filter.source, mode: "insensitive" as const } }
+        : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: filter.limit,
+  });
+}
+
+/** Resolution candidates, newest first, by canonical source and market. */
+export async function listResolutionCandidates(
+  filter: CanonicalSourceFilter
+): Promise<ResolutionCandidate[]> {
+  return getPrismaClient().resolutionCandidate.findMany({
+    where: canonicalSourceWhere(filter),
+    orderBy: { createdAt: "desc" },
+    take: filter.limit,
+  });
+}
+
+function canonicalSourceWhere(filter: CanonicalSourceFilter) {
+  return {
+    ...(filter.canonicalSource
+      ? { canonicalSource: filter.canonicalSource }
+      : {}),
+    ...(filter.marketId ? { marketId: filter.marketId } : {}),
+  };
+}
+
+/** Set canonicalSource on every report and candidate stored under `alias`. */
+async function relabel(
+  tx: Prisma.TransactionClient,
+  alias: string,
+  canonicalSource: OracleSource | null
+): Promise<{ reports: number; candidates: number }> {
+  const where = { source: { equals: alias, mode: "insensitive" as const } };
+
+  const reports = await tx.oracleReport.updateMany({
+    where,
+    data: { canonicalSource },
+  });
+  const candidates = await tx.resolutionCandidate.updateMany({
+    where,
+    data: { canonicalSource },
+  });
+  return { reports: reports.count, candidates: candidates.count };
+}
@@ -0,0 +1,440 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import {
+  cancelOracleSubmission,
+  getOracleSubmissionQueue,
+  retryOracleSubmission,
+} from "./oracle-submissions.js";
+import { NotFoundError, ValidationError } from "../api/middleware/errors.js";
+
+const mocks = vi.hoisted(() => ({
+  stream: new Map<string, string[]>(),
+  xrange: vi.fn(),
+  xinfo: vi.fn(),
+  xpending: vi.fn(),
+  xlen: vi.fn(),
+  xadd: vi.fn(),
+  xack: vi.fn(),
+  xdel: vi.fn(),
+  get: vi.fn(),
+  set: vi.fn(),
+  del: vi.fn(),
+  auditCreate: vi.fn(),
+  reportUpdateMany: vi.fn(),
+  attemptUpdateMany: vi.fn(),
+  getDeadLetter: vi.fn(),
+  listDeadLetters: vi.fn(),
+  replayDeadLetters: vi.fn(),
+  purgeDeadLetters: vi.fn(),
+}));
+
+vi.mock("./redis.js", () => ({
+  redis: {
+    prefixed: (key: string) => `vatix:${key}`,
+    xrange: mocks.xrange,
+    xinfo: mocks.xinfo,
+    xpending: mocks.xpending,
+    xlen: mocks.xlen,
+    xadd: mocks.xadd,
+    xack: mocks.xack,
+    xdel: mocks.xdel,
+    get: mocks.get,
+    set: mocks.set,
+    del: mocks.del,
+  },
+}));
+
+vi.mock("./prisma.js", () => ({
+  getPrismaClient: () => ({
+    deadLetterAudit: { create: mocks.auditCreate },
+    oracleReport: { updateMany: mocks.reportUpdateMany },
+    resolutionAttempt: { updateMany: mocks.attemptUpdateMany },
+  }),
+}));
+
+vi.mock("./dead-letters.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./dead-letters.js")>()),
+  getDeadLetter: mocks.getDeadLetter,
+  listDeadLetters: mocks.listDeadLetters,
+  replayDeadLetters: mocks.replayDeadLetters,
+  purgeDeadLetters: mocks.purgeDeadLetters,
+}));
+
+const STREAM = "vatix:oracle:submissions";
+
+function submission(marketId: string) {
+  return {
+    id: `sub-${marketId}`,
+    request: { marketId, oracleAddress: "GORACLE1" },
+    result: { outcome: true, provider: "chainlink" },
+    status: "processing",
+    enqueuedAt: "2026-07-26T00:00:00.000Z",
+    attempts: 2,
+  };
+}
+
+function addEntry(id: string, marketId: string) {
+  mocks.stream.set(id, [
+    "payload",
+    JSON.stringify(submission(marketId)),
+    "marketId",
+    marketId,
+    "payloadHash",
+    `hash-${marketId}`,
+  ]);
+}
+
+/** Consumer group that has delivered everything up to `lastDeliveredId` */
+function group(lastDeliveredId: string, pending: number, lag: number) {
+  mocks.xinfo.mockResolvedValue([
+    [
+      "name",
+      "oracle-worker",
+      "consumers",
+      1,
+      "pending",
+      pending,
+      "last-delivered-id",
+      lastDeliveredId,
+      "lag",
+      lag,
+    ],
+  ]);
+}
+
+describe("oracle submissions", () => {
+  beforeAll(() => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.stream.clear();
+    mocks.xrange.mockImplementation(
+      async (_key: string, start: string, end: string) =>
+        [...mocks.stream.entries()].filter(([id]) =>
+          start === end ? id === start : start !== `(${id}` && id > start
+        )
+    );
+    mocks.xpending.mockResolvedValue([]);
+    mocks.xlen.mockResolvedValue(0);
+    mocks.xadd.mockResolvedValue("9-0");
+    mocks.get.mockResolvedValue(null);
+    mocks.listDeadLetters.mockResolvedValue({ entries: [], nextCursor: null });
+    mocks.getDeadLetter.mockImplementation(
+      async (_queue: string, id: string) => ({
+        id,
+        queue: "oracle-submission",
+        messageId: "sub-market-3",
+        reason: "Horizon timeout",
+        payload: { submission: submission("market-3") },
+        deadLetteredAt: "2026-07-26T01:00:00.000Z",
+      })
+    );
+  });
+
+  describe("getOracleSubmissionQueue", () => {
+    it("lists undelivered entries as pending and unacknowledged ones as in flight", async () => {
+      addEntry("1-0", "market-1");
+      addEntry("2-0", "market-2");
+      group("1-0", 1, 1);
+      mocks.xpending.mockResolvedValue([["1-0", "worker-a", 4500, 3]]);
+      mocks.xlen.mockResolvedValue(4);
+
+      const queue = await getOracleSubmissionQueue({ limit: 10 });
+
+      expect(mocks.xrange).toHaveBeenCalledWith(
+        STREAM,
+        "(1-0",
+        "+",
+        "COUNT",
+        "10"
+      );
+      expect(queue).toMatchObject({ pending: 1, inFlight: 1, failed: 4 });
+      expect(queue.items).toEqual([
+        expect.objectContaining({
+          id: "2-0",
+          state: "pending",
+          marketId: "market-2",
+        }),
+        expect.objectContaining({
+          id: "1-0",
+          state: "in_flight",
+          marketId: "market-1",
+          consumer: "worker-a",
+          idleMs: 4500,
+          deliveries: 3,
+        }),
+      ]);
+    });
+
+    it("lists failed entries from the dead-letter stream", async () => {
+      group("0-0", 0, 0);
+      mocks.listDeadLetters.mockResolvedValue({
+        entries: [
+          {
+            id: "5-0",
+            queue: "oracle-submission",
+            messageId: "sub-market-3",
+            reason: "Horizon timeout",
+            payload: { submission: submission("market-3") },
+            deadLetteredAt: "2026-07-26T01:00:00.000Z",
+          },
+        ],
+        nextCursor: null,
+      });
+
+      const queue = await getOracleSubmissionQueue({
+        state: "failed",
+        limit: 10,
+      });
+
+      expect(mocks.xrange).not.toHaveBeenCalled();
+      expect(queue.items).toEqual([
+        expect.objectContaining({
+          id: "5-0",
+          state: "failed",
+          marketId: "market-3",
+          reason: "Horizon timeout",
+        }),
+      ]);
+    });
+
+    it("treats the whole stream as pending before the worker creates its group", async () => {
+      addEntry("1-0", "market-1");
+      mocks.xinfo.mockRejectedValue(new Error("ERR no such key"));
+
+      const queue = await getOracleSubmissionQueue({
+        state: "pending",
+        limit: 10,
+      });
+
+      expect(queue).toMatchObject({ pending: 1, inFlight: 0 });
+      expect(mocks.xrange).toHaveBeenCalledWith(
+        STREAM,
+        "-",
+        "+",
+        "COUNT",
+        "10"
+      );
+    });
+
+    it("filters entries by market", async () => {
+      addEntry("1-0", "market-1");
+      addEntry("2-0", "market-2");
+      group("0-0", 0, 2);
+
+      const queue = await getOracleSubmissionQueue({
+        marketId: "market-2",
+        limit: 10,
+      });
+
+      expect(queue.items.map((item) => item.id)).toEqual(["2-0"]);
+    });
+  });
+
+  describe("retryOracleSubmission", () => {
+    it("replaces an in-flight entry with a fresh one and audits the retry", async () => {
+      addEntry("1-0", "market-1");
+      group("1-0", 1, 0);
+      mocks.xpending.mockResolvedValue([["1-0", "worker-a", 90000, 5]]);
+
+      const result = await retryOracleSubmission({
+        id: "1-0",
+        actor: "ops@vatix",
+        reason: "worker stuck",
+      });
+
+      expect(result).toEqual({
+        id: "1-0",
+        state: "in_flight",
+        retriedEntryId: "9-0",
+      });
+      const payload = JSON.parse(mocks.xadd.mock.calls[0][3]);
+      expect(payload).toMatchObject({ attempts: 0, status: "pending" });
+      expect(mocks.set).toHaveBeenCalledWith(
+        "oracle:inflight:market-1",
+        "9-0",
+        86400
+      );
+      expect(mocks.xack).toHaveBeenCalledWith(STREAM, "oracle-worker", "1-0");
+      expect(mocks.xdel).toHaveBeenCalledWith(STREAM, "1-0");
+      expect(mocks.reportUpdateMany).toHaveBeenCalledWith({
+        where: {
+          idempotencyKey: "sub-market-1",
+          status: { not: "CONFIRMED" },
+        },
+        data: { status: "PENDING", attempts: 0, candidateResolution: true },
+      });
+      expect(mocks.auditCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          queue: "oracle-submission",
+          entryId: "1-0",
+          action: "RETRY",
+          actor: "ops@vatix",
+          reason: "worker stuck",
+          replayedEntryId: "9-0",
+        }),
+      });
+    });
+
+    it("replays a failed entry from the dead-letter stream", async () => {
+      mocks.replayDeadLetters.mockResolvedValue([
+        { id: "5-0", status: "REPLAYED", replayedEntryId: "9-0" },
+      ]);
+
+      const result = await retryOracleSubmission({ id: "5-0", actor: "ops" });
+
+      expect(mocks.replayDeadLetters).toHaveBeenCalledWith({
+        queue: "oracle-submission",
+        ids: ["5-0"],
+        actor: "ops",
+        reason: undefined,
+      });
+      expect(result).toEqual({
+        id: "5-0",
+        state: "failed",
+        retriedEntryId: "9-0",
+      });
+      expect(mocks.reportUpdateMany).toHaveBeenCalledWith({
+        where: {
+          idempotencyKey: "sub-market-3",
+          status: { not: "CONFIRMED" },
+        },
+        data: { status: "PENDING", attempts: 0, candidateResolution: true },
+      });
+    });
+
+    it("rejects an entry no worker has picked up yet", async () => {
+      addEntry("2-0", "market-1");
+      group("1-0", 0, 1);
+
+      await expect(
+        retryOracleSubmission({ id: "2-0", actor: "ops" })
+      ).rejects.toThrow("has not been delivered to a worker yet");
+      expect(mocks.xadd).not.toHaveBeenCalled();
+    });
+
+    it("rejects an acknowledged entry", async () => {
+      addEntry("1-0", "market-1");
+      group("1-0", 0, 0);
+
+      await expect(
+        retryOracleSubmission({ id: "1-0", actor: "ops" })
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it("rejects a failed entry whose market has another submission in flight", async () => {
+      mocks.replayDeadLetters.mockResolvedValue([
+        { id: "5-0", status: "IN_FLIGHT" },
+      ]);
+
+      await expect(
+        retryOracleSubmission({ id: "5-0", actor: "ops" })
+      ).rejects.toThrow("another submission in flight");
+    });
+
+    it("throws NotFoundError for an unknown entry", async () => {
+      mocks.replayDeadLetters.mockResolvedValue([
+        { id: "5-0", status: "NOT_FOUND" },
+      ]);
+
+      await expect(
+        retryOracleSubmission({ id: "5-0", actor: "ops" })
+      ).rejects.toBeInstanceOf(NotFoundError);
+      expect(mocks.reportUpdateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cancelOracleSubmission", () => {
+    it("removes a pending entry and releases its market", async () => {
+      addEntry("2-0", "market-1");
+      group("1-0", 0, 1);
+      mocks.get.mockResolvedValue("2-0");
+
+      const result = await cancelOracleSubmission({
+        id: "2-0",
+        actor: "ops",
+        reason: "market voided",
+      });
+
+      expect(result).toEqual({ id: "2-0", state: "pending" });
+      expect(mocks.xack).not.toHaveBeenCalled();
+      expect(mocks.xdel).toHaveBeenCalledWith(STREAM, "2-0");
+      expect(mocks.del).toHaveBeenCalledWith("oracle:inflight:market-1");
+      expect(mocks.del).toHaveBeenCalledWith(
+        "oracle:dedup:market-1:hash-market-1"
+      );
+      expect(mocks.reportUpdateMany).toHaveBeenCalledWith({
+        where: {
+          marketId: "market-1",
+          status: { in: ["PENDING", "SUBMITTED"] },
+        },
+        data: { status: "FAILED" },
+      });
+      expect(mocks.attemptUpdateMany).toHaveBeenCalledWith({
+        where: { marketId: "market-1" },
+        data: {
+          status: "PENDING",
+          nextAttemptAt: expect.any(Date),
+          lastError: "Oracle submission 2-0 cancelled: market voided",
+        },
+      });
+      expect(mocks.auditCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entryId: "2-0",
+          action: "CANCEL",
+          reason: "market voided",
+        }),
+      });
+    });
+
+    it("acknowledges an in-flight entry and keeps a lock held by a newer entry", async () => {
+      addEntry("1-0", "market-1");
+      group("1-0", 1, 0);
+      mocks.xpending.mockResolvedValue([["1-0", "worker-a", 90000, 5]]);
+      mocks.get.mockResolvedValue("3-0");
+
+      const result = await cancelOracleSubmission({
+        id: "1-0",
+        actor: "ops",
+        reason: "duplicate",
+      });
+
+      expect(result.state).toBe("in_flight");
+      expect(mocks.xack).toHaveBeenCalledWith(STREAM, "oracle-worker", "1-0");
+      expect(mocks.del).not.toHaveBeenCalledWith("oracle:inflight:market-1");
+      expect(mocks.attemptUpdateMany).not.toHaveBeenCalled();
+    });
+
+    it("purges a failed entry from the dead-letter stream", async () => {
+      mocks.purgeDeadLetters.mockResolvedValue({ purged: 1 });
+
+      const result = await cancelOracleSubmission({
+        id: "5-0",
+        actor: "ops",
+        reason: "obsolete",
+      });
+
+      expect(mocks.purgeDeadLetters).toHaveBeenCalledWith({
+        queue: "oracle-submission",
+        ids: ["5-0"],
+        actor: "ops",
+        reason: "obsolete",
+      });
+      expect(result).toEqual({ id: "5-0", state: "failed" });
+      expect(mocks.attemptUpdateMany).toHaveBeenCalledWith({
+        where: { marketId: "market-3" },
+        data: expect.objectContaining({ status: "PENDING" }),
+      });
+    });
+
+    it("throws NotFoundError for an unknown entry", async () => {
+      mocks.purgeDeadLetters.mockResolvedValue({ purged: 0 });
+
+      await expect(
+        cancelOracleSubmission({ id: "5-0", actor: "ops", reason: "x" })
+      ).rejects.toBeInstanceOf(NotFoundError);
+      expect(mocks.attemptUpdateMany).not.toHaveBeenCalled();
+    });
+  });
+});
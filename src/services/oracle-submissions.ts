@@ -0,0 +1,532 @@
+import type { Prisma } from "../generated/prisma/client";
+import { NotFoundError, ValidationError } from "../api/middleware/errors.js";
+import type { SubmissionQueueItem } from "../../apps/oracle/submission-queue.js";
+import {
+  ORACLE_SUBMISSION_STREAM,
+  deadLetterStreamKey,
+  getDeadLetter,
+  listDeadLetters,
+  oracleInFlightKey,
+  purgeDeadLetters,
+  replayDeadLetters,
+  requeueOracleSubmission,
+} from "./dead-letters.js";
+import { getPrismaClient } from "./prisma.js";
+import { redis } from "./redis.js";
+
+/** Consumer group the oracle submission worker reads with */
+const SUBMISSION_GROUP = "oracle-worker";
+const DEAD_LETTER_QUEUE = "oracle-submission";
+
+/**
+ * - pending: on the submission stream, not yet delivered to a worker
+ * - in_flight: delivered to a worker and not yet acknowledged
+ * - failed: dead-lettered after exhausting its attempts
+ */
+export const ORACLE_SUBMISSION_STATES = [
+  "pending",
+  "in_flight",
+  "failed",
+] as const;
+export type OracleSubmissionState = (typeof ORACLE_SUBMISSION_STATES)[number];
+
+export interface OracleSubmissionEntry {
+  /** Stream entry id, `<ms>-<seq>` */
+  id: string;
+  state: OracleSubmissionState;
+  marketId: string | null;
+  /** The queued item; null if the entry does not carry one */
+  submission: SubmissionQueueItem | null;
+  /** in_flight: the worker holding the entry */
+  consumer?: string;
+  /** in_flight: milliseconds since the entry was last delivered */
+  idleMs?: number;
+  /** in_flight: times the entry has been delivered */
+  deliveries?: number;
+  /** failed: the final error */
+  reason?: string;
+  /** failed: when the entry was dead-lettered */
+  deadLetteredAt?: string;
+}
+
+/** Live view of the submission queue, like SubmissionQueueSnapshot */
+export interface OracleSubmissionQueue {
+  pending: number;
+  inFlight: number;
+  failed: number;
+  items: OracleSubmissionEntry[];
+}
+
+export interface OracleSubmissionFilter {
+  state?: OracleSubmissionState;
+  marketId?: string;
+  /** Most entries listed per state */
+  limit: number;
+}
+
+export interface OracleSubmissionActionInput {
+  id: string;
+  actor: string;
+  reason?: string;
+}
+
+export interface OracleSubmissionRetryResult {
+  id: string;
+  /** State of the entry before the retry */
+  state: OracleSubmissionState;
+  /** Id of the new entry on the submission stream */
+  retriedEntryId: string;
+}
+
+export interface OracleSubmissionCancelResult {
+  id: string;
+  /** State of the entry before it was cancelled */
+  state: OracleSubmissionState;
+}
+
+interface SubmissionGroup {
+  /** Entries delivered and not yet acknowledged */
+  pending: number;
+  /** Entries not yet delivered; null if Redis cannot tell */
+  lag: number | null;
+  lastDeliveredId: string;
+}
+
+function streamKey(): string {
+  return redis.prefixed(ORACLE_SUBMISSION_STREAM);
+}
+
+function toRecord(fields: unknown[]): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    record[String(fields[i])] = fields[i + 1];
+  }
+  return record;
+}
+
+function parseSubmission(payload: unknown): SubmissionQueueItem | null {
+  if (typeof payload !== "string") return null;
+  try {
+    return JSON.parse(payload) as SubmissionQueueItem;
+  } catch {
+    return null;
+  }
+}
+
+/** Orders `<ms>-<seq>` stream ids. */
+function compareStreamIds(a: string, b: string): number {
+  const [aMs, aSeq] = a.split("-").map(BigInt);
+  const [bMs, bSeq] = b.split("-").map(BigInt);
+  if (aMs !== bMs) return aMs < bMs ? -1 : 1;
+  if (aSeq !== bSeq) return aSeq < bSeq ? -1 : 1;
+  return 0;
+}
+
+/** The worker's consumer group, or null before the queue is initialized. */
+async function getSubmissionGroup(): Promise<SubmissionGroup | null> {
+  let groups: unknown[][];
+  try {
+    groups = await redis.xinfo("GROUPS", streamKey());
+  } catch (error) {
+    // XINFO fails on a stream that does not exist yet
+    if (error instanceof Error && /no such key/i.test(error.message)) {
+      return null;
+    }
+    throw error;
+  }
+
+  const group = groups.map(toRecord).find((g) => g.name === SUBMISSION_GROUP);
+  if (!group) return null;
+
+  return {
+    pending: Number(group.pending ?? 0),
+    lag: typeof group.lag === "number" ? group.lag : null,
+    lastDeliveredId: String(group["last-delivered-id"] ?? "0-0"),
+  };
+}
+
+function toEntry(
+  [id, fields]: [string, string[]],
+  state: OracleSubmissionState
+): OracleSubmissionEntry {
+  const values = toRecord(fields);
+  const submission = parseSubmission(values.payload);
+  return {
+    id,
+    state,
+    marketId:
+      typeof values.marketId === "string"
+        ? values.marketId
+        : (submission?.request?.marketId ?? null),
+    submission,
+  };
+}
+
+async function readStreamEntry(id: string): Promise<[string, string[]] | null> {
+  const [raw] = await redis.xrange(streamKey(), id, id);
+  return raw ?? null;
+}
+
+async function readInFlight(
+  group: SubmissionGroup,
+  limit: number
+): Promise<OracleSubmissionEntry[]> {
+  if (group.pending === 0) return [];
+
+  const delivered = await redis.xpending(
+    streamKey(),
+    SUBMISSION_GROUP,
+    "-",
+    "+",
+    limit
+  );
+  const entries: OracleSubmissionEntry[] = [];
+  for (const [id, consumer, idleMs, deliveries] of delivered) {
+    const raw = await readStreamEntry(id);
+    entries.push({
+      ...(raw
+        ? toEntry(raw, "in_flight")
+        : { id, state: "in_flight", marketId: null, submission: null }),
+      consumer,
+      idleMs: Number(idleMs),
+      deliveries: Number(deliveries),
+    });
+  }
+  return entries;
+}
+
+/**
+ * The submission queue: counts per state and the entries of the requested
+ * state (all states by default), pending and in-flight entries in queue
+ * order, failed ones newest first. The market filter is applied after
+ * reading, so a state may list fewer than `limit` entries.
+ */
+export async function getOracleSubmissionQueue(
+  filter: OracleSubmissionFilter
+): Promise<OracleSubmissionQueue> {
+  const { state, marketId, limit } = filter;
+  const group = await getSubmissionGroup();
+  const wants = (s: OracleSubmissionState) => !state || state === s;
+
+  const items: OracleSubmissionEntry[] = [];
+  let pendingListed = 0;
+
+  if (wants("pending")) {
+    // Without a group nothing has been delivered yet
+    const start = group ? `(${group.lastDeliveredId}` : "-";
+    const raw = await redis.xrange(
+      streamKey(),
+      start,
+      "+",
+      "COUNT",
+      String(limit)
+    );
+    pendingListed = raw.length;
+    items.push(...raw.map((r) => toEntry(r, "pending")));
+  }
+
+  if (wants("in_flight") && group) {
+    items.push(...(await readInFlight(group, limit)));
+  }
+
+  if (wants("failed")) {
+    const { entries } = await listDeadLetters({
+      queue: DEAD_LETTER_QUEUE,
+      limit,
+    });
+    items.push(
+      ...entries.map((entry): OracleSubmissionEntry => {
+        const submission =
+          (entry.payload as { submission?: SubmissionQueueItem } | null)
+            ?.submission ?? null;
+        return {
+          id: entry.id,
+          state: "failed",
+          marketId: submission?.request?.marketId ?? null,
+          submission,
+          reason: entry.reason,
+          deadLetteredAt: entry.deadLetteredAt,
+        };
+      })
+    );
+  }
+
+  return {
+    pending: group?.lag ?? pendingListed,
+    inFlight: group?.pending ?? 0,
+    failed: await redis.xlen(deadLetterStreamKey(DEAD_LETTER_QUEUE)),
+    items: marketId
+      ? items.filter((item) => item.marketId === marketId)
+      : items,
+  };
+}
+
+/** State of an entry still on the submission stream; null once acknowledged. */
+async function streamEntryState(
+  id: string
+): Promise<"pending" | "in_flight" | null> {
+  const group = await getSubmissionGroup();
+  if (!group || compareStreamIds(id, group.lastDeliveredId) > 0) {
+    return "pending";
+  }
+  const delivered = await redis.xpending(
+    streamKey(),
+    SUBMISSION_GROUP,
+    id,
+    id,
+    1
+  );
+  return delivered.length > 0 ? "in_flight" : null;
+}
+
+async function audit(
+  action: "RETRY" | "CANCEL",
+  input: OracleSubmissionActionInput,
+  [id, fields]: [string, string[]],
+  replayedEntryId?: string
+): Promise<void> {
+  await getPrismaClient().deadLetterAudit.create({
+    data: {
+      queue: DEAD_LETTER_QUEUE,
+      entryId: id,
+      action,
+      actor: input.actor,
+      reason: input.reason,
+      entry: { id, fields: toRecord(fields) } as Prisma.InputJsonObject,
+      replayedEntryId,
+    },
+  });
+}
+
+/** The submission a dead letter carries; null if it is gone or carries none */
+async function readDeadLetterSubmission(
+  id: string
+): Promise<SubmissionQueueItem | null> {
+  try {
+    const entry = await getDeadLetter(DEAD_LETTER_QUEUE, id);
+    return (
+      (entry.payload as { submission?: SubmissionQueueItem } | null)
+        ?.submission ?? null
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Put the requeued submission's OracleReport back to PENDING with a fresh
+ * attempt count, unless it was confirmed. Reports are keyed by the
+ * submission's ID, so other reports of the market are left alone.
+ */
+async function markReportsRequeued(
+  submission: SubmissionQueueItem
+): Promise<void> {
+  await getPrismaClient().oracleReport.updateMany({
+    where: { idempotencyKey: submission.id, status: { not: "CONFIRMED" } },
+    data: {
+      status: "PENDING",
+      attempts: 0,
+      candidateResolution: submission.result.outcome,
+    },
+  });
+}
+
+/**
+ * Fail the market's unconfirmed OracleReports and make its
+ * ResolutionAttempt due again, so the resolution scheduler asks the
+ * providers on its next run instead of treating the market as submitted.
+ * Only called when no other submission of the market is queued.
+ */
+async function releaseMarket(
+  marketId: string,
+  input: OracleSubmissionActionInput & { reason: string }
+): Promise<void> {
+  const prisma = getPrismaClient();
+  await prisma.oracleReport.updateMany({
+    where: { marketId, status: { in: ["PENDING", "SUBMITTED"] } },
+    data: { status: "FAILED" },
+  });
+  await prisma.resolutionAttempt.updateMany({
+    where: { marketId },
+    data: {
+      status: "PENDING",
+      nextAttemptAt: new Date(),
+      lastError: `Oracle submission ${input.id} cancelled: ${input.reason}`,
+    },
+  });
+}
+
+/**
+ * Give an in-flight or failed submission a fresh set of attempts. An
+ * in-flight entry is acknowledged and replaced by a new entry at the end
+ * of the stream; a failed one is replayed from the dead-letter stream.
+ * The market's unconfirmed OracleReports go back to PENDING. Meant for
+ * entries a worker is stuck on: a worker still processing the old entry
+ * is not stopped.
+ *
+ * @throws NotFoundError if the entry is on neither stream
+ * @throws ValidationError if the entry is still pending, was already
+ * processed, or cannot be replayed
+ */
+export async function retryOracleSubmission(
+  input: OracleSubmissionActionInput
+): Promise<OracleSubmissionRetryResult> {
+  const { id, actor, reason } = input;
+
+  const raw = await readStreamEntry(id);
+  if (!raw) {
+    const submission = await readDeadLetterSubmission(id);
+    const [replay] = await replayDeadLetters({
+      queue: DEAD_LETTER_QUEUE,
+      ids: [id],
+      actor,
+      reason,
+    });
+    switch (replay.status) {
+      case "REPLAYED":
+        if (submission) await markReportsRequeued(submission);
+        return {
+          id,
+          state: "failed",
+          retriedEntryId: replay.replayedEntryId ?? "",
+        };
+      case "NOT_FOUND":
+        throw new NotFoundError(`Oracle submission ${id} not found`);
+      case "IN_FLIGHT":
+        throw new ValidationError(
+          `Oracle submission ${id} cannot be retried while its market has another submission in flight`
+        );
+      default:
+        throw new ValidationError(
+          `Oracle submission ${id} does not carry a submission that can be retried`
+        );
+    }
+  }
+
+  const state = await streamEntryState(id);
+  if (state === null) {
+    throw new ValidationError(`Oracle submission ${id} was already processed`);
+  }
+  if (state === "pending") {
+    throw new ValidationError(
+      `Oracle submission ${id} has not been delivered to a worker yet`
+    );
+  }
+
+  const entry = toEntry(raw, state);
+  if (!entry.submission || !entry.marketId) {
+    throw new ValidationError(
+      `Oracle submission ${id} does not carry a submission that can be retried`
+    );
+  }
+
+  const retriedEntryId = await requeueOracleSubmission(
+    entry.submission,
+    entry.marketId
+  );
+  if (!retriedEntryId) {
+    throw new Error(`Failed to requeue oracle submission ${id}`);
+  }
+  await redis.xack(streamKey(), SUBMISSION_GROUP, id);
+  await redis.xdel(streamKey(), id);
+  await markReportsRequeued(entry.submission);
+  await audit("RETRY", input, raw, retriedEntryId);
+
+  console.info(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "info",
+      component: "oracle-submissions",
+      message: "Oracle submission retried",
+      id,
+      retriedEntryId,
+      marketId: entry.marketId,
+      actor,
+    })
+  );
+
+  return { id, state, retriedEntryId };
+}
+
+/**
+ * Drop a pending, in-flight or failed submission. A stream entry is
+ * removed and the market's in-flight lock released, so a new resolution
+ * can be queued; a failed one is purged from the dead-letter stream. The
+ * market's unconfirmed OracleReports are marked FAILED and its
+ * ResolutionAttempt is due again right away, unless a newer submission of
+ * the market is queued. A worker already submitting an in-flight entry is
+ * not stopped.
+ *
+ * @throws NotFoundError if the entry is on neither stream
+ * @throws ValidationError if the entry was already processed
+ */
+export async function cancelOracleSubmission(
+  input: OracleSubmissionActionInput & { reason: string }
+): Promise<OracleSubmissionCancelResult> {
+  const { id, actor, reason } = input;
+
+  const raw = await readStreamEntry(id);
+  if (!raw) {
+    const submission = await readDeadLetterSubmission(id);
+    const { purged } = await purgeDeadLetters({
+      queue: DEAD_LETTER_QUEUE,
+      ids: [id],
+      actor,
+      reason,
+    });
+    if (purged === 0) {
+      throw new NotFoundError(`Oracle submission ${id} not found`);
+    }
+    const marketId = submission?.request?.marketId;
+    if (marketId && !(await redis.get(oracleInFlightKey(marketId)))) {
+      await releaseMarket(marketId, input);
+    }
+    return { id, state: "failed" };
+  }
+
+  const state = await streamEntryState(id);
+  if (state === null) {
+    throw new ValidationError(`Oracle submission ${id} was already processed`);
+  }
+
+  const values = toRecord(raw[1]);
+  const entry = toEntry(raw, state);
+
+  if (state === "in_flight") {
+    await redis.xack(streamKey(), SUBMISSION_GROUP, id);
+  }
+  await redis.xdel(streamKey(), id);
+
+  if (entry.marketId) {
+    // Only release the lock if it still belongs to this entry
+    const lockKey = oracleInFlightKey(entry.marketId);
+    const lockHolder = await redis.get(lockKey);
+    if (lockHolder === id) {
+      await redis.del(lockKey);
+    }
+    if (typeof values.payloadHash === "string") {
+      await redis.del(`oracle:dedup:${entry.marketId}:${values.payloadHash}`);
+    }
+    // A newer entry for the market still carries its resolution
+    if (lockHolder === null || lockHolder === id) {
+      await releaseMarket(entry.marketId, input);
+    }
+  }
+  await audit("CANCEL", input, raw);
+
+  console.info(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "info",
+      component: "oracle-submissions",
+      message: "Oracle submission cancelled",
+      id,
+      state,
+      marketId: entry.marketId,
+      actor,
+    })
+  );
+
+  return { id, state };
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "../generated/prisma/client";
+import {
+  MAX_POSITION_REPAIR_BATCH,
+  repairPositionDrift,
+  toPositionDriftSummary,
+} from "./position-drift.js";
+
+const mocks = vi.hoisted(() => ({
+  driftFindUnique: vi.fn(),
+  driftUpdate: vi.fn(),
+  positionFindUnique: vi.fn(),
+  positionUpsert: vi.fn(),
+}));
+
+vi.mock("./prisma.js", () => {
+  const tx = {
+    positionDrift: {
+      findUnique: mocks.driftFindUnique,
+      update: mocks.driftUpdate,
+    },
+    userPosition: {
+      findUnique: mocks.positionFindUnique,
+      upsert: mocks.positionUpsert,
+    },
+  };
+  return {
+    getPrismaClient: () => ({
+      $transaction: (fn: (client: typeof tx) => Promise<unknown>) => fn(tx),
+    }),
+  };
+});
+
+const drift = {
+  id: "drift-1",
+  marketId: "market-1",
+  userAddress: "GWALLET",
+  expectedYesShares: 10,
+  actualYesShares: 20,
+  expectedNoShares: 0,
+  actualNoShares: 0,
+  expectedLockedCollateral: new Prisma.Decimal("6"),
+  actualLockedCollateral: new Prisma.Decimal("6"),
+  depositedCollateral: new Prisma.Decimal("5"),
+  detectedAt: new Date("2026-07-18T10:00:00.000Z"),
+  lastSeenAt: new Date("2026-07-18T11:00:00.000Z"),
+  resolvedAt: null,
+  repairedAt: null,
+  repairedBy: null,
+  repairReason: null,
+};
+
+describe("position drift", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "info").mockImplementation(() => {});
+  });
+
+  describe("toPositionDriftSummary", () => {
+    it("flags locked collateral above the wallet's deposits", () => {
+      expect(toPositionDriftSummary(drift)).toMatchObject({
+        expected: { yesShares: 10, noShares: 0, lockedCollateral: "6" },
+        actual: { yesShares: 20, noShares: 0, lockedCollateral: "6" },
+        depositedCollateral: "5",
+        exceedsDeposits: true,
+        resolvedAt: null,
+      });
+    });
+  });
+
+  describe("repairPositionDrift", () => {
+    it("overwrites an unchanged position and records who approved it", async () => {
+      mocks.driftFindUnique.mockResolvedValue(drift);
+      mocks.positionFindUnique.mockResolvedValue({
+        yesShares: 20,
+        noShares: 0,
+        lockedCollateral: new Prisma.Decimal("6"),
+      });
+
+      const results = await repairPositionDrift({
+        ids: ["drift-1"],
+        actor: "ops@vatix",
+        reason: "indexer double-count",
+      });
+
+      expect(results).toEqual([{ id: "drift-1", status: "REPAIRED" }]);
+      expect(mocks.positionUpsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: {
+            yesShares: 10,
+            noShares: 0,
+            lockedCollateral: drift.expectedLockedCollateral,
+          },
+        })
+      );
+      expect(mocks.driftUpdate).toHaveBeenCalledWith({
+        where: { id: "drift-1" },
+        data: expect.objectContaining({
+          repairedBy: "ops@vatix",
+          repairReason: "indexer double-count",
+        }),
+      });
+    });
+
+    it("skips a position that changed since the drift was recorded", async () => {
+      mocks.driftFindUnique.mockResolvedValue(drift);
+      mocks.positionFindUnique.mockResolvedValue({
+        yesShares: 25,
+        noShares: 0,
+        lockedCollateral: new Prisma.Decimal("6"),
+      });
+
+      const results = await repairPositionDrift({
+        ids: ["drift-1"],
+        actor: "ops@vatix",
+        reason: "indexer double-count",
+      });
+
+      expect(results).toEqual([{ id: "drift-1", status: "STALE" }]);
+      expect(mocks.positionUpsert).not.toHaveBeenCalled();
+    });
+
+    it("reports resolved and unknown drift rows without touching positions", async () => {
+      mocks.driftFindUnique
+        .mockResolvedValueOnce({ ...drift, resolvedAt: new Date() })
+        .mockResolvedValueOnce(null);
+
+      const results = await repairPositionDrift({
+        ids: ["drift-1", "drift-2"],
+        actor: "ops@vatix",
+        reason: "cleanup",
+      });
+
+      expect(results).toEqual([
+        { id: "drift-1", status: "ALREADY_RESOLVED" },
+        { id: "drift-2", status: "NOT_FOUND" },
+      ]);
+      expect(mocks.positionUpsert).not.toHaveBeenCalled();
+    });
+
+    it("rejects batches above the limit", async () => {
+      const ids = Array.from(
+        { length: MAX_POSITION_REPAIR_BATCH + 1 },
+        (_, i) => `drift-${i}`
+      );
+
+      await expect(
+        repairPositionDrift({ ids, actor: "ops@vatix", reason: "bulk" })
+      ).rejects.toThrow(`At most ${MAX_POSITION_REPAIR_BATCH}`);
+    });
+  });
+});
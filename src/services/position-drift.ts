@@ -0,0 +1,192 @@
+import { getPrismaClient } from "./prisma.js";
+import { ValidationError } from "../api/middleware/errors.js";
+import type { PositionDrift } from "../types/index.js";
+
+/** Upper bound on drift rows repaired in one request. */
+export const MAX_POSITION_REPAIR_BATCH = 500;
+
+export interface PositionValues {
+  yesShares: number;
+  noShares: number;
+  lockedCollateral: string;
+}
+
+export interface PositionDriftSummary {
+  id: string;
+  marketId: string;
+  userAddress: string;
+  expected: PositionValues;
+  actual: PositionValues;
+  depositedCollateral: string;
+  /** The recomputed locked collateral is more than the wallet deposited */
+  exceedsDeposits: boolean;
+  detectedAt: string;
+  lastSeenAt: string;
+  resolvedAt: string | null;
+  repairedAt: string | null;
+  repairedBy: string | null;
+  repairReason: string | null;
+}
+
+export interface PositionDriftFilter {
+  marketId?: string;
+  userAddress?: string;
+  /** Include drift that was repaired or went away on its own */
+  includeResolved: boolean;
+  limit: number;
+}
+
+/**
+ * Outcome of repairing one drift row:
+ * - REPAIRED: the position was overwritten with the recomputed values
+ * - STALE: the position changed since the drift was recorded; the next
+ *   reconciliation run records it again if it still drifts
+ * - ALREADY_RESOLVED: the drift was repaired or went away on its own
+ * - NOT_FOUND: no such drift row
+ */
+export type PositionRepairStatus =
+  "REPAIRED" | "STALE" | "ALREADY_RESOLVED" | "NOT_FOUND";
+
+export interface PositionRepairResult {
+  id: string;
+  status: PositionRepairStatus;
+}
+
+export interface RepairPositionDriftInput {
+  ids: string[];
+  actor: string;
+  reason: string;
+}
+
+export function toPositionDriftSummary(
+  row: PositionDrift
+): PositionDriftSummary {
+  return {
+    id: row.id,
+    marketId: row.marketId,
+    userAddress: row.userAddress,
+    expected: {
+      yesShares: row.expectedYesShares,
+      noShares: row.expectedNoShares,
+      lockedCollateral: row.expectedLockedCollateral.toString(),
+    },
+    actual: {
+      yesShares: row.actualYesShares,
+      noShares: row.actualNoShares,
+      lockedCollateral: row.actualLockedCollateral.toString(),
+    },
+    depositedCollateral: row.depositedCollateral.toString(),
+    exceedsDeposits: row.expectedLockedCollateral.gt(row.depositedCollateral),
+    detectedAt: row.detectedAt.toISOString(),
+    lastSeenAt: row.lastSeenAt.toISOString(),
+    resolvedAt: row.resolvedAt?.toISOString() ?? null,
+    repairedAt: row.repairedAt?.toISOString() ?? null,
+    repairedBy: row.repairedBy,
+    repairReason: row.repairReason,
+  };
+}
+
+/** Drifting positions recorded by the reconciliation worker, newest first. */
+export async function getPositionDrift(
+  filter: PositionDriftFilter
+): Promise<PositionDriftSummary[]> {
+  const prisma = getPrismaClient();
+
+  const rows = await prisma.positionDrift.findMany({
+    where: {
+      ...(filter.marketId ? { marketId: filter.marketId } : {}),
+      ...(filter.userAddress ? { userAddress: filter.userAddress } : {}),
+      ...(filter.includeResolved ? {} : { resolvedAt: null }),
+    },
+    orderBy: { detectedAt: "desc" },
+    take: filter.limit,
+  });
+
+  return rows.map(toPositionDriftSummary);
+}
+
+/**
+ * Overwrite drifting positions with the values the reconciliation worker
+ * recomputed. A position is only overwritten if it still holds the values
+ * the worker saw, so a trade applied since then is never lost.
+ *
+ * @throws ValidationError if more than MAX_POSITION_REPAIR_BATCH ids are given
+ */
+export async function repairPositionDrift(
+  input: RepairPositionDriftInput
+): Promise<PositionRepairResult[]> {
+  const { ids, actor, reason } = input;
+  if (ids.length > MAX_POSITION_REPAIR_BATCH) {
+    throw new ValidationError(
+      `At most ${MAX_POSITION_REPAIR_BATCH} positions can be repaired at once`,
+      { ids: `Must contain at most ${MAX_POSITION_REPAIR_BATCH} entries` }
+    );
+  }
+
+  const prisma = getPrismaClient();
+  const results: PositionRepairResult[] = [];
+
+  for (const id of new Set(ids)) {
+    const status = await prisma.$transaction(
+      async (tx): Promise<PositionRepairStatus> => {
+        const drift = await tx.positionDrift.findUnique({ where: { id } });
+        if (!drift) return "NOT_FOUND";
+        if (drift.resolvedAt) return "ALREADY_RESOLVED";
+
+        const where = {
+          marketId_userAddress: {
+            marketId: drift.marketId,
+            userAddress: drift.userAddress,
+          },
+        };
+        const position = await tx.userPosition.findUnique({ where });
+        const unchanged =
+          (position?.yesShares ?? 0) === drift.actualYesShares &&
+          (position?.noShares ?? 0) === drift.actualNoShares &&
+          drift.actualLockedCollateral.eq(position?.lockedCollateral ?? 0);
+        if (!unchanged) return "STALE";
+
+        const values = {
+          yesShares: drift.expectedYesShares,
+          noShares: drift.expectedNoShares,
+          lockedCollateral: drift.expectedLockedCollateral,
+        };
+        await tx.userPosition.upsert({
+          where,
+          create: {
+            marketId: drift.marketId,
+            userAddress: drift.userAddress,
+            ...values,
+          },
+          update: values,
+        });
+        const now = new Date();
+        await tx.positionDrift.update({
+          where: { id },
+          data: {
+            resolvedAt: now,
+            repairedAt: now,
+            repairedBy: actor,
+            repairReason: reason,
+          },
+        });
+        return "REPAIRED";
+      }
+    );
+    results.push({ id, status });
+  }
+
+  console.info(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "info",
+      component: "position-drift",
+      message: "Position drift repaired",
+      actor,
+      requested: results.length,
+      repaired: results.filter((r) => r.status === "REPAIRED").length,
+    })
+  );
+
+  return results;
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import {
+  computePayout,
+  computeRealizedPnl,
+  subtractAmounts,
+} from "./position-payouts.js";
+
+describe("position payouts", () => {
+  it("pays one unit per winning share", () => {
+    expect(computePayout(30, 10, true)).toBe("30.00000000");
+    expect(computePayout(30, 10, false)).toBe("10.00000000");
+  });
+
+  it("subtracts the cost basis for realized PnL", () => {
+    expect(computeRealizedPnl(30, 0, "18.5", true)).toBe("11.50000000");
+    expect(computeRealizedPnl(30, 0, "18.5", false)).toBe("-18.50000000");
+  });
+
+  it("keeps eight decimal places through subtraction", () => {
+    expect(subtractAmounts("10.00000000", "30.00000000")).toBe("-20.00000000");
+    expect(subtractAmounts("0.00000001", "0")).toBe("0.00000001");
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Payout and realized PnL of a settled position. A binary share pays out 1
+ * unit of collateral if its outcome wins and 0 if it loses; the cost basis
+ * is the position's locked collateral.
+ *
+ * Amounts are 8-decimal fixed-point strings. Arithmetic is done in integer
+ * stroops (1e8) to avoid floating-point drift.
+ */
+
+const PRECISION = 100_000_000n; // 1e8
+
+function toStroops(amount: string): bigint {
+  const negative = amount.startsWith("-");
+  const [whole, frac = ""] = (negative ? amount.slice(1) : amount).split(".");
+  const stroops =
+    BigInt(whole) * PRECISION + BigInt(frac.padEnd(8, "0").slice(0, 8));
+  return negative ? -stroops : stroops;
+}
+
+function fromStroops(stroops: bigint): string {
+  const sign = stroops < 0n ? "-" : "";
+  const abs = stroops < 0n ? -stroops : stroops;
+  const fracOut = (abs % PRECISION).toString().padStart(8, "0");
+  return `${sign}${abs / PRECISION}.${fracOut}`;
+}
+
+/**
+ * Collateral paid out to a position when the market resolves.
+ *
+ * @param outcome - true = YES won, false = NO won
+ */
+export function computePayout(
+  yesShares: number,
+  noShares: number,
+  outcome: boolean
+): string {
+  return fromStroops(BigInt(outcome ? yesShares : noShares) * PRECISION);
+}
+
+/**
+ * Realized PnL of a settled position:
+ *
+ *   pnlRealized = winningShares * 1 - lockedCollateral
+ *
+ * @param outcome - true = YES won, false = NO won
+ */
+export function computeRealizedPnl(
+  yesShares: number,
+  noShares: number,
+  lockedCollateral: string,
+  outcome: boolean
+): string {
+  return fromStroops(
+    toStroops(computePayout(yesShares, noShares, outcome)) -
+      toStroops(lockedCollateral)
+  );
+}
+
+/** Difference `to - from` of two 8-decimal amounts. */
+export function subtractAmounts(to: string, from: string): string {
+  return fromStroops(toStroops(to) - toStroops(from));
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from "vitest";
+import { Prisma } from "../generated/prisma/client";
+import type { PrismaClient } from "../generated/prisma/client";
+import {
+  findMarketPositionDrift,
+  getReconciledMarketIds,
+} from "./position-reconciliation.js";
+
+const BUYER = "GBUYER";
+const SELLER = "GSELLER";
+
+function clobTrade(overrides: Record<string, unknown> = {}) {
+  return {
+    outcome: "YES",
+    buyerAddress: BUYER,
+    sellerAddress: SELLER,
+    buyOrderId: "buy-1",
+    sellOrderId: "sell-1",
+    price: new Prisma.Decimal("0.6"),
+    quantity: 10,
+    matchType: "DIRECT",
+    ...overrides,
+  };
+}
+
+function chainTrade(overrides: Record<string, unknown> = {}) {
+  return {
+    traderAddress: BUYER,
+    counterpartyAddress: SELLER,
+    direction: "buy",
+    outcome: "YES",
+    quantityRaw: "10",
+    buyOrderId: "buy-1",
+    sellOrderId: "sell-1",
+    ...overrides,
+  };
+}
+
+function position(
+  userAddress: string,
+  yesShares: number,
+  lockedCollateral: string
+) {
+  return {
+    userAddress,
+    yesShares,
+    noShares: 0,
+    lockedCollateral: new Prisma.Decimal(lockedCollateral),
+  };
+}
+
+function makeClient(data: {
+  trades?: unknown[];
+  indexed?: unknown[];
+  positions?: unknown[];
+  deposits?: unknown[];
+}) {
+  return {
+    trade: { findMany: vi.fn().mockResolvedValue(data.trades ?? []) },
+    indexedTrade: { findMany: vi.fn().mockResolvedValue(data.indexed ?? []) },
+    userPosition: { findMany: vi.fn().mockResolvedValue(data.positions ?? []) },
+    collateralDeposit: {
+      findMany: vi.fn().mockResolvedValue(data.deposits ?? []),
+    },
+  } as unknown as PrismaClient;
+}
+
+describe("getReconciledMarketIds", () => {
+  it("merges markets with positions or trades on either side", async () => {
+    const client = {
+      userPosition: {
+        findMany: vi.fn().mockResolvedValue([{ marketId: "m-2" }]),
+      },
+      trade: {
+        findMany: vi
+          .fn()
+          .mockResolvedValue([{ marketId: "m-1" }, { marketId: "m-2" }]),
+      },
+      indexedTrade: {
+        findMany: vi.fn().mockResolvedValue([{ marketId: "m-3" }]),
+      },
+    } as unknown as PrismaClient;
+
+    expect(await getReconciledMarketIds(client)).toEqual(["m-1", "m-2", "m-3"]);
+  });
+});
+
+describe("findMarketPositionDrift", () => {
+  it("reports no drift when positions match the CLOB trades", async () => {
+    const client = makeClient({
+      trades: [clobTrade()],
+      indexed: [chainTrade()],
+      positions: [position(BUYER, 10, "6"), position(SELLER, -10, "-6")],
+    });
+
+    const result = await findMarketPositionDrift(client, "market-1");
+
+    expect(result).toEqual({ positions: 2, drift: [] });
+  });
+
+  it("flags positions that counted the chain settlement of a CLOB trade again", async () => {
+    const client = makeClient({
+      trades: [clobTrade()],
+      indexed: [chainTrade()],
+      positions: [position(BUYER, 20, "6"), position(SELLER, -10, "-6")],
+      deposits: [{ account: BUYER, amountRaw: "50000000" }],
+    });
+
+    const { drift } = await findMarketPositionDrift(client, "market-1");
+
+    expect(drift).toHaveLength(1);
+    expect(drift[0].userAddress).toBe(BUYER);
+    expect(drift[0].expected.yesShares).toBe(10);
+    expect(drift[0].actual.yesShares).toBe(20);
+    expect(drift[0].depositedCollateral.toString()).toBe("5");
+  });
+
+  it("counts chain trades without a CLOB trade the way the indexer applies them", async () => {
+    const client = makeClient({
+      indexed: [chainTrade({ direction: "sell", quantityRaw: "4" })],
+      positions: [position(BUYER, -4, "0"), position(SELLER, 4, "0")],
+    });
+
+    const { drift } = await findMarketPositionDrift(client, "market-1");
+
+    expect(drift).toEqual([]);
+  });
+
+  it("only charges the buyer of a MINT trade", async () => {
+    const client = makeClient({
+      trades: [
+        clobTrade({ matchType: "MINT", price: new Prisma.Decimal("0.35") }),
+      ],
+      positions: [position(SELLER, 0, "0")],
+    });
+
+    const { drift } = await findMarketPositionDrift(client, "market-1");
+
+    expect(drift).toHaveLength(1);
+    expect(drift[0]).toMatchObject({ userAddress: BUYER });
+    expect(drift[0].expected.yesShares).toBe(10);
+    expect(drift[0].expected.lockedCollateral.toString()).toBe("3.5");
+    expect(drift[0].actual.yesShares).toBe(0);
+  });
+});
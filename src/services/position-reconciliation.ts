@@ -0,0 +1,202 @@
+import { Prisma } from "../generated/prisma/client";
+import type { PrismaClient } from "../generated/prisma/client";
+import { collateralCost, fromRawAmount } from "./collateral-ledger.js";
+
+type ReconciliationClient = Pick<
+  PrismaClient,
+  "trade" | "indexedTrade" | "userPosition" | "collateralDeposit"
+>;
+
+/** The `UserPosition` fields reconciliation checks. */
+export interface PositionSnapshot {
+  yesShares: number;
+  noShares: number;
+  lockedCollateral: Prisma.Decimal;
+}
+
+export interface PositionDriftFinding {
+  marketId: string;
+  userAddress: string;
+  /** Recomputed from trades */
+  expected: PositionSnapshot;
+  /** Stored in `UserPosition`; zero when the wallet has no row */
+  actual: PositionSnapshot;
+  /** Collateral the wallet deposited on chain for the market */
+  depositedCollateral: Prisma.Decimal;
+}
+
+export interface MarketPositionDrift {
+  /** Wallets with a stored or recomputed position in the market */
+  positions: number;
+  drift: PositionDriftFinding[];
+}
+
+const ZERO = new Prisma.Decimal(0);
+
+function emptyPosition(): PositionSnapshot {
+  return { yesShares: 0, noShares: 0, lockedCollateral: ZERO };
+}
+
+function positionsEqual(a: PositionSnapshot, b: PositionSnapshot): boolean {
+  return (
+    a.yesShares === b.yesShares &&
+    a.noShares === b.noShares &&
+    a.lockedCollateral.eq(b.lockedCollateral)
+  );
+}
+
+/** Markets that have stored positions or trades on either side. */
+export async function getReconciledMarketIds(
+  client: ReconciliationClient
+): Promise<string[]> {
+  const [positions, trades, indexed] = await Promise.all([
+    client.userPosition.findMany({
+      distinct: ["marketId"],
+      select: { marketId: true },
+    }),
+    client.trade.findMany({
+      distinct: ["marketId"],
+      select: { marketId: true },
+    }),
+    client.indexedTrade.findMany({
+      distinct: ["marketId"],
+      select: { marketId: true },
+    }),
+  ]);
+  return [
+    ...new Set([...positions, ...trades, ...indexed].map((r) => r.marketId)),
+  ].sort();
+}
+
+/**
+ * Recompute every wallet's position in a market and return the ones whose
+ * `UserPosition` row disagrees.
+ *
+ * CLOB trades move shares and locked collateral the way `MatchingService`
+ * does: the buyer gains shares and locks price × quantity, the seller gives
+ * up both, and MINT/MERGE trades only touch their buyer/seller. An indexed
+ * chain trade whose order pair has a CLOB trade is the settlement of that
+ * trade and is not counted again; any other chain trade moves shares the way
+ * the indexer applies it, without locking collateral.
+ */
+export async function findMarketPositionDrift(
+  client: ReconciliationClient,
+  marketId: string
+): Promise<MarketPositionDrift> {
+  const [trades, indexed, stored, deposits] = await Promise.all([
+    client.trade.findMany({
+      where: { marketId },
+      select: {
+        outcome: true,
+        buyerAddress: true,
+        sellerAddress: true,
+        buyOrderId: true,
+        sellOrderId: true,
+        price: true,
+        quantity: true,
+        matchType: true,
+      },
+    }),
+    client.indexedTrade.findMany({
+      where: { marketId },
+      select: {
+        traderAddress: true,
+        counterpartyAddress: true,
+        direction: true,
+        outcome: true,
+        quantityRaw: true,
+        buyOrderId: true,
+        sellOrderId: true,
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    client.userPosition.findMany({ where: { marketId } }),
+    client.collateralDeposit.findMany({
+      where: { marketId },
+      select: { account: true, amountRaw: true },
+    }),
+  ]);
+
+  const expected = new Map<string, PositionSnapshot>();
+  const apply = (
+    userAddress: string,
+    outcome: string,
+    shares: number,
+    collateral: Prisma.Decimal
+  ) => {
+    const position = expected.get(userAddress) ?? emptyPosition();
+    if (outcome === "YES") position.yesShares += shares;
+    else position.noShares += shares;
+    position.lockedCollateral = position.lockedCollateral.plus(collateral);
+    expected.set(userAddress, position);
+  };
+
+  const clobPairs = new Map<string, number>();
+  for (const trade of trades) {
+    const pair = `${trade.buyOrderId}:${trade.sellOrderId}`;
+    clobPairs.set(pair, (clobPairs.get(pair) ?? 0) + 1);
+
+    const cost = collateralCost(Number(trade.price), trade.quantity);
+    if (trade.matchType !== "MERGE") {
+      apply(trade.buyerAddress, trade.outcome, trade.quantity, cost);
+    }
+    if (trade.matchType !== "MINT") {
+      apply(trade.sellerAddress, trade.outcome, -trade.quantity, cost.neg());
+    }
+  }
+
+  for (const trade of indexed) {
+    const pair = `${trade.buyOrderId}:${trade.sellOrderId}`;
+    const unmatched = clobPairs.get(pair) ?? 0;
+    if (unmatched > 0) {
+      clobPairs.set(pair, unmatched - 1);
+      continue;
+    }
+    // Same guard as the indexer: malformed quantities never moved a position
+    const quantity = Number(trade.quantityRaw);
+    if (!Number.isFinite(quantity) || quantity <= 0) continue;
+    const traderShares = trade.direction === "buy" ? quantity : -quantity;
+    apply(trade.traderAddress, trade.outcome, traderShares, ZERO);
+    apply(trade.counterpartyAddress, trade.outcome, -traderShares, ZERO);
+  }
+
+  const deposited = new Map<string, Prisma.Decimal>();
+  for (const deposit of deposits) {
+    deposited.set(
+      deposit.account,
+      (deposited.get(deposit.account) ?? ZERO).plus(
+        fromRawAmount(deposit.amountRaw)
+      )
+    );
+  }
+
+  const actual = new Map<string, PositionSnapshot>(
+    stored.map((row) => [
+      row.userAddress,
+      {
+        yesShares: row.yesShares,
+        noShares: row.noShares,
+        lockedCollateral: new Prisma.Decimal(row.lockedCollateral.toString()),
+      },
+    ])
+  );
+
+  const wallets = [...new Set([...expected.keys(), ...actual.keys()])].sort();
+  const drift: PositionDriftFinding[] = [];
+  for (const userAddress of wallets) {
+    const want = expected.get(userAddress) ?? emptyPosition();
+    // UserPosition stores locked collateral with 8 decimals
+    want.lockedCollateral = want.lockedCollateral.toDecimalPlaces(8);
+    const have = actual.get(userAddress) ?? emptyPosition();
+    if (positionsEqual(want, have)) continue;
+    drift.push({
+      marketId,
+      userAddress,
+      expected: want,
+      actual: have,
+      depositedCollateral: deposited.get(userAddress) ?? ZERO,
+    });
+  }
+
+  return { positions: wallets.length, drift };
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from "vitest";
+import { Prisma } from "../generated/prisma/client";
+import type { PrismaClient } from "../generated/prisma/client";
+import {
+  buildMarketSnapshot,
+  buildPortfolioHistory,
+  getYesMarkPrice,
+} from "./position-snapshots.js";
+
+const BUYER = "GBUYER";
+const SELLER = "GSELLER";
+const SNAPSHOT_AT = new Date("2026-07-19T10:00:00.000Z");
+
+function makeClient(data: {
+  market?: { status: string; outcome: boolean | null };
+  book?: unknown[];
+  lastTrade?: unknown;
+  trades?: unknown[];
+  indexed?: unknown[];
+  positions?: unknown[];
+}) {
+  return {
+    market: {
+      findUnique: vi
+        .fn()
+        .mockResolvedValue(data.market ?? { status: "ACTIVE", outcome: null }),
+    },
+    order: { groupBy: vi.fn().mockResolvedValue(data.book ?? []) },
+    trade: {
+      findFirst: vi.fn().mockResolvedValue(data.lastTrade ?? null),
+      findMany: vi.fn().mockResolvedValue(data.trades ?? []),
+    },
+    indexedTrade: { findMany: vi.fn().mockResolvedValue(data.indexed ?? []) },
+    userPosition: { findMany: vi.fn().mockResolvedValue(data.positions ?? []) },
+  } as unknown as PrismaClient;
+}
+
+const book = [
+  { marketId: "market-1", side: "SELL", _min: { price: "0.8" }, _max: {} },
+  { marketId: "market-1", side: "BUY", _min: {}, _max: { price: "0.6" } },
+];
+
+const trade = {
+  outcome: "YES",
+  buyerAddress: BUYER,
+  sellerAddress: SELLER,
+  buyOrderId: "buy-1",
+  sellOrderId: "sell-1",
+  price: new Prisma.Decimal("0.6"),
+  quantity: 10,
+  matchType: "DIRECT",
+};
+
+describe("getYesMarkPrice", () => {
+  it("prices a resolved market at its outcome", async () => {
+    const client = makeClient({
+      market: { status: "RESOLVED", outcome: false },
+      book,
+    });
+
+    expect(await getYesMarkPrice(client, "market-1")).toBe(0);
+  });
+
+  it("falls back to the last trade when the book is empty", async () => {
+    const client = makeClient({
+      lastTrade: { outcome: "NO", price: new Prisma.Decimal("0.25") },
+    });
+
+    expect(await getYesMarkPrice(client, "market-1")).toBe(0.75);
+  });
+});
+
+describe("buildMarketSnapshot", () => {
+  it("values each held outcome at the book mid against its cost basis", async () => {
+    const client = makeClient({
+      book,
+      trades: [trade],
+      positions: [
+        { userAddress: BUYER, yesShares: 10, noShares: 0 },
+        { userAddress: SELLER, yesShares: -10, noShares: 0 },
+      ],
+    });
+
+    const rows = await buildMarketSnapshot(client, "market-1", SNAPSHOT_AT);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      walletAddress: BUYER,
+      outcome: "YES",
+      quantity: 10,
+      snapshotAt: SNAPSHOT_AT,
+    });
+    expect(rows[0].markPrice?.toString()).toBe("0.7");
+    expect(rows[0].valuation?.toString()).toBe("7");
+    expect(rows[0].costBasis?.toString()).toBe("6");
+    expect(rows[1].costBasis?.toString()).toBe("-6");
+  });
+
+  it("values positions at cost when the market cannot be priced", async () => {
+    const client = makeClient({
+      market: { status: "CANCELLED", outcome: null },
+      trades: [trade],
+      positions: [{ userAddress: BUYER, yesShares: 10, noShares: 0 }],
+    });
+
+    const [row] = await buildMarketSnapshot(client, "market-1", SNAPSHOT_AT);
+
+    expect(row.markPrice).toBeNull();
+    expect(row.valuation?.toString()).toBe("6");
+  });
+});
+
+describe("buildPortfolioHistory", () => {
+  it("sums markets into one point per snapshot, oldest first", () => {
+    const row = (
+      marketId: string,
+      at: string,
+      valuation: string,
+      costBasis: string,
+      markPrice: string | null = "0.5"
+    ) => ({
+      marketId,
+      snapshotAt: new Date(at),
+      valuation: new Prisma.Decimal(valuation),
+      costBasis: new Prisma.Decimal(costBasis),
+      markPrice: markPrice === null ? null : new Prisma.Decimal(markPrice),
+    });
+
+    const points = buildPortfolioHistory([
+      row("market-2", "2026-07-19T11:00:00.000Z", "3", "3", null),
+      row("market-1", "2026-07-19T10:00:00.000Z", "5", "4"),
+      row("market-1", "2026-07-19T11:00:00.000Z", "6", "4"),
+    ]);
+
+    expect(points).toHaveLength(2);
+    expect(points[0]).toMatchObject({
+      snapshotAt: "2026-07-19T10:00:00.000Z",
+      value: "5.00000000",
+      pnl: "1.00000000",
+    });
+    expect(points[1]).toMatchObject({
+      value: "9.00000000",
+      costBasis: "7.00000000",
+      pnl: "2.00000000",
+    });
+    expect(points[1].markets.map((m) => [m.marketId, m.priced])).toEqual([
+      ["market-1", true],
+      ["market-2", false],
+    ]);
+  });
+});
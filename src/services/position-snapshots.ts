@@ -0,0 +1,312 @@
+import { Prisma } from "../generated/prisma/client";
+import type { Position, PrismaClient } from "../generated/prisma/client";
+import { collateralCost } from "./collateral-ledger.js";
+
+type SnapshotClient = Pick<
+  PrismaClient,
+  "market" | "order" | "trade" | "indexedTrade" | "userPosition"
+>;
+
+type SnapshotOutcome = "YES" | "NO";
+
+/** Net collateral a wallet paid for each outcome of a market. */
+interface CostBasis {
+  YES: Prisma.Decimal;
+  NO: Prisma.Decimal;
+}
+
+export interface PortfolioMarketPoint {
+  marketId: string;
+  value: string;
+  costBasis: string;
+  pnl: string;
+  /** False when a holding could not be priced and was valued at cost */
+  priced: boolean;
+}
+
+export interface PortfolioHistoryPoint {
+  snapshotAt: string;
+  value: string;
+  costBasis: string;
+  pnl: string;
+  markets: PortfolioMarketPoint[];
+}
+
+type SnapshotRow = Pick<
+  Position,
+  "marketId" | "valuation" | "costBasis" | "markPrice" | "snapshotAt"
+>;
+
+const ZERO = new Prisma.Decimal(0);
+
+/** Chain prices are scaled by 10^7 */
+const CHAIN_PRICE_SCALE = 10_000_000;
+
+/**
+ * Mid of the best YES bid and ask resting in each market's book, or the
+ * best bid or ask alone when only one side has orders. Null when the book
+ * is empty.
+ */
+export async function getYesMidPrices(
+  client: Pick<PrismaClient, "order">,
+  marketIds: string[]
+): Promise<Map<string, number | null>> {
+  const orderGroups =
+    marketIds.length > 0
+      ? await (client as any).order.groupBy({
+          by: ["marketId", "side"],
+          where: {
+            marketId: { in: marketIds },
+            status: { in: ["OPEN", "PARTIALLY_FILLED"] },
+            outcome: "YES",
+          },
+          _min: { price: true },
+          _max: { price: true },
+        })
+      : [];
+
+  const midPriceMap = new Map<string, number | null>();
+  for (const marketId of marketIds) {
+    const ask = orderGroups.find(
+      (g: any) => g.marketId === marketId && g.side === "SELL"
+    );
+    const bid = orderGroups.find(
+      (g: any) => g.marketId === marketId && g.side === "BUY"
+    );
+    const askPrice = ask?._min?.price ? Number(ask._min.price) : null;
+    const bidPrice = bid?._max?.price ? Number(bid._max.price) : null;
+    if (askPrice !== null && bidPrice !== null) {
+      midPriceMap.set(marketId, (askPrice + bidPrice) / 2);
+    } else if (askPrice !== null) {
+      midPriceMap.set(marketId, askPrice);
+    } else if (bidPrice !== null) {
+      midPriceMap.set(marketId, bidPrice);
+    } else {
+      midPriceMap.set(marketId, null);
+    }
+  }
+  return midPriceMap;
+}
+
+/**
+ * Price of a YES share used to value positions in a market:
+ * - RESOLVED: 1 if YES won, 0 if NO won
+ * - CANCELLED: null, as positions are refunded at cost
+ * - otherwise the book's YES mid price, falling back to the last trade
+ * Null when none of these is available.
+ */
+export async function getYesMarkPrice(
+  client: Pick<PrismaClient, "market" | "order" | "trade">,
+  marketId: string
+): Promise<number | null> {
+  const market = await client.market.findUnique({
+    where: { id: marketId },
+    select: { status: true, outcome: true },
+  });
+  if (!market || market.status === "CANCELLED") return null;
+  if (market.status === "RESOLVED" && market.outcome !== null) {
+    return market.outcome ? 1 : 0;
+  }
+
+  const mid = (await getYesMidPrices(client, [marketId])).get(marketId);
+  if (mid !== null && mid !== undefined) return mid;
+
+  const last = await client.trade.findFirst({
+    where: { marketId },
+    orderBy: { createdAt: "desc" },
+    select: { outcome: true, price: true },
+  });
+  if (!last) return null;
+  const price = Number(last.price);
+  return last.outcome === "YES" ? price : 1 - price;
+}
+
+/**
+ * Net collateral each wallet paid per outcome of a market. CLOB trades
+ * count the way they move collateral; chain trades without a CLOB trade
+ * for their order pair count at their chain price.
+ */
+async function getCostBases(
+  client: Pick<PrismaClient, "trade" | "indexedTrade">,
+  marketId: string
+): Promise<Map<string, CostBasis>> {
+  const [trades, indexed] = await Promise.all([
+    client.trade.findMany({
+      where: { marketId },
+      select: {
+        outcome: true,
+        buyerAddress: true,
+        sellerAddress: true,
+        buyOrderId: true,
+        sellOrderId: true,
+        price: true,
+        quantity: true,
+        matchType: true,
+      },
+    }),
+    client.indexedTrade.findMany({
+      where: { marketId },
+      select: {
+        traderAddress: true,
+        counterpartyAddress: true,
+        direction: true,
+        outcome: true,
+        priceRaw: true,
+        quantityRaw: true,
+        buyOrderId: true,
+        sellOrderId: true,
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  const costs = new Map<string, CostBasis>();
+  const apply = (wallet: string, outcome: string, amount: Prisma.Decimal) => {
+    const cost = costs.get(wallet) ?? { YES: ZERO, NO: ZERO };
+    const key: SnapshotOutcome = outcome === "YES" ? "YES" : "NO";
+    cost[key] = cost[key].plus(amount);
+    costs.set(wallet, cost);
+  };
+
+  const clobPairs = new Map<string, number>();
+  for (const trade of trades) {
+    const pair = `${trade.buyOrderId}:${trade.sellOrderId}`;
+    clobPairs.set(pair, (clobPairs.get(pair) ?? 0) + 1);
+
+    const cost = collateralCost(Number(trade.price), trade.quantity);
+    if (trade.matchType !== "MERGE") {
+      apply(trade.buyerAddress, trade.outcome, cost);
+    }
+    if (trade.matchType !== "MINT") {
+      apply(trade.sellerAddress, trade.outcome, cost.neg());
+    }
+  }
+
+  for (const trade of indexed) {
+    const pair = `${trade.buyOrderId}:${trade.sellOrderId}`;
+    const unmatched = clobPairs.get(pair) ?? 0;
+    if (unmatched > 0) {
+      clobPairs.set(pair, unmatched - 1);
+      continue;
+    }
+    const quantity = Number(trade.quantityRaw);
+    const price = Number(trade.priceRaw) / CHAIN_PRICE_SCALE;
+    if (!Number.isFinite(quantity) || quantity <= 0 || !Number.isFinite(price))
+      continue;
+    const cost = collateralCost(price, quantity);
+    const traderCost = trade.direction === "buy" ? cost : cost.neg();
+    apply(trade.traderAddress, trade.outcome, traderCost);
+    apply(trade.counterpartyAddress, trade.outcome, traderCost.neg());
+  }
+
+  return costs;
+}
+
+/**
+ * Value every wallet's position in a market at its mark price and return
+ * the `Position` rows of one snapshot: one per outcome the wallet holds
+ * shares of or has a cost basis in.
+ */
+export async function buildMarketSnapshot(
+  client: SnapshotClient,
+  marketId: string,
+  snapshotAt: Date
+): Promise<Prisma.PositionCreateManyInput[]> {
+  const positions = await client.userPosition.findMany({
+    where: { marketId },
+    select: { userAddress: true, yesShares: true, noShares: true },
+  });
+  if (positions.length === 0) return [];
+
+  const [yesPrice, costs] = await Promise.all([
+    getYesMarkPrice(client, marketId),
+    getCostBases(client, marketId),
+  ]);
+
+  const rows: Prisma.PositionCreateManyInput[] = [];
+  for (const position of positions) {
+    const cost = costs.get(position.userAddress) ?? { YES: ZERO, NO: ZERO };
+    const holdings: [SnapshotOutcome, number, number | null][] = [
+      ["YES", position.yesShares, yesPrice],
+      ["NO", position.noShares, yesPrice === null ? null : 1 - yesPrice],
+    ];
+    for (const [outcome, quantity, price] of holdings) {
+      const costBasis = cost[outcome].toDecimalPlaces(8);
+      if (quantity === 0 && costBasis.isZero()) continue;
+      const markPrice =
+        price === null ? null : new Prisma.Decimal(price).toDecimalPlaces(8);
+      rows.push({
+        walletAddress: position.userAddress,
+        marketId,
+        outcome,
+        quantity,
+        markPrice,
+        valuation: markPrice
+          ? markPrice.times(quantity).toDecimalPlaces(8)
+          : costBasis,
+        costBasis,
+        snapshotAt,
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Group a wallet's `Position` rows into one point per snapshot, with the
+ * value, cost basis and PnL of each market and of the whole portfolio.
+ * Amounts are collateral units with 8 decimal places.
+ */
+export function buildPortfolioHistory(
+  rows: SnapshotRow[]
+): PortfolioHistoryPoint[] {
+  const snapshots = new Map<
+    number,
+    Map<
+      string,
+      { value: Prisma.Decimal; cost: Prisma.Decimal; priced: boolean }
+    >
+  >();
+  for (const row of rows) {
+    const at = row.snapshotAt.getTime();
+    const markets = snapshots.get(at) ?? new Map();
+    const market = markets.get(row.marketId) ?? {
+      value: ZERO,
+      cost: ZERO,
+      priced: true,
+    };
+    market.value = market.value.plus(row.valuation.toString());
+    market.cost = market.cost.plus(row.costBasis.toString());
+    market.priced = market.priced && row.markPrice !== null;
+    markets.set(row.marketId, market);
+    snapshots.set(at, markets);
+  }
+
+  return [...snapshots.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([at, markets]) => {
+      let value = ZERO;
+      let cost = ZERO;
+      const points: PortfolioMarketPoint[] = [];
+      for (const [marketId, market] of [...markets.entries()].sort(([a], [b]) =>
+        a.localeCompare(b)
+      )) {
+        value = value.plus(market.value);
+        cost = cost.plus(market.cost);
+        points.push({
+          marketId,
+          value: market.value.toFixed(8),
+          costBasis: market.cost.toFixed(8),
+          pnl: market.value.minus(market.cost).toFixed(8),
+          priced: market.priced,
+        });
+      }
+      return {
+        snapshotAt: new Date(at).toISOString(),
+        value: value.toFixed(8),
+        costBasis: cost.toFixed(8),
+        pnl: value.minus(cost).toFixed(8),
+        markets: points,
+      };
+    });
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import { Keypair } from "@stellar/stellar-sdk";
+import { getOrderReceipts, issueReceipts, verifyReceipt } from "./receipts.js";
+import { signingService } from "./signing.js";
+import { NotFoundError, ValidationError } from "../api/middleware/errors.js";
+import type { Trade } from "../matching/engine.js";
+
+const mocks = vi.hoisted(() => ({
+  receiptCreateMany: vi.fn(),
+  receiptFindUnique: vi.fn(),
+  receiptFindMany: vi.fn(),
+  tradeFindMany: vi.fn(),
+}));
+
+vi.mock("./prisma.js", () => ({
+  getPrismaClient: () => ({
+    receipt: {
+      findUnique: mocks.receiptFindUnique,
+      findMany: mocks.receiptFindMany,
+    },
+    trade: { findMany: mocks.tradeFindMany },
+  }),
+}));
+
+const operatorKey = Keypair.random();
+
+const order = {
+  orderId: "order-1",
+  marketId: "market-1",
+  userAddress: "GBUYER",
+  side: "BUY" as const,
+  outcome: "YES" as const,
+  price: 0.6,
+  quantity: 10,
+  timestamp: 1_700_000_000_000,
+};
+
+const trade: Trade = {
+  id: "trade-1",
+  marketId: "market-1",
+  outcome: "YES",
+  buyerAddress: "GBUYER",
+  sellerAddress: "GSELLER",
+  buyOrderId: "order-1",
+  sellOrderId: "order-0",
+  price: 0.55,
+  quantity: 10,
+  timestamp: 1_700_000_000_000,
+};
+
+describe("receipts", () => {
+  beforeAll(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    process.env.ORACLE_SECRET_KEY = operatorKey.secret();
+    signingService.initialize();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("issueReceipts", () => {
+    it("signs and persists the order and each trade", async () => {
+      const { receipt, tradeReceipts } = await issueReceipts(
+        { receipt: { createMany: mocks.receiptCreateMany } } as never,
+        order,
+        [trade]
+      );
+
+      expect(signingService.verifyOrderReceipt(receipt).isValid).toBe(true);
+      expect(tradeReceipts[0].tradeData).toMatchObject({
+        tradeId: "trade-1",
+        matchType: "DIRECT",
+      });
+      expect(signingService.verifyTradeReceipt(tradeReceipts[0]).isValid).toBe(
+        true
+      );
+      expect(mocks.receiptCreateMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            kind: "ORDER",
+            subjectId: "order-1",
+            payload: order,
+            publicKey: operatorKey.publicKey(),
+          }),
+          expect.objectContaining({
+            kind: "TRADE",
+            subjectId: "trade-1",
+            signature: tradeReceipts[0].signature,
+          }),
+        ],
+      });
+    });
+  });
+
+  describe("getOrderReceipts", () => {
+    it("returns the order receipt with its trade receipts", async () => {
+      mocks.receiptFindUnique.mockResolvedValue({
+        payload: order,
+        signature: "sig-order",
+        publicKey: operatorKey.publicKey(),
+      });
+      mocks.tradeFindMany.mockResolvedValue([{ tradeId: "trade-1" }]);
+      mocks.receiptFindMany.mockResolvedValue([
+        {
+          payload: { tradeId: "trade-1" },
+          signature: "sig-trade",
+          publicKey: operatorKey.publicKey(),
+        },
+      ]);
+
+      const receipts = await getOrderReceipts("order-1");
+
+      expect(receipts.order).toEqual({
+        orderData: order,
+        signature: "sig-order",
+        publicKey: operatorKey.publicKey(),
+      });
+      expect(receipts.trades).toHaveLength(1);
+      expect(mocks.receiptFindMany).toHaveBeenCalledWith({
+        where: { kind: "TRADE", subjectId: { in: ["trade-1"] } },
+        orderBy: { createdAt: "asc" },
+      });
+    });
+
+    it("throws NotFoundError for an order without a receipt", async () => {
+      mocks.receiptFindUnique.mockResolvedValue(null);
+
+      await expect(getOrderReceipts("missing")).rejects.toBeInstanceOf(
+        NotFoundError
+      );
+      expect(mocks.tradeFindMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("verifyReceipt", () => {
+    it("flags a valid signature from another key", () => {
+      const other = Keypair.random();
+      const signature = other
+        .sign(Buffer.from(JSON.stringify(order), "utf8"))
+        .toString("base64");
+
+      expect(
+        verifyReceipt({
+          orderData: order,
+          signature,
+          publicKey: other.publicKey(),
+        })
+      ).toEqual({ isValid: true, error: undefined, isOperatorKey: false });
+    });
+
+    it("requires exactly one of orderData and tradeData", () => {
+      expect(() =>
+        verifyReceipt({ signature: "sig", publicKey: operatorKey.publicKey() })
+      ).toThrow(ValidationError);
+    });
+  });
+});
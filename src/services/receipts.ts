@@ -0,0 +1,188 @@
+import type { Prisma } from "../generated/prisma/client";
+import type { Trade } from "../matching/engine.js";
+import { NotFoundError, ValidationError } from "../api/middleware/errors.js";
+import { getPrismaClient } from "./prisma.js";
+import { signingService } from "./signing.js";
+import type {
+  OrderData,
+  Receipt,
+  SignedOrderReceipt,
+  SignedTradeReceipt,
+  TradeData,
+  VerificationResult,
+} from "../types/index.js";
+
+type ReceiptClient = Pick<Prisma.TransactionClient, "receipt">;
+
+/** Receipts issued for one accepted order. */
+export interface IssuedReceipts {
+  receipt: SignedOrderReceipt;
+  /** One per trade the order produced, in match order */
+  tradeReceipts: SignedTradeReceipt[];
+}
+
+/** An order's receipt and the receipts of every trade it took part in. */
+export interface OrderReceipts {
+  order: SignedOrderReceipt;
+  trades: SignedTradeReceipt[];
+}
+
+/** A receipt submitted for verification; exactly one data field is set. */
+export interface ReceiptToVerify {
+  orderData?: OrderData;
+  tradeData?: TradeData;
+  signature: string;
+  publicKey: string;
+}
+
+export interface ReceiptVerificationResult extends VerificationResult {
+  /** Whether the receipt was signed by this operator's current key */
+  isOperatorKey: boolean;
+}
+
+/** The fields of a matched trade that its receipt attests to. */
+export function toTradeData(trade: Trade): TradeData {
+  return {
+    tradeId: trade.id,
+    marketId: trade.marketId,
+    outcome: trade.outcome,
+    buyerAddress: trade.buyerAddress,
+    sellerAddress: trade.sellerAddress,
+    buyOrderId: trade.buyOrderId,
+    sellOrderId: trade.sellOrderId,
+    price: trade.price,
+    quantity: trade.quantity,
+    matchType: trade.matchType ?? "DIRECT",
+    timestamp: trade.timestamp,
+  };
+}
+
+/**
+ * Sign receipts for an accepted order and the trades it produced, and
+ * persist them with `client`. Called inside the order's transaction so an
+ * order is never committed without its receipts.
+ *
+ * @throws Error if the signing service was not initialized
+ */
+export async function issueReceipts(
+  client: ReceiptClient,
+  order: OrderData & { marketId: string },
+  trades: Trade[]
+): Promise<IssuedReceipts> {
+  const receipt = signingService.signOrderReceipt(order);
+  const tradeReceipts = trades.map((trade) =>
+    signingService.signTradeReceipt(toTradeData(trade))
+  );
+
+  await client.receipt.createMany({
+    data: [
+      {
+        kind: "ORDER",
+        subjectId: order.orderId,
+        marketId: order.marketId,
+        payload: { ...receipt.orderData },
+        signature: receipt.signature,
+        publicKey: receipt.publicKey,
+      },
+      ...tradeReceipts.map((tradeReceipt): Prisma.ReceiptCreateManyInput => ({
+        kind: "TRADE",
+        subjectId: tradeReceipt.tradeData.tradeId,
+        marketId: tradeReceipt.tradeData.marketId,
+        payload: { ...tradeReceipt.tradeData },
+        signature: tradeReceipt.signature,
+        publicKey: tradeReceipt.publicKey,
+      })),
+    ],
+  });
+
+  return { receipt, tradeReceipts };
+}
+
+function toSignedOrderReceipt(row: Receipt): SignedOrderReceipt {
+  return {
+    orderData: row.payload as unknown as OrderData,
+    signature: row.signature,
+    publicKey: row.publicKey,
+  };
+}
+
+function toSignedTradeReceipt(row: Receipt): SignedTradeReceipt {
+  return {
+    tradeData: row.payload as unknown as TradeData,
+    signature: row.signature,
+    publicKey: row.publicKey,
+  };
+}
+
+/**
+ * Load the stored receipt of an order together with the receipts of every
+ * trade that filled it, as taker or as maker.
+ *
+ * @throws NotFoundError if no receipt was issued for the order
+ */
+export async function getOrderReceipts(
+  orderId: string
+): Promise<OrderReceipts> {
+  const prisma = getPrismaClient();
+
+  const orderReceipt = await prisma.receipt.findUnique({
+    where: { kind_subjectId: { kind: "ORDER", subjectId: orderId } },
+  });
+  if (!orderReceipt) {
+    throw new NotFoundError(`No receipt found for order ${orderId}`);
+  }
+
+  const trades = await prisma.trade.findMany({
+    where: { OR: [{ buyOrderId: orderId }, { sellOrderId: orderId }] },
+    select: { tradeId: true },
+  });
+
+  const tradeReceipts =
+    trades.length > 0
+      ? await prisma.receipt.findMany({
+          where: {
+            kind: "TRADE",
+            subjectId: { in: trades.map((t) => t.tradeId) },
+          },
+          orderBy: { createdAt: "asc" },
+        })
+      : [];
+
+  return {
+    order: toSignedOrderReceipt(orderReceipt),
+    trades: tradeReceipts.map(toSignedTradeReceipt),
+  };
+}
+
+/**
+ * Check a receipt's signature and whether it came from the operator key
+ * this server signs with. A valid signature from another key proves nothing
+ * about what this matcher accepted.
+ *
+ * @throws ValidationError unless exactly one of orderData and tradeData is set
+ */
+export function verifyReceipt(
+  receipt: ReceiptToVerify
+): ReceiptVerificationResult {
+  const { orderData, tradeData, signature, publicKey } = receipt;
+
+  if ((orderData === undefined) === (tradeData === undefined)) {
+    throw new ValidationError(
+      "Provide exactly one of orderData and tradeData",
+      { receipt: "Must contain either orderData or tradeData" }
+    );
+  }
+
+  const result = orderData
+    ? signingService.verifyOrderReceipt({ orderData, signature, publicKey })
+    : signingService.verifyTradeReceipt({
+        tradeData: tradeData as TradeData,
+        signature,
+        publicKey,
+      });
+
+  return {
+    ...result,
+    isOperatorKey: publicKey === signingService.getPublicKey(),
+  };
+}
@@ -418,6 +418,18 @@ class RedisService {
     }
   }
 
+  /**
+   * Delete entries from a Redis Stream
+   */
+  async xdel(key: string, ...ids: string[]): Promise<number> {
+    try {
+      return await this.getClient().xdel(key, ...ids);
+    } catch (error) {
+      console.error({ service: "redis", key, err: error }, "Redis XDEL failed");
+      throw error;
+    }
+  }
+
   /**
    * Read from a consumer group (blocking)
    */
@@ -492,11 +504,11 @@ class RedisService {
   }
 
   /**
-   * Get stream info
+   * Get stream info, or the info of the stream's consumer groups
    */
-  async xinfo(subcommand: "STREAM", key: string): Promise<any> {
+  async xinfo(subcommand: "STREAM" | "GROUPS", key: string): Promise<any> {
     try {
-      return await this.getClient().xinfo(subcommand, key);
+      return await (this.getClient().xinfo as any)(subcommand, key);
     } catch (error) {
       console.error(
         { service: "redis", key, err: error },
@@ -505,6 +517,46 @@ class RedisService {
       throw error;
     }
   }
+
+  /**
+   * Number of entries in a stream (0 if it does not exist)
+   */
+  async xlen(key: string): Promise<number> {
+    try {
+      return await this.getClient().xlen(key);
+    } catch (error) {
+      console.error({ service: "redis", key, err: error }, "Redis XLEN failed");
+      throw error;
+    }
+  }
+
+  /**
+   * Entries delivered to a consumer group but not yet acknowledged, as
+   * [id, consumer, idleMs, deliveries] tuples
+   */
+  async xpending(
+    key: string,
+    groupName: string,
+    start: string,
+    end: string,
+    count: number
+  ): Promise<Array<[string, string, number, number]>> {
+    try {
+      return await (this.getClient().xpending as any)(
+        key,
+        groupName,
+        start,
+        end,
+        count
+      );
+    } catch (error) {
+      console.error(
+        { service: "redis", key, err: error },
+        "Redis XPENDING failed"
+      );
+      throw error;
+    }
+  }
 }
 
 /**
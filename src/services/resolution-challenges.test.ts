@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  adjudicateChallenge,
+  challengeResolution,
+} from "./resolution-challenges.js";
+import { NotFoundError, ValidationError } from "../api/middleware/errors.js";
+
+const mocks = vi.hoisted(() => {
+  const tx = {
+    resolutionCandidate: { updateMany: vi.fn() },
+    resolutionChallenge: { create: vi.fn(), update: vi.fn() },
+    resolution: { create: vi.fn() },
+    market: { updateMany: vi.fn() },
+    marketStatusTransition: { create: vi.fn() },
+    userPosition: { updateMany: vi.fn() },
+    resolutionAttempt: { updateMany: vi.fn() },
+  };
+  return {
+    tx,
+    marketFindUnique: vi.fn(),
+    candidateFindFirst: vi.fn(),
+    challengeFindUnique: vi.fn(),
+  };
+});
+
+vi.mock("./prisma.js", () => ({
+  getPrismaClient: () => ({
+    market: { findUnique: mocks.marketFindUnique },
+    resolutionCandidate: { findFirst: mocks.candidateFindFirst },
+    resolutionChallenge: { findUnique: mocks.challengeFindUnique },
+    $transaction: (fn: (tx: typeof mocks.tx) => Promise<unknown>) =>
+      fn(mocks.tx),
+  }),
+}));
+
+vi.mock("../config.js", () => ({
+  config: { oracle: { challengeWindowSeconds: 3600 } },
+}));
+
+vi.mock("../matching/matching-service.js", () => ({
+  matchingService: {},
+}));
+
+const proposedAt = new Date("2026-07-01T00:00:00.000Z");
+const candidate = {
+  id: "candidate-1",
+  marketId: "market-1",
+  proposedOutcome: true,
+  source: "chainlink",
+  status: "PROPOSED",
+  createdAt: proposedAt,
+};
+
+describe("resolution challenges", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    mocks.marketFindUnique.mockResolvedValue({ id: "market-1" });
+    mocks.candidateFindFirst.mockResolvedValue(candidate);
+    mocks.tx.resolutionCandidate.updateMany.mockResolvedValue({ count: 1 });
+    mocks.tx.resolutionChallenge.create.mockImplementation(
+      async ({ data }) => ({ id: "challenge-1", ...data })
+    );
+    mocks.tx.resolutionChallenge.update.mockImplementation(
+      async ({ data }) => ({ id: "challenge-1", ...data })
+    );
+    mocks.tx.resolution.create.mockResolvedValue({ id: "resolution-1" });
+    mocks.tx.market.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe("challengeResolution", () => {
+    const input = {
+      marketId: "market-1",
+      challengerAddress: "GCHALLENGER",
+      reason: "Wrong closing price",
+    };
+
+    it("moves the latest proposed candidate to CHALLENGED", async () => {
+      const { candidate: challenged, challenge } = await challengeResolution(
+        input,
+        new Date("2026-07-01T00:30:00.000Z")
+      );
+
+      expect(mocks.tx.resolutionCandidate.updateMany).toHaveBeenCalledWith({
+        where: { id: "candidate-1", status: "PROPOSED" },
+        data: { status: "CHALLENGED" },
+      });
+      expect(challenge).toMatchObject({
+        candidateId: "candidate-1",
+        challengerAddress: "GCHALLENGER",
+        evidenceUrl: null,
+      });
+      expect(challenged.status).toBe("CHALLENGED");
+    });
+
+    it("rejects a challenge once the window has closed", async () => {
+      await expect(
+        challengeResolution(input, new Date("2026-07-01T01:00:00.000Z"))
+      ).rejects.toThrow("challenge window for this resolution closed");
+      expect(mocks.tx.resolutionCandidate.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("throws NotFoundError when nothing is proposed", async () => {
+      mocks.candidateFindFirst.mockResolvedValue(null);
+
+      await expect(challengeResolution(input, proposedAt)).rejects.toThrow(
+        NotFoundError
+      );
+    });
+
+    it("fails when the candidate was finalized concurrently", async () => {
+      mocks.tx.resolutionCandidate.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(challengeResolution(input, proposedAt)).rejects.toThrow(
+        "changed status concurrently"
+      );
+      expect(mocks.tx.resolutionChallenge.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("adjudicateChallenge", () => {
+    const now = new Date("2026-07-02T00:00:00.000Z");
+
+    beforeEach(() => {
+      mocks.challengeFindUnique.mockResolvedValue({
+        id: "challenge-1",
+        decision: null,
+        candidate: { ...candidate, status: "CHALLENGED" },
+        market: { id: "market-1", status: "CLOSED" },
+      });
+    });
+
+    it("finalizes the candidate when the challenge is rejected", async () => {
+      const { candidate: accepted, resolution } = await adjudicateChallenge(
+        {
+          challengeId: "challenge-1",
+          decision: "REJECT",
+          actor: "ops",
+          reason: "Source confirmed the price",
+        },
+        now
+      );
+
+      expect(accepted.status).toBe("ACCEPTED");
+      expect(resolution).toEqual({ id: "resolution-1" });
+      expect(mocks.tx.market.updateMany).toHaveBeenCalledWith({
+        where: { id: "market-1", status: "CLOSED" },
+        data: { status: "RESOLVED", outcome: true, resolutionTime: now },
+      });
+      expect(mocks.tx.marketStatusTransition.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fromStatus: "CLOSED",
+          toStatus: "RESOLVED",
+          actor: "ops",
+        }),
+      });
+      expect(mocks.tx.resolutionChallenge.update).toHaveBeenCalledWith({
+        where: { id: "challenge-1" },
+        data: {
+          decision: "REJECT",
+          adjudicatedBy: "ops",
+          adjudicationReason: "Source confirmed the price",
+          adjudicatedAt: now,
+        },
+      });
+    });
+
+    it("rejects the candidate when the challenge is upheld", async () => {
+      const { candidate: rejected, resolution } = await adjudicateChallenge(
+        {
+          challengeId: "challenge-1",
+          decision: "ACCEPT",
+          actor: "ops",
+          reason: "Challenger is right",
+        },
+        now
+      );
+
+      expect(rejected.status).toBe("REJECTED");
+      expect(resolution).toBeNull();
+      expect(mocks.tx.resolutionCandidate.updateMany).toHaveBeenCalledWith({
+        where: { id: "candidate-1", status: "CHALLENGED" },
+        data: { status: "REJECTED" },
+      });
+      expect(mocks.tx.market.updateMany).not.toHaveBeenCalled();
+      expect(mocks.tx.resolution.create).not.toHaveBeenCalled();
+      expect(mocks.tx.resolutionAttempt.updateMany).toHaveBeenCalledWith({
+        where: { marketId: "market-1" },
+        data: {
+          status: "PENDING",
+          nextAttemptAt: now,
+          lastError: "Candidate candidate-1 rejected on challenge",
+        },
+      });
+    });
+
+    it("refuses to adjudicate twice", async () => {
+      mocks.challengeFindUnique.mockResolvedValue({
+        id: "challenge-1",
+        decision: "REJECT",
+      });
+
+      await expect(
+        adjudicateChallenge({
+          challengeId: "challenge-1",
+          decision: "ACCEPT",
+          actor: "ops",
+          reason: "Changed my mind",
+        })
+      ).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it("refuses to finalize when the market is already terminal", async () => {
+      mocks.challengeFindUnique.mockResolvedValue({
+        id: "challenge-1",
+        decision: null,
+        candidate: { ...candidate, status: "CHALLENGED" },
+        market: { id: "market-1", status: "CANCELLED" },
+      });
+
+      await expect(
+        adjudicateChallenge({
+          challengeId: "challenge-1",
+          decision: "REJECT",
+          actor: "ops",
+          reason: "Source confirmed",
+        })
+      ).rejects.toThrow("Market cannot move from CANCELLED to RESOLVED");
+    });
+
+    it("throws NotFoundError for an unknown challenge", async () => {
+      mocks.challengeFindUnique.mockResolvedValue(null);
+
+      await expect(
+        adjudicateChallenge({
+          challengeId: "missing",
+          decision: "REJECT",
+          actor: "ops",
+          reason: "n/a",
+        })
+      ).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import type { Resolution } from "../generated/prisma/client";
+import {
+  MarketNotFoundError,
+  NotFoundError,
+  ValidationError,
+} from "../api/middleware/errors.js";
+import {
+  getChallengeWindow,
+  isChallengeWindowOpen,
+} from "../oracle/challengeWindow.js";
+import {
+  applyMarketTransition,
+  isAllowedTransition,
+} from "./market-transitions.js";
+import { getPrismaClient } from "./prisma.js";
+import type {
+  ChallengeDecision,
+  ResolutionCandidate,
+  ResolutionChallenge,
+} from "../types/index.js";
+
+export interface ChallengeResolutionInput {
+  marketId: string;
+  challengerAddress: string;
+  reason: string;
+  evidenceUrl?: string;
+}
+
+export interface AdjudicateChallengeInput {
+  challengeId: string;
+  decision: ChallengeDecision;
+  actor: string;
+  reason: string;
+}
+
+export interface ChallengeResult {
+  candidate: ResolutionCandidate;
+  challenge: ResolutionChallenge;
+}
+
+export interface AdjudicationResult extends ChallengeResult {
+  /** The finalized resolution when the challenge was rejected */
+  resolution: Resolution | null;
+}
+
+/**
+ * Challenge the latest PROPOSED resolution candidate of a market. Only
+ * accepted while the candidate's challenge window is open. The candidate
+ * moves to CHALLENGED, which keeps FinalizationJob away from the market
+ * until an admin adjudicates.
+ *
+ * @throws MarketNotFoundError if the market does not exist
+ * @throws NotFoundError if the market has no proposed resolution
+ * @throws ValidationError if the window has closed or the candidate was
+ * finalized or challenged concurrently
+ */
+export async function challengeResolution(
+  input: ChallengeResolutionInput,
+  now: Date = new Date()
+): Promise<ChallengeResult> {
+  const { marketId, challengerAddress, reason, evidenceUrl } = input;
+  const prisma = getPrismaClient();
+
+  const market = await prisma.market.findUnique({ where: { id: marketId } });
+  if (!market) {
+    throw new MarketNotFoundError(marketId);
+  }
+
+  const candidate = await prisma.resolutionCandidate.findFirst({
+    where: { marketId, status: "PROPOSED" },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!candidate) {
+    throw new NotFoundError(
+      `Market ${marketId} has no proposed resolution to challenge`
+    );
+  }
+
+  // Loaded here rather than at import so routes can be registered without
+  // the API environment
+  const { config } = await import("../config.js");
+  const { challengeWindowSeconds } = config.oracle;
+  if (
+    !isChallengeWindowOpen(candidate.createdAt, challengeWindowSeconds, now)
+  ) {
+    const { closesAt } = getChallengeWindow(
+      candidate.createdAt,
+      challengeWindowSeconds
+    );
+    throw new ValidationError(
+      `The challenge window for this resolution closed at ${closesAt.toISOString()}`
+    );
+  }
+
+  const challenge = await prisma.$transaction(async (tx) => {
+    // Conditional so a candidate finalized or challenged since the read
+    // above cannot be challenged again
+    const { count } = await tx.resolutionCandidate.updateMany({
+      where: { id: candidate.id, status: "PROPOSED" },
+      data: { status: "CHALLENGED" },
+    });
+
+    if (count === 0) {
+      throw new ValidationError(
+        `Resolution candidate ${candidate.id} changed status concurrently; retry the request`
+      );
+    }
+
+    return tx.resolutionChallenge.create({
+      data: {
+        candidateId: candidate.id,
+        marketId,
+        challengerAddress,
+        reason,
+        evidenceUrl: evidenceUrl ?? null,
+      },
+    });
+  });
+
+  console.info(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "info",
+      component: "resolution-challenges",
+      message: "Resolution candidate challenged",
+      challengeId: challenge.id,
+      candidateId: candidate.id,
+      marketId,
+      challengerAddress,
+    })
+  );
+
+  return { candidate: { ...candidate, status: "CHALLENGED" }, challenge };
+}
+
+/**
+ * Rule on a challenge. The decision is on the challenge, not the candidate:
+ * ACCEPT upholds the challenge, so the candidate is rejected and the market
+ * waits for a new one. REJECT dismisses the challenge and finalizes the
+ * candidate the same way FinalizationJob would, recording the market's move
+ * to RESOLVED.
+ *
+ * @throws NotFoundError if the challenge does not exist
+ * @throws ValidationError if the challenge was already adjudicated, the
+ * market can no longer be resolved, or something changed concurrently
+ */
+export async function adjudicateChallenge(
+  input: AdjudicateChallengeInput,
+  now: Date = new Date()
+): Promise<AdjudicationResult> {
+  const { challengeId, decision, actor, reason } = input;
+  const prisma = getPrismaClient();
+
+  const existing = await prisma.resolutionChallenge.findUnique({
+    where: { id: challengeId },
+    include: { candidate: true, market: true },
+  });
+  if (!existing) {
+    throw new NotFoundError(`Resolution challenge ${challengeId} not found`);
+  }
+  if (existing.decision !== null) {
+    throw new ValidationError(
+      `Resolution challenge ${challengeId} was already adjudicated`
+    );
+  }
+
+  const { candidate, market } = existing;
+  if (
+    decision === "REJECT" &&
+    !isAllowedTransition(market.status, "RESOLVED")
+  ) {
+    throw new ValidationError(
+      `Market cannot move from ${market.status} to RESOLVED`
+    );
+  }
+
+  // Upholding the challenge rejects the candidate, and vice versa
+  const candidateStatus = decision === "ACCEPT" ? "REJECTED" : "ACCEPTED";
+
+  const result = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.resolutionCandidate.updateMany({
+      where: { id: candidate.id, status: "CHALLENGED" },
+      data: { status: candidateStatus },
+    });
+
+    if (count === 0) {
+      throw new ValidationError(
+        `Resolution candidate ${candidate.id} changed status concurrently; retry the request`
+      );
+    }
+
+    const challenge = await tx.resolutionChallenge.update({
+      where: { id: challengeId },
+      data: {
+        decision,
+        adjudicatedBy: actor,
+        adjudicationReason: reason,
+        adjudicatedAt: now,
+      },
+    });
+
+    if (decision === "ACCEPT") {
+      // Let the oracle scheduler ask providers again right away
+      await tx.resolutionAttempt.updateMany({
+        where: { marketId: market.id },
+        data: {
+          status: "PENDING",
+          nextAttemptAt: now,
+          lastError: `Candidate ${candidate.id} rejected on challenge`,
+        },
+      });
+      return { challenge, resolution: null };
+    }
+
+    const resolution = await tx.resolution.create({
+      data: {
+        marketId: market.id,
+        outcome: candidate.proposedOutcome,
+        finalizedAt: now,
+        provenance: candidate.source,
+      },
+    });
+
+    // An ACTIVE market's books are halted by the market close scheduler
+    await applyMarketTransition(tx, {
+      marketId: market.id,
+      from: market.status,
+      to: "RESOLVED",
+      outcome: candidate.proposedOutcome,
+      actor,
+      reason,
+      at: now,
+    });
+
+    await tx.userPosition.updateMany({
+      where: { marketId: market.id },
+      data: { isSettled: true },
+    });
+
+    return { challenge, resolution };
+  });
+
+  console.info(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "info",
+      component: "resolution-challenges",
+      message: "Resolution challenge adjudicated",
+      challengeId,
+      candidateId: candidate.id,
+      marketId: market.id,
+      decision,
+      actor,
+    })
+  );
+
+  return {
+    candidate: { ...candidate, status: candidateStatus },
+    challenge: result.challenge,
+    resolution: result.resolution,
+  };
+}
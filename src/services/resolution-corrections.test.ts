@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "../generated/prisma/client";
+import {
+  correctResolution,
+  relayPendingCompensations,
+} from "./resolution-corrections.js";
+import {
+  MarketNotFoundError,
+  NotFoundError,
+  ValidationError,
+} from "../api/middleware/errors.js";
+
+const mocks = vi.hoisted(() => {
+  const tx = {
+    resolution: {
+      updateMany: vi.fn(),
+      create: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+    },
+    market: { update: vi.fn() },
+    userPosition: { findMany: vi.fn() },
+    payoutCompensation: { createMany: vi.fn() },
+  };
+  return {
+    tx,
+    marketFindUnique: vi.fn(),
+    resolutionFindFirst: vi.fn(),
+    compensationFindMany: vi.fn(),
+    compensationUpdate: vi.fn(),
+    enqueue: vi.fn(),
+  };
+});
+
+vi.mock("./prisma.js", () => ({
+  getPrismaClient: () => ({
+    market: { findUnique: mocks.marketFindUnique },
+    resolution: { findFirst: mocks.resolutionFindFirst },
+    payoutCompensation: {
+      findMany: mocks.compensationFindMany,
+      update: mocks.compensationUpdate,
+    },
+    $transaction: (fn: (tx: typeof mocks.tx) => Promise<unknown>) =>
+      fn(mocks.tx),
+  }),
+}));
+
+vi.mock("./settlement-queue.js", () => ({
+  compensationQueue: { enqueue: mocks.enqueue },
+}));
+
+const now = new Date("2026-07-03T00:00:00.000Z");
+const input = {
+  marketId: "market-1",
+  action: "CORRECT" as const,
+  outcome: false,
+  actor: "ops",
+  reason: "Oracle reported the wrong price",
+};
+
+describe("correctResolution", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    mocks.marketFindUnique.mockResolvedValue({
+      id: "market-1",
+      status: "RESOLVED",
+      outcome: true,
+    });
+    mocks.resolutionFindFirst.mockResolvedValue({
+      id: "resolution-1",
+      outcome: true,
+      status: "ACTIVE",
+    });
+    mocks.tx.resolution.updateMany.mockResolvedValue({ count: 1 });
+    mocks.tx.resolution.create.mockResolvedValue({ id: "resolution-2" });
+    mocks.tx.resolution.findUniqueOrThrow.mockResolvedValue({
+      id: "resolution-1",
+      status: "CORRECTED",
+    });
+    mocks.tx.market.update.mockResolvedValue({
+      id: "market-1",
+      outcome: false,
+    });
+    mocks.tx.userPosition.findMany.mockResolvedValue([
+      {
+        userAddress: "GYES",
+        yesShares: 30,
+        noShares: 0,
+        lockedCollateral: { toString: () => "18" },
+      },
+      {
+        userAddress: "GFLAT",
+        yesShares: 5,
+        noShares: 5,
+        lockedCollateral: { toString: () => "5" },
+      },
+    ]);
+    mocks.enqueue.mockResolvedValue(undefined);
+    // Rows read back by the relay are the ones the correction wrote
+    mocks.compensationFindMany.mockImplementation(async () =>
+      mocks.tx.payoutCompensation.createMany.mock.calls.flatMap(([{ data }]) =>
+        data.map((row: Record<string, unknown>) => ({
+          ...row,
+          previousPayout: new Prisma.Decimal(row.previousPayout as string),
+          payout: new Prisma.Decimal(row.payout as string),
+          payoutDelta: new Prisma.Decimal(row.payoutDelta as string),
+        }))
+      )
+    );
+  });
+
+  it("supersedes the ACTIVE resolution before writing the new one", async () => {
+    await correctResolution(input, now);
+
+    expect(mocks.tx.resolution.updateMany).toHaveBeenCalledWith({
+      where: { id: "resolution-1", status: "ACTIVE" },
+      data: {
+        status: "CORRECTED",
+        correctionOverrideMetadata: {
+          corrected_at: now.toISOString(),
+          previous_outcome: true,
+          outcome: false,
+          reason: input.reason,
+          actor: "ops",
+        },
+      },
+    });
+    expect(mocks.tx.resolution.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        marketId: "market-1",
+        outcome: false,
+        correctionOverrideMetadata: expect.objectContaining({
+          supersedes: "resolution-1",
+        }),
+      }),
+    });
+    expect(
+      mocks.tx.resolution.updateMany.mock.invocationCallOrder[0]
+    ).toBeLessThan(mocks.tx.resolution.create.mock.invocationCallOrder[0]);
+    expect(mocks.tx.market.update).toHaveBeenCalledWith({
+      where: { id: "market-1" },
+      data: { outcome: false },
+    });
+  });
+
+  it("marks the old row OVERRIDDEN for an override", async () => {
+    await correctResolution({ ...input, action: "OVERRIDE" }, now);
+
+    expect(mocks.tx.resolution.updateMany).toHaveBeenCalledWith({
+      where: { id: "resolution-1", status: "ACTIVE" },
+      data: expect.objectContaining({
+        status: "OVERRIDDEN",
+        correctionOverrideMetadata: expect.objectContaining({
+          overridden_at: now.toISOString(),
+        }),
+      }),
+    });
+  });
+
+  it("recomputes payouts and enqueues compensation for changed ones", async () => {
+    const { adjustments, compensationsEnqueued } = await correctResolution(
+      input,
+      now
+    );
+
+    expect(adjustments).toEqual([
+      {
+        userAddress: "GYES",
+        previousPayout: "30.00000000",
+        payout: "0.00000000",
+        payoutDelta: "-30.00000000",
+        realizedPnl: "-18.00000000",
+      },
+      {
+        userAddress: "GFLAT",
+        previousPayout: "5.00000000",
+        payout: "5.00000000",
+        payoutDelta: "0.00000000",
+        realizedPnl: "0.00000000",
+      },
+    ]);
+    expect(mocks.tx.payoutCompensation.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          id: "resolution-2:GYES",
+          payoutDelta: "-30.00000000",
+        }),
+      ],
+    });
+    expect(compensationsEnqueued).toBe(1);
+    expect(mocks.enqueue).toHaveBeenCalledWith({
+      compensationId: "resolution-2:GYES",
+      marketId: "market-1",
+      userAddress: "GYES",
+      resolutionId: "resolution-2",
+      supersededResolutionId: "resolution-1",
+      previousOutcome: true,
+      outcome: false,
+      previousPayout: "30.00000000",
+      payout: "0.00000000",
+      payoutDelta: "-30.00000000",
+      timestamp: now.getTime(),
+    });
+  });
+
+  it("keeps the correction when enqueueing compensation fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mocks.enqueue.mockRejectedValue(new Error("redis down"));
+
+    const { resolution, compensationsEnqueued } = await correctResolution(
+      input,
+      now
+    );
+
+    expect(resolution.id).toBe("resolution-2");
+    expect(compensationsEnqueued).toBe(0);
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("redis down")
+    );
+    // The row stays PENDING for the relay
+    expect(mocks.compensationUpdate).toHaveBeenCalledWith({
+      where: { id: "resolution-2:GYES" },
+      data: { attempts: { increment: 1 }, lastError: "redis down" },
+    });
+  });
+
+  it("rejects an unchanged outcome", async () => {
+    await expect(
+      correctResolution({ ...input, outcome: true }, now)
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(mocks.tx.resolution.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("rejects a market that is not RESOLVED", async () => {
+    mocks.marketFindUnique.mockResolvedValue({
+      id: "market-1",
+      status: "CLOSED",
+    });
+
+    await expect(correctResolution(input, now)).rejects.toThrow(
+      "only a RESOLVED market's resolution can be corrected"
+    );
+  });
+
+  it("fails when the resolution was superseded concurrently", async () => {
+    mocks.tx.resolution.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(correctResolution(input, now)).rejects.toThrow(
+      "changed concurrently"
+    );
+    expect(mocks.tx.resolution.create).not.toHaveBeenCalled();
+    expect(mocks.tx.payoutCompensation.createMany).not.toHaveBeenCalled();
+    expect(mocks.enqueue).not.toHaveBeenCalled();
+  });
+
+  it("throws when the market or its resolution is missing", async () => {
+    mocks.resolutionFindFirst.mockResolvedValue(null);
+    await expect(correctResolution(input, now)).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+
+    mocks.marketFindUnique.mockResolvedValue(null);
+    await expect(correctResolution(input, now)).rejects.toBeInstanceOf(
+      MarketNotFoundError
+    );
+  });
+});
+
+describe("relayPendingCompensations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.enqueue.mockResolvedValue(undefined);
+  });
+
+  it("enqueues PENDING compensations oldest first and marks them ENQUEUED", async () => {
+    mocks.compensationFindMany.mockResolvedValue([
+      {
+        id: "resolution-2:GYES",
+        marketId: "market-1",
+        userAddress: "GYES",
+        resolutionId: "resolution-2",
+        supersededResolutionId: "resolution-1",
+        previousOutcome: true,
+        outcome: false,
+        previousPayout: new Prisma.Decimal("30"),
+        payout: new Prisma.Decimal("0"),
+        payoutDelta: new Prisma.Decimal("-30"),
+        createdAt: now,
+      },
+    ]);
+
+    await expect(relayPendingCompensations()).resolves.toBe(1);
+
+    expect(mocks.compensationFindMany).toHaveBeenCalledWith({
+      where: { status: "PENDING" },
+      orderBy: { createdAt: "asc" },
+      take: 100,
+    });
+    expect(mocks.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({
+        compensationId: "resolution-2:GYES",
+        payoutDelta: "-30.00000000",
+        timestamp: now.getTime(),
+      })
+    );
+    expect(mocks.compensationUpdate).toHaveBeenCalledWith({
+      where: { id: "resolution-2:GYES" },
+      data: expect.objectContaining({ status: "ENQUEUED", lastError: null }),
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import type { Prisma, Resolution } from "../generated/prisma/client";
+import {
+  MarketNotFoundError,
+  NotFoundError,
+  ValidationError,
+} from "../api/middleware/errors.js";
+import {
+  computePayout,
+  computeRealizedPnl,
+  subtractAmounts,
+} from "./position-payouts.js";
+import { getPrismaClient } from "./prisma.js";
+import { compensationQueue } from "./settlement-queue.js";
+import type { Market, PayoutCompensation } from "../types/index.js";
+
+/**
+ * CORRECT fixes a resolution that was finalized from wrong data; OVERRIDE
+ * replaces a correct one by admin decision. The superseded row is marked
+ * CORRECTED or OVERRIDDEN accordingly.
+ */
+export type ResolutionCorrectionAction = "CORRECT" | "OVERRIDE";
+
+export interface CorrectResolutionInput {
+  marketId: string;
+  action: ResolutionCorrectionAction;
+  outcome: boolean;
+  actor: string;
+  reason: string;
+}
+
+/** A settled position's payout under the previous and the new outcome. */
+export interface PositionAdjustment {
+  userAddress: string;
+  previousPayout: string;
+  payout: string;
+  payoutDelta: string;
+  realizedPnl: string;
+}
+
+export interface ResolutionCorrectionResult {
+  market: Market;
+  /** The new ACTIVE resolution */
+  resolution: Resolution;
+  superseded: Resolution;
+  adjustments: PositionAdjustment[];
+  /** Adjustments with a non-zero delta that reached the compensation queue */
+  compensationsEnqueued: number;
+}
+
+const ZERO_AMOUNT = "0.00000000";
+
+/** Most PENDING compensations relayed per run */
+const RELAY_BATCH_SIZE = 100;
+
+/**
+ * Replace a market's finalized resolution with one for the other outcome.
+ * The ACTIVE row is superseded before the new one is written, so the partial
+ * unique index on ACTIVE resolutions holds throughout. Market.outcome is
+ * flipped and every settled position's payout and realized PnL is
+ * recomputed. Positions whose payout changed get a PayoutCompensation row
+ * in the same transaction, which is relayed to the compensation queue once
+ * it commits; an enqueue failure leaves the row PENDING for the next
+ * relayPendingCompensations run and does not undo the correction.
+ *
+ * @throws MarketNotFoundError if the market does not exist
+ * @throws NotFoundError if the market has no ACTIVE resolution
+ * @throws ValidationError if the market is not RESOLVED, the outcome is
+ * unchanged, or the resolution changed concurrently
+ */
+export async function correctResolution(
+  input: CorrectResolutionInput,
+  now: Date = new Date()
+): Promise<ResolutionCorrectionResult> {
+  const { marketId, action, outcome, actor, reason } = input;
+  const prisma = getPrismaClient();
+
+  const existing = await prisma.market.findUnique({ where: { id: marketId } });
+  if (!existing) {
+    throw new MarketNotFoundError(marketId);
+  }
+  if (existing.status !== "RESOLVED") {
+    throw new ValidationError(
+      `Market ${marketId} is ${existing.status}; only a RESOLVED market's resolution can be corrected`
+    );
+  }
+
+  const active = await prisma.resolution.findFirst({
+    where: { marketId, status: "ACTIVE" },
+  });
+  if (!active) {
+    throw new NotFoundError(`Market ${marketId} has no finalized resolution`);
+  }
+  if (active.outcome === outcome) {
+    throw new ValidationError(
+      `Market ${marketId} is already resolved to ${outcome ? "YES" : "NO"}`,
+      { outcome: "Must differ from the current outcome" }
+    );
+  }
+
+  const metadata: Prisma.InputJsonObject = {
+    [action === "CORRECT" ? "corrected_at" : "overridden_at"]:
+      now.toISOString(),
+    previous_outcome: active.outcome,
+    outcome,
+    reason,
+    actor,
+  };
+
+  const result = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.resolution.updateMany({
+      where: { id: active.id, status: "ACTIVE" },
+      data: {
+        status: action === "CORRECT" ? "CORRECTED" : "OVERRIDDEN",
+        correctionOverrideMetadata: metadata,
+      },
+    });
+
+    if (count === 0) {
+      throw new ValidationError(
+        `Resolution ${active.id} changed concurrently; retry the request`
+      );
+    }
+
+    const resolution = await tx.resolution.create({
+      data: {
+        marketId,
+        outcome,
+        finalizedAt: now,
+        provenance: `admin:${actor}`,
+        correctionOverrideMetadata: { ...metadata, supersedes: active.id },
+      },
+    });
+
+    const superseded = await tx.resolution.findUniqueOrThrow({
+      where: { id: active.id },
+    });
+
+    const market = await tx.market.update({
+      where: { id: marketId },
+      data: { outcome },
+    });
+
+    const positions = await tx.userPosition.findMany({
+      where: { marketId, isSettled: true },
+    });
+
+    const adjustments = positions.map((position): PositionAdjustment => {
+      const previousPayout = computePayout(
+        position.yesShares,
+        position.noShares,
+        active.outcome
+      );
+      const payout = computePayout(
+        position.yesShares,
+        position.noShares,
+        outcome
+      );
+      return {
+        userAddress: position.userAddress,
+        previousPayout,
+        payout,
+        payoutDelta: subtractAmounts(payout, previousPayout),
+        realizedPnl: computeRealizedPnl(
+          position.yesShares,
+          position.noShares,
+          position.lockedCollateral.toString(),
+          outcome
+        ),
+      };
+    });
+
+    const compensations = adjustments
+      .filter((adjustment) => adjustment.payoutDelta !== ZERO_AMOUNT)
+      .map((adjustment) => ({
+        id: `${resolution.id}:${adjustment.userAddress}`,
+        marketId,
+        userAddress: adjustment.userAddress,
+        resolutionId: resolution.id,
+        supersededResolutionId: active.id,
+        previousOutcome: active.outcome,
+        outcome,
+        previousPayout: adjustment.previousPayout,
+        payout: adjustment.payout,
+        payoutDelta: adjustment.payoutDelta,
+        createdAt: now,
+      }));
+    if (compensations.length > 0) {
+      await tx.payoutCompensation.createMany({ data: compensations });
+    }
+
+    return {
+      market,
+      resolution,
+      superseded,
+      adjustments,
+      compensationIds: compensations.map((c) => c.id),
+    };
+  });
+
+  // The compensations are committed; whatever is not relayed now is
+  // picked up by the CompensationRelay
+  const { compensationIds, ...correction } = result;
+  let compensationsEnqueued = 0;
+  if (compensationIds.length > 0) {
+    try {
+      compensationsEnqueued = await relayPendingCompensations({
+        ids: compensationIds,
+      });
+    } catch (error) {
+      console.error(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "error",
+          component: "resolution-corrections",
+          message: "Failed to relay compensations",
+          marketId,
+          resolutionId: correction.resolution.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  }
+
+  console.info(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "info",
+      component: "resolution-corrections",
+      message: "Resolution superseded",
+      marketId,
+      action,
+      previousOutcome: active.outcome,
+      outcome,
+      actor,
+      positions: result.adjustments.length,
+      compensationsEnqueued,
+    })
+  );
+
+  return { ...correction, compensationsEnqueued };
+}
+
+/**
+ * Add PENDING payout compensations to the compensation queue, oldest first,
+ * and mark each ENQUEUED. A failed enqueue is logged and recorded on the row,
+ * which stays PENDING for the next run. A crash between the enqueue and the
+ * update sends a job twice; consumers dedupe on `compensationId`.
+ *
+ * @param filter.ids - Only relay these compensations
+ * @returns number of compensations enqueued
+ */
+export async function relayPendingCompensations(
+  filter: { ids?: string[]; limit?: number } = {}
+): Promise<number> {
+  const prisma = getPrismaClient();
+  const pending = await prisma.payoutCompensation.findMany({
+    where: {
+      status: "PENDING",
+      ...(filter.ids ? { id: { in: filter.ids } } : {}),
+    },
+    orderBy: { createdAt: "asc" },
+    take: filter.limit ?? RELAY_BATCH_SIZE,
+  });
+
+  let enqueued = 0;
+  for (const compensation of pending) {
+    try {
+      await compensationQueue.enqueue(toCompensationJob(compensation));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "error",
+          component: "resolution-corrections",
+          message: "Failed to enqueue compensation",
+          compensationId: compensation.id,
+          marketId: compensation.marketId,
+          userAddress: compensation.userAddress,
+          payoutDelta: compensation.payoutDelta.toFixed(8),
+          error: message,
+        })
+      );
+      await prisma.payoutCompensation.update({
+        where: { id: compensation.id },
+        data: { attempts: { increment: 1 }, lastError: message },
+      });
+      continue;
+    }
+
+    await prisma.payoutCompensation.update({
+      where: { id: compensation.id },
+      data: {
+        status: "ENQUEUED",
+        attempts: { increment: 1 },
+        lastError: null,
+        enqueuedAt: new Date(),
+      },
+    });
+    enqueued++;
+  }
+
+  return enqueued;
+}
+
+function toCompensationJob(compensation: PayoutCompensation) {
+  return {
+    compensationId: compensation.id,
+    marketId: compensation.marketId,
+    userAddress: compensation.userAddress,
+    resolutionId: compensation.resolutionId,
+    supersededResolutionId: compensation.supersededResolutionId,
+    previousOutcome: compensation.previousOutcome,
+    outcome: compensation.outcome,
+    previousPayout: compensation.previousPayout.toFixed(8),
+    payout: compensation.payout.toFixed(8),
+    payoutDelta: compensation.payoutDelta.toFixed(8),
+    timestamp: compensation.createdAt.getTime(),
+  };
+}
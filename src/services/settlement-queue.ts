@@ -1,5 +1,5 @@
 import { redis } from "./redis.js";
-import type { Outcome } from "../types/index.js";
+import type { MatchType, Outcome } from "../types/index.js";
 
 export interface SettlementJob {
   tradeId: string;
@@ -12,6 +12,29 @@ export interface SettlementJob {
   price: number;
   quantity: number;
   timestamp: number;
+  /** Set for complete-set fills; absent for ordinary same-book trades */
+  matchType?: Exclude<MatchType, "DIRECT">;
+}
+
+/**
+ * Payout adjustment owed to one wallet after a finalized resolution was
+ * corrected or overridden. Amounts are 8-decimal collateral strings; a
+ * negative `payoutDelta` claws back an overpayment.
+ */
+export interface CompensationJob {
+  /** `<resolutionId>:<userAddress>`, stable across retries of the same job */
+  compensationId: string;
+  marketId: string;
+  userAddress: string;
+  /** The ACTIVE resolution written by the correction */
+  resolutionId: string;
+  supersededResolutionId: string;
+  previousOutcome: boolean;
+  outcome: boolean;
+  previousPayout: string;
+  payout: string;
+  payoutDelta: string;
+  timestamp: number;
 }
 
 class SettlementQueueProducer {
@@ -45,6 +68,7 @@ class SettlementQueueProducer {
       job.quantity.toString(),
       "timestamp",
       job.timestamp.toString(),
+      ...(job.matchType ? ["matchType", job.matchType] : []),
     ];
 
     await redis.xadd(this.streamKey, "*", ...fields);
@@ -52,3 +76,50 @@ class SettlementQueueProducer {
 }
 
 export const settlementQueue = new SettlementQueueProducer();
+
+/**
+ * Outbox of payout compensations. No worker consumes this stream: the
+ * settlement contract has no payout call for it, so operators drain it by
+ * hand (see docs/resolution-corrections.md).
+ */
+class CompensationQueueProducer {
+  private streamKey: string;
+
+  constructor() {
+    const queueName =
+      process.env.COMPENSATION_QUEUE_NAME ?? "settlement-compensations";
+    const keyPrefix = process.env.REDIS_KEY_PREFIX ?? "vatix:";
+    this.streamKey = `${keyPrefix}${queueName}`;
+  }
+
+  async enqueue(job: CompensationJob): Promise<void> {
+    await redis.xadd(
+      this.streamKey,
+      "*",
+      "compensationId",
+      job.compensationId,
+      "marketId",
+      job.marketId,
+      "userAddress",
+      job.userAddress,
+      "resolutionId",
+      job.resolutionId,
+      "supersededResolutionId",
+      job.supersededResolutionId,
+      "previousOutcome",
+      job.previousOutcome.toString(),
+      "outcome",
+      job.outcome.toString(),
+      "previousPayout",
+      job.previousPayout,
+      "payout",
+      job.payout,
+      "payoutDelta",
+      job.payoutDelta,
+      "timestamp",
+      job.timestamp.toString()
+    );
+  }
+}
+
+export const compensationQueue = new CompensationQueueProducer();
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getStuckSettlements, toSettlementSummary } from "./settlements.js";
+
+const mocks = vi.hoisted(() => ({
+  settlementFindMany: vi.fn(),
+}));
+
+vi.mock("./prisma.js", () => ({
+  getPrismaClient: () => ({
+    tradeSettlement: { findMany: mocks.settlementFindMany },
+  }),
+}));
+
+const row = {
+  id: "settlement-1",
+  tradeId: "trade-1",
+  status: "SUBMITTED" as const,
+  txHash: "abc123",
+  ledger: null,
+  attempts: 1,
+  lastError: null,
+  submittedAt: new Date("2026-07-16T11:00:00.000Z"),
+  confirmedAt: null,
+  createdAt: new Date("2026-07-16T10:59:59.000Z"),
+  updatedAt: new Date("2026-07-16T11:00:00.000Z"),
+};
+
+describe("settlements", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ now: new Date("2026-07-16T12:00:00.000Z") });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("toSettlementSummary", () => {
+    it("keeps the fields clients need", () => {
+      expect(toSettlementSummary(row)).toEqual({
+        status: "SUBMITTED",
+        txHash: "abc123",
+        ledger: null,
+        attempts: 1,
+        lastError: null,
+        updatedAt: "2026-07-16T11:00:00.000Z",
+      });
+    });
+  });
+
+  describe("getStuckSettlements", () => {
+    it("finds unconfirmed settlements untouched since the cutoff, oldest first", async () => {
+      mocks.settlementFindMany.mockResolvedValue([
+        {
+          ...row,
+          trade: {
+            marketId: "market-1",
+            tradedAt: new Date("2026-07-16T10:59:58.000Z"),
+          },
+        },
+      ]);
+
+      const stuck = await getStuckSettlements({
+        olderThanSeconds: 600,
+        limit: 50,
+      });
+
+      expect(mocks.settlementFindMany).toHaveBeenCalledWith({
+        where: {
+          status: { in: ["QUEUED", "SUBMITTED", "FAILED", "DEAD_LETTERED"] },
+          updatedAt: { lte: new Date("2026-07-16T11:50:00.000Z") },
+        },
+        include: { trade: { select: { marketId: true, tradedAt: true } } },
+        orderBy: { updatedAt: "asc" },
+        take: 50,
+      });
+      expect(stuck).toEqual([
+        expect.objectContaining({
+          tradeId: "trade-1",
+          marketId: "market-1",
+          status: "SUBMITTED",
+          txHash: "abc123",
+          tradedAt: "2026-07-16T10:59:58.000Z",
+          submittedAt: "2026-07-16T11:00:00.000Z",
+        }),
+      ]);
+    });
+
+    it("narrows by status and market", async () => {
+      mocks.settlementFindMany.mockResolvedValue([]);
+
+      await getStuckSettlements({
+        olderThanSeconds: 0,
+        status: "DEAD_LETTERED",
+        marketId: "market-2",
+        limit: 10,
+      });
+
+      expect(mocks.settlementFindMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: "DEAD_LETTERED",
+            updatedAt: { lte: new Date("2026-07-16T12:00:00.000Z") },
+            trade: { marketId: "market-2" },
+          },
+        })
+      );
+    });
+  });
+});
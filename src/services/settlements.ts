@@ -0,0 +1,78 @@
+import { getPrismaClient } from "./prisma.js";
+import type { SettlementStatus, TradeSettlement } from "../types/index.js";
+
+/** A trade's on-chain settlement state as returned by the API. */
+export interface SettlementSummary {
+  status: SettlementStatus;
+  txHash: string | null;
+  ledger: number | null;
+  attempts: number;
+  lastError: string | null;
+  updatedAt: string;
+}
+
+export interface StuckSettlement extends SettlementSummary {
+  tradeId: string;
+  marketId: string;
+  tradedAt: string;
+  submittedAt: string | null;
+}
+
+export interface StuckSettlementFilter {
+  /** Only records that have not changed for at least this long */
+  olderThanSeconds: number;
+  /** Defaults to every status except CONFIRMED */
+  status?: Exclude<SettlementStatus, "CONFIRMED">;
+  marketId?: string;
+  limit: number;
+}
+
+export const UNSETTLED_STATUSES: Exclude<SettlementStatus, "CONFIRMED">[] = [
+  "QUEUED",
+  "SUBMITTED",
+  "FAILED",
+  "DEAD_LETTERED",
+];
+
+export function toSettlementSummary(row: TradeSettlement): SettlementSummary {
+  return {
+    status: row.status,
+    txHash: row.txHash,
+    ledger: row.ledger,
+    attempts: row.attempts,
+    lastError: row.lastError,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Settlements that are not confirmed and have not moved for
+ * `olderThanSeconds`, oldest first. A QUEUED or SUBMITTED record this old
+ * usually means the worker is down or lost the job; FAILED and
+ * DEAD_LETTERED ones need an operator.
+ */
+export async function getStuckSettlements(
+  filter: StuckSettlementFilter
+): Promise<StuckSettlement[]> {
+  const prisma = getPrismaClient();
+  const cutoff = new Date(Date.now() - filter.olderThanSeconds * 1000);
+
+  const rows = await prisma.tradeSettlement.findMany({
+    where: {
+      status: filter.status ?? { in: UNSETTLED_STATUSES },
+      updatedAt: { lte: cutoff },
+      ...(filter.marketId ? { trade: { marketId: filter.marketId } } : {}),
+    },
+    include: { trade: { select: { marketId: true, tradedAt: true } } },
+    orderBy: { updatedAt: "asc" },
+    take: filter.limit,
+  });
+
+  return rows.map((row) => ({
+    tradeId: row.tradeId,
+    marketId: row.trade.marketId,
+    tradedAt: row.trade.tradedAt.toISOString(),
+    submittedAt: row.submittedAt?.toISOString() ?? null,
+    ...toSettlementSummary(row),
+  }));
+}
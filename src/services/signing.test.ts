@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { Keypair } from "@stellar/stellar-sdk";
 import { SigningService } from "./signing";
-import type { OrderData } from "../types";
+import type { OrderData, TradeData } from "../types";
 
 describe("Order Receipt Signing Service", () => {
   let signingService: SigningService;
@@ -215,6 +215,85 @@ describe("Order Receipt Signing Service", () => {
     });
   });
 
+  describe("verifyOrderReceipt with marketId", () => {
+    it("should fail verification for a tampered market", () => {
+      const order: OrderData = {
+        orderId: "order-market",
+        marketId: "market-1",
+        userAddress: "GMARKET123",
+        side: "BUY",
+        outcome: "YES",
+        price: 0.5,
+        quantity: 100,
+        timestamp: Date.now(),
+      };
+
+      const receipt = signingService.signOrderReceipt(order);
+      expect(signingService.verifyOrderReceipt(receipt).isValid).toBe(true);
+
+      receipt.orderData = { ...receipt.orderData, marketId: "market-2" };
+
+      expect(signingService.verifyOrderReceipt(receipt).isValid).toBe(false);
+    });
+  });
+
+  describe("trade receipts", () => {
+    const trade: TradeData = {
+      tradeId: "trade-123",
+      marketId: "market-1",
+      outcome: "YES",
+      buyerAddress: "GBUYER123",
+      sellerAddress: "GSELLER123",
+      buyOrderId: "order-buy",
+      sellOrderId: "order-sell",
+      price: 0.45,
+      quantity: 50,
+      matchType: "DIRECT",
+      timestamp: 1_700_000_000_000,
+    };
+
+    it("should sign and verify a trade receipt", () => {
+      const receipt = signingService.signTradeReceipt(trade);
+
+      expect(receipt.tradeData).toEqual(trade);
+      expect(receipt.publicKey).toBe(testKeypair.publicKey());
+      expect(signingService.verifyTradeReceipt(receipt)).toEqual({
+        isValid: true,
+        error: undefined,
+      });
+    });
+
+    it("should fail verification for a tampered counterparty", () => {
+      const receipt = signingService.signTradeReceipt(trade);
+      receipt.tradeData = { ...trade, sellerAddress: "GOTHER123" };
+
+      const result = signingService.verifyTradeReceipt(receipt);
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe("Signature verification failed");
+    });
+
+    it("should not accept an order signature over the same fields", () => {
+      const orderReceipt = signingService.signOrderReceipt({
+        orderId: trade.tradeId,
+        userAddress: trade.buyerAddress,
+        side: "BUY",
+        outcome: trade.outcome,
+        price: trade.price,
+        quantity: trade.quantity,
+        timestamp: trade.timestamp,
+      });
+
+      const result = signingService.verifyTradeReceipt({
+        tradeData: trade,
+        signature: orderReceipt.signature,
+        publicKey: orderReceipt.publicKey,
+      });
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+
   describe("deterministic signing", () => {
     it("should produce same signature for identical orders", () => {
       const order: OrderData = {
@@ -2,6 +2,8 @@ import { Keypair } from "@stellar/stellar-sdk";
 import type {
   OrderData,
   SignedOrderReceipt,
+  SignedTradeReceipt,
+  TradeData,
   VerificationResult,
 } from "../types";
 
@@ -61,8 +63,11 @@ export class SigningService {
    */
   private createOrderMessage(order: OrderData): string {
     // Sort keys to ensure deterministic serialization
+    // marketId is dropped by JSON.stringify when absent, so receipts signed
+    // before it was added keep verifying
     const sortedOrder = {
       orderId: order.orderId,
+      marketId: order.marketId,
       userAddress: order.userAddress,
       side: order.side,
       outcome: order.outcome,
@@ -100,17 +105,9 @@ export class SigningService {
   public signOrderReceipt(order: OrderData): SignedOrderReceipt {
     const kp = this.ensureInitialized();
 
-    // Create deterministic message
-    const message = this.createOrderMessage(order);
-    const messageBuffer = Buffer.from(message, "utf8");
-
-    // Sign the message using Stellar SDK
-    const signatureBuffer = kp.sign(messageBuffer);
-    const signature = signatureBuffer.toString("base64");
-
     return {
       orderData: order,
-      signature,
+      signature: this.sign(kp, this.createOrderMessage(order)),
       publicKey: kp.publicKey(),
     };
   }
@@ -135,18 +132,91 @@ export class SigningService {
    * ```
    */
   public verifyOrderReceipt(receipt: SignedOrderReceipt): VerificationResult {
-    try {
-      // Recreate the message from order data
-      const message = this.createOrderMessage(receipt.orderData);
-      const messageBuffer = Buffer.from(message, "utf8");
+    return this.verify(
+      () => this.createOrderMessage(receipt.orderData),
+      receipt.signature,
+      receipt.publicKey
+    );
+  }
+
+  /**
+   * Create a deterministic message string from trade data
+   *
+   * @param trade - Trade data to serialize
+   * @returns Deterministic string representation
+   */
+  private createTradeMessage(trade: TradeData): string {
+    const sortedTrade = {
+      tradeId: trade.tradeId,
+      marketId: trade.marketId,
+      outcome: trade.outcome,
+      buyerAddress: trade.buyerAddress,
+      sellerAddress: trade.sellerAddress,
+      buyOrderId: trade.buyOrderId,
+      sellOrderId: trade.sellOrderId,
+      price: trade.price,
+      quantity: trade.quantity,
+      matchType: trade.matchType,
+      timestamp: trade.timestamp,
+    };
 
-      // Decode signature from base64
-      const signatureBuffer = Buffer.from(receipt.signature, "base64");
+    return JSON.stringify(sortedTrade);
+  }
 
-      // Create keypair from public key for verification
-      const publicKeypair = Keypair.fromPublicKey(receipt.publicKey);
+  /**
+   * Sign a trade receipt with the service's private key
+   * One receipt covers both counterparties of the fill
+   *
+   * @param trade - Trade data to sign
+   * @returns Signed trade receipt with signature and public key
+   * @throws {Error} If service not initialized
+   */
+  public signTradeReceipt(trade: TradeData): SignedTradeReceipt {
+    const kp = this.ensureInitialized();
+
+    return {
+      tradeData: trade,
+      signature: this.sign(kp, this.createTradeMessage(trade)),
+      publicKey: kp.publicKey(),
+    };
+  }
+
+  /**
+   * Verify a signed trade receipt's signature
+   *
+   * @param receipt - Signed trade receipt to verify
+   * @returns Verification result with validity status
+   */
+  public verifyTradeReceipt(receipt: SignedTradeReceipt): VerificationResult {
+    return this.verify(
+      () => this.createTradeMessage(receipt.tradeData),
+      receipt.signature,
+      receipt.publicKey
+    );
+  }
+
+  /**
+   * Sign a message and encode the signature as base64
+   */
+  private sign(kp: Keypair, message: string): string {
+    return kp.sign(Buffer.from(message, "utf8")).toString("base64");
+  }
+
+  /**
+   * Verify a base64 signature over a message against a public key.
+   * Any error, including one from building the message, yields an
+   * invalid result instead of a throw.
+   */
+  private verify(
+    buildMessage: () => string,
+    signature: string,
+    publicKey: string
+  ): VerificationResult {
+    try {
+      const messageBuffer = Buffer.from(buildMessage(), "utf8");
+      const signatureBuffer = Buffer.from(signature, "base64");
+      const publicKeypair = Keypair.fromPublicKey(publicKey);
 
-      // Verify signature
       const isValid = publicKeypair.verify(messageBuffer, signatureBuffer);
 
       return {
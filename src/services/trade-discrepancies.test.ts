@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { getTradeDiscrepancyReport } from "./trade-discrepancies.js";
+
+const mocks = vi.hoisted(() => ({
+  discrepancyGroupBy: vi.fn(),
+  discrepancyFindMany: vi.fn(),
+}));
+
+vi.mock("./prisma.js", () => ({
+  getPrismaClient: () => ({
+    tradeDiscrepancy: {
+      groupBy: mocks.discrepancyGroupBy,
+      findMany: mocks.discrepancyFindMany,
+    },
+  }),
+}));
+
+const row = {
+  id: "discrepancy-1",
+  key: "PRICE_MISMATCH:trade-1:indexed-1",
+  kind: "PRICE_MISMATCH" as const,
+  marketId: "market-1",
+  tradeId: "trade-1",
+  indexedTradeId: "indexed-1",
+  buyOrderId: "buy-1",
+  sellOrderId: "sell-1",
+  expected: "6500000",
+  actual: "6400000",
+  detectedAt: new Date("2026-07-17T11:00:00.000Z"),
+  lastSeenAt: new Date("2026-07-17T12:00:00.000Z"),
+  resolvedAt: null,
+};
+
+describe("getTradeDiscrepancyReport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.discrepancyGroupBy.mockResolvedValue([
+      { kind: "PRICE_MISMATCH", _count: { _all: 2 } },
+    ]);
+    mocks.discrepancyFindMany.mockResolvedValue([row]);
+  });
+
+  it("lists open discrepancies newest first with open counts for every kind", async () => {
+    const report = await getTradeDiscrepancyReport({
+      includeResolved: false,
+      limit: 100,
+    });
+
+    expect(mocks.discrepancyFindMany).toHaveBeenCalledWith({
+      where: { resolvedAt: null },
+      orderBy: { detectedAt: "desc" },
+      take: 100,
+    });
+    expect(report.open).toEqual({
+      MISSING_ON_CHAIN: 0,
+      MISSING_OFF_CHAIN: 0,
+      PRICE_MISMATCH: 2,
+      QUANTITY_MISMATCH: 0,
+    });
+    expect(report.discrepancies).toEqual([
+      {
+        id: "discrepancy-1",
+        kind: "PRICE_MISMATCH",
+        marketId: "market-1",
+        tradeId: "trade-1",
+        indexedTradeId: "indexed-1",
+        buyOrderId: "buy-1",
+        sellOrderId: "sell-1",
+        expected: "6500000",
+        actual: "6400000",
+        detectedAt: "2026-07-17T11:00:00.000Z",
+        lastSeenAt: "2026-07-17T12:00:00.000Z",
+        resolvedAt: null,
+      },
+    ]);
+  });
+
+  it("filters by kind and market and can include resolved discrepancies", async () => {
+    await getTradeDiscrepancyReport({
+      kind: "MISSING_ON_CHAIN",
+      marketId: "market-1",
+      includeResolved: true,
+      limit: 10,
+    });
+
+    expect(mocks.discrepancyFindMany).toHaveBeenCalledWith({
+      where: { kind: "MISSING_ON_CHAIN", marketId: "market-1" },
+      orderBy: { detectedAt: "desc" },
+      take: 10,
+    });
+  });
+});
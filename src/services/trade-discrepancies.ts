@@ -0,0 +1,90 @@
+import { getPrismaClient } from "./prisma.js";
+import type { TradeDiscrepancyKind } from "../types/index.js";
+
+export const TRADE_DISCREPANCY_KINDS: TradeDiscrepancyKind[] = [
+  "MISSING_ON_CHAIN",
+  "MISSING_OFF_CHAIN",
+  "PRICE_MISMATCH",
+  "QUANTITY_MISMATCH",
+];
+
+export interface TradeDiscrepancySummary {
+  id: string;
+  kind: TradeDiscrepancyKind;
+  marketId: string;
+  tradeId: string | null;
+  indexedTradeId: string | null;
+  buyOrderId: string;
+  sellOrderId: string;
+  expected: string | null;
+  actual: string | null;
+  detectedAt: string;
+  lastSeenAt: string;
+  resolvedAt: string | null;
+}
+
+export interface TradeDiscrepancyFilter {
+  kind?: TradeDiscrepancyKind;
+  marketId?: string;
+  /** Include discrepancies a later reconciliation run no longer saw */
+  includeResolved: boolean;
+  limit: number;
+}
+
+export interface TradeDiscrepancyReport {
+  /** Open discrepancies by kind, across all markets */
+  open: Record<TradeDiscrepancyKind, number>;
+  discrepancies: TradeDiscrepancySummary[];
+}
+
+/**
+ * Discrepancies found by the trade reconciliation worker, newest first,
+ * with the number still open per kind.
+ */
+export async function getTradeDiscrepancyReport(
+  filter: TradeDiscrepancyFilter
+): Promise<TradeDiscrepancyReport> {
+  const prisma = getPrismaClient();
+
+  const [counts, rows] = await Promise.all([
+    prisma.tradeDiscrepancy.groupBy({
+      by: ["kind"],
+      where: { resolvedAt: null },
+      _count: { _all: true },
+    }),
+    prisma.tradeDiscrepancy.findMany({
+      where: {
+        ...(filter.kind ? { kind: filter.kind } : {}),
+        ...(filter.marketId ? { marketId: filter.marketId } : {}),
+        ...(filter.includeResolved ? {} : { resolvedAt: null }),
+      },
+      orderBy: { detectedAt: "desc" },
+      take: filter.limit,
+    }),
+  ]);
+
+  const open = Object.fromEntries(
+    TRADE_DISCREPANCY_KINDS.map((kind) => [
+      kind,
+      counts.find((c) => c.kind === kind)?._count._all ?? 0,
+    ])
+  ) as Record<TradeDiscrepancyKind, number>;
+
+  return {
+    open,
+    discrepancies: rows.map((row) => ({
+      id: row.id,
+      kind: row.kind,
+      marketId: row.marketId,
+      tradeId: row.tradeId,
+      indexedTradeId: row.indexedTradeId,
+      buyOrderId: row.buyOrderId,
+      sellOrderId: row.sellOrderId,
+      expected: row.expected,
+      actual: row.actual,
+      detectedAt: row.detectedAt.toISOString(),
+      lastSeenAt: row.lastSeenAt.toISOString(),
+      resolvedAt: row.resolvedAt?.toISOString() ?? null,
+    })),
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { TradeFeedTailer } from "./trade-feed-tailer.js";
+import type { AuditLogEntry } from "./audit.js";
+
+const entry = (id: string, tradeId: string): AuditLogEntry => ({
+  id,
+  trade: {
+    id: tradeId,
+    marketId: "market-1",
+    outcome: "YES",
+    buyerAddress: "GBUYER",
+    sellerAddress: "GSELLER",
+    buyOrderId: "buy-1",
+    sellOrderId: "sell-1",
+    price: 0.55,
+    quantity: 10,
+    timestamp: 1_700_000_000_000,
+  },
+  loggedAt: "2026-07-01T00:00:00.000Z",
+});
+
+describe("TradeFeedTailer", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("starts at the stream tail without replaying history", async () => {
+    const source = {
+      getLatestTradeId: vi.fn().mockResolvedValue("100-0"),
+      getTradesAfter: vi.fn().mockResolvedValue([]),
+    };
+    const publisher = { publishTrade: vi.fn() };
+    const tailer = new TradeFeedTailer(source, publisher, 250);
+
+    await expect(tailer.poll()).resolves.toBe(0);
+    await tailer.poll();
+
+    expect(source.getTradesAfter).toHaveBeenCalledWith("100-0", 500);
+    expect(publisher.publishTrade).not.toHaveBeenCalled();
+  });
+
+  it("publishes new entries with their stream ID and advances the cursor", async () => {
+    const source = {
+      getLatestTradeId: vi.fn().mockResolvedValue(null),
+      getTradesAfter: vi
+        .fn()
+        .mockResolvedValueOnce([entry("101-0", "t1"), entry("102-0", "t2")])
+        .mockResolvedValue([]),
+    };
+    const publisher = { publishTrade: vi.fn() };
+    const tailer = new TradeFeedTailer(source, publisher, 250);
+
+    await tailer.poll();
+    await expect(tailer.poll()).resolves.toBe(2);
+    await tailer.poll();
+
+    expect(publisher.publishTrade).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "t1", streamId: "101-0" })
+    );
+    expect(source.getTradesAfter).toHaveBeenNthCalledWith(1, null, 500);
+    expect(source.getTradesAfter).toHaveBeenLastCalledWith("102-0", 500);
+  });
+
+  it("retries from the same entry after a failed read", async () => {
+    const source = {
+      getLatestTradeId: vi.fn().mockResolvedValue("100-0"),
+      getTradesAfter: vi
+        .fn()
+        .mockRejectedValueOnce(new Error("redis down"))
+        .mockResolvedValue([]),
+    };
+    const tailer = new TradeFeedTailer(source, { publishTrade: vi.fn() }, 250);
+
+    await tailer.poll();
+    await expect(tailer.poll()).resolves.toBe(0);
+    await tailer.poll();
+
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining("redis down")
+    );
+    expect(source.getTradesAfter).toHaveBeenLastCalledWith("100-0", 500);
+  });
+
+  it("polls on every interval until stopped", async () => {
+    vi.useFakeTimers();
+    const source = {
+      getLatestTradeId: vi.fn().mockResolvedValue(null),
+      getTradesAfter: vi.fn().mockResolvedValue([]),
+    };
+    const tailer = new TradeFeedTailer(source, { publishTrade: vi.fn() }, 250);
+
+    tailer.start();
+    await vi.advanceTimersByTimeAsync(750);
+    tailer.stop();
+    await vi.advanceTimersByTimeAsync(750);
+
+    expect(source.getLatestTradeId).toHaveBeenCalledTimes(1);
+    expect(source.getTradesAfter).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,99 @@
+import type { AuditLogEntry } from "./audit.js";
+import type { FeedTrade } from "./market-feed.js";
+
+/** The slice of AuditService the tailer reads from. */
+export interface TradeStreamSource {
+  getLatestTradeId(): Promise<string | null>;
+  getTradesAfter(
+    afterId: string | null,
+    limit?: number
+  ): Promise<AuditLogEntry[]>;
+}
+
+/** The slice of MarketFeed the tailer publishes to. */
+export interface TradePublisher {
+  publishTrade(trade: FeedTrade): unknown;
+}
+
+/** Maximum number of stream entries read per poll. */
+const BATCH_SIZE = 500;
+
+/**
+ * Polls the global audit trade stream and republishes each new entry on the
+ * market's public trades channel.
+ *
+ * Reading the stream rather than hooking placeOrder means every trade logged
+ * by any API instance reaches subscribers of this one. The tailer starts at
+ * the stream's current tail, so history is never replayed on boot. A poll
+ * that is still running when the next tick fires is skipped.
+ */
+export class TradeFeedTailer {
+  private timer: NodeJS.Timeout | null = null;
+  private isPollInProgress = false;
+  private lastId: string | null = null;
+  private isPositioned = false;
+
+  constructor(
+    private readonly source: TradeStreamSource,
+    private readonly publisher: TradePublisher,
+    private readonly intervalMs: number
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.poll(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Publish every trade logged since the previous poll. Failures are logged,
+   * not thrown, and the next poll resumes from the last published entry.
+   *
+   * @returns number of trades published, or 0 if skipped or failed
+   */
+  async poll(): Promise<number> {
+    if (this.isPollInProgress) return 0;
+    this.isPollInProgress = true;
+
+    try {
+      if (!this.isPositioned) {
+        this.lastId = await this.source.getLatestTradeId();
+        this.isPositioned = true;
+        return 0;
+      }
+
+      let published = 0;
+      let entries: AuditLogEntry[];
+      do {
+        entries = await this.source.getTradesAfter(this.lastId, BATCH_SIZE);
+        for (const entry of entries) {
+          this.publisher.publishTrade({ ...entry.trade, streamId: entry.id });
+          this.lastId = entry.id;
+          published++;
+        }
+      } while (entries.length === BATCH_SIZE);
+
+      return published;
+    } catch (error) {
+      console.error(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          level: "error",
+          component: "trade-feed-tailer",
+          message: "Trade stream poll failed",
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      return 0;
+    } finally {
+      this.isPollInProgress = false;
+    }
+  }
+}
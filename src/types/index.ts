@@ -3,9 +3,32 @@ import type {
   Order as PrismaOrder,
   UserPosition,
   MarketStatus,
+  MarketStatusTransition,
+  MarketStats,
+  ResolutionCandidate,
+  ResolutionChallenge,
+  ChallengeDecision,
+  OracleReport,
+  OracleReportStatus,
+  OracleSource,
+  OracleSourceAlias,
+  Receipt,
+  ReceiptKind,
+  DeadLetterAudit,
+  DeadLetterAction,
+  TradeSettlement,
+  SettlementStatus,
+  TradeDiscrepancy,
+  TradeDiscrepancyKind,
+  PositionDrift,
+  PayoutCompensation,
   OrderSide,
   OrderStatus,
+  OrderType,
+  MatchType,
+  CollateralEntryType,
   Outcome,
+  TimeInForce,
   Prisma,
 } from "../generated/prisma/client";
 
@@ -14,9 +37,32 @@ export type {
   PrismaOrder,
   UserPosition,
   MarketStatus,
+  MarketStatusTransition,
+  MarketStats,
+  ResolutionCandidate,
+  ResolutionChallenge,
+  ChallengeDecision,
+  OracleReport,
+  OracleReportStatus,
+  OracleSource,
+  OracleSourceAlias,
+  Receipt,
+  ReceiptKind,
+  DeadLetterAudit,
+  DeadLetterAction,
+  TradeSettlement,
+  SettlementStatus,
+  TradeDiscrepancy,
+  TradeDiscrepancyKind,
+  PositionDrift,
+  PayoutCompensation,
   OrderSide,
   OrderStatus,
+  OrderType,
+  MatchType,
+  CollateralEntryType,
   Outcome,
+  TimeInForce,
   Prisma,
 };
 
@@ -99,15 +145,34 @@ export interface PositionWithPayout extends UserPosition {
 
 /**
  * Market with aggregated statistics.
- * Extends the Prisma Market type with calculated statistics.
+ * Extends the Prisma Market type with the statistics maintained in
+ * `market_stats`. Prices are decimals in the range 0-1, in YES terms.
  */
 export interface MarketWithStats extends Market {
-  /** Total trading volume in the market (calculated) */
+  /** Total shares traded in the market */
   totalVolume: number;
-  /** Number of currently open orders (calculated) */
+  /** Shares traded in the last 24 hours */
+  volume24h: number;
+  /** Number of trades in the market */
+  tradeCount: number;
+  /** Number of currently open orders */
   openOrders: number;
-  /** Number of unique traders who have participated (calculated) */
+  /** Number of wallets holding a position in the market */
   uniqueTraders: number;
+  /** Complete sets outstanding, counted as YES shares held long */
+  openInterest: number;
+  /** Price of the last trade */
+  lastPrice: number | null;
+  /** When the last trade occurred */
+  lastTradedAt: Date | null;
+  /** Best YES bid */
+  bestBid: number | null;
+  /** Best YES ask */
+  bestAsk: number | null;
+  /** Best YES ask minus best YES bid */
+  spread: number | null;
+  /** Probability of YES implied by the quotes or the last trade */
+  impliedProbability: number | null;
 }
 
 /**
@@ -168,6 +233,11 @@ export interface PaginatedResponse<T> {
 export interface OrderData {
   /** Unique order identifier */
   orderId: string;
+  /**
+   * Market the order was placed in. Always set on receipts issued by
+   * POST /v1/orders; optional so receipts signed without it still verify.
+   */
+  marketId?: string;
   /** Stellar address of the user submitting the order */
   userAddress: string;
   /** Order side (BUY or SELL) */
@@ -195,6 +265,43 @@ export interface SignedOrderReceipt {
   publicKey: string;
 }
 
+/**
+ * Trade data structure for cryptographic signing.
+ * Used to create signed receipts for every fill the matcher records.
+ */
+export interface TradeData {
+  /** Trade identifier (Trade.tradeId) */
+  tradeId: string;
+  marketId: string;
+  /** Outcome book the trade was recorded in */
+  outcome: Outcome;
+  buyerAddress: string;
+  sellerAddress: string;
+  buyOrderId: string;
+  sellOrderId: string;
+  /** Execution price (0-1) */
+  price: number;
+  /** Number of shares */
+  quantity: number;
+  /** DIRECT, or MINT/MERGE for complete-set fills */
+  matchType: MatchType;
+  /** Unix timestamp when the trade was matched */
+  timestamp: number;
+}
+
+/**
+ * Signed trade receipt with cryptographic signature.
+ * Proves what the matcher executed for both sides of a fill.
+ */
+export interface SignedTradeReceipt {
+  /** Original trade data that was signed */
+  tradeData: TradeData;
+  /** Cryptographic signature (base64 encoded) */
+  signature: string;
+  /** Public key used to create the signature */
+  publicKey: string;
+}
+
 /**
  * Result of signature verification
  */
@@ -11,7 +11,8 @@ function openApiPathToMount(path: string): string {
     .replace(/\{wallet\}/g, ":wallet")
     .replace(/\{address\}/g, ":address")
     .replace(/\{id\}/g, ":id")
-    .replace(/\{marketId\}/g, ":marketId");
+    .replace(/\{marketId\}/g, ":marketId")
+    .replace(/\{queue\}/g, ":queue");
 }
 
 describe("api-versioning.md matches route mounts", () => {
@@ -48,7 +49,8 @@ describe("api-versioning.md matches route mounts", () => {
         (line) =>
           line.startsWith("| GET") ||
           line.startsWith("| POST") ||
-          line.startsWith("| PATCH")
+          line.startsWith("| PATCH") ||
+          line.startsWith("| DELETE")
       );
     expect(tableRows.length).toBe(CANONICAL_V1_ROUTES.length);
   });
@@ -10,7 +10,7 @@ const ADMIN_TOKEN = "test-admin-token";
 /** Inject with both auth headers (happy path). */
 function authed(
   app: FastifyInstance,
-  method: "GET" | "PATCH",
+  method: "GET" | "POST" | "PATCH",
   url: string,
   payload?: object
 ) {
@@ -43,11 +43,16 @@ describe("Admin routes — auth guard matrix", () => {
   });
 
   const guardedEndpoints: Array<{
-    method: "GET" | "PATCH";
+    method: "GET" | "POST" | "PATCH";
     url: string;
     payload?: object;
   }> = [
     { method: "GET", url: "/v1/admin/markets" },
+    {
+      method: "POST",
+      url: "/v1/admin/markets",
+      payload: { question: "Q", endTime: "2030-01-01T00:00:00Z" },
+    },
     {
       method: "PATCH",
       url: "/v1/admin/markets/00000000-0000-0000-0000-000000000000/status",
@@ -191,6 +196,8 @@ describe("PATCH /v1/admin/markets/:id/status", () => {
       `/v1/admin/markets/${market.id}/status`,
       {
         status: "CANCELLED",
+        actor: "ops@vatix",
+        reason: "Ambiguous question",
       }
     );
     expect(res.statusCode).toBe(200);
@@ -199,6 +206,58 @@ describe("PATCH /v1/admin/markets/:id/status", () => {
     expect(body.success).toBe(true);
     expect(body.data.market.id).toBe(market.id);
     expect(body.data.market.status).toBe("CANCELLED");
+    expect(body.data.transition).toMatchObject({
+      fromStatus: "ACTIVE",
+      toStatus: "CANCELLED",
+      actor: "ops@vatix",
+      reason: "Ambiguous question",
+    });
+  });
+
+  it("resolves a market with its outcome", async () => {
+    const market = await testUtils.createTestMarket({ status: "ACTIVE" });
+
+    const res = await authed(
+      app,
+      "PATCH",
+      `/v1/admin/markets/${market.id}/status`,
+      {
+        status: "RESOLVED",
+        outcome: true,
+        actor: "ops@vatix",
+        reason: "Result announced",
+      }
+    );
+    expect(res.statusCode).toBe(200);
+
+    const body = JSON.parse(res.body);
+    expect(body.data.market.status).toBe("RESOLVED");
+    expect(body.data.market.outcome).toBe(true);
+    expect(body.data.market.resolutionTime).not.toBeNull();
+  });
+
+  it("returns 400 when resolving without an outcome", async () => {
+    const market = await testUtils.createTestMarket({ status: "ACTIVE" });
+
+    const res = await authed(
+      app,
+      "PATCH",
+      `/v1/admin/markets/${market.id}/status`,
+      { status: "RESOLVED", actor: "ops@vatix", reason: "Result announced" }
+    );
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("returns 400 for a transition out of a terminal status", async () => {
+    const market = await testUtils.createTestMarket({ status: "CANCELLED" });
+
+    const res = await authed(
+      app,
+      "PATCH",
+      `/v1/admin/markets/${market.id}/status`,
+      { status: "ACTIVE", actor: "ops@vatix", reason: "Reopen" }
+    );
+    expect(res.statusCode).toBe(400);
   });
 
   it("returns 400 for an invalid status enum value", async () => {
@@ -210,6 +269,8 @@ describe("PATCH /v1/admin/markets/:id/status", () => {
       `/v1/admin/markets/${market.id}/status`,
       {
         status: "BOGUS",
+        actor: "ops@vatix",
+        reason: "Testing",
       }
     );
     expect(res.statusCode).toBe(400);
@@ -220,10 +281,69 @@ describe("PATCH /v1/admin/markets/:id/status", () => {
       app,
       "PATCH",
       "/v1/admin/markets/00000000-0000-0000-0000-000000000000/status",
-      { status: "CANCELLED" }
+      { status: "CANCELLED", actor: "ops@vatix", reason: "Testing" }
     );
     expect(res.statusCode).toBe(404);
     const body = JSON.parse(res.body);
     expect(body.code).toBe("market_not_found");
   });
 });
+
+describe("POST /v1/admin/markets", () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    process.env.API_KEY = API_KEY;
+    process.env.ADMIN_TOKEN = ADMIN_TOKEN;
+    app = await buildTestApp({ plugins: [adminRoutes] });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    resetRateLimits();
+  });
+
+  it("creates an ACTIVE market and records its first transition", async () => {
+    const endTime = new Date(Date.now() + 86_400_000).toISOString();
+
+    const res = await authed(app, "POST", "/v1/admin/markets", {
+      question: "Will it rain tomorrow?",
+      endTime,
+      oracleAddress: "GINJ46CDSMNOSKETX3K5DU44435TGRWIQEM7ZVI3ON3BTOOFVJJHTWXO",
+      metadata: { category: "weather" },
+      actor: "ops@vatix",
+    });
+    expect(res.statusCode).toBe(201);
+
+    const body = JSON.parse(res.body);
+    expect(body.data.market.status).toBe("ACTIVE");
+    expect(body.data.market.metadata).toEqual({ category: "weather" });
+
+    const history = await authed(
+      app,
+      "GET",
+      `/v1/admin/markets/${body.data.market.id}/transitions`
+    );
+    expect(history.statusCode).toBe(200);
+    expect(JSON.parse(history.body).data.transitions).toEqual([
+      expect.objectContaining({
+        fromStatus: null,
+        toStatus: "ACTIVE",
+        actor: "ops@vatix",
+      }),
+    ]);
+  });
+
+  it("returns 400 for an endTime in the past", async () => {
+    const res = await authed(app, "POST", "/v1/admin/markets", {
+      question: "Did it rain yesterday?",
+      endTime: "2020-01-01T00:00:00Z",
+      oracleAddress: "GINJ46CDSMNOSKETX3K5DU44435TGRWIQEM7ZVI3ON3BTOOFVJJHTWXO",
+      actor: "ops@vatix",
+    });
+    expect(res.statusCode).toBe(400);
+  });
+});
@@ -1,6 +1,8 @@
 import Fastify, { type FastifyInstance } from "fastify";
+import { Keypair } from "@stellar/stellar-sdk";
 import { errorHandler } from "../../../src/api/middleware/errorHandler.js";
 import { clearRateLimitStores } from "../../../src/api/middleware/rateLimiter.js";
+import { signingService } from "../../../src/services/signing.js";
 
 export interface BuildTestAppOptions {
   /** Route plugin(s) to register, each under /v1 prefix */
@@ -10,13 +12,17 @@ export interface BuildTestAppOptions {
 /**
  * Builds a minimal Fastify test app with the real error handler and the
  * given route plugins registered under /v1. Sets API_KEY and ADMIN_TOKEN
- * env vars if not already present so auth guards resolve predictably.
+ * env vars if not already present so auth guards resolve predictably, and
+ * initializes the signing service (with a throwaway key if ORACLE_SECRET_KEY
+ * is unset) since placing an order signs receipts.
  */
 export async function buildTestApp(
   opts: BuildTestAppOptions
 ): Promise<FastifyInstance> {
   process.env.API_KEY ??= "test-api-key";
   process.env.ADMIN_TOKEN ??= "test-admin-token";
+  process.env.ORACLE_SECRET_KEY ??= Keypair.random().secret();
+  signingService.initialize();
 
   const app = Fastify({ logger: false });
   app.setErrorHandler(errorHandler);
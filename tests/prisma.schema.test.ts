@@ -32,6 +32,15 @@ describe("Prisma Schema", () => {
     expect(prisma.indexedTrade).toBeDefined();
     expect(prisma.trade).toBeDefined();
     expect(prisma.collateralDeposit).toBeDefined();
+    expect(prisma.collateralWithdrawal).toBeDefined();
+    expect(prisma.collateralBalance).toBeDefined();
+    expect(prisma.collateralLedgerEntry).toBeDefined();
+    expect(prisma.marketStatusTransition).toBeDefined();
+    expect(prisma.resolutionChallenge).toBeDefined();
+    expect(prisma.receipt).toBeDefined();
+    expect(prisma.deadLetterAudit).toBeDefined();
+    expect(prisma.tradeSettlement).toBeDefined();
+    expect(prisma.payoutCompensation).toBeDefined();
   });
 
   it("should define the expected schema models", () => {
@@ -41,15 +50,29 @@ describe("Prisma Schema", () => {
       "OracleReport",
       "UserPosition",
       "ResolutionCandidate",
+      "ResolutionChallenge",
       "Resolution",
+      "ResolutionAttempt",
+      "PayoutCompensation",
       "Position",
       "IndexerCursor",
       "IndexerProcessedEvent",
       "Trade",
+      "TradeSettlement",
+      "MarketCandle",
+      "MarketStats",
       "IndexedTrade",
+      "TradeDiscrepancy",
+      "PositionDrift",
       "OracleSourceAlias",
       "CollateralDeposit",
+      "CollateralWithdrawal",
+      "CollateralBalance",
+      "CollateralLedgerEntry",
+      "MarketStatusTransition",
+      "Receipt",
+      "DeadLetterAudit",
     ]);
-    expect(modelNames).toHaveLength(13);
+    expect(modelNames).toHaveLength(27);
   });
 });